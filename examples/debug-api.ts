@@ -1,6 +1,6 @@
 // .envファイルから環境変数を読み込む
 import 'dotenv/config'
-import { createClient } from 'openlogi-api-sdk'
+import { createClient, redact } from 'openlogi-api-sdk'
 
 async function debugApi() {
   const apiToken = process.env.OPENLOGI_API_TOKEN!
@@ -8,6 +8,8 @@ async function debugApi() {
   const client = createClient({
     apiToken,
     baseUrl: 'http://localhost:8080',
+    // リクエスト/レスポンスを出力（受取人情報・APIトークンはマスクされる）
+    logger: console,
   })
 
   try {
@@ -19,7 +21,7 @@ async function debugApi() {
     })
 
     const data = await response.json()
-    console.log('✅ Success:', JSON.stringify(data, null, 2))
+    console.log('✅ Success:', JSON.stringify(redact(data), null, 2))
   } catch (error: any) {
     console.error('❌ Error occurred')
 
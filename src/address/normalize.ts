@@ -0,0 +1,324 @@
+/**
+ * 国内住所の正規化と事前チェック
+ * 出荷依頼の作成前に、APIで拒否されやすい表記ゆれの補正と文字数の確認を行う
+ *
+ * @packageDocumentation
+ */
+
+import { lookupPostcode, type PostcodeDataset } from '../postcode/lookup.js'
+import { type CreateShipmentRequest } from '../types/shipments.js'
+import { normalizePrefecture, splitPrefecture } from './prefectures.js'
+import { normalizePhone, normalizePostcode, toHalfWidth } from './text.js'
+
+/**
+ * 国内住所（受取人・送り主）
+ */
+export interface DomesticAddressInput {
+  /** 郵便番号 */
+  postcode?: string | undefined
+  /** 都道府県 */
+  prefecture?: string | undefined
+  /** 住所1 */
+  address1?: string | undefined
+  /** 住所2 */
+  address2?: string | undefined
+  /** 名前 */
+  name?: string | undefined
+  /** 会社名 */
+  company?: string | undefined
+  /** 部署名 */
+  division?: string | undefined
+  /** 電話番号 */
+  phone?: string | undefined
+}
+
+/**
+ * 住所の正規化オプション
+ */
+export interface AddressNormalizationOptions {
+  /**
+   * 住所1の最大文字数
+   * 超えた部分は空白の位置（なければ最大文字数の位置）で区切り、住所2の先頭に移す
+   * @default 32
+   */
+  addressLineLength?: number
+
+  /**
+   * 住所1と住所2の合計の最大文字数
+   * @default 64
+   */
+  addressMaxLength?: number
+
+  /**
+   * 名前の最大文字数（配送ラベルに印字できる文字数）
+   * @default 15
+   */
+  nameMaxLength?: number
+
+  /**
+   * 会社名の最大文字数
+   * @default 16
+   */
+  companyMaxLength?: number
+
+  /**
+   * 郵便番号から判定した都道府県（区域が都道府県の境界をまたぐ場合は候補のいずれか）と照合するか
+   * 都道府県が空で住所1の先頭にもない場合は、郵便番号から都道府県が1つに決まれば補完する
+   * @default false
+   */
+  checkPostcode?: boolean
+
+  /**
+   * 照合に使用する郵便番号データ（未指定の場合は上3桁の区域から判定）
+   */
+  postcodeDataset?: PostcodeDataset
+}
+
+/**
+ * 正規化で補正できなかった問題
+ * `ValidationError` の `issues` と同じ形式
+ */
+export interface AddressIssue {
+  /** 問題のあるフィールドのパス（例: `['recipient', 'name']`） */
+  path: string[]
+  /** メッセージ */
+  message: string
+  /**
+   * 問題の種類
+   * - invalid_postcode: 郵便番号が7桁の数字でない
+   * - unknown_prefecture: 47都道府県のいずれにも一致しない
+   * - postcode_mismatch: 郵便番号と都道府県が一致しない（checkPostcode指定時）
+   * - address_too_long: 住所1と住所2の合計が最大文字数を超えている
+   * - name_too_long: 名前が最大文字数を超えている
+   * - company_too_long: 会社名が最大文字数を超えている
+   */
+  code:
+    | 'invalid_postcode'
+    | 'unknown_prefecture'
+    | 'postcode_mismatch'
+    | 'address_too_long'
+    | 'name_too_long'
+    | 'company_too_long'
+}
+
+/**
+ * 住所の正規化結果
+ */
+export interface AddressNormalizationResult<T> {
+  /** 正規化した値 */
+  value: T
+  /** 補正できなかった問題（空の場合はそのまま出荷依頼を作成できる） */
+  issues: AddressIssue[]
+}
+
+/**
+ * 住所1を最大文字数以内に収め、超えた部分を住所2の先頭に移す
+ */
+function splitAddressLine(
+  address1: string,
+  address2: string | undefined,
+  lineLength: number,
+): { address1: string; address2: string | undefined } {
+  if (address1.length <= lineLength) {
+    return { address1, address2 }
+  }
+
+  const space = address1.lastIndexOf(' ', lineLength)
+  const cut = space > 0 ? space : lineLength
+  const overflow = address1.slice(cut).trim()
+  return {
+    address1: address1.slice(0, cut).trim(),
+    address2: address2 ? `${overflow} ${address2}` : overflow,
+  }
+}
+
+/**
+ * 国内住所を正規化し、APIで拒否される問題を確認する
+ *
+ * - 全角英数字・全角スペースを半角に、英数字に挟まれたハイフンの異体字を `-` に変換
+ * - 郵便番号を半角数字7桁に正規化
+ * - 都道府県の省略・誤記を補正（都道府県が空の場合は住所1の先頭、`checkPostcode` 指定時は郵便番号から補完）
+ * - 住所1の先頭の都道府県名の重複を除去し、長すぎる住所1を住所2に分割
+ * - 電話番号を半角数字とハイフンに正規化
+ *
+ * 補正できない問題（郵便番号の桁数、不明な都道府県、文字数の超過）は `issues` に返します。
+ *
+ * @param address - 国内住所
+ * @param options - 正規化オプション
+ * @param path - `issues` のパスの接頭辞
+ * @returns 正規化した住所と問題
+ *
+ * @example
+ * ```typescript
+ * const { value, issues } = normalizeDomesticAddress({
+ *   postcode: '〒１７０－００１３',
+ *   prefecture: '東京',
+ *   address1: '豊島区東池袋１ー１ー１ サンシャインシティ ワールドインポートマートビル９階',
+ *   name: '山田太郎',
+ * })
+ * // value.postcode === '1700013', value.prefecture === '東京都'
+ * // value.address1 === '豊島区東池袋1-1-1 サンシャインシティ'
+ * ```
+ */
+export function normalizeDomesticAddress<T extends DomesticAddressInput>(
+  address: T,
+  options: AddressNormalizationOptions = {},
+  path: string[] = [],
+): AddressNormalizationResult<T> {
+  const {
+    addressLineLength = 32,
+    addressMaxLength = 64,
+    nameMaxLength = 15,
+    companyMaxLength = 16,
+  } = options
+  const issues: AddressIssue[] = []
+  const text = (value: string | undefined): string | undefined => {
+    const normalized = value === undefined ? undefined : toHalfWidth(value).trim()
+    return normalized === '' ? undefined : normalized
+  }
+
+  const value: DomesticAddressInput = { ...address }
+  let address1 = text(address.address1)
+  const address2 = text(address.address2)
+
+  if (address.postcode !== undefined) {
+    const postcode = normalizePostcode(address.postcode)
+    if (postcode) {
+      value.postcode = postcode
+    } else {
+      issues.push({
+        path: [...path, 'postcode'],
+        message: `郵便番号は7桁の数字である必要があります（${address.postcode}）`,
+        code: 'invalid_postcode',
+      })
+    }
+  }
+
+  const located =
+    options.checkPostcode && value.postcode !== undefined
+      ? lookupPostcode(value.postcode, { dataset: options.postcodeDataset })
+      : undefined
+  const leading = address1 === undefined ? undefined : splitPrefecture(address1)
+  const prefecture =
+    address.prefecture === undefined || address.prefecture.trim() === ''
+      ? (leading?.prefecture ??
+        (located?.prefectures.length === 1 ? located.prefecture : undefined))
+      : normalizePrefecture(address.prefecture)
+  if (prefecture) {
+    value.prefecture = prefecture
+    if (leading?.prefecture === prefecture) {
+      address1 = leading.rest
+    }
+    if (located && !located.prefectures.includes(prefecture)) {
+      issues.push({
+        path: [...path, 'prefecture'],
+        message: `郵便番号${located.postcode}の都道府県（${located.prefectures.join('・')}）と一致しません（${prefecture}）`,
+        code: 'postcode_mismatch',
+      })
+    }
+  } else {
+    issues.push({
+      path: [...path, 'prefecture'],
+      message:
+        address.prefecture === undefined || address.prefecture.trim() === ''
+          ? '都道府県が指定されていません'
+          : `都道府県を判定できません（${address.prefecture}）`,
+      code: 'unknown_prefecture',
+    })
+  }
+
+  if (address1 !== undefined) {
+    const lines = splitAddressLine(address1, address2, addressLineLength)
+    value.address1 = lines.address1
+    value.address2 = lines.address2
+    const length = lines.address1.length + (lines.address2?.length ?? 0)
+    if (length > addressMaxLength) {
+      issues.push({
+        path: [...path, 'address2'],
+        message: `住所1と住所2の合計（${length}文字）が${addressMaxLength}文字を超えています`,
+        code: 'address_too_long',
+      })
+    }
+  } else if (address2 !== undefined) {
+    value.address2 = address2
+  }
+
+  const name = text(address.name)
+  if (name !== undefined) {
+    value.name = name
+    if (name.length > nameMaxLength) {
+      issues.push({
+        path: [...path, 'name'],
+        message: `名前（${name.length}文字）が${nameMaxLength}文字を超えています`,
+        code: 'name_too_long',
+      })
+    }
+  }
+
+  const company = text(address.company)
+  if (company !== undefined) {
+    value.company = company
+    if (company.length > companyMaxLength) {
+      issues.push({
+        path: [...path, 'company'],
+        message: `会社名（${company.length}文字）が${companyMaxLength}文字を超えています`,
+        code: 'company_too_long',
+      })
+    }
+  }
+
+  const division = text(address.division)
+  if (division !== undefined) {
+    value.division = division
+  }
+
+  if (address.phone !== undefined) {
+    value.phone = normalizePhone(address.phone)
+  }
+
+  return { value: value as T, issues }
+}
+
+/**
+ * 国内配送の出荷依頼の受取人・送り主を正規化する
+ *
+ * `international: true` の出荷依頼はそのまま返します。
+ * `createShipment`・`bulkCreateShipments` の前に呼び出し、`issues` が空であることを確認してください。
+ *
+ * @param data - 出荷依頼作成リクエスト
+ * @param options - 正規化オプション
+ * @returns 正規化したリクエストと問題（パスは `recipient`・`sender` から始まる）
+ *
+ * @example
+ * ```typescript
+ * const { value, issues } = normalizeShipmentAddresses(request)
+ * if (issues.length > 0) {
+ *   throw new ValidationError('住所を確認してください', { issues })
+ * }
+ * await createShipment(client, value)
+ * ```
+ */
+export function normalizeShipmentAddresses(
+  data: CreateShipmentRequest,
+  options: AddressNormalizationOptions = {},
+): AddressNormalizationResult<CreateShipmentRequest> {
+  if (data.international === true) {
+    return { value: data, issues: [] }
+  }
+
+  const recipient = normalizeDomesticAddress(data.recipient as DomesticAddressInput, options, [
+    'recipient',
+  ])
+  const sender = data.sender
+    ? normalizeDomesticAddress(data.sender as DomesticAddressInput, options, ['sender'])
+    : undefined
+
+  return {
+    value: {
+      ...data,
+      recipient: { ...recipient.value },
+      ...(sender ? { sender: { ...sender.value } } : {}),
+    },
+    issues: [...recipient.issues, ...(sender?.issues ?? [])],
+  }
+}
@@ -0,0 +1,140 @@
+/**
+ * 都道府県
+ *
+ * @packageDocumentation
+ */
+
+import { toHalfWidth } from './text.js'
+
+/**
+ * 47都道府県（JIS X 0401の順）
+ */
+export const PREFECTURES = [
+  '北海道',
+  '青森県',
+  '岩手県',
+  '宮城県',
+  '秋田県',
+  '山形県',
+  '福島県',
+  '茨城県',
+  '栃木県',
+  '群馬県',
+  '埼玉県',
+  '千葉県',
+  '東京都',
+  '神奈川県',
+  '新潟県',
+  '富山県',
+  '石川県',
+  '福井県',
+  '山梨県',
+  '長野県',
+  '岐阜県',
+  '静岡県',
+  '愛知県',
+  '三重県',
+  '滋賀県',
+  '京都府',
+  '大阪府',
+  '兵庫県',
+  '奈良県',
+  '和歌山県',
+  '鳥取県',
+  '島根県',
+  '岡山県',
+  '広島県',
+  '山口県',
+  '徳島県',
+  '香川県',
+  '愛媛県',
+  '高知県',
+  '福岡県',
+  '佐賀県',
+  '長崎県',
+  '熊本県',
+  '大分県',
+  '宮崎県',
+  '鹿児島県',
+  '沖縄県',
+] as const
+
+/**
+ * 都道府県名
+ */
+export type Prefecture = (typeof PREFECTURES)[number]
+
+/**
+ * よくある誤記と正しい表記（「都道府県」を除いた部分）
+ */
+const PREFECTURE_TYPOS: Readonly<Record<string, string>> = {
+  大坂: '大阪',
+  茨木: '茨城',
+}
+
+/**
+ * 「都道府県」を除いた都道府県名（例: 東京、北海）
+ */
+const PREFECTURE_BASES = new Map<string, Prefecture>(
+  PREFECTURES.map((prefecture) => [prefecture.slice(0, -1), prefecture]),
+)
+
+/**
+ * 47都道府県のいずれかであるか
+ *
+ * @param value - 判定する文字列
+ * @returns 都道府県名と完全に一致する場合true
+ */
+export function isPrefecture(value: string): value is Prefecture {
+  return (PREFECTURES as readonly string[]).includes(value)
+}
+
+/**
+ * 都道府県名を正規化する
+ *
+ * 「都道府県」の省略（東京 → 東京都）・誤り（東京県 → 東京都）と、よくある誤記（大坂 → 大阪府）を補正します。
+ *
+ * @param value - 都道府県名
+ * @returns 正規化した都道府県名（判定できない場合はundefined）
+ *
+ * @example
+ * ```typescript
+ * normalizePrefecture('東京') // '東京都'
+ * normalizePrefecture('大坂府') // '大阪府'
+ * normalizePrefecture('トウキョウ') // undefined
+ * ```
+ */
+export function normalizePrefecture(value: string): Prefecture | undefined {
+  const text = toHalfWidth(value).replace(/\s/g, '')
+  if (isPrefecture(text)) {
+    return text
+  }
+
+  const stripped = /[都道府県]$/.test(text) ? text.slice(0, -1) : text
+  for (const base of [text, stripped]) {
+    const prefecture = PREFECTURE_BASES.get(PREFECTURE_TYPOS[base] ?? base)
+    if (prefecture) {
+      return prefecture
+    }
+  }
+  return undefined
+}
+
+/**
+ * 住所の先頭にある都道府県名を取り出す
+ *
+ * @param address - 住所
+ * @returns 都道府県名と残りの住所（先頭が都道府県名でない場合はundefined）
+ *
+ * @example
+ * ```typescript
+ * splitPrefecture('東京都豊島区東池袋1-1') // { prefecture: '東京都', rest: '豊島区東池袋1-1' }
+ * ```
+ */
+export function splitPrefecture(
+  address: string,
+): { prefecture: Prefecture; rest: string } | undefined {
+  const text = address.trimStart()
+  const prefecture = PREFECTURES.find((name) => text.startsWith(name))
+  return prefecture ? { prefecture, rest: text.slice(prefecture.length).trimStart() } : undefined
+}
@@ -0,0 +1,77 @@
+/**
+ * 住所文字列の正規化
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * 全角の英数字
+ */
+const FULL_WIDTH_ALPHANUMERIC = /[０-９Ａ-Ｚａ-ｚ]/g
+
+/**
+ * ハイフンとして使われる文字（全角ハイフン、マイナス記号、ダッシュ、長音記号など）
+ */
+const HYPHEN_VARIANTS = '\\-－﹣−‐‑‒–—―ー─━ｰ'
+
+/**
+ * 英数字に挟まれたハイフンの異体字
+ */
+const HYPHEN_BETWEEN_ALPHANUMERICS = new RegExp(
+  `(?<=[0-9A-Za-z])[${HYPHEN_VARIANTS}](?=[0-9A-Za-z])`,
+  'g',
+)
+
+/**
+ * 全角の英数字・スペースを半角に変換し、英数字に挟まれたハイフンの異体字を `-` に統一する
+ *
+ * カタカナの長音記号（ー）は、英数字に挟まれている場合のみハイフンとみなします。
+ *
+ * @param text - 変換する文字列
+ * @returns 変換した文字列
+ *
+ * @example
+ * ```typescript
+ * toHalfWidth('東池袋１ー２－３Ａ棟') // '東池袋1-2-3A棟'
+ * ```
+ */
+export function toHalfWidth(text: string): string {
+  return text
+    .replace(FULL_WIDTH_ALPHANUMERIC, (char) => String.fromCharCode(char.charCodeAt(0) - 0xfee0))
+    .replace(/\u3000/g, ' ')
+    .replace(HYPHEN_BETWEEN_ALPHANUMERICS, '-')
+}
+
+/**
+ * 郵便番号を半角数字7桁に正規化する
+ *
+ * 全角数字、ハイフンの異体字、〒記号、空白を含む表記（例: `〒１７０－００１３`）を受け付けます。
+ *
+ * @param value - 郵便番号
+ * @returns 半角数字7桁の郵便番号（7桁の数字でない場合はundefined）
+ *
+ * @example
+ * ```typescript
+ * normalizePostcode('〒１７０－００１３') // '1700013'
+ * normalizePostcode('170-001') // undefined
+ * ```
+ */
+export function normalizePostcode(value: string): string | undefined {
+  const digits = toHalfWidth(value).replace(new RegExp(`[〒\\s${HYPHEN_VARIANTS}]`, 'g'), '')
+  return /^\d{7}$/.test(digits) ? digits : undefined
+}
+
+/**
+ * 電話番号を半角数字とハイフンに正規化する
+ *
+ * @param value - 電話番号
+ * @returns 正規化した電話番号（例: `０３（１２３４）５６７８` → `03-1234-5678`）
+ */
+export function normalizePhone(value: string): string {
+  return toHalfWidth(value)
+    .trim()
+    .replace(/[（(]/g, '-')
+    .replace(/[）)]/g, '-')
+    .replace(new RegExp(`[\\s${HYPHEN_VARIANTS}]+`, 'g'), '-')
+    .replace(/^-+|-+$/g, '')
+}
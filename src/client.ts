@@ -7,6 +7,15 @@
 
 import ky, { type KyInstance, type Options, type HTTPError as KyHTTPError } from 'ky'
 import { type ZodType } from 'zod'
+import { createMiddlewareOptions, type Middleware } from './middleware.js'
+import { createLoggingMiddleware, type Logger } from './logger.js'
+import { type IdempotentCreateConfig } from './idempotency.js'
+import { RateLimiter, createRateLimitMiddleware, type RateLimitConfig } from './rate-limiter.js'
+import {
+  ResponseCache,
+  createCacheInvalidationMiddleware,
+  type ResponseCacheConfig,
+} from './response-cache.js'
 import {
   OpenLogiError,
   ApiError,
@@ -57,6 +66,49 @@ export interface ClientConfig {
         delay?: (_attemptCount: number) => number
         backoffLimit?: number
       }
+
+  /**
+   * リクエスト/レスポンスミドルウェア
+   * 登録順に実行され、`request()` と `client.http` の直接呼び出しの両方に適用される
+   * @default []
+   */
+  middleware?: Middleware[]
+
+  /**
+   * ロガー（pino/winston互換）
+   * 指定した場合、試行ごとに method、path、status、duration、attempt を出力する
+   * ボディとヘッダーは個人情報・APIトークンをマスクしてdebugレベルで出力する
+   */
+  logger?: Logger
+
+  /**
+   * 冪等作成モード
+   * 指定した場合、`createShipment`、`bulkCreateShipments`、`createTransfer` が
+   * 通信エラー・タイムアウト・5xx系で失敗したときに、`accountId` と `identifier`/`order_no` で
+   * 作成済みかを照会してから再送する（作成済みの場合は再送せずにその結果を返す）
+   * @default false
+   */
+  idempotentCreate?: IdempotentCreateConfig | false
+
+  /**
+   * クライアント側レート制限
+   * 指定した場合、このクライアントのすべてのリクエスト（リトライを含む）を
+   * 秒間リクエスト数と同時実行数で制限し、429受信時は `Retry-After` の秒数だけ全体を停止する
+   * 複数のクライアントで制限を共有する場合は、同じ `RateLimiter` インスタンスを渡す
+   * @default false
+   */
+  rateLimit?: RateLimitConfig | RateLimiter | false
+
+  /**
+   * GETリクエストのレスポンスキャッシュ
+   * 指定した場合、`request()` を経由するGETリクエストのレスポンスをメソッド・パス・クエリパラメータごとにキャッシュし、
+   * ETag・Last-Modifiedが返された場合は条件付きリクエストで、返されない場合は有効期限で再利用する
+   * POST・PUT・DELETEを送信すると、同じリソースのキャッシュは破棄される
+   * キャッシュを破棄する場合は `client.cache`、または作成した `ResponseCache` インスタンスの `clear()` を使用する
+   * `ResponseCache` インスタンスを複数のクライアントで共有した場合も、キャッシュはベースURL・APIバージョン・APIトークンごとに分かれる
+   * @default false
+   */
+  cache?: ResponseCacheConfig | ResponseCache | false
 }
 
 /**
@@ -72,6 +124,40 @@ export interface OpenLogiClient {
    * kyインスタンス
    */
   http: KyInstance
+
+  /**
+   * レスポンスキャッシュ（`cache` を指定した場合のみ）
+   */
+  cache?: ResponseCache | undefined
+}
+
+/**
+ * `request()` のオプション
+ * kyのオプション（fetchの `cache` を除く）に加えて、レスポンスキャッシュの使用を指定できる
+ */
+export interface RequestOptions extends Omit<Options, 'cache'> {
+  /**
+   * falseの場合はレスポンスキャッシュを返さずに毎回APIから取得する（取得したレスポンスはキャッシュする）
+   * ステータスの監視など、SDKを経由せずに変わる値を読む場合に指定する
+   * @default true
+   */
+  cache?: boolean | undefined
+}
+
+/**
+ * 取得系リソース関数のオプション
+ */
+export interface ReadOptions {
+  /**
+   * リクエストを中断するシグナル
+   */
+  signal?: AbortSignal | undefined
+
+  /**
+   * falseの場合はレスポンスキャッシュを使用せずにAPIから取得する
+   * @default true
+   */
+  cache?: boolean | undefined
 }
 
 /**
@@ -86,6 +172,19 @@ const DEFAULT_CONFIG = {
     methods: ['get', 'put', 'head', 'delete', 'options', 'trace'] as string[],
     statusCodes: [408, 413, 429, 500, 502, 503, 504] as number[],
   },
+  middleware: [] as Middleware[],
+  idempotentCreate: false as const,
+  rateLimit: false as const,
+  cache: false as const,
+}
+
+/**
+ * ロガー未指定時に使用する何も出力しないロガー
+ */
+const SILENT_LOGGER: Logger = {
+  info: () => {},
+  warn: () => {},
+  error: () => {},
 }
 
 /**
@@ -114,10 +213,12 @@ function parseRetryAfter(retryAfterHeader: string | null): number | undefined {
 }
 
 /**
- * HTTPErrorからカスタムエラーを生成
+ * エラーステータスのレスポンスからカスタムエラーを生成
  */
-async function createErrorFromResponse(error: KyHTTPError): Promise<OpenLogiError> {
-  const { response } = error
+async function createErrorFromResponse(
+  response: Response,
+  error?: KyHTTPError,
+): Promise<OpenLogiError> {
   const statusCode = response.status
 
   // レスポンスボディを取得（JSON形式を想定）
@@ -238,11 +339,38 @@ export function createClient(config: ClientConfig): OpenLogiClient {
       typeof config.retry === 'number'
         ? { ...DEFAULT_CONFIG.retry, limit: config.retry }
         : { ...DEFAULT_CONFIG.retry, ...config.retry },
+    middleware: config.middleware ?? DEFAULT_CONFIG.middleware,
+    logger: config.logger ?? SILENT_LOGGER,
+    idempotentCreate: config.idempotentCreate ?? DEFAULT_CONFIG.idempotentCreate,
+    rateLimit: config.rateLimit ?? DEFAULT_CONFIG.rateLimit,
+    cache: config.cache ?? DEFAULT_CONFIG.cache,
   }
+  const prefixUrl = `${mergedConfig.baseUrl}/api`
+  const cache = mergedConfig.cache
+    ? mergedConfig.cache instanceof ResponseCache
+      ? mergedConfig.cache
+      : new ResponseCache(mergedConfig.cache)
+    : undefined
+
+  // レート制限は待機後に他のミドルウェアが実行されるよう先頭に置く
+  const middleware = [
+    ...(mergedConfig.rateLimit
+      ? [
+          createRateLimitMiddleware(
+            mergedConfig.rateLimit instanceof RateLimiter
+              ? mergedConfig.rateLimit
+              : new RateLimiter(mergedConfig.rateLimit),
+          ),
+        ]
+      : []),
+    ...mergedConfig.middleware,
+    ...(cache ? [createCacheInvalidationMiddleware(cache, prefixUrl)] : []),
+    ...(config.logger ? [createLoggingMiddleware(config.logger)] : []),
+  ]
 
   // kyインスタンスを作成
   const http = ky.create({
-    prefixUrl: `${mergedConfig.baseUrl}/api`,
+    prefixUrl,
     timeout: mergedConfig.timeout,
     retry: mergedConfig.retry,
     headers: {
@@ -250,11 +378,13 @@ export function createClient(config: ClientConfig): OpenLogiClient {
       'X-Api-Version': mergedConfig.apiVersion,
       'Content-Type': 'application/json',
     },
+    ...createMiddlewareOptions(middleware, (response) => createErrorFromResponse(response)),
   })
 
   return {
     config: mergedConfig,
     http,
+    ...(cache ? { cache } : {}),
   }
 }
 
@@ -264,7 +394,7 @@ export function createClient(config: ClientConfig): OpenLogiClient {
  * @param client - OpenLogiクライアント
  * @param schema - レスポンスの検証に使用するZodスキーマ
  * @param path - APIパス（prefixUrlからの相対パス）
- * @param options - kyのオプション
+ * @param options - kyのオプションと、レスポンスキャッシュを使用するか（`cache`）
  * @returns 型安全なレスポンスデータ
  *
  * @throws {ValidationError} レスポンスがスキーマと一致しない場合
@@ -291,14 +421,48 @@ export async function request<T>(
   client: OpenLogiClient,
   schema: ZodType<T>,
   path: string,
-  options?: Options,
+  requestOptions?: RequestOptions,
 ): Promise<T> {
+  const { cache: useCache = true, ...options } = requestOptions ?? {}
+
+  // GETリクエストはレスポンスキャッシュを確認する（`cache: false` の場合は保存のみ行う）
+  const cache = (options.method ?? 'GET').toUpperCase() === 'GET' ? client.cache : undefined
+  const cacheKey = cache
+    ? ResponseCache.keyOf(path, options.searchParams, ResponseCache.scopeOf(client.config))
+    : undefined
+  const cached = cache && cacheKey && useCache ? cache.get(cacheKey) : undefined
+
   try {
-    // kyでリクエストを実行
-    const response = await client.http(path, options)
+    let text: string
+    if (cached && cached.etag === undefined && cached.lastModified === undefined) {
+      // 検証子がない場合は有効期限内のキャッシュをそのまま使う
+      text = cached.body
+    } else {
+      // kyでリクエストを実行（検証子がある場合は条件付きリクエスト）
+      const http = cached
+        ? client.http.extend({
+            headers: {
+              'If-None-Match': cached.etag,
+              'If-Modified-Since': cached.lastModified,
+            },
+          })
+        : client.http
+      const response = await http(path, options).catch((error: unknown) => {
+        if (cached && error instanceof Error && error.name === 'HTTPError') {
+          const { response } = error as KyHTTPError
+          if (response.status === 304) {
+            return undefined
+          }
+        }
+        throw error
+      })
 
-    // レスポンスボディのテキストを取得
-    const text = await response.text()
+      // レスポンスボディのテキストを取得（304の場合はキャッシュ）
+      text = response ? await response.text() : (cached?.body ?? '')
+      if (response && cache && cacheKey) {
+        cache.store(cacheKey, response, text)
+      }
+    }
 
     // レスポンスが空の場合（DELETEなど）
     if (!text || text.trim() === '') {
@@ -334,7 +498,8 @@ export async function request<T>(
 
     // kyのHTTPErrorの場合は、実際のカスタムエラーインスタンスを作成してスロー
     if (error instanceof Error && 'response' in error && error.name === 'HTTPError') {
-      const customError = await createErrorFromResponse(error as KyHTTPError)
+      const httpError = error as KyHTTPError
+      const customError = await createErrorFromResponse(httpError.response, httpError)
       throw customError
     }
 
@@ -0,0 +1,156 @@
+/**
+ * CSVの列とリクエストのフィールドの対応付け
+ *
+ * @packageDocumentation
+ */
+
+import { type CsvRow } from './parse.js'
+
+/**
+ * セルの値の変換方法
+ * - string: 文字列のまま
+ * - integer: 整数（整数として読めない場合は文字列のまま残し、スキーマの検証でエラーにする）
+ * - boolean: true/false/1/0/yes/no（大文字小文字を区別しない）
+ * - list: 区切り文字で分割した文字列の配列
+ * - quantities: `コード:数量` を区切り文字で並べた `{ code, quantity }` の配列
+ *
+ * @internal
+ */
+export type CsvFieldType = 'string' | 'integer' | 'boolean' | 'list' | 'quantities'
+
+/**
+ * 列の対応付けの設定
+ *
+ * @internal
+ */
+export interface CsvColumnMapping<F extends string> {
+  /** フィールド（ドット区切りでネストを表す）ごとの変換方法 */
+  fields: Readonly<Record<F, CsvFieldType>>
+  /** フィールドに対応するヘッダー名（未指定のフィールドはフィールド名と同じヘッダー） */
+  columns: Partial<Record<F, string>>
+  /** list/quantitiesの区切り文字 */
+  listSeparator: string
+}
+
+const BOOLEAN_VALUES: Readonly<Record<string, boolean>> = {
+  true: true,
+  false: false,
+  '1': true,
+  '0': false,
+  yes: true,
+  no: false,
+}
+
+/**
+ * フィールドに対応するヘッダー名
+ *
+ * @internal
+ */
+export function columnFor<F extends string>(mapping: CsvColumnMapping<F>, field: F): string {
+  return mapping.columns[field] ?? field
+}
+
+/**
+ * どのフィールドにも対応しないヘッダー名を返す
+ *
+ * @internal
+ */
+export function findUnknownColumns<F extends string>(
+  mapping: CsvColumnMapping<F>,
+  headers: readonly string[],
+): string[] {
+  const known = new Set(
+    (Object.keys(mapping.fields) as F[]).map((field) => columnFor(mapping, field)),
+  )
+  return headers.filter((header) => header !== '' && !known.has(header))
+}
+
+/**
+ * セルの値を変換する
+ */
+function convert(value: string, type: CsvFieldType, listSeparator: string): unknown {
+  switch (type) {
+    case 'string':
+      return value
+    case 'integer':
+      return /^-?\d+$/.test(value) ? Number(value) : value
+    case 'boolean':
+      return BOOLEAN_VALUES[value.toLowerCase()] ?? value
+    case 'list':
+      return value
+        .split(listSeparator)
+        .map((entry) => entry.trim())
+        .filter((entry) => entry !== '')
+    case 'quantities':
+      return value
+        .split(listSeparator)
+        .map((entry) => entry.trim())
+        .filter((entry) => entry !== '')
+        .map((entry) => {
+          const separator = entry.lastIndexOf(':')
+          if (separator === -1) {
+            return { code: entry, quantity: 1 }
+          }
+          const quantity = entry.slice(separator + 1).trim()
+          return {
+            code: entry.slice(0, separator).trim(),
+            quantity: /^\d+$/.test(quantity) ? Number(quantity) : quantity,
+          }
+        })
+  }
+}
+
+/**
+ * 1行分のセルをリクエストのオブジェクトに変換する
+ * 空のセル（前後の空白を除去して空文字）のフィールドは含めない
+ *
+ * @internal
+ */
+export function buildRecord<F extends string>(
+  mapping: CsvColumnMapping<F>,
+  row: CsvRow,
+): Record<string, unknown> {
+  const record: Record<string, unknown> = {}
+  for (const field of Object.keys(mapping.fields) as F[]) {
+    const value = row.values[columnFor(mapping, field)]?.trim() ?? ''
+    if (value === '') {
+      continue
+    }
+
+    const keys = field.split('.')
+    let target = record
+    for (const key of keys.slice(0, -1)) {
+      target[key] ??= {}
+      target = target[key] as Record<string, unknown>
+    }
+    target[keys[keys.length - 1] ?? field] = convert(
+      value,
+      mapping.fields[field],
+      mapping.listSeparator,
+    )
+  }
+  return record
+}
+
+/**
+ * 検証エラーのパスに対応するヘッダー名を返す
+ * パスに一致するフィールドのうち最も長いものを対象とする
+ *
+ * @internal
+ */
+export function columnForPath<F extends string>(
+  mapping: CsvColumnMapping<F>,
+  path: ReadonlyArray<string | number>,
+): string | undefined {
+  const dotted = path.join('.')
+  let matched: F | undefined
+  for (const field of Object.keys(mapping.fields) as F[]) {
+    if (
+      (dotted === field || dotted.startsWith(`${field}.`)) &&
+      (matched === undefined || field.length > matched.length)
+    ) {
+      matched = field
+    }
+  }
+  return matched === undefined ? undefined : columnFor(mapping, matched)
+}
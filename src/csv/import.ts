@@ -0,0 +1,79 @@
+/**
+ * CSVインポートの共通処理
+ * 検証済みの行を `createInBatches` で分割して一括登録し、失敗したチャンクを行番号とともに記録する
+ *
+ * @packageDocumentation
+ */
+
+import { createInBatches, type BulkCreateHandlers } from '../utils/batch.js'
+import { type CsvRowError } from './parse.js'
+
+/**
+ * 一括登録の処理内容
+ * 行の検証は読み込み時に済んでいるため、要素の検証（`validate`）は行わない
+ *
+ * @internal
+ */
+export interface CsvImportHandlers<E, I, T> extends Omit<BulkCreateHandlers<T, I>, 'validate'> {
+  /** エントリの行番号 */
+  linesOf: (_entry: E) => number[]
+  /** エントリを一括登録リクエストの要素に変換する */
+  inputOf: (_entry: E) => I
+}
+
+/**
+ * CSVインポートの登録結果
+ *
+ * @internal
+ */
+export interface CsvImportResult<T> {
+  /** 登録された結果 */
+  created: T[]
+  /** 一括登録に失敗したチャンク（行番号と発生したエラー） */
+  failedChunks: Array<{ lines: number[]; error: unknown }>
+}
+
+/**
+ * 検証済みのエントリを100件ずつに分割して一括登録する
+ *
+ * 検証エラーのある行が1行でもある場合は、`skipInvalid` がtrueでない限り何も登録しません。
+ * 一括登録に失敗したチャンクは `failedChunks` に記録し、残りのチャンクの登録を続けます。
+ * 一括登録の結果に含まれなかった要素は、要素ごとに `failedChunks` に記録します。
+ *
+ * @internal
+ * @param errors - 読み込み時の検証エラー
+ * @param entries - 検証に成功したエントリ（キーは重複しない）
+ * @param options - 検証エラー時の動作と並列数
+ * @param handlers - 変換・キー・一括登録の処理
+ * @returns 登録結果と失敗したチャンク
+ */
+export async function importCsvEntries<E, I, T>(
+  errors: readonly CsvRowError[],
+  entries: readonly E[],
+  options: { skipInvalid?: boolean | undefined; concurrency?: number | undefined },
+  handlers: CsvImportHandlers<E, I, T>,
+): Promise<CsvImportResult<T>> {
+  const { skipInvalid = false, concurrency = 1 } = options
+  if (errors.length > 0 && !skipInvalid) {
+    return { created: [], failedChunks: [] }
+  }
+
+  const { succeeded, failed } = await createInBatches(
+    entries.map(handlers.inputOf),
+    { concurrency },
+    { ...handlers, validate: () => undefined },
+  )
+
+  // 同じチャンクの要素は同じエラーを持つため、エラーごとに行番号をまとめる
+  const linesByError = new Map<unknown, number[]>()
+  for (const { index, error } of failed) {
+    const entry = entries[index]
+    const lines = entry === undefined ? [] : handlers.linesOf(entry)
+    linesByError.set(error, [...(linesByError.get(error) ?? []), ...lines])
+  }
+
+  return {
+    created: succeeded.map(({ result }) => result),
+    failedChunks: [...linesByError].map(([error, lines]) => ({ lines, error })),
+  }
+}
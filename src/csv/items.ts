@@ -0,0 +1,263 @@
+/**
+ * 商品のCSVインポート
+ * CSV/TSVの各行を商品作成リクエストに変換し、100件ずつ一括登録する
+ *
+ * @packageDocumentation
+ */
+
+import { type OpenLogiClient } from '../client.js'
+import { bulkCreateItems } from '../resources/items.js'
+import {
+  CreateItemRequestSchema,
+  type BulkItemRequest,
+  type CreateItemRequest,
+  type ItemResponse,
+} from '../types/items.js'
+import { chunk, MAX_ITEMS_PER_BULK_REQUEST } from '../utils/batch.js'
+import {
+  buildRecord,
+  columnFor,
+  columnForPath,
+  findUnknownColumns,
+  type CsvColumnMapping,
+} from './fields.js'
+import { importCsvEntries } from './import.js'
+import { describeIssue } from './messages.js'
+import { readCsvTable, type CsvParseOptions, type CsvRowError } from './parse.js'
+
+/**
+ * CSVから読み込む商品のフィールドと変換方法
+ */
+const ITEM_CSV_FIELDS = {
+  code: 'string',
+  name: 'string',
+  price: 'integer',
+  is_reduced_tax: 'boolean',
+  hs_code: 'string',
+  barcode: 'string',
+  'international_info.invoice_summary': 'string',
+  'international_info.origin': 'string',
+  child_items: 'quantities',
+  tags: 'list',
+  temperature_zone: 'string',
+  fifo: 'boolean',
+  lot_limit_type: 'string',
+  expiry_at_allocatable_days: 'integer',
+  manufacture_date_allocatable_days: 'integer',
+} as const
+
+/**
+ * CSVから読み込める商品のフィールド
+ * ネストしたフィールドはドット区切り（例: `international_info.origin`）
+ */
+export type ItemCsvField = keyof typeof ITEM_CSV_FIELDS
+
+/**
+ * CSVから読み込める商品のフィールド一覧（デフォルトのヘッダー名）
+ */
+export const ITEM_CSV_COLUMNS = Object.keys(ITEM_CSV_FIELDS) as readonly ItemCsvField[]
+
+/**
+ * 商品CSVの読み込みオプション
+ */
+export interface ItemCsvParseOptions extends CsvParseOptions {
+  /**
+   * フィールドに対応するヘッダー名
+   * 未指定のフィールドはフィールド名と同じヘッダーから読み込む
+   *
+   * @example
+   * ```typescript
+   * { code: '商品コード', name: '商品名', 'international_info.origin': '原産国' }
+   * ```
+   */
+  columns?: Partial<Record<ItemCsvField, string>>
+
+  /**
+   * tags・child_itemsの区切り文字
+   * child_itemsは `コード:数量` を区切り文字で並べる（例: `SET-A:2;SET-B:1`）
+   * @default ';'
+   */
+  listSeparator?: string
+}
+
+/**
+ * 検証に成功した行
+ */
+export interface ItemCsvRow {
+  /** 行番号（1始まり、ヘッダー行が1） */
+  line: number
+  /** 商品作成リクエスト */
+  item: CreateItemRequest
+}
+
+/**
+ * 商品CSVの読み込み結果
+ */
+export interface ItemCsvParseResult {
+  /** データ行の件数（空行を除く） */
+  totalRows: number
+  /** 検証に成功した行 */
+  rows: ItemCsvRow[]
+  /** 検証に失敗した行のエラー（1行に複数のエラーがある場合は列ごと） */
+  errors: CsvRowError[]
+  /** 検証に成功した行を100件ずつに分割した一括登録リクエスト */
+  chunks: BulkItemRequest[]
+  /** どのフィールドにも対応しないヘッダー名（読み込まれない列） */
+  unknownColumns: string[]
+}
+
+/**
+ * 商品CSVを読み込み、各行を検証する
+ *
+ * APIは呼び出しません。登録前の確認（ドライラン）に使用できます。
+ * 同じ商品コードが複数の行にある場合は、2件目以降をエラーとします。
+ *
+ * @param text - CSV/TSVの文字列
+ * @param options - 読み込みオプション
+ * @returns 検証結果と一括登録リクエスト
+ *
+ * @throws {ValidationError} ヘッダー行がない場合、またはダブルクォートが閉じられていない場合
+ *
+ * @example
+ * ```typescript
+ * const result = parseItemsCsv(await readFile('items.csv', 'utf8'), {
+ *   columns: { code: '商品コード', name: '商品名', price: '価格' },
+ * })
+ * for (const error of result.errors) {
+ *   console.error(`${error.line}行目 ${error.column ?? ''}: ${error.message}`)
+ * }
+ * ```
+ */
+export function parseItemsCsv(text: string, options: ItemCsvParseOptions = {}): ItemCsvParseResult {
+  const mapping: CsvColumnMapping<ItemCsvField> = {
+    fields: ITEM_CSV_FIELDS,
+    columns: options.columns ?? {},
+    listSeparator: options.listSeparator ?? ';',
+  }
+  const table = readCsvTable(text, options)
+  const errors = [...table.errors]
+  const rows: ItemCsvRow[] = []
+  const lineByCode = new Map<string, number>()
+
+  for (const row of table.rows) {
+    const result = CreateItemRequestSchema.safeParse(buildRecord(mapping, row))
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const { ja, en } = describeIssue(issue)
+        errors.push({
+          line: row.line,
+          column: columnForPath(mapping, issue.path),
+          message: ja,
+          messageEn: en,
+          code: issue.code,
+        })
+      }
+      continue
+    }
+
+    const firstLine = lineByCode.get(result.data.code)
+    if (firstLine !== undefined) {
+      errors.push({
+        line: row.line,
+        column: columnFor(mapping, 'code'),
+        message: `商品コード ${result.data.code} は${firstLine}行目と重複しています`,
+        messageEn: `Item code ${result.data.code} duplicates line ${firstLine}`,
+        code: 'duplicate',
+      })
+      continue
+    }
+    lineByCode.set(result.data.code, row.line)
+    rows.push({ line: row.line, item: result.data })
+  }
+
+  errors.sort((a, b) => a.line - b.line)
+
+  return {
+    totalRows: table.rows.length + table.errors.length,
+    rows,
+    errors,
+    chunks: chunk(rows, MAX_ITEMS_PER_BULK_REQUEST).map((entries) => ({
+      items: entries.map(({ item }) => item),
+    })),
+    unknownColumns: findUnknownColumns(mapping, table.headers),
+  }
+}
+
+/**
+ * 商品CSVのインポートオプション
+ */
+export interface ItemCsvImportOptions extends ItemCsvParseOptions {
+  /**
+   * 検証に失敗した行があっても、成功した行を登録するか
+   * falseの場合、1行でもエラーがあれば何も登録しない
+   * @default false
+   */
+  skipInvalid?: boolean
+
+  /**
+   * 一括登録の最大並列リクエスト数
+   * @default 1
+   */
+  concurrency?: number
+}
+
+/**
+ * 一括登録に失敗したチャンク
+ */
+export interface ItemCsvFailedChunk {
+  /** チャンクに含まれる行番号 */
+  lines: number[]
+  /** 発生したエラー */
+  error: unknown
+}
+
+/**
+ * 商品CSVのインポート結果
+ */
+export interface ItemCsvImportReport extends ItemCsvParseResult {
+  /** 登録された商品 */
+  created: ItemResponse[]
+  /** 一括登録に失敗したチャンク */
+  failedChunks: ItemCsvFailedChunk[]
+}
+
+/**
+ * 商品CSVを読み込み、100件ずつ一括登録する
+ *
+ * 検証エラーのある行が1行でもある場合は、`skipInvalid: true` を指定しない限り何も登録しません。
+ * 一括登録に失敗したチャンクは `failedChunks` に記録し、残りのチャンクの登録を続けます。
+ *
+ * @param client - OpenLogiクライアント
+ * @param text - CSV/TSVの文字列
+ * @param options - インポートオプション
+ * @returns 検証結果と登録結果
+ *
+ * @throws {ValidationError} ヘッダー行がない場合、またはダブルクォートが閉じられていない場合
+ *
+ * @example
+ * ```typescript
+ * const report = await importItemsCsv(client, await readFile('items.csv', 'utf8'))
+ * console.log(`${report.created.length}/${report.totalRows}件を登録しました`)
+ * ```
+ */
+export async function importItemsCsv(
+  client: OpenLogiClient,
+  text: string,
+  options: ItemCsvImportOptions = {},
+): Promise<ItemCsvImportReport> {
+  const { skipInvalid, concurrency, ...parseOptions } = options
+  const parsed = parseItemsCsv(text, parseOptions)
+  const result = await importCsvEntries(
+    parsed.errors,
+    parsed.rows,
+    { skipInvalid, concurrency },
+    {
+      linesOf: ({ line }) => [line],
+      inputOf: ({ item }) => item,
+      createChunk: async (items) => (await bulkCreateItems(client, { items })).items,
+      keyOf: (item) => item.code,
+      resultKeyOf: (item) => item.code,
+    },
+  )
+  return { ...parsed, ...result }
+}
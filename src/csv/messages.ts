@@ -0,0 +1,140 @@
+/**
+ * CSVインポートのエラーメッセージ（日本語・英語）
+ *
+ * @packageDocumentation
+ */
+
+import { type ZodIssue } from 'zod'
+import { type CsvRowError } from './parse.js'
+
+/**
+ * 日本語・英語のメッセージ
+ *
+ * @internal
+ */
+export interface LocalizedMessage {
+  ja: string
+  en: string
+}
+
+/**
+ * エラーレポートの言語
+ */
+export type CsvErrorLocale = 'ja' | 'en'
+
+/**
+ * スキーマで独自に定義しているメッセージの日本語・英語
+ */
+const CUSTOM_MESSAGES: Readonly<Record<string, LocalizedMessage>> = {
+  identifierまたはorder_noのいずれかを指定してください: {
+    ja: 'identifierまたはorder_noのいずれかを指定してください',
+    en: 'Either identifier or order_no is required',
+  },
+  address1とaddress2の合計文字数は64文字以内である必要があります: {
+    ja: 'address1とaddress2の合計文字数は64文字以内である必要があります',
+    en: 'address1 and address2 must be 64 characters or less in total',
+  },
+  'bundled_items must contain unique values': {
+    ja: 'bundled_itemsの値が重複しています',
+    en: 'bundled_items must contain unique values',
+  },
+}
+
+/**
+ * ひらがな・カタカナ・漢字
+ */
+const JAPANESE = /[\u3040-\u30ff\u4e00-\u9fff]/
+
+/**
+ * 長さ・大きさ・件数の制約のメッセージ
+ */
+function describeBound(issue: ZodIssue & { code: 'too_small' | 'too_big' }): LocalizedMessage {
+  const small = issue.code === 'too_small'
+  const bound = Number(small ? issue.minimum : issue.maximum)
+  switch (issue.type) {
+    case 'string':
+      if (small && bound === 1) {
+        return { ja: '必須です', en: 'Required' }
+      }
+      return small
+        ? { ja: `${bound}文字以上である必要があります`, en: `Must be at least ${bound} characters` }
+        : { ja: `${bound}文字以内である必要があります`, en: `Must be at most ${bound} characters` }
+    case 'array':
+      return small
+        ? { ja: `${bound}件以上である必要があります`, en: `Must contain at least ${bound} item(s)` }
+        : { ja: `${bound}件以内である必要があります`, en: `Must contain at most ${bound} item(s)` }
+    default:
+      return small
+        ? {
+            ja: `${bound}以上である必要があります`,
+            en: `Must be greater than or equal to ${bound}`,
+          }
+        : { ja: `${bound}以下である必要があります`, en: `Must be less than or equal to ${bound}` }
+  }
+}
+
+/**
+ * 検証エラーを日本語・英語のメッセージに変換する
+ * スキーマに日本語のメッセージが定義されている場合は、日本語はそのメッセージを使用する
+ *
+ * @internal
+ */
+export function describeIssue(issue: ZodIssue): LocalizedMessage {
+  const custom = CUSTOM_MESSAGES[issue.message]
+  if (custom) {
+    return custom
+  }
+
+  const described = ((): LocalizedMessage => {
+    switch (issue.code) {
+      case 'invalid_type':
+        return issue.received === 'undefined'
+          ? { ja: '必須です', en: 'Required' }
+          : {
+              ja: `${issue.expected}型である必要があります（${issue.received}）`,
+              en: `Expected ${issue.expected}, received ${issue.received}`,
+            }
+      case 'too_small':
+      case 'too_big':
+        return describeBound(issue)
+      case 'invalid_string':
+        return issue.validation === 'email'
+          ? { ja: 'メールアドレスの形式が正しくありません', en: 'Invalid email address' }
+          : { ja: '形式が正しくありません', en: 'Invalid format' }
+      case 'invalid_enum_value':
+        return {
+          ja: `${issue.options.join(', ')} のいずれかである必要があります`,
+          en: `Must be one of: ${issue.options.join(', ')}`,
+        }
+      case 'invalid_union':
+        return { ja: '値が正しくありません', en: 'Invalid value' }
+      default:
+        return { ja: issue.message, en: issue.message }
+    }
+  })()
+
+  return JAPANESE.test(issue.message) ? { ...described, ja: issue.message } : described
+}
+
+/**
+ * 行単位のエラーを、行番号・列名つきの1行ずつのメッセージに整形する
+ *
+ * @param errors - 行単位のエラー
+ * @param locale - 言語
+ * @returns 整形したメッセージ
+ *
+ * @example
+ * ```typescript
+ * formatCsvErrors(result.errors, 'en')
+ * // ['Line 3 [recipient.postcode]: Invalid format', ...]
+ * ```
+ */
+export function formatCsvErrors(
+  errors: readonly CsvRowError[],
+  locale: CsvErrorLocale = 'ja',
+): string[] {
+  return errors.map(({ line, column, message, messageEn }) => {
+    const at = column === undefined ? '' : ` [${column}]`
+    return locale === 'ja' ? `${line}行目${at}: ${message}` : `Line ${line}${at}: ${messageEn}`
+  })
+}
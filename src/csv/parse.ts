@@ -0,0 +1,196 @@
+/**
+ * CSV/TSVの読み込み
+ * RFC 4180形式（ダブルクォートによるエスケープ、セル内改行）に対応する
+ *
+ * @packageDocumentation
+ */
+
+import { ValidationError } from '../errors.js'
+
+/**
+ * CSV/TSVの読み込みオプション
+ */
+export interface CsvParseOptions {
+  /**
+   * 区切り文字
+   * 'auto' の場合はヘッダー行にタブが含まれていればTSV、それ以外はCSVとして読み込む
+   * @default 'auto'
+   */
+  delimiter?: ',' | '\t' | 'auto'
+}
+
+/**
+ * 行単位のエラー
+ */
+export interface CsvRowError {
+  /** エラーが発生した行番号（1始まり、ヘッダー行が1） */
+  line: number
+  /** エラーが発生した列のヘッダー名（行全体のエラーの場合はundefined） */
+  column: string | undefined
+  /** エラーメッセージ（日本語） */
+  message: string
+  /** エラーメッセージ（英語） */
+  messageEn: string
+  /** エラーコード（Zodのissueコード、またはCSV独自のコード） */
+  code: string
+}
+
+/**
+ * ヘッダー名をキーとした1行分のデータ
+ *
+ * @internal
+ */
+export interface CsvRow {
+  /** 行番号（1始まり、セル内改行がある場合は行の開始位置） */
+  line: number
+  /** ヘッダー名をキーとしたセルの値 */
+  values: Record<string, string>
+}
+
+/**
+ * 読み込んだCSV/TSV
+ *
+ * @internal
+ */
+export interface CsvTable {
+  /** ヘッダー名（前後の空白を除去） */
+  headers: string[]
+  /** データ行（空行を除く） */
+  rows: CsvRow[]
+  /** 列数がヘッダーより多い行のエラー */
+  errors: CsvRowError[]
+}
+
+/**
+ * 区切り文字を決定する
+ */
+function detectDelimiter(text: string, delimiter: CsvParseOptions['delimiter']): string {
+  if (delimiter !== undefined && delimiter !== 'auto') {
+    return delimiter
+  }
+  const newline = text.indexOf('\n')
+  const headerLine = newline === -1 ? text : text.slice(0, newline)
+  return headerLine.includes('\t') ? '\t' : ','
+}
+
+/**
+ * CSV/TSVをレコード（行番号とセルの配列）に分割する
+ * 空行は含めない
+ *
+ * @internal
+ * @throws {ValidationError} ダブルクォートが閉じられていない場合
+ */
+export function splitRecords(
+  text: string,
+  delimiter: string,
+): Array<{ line: number; cells: string[] }> {
+  const records: Array<{ line: number; cells: string[] }> = []
+  let cells: string[] = []
+  let cell = ''
+  let quoted = false
+  let line = 1
+  let recordLine = 1
+  let quoteLine = 1
+
+  const endRecord = (): void => {
+    cells.push(cell)
+    // 空行は読み飛ばす
+    if (cells.length > 1 || cells[0] !== '') {
+      records.push({ line: recordLine, cells })
+    }
+    cells = []
+    cell = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else {
+          quoted = false
+        }
+      } else {
+        if (char === '\n') {
+          line++
+        }
+        cell += char
+      }
+    } else if (char === '"' && cell === '') {
+      quoted = true
+      quoteLine = line
+    } else if (char === delimiter) {
+      cells.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') {
+        i++
+      }
+      endRecord()
+      line++
+      recordLine = line
+    } else {
+      cell += char
+    }
+  }
+
+  if (quoted) {
+    throw new ValidationError(`${quoteLine}行目のダブルクォートが閉じられていません`, {
+      issues: [
+        { path: [quoteLine], message: 'ダブルクォートが閉じられていません', code: 'invalid_csv' },
+      ],
+    })
+  }
+  endRecord()
+  return records
+}
+
+/**
+ * CSV/TSVを読み込み、ヘッダー名をキーとした行に変換する
+ *
+ * 先頭のBOMは除去します。列数がヘッダーより少ない行は不足分を空文字として扱い、
+ * 多い行はエラーとして除外します。
+ *
+ * @internal
+ * @param text - CSV/TSVの文字列
+ * @param options - 読み込みオプション
+ * @returns ヘッダーとデータ行
+ *
+ * @throws {ValidationError} ヘッダー行がない場合、またはダブルクォートが閉じられていない場合
+ */
+export function readCsvTable(text: string, options: CsvParseOptions = {}): CsvTable {
+  const source = text.startsWith('\uFEFF') ? text.slice(1) : text
+  const [header, ...records] = splitRecords(source, detectDelimiter(source, options.delimiter))
+  if (!header) {
+    throw new ValidationError('ヘッダー行がありません', {
+      issues: [{ path: [], message: 'ヘッダー行がありません', code: 'invalid_csv' }],
+    })
+  }
+
+  const headers = header.cells.map((name) => name.trim())
+  const rows: CsvRow[] = []
+  const errors: CsvRowError[] = []
+
+  for (const { line, cells } of records) {
+    if (cells.length > headers.length) {
+      errors.push({
+        line,
+        column: undefined,
+        message: `列数（${cells.length}）がヘッダーの列数（${headers.length}）を超えています`,
+        messageEn: `Row has ${cells.length} columns, more than the ${headers.length} header columns`,
+        code: 'too_many_columns',
+      })
+      continue
+    }
+
+    const values: Record<string, string> = {}
+    headers.forEach((name, index) => {
+      values[name] = cells[index] ?? ''
+    })
+    rows.push({ line, values })
+  }
+
+  return { headers, rows, errors }
+}
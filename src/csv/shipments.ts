@@ -0,0 +1,433 @@
+/**
+ * 出荷依頼のCSVインポート
+ * 同じ注文番号の行を1件の出荷依頼（複数商品）にまとめ、国内・国際の住所を判定して一括作成する
+ *
+ * @packageDocumentation
+ */
+
+import { type OpenLogiClient } from '../client.js'
+import { bulkCreateShipments } from '../resources/shipments.js'
+import {
+  CreateShipmentRequestSchema,
+  type BulkShipmentRequest,
+  type CreateShipmentRequest,
+  type ShipmentResponse,
+} from '../types/shipments.js'
+import { chunk, MAX_ITEMS_PER_BULK_REQUEST } from '../utils/batch.js'
+import {
+  buildRecord,
+  columnFor,
+  columnForPath,
+  findUnknownColumns,
+  type CsvColumnMapping,
+} from './fields.js'
+import { importCsvEntries } from './import.js'
+import { describeIssue } from './messages.js'
+import { readCsvTable, type CsvParseOptions, type CsvRow, type CsvRowError } from './parse.js'
+
+/**
+ * CSVから読み込む出荷依頼のフィールドと変換方法
+ * 同じ出荷依頼の行では同じ値を指定する（空のセルは他の行の値を使用する）
+ */
+const SHIPMENT_CSV_FIELDS = {
+  identifier: 'string',
+  order_no: 'string',
+  international: 'boolean',
+  'recipient.postcode': 'string',
+  'recipient.prefecture': 'string',
+  'recipient.address1': 'string',
+  'recipient.address2': 'string',
+  'recipient.name': 'string',
+  'recipient.company': 'string',
+  'recipient.division': 'string',
+  'recipient.phone': 'string',
+  'recipient.region_code': 'string',
+  'recipient.city': 'string',
+  'recipient.address': 'string',
+  'sender.postcode': 'string',
+  'sender.prefecture': 'string',
+  'sender.address1': 'string',
+  'sender.address2': 'string',
+  'sender.name': 'string',
+  'sender.company': 'string',
+  'sender.division': 'string',
+  'sender.phone': 'string',
+  subtotal_amount: 'integer',
+  delivery_charge: 'integer',
+  handling_charge: 'integer',
+  discount_amount: 'integer',
+  total_amount: 'integer',
+  tax: 'integer',
+  delivery_carrier: 'string',
+  delivery_time_slot: 'string',
+  delivery_date: 'string',
+  delivery_method: 'string',
+  cash_on_delivery: 'boolean',
+  total_for_cash_on_delivery: 'integer',
+  currency_code: 'string',
+  insurance: 'boolean',
+  purpose: 'string',
+  duty_paid: 'boolean',
+  warehouse: 'string',
+  backorder_if_unavailable: 'boolean',
+  assigned_shipping_date: 'string',
+  label_note: 'string',
+  gift_sender_name: 'string',
+  bundled_items: 'list',
+  shipping_email: 'string',
+  message: 'string',
+  suspend: 'boolean',
+  shipping_date: 'string',
+} as const
+
+/**
+ * CSVから読み込む出荷商品のフィールドと変換方法（1行につき1商品）
+ */
+const SHIPMENT_ITEM_CSV_FIELDS = {
+  'items.code': 'string',
+  'items.name': 'string',
+  'items.quantity': 'integer',
+  'items.unit_price': 'integer',
+  'items.price': 'integer',
+  'items.is_reduced_tax': 'boolean',
+  'items.backorder_if_unavailable': 'boolean',
+  'items.hs_code': 'string',
+} as const
+
+type ShipmentOrderCsvField = keyof typeof SHIPMENT_CSV_FIELDS
+type ShipmentItemCsvField = keyof typeof SHIPMENT_ITEM_CSV_FIELDS
+
+/**
+ * CSVから読み込める出荷依頼のフィールド
+ * ネストしたフィールドはドット区切り（例: `recipient.postcode`）、出荷商品は `items.` で始まる
+ */
+export type ShipmentCsvField = ShipmentOrderCsvField | ShipmentItemCsvField
+
+/**
+ * CSVから読み込める出荷依頼のフィールド一覧（デフォルトのヘッダー名）
+ */
+export const SHIPMENT_CSV_COLUMNS = [
+  ...Object.keys(SHIPMENT_CSV_FIELDS),
+  ...Object.keys(SHIPMENT_ITEM_CSV_FIELDS),
+] as readonly ShipmentCsvField[]
+
+/**
+ * 出荷依頼CSVの読み込みオプション
+ */
+export interface ShipmentCsvParseOptions extends CsvParseOptions {
+  /**
+   * フィールドに対応するヘッダー名
+   * 未指定のフィールドはフィールド名と同じヘッダーから読み込む
+   *
+   * @example
+   * ```typescript
+   * { order_no: '注文番号', 'recipient.name': 'お届け先名', 'items.code': '商品コード' }
+   * ```
+   */
+  columns?: Partial<Record<ShipmentCsvField, string>>
+
+  /**
+   * bundled_itemsの区切り文字
+   * @default ';'
+   */
+  listSeparator?: string
+}
+
+/**
+ * 検証に成功した出荷依頼
+ */
+export interface ShipmentCsvEntry {
+  /** 出荷依頼を構成する行番号（1始まり、ヘッダー行が1） */
+  lines: number[]
+  /** 出荷依頼作成リクエスト */
+  shipment: CreateShipmentRequest
+}
+
+/**
+ * 出荷依頼CSVの読み込み結果
+ */
+export interface ShipmentCsvParseResult {
+  /** データ行の件数（空行を除く） */
+  totalRows: number
+  /** 検証に成功した出荷依頼 */
+  shipments: ShipmentCsvEntry[]
+  /** 検証に失敗した行のエラー（1行に複数のエラーがある場合は列ごと） */
+  errors: CsvRowError[]
+  /** 検証に成功した出荷依頼を100件ずつに分割した一括作成リクエスト */
+  chunks: BulkShipmentRequest[]
+  /** どのフィールドにも対応しないヘッダー名（読み込まれない列） */
+  unknownColumns: string[]
+}
+
+/**
+ * 注文番号（なければ識別子）で行をまとめる
+ * どちらもない行は1行で1件の出荷依頼とする
+ */
+function groupRows(
+  rows: readonly CsvRow[],
+  mapping: CsvColumnMapping<ShipmentOrderCsvField>,
+): CsvRow[][] {
+  const groups = new Map<string, CsvRow[]>()
+  for (const row of rows) {
+    const orderNo = row.values[columnFor(mapping, 'order_no')]?.trim() ?? ''
+    const identifier = row.values[columnFor(mapping, 'identifier')]?.trim() ?? ''
+    const key =
+      orderNo !== ''
+        ? `order_no:${orderNo}`
+        : identifier !== ''
+          ? `identifier:${identifier}`
+          : `line:${row.line}`
+    const group = groups.get(key)
+    if (group) {
+      group.push(row)
+    } else {
+      groups.set(key, [row])
+    }
+  }
+  return [...groups.values()]
+}
+
+/**
+ * 一括作成の結果と対応付けるキー（`groupRows` と同じく注文番号、なければ識別子）
+ */
+function orderKey(shipment: {
+  order_no?: string | undefined
+  identifier?: string | undefined
+}): string | undefined {
+  if (shipment.order_no !== undefined) {
+    return `order_no:${shipment.order_no}`
+  }
+  return shipment.identifier === undefined ? undefined : `identifier:${shipment.identifier}`
+}
+
+/**
+ * 出荷依頼単位の列の値を1行にまとめる
+ * 空のセルは他の行の値で補い、値が異なる行はエラーとする
+ */
+function mergeOrderValues(
+  rows: readonly CsvRow[],
+  mapping: CsvColumnMapping<ShipmentOrderCsvField>,
+): { values: Record<string, string>; errors: CsvRowError[] } {
+  const values: Record<string, string> = {}
+  const sourceLines: Record<string, number> = {}
+  const errors: CsvRowError[] = []
+
+  for (const row of rows) {
+    for (const field of Object.keys(mapping.fields) as ShipmentOrderCsvField[]) {
+      const column = columnFor(mapping, field)
+      const value = row.values[column]?.trim() ?? ''
+      if (value === '') {
+        continue
+      }
+      const current = values[column]
+      if (current === undefined) {
+        values[column] = value
+        sourceLines[column] = row.line
+      } else if (current !== value) {
+        const sourceLine = sourceLines[column] ?? row.line
+        errors.push({
+          line: row.line,
+          column,
+          message: `同じ出荷依頼の${sourceLine}行目と値が異なります（${current}）`,
+          messageEn: `Differs from line ${sourceLine} of the same shipment (${current})`,
+          code: 'conflict',
+        })
+      }
+    }
+  }
+
+  return { values, errors }
+}
+
+/**
+ * 国際配送の行かどうか
+ * internationalの列が空の場合は、受取人の国コードがJP以外であれば国際配送とみなす
+ */
+function isInternational(record: Record<string, unknown>): boolean {
+  if (typeof record['international'] === 'boolean') {
+    return record['international']
+  }
+  const recipient = record['recipient'] as Record<string, unknown> | undefined
+  const regionCode = recipient?.['region_code']
+  return typeof regionCode === 'string' && regionCode.toUpperCase() !== 'JP'
+}
+
+/**
+ * 出荷依頼CSVを読み込み、出荷依頼ごとに検証する
+ *
+ * APIは呼び出しません。作成前の確認（ドライラン）に使用できます。
+ * 同じ `order_no`（なければ `identifier`）の行は1件の出荷依頼にまとめ、各行を出荷商品とします。
+ * `international` の列が空の場合は、`recipient.region_code` がJP以外の行を国際配送とみなし、
+ * 国際配送用の受取人・送り主のスキーマで検証します。
+ *
+ * @param text - CSV/TSVの文字列
+ * @param options - 読み込みオプション
+ * @returns 検証結果と一括作成リクエスト
+ *
+ * @throws {ValidationError} ヘッダー行がない場合、またはダブルクォートが閉じられていない場合
+ *
+ * @example
+ * ```typescript
+ * const result = parseShipmentsCsv(await readFile('orders.csv', 'utf8'))
+ * for (const line of formatCsvErrors(result.errors, 'en')) {
+ *   console.error(line)
+ * }
+ * ```
+ */
+export function parseShipmentsCsv(
+  text: string,
+  options: ShipmentCsvParseOptions = {},
+): ShipmentCsvParseResult {
+  const columns = options.columns ?? {}
+  const listSeparator = options.listSeparator ?? ';'
+  const orderMapping: CsvColumnMapping<ShipmentOrderCsvField> = {
+    fields: SHIPMENT_CSV_FIELDS,
+    columns,
+    listSeparator,
+  }
+  const itemMapping: CsvColumnMapping<ShipmentItemCsvField> = {
+    fields: SHIPMENT_ITEM_CSV_FIELDS,
+    columns,
+    listSeparator,
+  }
+  const table = readCsvTable(text, options)
+  const errors = [...table.errors]
+  const shipments: ShipmentCsvEntry[] = []
+
+  for (const rows of groupRows(table.rows, orderMapping)) {
+    const [first] = rows
+    if (!first) {
+      continue
+    }
+
+    const merged = mergeOrderValues(rows, orderMapping)
+    if (merged.errors.length > 0) {
+      errors.push(...merged.errors)
+      continue
+    }
+
+    const record = buildRecord(orderMapping, { line: first.line, values: merged.values })
+    if (isInternational(record)) {
+      record['international'] = true
+    }
+    record['items'] = rows.map((row) => buildRecord(itemMapping, row)['items'] ?? {})
+
+    const result = CreateShipmentRequestSchema.safeParse(record)
+    if (!result.success) {
+      for (const issue of result.error.issues) {
+        const [key, index, ...rest] = issue.path
+        const itemRow = key === 'items' && typeof index === 'number' ? rows[index] : undefined
+        const { ja, en } = describeIssue(issue)
+        errors.push({
+          line: (itemRow ?? first).line,
+          column: itemRow
+            ? columnForPath(itemMapping, ['items', ...rest])
+            : columnForPath(orderMapping, issue.path),
+          message: ja,
+          messageEn: en,
+          code: issue.code,
+        })
+      }
+      continue
+    }
+
+    shipments.push({ lines: rows.map(({ line }) => line), shipment: result.data })
+  }
+
+  errors.sort((a, b) => a.line - b.line)
+
+  return {
+    totalRows: table.rows.length + table.errors.length,
+    shipments,
+    errors,
+    chunks: chunk(shipments, MAX_ITEMS_PER_BULK_REQUEST).map((entries) => ({
+      shipments: entries.map(({ shipment }) => shipment),
+    })),
+    unknownColumns: findUnknownColumns(
+      { ...orderMapping, fields: { ...SHIPMENT_CSV_FIELDS, ...SHIPMENT_ITEM_CSV_FIELDS } },
+      table.headers,
+    ),
+  }
+}
+
+/**
+ * 出荷依頼CSVのインポートオプション
+ */
+export interface ShipmentCsvImportOptions extends ShipmentCsvParseOptions {
+  /**
+   * 検証に失敗した出荷依頼があっても、成功した出荷依頼を作成するか
+   * falseの場合、1行でもエラーがあれば何も作成しない
+   * @default false
+   */
+  skipInvalid?: boolean
+
+  /**
+   * 一括作成の最大並列リクエスト数
+   * @default 1
+   */
+  concurrency?: number
+}
+
+/**
+ * 一括作成に失敗したチャンク
+ */
+export interface ShipmentCsvFailedChunk {
+  /** チャンクに含まれる行番号 */
+  lines: number[]
+  /** 発生したエラー */
+  error: unknown
+}
+
+/**
+ * 出荷依頼CSVのインポート結果
+ */
+export interface ShipmentCsvImportReport extends ShipmentCsvParseResult {
+  /** 作成された出荷依頼 */
+  created: ShipmentResponse[]
+  /** 一括作成に失敗したチャンク */
+  failedChunks: ShipmentCsvFailedChunk[]
+}
+
+/**
+ * 出荷依頼CSVを読み込み、100件ずつ一括作成する
+ *
+ * 検証エラーのある行が1行でもある場合は、`skipInvalid: true` を指定しない限り何も作成しません。
+ * 一括作成に失敗したチャンクは `failedChunks` に記録し、残りのチャンクの作成を続けます。
+ *
+ * @param client - OpenLogiクライアント
+ * @param text - CSV/TSVの文字列
+ * @param options - インポートオプション
+ * @returns 検証結果と作成結果
+ *
+ * @throws {ValidationError} ヘッダー行がない場合、またはダブルクォートが閉じられていない場合
+ *
+ * @example
+ * ```typescript
+ * const report = await importShipmentsCsv(client, await readFile('orders.csv', 'utf8'), {
+ *   columns: { order_no: '注文番号', 'items.code': '商品コード', 'items.quantity': '数量' },
+ * })
+ * console.log(`${report.created.length}/${report.shipments.length}件の出荷依頼を作成しました`)
+ * ```
+ */
+export async function importShipmentsCsv(
+  client: OpenLogiClient,
+  text: string,
+  options: ShipmentCsvImportOptions = {},
+): Promise<ShipmentCsvImportReport> {
+  const { skipInvalid, concurrency, ...parseOptions } = options
+  const parsed = parseShipmentsCsv(text, parseOptions)
+  const result = await importCsvEntries(
+    parsed.errors,
+    parsed.shipments,
+    { skipInvalid, concurrency },
+    {
+      linesOf: ({ lines }) => lines,
+      inputOf: ({ shipment }) => shipment,
+      createChunk: async (shipments) =>
+        (await bulkCreateShipments(client, { shipments })).shipments,
+      keyOf: orderKey,
+      resultKeyOf: orderKey,
+    },
+  )
+  return { ...parsed, ...result }
+}
@@ -121,3 +121,114 @@ export class NotFoundError extends OpenLogiError {
     super(message, cause)
   }
 }
+
+/**
+ * 作成結果不明エラー
+ * 冪等作成モードで、通信エラー等により作成の成否を確認できなかった場合に発生
+ * 二重作成を避けるため、このエラーが発生した場合は自動で再送されません
+ */
+export class IdempotencyError extends OpenLogiError {
+  /**
+   * 照会に使用したキー（identifierまたはorder_no）
+   * キーがなく照会できなかった場合はundefined
+   */
+  public readonly key: string | undefined
+
+  constructor(message: string, key?: string, cause?: unknown) {
+    super(message, cause)
+    this.key = key
+  }
+}
+
+/**
+ * 出荷ステータスエラー
+ * 出荷依頼の現在のステータスでは実行できない操作を行おうとした場合に発生
+ * （APIを呼び出す前の事前確認で検出）
+ */
+export class InvalidShipmentStateError extends OpenLogiError {
+  /**
+   * 出荷依頼ID
+   */
+  public readonly shipmentId: string
+
+  /**
+   * 現在のステータス
+   */
+  public readonly status: string
+
+  /**
+   * 実行しようとした操作
+   */
+  public readonly operation: string
+
+  /**
+   * 操作を実行可能なステータス
+   */
+  public readonly allowedStatuses: readonly string[]
+
+  constructor(
+    shipmentId: string,
+    status: string,
+    operation: string,
+    allowedStatuses: readonly string[],
+    cause?: unknown,
+  ) {
+    super(
+      `ステータスが${status}の出荷依頼（${shipmentId}）には${operation}を実行できません。` +
+        `実行可能なステータス: ${allowedStatuses.join(', ') || 'なし'}`,
+      cause,
+    )
+    this.shipmentId = shipmentId
+    this.status = status
+    this.operation = operation
+    this.allowedStatuses = allowedStatuses
+  }
+}
+
+/**
+ * ステータス待機エラー
+ * 待機中にタイムアウトした場合、または目的のステータスに到達できなくなった場合に発生
+ */
+export class WaitForStatusError extends OpenLogiError {
+  /**
+   * 待機を終了した理由
+   * - timeout: タイムアウトまでに目的のステータスに到達しなかった
+   * - unreachable: 目的のステータスに遷移できないステータス（キャンセル済み等）になった
+   */
+  public readonly reason: 'timeout' | 'unreachable'
+
+  /**
+   * 待機していたリソースのID
+   */
+  public readonly resourceId: string
+
+  /**
+   * 最後に取得したステータス
+   */
+  public readonly lastStatus: string | undefined
+
+  /**
+   * 目的のステータス
+   */
+  public readonly targetStatuses: readonly string[]
+
+  constructor(
+    reason: 'timeout' | 'unreachable',
+    resourceId: string,
+    lastStatus: string | undefined,
+    targetStatuses: readonly string[],
+    cause?: unknown,
+  ) {
+    super(
+      reason === 'timeout'
+        ? `${resourceId}のステータスが${targetStatuses.join(', ')}になるまでの待機がタイムアウトしました。` +
+            `最後のステータス: ${lastStatus ?? '不明'}`
+        : `${resourceId}のステータスが${lastStatus ?? '不明'}のため、${targetStatuses.join(', ')}には到達できません。`,
+      cause,
+    )
+    this.reason = reason
+    this.resourceId = resourceId
+    this.lastStatus = lastStatus
+    this.targetStatuses = targetStatuses
+  }
+}
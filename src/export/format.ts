@@ -0,0 +1,102 @@
+/**
+ * エクスポートの出力形式
+ * 行の配列をCSV・JSON Lines・Excel向けCSV（UTF-8 BOM付き）の文字列に変換する
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * 出力形式
+ * - csv: RFC 4180形式のCSV（改行はCRLF）
+ * - excel: Excelで文字化けせずに開けるUTF-8 BOM付きのCSV
+ * - jsonl: 1行に1つのJSONオブジェクト（キーはヘッダー名）
+ */
+export type ExportFormat = 'csv' | 'excel' | 'jsonl'
+
+/**
+ * セルの値
+ *
+ * @internal
+ */
+export type ExportValue = string | number | boolean | null | undefined
+
+/**
+ * エクスポートの共通オプション
+ */
+export interface ExportOptions<F extends string> {
+  /**
+   * 出力形式
+   * @default 'csv'
+   */
+  format?: ExportFormat
+
+  /**
+   * 出力するフィールドと順序
+   * 未指定の場合はすべてのフィールドを出力する
+   */
+  fields?: readonly F[]
+
+  /**
+   * フィールドに対応するヘッダー名
+   * 未指定のフィールドはフィールド名をヘッダーとする
+   *
+   * @example
+   * ```typescript
+   * { order_no: '注文番号', total_amount: '合計金額' }
+   * ```
+   */
+  columns?: Partial<Record<F, string>>
+}
+
+/**
+ * フィールドごとの値の取り出し方
+ *
+ * @internal
+ */
+export type ExportFieldGetters<F extends string, R> = Readonly<Record<F, (_row: R) => ExportValue>>
+
+/**
+ * CSVのセルをエスケープする
+ * 区切り文字・ダブルクォート・改行を含む場合はダブルクォートで囲む
+ */
+function escapeCsvCell(value: ExportValue): string {
+  if (value === undefined || value === null) {
+    return ''
+  }
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replaceAll('"', '""')}"` : text
+}
+
+/**
+ * 行をフィールドの値に変換し、指定した形式の文字列にする
+ *
+ * @internal
+ * @param getters - フィールドごとの値の取り出し方
+ * @param rows - 出力する行
+ * @param options - エクスポートオプション
+ * @returns 出力形式の文字列（CSVはヘッダー行を含む）
+ */
+export function serializeRows<F extends string, R>(
+  getters: ExportFieldGetters<F, R>,
+  rows: readonly R[],
+  options: ExportOptions<F>,
+): string {
+  const fields = options.fields ?? (Object.keys(getters) as F[])
+  const headers = fields.map((field) => options.columns?.[field] ?? field)
+  const values = rows.map((row) => fields.map((field) => getters[field](row)))
+
+  if (options.format === 'jsonl') {
+    return values
+      .map((cells) =>
+        JSON.stringify(
+          Object.fromEntries(headers.map((header, index) => [header, cells[index] ?? null])),
+        ),
+      )
+      .map((line) => `${line}\n`)
+      .join('')
+  }
+
+  const lines = [headers, ...values].map((cells) => cells.map(escapeCsvCell).join(','))
+  const csv = lines.map((line) => `${line}\r\n`).join('')
+  return options.format === 'excel' ? `\uFEFF${csv}` : csv
+}
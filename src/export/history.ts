@@ -0,0 +1,185 @@
+/**
+ * 出荷実績・入荷実績のエクスポート
+ * 実績取得APIの結果を、出荷商品またはロットごとの1行に展開して出力する
+ *
+ * @packageDocumentation
+ */
+
+import { type ListShippedShipmentsResponse, type ShipmentResponse } from '../types/shipments.js'
+import {
+  type StockedWarehousingResponse,
+  type WarehousingDetailResponse,
+} from '../types/warehousings.js'
+import { serializeRows, type ExportFieldGetters, type ExportOptions } from './format.js'
+
+/**
+ * 出荷実績の1行（出荷商品ごと）
+ */
+interface ShippedShipmentRow {
+  shipment: ShipmentResponse
+  item: ShipmentResponse['items'][number] | undefined
+}
+
+/**
+ * 出荷実績のフィールドと値の取り出し方
+ * 出荷依頼単位のフィールド（金額など）は、同じ出荷依頼のすべての行に同じ値を出力する
+ */
+const SHIPPED_SHIPMENT_EXPORT_FIELDS = {
+  id: ({ shipment }) => shipment.id,
+  identifier: ({ shipment }) => shipment.identifier,
+  order_no: ({ shipment }) => shipment.order_no,
+  status: ({ shipment }) => shipment.status,
+  actual_shipping_date: ({ shipment }) => shipment.actual_shipping_date,
+  shipped_at: ({ shipment }) => shipment.shipped_at,
+  delivery_carrier: ({ shipment }) => shipment.delivery_carrier,
+  tracking_code: ({ shipment }) => shipment.tracking_code ?? shipment.tracking_codes?.join(' '),
+  warehouse: ({ shipment }) => shipment.warehouse,
+  subtotal_amount: ({ shipment }) => shipment.subtotal_amount,
+  delivery_charge: ({ shipment }) => shipment.delivery_charge,
+  handling_charge: ({ shipment }) => shipment.handling_charge,
+  discount_amount: ({ shipment }) => shipment.discount_amount,
+  total_amount: ({ shipment }) => shipment.total_amount,
+  tax: ({ shipment }) => shipment.tax,
+  'items.code': ({ item }) => item?.code,
+  'items.name': ({ item }) => item?.name,
+  'items.quantity': ({ item }) => item?.quantity,
+  'items.shipped_quantity': ({ item }) => item?.shipped_quantity,
+  'items.unit_price': ({ item }) => item?.unit_price,
+  'items.price': ({ item }) => item?.price,
+} satisfies ExportFieldGetters<string, ShippedShipmentRow>
+
+/**
+ * 出荷実績のエクスポートで出力できるフィールド
+ * 出荷商品のフィールドは `items.` で始まる
+ */
+export type ShippedShipmentExportField = keyof typeof SHIPPED_SHIPMENT_EXPORT_FIELDS
+
+/**
+ * 出荷実績のエクスポートで出力できるフィールド一覧（デフォルトの出力順）
+ */
+export const SHIPPED_SHIPMENT_EXPORT_FIELD_NAMES = Object.keys(
+  SHIPPED_SHIPMENT_EXPORT_FIELDS,
+) as readonly ShippedShipmentExportField[]
+
+/**
+ * 出荷実績のエクスポートオプション
+ */
+export type ShippedShipmentExportOptions = ExportOptions<ShippedShipmentExportField>
+
+/**
+ * 入荷実績の1行（ロットごと、ロット情報がない商品は商品ごと）
+ */
+interface StockedWarehousingRow {
+  warehousing: WarehousingDetailResponse
+  item: WarehousingDetailResponse['items'][number] | undefined
+  lot: NonNullable<WarehousingDetailResponse['items'][number]['lot_items']>[number] | undefined
+}
+
+/**
+ * 入荷実績のフィールドと値の取り出し方
+ */
+const STOCKED_WAREHOUSING_EXPORT_FIELDS = {
+  id: ({ warehousing }) => warehousing.id,
+  identifier: ({ warehousing }) => warehousing.identifier,
+  status: ({ warehousing }) => warehousing.status,
+  arrival_date: ({ warehousing }) => warehousing.arrival_date,
+  warehouse: ({ warehousing }) => warehousing.warehouse,
+  shipment_return: ({ warehousing }) => warehousing.shipment_return,
+  'items.code': ({ item }) => item?.code,
+  'items.name': ({ item }) => item?.name,
+  'items.quantity': ({ item }) => item?.quantity,
+  'items.received': ({ item, lot }) => lot?.received ?? item?.received,
+  'items.warehoused_count': ({ item }) => item?.warehoused_count,
+  'lot_items.id': ({ lot }) => lot?.id,
+  'lot_items.expiry_at': ({ lot }) => lot?.expiry_at,
+  'lot_items.manufacture_date': ({ lot }) => lot?.manufacture_date,
+} satisfies ExportFieldGetters<string, StockedWarehousingRow>
+
+/**
+ * 入荷実績のエクスポートで出力できるフィールド
+ * 入荷商品のフィールドは `items.`、ロットのフィールドは `lot_items.` で始まる
+ */
+export type StockedWarehousingExportField = keyof typeof STOCKED_WAREHOUSING_EXPORT_FIELDS
+
+/**
+ * 入荷実績のエクスポートで出力できるフィールド一覧（デフォルトの出力順）
+ */
+export const STOCKED_WAREHOUSING_EXPORT_FIELD_NAMES = Object.keys(
+  STOCKED_WAREHOUSING_EXPORT_FIELDS,
+) as readonly StockedWarehousingExportField[]
+
+/**
+ * 入荷実績のエクスポートオプション
+ */
+export type StockedWarehousingExportOptions = ExportOptions<StockedWarehousingExportField>
+
+/**
+ * 出荷実績を出荷商品ごとの1行に展開して出力する
+ *
+ * 出荷商品がない出荷依頼は、商品のフィールドを空にした1行を出力します。
+ * 金額などの出荷依頼単位のフィールドは同じ出荷依頼のすべての行に出力されるため、
+ * 集計する場合は `id` ごとに1回だけ数えてください。
+ *
+ * @param data - getShippedShipmentByDate・listShippedShipmentsの結果、または出荷実績の配列
+ * @param options - エクスポートオプション
+ * @returns CSV・JSON Linesの文字列
+ *
+ * @example
+ * ```typescript
+ * const shipped = await getShippedShipmentByDate(client, 2025, 1)
+ * await writeFile(
+ *   'shipped-2025-01.csv',
+ *   exportShippedShipments(shipped, {
+ *     format: 'excel',
+ *     fields: ['order_no', 'actual_shipping_date', 'tracking_code', 'total_amount', 'tax', 'items.code'],
+ *     columns: { order_no: '注文番号', total_amount: '合計金額' },
+ *   }),
+ * )
+ * ```
+ */
+export function exportShippedShipments(
+  data: ListShippedShipmentsResponse | readonly ShipmentResponse[],
+  options: ShippedShipmentExportOptions = {},
+): string {
+  const shipments = 'shipments' in data ? data.shipments : data
+  const rows = shipments.flatMap((shipment): ShippedShipmentRow[] =>
+    shipment.items.length === 0
+      ? [{ shipment, item: undefined }]
+      : shipment.items.map((item) => ({ shipment, item })),
+  )
+  return serializeRows(SHIPPED_SHIPMENT_EXPORT_FIELDS, rows, options)
+}
+
+/**
+ * 入荷実績をロットごとの1行に展開して出力する
+ *
+ * ロット情報がある商品はロットごと、ない商品は商品ごとに1行を出力します。
+ * `items.received` はロットの行ではロットごとの入荷実績数、それ以外は商品の入荷実績数です。
+ *
+ * @param data - getStockedWarehousingByDate・getStockedWarehousingの結果、または入荷実績の配列
+ * @param options - エクスポートオプション
+ * @returns CSV・JSON Linesの文字列
+ *
+ * @example
+ * ```typescript
+ * const stocked = await getStockedWarehousingByDate(client, 2025, 1)
+ * await writeFile('stocked-2025-01.jsonl', exportStockedWarehousings(stocked, { format: 'jsonl' }))
+ * ```
+ */
+export function exportStockedWarehousings(
+  data: StockedWarehousingResponse | readonly WarehousingDetailResponse[],
+  options: StockedWarehousingExportOptions = {},
+): string {
+  const warehousings = 'warehousings' in data ? data.warehousings : data
+  const rows = warehousings.flatMap((warehousing): StockedWarehousingRow[] => {
+    if (warehousing.items.length === 0) {
+      return [{ warehousing, item: undefined, lot: undefined }]
+    }
+    return warehousing.items.flatMap((item): StockedWarehousingRow[] =>
+      item.lot_items && item.lot_items.length > 0
+        ? item.lot_items.map((lot) => ({ warehousing, item, lot }))
+        : [{ warehousing, item, lot: undefined }],
+    )
+  })
+  return serializeRows(STOCKED_WAREHOUSING_EXPORT_FIELDS, rows, options)
+}
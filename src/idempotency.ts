@@ -0,0 +1,129 @@
+/**
+ * 冪等作成モード
+ * 作成系POSTが通信エラー等で失敗した場合に、作成済みかを照会してから再送する
+ *
+ * @packageDocumentation
+ */
+
+import { OpenLogiError, ApiError, NotFoundError, IdempotencyError } from './errors.js'
+import { sleep } from './utils/sleep.js'
+
+/**
+ * 冪等作成モードの設定
+ */
+export interface IdempotentCreateConfig {
+  /**
+   * アカウントコード（作成済みかの照会に使用）
+   */
+  accountId: string
+
+  /**
+   * 照会後の最大再送回数
+   * @default 2
+   */
+  retries?: number
+
+  /**
+   * 再送までの待機時間（ミリ秒）
+   * @default (attempt) => 1000 * 2 ** (attempt - 1)
+   */
+  retryDelay?: (_attempt: number) => number
+}
+
+/**
+ * 成否が不明な失敗の対象となるステータスコード
+ * （サーバーで処理された可能性があるもの）
+ */
+const AMBIGUOUS_STATUS_CODES = new Set([408, 500, 502, 503, 504])
+
+/**
+ * 作成の成否が不明なエラーかどうかを判定
+ *
+ * - ネットワークエラー・タイムアウト（ステータスを持たないOpenLogiError）
+ * - 408、5xx系のApiError
+ *
+ * 4xx系（バリデーションエラー、認証エラー、レート制限など）は作成されていないことが
+ * 明らかなため対象外です。
+ *
+ * @param error - 判定するエラー
+ * @returns 成否が不明な場合はtrue
+ */
+export function isAmbiguousCreateError(error: unknown): boolean {
+  if (error instanceof ApiError) {
+    return AMBIGUOUS_STATUS_CODES.has(error.statusCode)
+  }
+  return error instanceof OpenLogiError && error.constructor === OpenLogiError
+}
+
+/**
+ * 作成済みかを照会する関数
+ * 作成済みの場合は作成結果、未作成の場合はundefinedを返す
+ *
+ * @internal
+ */
+export type IdempotentLookup<T> = () => Promise<T | undefined>
+
+/**
+ * 冪等作成モードで作成を実行
+ *
+ * 成否が不明な失敗の場合は `lookup` で作成済みかを照会し、作成済みであればその結果を返します。
+ * 未作成であることを確認できた場合のみ、`retryDelay` 待機後に再送します。
+ * 照会できない場合（`lookup` がundefined、または照会自体が失敗した場合）は
+ * 再送せずに `IdempotencyError` をスローします。
+ *
+ * @internal
+ * @param config - 冪等作成モードの設定
+ * @param create - 作成を実行する関数
+ * @param lookup - 作成済みかを照会する関数
+ * @param key - 照会に使用するキー（エラー情報用）
+ * @returns 作成結果
+ *
+ * @throws {IdempotencyError} 作成の成否を確認できなかった場合
+ */
+export async function createIdempotently<T>(
+  config: IdempotentCreateConfig,
+  create: () => Promise<T>,
+  lookup: IdempotentLookup<T> | undefined,
+  key?: string,
+): Promise<T> {
+  const retries = config.retries ?? 2
+  const retryDelay = config.retryDelay ?? ((attempt: number) => 1000 * 2 ** (attempt - 1))
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await create()
+    } catch (error) {
+      if (!isAmbiguousCreateError(error)) {
+        throw error
+      }
+      if (!lookup) {
+        throw new IdempotencyError(
+          '作成の成否を確認できませんでした。照会キーがないため再送しません。',
+          key,
+          error,
+        )
+      }
+
+      let existing: T | undefined
+      try {
+        existing = await lookup()
+      } catch (lookupError) {
+        if (!(lookupError instanceof NotFoundError)) {
+          throw new IdempotencyError(
+            `作成の成否を確認できませんでした（${key ?? '照会キーなし'}）。`,
+            key,
+            lookupError,
+          )
+        }
+      }
+
+      if (existing !== undefined) {
+        return existing
+      }
+      if (attempt > retries) {
+        throw error
+      }
+      await sleep(retryDelay(attempt))
+    }
+  }
+}
@@ -16,10 +16,190 @@ export {
   AuthenticationError,
   RateLimitError,
   NotFoundError,
+  IdempotencyError,
+  InvalidShipmentStateError,
+  WaitForStatusError,
 } from './errors.js'
 
 // クライアント
-export { createClient, request, type ClientConfig, type OpenLogiClient } from './client.js'
+export {
+  createClient,
+  request,
+  type ClientConfig,
+  type OpenLogiClient,
+  type ReadOptions,
+  type RequestOptions,
+} from './client.js'
+export { type Middleware, type MiddlewareContext } from './middleware.js'
+export { createLoggingMiddleware, redact, REDACTED, type Logger, type LogFn } from './logger.js'
+export { isAmbiguousCreateError, type IdempotentCreateConfig } from './idempotency.js'
+export { RateLimiter, type RateLimitConfig } from './rate-limiter.js'
+export { ResponseCache, type ResponseCacheConfig } from './response-cache.js'
+export {
+  SHIPMENT_OPERATION_RULES,
+  INTERNATIONAL_SHIPMENT_OPERATION_RULES,
+  SHIPMENT_STATUS_TRANSITIONS,
+  assertShipmentOperation,
+  canPerformShipmentOperation,
+  canReachShipmentStatus,
+  canTransitionShipmentStatus,
+  getAllowedShipmentOperations,
+  isTerminalShipmentStatus,
+  type ShipmentOperation,
+} from './shipment-state.js'
+export {
+  ShipmentWatcher,
+  type ShipmentSnapshot,
+  type ShipmentWatcherState,
+  type ShipmentStatusChangedEvent,
+  type ShipmentTrackingCodeAssignedEvent,
+  type ShipmentWatcherEventMap,
+  type ShipmentWatcherListener,
+  type ShipmentWatcherOptions,
+} from './shipment-watcher.js'
+export {
+  MemorySnapshotStorage,
+  JsonFileSnapshotStorage,
+  KeyValueSnapshotStorage,
+  type SnapshotStorage,
+  type KeyValueStore,
+} from './storage.js'
+export {
+  OpenLogi,
+  type BoundResource,
+  type ItemsResource,
+  type ShipmentsResource,
+  type TransfersResource,
+  type WarehousingsResource,
+} from './openlogi.js'
+
+// CSVインポート
+export { type CsvParseOptions, type CsvRowError } from './csv/parse.js'
+export {
+  parseItemsCsv,
+  importItemsCsv,
+  ITEM_CSV_COLUMNS,
+  type ItemCsvField,
+  type ItemCsvParseOptions,
+  type ItemCsvRow,
+  type ItemCsvParseResult,
+  type ItemCsvImportOptions,
+  type ItemCsvFailedChunk,
+  type ItemCsvImportReport,
+} from './csv/items.js'
+export {
+  parseShipmentsCsv,
+  importShipmentsCsv,
+  SHIPMENT_CSV_COLUMNS,
+  type ShipmentCsvField,
+  type ShipmentCsvParseOptions,
+  type ShipmentCsvEntry,
+  type ShipmentCsvParseResult,
+  type ShipmentCsvImportOptions,
+  type ShipmentCsvFailedChunk,
+  type ShipmentCsvImportReport,
+} from './csv/shipments.js'
+export { formatCsvErrors, type CsvErrorLocale } from './csv/messages.js'
+
+// エクスポート
+export { type ExportFormat, type ExportOptions } from './export/format.js'
+export {
+  exportShippedShipments,
+  exportStockedWarehousings,
+  SHIPPED_SHIPMENT_EXPORT_FIELD_NAMES,
+  STOCKED_WAREHOUSING_EXPORT_FIELD_NAMES,
+  type ShippedShipmentExportField,
+  type ShippedShipmentExportOptions,
+  type StockedWarehousingExportField,
+  type StockedWarehousingExportOptions,
+} from './export/history.js'
+
+// 住所
+export {
+  PREFECTURES,
+  isPrefecture,
+  normalizePrefecture,
+  splitPrefecture,
+  type Prefecture,
+} from './address/prefectures.js'
+export { toHalfWidth, normalizePostcode, normalizePhone } from './address/text.js'
+export {
+  normalizeDomesticAddress,
+  normalizeShipmentAddresses,
+  type DomesticAddressInput,
+  type AddressNormalizationOptions,
+  type AddressIssue,
+  type AddressNormalizationResult,
+} from './address/normalize.js'
+export {
+  lookupPostcode,
+  PostcodeDataset,
+  type PostcodeInfo,
+  type PostcodeLookupOptions,
+} from './postcode/lookup.js'
+
+// 海外発送
+export {
+  validateInternationalShipment,
+  clearInternationalReferenceCache,
+  type InternationalShipmentValidationOptions,
+  type InternationalShipmentIssue,
+  type InternationalShipmentValidationResult,
+} from './international/validate.js'
+export {
+  InternationalReferenceData,
+  InternationalReferenceSnapshotSchema,
+  type InternationalReferenceSnapshot,
+  type InternationalReferenceDataOptions,
+} from './international/reference-data.js'
+
+// 在庫
+export {
+  getInventorySnapshot,
+  toInventoryItem,
+  type InventoryLevel,
+  type LotInventory,
+  type WarehouseInventory,
+  type InventoryItem,
+  type InventorySnapshot,
+  type InventorySnapshotOptions,
+} from './inventory/snapshot.js'
+export {
+  reconcileInventory,
+  type ExpectedInventory,
+  type InventoryReconcileOptions,
+  type InventoryDiscrepancy,
+  type InventoryReconcileResult,
+} from './inventory/reconcile.js'
+export {
+  availableToPromise,
+  earliestPromiseDate,
+  type AvailableToPromiseOptions,
+  type AvailableToPromiseEntry,
+  type AvailableToPromiseResult,
+} from './inventory/available-to-promise.js'
+export {
+  planReplenishment,
+  type ReorderRule,
+  type ReplenishmentOptions,
+  type ReplenishmentLine,
+  type FailedReplenishment,
+  type ReplenishmentPlan,
+} from './inventory/replenishment.js'
+
+// ユーティリティ
+export {
+  MAX_IDS_PER_REQUEST,
+  MAX_ITEMS_PER_BULK_REQUEST,
+  type BatchOptions,
+  type BulkOptions,
+  type BulkResult,
+  type BulkSucceeded,
+  type BulkFailed,
+  type BulkSkipped,
+} from './utils/batch.js'
+export { formatCompactDate, type DateRangeOptions } from './utils/date.js'
+export { type WaitForStatusOptions } from './utils/poll.js'
 
 // 型定義
 export * from './types/index.js'
@@ -0,0 +1,233 @@
+/**
+ * 国際発送の国・通貨情報のキャッシュ
+ * ほとんど変わらない国・通貨情報を保存先にキャッシュし、有効期限が切れたらバックグラウンドで更新する
+ *
+ * @packageDocumentation
+ */
+
+import { z } from 'zod'
+import { type OpenLogiClient } from '../client.js'
+import { getInternationalCurrencies, getInternationalRegions } from '../resources/shipments.js'
+import { MemorySnapshotStorage, type SnapshotStorage } from '../storage.js'
+import {
+  InternationalCurrencySchema,
+  InternationalRegionSchema,
+  type InternationalCurrency,
+  type InternationalRegion,
+} from '../types/shipments.js'
+
+/**
+ * 保存する国・通貨情報
+ */
+export const InternationalReferenceSnapshotSchema = z.object({
+  /** EMSで発送可能な国 */
+  regions: z.array(InternationalRegionSchema),
+  /** 指定できる通貨 */
+  currencies: z.array(InternationalCurrencySchema),
+  /** 取得日時（UNIXミリ秒） */
+  fetchedAt: z.number(),
+})
+
+export type InternationalReferenceSnapshot = z.infer<typeof InternationalReferenceSnapshotSchema>
+
+/**
+ * InternationalReferenceDataの設定
+ */
+export interface InternationalReferenceDataOptions {
+  /**
+   * 国・通貨情報の保存先
+   * 複数のプロセスで共有する場合は `JsonFileSnapshotStorage` や `KeyValueSnapshotStorage` を指定してください
+   * @default new MemorySnapshotStorage()
+   */
+  storage?: SnapshotStorage<InternationalReferenceSnapshot>
+
+  /**
+   * 取得した情報をそのまま使う期間（ミリ秒）
+   * @default 86400000（24時間）
+   */
+  ttl?: number
+
+  /**
+   * 有効期限の切れた情報を返しながらバックグラウンドで更新する期間（ミリ秒）
+   * この期間も過ぎた場合は、更新が完了するまで待つ
+   * @default 604800000（7日）
+   */
+  staleWhileRevalidate?: number
+
+  /**
+   * バックグラウンドでの更新に失敗したときに呼び出す関数
+   * 失敗した場合も保存済みの情報を返し続け、次の呼び出しで再度更新する
+   */
+  onError?: (_error: unknown) => void
+}
+
+/**
+ * 国際発送の国・通貨情報のキャッシュ
+ *
+ * `getInternationalRegions`・`getInternationalCurrencies` の結果を保存先にキャッシュします。
+ *
+ * - 取得から `ttl` 以内: 保存済みの情報を返す
+ * - `ttl` を過ぎ、さらに `staleWhileRevalidate` 以内: 保存済みの情報を返し、バックグラウンドで更新する
+ * - それ以降、または保存済みの情報がない場合: APIから取得し、保存してから返す
+ *
+ * 保存先から読み込んだ情報はスキーマで検証し、一致しない場合は保存されていないものとして扱います。
+ *
+ * @example
+ * ```typescript
+ * const referenceData = new InternationalReferenceData(client, {
+ *   storage: new JsonFileSnapshotStorage('./international-reference.json'),
+ * })
+ *
+ * await referenceData.getRegion('US') // { code: 'US', name: 'アメリカ合衆国', name_en: 'United States' }
+ * await referenceData.isSupportedCurrency('USD') // true
+ * ```
+ */
+export class InternationalReferenceData {
+  private readonly client: OpenLogiClient
+  private readonly storage: SnapshotStorage<InternationalReferenceSnapshot>
+  private readonly ttl: number
+  private readonly staleWhileRevalidate: number
+  private readonly onError: ((_error: unknown) => void) | undefined
+  private snapshot: InternationalReferenceSnapshot | undefined
+  private loading: Promise<InternationalReferenceSnapshot | undefined> | undefined
+  private refreshing: Promise<InternationalReferenceSnapshot> | undefined
+
+  constructor(client: OpenLogiClient, options: InternationalReferenceDataOptions = {}) {
+    const {
+      storage = new MemorySnapshotStorage<InternationalReferenceSnapshot>(),
+      ttl = 24 * 60 * 60 * 1000,
+      staleWhileRevalidate = 7 * 24 * 60 * 60 * 1000,
+    } = options
+    if (!(ttl >= 0)) {
+      throw new RangeError(`ttl must be non-negative, got ${ttl}`)
+    }
+    if (!(staleWhileRevalidate >= 0)) {
+      throw new RangeError(`staleWhileRevalidate must be non-negative, got ${staleWhileRevalidate}`)
+    }
+
+    this.client = client
+    this.storage = storage
+    this.ttl = ttl
+    this.staleWhileRevalidate = staleWhileRevalidate
+    this.onError = options.onError
+  }
+
+  /**
+   * 保存先から国・通貨情報を読み込む（最初の1回のみ）
+   */
+  private async load(): Promise<InternationalReferenceSnapshot | undefined> {
+    if (this.snapshot) {
+      return this.snapshot
+    }
+    this.loading ??= this.storage.load().then((stored) => {
+      const parsed = InternationalReferenceSnapshotSchema.safeParse(stored)
+      if (parsed.success && !this.snapshot) {
+        this.snapshot = parsed.data
+      }
+      return this.snapshot
+    })
+    try {
+      return await this.loading
+    } finally {
+      this.loading = undefined
+    }
+  }
+
+  /**
+   * 有効期限に応じて、保存済みの情報を返すか更新する
+   */
+  private async get(): Promise<InternationalReferenceSnapshot> {
+    const snapshot = await this.load()
+    const age = snapshot ? Date.now() - snapshot.fetchedAt : Infinity
+    if (snapshot && age < this.ttl) {
+      return snapshot
+    }
+    if (snapshot && age < this.ttl + this.staleWhileRevalidate) {
+      this.refresh().catch((error: unknown) => this.onError?.(error))
+      return snapshot
+    }
+    return this.refresh()
+  }
+
+  /**
+   * 国・通貨情報をAPIから取得し直して保存する
+   * 更新中に呼び出した場合は、実行中の更新の結果を返す
+   *
+   * @returns 取得した国・通貨情報
+   *
+   * @throws {OpenLogiError} 取得または保存に失敗した場合
+   */
+  refresh(): Promise<InternationalReferenceSnapshot> {
+    this.refreshing ??= (async () => {
+      try {
+        const [{ regions }, { currencies }] = await Promise.all([
+          getInternationalRegions(this.client),
+          getInternationalCurrencies(this.client),
+        ])
+        const snapshot = { regions, currencies, fetchedAt: Date.now() }
+        await this.storage.save(snapshot)
+        this.snapshot = snapshot
+        return snapshot
+      } finally {
+        this.refreshing = undefined
+      }
+    })()
+    return this.refreshing
+  }
+
+  /**
+   * EMSで発送可能な国の一覧を取得する
+   *
+   * @returns 国情報リスト
+   */
+  async getRegions(): Promise<InternationalRegion[]> {
+    return (await this.get()).regions
+  }
+
+  /**
+   * 指定できる通貨の一覧を取得する
+   *
+   * @returns 通貨情報リスト
+   */
+  async getCurrencies(): Promise<InternationalCurrency[]> {
+    return (await this.get()).currencies
+  }
+
+  /**
+   * 国コードから国情報を取得する
+   *
+   * @param code - 国コード（例: `US`）
+   * @returns 国情報（EMSで発送できない国の場合はundefined）
+   */
+  async getRegion(code: string): Promise<InternationalRegion | undefined> {
+    return (await this.getRegions()).find((region) => region.code === code)
+  }
+
+  /**
+   * 通貨コードから通貨情報を取得する
+   *
+   * @param code - 通貨コード（例: `USD`）
+   * @returns 通貨情報（指定できない通貨の場合はundefined）
+   */
+  async getCurrency(code: string): Promise<InternationalCurrency | undefined> {
+    return (await this.getCurrencies()).find((currency) => currency.code === code)
+  }
+
+  /**
+   * EMSで発送可能な国か確認する
+   *
+   * @param code - 国コード（例: `US`）
+   */
+  async isSupportedRegion(code: string): Promise<boolean> {
+    return (await this.getRegion(code)) !== undefined
+  }
+
+  /**
+   * 指定できる通貨か確認する
+   *
+   * @param code - 通貨コード（例: `USD`）
+   */
+  async isSupportedCurrency(code: string): Promise<boolean> {
+    return (await this.getCurrency(code)) !== undefined
+  }
+}
@@ -0,0 +1,308 @@
+/**
+ * 海外発送の出荷依頼の事前チェック
+ * 国コード・通貨コード・配送サービス・商品のHSコードと国際情報を、出荷依頼の作成前に確認する
+ *
+ * @packageDocumentation
+ */
+
+import { type OpenLogiClient } from '../client.js'
+import { NotFoundError } from '../errors.js'
+import { getItemByCode, listItemsByIds } from '../resources/items.js'
+import { type DeliveryService } from '../types/common.js'
+import { type ItemResponse } from '../types/items.js'
+import { CreateShipmentRequestSchema, type CreateShipmentRequest } from '../types/shipments.js'
+import { InternationalReferenceData } from './reference-data.js'
+
+/**
+ * 海外発送で指定できる配送サービス
+ */
+const INTERNATIONAL_DELIVERY_SERVICES: readonly DeliveryService[] = [
+  'JAPANPOST-EMS',
+  'JAPANPOST-EPACKET',
+  'FEDEX-PRIORITY',
+  'FEDEX-CONNECT-PLUS',
+  'DHL-EXPRESS',
+]
+
+/**
+ * 事前チェックのオプション
+ */
+export interface InternationalShipmentValidationOptions {
+  /**
+   * 商品コードのみを指定した商品を検索するアカウントID
+   * 未指定の場合、商品IDのない商品の国際情報は確認できない（`unverified_item`）
+   */
+  accountId?: string | undefined
+
+  /**
+   * 国・通貨情報をキャッシュする時間（ミリ秒）
+   * 0の場合はキャッシュせず、毎回取得する（`referenceData` 指定時は無視）
+   * @default 3600000（1時間）
+   */
+  cacheTtl?: number
+
+  /**
+   * 国・通貨情報の取得に使用するキャッシュ
+   * 未指定の場合はクライアントごとにメモリ上へ `cacheTtl` の間キャッシュする
+   */
+  referenceData?: InternationalReferenceData | undefined
+}
+
+/**
+ * 事前チェックで見つかった問題
+ * `ValidationError` の `issues` と同じ形式
+ */
+export interface InternationalShipmentIssue {
+  /** 問題のあるフィールドのパス（例: `['items', 0, 'hs_code']`） */
+  path: (string | number)[]
+  /** メッセージ */
+  message: string
+  /**
+   * 問題の種類
+   * - invalid_request: リクエストがスキーマに一致しない（Zodのメッセージをそのまま返す）
+   * - not_international: `international: true` が指定されていない
+   * - unsupported_delivery_service: 海外発送に対応していない配送サービス
+   * - unsupported_region: EMSで発送できない国コード
+   * - missing_currency: 通貨コードが指定されていない
+   * - unsupported_currency: 指定できない通貨コード
+   * - missing_hs_code: 出荷商品・商品マスタのいずれにもHSコードがない
+   * - missing_international_info: 商品マスタに国際情報（インボイス要約・原産国）がない
+   * - item_not_found: 商品マスタが見つからない
+   * - unverified_item: 商品マスタを検索できず、国際情報を確認できない
+   */
+  code:
+    | 'invalid_request'
+    | 'not_international'
+    | 'unsupported_delivery_service'
+    | 'unsupported_region'
+    | 'missing_currency'
+    | 'unsupported_currency'
+    | 'missing_hs_code'
+    | 'missing_international_info'
+    | 'item_not_found'
+    | 'unverified_item'
+}
+
+/**
+ * 事前チェックの結果
+ */
+export interface InternationalShipmentValidationResult {
+  /** 問題がない場合はtrue */
+  valid: boolean
+  /** 見つかった問題 */
+  issues: InternationalShipmentIssue[]
+}
+
+/**
+ * クライアントごとの国・通貨情報のキャッシュ（`referenceData` 未指定の場合に使用）
+ */
+const referenceCache = new WeakMap<
+  OpenLogiClient,
+  { ttl: number; referenceData: InternationalReferenceData }
+>()
+
+/**
+ * クライアントの国・通貨情報のキャッシュを取得する（`ttl` が0の場合はキャッシュしない）
+ */
+function defaultReferenceData(client: OpenLogiClient, ttl: number): InternationalReferenceData {
+  const cached = ttl > 0 ? referenceCache.get(client) : undefined
+  if (cached && cached.ttl === ttl) {
+    return cached.referenceData
+  }
+
+  // 有効期限を過ぎた情報は返さずに取得し直す
+  const referenceData = new InternationalReferenceData(client, { ttl, staleWhileRevalidate: 0 })
+  if (ttl > 0) {
+    referenceCache.set(client, { ttl, referenceData })
+  }
+  return referenceData
+}
+
+/**
+ * 事前チェックで使用した国・通貨情報のキャッシュを破棄する
+ *
+ * @param client - OpenLogiクライアント
+ */
+export function clearInternationalReferenceCache(client: OpenLogiClient): void {
+  referenceCache.delete(client)
+}
+
+/**
+ * 出荷商品の商品マスタを取得する
+ * 商品IDがある場合はIDで一括検索し、商品コードのみの場合は `accountId` 指定時にコードで検索する
+ */
+async function findItems(
+  client: OpenLogiClient,
+  items: CreateShipmentRequest['items'],
+  accountId: string | undefined,
+): Promise<Array<ItemResponse | null | undefined>> {
+  const ids = items.flatMap((item) => (item.id ? [item.id] : []))
+  const byId = new Map<string, ItemResponse>()
+  if (ids.length > 0) {
+    const { items: found } = await listItemsByIds(client, ids)
+    for (const item of found) {
+      byId.set(item.id, item)
+    }
+  }
+
+  const byCode = new Map<string, Promise<ItemResponse | null>>()
+  return Promise.all(
+    items.map(async (item): Promise<ItemResponse | null | undefined> => {
+      if (item.id) {
+        return byId.get(item.id) ?? null
+      }
+      if (!item.code || accountId === undefined) {
+        return undefined
+      }
+
+      let found = byCode.get(item.code)
+      if (!found) {
+        found = getItemByCode(client, accountId, item.code).catch((error: unknown) => {
+          if (error instanceof NotFoundError) {
+            return null
+          }
+          throw error
+        })
+        byCode.set(item.code, found)
+      }
+      return found
+    }),
+  )
+}
+
+/**
+ * 海外発送の出荷依頼を作成前に確認する
+ *
+ * 次の内容を確認し、見つかった問題を `issues` に返します。
+ *
+ * - リクエストがスキーマ（海外発送の受取人・送り主を含む）に一致すること
+ * - 配送サービスが海外発送に対応し、EMS（未指定の場合を含む）の場合は受取人の国コードがEMSの発送可能国であること
+ * - 通貨コードが指定でき、国際発送の通貨情報に含まれること
+ * - 各商品にHSコード（出荷商品または商品マスタ）と商品マスタの国際情報（インボイス要約・原産国）があること
+ *
+ * 国・通貨情報はクライアントごとに `cacheTtl` の間キャッシュします（`referenceData` を指定した場合はそのキャッシュを使用）。
+ * 商品マスタは商品IDで一括検索し、商品コードのみの商品は `accountId` を指定した場合にコードで検索します。
+ *
+ * @param client - OpenLogiクライアント
+ * @param data - 出荷依頼作成リクエスト
+ * @param options - 事前チェックのオプション
+ * @returns 確認結果
+ *
+ * @throws {ApiError} 国・通貨情報または商品マスタの取得に失敗した場合
+ *
+ * @example
+ * ```typescript
+ * const { valid, issues } = await validateInternationalShipment(client, request, {
+ *   accountId: 'AB1234',
+ * })
+ * if (!valid) {
+ *   throw new ValidationError('出荷依頼を確認してください', { issues })
+ * }
+ * await createShipment(client, request)
+ * ```
+ */
+export async function validateInternationalShipment(
+  client: OpenLogiClient,
+  data: CreateShipmentRequest,
+  options: InternationalShipmentValidationOptions = {},
+): Promise<InternationalShipmentValidationResult> {
+  if (data.international !== true) {
+    return {
+      valid: false,
+      issues: [
+        {
+          path: ['international'],
+          message: '海外発送の出荷依頼ではありません（international: true を指定してください）',
+          code: 'not_international',
+        },
+      ],
+    }
+  }
+
+  const issues: InternationalShipmentIssue[] = []
+  const parsed = CreateShipmentRequestSchema.safeParse(data)
+  if (!parsed.success) {
+    for (const issue of parsed.error.issues) {
+      issues.push({ path: issue.path, message: issue.message, code: 'invalid_request' })
+    }
+  }
+
+  const referenceData =
+    options.referenceData ?? defaultReferenceData(client, options.cacheTtl ?? 60 * 60 * 1000)
+  const [regions, currencies, masters] = await Promise.all([
+    referenceData.getRegions(),
+    referenceData.getCurrencies(),
+    findItems(client, data.items, options.accountId),
+  ])
+
+  const service = data.delivery_service
+  const regionCode = data.recipient['region_code']
+  if (service !== undefined && !INTERNATIONAL_DELIVERY_SERVICES.includes(service)) {
+    issues.push({
+      path: ['delivery_service'],
+      message: `配送サービス ${service} は海外発送に対応していません`,
+      code: 'unsupported_delivery_service',
+    })
+  } else if (
+    (service === undefined || service === 'JAPANPOST-EMS') &&
+    typeof regionCode === 'string' &&
+    !regions.some(({ code }) => code === regionCode)
+  ) {
+    issues.push({
+      path: ['recipient', 'region_code'],
+      message: `国コード ${regionCode} はEMSの発送可能国ではありません`,
+      code: 'unsupported_region',
+    })
+  }
+
+  if (data.currency_code === undefined || data.currency_code === '') {
+    issues.push({
+      path: ['currency_code'],
+      message: '通貨コードが指定されていません',
+      code: 'missing_currency',
+    })
+  } else if (!currencies.some(({ code }) => code === data.currency_code)) {
+    issues.push({
+      path: ['currency_code'],
+      message: `通貨コード ${data.currency_code} は指定できません`,
+      code: 'unsupported_currency',
+    })
+  }
+
+  data.items.forEach((item, index) => {
+    const master = masters[index]
+    const label = item.code ?? item.id ?? `${index + 1}件目`
+    if (master === null) {
+      issues.push({
+        path: ['items', index],
+        message: `商品 ${label} が見つかりません`,
+        code: 'item_not_found',
+      })
+      return
+    }
+
+    if (!item.hs_code && !master?.hs_code) {
+      issues.push({
+        path: ['items', index, 'hs_code'],
+        message: `商品 ${label} にHSコードがありません`,
+        code: 'missing_hs_code',
+      })
+    }
+
+    if (master === undefined) {
+      issues.push({
+        path: ['items', index],
+        message: `商品 ${label} の国際情報を確認できません（商品IDまたはaccountIdを指定してください）`,
+        code: 'unverified_item',
+      })
+    } else if (!master.international_info) {
+      issues.push({
+        path: ['items', index, 'international_info'],
+        message: `商品 ${label} に国際情報（インボイス要約・原産国）がありません`,
+        code: 'missing_international_info',
+      })
+    }
+  })
+
+  return { valid: issues.length === 0, issues }
+}
@@ -0,0 +1,252 @@
+/**
+ * 引当可能数（ATP: Available to Promise）の見通し
+ * 商品の在庫数・出荷待ちの出荷依頼・入荷待ちの入荷依頼から、日付ごとの引当可能数を求める
+ *
+ * @packageDocumentation
+ */
+
+import { type OpenLogiClient } from '../client.js'
+import { getItem, getItemByCode } from '../resources/items.js'
+import { listShipmentsByIds } from '../resources/shipments.js'
+import { listWarehousing } from '../resources/warehousings.js'
+import { type ItemResponse } from '../types/items.js'
+import { type ShipmentResponse, type ShipmentStatus } from '../types/shipments.js'
+import { type WarehousingListItem } from '../types/warehousings.js'
+import { formatDateString } from '../utils/date.js'
+
+/**
+ * 引当可能数から差し引く出荷依頼のステータス
+ * ピッキング中以降の出荷依頼は在庫数の `shipping` に含まれる
+ */
+const OPEN_SHIPMENT_STATUSES: readonly ShipmentStatus[] = ['PENDING', 'SUSPENDED']
+
+/**
+ * 引当可能数の見通しのオプション
+ */
+export interface AvailableToPromiseOptions {
+  /**
+   * 見通しの基準日（これより前の入荷予定日・出荷予定日は基準日として扱う）
+   * @default 今日（ローカルタイムゾーン）
+   */
+  asOf?: Date | string | undefined
+
+  /**
+   * 商品コードで検索するアカウントID
+   * 未指定の場合、`code` を商品IDとして `getItem` で取得する
+   */
+  accountId?: string | undefined
+
+  /**
+   * 出荷待ち・保留中の出荷依頼
+   * 出荷依頼一覧APIはステータスで検索できないため、把握している出荷依頼を指定する
+   */
+  shipments?: readonly ShipmentResponse[] | undefined
+
+  /**
+   * 取得して `shipments` に加える出荷依頼のID
+   */
+  shipmentIds?: readonly string[] | undefined
+}
+
+/**
+ * 日付ごとの引当可能数
+ */
+export interface AvailableToPromiseEntry {
+  /** 日付（YYYY-MM-DD） */
+  date: string
+  /** この日の入荷予定数 */
+  inbound: number
+  /** この日の出荷予定数 */
+  outbound: number
+  /** この日の終わりの引当可能数（前日までの増減を含む） */
+  available: number
+}
+
+/**
+ * 引当可能数の見通し
+ */
+export interface AvailableToPromiseResult {
+  /** 商品ID */
+  itemId: string
+  /** 商品コード */
+  code: string
+  /** 基準日（YYYY-MM-DD） */
+  asOf: string
+  /** 出荷作業中を除いた在庫数（`stock.quantity - stock.shipping`） */
+  onHand: number
+  /** 日付ごとの引当可能数（基準日と、入荷・出荷の予定がある日付の昇順） */
+  timeline: AvailableToPromiseEntry[]
+}
+
+/**
+ * 日付をYYYY-MM-DD形式に変換する（ローカルタイムゾーン）
+ */
+function toDateString(value: Date | string): string {
+  if (typeof value === 'string') {
+    return value.replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3').slice(0, 10)
+  }
+  return formatDateString(value)
+}
+
+/**
+ * 入荷待ちの入荷依頼の商品ごとの未入荷数
+ *
+ * @internal
+ */
+export interface OpenInboundLine {
+  /** 入荷予定日（入荷依頼の `arrival_date`） */
+  arrival_date: string
+  /** 商品ID */
+  id: string
+  /** 商品コード */
+  code: string
+  /** 未入荷数（入荷予定数から入荷済み数を除いた数量） */
+  quantity: number
+}
+
+/**
+ * 入荷待ち（`waiting`）の入荷依頼から、商品ごとの未入荷数を取り出す
+ *
+ * @internal
+ * @param warehousings - `listWarehousing` で取得した入荷依頼
+ * @returns 未入荷数が1以上の商品
+ */
+export function openInboundLines(warehousings: readonly WarehousingListItem[]): OpenInboundLine[] {
+  return warehousings
+    .filter((warehousing) => warehousing.status === 'waiting')
+    .flatMap((warehousing) =>
+      warehousing.items.map(({ id, code, quantity, received }) => ({
+        arrival_date: warehousing.arrival_date,
+        id,
+        code,
+        quantity: Math.max(quantity - (received ?? 0), 0),
+      })),
+    )
+    .filter((line) => line.quantity > 0)
+}
+
+/**
+ * 出荷作業中を除いた在庫数を求める
+ */
+function onHandOf(item: ItemResponse): number {
+  if (typeof item.stock === 'object') {
+    return item.stock.quantity - item.stock.shipping
+  }
+  return item.stock ?? 0
+}
+
+/**
+ * 引当可能数の見通しを求める
+ *
+ * 出荷作業中を除いた在庫数から始め、基準日以降の日付ごとに次の増減を反映します。
+ *
+ * - 入荷待ち（`waiting`）の入荷依頼: 入荷予定日に、入荷予定数から入荷済み数を除いた数量を加える
+ * - 出荷待ち・保留中（`PENDING`・`SUSPENDED`）の出荷依頼: 出荷予定日（未指定の場合は基準日）に数量を差し引く
+ *
+ * 基準日より前の予定日は基準日に含めます。それ以外のステータスの出荷依頼は無視します。
+ *
+ * @param client - OpenLogiクライアント
+ * @param code - 商品コード（`accountId` 未指定の場合は商品ID）
+ * @param options - 基準日・アカウントID・出荷依頼のオプション
+ * @returns 引当可能数の見通し
+ *
+ * @throws {ApiError} 商品・入荷依頼・出荷依頼の取得に失敗した場合
+ *
+ * @example
+ * ```typescript
+ * const atp = await availableToPromise(client, 'ITEM-001', {
+ *   accountId: 'AB1234',
+ *   shipmentIds: pendingShipmentIds,
+ * })
+ * const date = earliestPromiseDate(atp, 30)
+ * await createShipment(client, { ...order, backorder_if_unavailable: date !== atp.asOf })
+ * ```
+ */
+export async function availableToPromise(
+  client: OpenLogiClient,
+  code: string,
+  options: AvailableToPromiseOptions = {},
+): Promise<AvailableToPromiseResult> {
+  const asOf = toDateString(options.asOf ?? new Date())
+  const { accountId, shipmentIds = [] } = options
+
+  const [item, { warehousings }, fetched] = await Promise.all([
+    accountId === undefined
+      ? getItem(client, code, { stock: 1 })
+      : getItemByCode(client, accountId, code, { stock: 1 }),
+    listWarehousing(client),
+    shipmentIds.length > 0
+      ? listShipmentsByIds(client, shipmentIds).then(({ shipments }) => shipments)
+      : Promise.resolve([]),
+  ])
+
+  const matches = (line: { id?: string | undefined; code?: string | undefined }): boolean =>
+    line.id === item.id || line.code === item.code
+
+  const changes = new Map<string, { inbound: number; outbound: number }>([
+    [asOf, { inbound: 0, outbound: 0 }],
+  ])
+  const changeOn = (date: string): { inbound: number; outbound: number } => {
+    const key = date < asOf ? asOf : date
+    let change = changes.get(key)
+    if (!change) {
+      change = { inbound: 0, outbound: 0 }
+      changes.set(key, change)
+    }
+    return change
+  }
+
+  for (const line of openInboundLines(warehousings).filter(matches)) {
+    changeOn(toDateString(line.arrival_date)).inbound += line.quantity
+  }
+
+  // 同じ出荷依頼が `shipments` と `shipmentIds` の両方にある場合は1件として数える
+  const shipments = new Map(
+    [...(options.shipments ?? []), ...fetched].map((shipment) => [shipment.id, shipment]),
+  )
+  for (const shipment of shipments.values()) {
+    if (shipment.status === undefined || !OPEN_SHIPMENT_STATUSES.includes(shipment.status)) {
+      continue
+    }
+    const date = shipment.assigned_shipping_date ?? shipment.shipping_date ?? asOf
+    for (const line of shipment.items.filter(matches)) {
+      changeOn(toDateString(date)).outbound += line.quantity
+    }
+  }
+
+  const onHand = onHandOf(item)
+  let available = onHand
+  const timeline = [...changes.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([date, { inbound, outbound }]) => {
+      available += inbound - outbound
+      return { date, inbound, outbound, available }
+    })
+
+  return { itemId: item.id, code: item.code, asOf, onHand, timeline }
+}
+
+/**
+ * 指定した数量を引き当てられる最も早い日付を求める
+ *
+ * その日以降のすべての日付で引当可能数が数量以上となる最初の日付を返します。
+ * 基準日を返した場合は在庫のみで出荷でき、それ以外の場合は `backorder_if_unavailable` の指定が必要です。
+ *
+ * @param result - `availableToPromise` の結果
+ * @param quantity - 引き当てる数量
+ * @returns 日付（YYYY-MM-DD）、見通しの期間内に引き当てられない場合はundefined
+ */
+export function earliestPromiseDate(
+  result: AvailableToPromiseResult,
+  quantity: number,
+): string | undefined {
+  let earliest: string | undefined
+  for (const entry of result.timeline) {
+    if (entry.available < quantity) {
+      earliest = undefined
+    } else {
+      earliest ??= entry.date
+    }
+  }
+  return earliest
+}
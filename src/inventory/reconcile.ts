@@ -0,0 +1,188 @@
+/**
+ * 在庫の照合
+ * 在庫スナップショットと基幹システム（ERP）の在庫数を比較し、差異を商品コード・倉庫ごとに報告する
+ *
+ * @packageDocumentation
+ */
+
+import { type InventoryLevel, type InventorySnapshot } from './snapshot.js'
+
+/**
+ * 基幹システムの在庫数
+ */
+export interface ExpectedInventory {
+  /** 商品コード */
+  code: string
+  /**
+   * 倉庫コード
+   * 未指定の場合は商品全体の在庫数と比較する
+   */
+  warehouse?: string | undefined
+  /** 在庫数 */
+  quantity: number
+}
+
+/**
+ * 在庫の照合オプション
+ */
+export interface InventoryReconcileOptions {
+  /**
+   * 基幹システムの在庫数と比較するOpenLogiの在庫数
+   * @default 'quantity'
+   */
+  field?: keyof InventoryLevel
+
+  /**
+   * 差異として扱わない差の絶対値
+   * @default 0
+   */
+  tolerance?: number
+
+  /**
+   * 基幹システムにない商品・倉庫（OpenLogiの在庫数が0より大きいもの）を差異として報告するか
+   * @default true
+   */
+  reportUnexpected?: boolean
+}
+
+/**
+ * 在庫の差異
+ */
+export interface InventoryDiscrepancy {
+  /** 商品コード */
+  code: string
+  /** 倉庫コード（商品全体の在庫数を比較した場合はundefined） */
+  warehouse: string | undefined
+  /** 基幹システムの在庫数 */
+  expected: number
+  /** OpenLogiの在庫数（OpenLogiに商品がない場合はundefined） */
+  actual: number | undefined
+  /** 差（OpenLogiの在庫数 - 基幹システムの在庫数、OpenLogiに商品がない場合は -expected） */
+  difference: number
+  /**
+   * 差異の種類
+   * - quantity_mismatch: 在庫数が一致しない
+   * - missing_in_openlogi: スナップショットに商品がない
+   * - missing_in_expected: 基幹システムに商品・倉庫がない
+   */
+  reason: 'quantity_mismatch' | 'missing_in_openlogi' | 'missing_in_expected'
+}
+
+/**
+ * 在庫の照合結果
+ */
+export interface InventoryReconcileResult {
+  /** 在庫数が一致した件数（商品コード・倉庫の組み合わせ） */
+  matched: number
+  /** 差異 */
+  discrepancies: InventoryDiscrepancy[]
+}
+
+/**
+ * 商品コードと倉庫コードからキーを生成する
+ */
+function keyOf(code: string, warehouse: string | undefined): string {
+  return warehouse === undefined ? code : `${code}\u0000${warehouse}`
+}
+
+/**
+ * 在庫スナップショットと基幹システムの在庫数を照合する
+ *
+ * 基幹システムの在庫数は、倉庫コードを指定した場合は倉庫ごとの在庫数と、指定しない場合は
+ * 商品全体の在庫数と比較します。同じ商品コード・倉庫の行が複数ある場合は合計します。
+ * スナップショットの取得時に見つからなかった商品は `missing_in_openlogi` として報告します。
+ *
+ * @param snapshot - `getInventorySnapshot` で取得した在庫スナップショット
+ * @param expected - 基幹システムの在庫数
+ * @param options - 照合オプション
+ * @returns 一致した件数と差異（基幹システムの行の順序、続いて基幹システムにない商品・倉庫）
+ *
+ * @example
+ * ```typescript
+ * const snapshot = await getInventorySnapshot(client, codes, { accountId: 'AB1234' })
+ * const { discrepancies } = reconcileInventory(snapshot, [
+ *   { code: 'ITEM-001', quantity: 100 },
+ *   { code: 'ITEM-002', warehouse: 'OPL', quantity: 20 },
+ * ])
+ * // [{ code: 'ITEM-001', warehouse: undefined, expected: 100, actual: 98, difference: -2, reason: 'quantity_mismatch' }]
+ * ```
+ */
+export function reconcileInventory(
+  snapshot: InventorySnapshot,
+  expected: Iterable<ExpectedInventory>,
+  options: InventoryReconcileOptions = {},
+): InventoryReconcileResult {
+  const { field = 'quantity', tolerance = 0, reportUnexpected = true } = options
+
+  const rows = new Map<string, { code: string; warehouse: string | undefined; quantity: number }>()
+  for (const { code, warehouse, quantity } of expected) {
+    const key = keyOf(code, warehouse)
+    const row = rows.get(key)
+    if (row) {
+      row.quantity += quantity
+    } else {
+      rows.set(key, { code, warehouse, quantity })
+    }
+  }
+
+  const discrepancies: InventoryDiscrepancy[] = []
+  let matched = 0
+
+  for (const { code, warehouse, quantity } of rows.values()) {
+    const item = snapshot.items.get(code)
+    if (!item) {
+      discrepancies.push({
+        code,
+        warehouse,
+        expected: quantity,
+        actual: undefined,
+        difference: -quantity,
+        reason: 'missing_in_openlogi',
+      })
+      continue
+    }
+
+    const level = warehouse === undefined ? item.total : item.warehouses.get(warehouse)
+    const actual = level?.[field] ?? 0
+    if (Math.abs(actual - quantity) > tolerance) {
+      discrepancies.push({
+        code,
+        warehouse,
+        expected: quantity,
+        actual,
+        difference: actual - quantity,
+        reason: 'quantity_mismatch',
+      })
+    } else {
+      matched++
+    }
+  }
+
+  if (reportUnexpected) {
+    // 倉庫を指定した行がある商品は倉庫ごとに、ない商品は商品全体で確認する
+    const byWarehouse = new Set(
+      [...rows.values()].flatMap((row) => (row.warehouse === undefined ? [] : [row.code])),
+    )
+    for (const item of snapshot.items.values()) {
+      const levels = byWarehouse.has(item.code)
+        ? [...item.warehouses.values()].map((level) => ({ warehouse: level.warehouse, level }))
+        : [{ warehouse: undefined, level: item.total }]
+
+      for (const { warehouse, level } of levels) {
+        const actual = level[field]
+        if (!rows.has(keyOf(item.code, warehouse)) && Math.abs(actual) > tolerance) {
+          discrepancies.push({
+            code: item.code,
+            warehouse,
+            expected: 0,
+            actual,
+            difference: actual,
+            reason: 'missing_in_expected',
+          })
+        }
+      }
+    }
+  }
+
+  return { matched, discrepancies }
+}
@@ -0,0 +1,304 @@
+/**
+ * 在庫の補充計画
+ * 補充点を下回った商品を検出し、入荷依頼の下書きを作成する（指定した場合は入荷依頼を作成する）
+ *
+ * @packageDocumentation
+ */
+
+import { type OpenLogiClient } from '../client.js'
+import { ValidationError } from '../errors.js'
+import {
+  createWarehousing,
+  listWarehousing,
+  MAX_ITEMS_PER_WAREHOUSING,
+} from '../resources/warehousings.js'
+import {
+  CreateWarehousingRequestSchema,
+  type CreateWarehousingRequest,
+  type WarehousingResponse,
+} from '../types/warehousings.js'
+import { chunk, type BatchOptions } from '../utils/batch.js'
+import { formatDateString } from '../utils/date.js'
+import { openInboundLines } from './available-to-promise.js'
+import { getInventorySnapshot, type InventoryLevel } from './snapshot.js'
+
+/**
+ * 商品ごとの補充ルール
+ */
+export interface ReorderRule {
+  /** 商品コード（`accountId` 未指定の場合は商品ID） */
+  code: string
+  /** 補充点（在庫数がこれを下回った場合に補充する） */
+  reorderPoint: number
+  /** 補充後の目標在庫数（発注数は目標在庫数と在庫数の差） */
+  targetLevel: number
+  /**
+   * 発注から入荷までの日数
+   * 未指定の場合は `ReplenishmentOptions.leadTimeDays`
+   */
+  leadTimeDays?: number | undefined
+}
+
+/**
+ * 補充計画のオプション
+ */
+export interface ReplenishmentOptions extends BatchOptions {
+  /**
+   * 商品コードで検索するアカウントID
+   * 未指定の場合、`code` を商品IDとして `listItems` で検索する
+   */
+  accountId?: string | undefined
+
+  /**
+   * 補充点と比較する在庫数
+   * @default 'available'
+   */
+  field?: keyof InventoryLevel
+
+  /**
+   * 入荷待ち（`waiting`）の入荷依頼の未入荷数を在庫数に加えて補充点と比較するか
+   * falseの場合は在庫数のみで判定するため、入荷前に再実行すると同じ入荷依頼を再び計画する
+   * @default true
+   */
+  includeInbound?: boolean
+
+  /**
+   * 発注から入荷までの日数（`ReorderRule.leadTimeDays` 未指定の場合）
+   * @default 0
+   */
+  leadTimeDays?: number
+
+  /**
+   * 入荷予定日の基準日
+   * @default 今日（ローカルタイムゾーン）
+   */
+  asOf?: Date
+
+  /**
+   * 入荷依頼の `items`・`arrival_date` 以外の項目
+   * @default { inspection_type: 'CODE' }
+   */
+  template?: Omit<CreateWarehousingRequest, 'items' | 'arrival_date'>
+
+  /**
+   * falseの場合は `createWarehousing` で入荷依頼を作成する
+   * @default true
+   */
+  dryRun?: boolean
+
+  /**
+   * 補充点を下回った商品ごとに呼び出す関数
+   */
+  onLowStock?: (_line: ReplenishmentLine) => void
+}
+
+/**
+ * 補充する商品
+ */
+export interface ReplenishmentLine {
+  /** 商品コード */
+  code: string
+  /** 在庫数（`field` で指定した在庫数） */
+  current: number
+  /** 入荷待ちの入荷依頼の未入荷数（`includeInbound: false` の場合は0） */
+  inbound: number
+  /** 補充点 */
+  reorderPoint: number
+  /** 目標在庫数 */
+  targetLevel: number
+  /** 発注数 */
+  quantity: number
+  /** 入荷予定日（YYYY-MM-DD） */
+  arrival_date: string
+}
+
+/**
+ * 入荷依頼の作成に失敗した下書き
+ */
+export interface FailedReplenishment {
+  /** 入荷依頼の下書き */
+  request: CreateWarehousingRequest
+  /** 発生したエラー */
+  error: unknown
+}
+
+/**
+ * 補充計画
+ */
+export interface ReplenishmentPlan {
+  /** 補充する商品（ルールの順序） */
+  lines: ReplenishmentLine[]
+  /** 入荷依頼の下書き（入荷予定日ごと、25商品ごと） */
+  requests: CreateWarehousingRequest[]
+  /** APIから返されなかった商品コード */
+  missing: string[]
+  /** 作成した入荷依頼（`dryRun` の場合は空） */
+  created: WarehousingResponse[]
+  /** 作成に失敗した入荷依頼（`dryRun` の場合は空） */
+  failed: FailedReplenishment[]
+}
+
+/**
+ * 補充ルールを検証する
+ */
+function validateRules(rules: readonly ReorderRule[]): void {
+  const codes = new Set<string>()
+  for (const rule of rules) {
+    if (codes.has(rule.code)) {
+      throw new RangeError(`Duplicate reorder rule for code: ${rule.code}`)
+    }
+    codes.add(rule.code)
+    if (!(rule.targetLevel >= rule.reorderPoint)) {
+      throw new RangeError(
+        `targetLevel must be greater than or equal to reorderPoint for code ${rule.code}, got ${rule.targetLevel}`,
+      )
+    }
+    if (rule.leadTimeDays !== undefined && !(rule.leadTimeDays >= 0)) {
+      throw new RangeError(
+        `leadTimeDays must be non-negative for code ${rule.code}, got ${rule.leadTimeDays}`,
+      )
+    }
+  }
+}
+
+/**
+ * 補充点を下回った商品の入荷依頼を計画する
+ *
+ * 在庫情報付きの商品を `getInventorySnapshot` で、入荷待ちの入荷依頼を `listWarehousing` で取得し、
+ * `field` の在庫数と未入荷数の合計が補充点を下回った商品について、目標在庫数との差を発注数とします。
+ * 作成済みの入荷依頼は入荷まで未入荷数に含まれるため、入荷前に再実行しても同じ商品を重ねて発注しません。
+ * 入荷依頼の下書きは入荷予定日（基準日 + リードタイム）ごとに、
+ * 商品コードが重複しないよう25商品ずつにまとめます。
+ * `accountId` 未指定の場合はルールの `code` を商品IDとして検索し、計画と下書きには商品コードを指定します。
+ *
+ * デフォルトでは入荷依頼を作成せず（ドライラン）、計画のみを返します。`dryRun: false` の場合は
+ * 下書きを順に `createWarehousing` で作成し、失敗した下書きは `failed` に記録して残りの作成を続けます。
+ *
+ * @param client - OpenLogiクライアント
+ * @param rules - 商品ごとの補充ルール
+ * @param options - 補充計画のオプション
+ * @returns 補充計画
+ *
+ * @throws {RangeError} 補充ルールが重複している、または目標在庫数・リードタイムが不正な場合
+ * @throws {ValidationError} `template` を含む入荷依頼の下書きがスキーマに一致しない場合
+ *
+ * @example
+ * ```typescript
+ * const plan = await planReplenishment(
+ *   client,
+ *   [{ code: 'ITEM-001', reorderPoint: 20, targetLevel: 100, leadTimeDays: 7 }],
+ *   { accountId: 'AB1234' },
+ * )
+ * console.table(plan.lines)
+ *
+ * // 確認後に作成
+ * await planReplenishment(client, rules, { accountId: 'AB1234', dryRun: false })
+ * ```
+ */
+export async function planReplenishment(
+  client: OpenLogiClient,
+  rules: readonly ReorderRule[],
+  options: ReplenishmentOptions = {},
+): Promise<ReplenishmentPlan> {
+  const {
+    accountId,
+    field = 'available',
+    includeInbound = true,
+    leadTimeDays = 0,
+    asOf = new Date(),
+    template = { inspection_type: 'CODE' },
+    dryRun = true,
+    onLowStock,
+    ...batchOptions
+  } = options
+  if (!(leadTimeDays >= 0)) {
+    throw new RangeError(`leadTimeDays must be non-negative, got ${leadTimeDays}`)
+  }
+  validateRules(rules)
+
+  const [snapshot, inboundLines] = await Promise.all([
+    getInventorySnapshot(
+      client,
+      rules.map((rule) => rule.code),
+      { ...batchOptions, accountId },
+    ),
+    includeInbound
+      ? listWarehousing(client).then(({ warehousings }) => openInboundLines(warehousings))
+      : Promise.resolve([]),
+  ])
+
+  // スナップショットは商品コードをキーとするため、商品IDで検索した場合はIDで引き直す
+  const items =
+    accountId === undefined
+      ? new Map([...snapshot.items.values()].map((item) => [item.id, item]))
+      : snapshot.items
+
+  const lines: ReplenishmentLine[] = []
+  for (const rule of rules) {
+    const item = items.get(rule.code)
+    if (!item) {
+      continue
+    }
+    const current = item.total[field]
+    const inbound = inboundLines
+      .filter((line) => line.id === item.id || line.code === item.code)
+      .reduce((sum, line) => sum + line.quantity, 0)
+    if (current + inbound >= rule.reorderPoint) {
+      continue
+    }
+    const arrival = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate())
+    arrival.setDate(arrival.getDate() + (rule.leadTimeDays ?? leadTimeDays))
+    const line: ReplenishmentLine = {
+      code: item.code,
+      current,
+      inbound,
+      reorderPoint: rule.reorderPoint,
+      targetLevel: rule.targetLevel,
+      quantity: rule.targetLevel - current - inbound,
+      arrival_date: formatDateString(arrival),
+    }
+    lines.push(line)
+    onLowStock?.(line)
+  }
+
+  const byArrivalDate = new Map<string, ReplenishmentLine[]>()
+  for (const line of lines) {
+    byArrivalDate.set(line.arrival_date, [...(byArrivalDate.get(line.arrival_date) ?? []), line])
+  }
+  const requests = [...byArrivalDate.entries()]
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .flatMap(([arrivalDate, dateLines]) =>
+      chunk(dateLines, MAX_ITEMS_PER_WAREHOUSING).map(
+        (chunkLines): CreateWarehousingRequest => ({
+          ...template,
+          arrival_date: arrivalDate,
+          items: chunkLines.map(({ code, quantity }) => ({ code, quantity })),
+        }),
+      ),
+    )
+
+  for (const request of requests) {
+    const result = CreateWarehousingRequestSchema.safeParse(request)
+    if (!result.success) {
+      throw new ValidationError(
+        `入荷依頼の下書きの検証に失敗しました: ${result.error.message}`,
+        result.error,
+        result.error,
+      )
+    }
+  }
+
+  const created: WarehousingResponse[] = []
+  const failed: FailedReplenishment[] = []
+  if (!dryRun) {
+    for (const request of requests) {
+      try {
+        created.push(await createWarehousing(client, request))
+      } catch (error) {
+        failed.push({ request, error })
+      }
+    }
+  }
+
+  return { lines, requests, missing: snapshot.missing, created, failed }
+}
@@ -0,0 +1,234 @@
+/**
+ * 在庫スナップショット
+ * 商品ごと・倉庫ごと・ロットごとの在庫数を、在庫情報付きの商品取得APIからまとめて取得する
+ *
+ * @packageDocumentation
+ */
+
+import { type OpenLogiClient } from '../client.js'
+import { listItemsByAccountId, listItemsByIds } from '../resources/items.js'
+import { type ItemResponse, type LotStock, type Stock } from '../types/items.js'
+import {
+  chunk,
+  mapWithConcurrency,
+  MAX_IDS_PER_REQUEST,
+  type BatchOptions,
+} from '../utils/batch.js'
+
+/**
+ * 在庫数
+ * APIが返さなかった数量は0とする
+ */
+export interface InventoryLevel {
+  /** 総数（期限切れの在庫は含まない） */
+  quantity: number
+  /** 配送可在庫数 */
+  available: number
+  /** 出荷作業中 */
+  shipping: number
+  /** 依頼中（出荷作業中・引当待ち・入荷待ちの和） */
+  requesting: number
+  /** 入荷待ち数 */
+  backordered: number
+  /** 期限切れ在庫数 */
+  unallocatable: number
+}
+
+/**
+ * ロットごとの在庫数
+ */
+export interface LotInventory {
+  /** 賞味期限 */
+  expiry_at: string | null
+  /** 製造年月日 */
+  manufacture_date: string | null
+  /** 引当期限日 */
+  lot_allocatable_at: string | null
+  /** 総数 */
+  quantity: number
+  /** 配送可在庫数（APIが返さなかった場合はundefined） */
+  available: number | undefined
+}
+
+/**
+ * 倉庫ごとの在庫数
+ */
+export interface WarehouseInventory extends InventoryLevel {
+  /** 倉庫コード */
+  warehouse: string
+  /** ロットごとの在庫数（期限管理商品以外は空） */
+  lots: LotInventory[]
+}
+
+/**
+ * 商品ごとの在庫数
+ */
+export interface InventoryItem {
+  /** 商品ID */
+  id: string
+  /** 商品コード */
+  code: string
+  /** 商品名 */
+  name: string
+  /** 商品全体の在庫数 */
+  total: InventoryLevel
+  /** 倉庫ごとの在庫数（キー: 倉庫コード） */
+  warehouses: Map<string, WarehouseInventory>
+}
+
+/**
+ * 在庫スナップショット
+ */
+export interface InventorySnapshot {
+  /** 取得日時（ISO 8601） */
+  takenAt: string
+  /** 商品ごとの在庫数（キー: 商品コード、入力の順序） */
+  items: Map<string, InventoryItem>
+  /** APIから返されなかった商品コード（`accountId` 未指定の場合は商品ID） */
+  missing: string[]
+}
+
+/**
+ * 在庫スナップショットの取得オプション
+ */
+export interface InventorySnapshotOptions extends BatchOptions {
+  /**
+   * 商品コードで検索するアカウントID
+   * 未指定の場合、`codes` を商品IDとして `listItems` で検索する
+   */
+  accountId?: string | undefined
+}
+
+/**
+ * 在庫数を正規化する
+ */
+function toLevel(stock: Partial<Stock>): InventoryLevel {
+  return {
+    quantity: stock.quantity ?? 0,
+    available: stock.available ?? 0,
+    shipping: stock.shipping ?? 0,
+    requesting: stock.requesting ?? 0,
+    backordered: stock.backordered ?? 0,
+    unallocatable: stock.unallocatable ?? 0,
+  }
+}
+
+/**
+ * ロットの在庫数を正規化する
+ */
+function toLot(lot: LotStock): LotInventory {
+  return {
+    expiry_at: lot.expiry_at ?? null,
+    manufacture_date: lot.manufacture_date ?? null,
+    lot_allocatable_at: lot.lot_allocatable_at ?? null,
+    quantity: lot.quantity,
+    available: lot.available,
+  }
+}
+
+/**
+ * 在庫数を合計する
+ */
+function sumLevels(levels: readonly InventoryLevel[]): InventoryLevel {
+  const total = toLevel({})
+  for (const level of levels) {
+    for (const key of Object.keys(total) as Array<keyof InventoryLevel>) {
+      total[key] += level[key]
+    }
+  }
+  return total
+}
+
+/**
+ * 在庫情報付きの商品を在庫数に正規化する
+ *
+ * 商品全体の在庫数は、在庫情報（`stock`）がある場合はその値、在庫数のみ（数値）の場合は
+ * 倉庫ごとの在庫数の合計、倉庫ごとの在庫数もない場合はその数値を総数・配送可在庫数とします。
+ *
+ * @param item - `stock: 1` を指定して取得した商品
+ * @returns 商品ごとの在庫数
+ */
+export function toInventoryItem(item: ItemResponse): InventoryItem {
+  const warehouses = new Map<string, WarehouseInventory>()
+  for (const stock of item.stocks ?? []) {
+    warehouses.set(stock.warehouse, {
+      warehouse: stock.warehouse,
+      ...toLevel(stock),
+      lots: (stock.lots ?? []).map(toLot),
+    })
+  }
+
+  let total: InventoryLevel
+  if (typeof item.stock === 'object') {
+    total = toLevel(item.stock)
+  } else if (warehouses.size > 0) {
+    total = sumLevels([...warehouses.values()])
+  } else {
+    total = toLevel({ quantity: item.stock ?? 0, available: item.stock ?? 0 })
+  }
+
+  return { id: item.id, code: item.code, name: item.name, total, warehouses }
+}
+
+/**
+ * 商品の在庫スナップショットを取得する
+ *
+ * `accountId` を指定した場合は商品コードで、未指定の場合は商品IDで、在庫情報付きの商品を
+ * 100件ごとのリクエストに分割して並列に取得し、商品コードをキーとした在庫数に正規化します。
+ *
+ * @param client - OpenLogiクライアント
+ * @param codes - 商品コード（`accountId` 未指定の場合は商品ID）
+ * @param options - アカウントID・分割・並列数のオプション
+ * @returns 在庫スナップショット
+ *
+ * @throws {RangeError} chunkSizeが100を超える場合
+ *
+ * @example
+ * ```typescript
+ * const snapshot = await getInventorySnapshot(client, ['ITEM-001', 'ITEM-002'], {
+ *   accountId: 'AB1234',
+ * })
+ * snapshot.items.get('ITEM-001')?.total.available // 70
+ * snapshot.items.get('ITEM-001')?.warehouses.get('OPL')?.quantity // 100
+ * ```
+ */
+export async function getInventorySnapshot(
+  client: OpenLogiClient,
+  codes: readonly string[],
+  options: InventorySnapshotOptions = {},
+): Promise<InventorySnapshot> {
+  const { accountId, ...batchOptions } = options
+  const takenAt = new Date().toISOString()
+  const uniqueCodes = [...new Set(codes)]
+
+  let items: ItemResponse[]
+  let missing: string[]
+  if (accountId === undefined) {
+    const result = await listItemsByIds(client, uniqueCodes, { ...batchOptions, stock: 1 })
+    items = result.items
+    missing = result.missingIds
+  } else {
+    const chunkSize = batchOptions.chunkSize ?? MAX_IDS_PER_REQUEST
+    if (chunkSize > MAX_IDS_PER_REQUEST) {
+      throw new RangeError(`chunkSize must be ${MAX_IDS_PER_REQUEST} or less: ${chunkSize}`)
+    }
+    const responses = await mapWithConcurrency(
+      chunk(uniqueCodes, chunkSize),
+      batchOptions.concurrency ?? 4,
+      (chunkCodes) =>
+        listItemsByAccountId(client, accountId, { code: chunkCodes.join(','), stock: 1 }),
+    )
+    const byCode = new Map(responses.flatMap((response) => response.items).map((i) => [i.code, i]))
+    items = uniqueCodes.flatMap((code) => {
+      const item = byCode.get(code)
+      return item ? [item] : []
+    })
+    missing = uniqueCodes.filter((code) => !byCode.has(code))
+  }
+
+  return {
+    takenAt,
+    items: new Map(items.map((item) => [item.code, toInventoryItem(item)])),
+    missing,
+  }
+}
@@ -0,0 +1,196 @@
+/**
+ * 構造化ロガー連携
+ * リクエストごとのログ出力と、個人情報（受取人・送り主情報など）のマスキング
+ *
+ * @packageDocumentation
+ */
+
+import { OpenLogiError } from './errors.js'
+import { type Middleware } from './middleware.js'
+
+/**
+ * ログ出力関数（pino形式: 構造化データ、メッセージの順）
+ */
+export type LogFn = (_data: Record<string, unknown>, _message?: string) => void
+
+/**
+ * ロガー
+ *
+ * pinoのロガーはそのまま渡せます。winstonの場合も `info(object, message)` の形式で
+ * 呼び出されるため、そのまま渡すことができます（`console` も利用可能）。
+ * `debug` を持つロガーの場合は、マスキング済みのヘッダーとボディをdebugレベルで出力します。
+ */
+export interface Logger {
+  debug?: LogFn
+  info: LogFn
+  warn: LogFn
+  error: LogFn
+}
+
+/**
+ * マスク後の値
+ */
+export const REDACTED = '[REDACTED]'
+
+/**
+ * 配下の値をすべてマスクするキー
+ */
+const REDACTED_OBJECT_KEYS = new Set(['recipient', 'sender'])
+
+/**
+ * 値をマスクするキー（階層を問わない）
+ */
+const REDACTED_VALUE_KEYS = new Set(['shipping_email', 'phone'])
+
+/**
+ * 値をすべてマスクする（構造は維持する）
+ */
+function redactAll(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redactAll)
+  }
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, redactAll(child)]))
+  }
+  return value === null || value === undefined ? value : REDACTED
+}
+
+/**
+ * 個人情報をマスクしたコピーを返す
+ *
+ * - `recipient`、`sender` 配下の値はすべてマスク
+ * - `shipping_email`、`phone` は階層を問わずマスク
+ * - `Authorization` ヘッダーのBearerトークンをマスク
+ *
+ * @param value - マスク対象の値（リクエスト/レスポンスボディ、ヘッダーなど）
+ * @returns マスク済みのコピー
+ *
+ * @example
+ * ```typescript
+ * redact({ order_no: 'A-1', recipient: { name: '山田太郎', phone: '0312345678' } })
+ * // { order_no: 'A-1', recipient: { name: '[REDACTED]', phone: '[REDACTED]' } }
+ * ```
+ */
+export function redact(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(redact)
+  }
+  if (value === null || typeof value !== 'object') {
+    return value
+  }
+
+  return Object.fromEntries(
+    Object.entries(value).map(([key, child]) => {
+      const lowerKey = key.toLowerCase()
+      if (REDACTED_OBJECT_KEYS.has(lowerKey) || REDACTED_VALUE_KEYS.has(lowerKey)) {
+        return [key, redactAll(child)]
+      }
+      if (lowerKey === 'authorization' && typeof child === 'string') {
+        return [key, child.replace(/^(Bearer\s+).+$/i, `$1${REDACTED}`)]
+      }
+      return [key, redact(child)]
+    }),
+  )
+}
+
+/**
+ * Headersをプレーンオブジェクトに変換
+ */
+function headersToObject(headers: Headers): Record<string, string> {
+  const result: Record<string, string> = {}
+  headers.forEach((value, key) => {
+    result[key] = value
+  })
+  return result
+}
+
+/**
+ * ボディをログ用に読み取る（JSONの場合はパースしてマスク）
+ */
+async function readBody(source: Request | Response): Promise<unknown> {
+  const text = await source.clone().text()
+  if (!text) {
+    return undefined
+  }
+  try {
+    return redact(JSON.parse(text))
+  } catch {
+    return `[${text.length} bytes]`
+  }
+}
+
+/**
+ * ロガーにリクエストログを出力するミドルウェアを生成
+ *
+ * 試行ごとに method、path、status、duration（ミリ秒）、attempt を出力します。
+ * 成功はinfo、エラーステータスはwarn、通信エラーはerrorレベルで出力します。
+ *
+ * @param logger - 出力先のロガー
+ * @returns ロギングミドルウェア
+ *
+ * @example
+ * ```typescript
+ * import pino from 'pino'
+ *
+ * const client = createClient({
+ *   apiToken: 'your-api-token',
+ *   middleware: [createLoggingMiddleware(pino())],
+ * })
+ * ```
+ */
+export function createLoggingMiddleware(logger: Logger): Middleware {
+  const describe = (request: Request): Record<string, unknown> => {
+    const url = new URL(request.url)
+    return { method: request.method, path: url.pathname + url.search }
+  }
+
+  return {
+    beforeRequest: async (request, { attempt }) => {
+      if (!logger.debug) {
+        return
+      }
+      logger.debug(
+        {
+          ...describe(request),
+          attempt,
+          headers: redact(headersToObject(request.headers)),
+          body: await readBody(request),
+        },
+        'OpenLogi API request',
+      )
+    },
+
+    afterResponse: async (request, response, { attempt, startedAt }) => {
+      const data = {
+        ...describe(request),
+        status: response.status,
+        duration: Date.now() - startedAt,
+        attempt,
+      }
+      if (response.ok || response.status === 304) {
+        logger.info(data, 'OpenLogi API response')
+      } else {
+        logger.warn(data, 'OpenLogi API error response')
+      }
+      if (logger.debug) {
+        logger.debug({ ...data, body: await readBody(response) }, 'OpenLogi API response body')
+      }
+    },
+
+    onError: (request, error, { attempt, startedAt }) => {
+      // エラーステータスはafterResponseで出力済み
+      if (error instanceof OpenLogiError) {
+        return
+      }
+      logger.error(
+        {
+          ...describe(request),
+          duration: Date.now() - startedAt,
+          attempt,
+          error: error instanceof Error ? { name: error.name, message: error.message } : error,
+        },
+        'OpenLogi API request failed',
+      )
+    },
+  }
+}
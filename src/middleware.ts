@@ -0,0 +1,155 @@
+/**
+ * リクエスト/レスポンスミドルウェア
+ * createClientで作成したkyインスタンスの全リクエストに適用されるフック
+ *
+ * @packageDocumentation
+ */
+
+import { type Options } from 'ky'
+
+/**
+ * ミドルウェアに渡される実行コンテキスト
+ * 同じ試行（attempt）内の各フックで同一のオブジェクトが渡される
+ */
+export interface MiddlewareContext {
+  /**
+   * 試行回数（1始まり、リトライのたびに増加）
+   */
+  attempt: number
+
+  /**
+   * この試行の開始時刻（`Date.now()`）
+   */
+  startedAt: number
+}
+
+/**
+ * リクエスト/レスポンスミドルウェア
+ *
+ * `request()` 経由の呼び出しと、`client.http` を直接使用する呼び出し
+ * （`uploadItemImage`、`deleteItemImage`、`getWarehousingLabel` など）の両方に適用されます。
+ * 各フックはリトライを含む試行ごとに、登録した順序で呼び出されます。
+ *
+ * @example
+ * ```typescript
+ * const tracing: Middleware = {
+ *   beforeRequest: (request) => {
+ *     request.headers.set('X-Request-Id', crypto.randomUUID())
+ *   },
+ *   afterResponse: (request, response, { attempt }) => {
+ *     audit.write({ url: request.url, status: response.status, attempt })
+ *   },
+ *   onError: (request, error) => {
+ *     audit.write({ url: request.url, error })
+ *   },
+ * }
+ * ```
+ */
+export interface Middleware {
+  /**
+   * リクエスト送信前に呼び出される
+   * Requestを返した場合は、以降のミドルウェアと送信にそのRequestを使用する
+   */
+  beforeRequest?: (
+    _request: Request,
+    _context: MiddlewareContext,
+  ) => Request | void | Promise<Request | void>
+
+  /**
+   * レスポンス受信後に呼び出される（エラーステータスを含む）
+   * Responseを返した場合は、以降のミドルウェアと呼び出し元にそのResponseを使用する
+   * ボディを読む場合は `response.clone()` を使用すること
+   * 例外を送出した場合も、エラーステータスのレスポンスでは `onError` が呼び出される
+   */
+  afterResponse?: (
+    _request: Request,
+    _response: Response,
+    _context: MiddlewareContext,
+  ) => Response | void | Promise<Response | void>
+
+  /**
+   * 試行が失敗したときに呼び出される
+   * - エラーステータスのレスポンス: 呼び出し元に通知されるものと同じ型のOpenLogiError
+   * - ネットワークエラー・タイムアウト: fetchが送出したエラー
+   */
+  onError?: (
+    _request: Request,
+    _error: unknown,
+    _context: MiddlewareContext,
+  ) => void | Promise<void>
+}
+
+/**
+ * ミドルウェアを適用したkyオプション（fetchとhooks）を生成
+ *
+ * kyはリトライごとにfetchを呼び出すため、ミドルウェアはfetchのラッパーとして実装する。
+ * 試行回数はbeforeRetryフックで次の試行に使われるRequestに紐づけて記録する。
+ *
+ * @internal
+ * @param middleware - 適用するミドルウェア（登録順に実行）
+ * @param toError - エラーステータスのレスポンスをOpenLogiErrorに変換する関数
+ * @returns kyに渡すfetchとhooks
+ */
+export function createMiddlewareOptions(
+  middleware: readonly Middleware[],
+  toError: (_response: Response) => Promise<unknown>,
+): Pick<Options, 'fetch' | 'hooks'> {
+  if (middleware.length === 0) {
+    return {}
+  }
+
+  const attempts = new WeakMap<Request, number>()
+
+  const fetchWithMiddleware = async (
+    input: string | URL | Request,
+    init?: RequestInit,
+  ): Promise<Response> => {
+    let request = input instanceof Request ? input : new Request(input, init)
+    const context: MiddlewareContext = {
+      attempt: attempts.get(request) ?? 1,
+      startedAt: Date.now(),
+    }
+
+    const notifyError = async (error: unknown): Promise<void> => {
+      for (const { onError } of middleware) {
+        await onError?.(request, error, context)
+      }
+    }
+
+    let response: Response
+    try {
+      for (const { beforeRequest } of middleware) {
+        request = (await beforeRequest?.(request, context)) ?? request
+      }
+      response = await globalThis.fetch(request, init)
+    } catch (error) {
+      await notifyError(error)
+      throw error
+    }
+
+    try {
+      for (const { afterResponse } of middleware) {
+        response = (await afterResponse?.(request, response, context)) ?? response
+      }
+    } finally {
+      // afterResponseが例外を送出した場合も、レート制限の停止・解放などのためonErrorを呼び出す
+      // 304（条件付きリクエストでキャッシュが有効）はエラーとして扱わない
+      if (!response.ok && response.status !== 304 && middleware.some(({ onError }) => onError)) {
+        await notifyError(await toError(response.clone()))
+      }
+    }
+
+    return response
+  }
+
+  return {
+    fetch: fetchWithMiddleware,
+    hooks: {
+      beforeRetry: [
+        ({ request, retryCount }) => {
+          attempts.set(request, retryCount + 1)
+        },
+      ],
+    },
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * クラスベースのOpenLogiクライアント
+ * 関数ベースのリソースAPIをリソースごとの名前空間にまとめて提供する
+ *
+ * @packageDocumentation
+ */
+
+import { createClient, type ClientConfig, type OpenLogiClient } from './client.js'
+import {
+  listItems,
+  listItemsByIds,
+  createItem,
+  bulkCreateItems,
+  bulkCreateItemsChunked,
+  getItem,
+  updateItem,
+  deleteItem,
+  uploadItemImage,
+  uploadItemImageByCode,
+  deleteItemImage,
+  deleteItemImageByCode,
+  getItemByCode,
+  updateItemByCode,
+  deleteItemByCode,
+  listItemsByAccountId,
+} from './resources/items.js'
+import {
+  listShipments,
+  listShipmentsByIds,
+  createShipment,
+  bulkCreateShipments,
+  bulkCreateShipmentsChunked,
+  getShipment,
+  waitForShipmentStatus,
+  updateShipment,
+  deleteShipment,
+  modifyShipment,
+  cancelShipment,
+  listShippedShipments,
+  getShippedShipmentByDate,
+  iterateShippedShipments,
+  getInternationalRegions,
+  getInternationalCurrencies,
+  clearShipmentAllocation,
+  listShipmentsByAccountId,
+  getShipmentByAccountId,
+  updateShipmentByAccountId,
+  deleteShipmentByAccountId,
+  modifyShipmentByAccountId,
+  cancelShipmentByAccountId,
+  createTransfer,
+  updateTransfer,
+  modifyTransfer,
+  cancelTransfer,
+} from './resources/shipments.js'
+import {
+  listWarehousing,
+  createWarehousing,
+  createWarehousingsSplit,
+  getWarehousing,
+  waitForWarehousingStatus,
+  updateWarehousing,
+  deleteWarehousing,
+  getStockedWarehousing,
+  getStockedWarehousingByDate,
+  iterateStockedWarehousings,
+  getWarehousingLabel,
+} from './resources/warehousings.js'
+import { validateInternationalShipment } from './international/validate.js'
+import { availableToPromise } from './inventory/available-to-promise.js'
+import { planReplenishment } from './inventory/replenishment.js'
+import { getInventorySnapshot } from './inventory/snapshot.js'
+
+/**
+ * 第1引数にOpenLogiClientを受け取るリソース関数
+ */
+type ResourceFunction = (_client: OpenLogiClient, ..._args: never[]) => unknown
+
+/**
+ * リソース関数の第1引数（client）を束縛した型
+ */
+export type BoundResource<T extends Record<string, ResourceFunction>> = {
+  readonly [K in keyof T]: T[K] extends (_client: OpenLogiClient, ..._args: infer A) => infer R
+    ? (..._args: A) => R
+    : never
+}
+
+/**
+ * リソース関数群にクライアントを束縛する
+ * テストで `vi.spyOn` などに差し替えられるよう、オブジェクトは凍結しない
+ */
+function bindResource<T extends Record<string, ResourceFunction>>(
+  client: OpenLogiClient,
+  functions: T,
+): BoundResource<T> {
+  const bound: Record<string, unknown> = {}
+  for (const [name, fn] of Object.entries(functions)) {
+    bound[name] = (...args: never[]) => fn(client, ...args)
+  }
+  return bound as BoundResource<T>
+}
+
+const itemFunctions = {
+  list: listItems,
+  listByIds: listItemsByIds,
+  create: createItem,
+  bulkCreate: bulkCreateItems,
+  bulkCreateChunked: bulkCreateItemsChunked,
+  get: getItem,
+  update: updateItem,
+  delete: deleteItem,
+  uploadImage: uploadItemImage,
+  uploadImageByCode: uploadItemImageByCode,
+  deleteImage: deleteItemImage,
+  deleteImageByCode: deleteItemImageByCode,
+  getByCode: getItemByCode,
+  updateByCode: updateItemByCode,
+  deleteByCode: deleteItemByCode,
+  listByAccountId: listItemsByAccountId,
+  getInventorySnapshot,
+  availableToPromise,
+}
+
+const shipmentFunctions = {
+  list: listShipments,
+  listByIds: listShipmentsByIds,
+  create: createShipment,
+  bulkCreate: bulkCreateShipments,
+  bulkCreateChunked: bulkCreateShipmentsChunked,
+  get: getShipment,
+  waitForStatus: waitForShipmentStatus,
+  update: updateShipment,
+  delete: deleteShipment,
+  modify: modifyShipment,
+  cancel: cancelShipment,
+  listShipped: listShippedShipments,
+  getShippedByDate: getShippedShipmentByDate,
+  iterateShipped: iterateShippedShipments,
+  getInternationalRegions,
+  getInternationalCurrencies,
+  validateInternational: validateInternationalShipment,
+  clearAllocation: clearShipmentAllocation,
+  listByAccountId: listShipmentsByAccountId,
+  getByAccountId: getShipmentByAccountId,
+  updateByAccountId: updateShipmentByAccountId,
+  deleteByAccountId: deleteShipmentByAccountId,
+  modifyByAccountId: modifyShipmentByAccountId,
+  cancelByAccountId: cancelShipmentByAccountId,
+}
+
+const transferFunctions = {
+  create: createTransfer,
+  update: updateTransfer,
+  modify: modifyTransfer,
+  cancel: cancelTransfer,
+}
+
+const warehousingFunctions = {
+  list: listWarehousing,
+  create: createWarehousing,
+  createSplit: createWarehousingsSplit,
+  get: getWarehousing,
+  waitForStatus: waitForWarehousingStatus,
+  update: updateWarehousing,
+  delete: deleteWarehousing,
+  getStocked: getStockedWarehousing,
+  getStockedByDate: getStockedWarehousingByDate,
+  iterateStocked: iterateStockedWarehousings,
+  getLabel: getWarehousingLabel,
+  planReplenishment,
+}
+
+/**
+ * 商品リソース
+ */
+export type ItemsResource = BoundResource<typeof itemFunctions>
+
+/**
+ * 出荷リソース
+ */
+export type ShipmentsResource = BoundResource<typeof shipmentFunctions>
+
+/**
+ * 倉庫移動リソース
+ */
+export type TransfersResource = BoundResource<typeof transferFunctions>
+
+/**
+ * 入荷リソース
+ */
+export type WarehousingsResource = BoundResource<typeof warehousingFunctions>
+
+/**
+ * OpenLogiクライアント（クラス版）
+ *
+ * 各リソースは関数ベースAPI（`listItems(client, ...)` など）をそのままラップしているため、
+ * 引数・戻り値の型は関数ベースAPIと同一です。
+ * tree-shakingを重視する場合は関数ベースAPIを直接利用してください。
+ *
+ * @example
+ * ```typescript
+ * const openlogi = new OpenLogi({ apiToken: 'your-api-token' })
+ *
+ * const item = await openlogi.items.get('12345')
+ * const shipment = await openlogi.shipments.create({ ... })
+ * const transfer = await openlogi.transfers.cancel('TS001-S000001')
+ * const warehousings = await openlogi.warehousings.list()
+ * ```
+ */
+export class OpenLogi {
+  /**
+   * 内部で使用するOpenLogiクライアント
+   * 関数ベースAPIと組み合わせて使用できる
+   */
+  public readonly client: OpenLogiClient
+
+  /**
+   * 商品API
+   */
+  public readonly items: ItemsResource
+
+  /**
+   * 出荷API
+   */
+  public readonly shipments: ShipmentsResource
+
+  /**
+   * 倉庫移動API
+   */
+  public readonly transfers: TransfersResource
+
+  /**
+   * 入荷API
+   */
+  public readonly warehousings: WarehousingsResource
+
+  /**
+   * @param config - クライアント設定、または作成済みのOpenLogiクライアント
+   */
+  constructor(config: ClientConfig | OpenLogiClient) {
+    this.client = 'http' in config ? config : createClient(config)
+    this.items = bindResource(this.client, itemFunctions)
+    this.shipments = bindResource(this.client, shipmentFunctions)
+    this.transfers = bindResource(this.client, transferFunctions)
+    this.warehousings = bindResource(this.client, warehousingFunctions)
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * 郵便番号の上3桁の区域と都道府県の対応表
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * 上3桁の範囲と都道府県（`開始-終了:都道府県コード` をカンマ区切りで並べたもの）
+ * 都道府県コードはJIS X 0401（01: 北海道 〜 47: 沖縄県）
+ *
+ * @internal
+ */
+export const POSTCODE_AREAS =
+  '001-009:01,010-019:05,020-029:03,030-039:02,040-099:01,100-209:13,210-259:14,260-299:12,' +
+  '300-319:08,320-329:09,330-369:11,370-379:10,380-399:20,400-409:19,410-439:22,440-499:23,' +
+  '500-509:21,510-519:24,520-529:25,530-599:27,600-629:26,630-639:29,640-649:30,650-679:28,' +
+  '680-684:31,685-685:32,686-689:31,690-699:32,700-719:33,720-739:34,740-759:35,760-769:37,770-779:36,780-789:39,' +
+  '790-799:38,800-839:40,840-849:41,850-859:42,860-869:43,870-879:44,880-889:45,890-899:46,' +
+  '900-909:47,910-919:18,920-929:17,930-939:16,940-959:15,960-979:07,980-989:04,990-999:06'
+
+/**
+ * 都道府県の境界をまたぐ上3桁と、`POSTCODE_AREAS` の都道府県以外に含まれる都道府県
+ * （`上3桁:都道府県コード` をカンマ区切りで並べたもの）
+ *
+ * - 498: 三重県桑名郡木曽岬町
+ * - 618: 大阪府三島郡島本町
+ * - 684: 島根県隠岐郡（海士町・西ノ島町・知夫村）
+ * - 871: 福岡県築上郡（吉富町・上毛町）
+ *
+ * @internal
+ */
+export const POSTCODE_SHARED_AREAS = '498:24,618:27,684:32,871:40'
@@ -0,0 +1,2595 @@
+/**
+ * 郵便番号と市区町村の対応表
+ * 日本郵便の郵便番号データ（2022年11月時点のutf_ken_all.csv相当、住所の郵便番号のみ）から作成
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * 市区町村（`都道府県コード2桁 + 市区町村名` を `|` 区切りで並べたもの）
+ * 都道府県コード・市区町村名の順に並べ、`POSTCODE_CITY_AREAS` からは0始まりの添字で参照する
+ *
+ * @internal
+ */
+export const POSTCODE_CITIES =
+  '01三笠市|01上川郡上川町|01上川郡下川町|01上川郡剣淵町|01上川郡和寒町|' +
+  '01上川郡当麻町|01上川郡愛別町|01上川郡新得町|01上川郡東川町|' +
+  '01上川郡東神楽町|01上川郡比布町|01上川郡清水町|01上川郡美瑛町|' +
+  '01上川郡鷹栖町|01上磯郡木古内町|01上磯郡知内町|01中川郡中川町|' +
+  '01中川郡幕別町|01中川郡本別町|01中川郡池田町|01中川郡美深町|' +
+  '01中川郡豊頃町|01中川郡音威子府村|01久遠郡せたな町|01亀田郡七飯町|' +
+  '01二海郡八雲町|01伊達市|01余市郡仁木町|01余市郡余市町|01余市郡赤井川村|' +
+  '01函館市|01利尻郡利尻富士町|01利尻郡利尻町|01勇払郡むかわ町|' +
+  '01勇払郡占冠村|01勇払郡厚真町|01勇払郡安平町|01北広島市|01北斗市|' +
+  '01北見市|01十勝郡浦幌町|01千歳市|01厚岸郡厚岸町|01厚岸郡浜中町|' +
+  '01古宇郡泊村|01古宇郡神恵内村|01古平郡古平町|01名寄市|01増毛郡増毛町|' +
+  '01士別市|01夕張市|01夕張郡栗山町|01夕張郡由仁町|01夕張郡長沼町|' +
+  '01天塩郡天塩町|01天塩郡幌延町|01天塩郡豊富町|01天塩郡遠別町|' +
+  '01奥尻郡奥尻町|01宗谷郡猿払村|01室蘭市|01富良野市|01寿都郡寿都町|' +
+  '01寿都郡黒松内町|01小樽市|01山越郡長万部町|01岩内郡共和町|01岩内郡岩内町|' +
+  '01岩見沢市|01島牧郡島牧村|01川上郡弟子屈町|01川上郡標茶町|01帯広市|' +
+  '01常呂郡佐呂間町|01常呂郡置戸町|01常呂郡訓子府町|01幌泉郡えりも町|' +
+  '01広尾郡大樹町|01広尾郡広尾町|01恵庭市|01斜里郡小清水町|01斜里郡斜里町|' +
+  '01斜里郡清里町|01新冠郡新冠町|01日高郡新ひだか町|01旭川市|01有珠郡壮瞥町|' +
+  '01札幌市中央区|01札幌市北区|01札幌市南区|01札幌市厚別区|01札幌市手稲区|' +
+  '01札幌市東区|01札幌市清田区|01札幌市白石区|01札幌市西区|01札幌市豊平区|' +
+  '01松前郡松前町|01松前郡福島町|01枝幸郡中頓別町|01枝幸郡枝幸町|' +
+  '01枝幸郡浜頓別町|01根室市|01様似郡様似町|01標津郡中標津町|01標津郡標津町|' +
+  '01樺戸郡新十津川町|01樺戸郡月形町|01樺戸郡浦臼町|01檜山郡上ノ国町|' +
+  '01檜山郡厚沢部町|01檜山郡江差町|01歌志内市|01江別市|01沙流郡平取町|' +
+  '01沙流郡日高町|01河東郡上士幌町|01河東郡士幌町|01河東郡音更町|' +
+  '01河東郡鹿追町|01河西郡中札内村|01河西郡更別村|01河西郡芽室町|' +
+  '01浦河郡浦河町|01深川市|01滝川市|01瀬棚郡今金町|01爾志郡乙部町|' +
+  '01留萌市|01留萌郡小平町|01登別市|01白糠郡白糠町|01白老郡白老町|' +
+  '01目梨郡羅臼町|01石狩市|01石狩郡当別町|01石狩郡新篠津村|01砂川市|' +
+  '01磯谷郡蘭越町|01礼文郡礼文町|01稚内市|01積丹郡積丹町|01空知郡上富良野町|' +
+  '01空知郡上砂川町|01空知郡中富良野町|01空知郡南富良野町|01空知郡南幌町|' +
+  '01空知郡奈井江町|01紋別市|01紋別郡湧別町|01紋別郡滝上町|01紋別郡興部町|' +
+  '01紋別郡西興部村|01紋別郡遠軽町|01紋別郡雄武町|01網走市|01網走郡大空町|' +
+  '01網走郡津別町|01網走郡美幌町|01美唄市|01芦別市|01苫前郡初山別村|' +
+  '01苫前郡羽幌町|01苫前郡苫前町|01苫小牧市|01茅部郡森町|01茅部郡鹿部町|' +
+  '01虻田郡ニセコ町|01虻田郡京極町|01虻田郡倶知安町|01虻田郡喜茂別町|' +
+  '01虻田郡洞爺湖町|01虻田郡留寿都村|01虻田郡真狩村|01虻田郡豊浦町|01赤平市|' +
+  '01足寄郡足寄町|01足寄郡陸別町|01野付郡別海町|01釧路市|01釧路郡釧路町|' +
+  '01阿寒郡鶴居村|01雨竜郡北竜町|01雨竜郡妹背牛町|01雨竜郡幌加内町|' +
+  '01雨竜郡沼田町|01雨竜郡秩父別町|01雨竜郡雨竜町|02つがる市|02むつ市|' +
+  '02三戸郡三戸町|02三戸郡五戸町|02三戸郡南部町|02三戸郡新郷村|' +
+  '02三戸郡田子町|02三戸郡階上町|02三沢市|02上北郡おいらせ町|02上北郡七戸町|' +
+  '02上北郡六ヶ所村|02上北郡六戸町|02上北郡東北町|02上北郡横浜町|' +
+  '02上北郡野辺地町|02下北郡佐井村|02下北郡大間町|02下北郡東通村|' +
+  '02下北郡風間浦村|02中津軽郡西目屋村|02五所川原市|02八戸市|' +
+  '02北津軽郡中泊町|02北津軽郡板柳町|02北津軽郡鶴田町|02十和田市|' +
+  '02南津軽郡大鰐町|02南津軽郡田舎館村|02南津軽郡藤崎町|02平川市|02弘前市|' +
+  '02東津軽郡今別町|02東津軽郡外ヶ浜町|02東津軽郡平内町|02東津軽郡蓬田村|' +
+  '02西津軽郡深浦町|02西津軽郡鰺ヶ沢町|02青森市|02黒石市|03一関市|' +
+  '03上閉伊郡大槌町|03下閉伊郡山田町|03下閉伊郡岩泉町|03下閉伊郡普代村|' +
+  '03下閉伊郡田野畑村|03久慈市|03九戸郡九戸村|03九戸郡洋野町|03九戸郡軽米町|' +
+  '03九戸郡野田村|03二戸市|03二戸郡一戸町|03八幡平市|03北上市|' +
+  '03和賀郡西和賀町|03大船渡市|03奥州市|03宮古市|03岩手郡岩手町|' +
+  '03岩手郡葛巻町|03岩手郡雫石町|03気仙郡住田町|03滝沢市|03盛岡市|' +
+  '03紫波郡矢巾町|03紫波郡紫波町|03胆沢郡金ケ崎町|03花巻市|03西磐井郡平泉町|' +
+  '03遠野市|03釜石市|03陸前高田市|04亘理郡亘理町|04亘理郡山元町|' +
+  '04仙台市太白区|04仙台市宮城野区|04仙台市泉区|04仙台市若林区|' +
+  '04仙台市青葉区|04伊具郡丸森町|04刈田郡七ヶ宿町|04刈田郡蔵王町|' +
+  '04加美郡加美町|04加美郡色麻町|04名取市|04塩竈市|04多賀城市|04大崎市|' +
+  '04宮城郡七ヶ浜町|04宮城郡利府町|04宮城郡松島町|04富谷市|04岩沼市|' +
+  '04本吉郡南三陸町|04東松島市|04柴田郡大河原町|04柴田郡川崎町|' +
+  '04柴田郡村田町|04柴田郡柴田町|04栗原市|04気仙沼市|04牡鹿郡女川町|' +
+  '04登米市|04白石市|04石巻市|04角田市|04遠田郡涌谷町|04遠田郡美里町|' +
+  '04黒川郡大和町|04黒川郡大衡村|04黒川郡大郷町|05にかほ市|05仙北市|' +
+  '05仙北郡美郷町|05北秋田市|05北秋田郡上小阿仁村|05南秋田郡五城目町|' +
+  '05南秋田郡井川町|05南秋田郡八郎潟町|05南秋田郡大潟村|05大仙市|05大館市|' +
+  '05山本郡三種町|05山本郡八峰町|05山本郡藤里町|05横手市|05湯沢市|' +
+  '05潟上市|05由利本荘市|05男鹿市|05秋田市|05能代市|05雄勝郡東成瀬村|' +
+  '05雄勝郡羽後町|05鹿角市|05鹿角郡小坂町|06上山市|06北村山郡大石田町|' +
+  '06南陽市|06天童市|06寒河江市|06尾花沢市|06山形市|06新庄市|' +
+  '06最上郡大蔵村|06最上郡戸沢村|06最上郡最上町|06最上郡真室川町|' +
+  '06最上郡舟形町|06最上郡金山町|06最上郡鮭川村|06村山市|06東村山郡中山町|' +
+  '06東村山郡山辺町|06東根市|06東田川郡三川町|06東田川郡庄内町|' +
+  '06東置賜郡川西町|06東置賜郡高畠町|06米沢市|06西村山郡大江町|' +
+  '06西村山郡朝日町|06西村山郡河北町|06西村山郡西川町|06西置賜郡小国町|' +
+  '06西置賜郡白鷹町|06西置賜郡飯豊町|06酒田市|06長井市|06飽海郡遊佐町|' +
+  '06鶴岡市|07いわき市|07二本松市|07伊達市|07伊達郡国見町|07伊達郡川俣町|' +
+  '07伊達郡桑折町|07会津若松市|07南会津郡下郷町|07南会津郡南会津町|' +
+  '07南会津郡只見町|07南会津郡檜枝岐村|07南相馬市|07双葉郡双葉町|' +
+  '07双葉郡大熊町|07双葉郡富岡町|07双葉郡川内村|07双葉郡広野町|' +
+  '07双葉郡楢葉町|07双葉郡浪江町|07双葉郡葛尾村|07喜多方市|07大沼郡三島町|' +
+  '07大沼郡会津美里町|07大沼郡昭和村|07大沼郡金山町|07安達郡大玉村|' +
+  '07岩瀬郡天栄村|07岩瀬郡鏡石町|07本宮市|07東白川郡塙町|07東白川郡棚倉町|' +
+  '07東白川郡矢祭町|07東白川郡鮫川村|07河沼郡会津坂下町|07河沼郡柳津町|' +
+  '07河沼郡湯川村|07田村市|07田村郡三春町|07田村郡小野町|07白河市|' +
+  '07相馬市|07相馬郡新地町|07相馬郡飯舘村|07石川郡古殿町|07石川郡平田村|' +
+  '07石川郡浅川町|07石川郡玉川村|07石川郡石川町|07福島市|07耶麻郡北塩原村|' +
+  '07耶麻郡猪苗代町|07耶麻郡磐梯町|07耶麻郡西会津町|07西白河郡中島村|' +
+  '07西白河郡泉崎村|07西白河郡矢吹町|07西白河郡西郷村|07郡山市|07須賀川市|' +
+  '08かすみがうら市|08つくばみらい市|08つくば市|08ひたちなか市|08下妻市|' +
+  '08久慈郡大子町|08北相馬郡利根町|08北茨城市|08取手市|08古河市|08土浦市|' +
+  '08坂東市|08守谷市|08小美玉市|08常総市|08常陸大宮市|08常陸太田市|' +
+  '08日立市|08東茨城郡城里町|08東茨城郡大洗町|08東茨城郡茨城町|08桜川市|' +
+  '08水戸市|08潮来市|08牛久市|08猿島郡五霞町|08猿島郡境町|08石岡市|' +
+  '08神栖市|08稲敷市|08稲敷郡河内町|08稲敷郡美浦村|08稲敷郡阿見町|' +
+  '08笠間市|08筑西市|08結城市|08結城郡八千代町|08行方市|08那珂市|' +
+  '08那珂郡東海村|08鉾田市|08高萩市|08鹿嶋市|08龍ケ崎市|09さくら市|' +
+  '09下都賀郡壬生町|09下都賀郡野木町|09下野市|09佐野市|09塩谷郡塩谷町|' +
+  '09塩谷郡高根沢町|09大田原市|09宇都宮市|09小山市|09日光市|09栃木市|' +
+  '09河内郡上三川町|09真岡市|09矢板市|09芳賀郡市貝町|09芳賀郡益子町|' +
+  '09芳賀郡芳賀町|09芳賀郡茂木町|09足利市|09那須塩原市|09那須烏山市|' +
+  '09那須郡那珂川町|09那須郡那須町|09鹿沼市|10みどり市|10伊勢崎市|' +
+  '10佐波郡玉村町|10利根郡みなかみ町|10利根郡川場村|10利根郡昭和村|' +
+  '10利根郡片品村|10前橋市|10北群馬郡吉岡町|10北群馬郡榛東村|' +
+  '10吾妻郡中之条町|10吾妻郡嬬恋村|10吾妻郡東吾妻町|10吾妻郡草津町|' +
+  '10吾妻郡長野原町|10吾妻郡高山村|10多野郡上野村|10多野郡神流町|10太田市|' +
+  '10安中市|10富岡市|10桐生市|10沼田市|10渋川市|10甘楽郡下仁田町|' +
+  '10甘楽郡南牧村|10甘楽郡甘楽町|10藤岡市|10邑楽郡千代田町|10邑楽郡大泉町|' +
+  '10邑楽郡明和町|10邑楽郡板倉町|10邑楽郡邑楽町|10館林市|10高崎市|' +
+  '11さいたま市中央区|11さいたま市北区|11さいたま市南区|11さいたま市大宮区|' +
+  '11さいたま市岩槻区|11さいたま市桜区|11さいたま市浦和区|11さいたま市緑区|' +
+  '11さいたま市西区|11さいたま市見沼区|11ふじみ野市|11三郷市|11上尾市|' +
+  '11久喜市|11児玉郡上里町|11児玉郡神川町|11児玉郡美里町|11入間市|' +
+  '11入間郡三芳町|11入間郡毛呂山町|11入間郡越生町|11八潮市|11加須市|' +
+  '11北本市|11北葛飾郡杉戸町|11北葛飾郡松伏町|11北足立郡伊奈町|' +
+  '11南埼玉郡宮代町|11吉川市|11和光市|11坂戸市|11大里郡寄居町|11富士見市|' +
+  '11川口市|11川越市|11幸手市|11志木市|11戸田市|11所沢市|11新座市|' +
+  '11日高市|11春日部市|11朝霞市|11本庄市|11東松山市|11桶川市|' +
+  '11比企郡ときがわ町|11比企郡吉見町|11比企郡小川町|11比企郡嵐山町|' +
+  '11比企郡川島町|11比企郡滑川町|11比企郡鳩山町|11深谷市|11熊谷市|' +
+  '11狭山市|11白岡市|11秩父市|11秩父郡小鹿野町|11秩父郡東秩父村|' +
+  '11秩父郡横瀬町|11秩父郡皆野町|11秩父郡長瀞町|11羽生市|11草加市|' +
+  '11蓮田市|11蕨市|11行田市|11越谷市|11飯能市|11鴻巣市|11鶴ヶ島市|' +
+  '12いすみ市|12佐倉市|12八千代市|12八街市|12勝浦市|12匝瑳市|' +
+  '12千葉市中央区|12千葉市稲毛区|12千葉市緑区|12千葉市美浜区|' +
+  '12千葉市花見川区|12千葉市若葉区|12南房総市|12印旛郡栄町|12印旛郡酒々井町|' +
+  '12印西市|12君津市|12四街道市|12大網白里市|12夷隅郡大多喜町|' +
+  '12夷隅郡御宿町|12安房郡鋸南町|12富津市|12富里市|12山武市|' +
+  '12山武郡九十九里町|12山武郡横芝光町|12山武郡芝山町|12市原市|12市川市|' +
+  '12成田市|12我孫子市|12旭市|12木更津市|12東金市|12松戸市|12柏市|' +
+  '12流山市|12浦安市|12白井市|12習志野市|12船橋市|12茂原市|12袖ケ浦市|' +
+  '12野田市|12銚子市|12鎌ケ谷市|12長生郡一宮町|12長生郡白子町|' +
+  '12長生郡睦沢町|12長生郡長南町|12長生郡長柄町|12長生郡長生村|12館山市|' +
+  '12香取市|12香取郡多古町|12香取郡東庄町|12香取郡神崎町|12鴨川市|' +
+  '13あきる野市|13三宅島三宅村|13三鷹市|13世田谷区|13中央区|13中野区|' +
+  '13八丈島八丈町|13八王子市|13利島村|13北区|13千代田区|13台東区|' +
+  '13品川区|13国分寺市|13国立市|13墨田区|13多摩市|13大島町|13大田区|' +
+  '13小平市|13小笠原村|13小金井市|13府中市|13御蔵島村|13文京区|' +
+  '13新宿区|13新島村|13日野市|13昭島市|13杉並区|13東久留米市|' +
+  '13東大和市|13東村山市|13板橋区|13武蔵村山市|13武蔵野市|13江戸川区|' +
+  '13江東区|13清瀬市|13渋谷区|13港区|13狛江市|13町田市|13目黒区|' +
+  '13神津島村|13福生市|13稲城市|13立川市|13練馬区|13羽村市|13荒川区|' +
+  '13葛飾区|13西多摩郡奥多摩町|13西多摩郡日の出町|13西多摩郡檜原村|' +
+  '13西多摩郡瑞穂町|13西東京市|13調布市|13豊島区|13足立区|13青ヶ島村|' +
+  '13青梅市|14三浦市|14三浦郡葉山町|14中郡二宮町|14中郡大磯町|14伊勢原市|' +
+  '14南足柄市|14厚木市|14大和市|14小田原市|14川崎市中原区|14川崎市多摩区|' +
+  '14川崎市宮前区|14川崎市川崎区|14川崎市幸区|14川崎市高津区|14川崎市麻生区|' +
+  '14平塚市|14座間市|14愛甲郡愛川町|14愛甲郡清川村|14横浜市中区|' +
+  '14横浜市保土ケ谷区|14横浜市南区|14横浜市戸塚区|14横浜市旭区|14横浜市栄区|' +
+  '14横浜市泉区|14横浜市港北区|14横浜市港南区|14横浜市瀬谷区|14横浜市磯子区|' +
+  '14横浜市神奈川区|14横浜市緑区|14横浜市西区|14横浜市都筑区|14横浜市金沢区|' +
+  '14横浜市青葉区|14横浜市鶴見区|14横須賀市|14海老名市|14相模原市中央区|' +
+  '14相模原市南区|14相模原市緑区|14秦野市|14綾瀬市|14茅ヶ崎市|14藤沢市|' +
+  '14足柄上郡中井町|14足柄上郡大井町|14足柄上郡山北町|14足柄上郡松田町|' +
+  '14足柄上郡開成町|14足柄下郡湯河原町|14足柄下郡真鶴町|14足柄下郡箱根町|' +
+  '14逗子市|14鎌倉市|14高座郡寒川町|15三島郡出雲崎町|15三条市|15上越市|' +
+  '15中魚沼郡津南町|15五泉市|15佐渡市|15刈羽郡刈羽村|15加茂市|' +
+  '15北蒲原郡聖籠町|15十日町市|15南蒲原郡田上町|15南魚沼市|15南魚沼郡湯沢町|' +
+  '15妙高市|15小千谷市|15岩船郡粟島浦村|15岩船郡関川村|15新潟市中央区|' +
+  '15新潟市北区|15新潟市南区|15新潟市東区|15新潟市江南区|15新潟市秋葉区|' +
+  '15新潟市西区|15新潟市西蒲区|15新発田市|15村上市|15東蒲原郡阿賀町|' +
+  '15柏崎市|15燕市|15糸魚川市|15胎内市|15西蒲原郡弥彦村|15見附市|' +
+  '15長岡市|15阿賀野市|15魚沼市|16下新川郡入善町|16下新川郡朝日町|' +
+  '16中新川郡上市町|16中新川郡立山町|16中新川郡舟橋村|16南砺市|16富山市|' +
+  '16射水市|16小矢部市|16氷見市|16滑川市|16砺波市|16高岡市|16魚津市|' +
+  '16黒部市|17かほく市|17七尾市|17加賀市|17小松市|17河北郡内灘町|' +
+  '17河北郡津幡町|17珠洲市|17白山市|17羽咋市|17羽咋郡宝達志水町|' +
+  '17羽咋郡志賀町|17能美市|17能美郡川北町|17輪島市|17野々市市|17金沢市|' +
+  '17鳳珠郡穴水町|17鳳珠郡能登町|17鹿島郡中能登町|18あわら市|' +
+  '18三方上中郡若狭町|18三方郡美浜町|18丹生郡越前町|18今立郡池田町|18勝山市|' +
+  '18南条郡南越前町|18吉田郡永平寺町|18坂井市|18大野市|18大飯郡おおい町|' +
+  '18大飯郡高浜町|18小浜市|18敦賀市|18福井市|18越前市|18鯖江市|' +
+  '19上野原市|19中央市|19中巨摩郡昭和町|19北杜市|19北都留郡丹波山村|' +
+  '19北都留郡小菅村|19南アルプス市|19南巨摩郡南部町|19南巨摩郡富士川町|' +
+  '19南巨摩郡早川町|19南巨摩郡身延町|19南都留郡富士河口湖町|19南都留郡山中湖村|' +
+  '19南都留郡忍野村|19南都留郡西桂町|19南都留郡道志村|19南都留郡鳴沢村|' +
+  '19大月市|19富士吉田市|19山梨市|19甲州市|19甲府市|19甲斐市|19笛吹市|' +
+  '19西八代郡市川三郷町|19都留市|19韮崎市|20上伊那郡中川村|' +
+  '20上伊那郡南箕輪村|20上伊那郡宮田村|20上伊那郡箕輪町|20上伊那郡辰野町|' +
+  '20上伊那郡飯島町|20上水内郡信濃町|20上水内郡小川村|20上水内郡飯綱町|' +
+  '20上田市|20上高井郡小布施町|20上高井郡高山村|20下伊那郡下條村|' +
+  '20下伊那郡喬木村|20下伊那郡売木村|20下伊那郡大鹿村|20下伊那郡天龍村|' +
+  '20下伊那郡平谷村|20下伊那郡松川町|20下伊那郡根羽村|20下伊那郡泰阜村|' +
+  '20下伊那郡豊丘村|20下伊那郡阿南町|20下伊那郡阿智村|20下伊那郡高森町|' +
+  '20下水内郡栄村|20下高井郡山ノ内町|20下高井郡木島平村|20下高井郡野沢温泉村|' +
+  '20中野市|20伊那市|20佐久市|20北佐久郡御代田町|20北佐久郡立科町|' +
+  '20北佐久郡軽井沢町|20北安曇郡小谷村|20北安曇郡松川村|20北安曇郡池田町|' +
+  '20北安曇郡白馬村|20千曲市|20南佐久郡佐久穂町|20南佐久郡北相木村|' +
+  '20南佐久郡南牧村|20南佐久郡南相木村|20南佐久郡小海町|20南佐久郡川上村|' +
+  '20埴科郡坂城町|20塩尻市|20大町市|20安曇野市|20小県郡長和町|' +
+  '20小県郡青木村|20小諸市|20岡谷市|20木曽郡上松町|20木曽郡南木曽町|' +
+  '20木曽郡大桑村|20木曽郡木曽町|20木曽郡木祖村|20木曽郡王滝村|20東御市|' +
+  '20東筑摩郡山形村|20東筑摩郡朝日村|20東筑摩郡生坂村|20東筑摩郡筑北村|' +
+  '20東筑摩郡麻績村|20松本市|20茅野市|20諏訪市|20諏訪郡下諏訪町|' +
+  '20諏訪郡原村|20諏訪郡富士見町|20長野市|20須坂市|20飯山市|20飯田市|' +
+  '20駒ヶ根市|21下呂市|21不破郡垂井町|21不破郡関ケ原町|21中津川市|' +
+  '21加茂郡七宗町|21加茂郡八百津町|21加茂郡坂祝町|21加茂郡富加町|' +
+  '21加茂郡川辺町|21加茂郡東白川村|21加茂郡白川町|21可児市|21可児郡御嵩町|' +
+  '21各務原市|21土岐市|21多治見市|21大垣市|21大野郡白川村|21安八郡安八町|' +
+  '21安八郡神戸町|21安八郡輪之内町|21山県市|21岐阜市|21恵那市|' +
+  '21揖斐郡大野町|21揖斐郡揖斐川町|21揖斐郡池田町|21本巣市|21本巣郡北方町|' +
+  '21海津市|21瑞浪市|21瑞穂市|21美濃加茂市|21美濃市|21羽島市|' +
+  '21羽島郡岐南町|21羽島郡笠松町|21郡上市|21関市|21飛騨市|21養老郡養老町|' +
+  '21高山市|22三島市|22下田市|22伊東市|22伊豆の国市|22伊豆市|' +
+  '22周智郡森町|22富士宮市|22富士市|22島田市|22御前崎市|22御殿場市|' +
+  '22掛川市|22榛原郡吉田町|22榛原郡川根本町|22沼津市|22浜松市中区|' +
+  '22浜松市北区|22浜松市南区|22浜松市天竜区|22浜松市東区|22浜松市浜北区|' +
+  '22浜松市西区|22湖西市|22焼津市|22熱海市|22牧之原市|22田方郡函南町|' +
+  '22磐田市|22菊川市|22藤枝市|22袋井市|22裾野市|22賀茂郡南伊豆町|' +
+  '22賀茂郡東伊豆町|22賀茂郡松崎町|22賀茂郡河津町|22賀茂郡西伊豆町|' +
+  '22静岡市清水区|22静岡市葵区|22静岡市駿河区|22駿東郡小山町|22駿東郡清水町|' +
+  '22駿東郡長泉町|23あま市|23みよし市|23一宮市|23丹羽郡大口町|' +
+  '23丹羽郡扶桑町|23刈谷市|23北名古屋市|23北設楽郡東栄町|23北設楽郡設楽町|' +
+  '23北設楽郡豊根村|23半田市|23名古屋市中区|23名古屋市中川区|' +
+  '23名古屋市中村区|23名古屋市北区|23名古屋市千種区|23名古屋市南区|' +
+  '23名古屋市名東区|23名古屋市天白区|23名古屋市守山区|23名古屋市昭和区|' +
+  '23名古屋市東区|23名古屋市港区|23名古屋市熱田区|23名古屋市瑞穂区|' +
+  '23名古屋市緑区|23名古屋市西区|23大府市|23安城市|23小牧市|23尾張旭市|' +
+  '23岡崎市|23岩倉市|23常滑市|23弥富市|23愛知郡東郷町|23愛西市|' +
+  '23新城市|23日進市|23春日井市|23東海市|23江南市|23津島市|' +
+  '23海部郡大治町|23海部郡蟹江町|23海部郡飛島村|23清須市|23瀬戸市|' +
+  '23犬山市|23田原市|23知多市|23知多郡南知多町|23知多郡東浦町|' +
+  '23知多郡武豊町|23知多郡美浜町|23知多郡阿久比町|23知立市|23碧南市|' +
+  '23稲沢市|23蒲郡市|23西尾市|23西春日井郡豊山町|23豊川市|23豊明市|' +
+  '23豊橋市|23豊田市|23長久手市|23額田郡幸田町|23高浜市|24いなべ市|' +
+  '24三重郡川越町|24三重郡朝日町|24三重郡菰野町|24亀山市|24伊勢市|' +
+  '24伊賀市|24北牟婁郡紀北町|24南牟婁郡御浜町|24南牟婁郡紀宝町|24名張市|' +
+  '24員弁郡東員町|24四日市市|24多気郡多気町|24多気郡大台町|24多気郡明和町|' +
+  '24尾鷲市|24度会郡南伊勢町|24度会郡大紀町|24度会郡度会町|24度会郡玉城町|' +
+  '24志摩市|24松阪市|24桑名市|24桑名郡木曽岬町|24津市|24熊野市|' +
+  '24鈴鹿市|24鳥羽市|25大津市|25守山市|25彦根市|25愛知郡愛荘町|' +
+  '25東近江市|25栗東市|25湖南市|25犬上郡多賀町|25犬上郡甲良町|' +
+  '25犬上郡豊郷町|25甲賀市|25米原市|25草津市|25蒲生郡日野町|' +
+  '25蒲生郡竜王町|25近江八幡市|25野洲市|25長浜市|25高島市|' +
+  '26与謝郡与謝野町|26与謝郡伊根町|26久世郡久御山町|26乙訓郡大山崎町|' +
+  '26亀岡市|26京丹後市|26京田辺市|26京都市上京区|26京都市下京区|' +
+  '26京都市中京区|26京都市伏見区|26京都市北区|26京都市南区|26京都市右京区|' +
+  '26京都市山科区|26京都市左京区|26京都市東山区|26京都市西京区|26八幡市|' +
+  '26南丹市|26向日市|26城陽市|26宇治市|26宮津市|26木津川市|' +
+  '26相楽郡南山城村|26相楽郡和束町|26相楽郡笠置町|26相楽郡精華町|26福知山市|' +
+  '26綴喜郡井手町|26綴喜郡宇治田原町|26綾部市|26舞鶴市|26船井郡京丹波町|' +
+  '26長岡京市|27三島郡島本町|27交野市|27八尾市|27南河内郡千早赤阪村|' +
+  '27南河内郡太子町|27南河内郡河南町|27吹田市|27和泉市|27四條畷市|' +
+  '27堺市中区|27堺市北区|27堺市南区|27堺市堺区|27堺市東区|27堺市美原区|' +
+  '27堺市西区|27大東市|27大阪市中央区|27大阪市住之江区|27大阪市住吉区|' +
+  '27大阪市北区|27大阪市城東区|27大阪市大正区|27大阪市天王寺区|' +
+  '27大阪市平野区|27大阪市旭区|27大阪市東住吉区|27大阪市東成区|' +
+  '27大阪市東淀川区|27大阪市此花区|27大阪市浪速区|27大阪市淀川区|' +
+  '27大阪市港区|27大阪市生野区|27大阪市福島区|27大阪市西区|27大阪市西成区|' +
+  '27大阪市西淀川区|27大阪市都島区|27大阪市阿倍野区|27大阪市鶴見区|' +
+  '27大阪狭山市|27守口市|27富田林市|27寝屋川市|27岸和田市|27摂津市|' +
+  '27東大阪市|27松原市|27枚方市|27柏原市|27池田市|27河内長野市|' +
+  '27泉佐野市|27泉北郡忠岡町|27泉南市|27泉南郡岬町|27泉南郡熊取町|' +
+  '27泉南郡田尻町|27泉大津市|27箕面市|27羽曳野市|27茨木市|27藤井寺市|' +
+  '27豊中市|27豊能郡能勢町|27豊能郡豊能町|27貝塚市|27門真市|27阪南市|' +
+  '27高槻市|27高石市|28たつの市|28三木市|28三田市|28丹波市|' +
+  '28丹波篠山市|28伊丹市|28佐用郡佐用町|28加古川市|28加古郡播磨町|' +
+  '28加古郡稲美町|28加東市|28加西市|28南あわじ市|28多可郡多可町|28姫路市|' +
+  '28宍粟市|28宝塚市|28小野市|28尼崎市|28川西市|28川辺郡猪名川町|' +
+  '28揖保郡太子町|28明石市|28朝来市|28洲本市|28淡路市|28相生市|' +
+  '28神崎郡市川町|28神崎郡神河町|28神崎郡福崎町|28神戸市中央区|' +
+  '28神戸市兵庫区|28神戸市北区|28神戸市垂水区|28神戸市東灘区|28神戸市灘区|' +
+  '28神戸市西区|28神戸市長田区|28神戸市須磨区|28美方郡新温泉町|' +
+  '28美方郡香美町|28芦屋市|28西宮市|28西脇市|28豊岡市|28赤穂市|' +
+  '28赤穂郡上郡町|28養父市|28高砂市|29五條市|29北葛城郡上牧町|' +
+  '29北葛城郡広陵町|29北葛城郡河合町|29北葛城郡王寺町|29吉野郡上北山村|' +
+  '29吉野郡下北山村|29吉野郡下市町|29吉野郡十津川村|29吉野郡吉野町|' +
+  '29吉野郡大淀町|29吉野郡天川村|29吉野郡川上村|29吉野郡東吉野村|' +
+  '29吉野郡野迫川村|29吉野郡黒滝村|29大和郡山市|29大和高田市|29天理市|' +
+  '29奈良市|29宇陀市|29宇陀郡御杖村|29宇陀郡曽爾村|29山辺郡山添村|' +
+  '29御所市|29桜井市|29橿原市|29生駒市|29生駒郡三郷町|29生駒郡安堵町|' +
+  '29生駒郡平群町|29生駒郡斑鳩町|29磯城郡三宅町|29磯城郡川西町|' +
+  '29磯城郡田原本町|29葛城市|29香芝市|29高市郡明日香村|29高市郡高取町|' +
+  '30伊都郡かつらぎ町|30伊都郡九度山町|30伊都郡高野町|30和歌山市|30岩出市|' +
+  '30御坊市|30新宮市|30日高郡みなべ町|30日高郡印南町|30日高郡日高川町|' +
+  '30日高郡日高町|30日高郡由良町|30日高郡美浜町|30有田市|30有田郡広川町|' +
+  '30有田郡有田川町|30有田郡湯浅町|30東牟婁郡串本町|30東牟婁郡北山村|' +
+  '30東牟婁郡古座川町|30東牟婁郡太地町|30東牟婁郡那智勝浦町|30橋本市|' +
+  '30海南市|30海草郡紀美野町|30田辺市|30紀の川市|30西牟婁郡すさみ町|' +
+  '30西牟婁郡上富田町|30西牟婁郡白浜町|31倉吉市|31八頭郡八頭町|' +
+  '31八頭郡智頭町|31八頭郡若桜町|31境港市|31岩美郡岩美町|31日野郡日南町|' +
+  '31日野郡日野町|31日野郡江府町|31東伯郡三朝町|31東伯郡北栄町|' +
+  '31東伯郡湯梨浜町|31東伯郡琴浦町|31米子市|31西伯郡伯耆町|31西伯郡南部町|' +
+  '31西伯郡大山町|31西伯郡日吉津村|31鳥取市|32仁多郡奥出雲町|32出雲市|' +
+  '32大田市|32安来市|32松江市|32江津市|32浜田市|32益田市|' +
+  '32邑智郡川本町|32邑智郡美郷町|32邑智郡邑南町|32隠岐郡海士町|' +
+  '32隠岐郡知夫村|32隠岐郡西ノ島町|32隠岐郡隠岐の島町|32雲南市|' +
+  '32飯石郡飯南町|32鹿足郡吉賀町|32鹿足郡津和野町|33久米郡久米南町|' +
+  '33久米郡美咲町|33井原市|33倉敷市|33備前市|33加賀郡吉備中央町|' +
+  '33勝田郡勝央町|33勝田郡奈義町|33和気郡和気町|33小田郡矢掛町|33岡山市中区|' +
+  '33岡山市北区|33岡山市南区|33岡山市東区|33新見市|33津山市|33浅口市|' +
+  '33浅口郡里庄町|33瀬戸内市|33玉野市|33真庭市|33真庭郡新庄村|33笠岡市|' +
+  '33総社市|33美作市|33苫田郡鏡野町|33英田郡西粟倉村|33赤磐市|' +
+  '33都窪郡早島町|33高梁市|34三原市|34三次市|34世羅郡世羅町|34呉市|' +
+  '34大竹市|34安芸郡坂町|34安芸郡府中町|34安芸郡海田町|34安芸郡熊野町|' +
+  '34安芸高田市|34尾道市|34山県郡北広島町|34山県郡安芸太田町|34広島市中区|' +
+  '34広島市佐伯区|34広島市南区|34広島市安佐北区|34広島市安佐南区|' +
+  '34広島市安芸区|34広島市東区|34広島市西区|34庄原市|34府中市|34廿日市市|' +
+  '34東広島市|34江田島市|34神石郡神石高原町|34福山市|34竹原市|' +
+  '34豊田郡大崎上島町|35下松市|35下関市|35光市|35周南市|' +
+  '35大島郡周防大島町|35宇部市|35山口市|35山陽小野田市|35岩国市|35柳井市|' +
+  '35熊毛郡上関町|35熊毛郡平生町|35熊毛郡田布施町|35玖珂郡和木町|35美祢市|' +
+  '35萩市|35長門市|35防府市|35阿武郡阿武町|36三好市|36三好郡東みよし町|' +
+  '36勝浦郡上勝町|36勝浦郡勝浦町|36吉野川市|36名東郡佐那河内村|' +
+  '36名西郡石井町|36名西郡神山町|36小松島市|36徳島市|36板野郡上板町|' +
+  '36板野郡北島町|36板野郡松茂町|36板野郡板野町|36板野郡藍住町|' +
+  '36海部郡海陽町|36海部郡牟岐町|36海部郡美波町|36美馬市|36美馬郡つるぎ町|' +
+  '36那賀郡那賀町|36阿南市|36阿波市|36鳴門市|37さぬき市|37三豊市|' +
+  '37丸亀市|37仲多度郡まんのう町|37仲多度郡多度津町|37仲多度郡琴平町|' +
+  '37善通寺市|37坂出市|37小豆郡土庄町|37小豆郡小豆島町|37木田郡三木町|' +
+  '37東かがわ市|37綾歌郡宇多津町|37綾歌郡綾川町|37観音寺市|37香川郡直島町|' +
+  '37高松市|38上浮穴郡久万高原町|38今治市|38伊予市|38伊予郡松前町|' +
+  '38伊予郡砥部町|38八幡浜市|38北宇和郡松野町|38北宇和郡鬼北町|' +
+  '38南宇和郡愛南町|38喜多郡内子町|38四国中央市|38大洲市|38宇和島市|' +
+  '38新居浜市|38東温市|38松山市|38西予市|38西宇和郡伊方町|38西条市|' +
+  '38越智郡上島町|39南国市|39吾川郡いの町|39吾川郡仁淀川町|39四万十市|' +
+  '39土佐市|39土佐清水市|39土佐郡土佐町|39土佐郡大川村|39安芸市|' +
+  '39安芸郡北川村|39安芸郡奈半利町|39安芸郡安田町|39安芸郡東洋町|' +
+  '39安芸郡田野町|39安芸郡芸西村|39安芸郡馬路村|39室戸市|39宿毛市|' +
+  '39幡多郡三原村|39幡多郡大月町|39幡多郡黒潮町|39長岡郡大豊町|' +
+  '39長岡郡本山町|39須崎市|39香南市|39香美市|39高岡郡中土佐町|' +
+  '39高岡郡佐川町|39高岡郡四万十町|39高岡郡日高村|39高岡郡檮原町|' +
+  '39高岡郡津野町|39高岡郡越知町|39高知市|40うきは市|40みやま市|' +
+  '40三井郡大刀洗町|40三潴郡大木町|40中間市|40久留米市|40京都郡みやこ町|' +
+  '40京都郡苅田町|40八女市|40八女郡広川町|40北九州市八幡東区|' +
+  '40北九州市八幡西区|40北九州市小倉北区|40北九州市小倉南区|40北九州市戸畑区|' +
+  '40北九州市若松区|40北九州市門司区|40古賀市|40嘉穂郡桂川町|40嘉麻市|' +
+  '40大川市|40大牟田市|40大野城市|40太宰府市|40宗像市|40宮若市|' +
+  '40小郡市|40春日市|40朝倉市|40朝倉郡東峰村|40朝倉郡筑前町|40柳川市|' +
+  '40田川市|40田川郡大任町|40田川郡川崎町|40田川郡添田町|40田川郡福智町|' +
+  '40田川郡糸田町|40田川郡赤村|40田川郡香春町|40直方市|40福岡市中央区|' +
+  '40福岡市南区|40福岡市博多区|40福岡市城南区|40福岡市早良区|40福岡市東区|' +
+  '40福岡市西区|40福津市|40筑後市|40筑紫野市|40築上郡上毛町|' +
+  '40築上郡吉富町|40築上郡築上町|40糟屋郡久山町|40糟屋郡宇美町|' +
+  '40糟屋郡志免町|40糟屋郡新宮町|40糟屋郡篠栗町|40糟屋郡粕屋町|' +
+  '40糟屋郡須惠町|40糸島市|40行橋市|40豊前市|40遠賀郡岡垣町|' +
+  '40遠賀郡水巻町|40遠賀郡芦屋町|40遠賀郡遠賀町|40那珂川市|40鞍手郡小竹町|' +
+  '40鞍手郡鞍手町|40飯塚市|41三養基郡みやき町|41三養基郡上峰町|' +
+  '41三養基郡基山町|41伊万里市|41佐賀市|41唐津市|41多久市|41嬉野市|' +
+  '41小城市|41東松浦郡玄海町|41杵島郡大町町|41杵島郡江北町|41杵島郡白石町|' +
+  '41武雄市|41神埼市|41神埼郡吉野ヶ里町|41藤津郡太良町|41西松浦郡有田町|' +
+  '41鳥栖市|41鹿島市|42五島市|42佐世保市|42北松浦郡佐々町|' +
+  '42北松浦郡小値賀町|42南島原市|42南松浦郡新上五島町|42壱岐市|42大村市|' +
+  '42対馬市|42島原市|42平戸市|42東彼杵郡川棚町|42東彼杵郡東彼杵町|' +
+  '42東彼杵郡波佐見町|42松浦市|42西彼杵郡時津町|42西彼杵郡長与町|42西海市|' +
+  '42諫早市|42長崎市|42雲仙市|43上天草市|43上益城郡嘉島町|' +
+  '43上益城郡山都町|43上益城郡御船町|43上益城郡甲佐町|43上益城郡益城町|' +
+  '43下益城郡美里町|43人吉市|43八代市|43八代郡氷川町|43合志市|43天草市|' +
+  '43天草郡苓北町|43宇土市|43宇城市|43山鹿市|43水俣市|43熊本市中央区|' +
+  '43熊本市北区|43熊本市南区|43熊本市東区|43熊本市西区|43玉名市|' +
+  '43玉名郡南関町|43玉名郡和水町|43玉名郡玉東町|43玉名郡長洲町|' +
+  '43球磨郡あさぎり町|43球磨郡五木村|43球磨郡多良木町|43球磨郡山江村|' +
+  '43球磨郡水上村|43球磨郡湯前町|43球磨郡球磨村|43球磨郡相良村|43球磨郡錦町|' +
+  '43荒尾市|43菊池市|43菊池郡大津町|43菊池郡菊陽町|43葦北郡津奈木町|' +
+  '43葦北郡芦北町|43阿蘇市|43阿蘇郡南小国町|43阿蘇郡南阿蘇村|43阿蘇郡小国町|' +
+  '43阿蘇郡産山村|43阿蘇郡西原村|43阿蘇郡高森町|44中津市|44佐伯市|' +
+  '44別府市|44国東市|44大分市|44宇佐市|44日田市|44東国東郡姫島村|' +
+  '44杵築市|44津久見市|44玖珠郡九重町|44玖珠郡玖珠町|44由布市|44竹田市|' +
+  '44臼杵市|44豊後大野市|44豊後高田市|44速見郡日出町|45えびの市|45串間市|' +
+  '45児湯郡川南町|45児湯郡新富町|45児湯郡木城町|45児湯郡西米良村|' +
+  '45児湯郡都農町|45児湯郡高鍋町|45北諸県郡三股町|45宮崎市|45小林市|' +
+  '45延岡市|45日南市|45日向市|45東臼杵郡椎葉村|45東臼杵郡美郷町|' +
+  '45東臼杵郡諸塚村|45東臼杵郡門川町|45東諸県郡国富町|45東諸県郡綾町|' +
+  '45西臼杵郡五ヶ瀬町|45西臼杵郡日之影町|45西臼杵郡高千穂町|45西諸県郡高原町|' +
+  '45西都市|45都城市|46いちき串木野市|46伊佐市|46出水市|46出水郡長島町|' +
+  '46南さつま市|46南九州市|46垂水市|46大島郡与論町|46大島郡伊仙町|' +
+  '46大島郡和泊町|46大島郡喜界町|46大島郡大和村|46大島郡天城町|' +
+  '46大島郡宇検村|46大島郡徳之島町|46大島郡瀬戸内町|46大島郡知名町|' +
+  '46大島郡龍郷町|46奄美市|46姶良市|46姶良郡湧水町|46志布志市|46指宿市|' +
+  '46日置市|46曽於市|46曽於郡大崎町|46枕崎市|46熊毛郡中種子町|' +
+  '46熊毛郡南種子町|46熊毛郡屋久島町|46肝属郡南大隅町|46肝属郡東串良町|' +
+  '46肝属郡肝付町|46肝属郡錦江町|46薩摩川内市|46薩摩郡さつま町|46西之表市|' +
+  '46阿久根市|46霧島市|46鹿児島市|46鹿児島郡三島村|46鹿児島郡十島村|' +
+  '46鹿屋市|47うるま市|47中頭郡中城村|47中頭郡北中城村|47中頭郡北谷町|' +
+  '47中頭郡嘉手納町|47中頭郡西原町|47中頭郡読谷村|47八重山郡与那国町|' +
+  '47八重山郡竹富町|47南城市|47名護市|47国頭郡今帰仁村|47国頭郡伊江村|' +
+  '47国頭郡国頭村|47国頭郡大宜味村|47国頭郡宜野座村|47国頭郡恩納村|' +
+  '47国頭郡本部町|47国頭郡東村|47国頭郡金武町|47宜野湾市|47宮古島市|' +
+  '47宮古郡多良間村|47島尻郡与那原町|47島尻郡久米島町|47島尻郡伊平屋村|' +
+  '47島尻郡伊是名村|47島尻郡八重瀬町|47島尻郡北大東村|47島尻郡南大東村|' +
+  '47島尻郡南風原町|47島尻郡座間味村|47島尻郡渡名喜村|47島尻郡渡嘉敷村|' +
+  '47島尻郡粟国村|47沖縄市|47浦添市|47石垣市|47糸満市|47豊見城市|' +
+  '47那覇市'
+
+/**
+ * 上3桁ごとの郵便番号と市区町村の対応（`区域内の市区町村;範囲 範囲 ...`）
+ *
+ * - 区域内の市区町村: `POSTCODE_CITIES` の添字（36進数）をカンマ区切りで並べたもの
+ *   複数の市区町村にまたがる郵便番号は、添字を `+` でつないだものを1つの市区町村として扱う
+ * - 範囲: 下4桁が連続し、市区町村が同じ郵便番号をまとめたもの
+ *   `前の範囲の末尾からの間隔.件数 - 1` の直後に、区域内の市区町村の添字（36進数1文字）を続ける（いずれも36進数）
+ *
+ * @internal
+ */
+export const POSTCODE_CITY_AREAS: Readonly<Record<string, string>> = {
+  '001': '2g;0.00 9.u0 4.00 nr.b0 2.00 5.70 1.50',
+  '002': '2g,3r;nn.a0 3.00 5i7.b0 8.h0 2.40 5.40 5.70 2.40 5.10 6.01 1.00',
+  '003': '2m;0.60 4.20 7.90 le.80 1.30 6.j0 8.00 1.40 3.00 1.40 3.00 1.50',
+  '004':
+    '2i+2l,2i,2l;0.00 0.61 3.41 5.11 8.21 5.01 1.11 8.41 5.41 2.11 1.51 k4.42 3.02 1.42 5.02 ' +
+    '9.52 2.a2 9.02 1.62 3.b2 6.02',
+  '005': '2h;0.80 2.70 2.10 7.b0 l3.h0 2.60 2.20 7.40 4.70 4.40',
+  '006': '2j;0.60 2.00 1.50 2.00 1.50 2.00 1.40 3.00 1.20 5.10 ku.60 3.c0 5.00 1.b0 8.20 5.20',
+  '007': '2k;1.50 4.00 i.40 la.e0 3.a0 4.i0 8.d0 5.60 3.50',
+  '010':
+    '8v,8s,8u,8k;0.60 4.30 6.80 1.70 2.30 6.80 1.50 y.01 9.50 4.50 4.70 2.50 1i.11 3u.62 ' +
+    '3.42 18.03 0.02 9.22 7.22 7.02 9.43 5.53 17.32 7.02 9.22 7.42 3h.42 5.52 4.72 35.20 ' +
+    '6.60 3.50 4.30 6.40 5.30 6.40 5.60 n.40 5.70 2.40 5.40 5.70 2.50 4.60 3.60 3f.50 2m.20 ' +
+    '7.10 8.40 5.20 2z.30 6.10 1c.80 1.i0 1.60 1r.50 2m.70 2.70 2.20 7.70 2.40 5.30',
+  '011': '8v;p1.80 1.60 3.70 2.80 1.80 1.00',
+  '012':
+    '8r,8y;0.80 2.60 3.50 4.60 3.40 5.60 3.10 15.30 23.00 h5.30 6.40 5.60 3.70 2.40 5.60 ' +
+    '3.80 6e.61 4.51 4.51 4.61 2v.21 2z.21',
+  '013':
+    '8q;0.80 2.80 1.70 2.70 2.80 1.50 3.60 1.10 1.50 o.60 2l.70 2.70 2a.80 1.80 1.60 3.80 ' +
+    '1.80 1.80 1.40 5.80 1.40 g.00 1.50 1.80 1.80 1.80 1.70 2.80 1.70 2.60 3.70 c.20 7.80 ' +
+    '1.50 4.50 4.50 4.10 8.10 6w.30 6.50',
+  '014':
+    '8l,8d;0.60 4.60 3.60 3.30 6.70 2.60 3.70 2.20 r.30 6.30 2e.60 2k.31 7.21 1.31 2.71 2.61 ' +
+    '3.61 3.81 1.81 1.81 3n.51 2c.11 30.30 2e.40 8h.51 2c.41 5p.20',
+  '015':
+    '8t;0.00 a.30 6.40 5.40 5.60 3.40 5.80 1.80 1.80 1.30 2y.10 8.00 9.00 9.10 8.20 1l.30 ' +
+    '6.30 6.30 6.20 7.00 9.20 7.30 10.30 6.70 2a.40 5.50 5o.10 26.30 2.20 1.60 3.60 3.c0 ' +
+    '7.70 2.80 1.70 2.b0',
+  '016':
+    '8w;0.50 5.60 2b.30 6.50 4.20 7.80 1.80 1.60 3.80 1.80 1.70 h0.70 2.60 3.40 5.80 1.50 ' +
+    '4.60 3.40 5.80 1.30 6.60',
+  '017':
+    '8m,90;0.50 5.10 1.10 5.50 4.60 3.50 4.60 3y.51 gj.50 4.60 3.70 2.80 1.60 3.40 1.00 3.70 ' +
+    '2.70 2.70 2.60',
+  '018':
+    '8c,8t,8s,8i,8j,8h,8n,8o,8w,8p,8f,8m,8g,8z,5y,90;2t.80 1.80 1.80 1.50 4.70 2.70 2.60 ' +
+    '3.50 4.70 34.10 8.00 9.10 25.40 6.30 6.10 8.50 4k.31 2y.01 9.51 4.31 2y.41 5.41 19.61 ' +
+    '8f.71 2.51 22.41 2m.32 7.52 2b.03 0.32 6.53 4.73 1z.64 4.74 2.84 1.44 1s.65 4.35 6.45 ' +
+    '5.45 5.65 2v.65 6r.36 5g.46 2m.76 2k.97 1.17 2g.87 1.87 1.77 2.77 2.77 2.57 4.67 3.77 ' +
+    '3e.58 4.48 7x.68 3.88 1.88 1.48 5.78 2.68 16.59 2m.2a 8.5a 4.4a 5.2a 7.2a 2z.3a 1a.5b ' +
+    'ja.2a 7.0a 9.0a 9.0a 9.0a 9.0a 9.2a 7.2a 7.1a i.2a 2o.1c 9.2c 7.2c 7.1c 26.5a 2c.3a ' +
+    '6.2a 7.3a 2y.4a 5.5a ay.0d 1m.2d 3k.6d 2b.1d 26.0e 9.0f 2h.5b 2m.0b 9.1b 8.1b 8.1b 8.4b ' +
+    '5.5b 2m.0b',
+  '019':
+    '8r,8q,8x,8e,8l,8v;33.20 2f.40 37.00 27.30 24.00 j.21 1.41 1.71 2.81 1.21 4n.41 5.41 ' +
+    '2c.32 89.81 3d.63 1r.13 2p.43 2o.13 8.13 8.13 8.23 7.13 1m.44 5.54 2c.14 2q.74 2.64 ' +
+    '4.04 1.34 3.14 1.14 5.24 2.24 2.24 1.34 2.54 1.04 2.74 2.74 c.84 1.74 2.84 1.84 1.84 ' +
+    '1.74 2.24 3v.04 7.14 8.24 25.14 1.14 3h.44 1t.14 8.24 h.04 9.24 25.04 27.05 9.35 6.45 ' +
+    '5.15 30.15',
+  '020':
+    '70,6x,6z,71;0.50 5.50 4.50 4.30 6.40 5.40 5.50 y.70 2.60 3.60 3.60 3.70 1g.30 2y.20 ' +
+    '2f.30 2n.71 3.41 1.01 2.51 1.c1 1.61 3.81 b.31 6.41 e.92 1.82 1.62 3.72 2.52 4.82 1.72 ' +
+    '2.72 2.72 c.i2 1.72 2.72 2.52 4.72 2.82 1.82 l.60 3.60 3.70 2.80 1.50 4.60 3.50 4.70 ' +
+    '2.60 3.03',
+  '021':
+    '6c;0.80 2.30 6.60 3.50 4.00 9.50 4.30 10.10 3a.00 g3.60 3.40 5.10 8.50 4.30 6.30 6.60 ' +
+    '3.60 3.40 5.30 6.10',
+  '022': '6s;0.70 2l.10 30.00',
+  '023':
+    '6t;0.30 7.80 1.60 3.60 3.60 3.70 2.60 3.60 3.60 3.50 4.70 n.00 12.00 6d.20 b1.70 2.70 ' +
+    '2.80 1.20 7.10 8.60 3.60 3.60 3.80 1.70 5m.40 5.70 2.40 5.30 5q.00 5t.00 5t.10',
+  '024': '6q,6r;0.40 6.30 6.40 5.40 5.40 5.70 2.30 6.50 4.40 5.40 5.40 2x.00 31.50 4.40 5.01',
+  '025': '74;0.80 2.50 4.50 4.80 1.50 4.70 2.70 2.80 1.80 1.70 w.60 2y.00 6.20 1b.40 5.40 5.30',
+  '026': '77;0.50 5.40 5.50 4.40 5.50 4.40 5.00 1n.00 4z.30 2y.10',
+  '027':
+    '6u,6f;0.90 b.80 1.80 1.70 2.50 1.00 2.60 3.70 2.80 1.60 d.10 2g.20 2p.60 3.20 7.40 5.20 ' +
+    '7.60 3.80 1.60 3.80 1.70 w.31 23.81 2u.01',
+  '028':
+    '6i,74,76,6d,6e,6u,6f,70,72,71,6v,6w,6o,6n,6l,6j,6p,6k,6m,6g,6h;0.10 9.40 5.30 6.40 5.00 ' +
+    '9.50 4.50 4.00 9.20 7.00 9.61 3.51 4.21 7.51 4.31 6.51 40.42 4v.02 i.32 7.62 3.62 3.32 ' +
+    '6.42 5.42 2x.32 2y.52 8z.53 5.63 3.13 8.23 4m.34 7.04 9.04 9.24 7.24 7.14 8.04 9.04 ' +
+    'k9.45 3h.26 1v.35 2p.05 i.15 29.05 6.25 39.25 25.07 at.11 8.01 9.11 8.21 7.11 8.21 7.21 ' +
+    '7.11 8.41 f.31 2n.i8 2.58 36.78 2.28 25.58 1r.99 1.79 2.69 dp.47 5.57 22.0a 2g.7a 35.5a ' +
+    'ir.0b s.3c 2e.3c 8.0c 1u.6c 4.5c 2b.3b 6d.06 7.26 1m.0d 8.2d aq.8d 34.2e 24.4e 2y.2e ' +
+    '2e.7f 2v.1f 30.3d 2e.8d 1.5d 4.7d 2.8d 1.6d 3.7d 2.8d 1.4d f.7d 2.8d 1.8d 1.8d 1.8d ' +
+    '1.7d 2.8d 1.8d 1.4d 36.0g a.2g 57.5g 2m.5g 2m.5g 4.5g 4.6g 3.6g 3.4g 5.6g 3.6g x.7g ' +
+    '2.8g 1.8g 1.7g 2.4g 5.6g 3.3g 6.8g 3d.00 2q.6h 4.7h 5c.00 2g.2i 2p.3j 7.2j 7.2j 7.5j ' +
+    '4.4j 5.2j 7.7j v.7k 35.00 27.40 2x.20 2f.4h',
+  '029':
+    '6c,78,6y,75,6t,73,6r;3n.10 1w.10 8.00 2h.20 3j.00 2h.20 25.20 2z.00 2h.30 8i.00 2h.10 ' +
+    '8.00 rg.81 2j.02 a.02 59.12 gm.40 2r.20 2v.00 2h.50 36.10 g1.23 2q.84 1.04 2j.54 2.64 ' +
+    '3.84 1.34 6.74 2.44 5.44 5.74 2.84 b.74 2.84 1.64 3.84 1.54 4.54 4.44 5.44 5.74 2.64 ' +
+    '2.55 rm.76 3.36 6.26 2f.86 1.06 27.26',
+  '030':
+    '6a,67,65,64,5v;33.20 7.40 5.60 3.40 5.40 hx.20 7.20 7.20 h.60 3.50 4.10 12.30 6.80 1.40 ' +
+    '5.60 3.70 2.70 2.50 6h.31 7.31 1a.10 8.20 r.82 1.02 2g.02 1.32 5.22 1.12 2b.53 5.43 ' +
+    '55.04 9.i2 1.62',
+  '031': '5u;0.40 2.00 3.20 7.20 7.80 1.60 3.70 c.60 3.80 l.40 2d.10 gm.30 6.50 4.30 6.30 6.30',
+  '033': '5g,5k;0.10 9.10 8.30 6.60 3.40 5.20 7.20 7.31 q.40 5.20 9.00 7.30 6.20 7.40 5.60',
+  '034': '5y;0.50 5.60 3.30 6.70 2.00 9.10 8.00 9.00 9.80 1.40 5.60 2v.20 2f.20',
+  '035': '59+5q,5q,59;0.00 0.41 5.12 8.12 8.52 4.52 4.42 5.72 2.82 1.52 4.52 6.11 6.21',
+  '036':
+    '63,62,6b,5s;0.00 2r.41 6.41 5.11 8.11 8.51 4.41 5.41 5.21 r.21 7.21 7.21 7.21 7.21 ' +
+    '1k.82 2.72 2.52 4.82 1.42 5.62 3.72 2.72 2.82 b.42 5.42 2d.62 3.62 3.32 6.82 1.12 ia.50 ' +
+    '2m.30 6.30 6.40 5.30 6.40 f.00 12.03 a.43 5.33 6.40 5.20 7.20 1b.50 4.50 504.50 4.70 ' +
+    '2.50 4.50 4.50 4.60 3.50 4.50 4.60 3.60 3.30 6.40 5.60 3.30 6.30 6.40 5.30 6.40 5.70 ' +
+    '2.70 2.60 3.60 3.70 2.30 6.60 3.40 5.50 4.80 l.20 7.80 1.00 1.30 4.50 4.50 4.60 3.70 ' +
+    '2.40 5.40',
+  '037':
+    '5t,58,5v;0.60 4.60 3.40 6.40 4.50 4.70 2.80 1.50 4.80 1.60 3.81 2j.70 2j.92 1.72 2a.40 ' +
+    '2x.32 6.42 5.72 2.22 1l.10 8.30 6.20 7.10 8.10',
+  '038':
+    '6a,62,5z,60,61,68,69,58,5x,5w,63;0.40 1.00 4.40 5.30 6.10 8.50 4.80 15.21 2o.42 6.12 ' +
+    '8.22 7.22 7.22 ns.43 6.23 7.23 7.33 6.43 1j.64 3.54 2c.50 4.20 7.40 5.20 7.40 nr.75 ' +
+    '2j.05 k.65 2b.25 2f.45 5e.56 5.46 5.46 5.46 5.66 3.36 6.06 13.07 1.17 1.07 1.07 2.77 ' +
+    '7t.77 3.47 5.77 2.87 1.57 4.87 1.67 2v.77 2.77 c.57 5d.38 7.48 5.48 5.18 8.28 1k.09 ' +
+    'a.4a 5.49 5.59 4.49 5.09 9.19 8.29 7.49 36.64 4.34 6.0a 9.64 10.0a',
+  '039':
+    '5a+5c,5c,5a,5e,5u,5f,5b,5d,5h,5k,5l,5i,5n,5j,66,6a,5m,5q,59,5r,5p,5o;2s.00 0.51 4.22 ' +
+    '7.12 8.42 5.32 1j.23 30.63 3p.22 1b.61 2q.01 4.31 56.41 5.41 7x.84 1.34 6.04 12.94 u.85 ' +
+    '2.15 7z.86 2.86 1.86 1.86 1.76 2.86 1.86 3n.26 2o.27 8b.08 8.78 2.88 1.58 4.68 3.78 ' +
+    '2.48 5.28 6.98 a.68 4.68 3.58 4.58 4.24 1.14 4.48 18.09 1.06 8.49 1j.19 s.6a 2k.8b 2.7b ' +
+    '2.6b 3.8b 1.8b 1.8b 1.8b 1.8b 1.8b a.7a 3.6a 3.6a 3.5a 4.7a 2.6a 3.7a 2.7a 2.7a m.6b ' +
+    '3.5b 4.2b 7.7b 2.6b 3.2b 7.8b 1.5b e.4b 5.5b 4.7b 2.4b 5.5b 4.6b 3.5b 4.6b 66.9c 1.7c ' +
+    '2.8c 1.0c 9.7c 2.8c 1.7c 2.8c k.0d a.4d 2c.3e 7.4e 5.0e 9.2e 7.2e 7.2e 7.3e 6.2e 7.1e ' +
+    '3a.6f g.0f fz.6g 4.6g 3.3g 6.7g 2.4g 5.6g 1r.3h 24.0d 2r.1i 2p.3j 2o.2k 2p.0l 0.0i 9.1l ' +
+    'dk.3i 2r.0i g.6i 3.6i 3.5i',
+  '040': 'u;0.50 5.40 5.40 5.60 3.50 4.60 3.40 5.70 2.30',
+  '041':
+    'u,o,12,4m;6z.20 7.40 z.50 4.20 2f.70 34.50 22.50 4.20 57.70 2.20 7.30 6.60 3.00 1.10 ' +
+    '6.20 6u.51 5.11 8.11 8.51 1s.02 9.42 5.52 4.02 9.32 6.02 2r.41 18.53 5f.20 7.20 7.30',
+  '042': 'u;p1.70 2.70 2.30 6.40 5.30 6.70',
+  '043':
+    '33,3j,p,n,32,1m;0.00 a.60 3.50 4.50 4.50 4.60 3.50 x.41 6.61 35.31 2o.42 1t.42 9.42 ' +
+    '1.03 27.43 5.43 g8.44 6.74 34.74 34.04 9.74 v.65 36.45',
+  '044':
+    '4p,4o,4q,q;0.70 3.50 4.40 5.50 4.40 5.60 3.70 2.70 1.90 a.11 9.21 7.41 5.11 1v.12 9.42 ' +
+    '5.42 5z.33 6.32 6.22',
+  '045': '1v,1u,18,19;0.30 7.20 7.50 4.11 2g.21 24.52 2m.33',
+  '046':
+    's,1a,3x,t;0.40 6.40 5.40 5.20 1u.41 6.21 7.01 9.21 1u.22 3a.72 4r.13 9.13 8.03 9.13 ' +
+    '8.13 8.13 8.03 9.03',
+  '047': '1s;0.80 2.60 3.70 2.80 1.70 2u.60 2v.50',
+  '048':
+    '1r,1q,1x,3u,4n,4t,4s,1u,r,1s;2s.10 9.60 3.60 3.60 3.40 5p.01 1c.61 4.41 54.42 6.32 6.22 ' +
+    '7.32 h4.33 6.43 y.73 3.53 4.63 d.03 4e.24 8.14 8.14 8.04 9.34 6.34 6.24 10.55 5.45 5.35 ' +
+    '6.05 1w.06 a.16 8.36 6.06 9.06 9.16 as.27 1k.27 3k.48 1s.68 4.28 43.19 30.29',
+  '049':
+    '12,e,31,f,2q,2p,4l,p,1t,3i,n,4u,4r,2e;2s.10 9.00 9.10 8.50 4.20 7.70 2.10 8.00 31.50 ' +
+    '35.81 2.11 8.11 8.01 9.01 9.41 2x.32 z.82 2.22 7.62 35.32 9v.73 35.03 26.24 8.14 8.44 ' +
+    '5.14 3a.54 17.75 3.65 3.35 38.45 37.35 6.05 9.35 9w.16 26.26 24.86 2.26 7.66 3p.46 ' +
+    '2n.57 2w.47 bs.77 3.77 2.77 5w.17 3a.48 y.48 6.88 1.08 hh.69 3y.89 2.79 2.69 3.69 2l.3a ' +
+    '1t.1a 9.7a 6g.4a 19.4a 5.5a 4.7a 8o.08 59.2b 1u.8b 2.5b 53.5c 5.5c 2w.3c 6.0d 1x.1c ' +
+    '8.3c 6.1c 8.2c',
+  '050': '1o;0.00 1e.40 5.60 3.60 3.60',
+  '051': '1o;1.50 4.50 4.70 2.50',
+  '052': 'q,2e;0.80 2.50 4.60 3.50 1r.71 3.51 54.20 7.60',
+  '053': '4k;0.70 3.70 2.60 3.40 5.60 3.50 ko.60 3.50 4.20 7.20 7.40 5.40',
+  '054': 'x;0.50 5.50 4.20 7.10 8.10 8.10 8.30 24.30 1k.30 6.00 45.30',
+  '055': '37,36;0.80 2j.71 5x.41 2d.41 1gd.80 1.50',
+  '056': '2c;0.70 3.00 1.60 1.70 34.50',
+  '057': '3f;0.70 3.40 5.60 3.50 3q.30',
+  '058': '2v,3f,24;0.40 6.40 5.60 3.20 7.01 4e.72 3p.22 25.12',
+  '059':
+    '3m,q,3o,4k,10,z,37,2b,2c,3f;0.50 5.60 3.70 2.50 36.61 35.41 55.50 2c.20 2f.12 75.82 ' +
+    '2.52 4.22 9d.53 4.63 n.63 1h.53 4.43 1j.34 1t.64 4.24 2e.65 4.55 4.45 37.85 1.35 4c.04 ' +
+    '9.04 9.04 9.14 8.04 9.04 9.04 a.54 3p.66 35.46 5.27 25.16 8.37 1j.47 6.77 2.67 3p.58 ' +
+    '4.08 ep.78 2.18 3a.28 39.48 2n.09 1.19 6.29',
+  '060': '2f,2g,2k;0.i0 1.20 8.40 5.10 8.60 3.20 km.e1 2c.42',
+  '061':
+    '3r,2z,30,11,27,2h,3q,1s;5k.80 2.70 2.70 2.40 f.30 6t.81 2.71 2.81 1y.32 7.72 2.22 d8.63 ' +
+    '4.53 4.63 3.63 3.73 2.33 2y.03 2.f3 1.03 1x.54 4.54 4.54 n.74 1.04 1.64 3.64 3.44 5.84 ' +
+    'mj.55 4.55 4.55 e.25 m5.86 1.26 11.06 1c.n6 6.26 8.46 2.06 2.06 1.66 1.16 8.07 9.36 ' +
+    '1a.16 s.26 1.36 2.76 1q.06 12.46 10.26 25.26 1.16 4k.80',
+  '062': '2o;0.c0 7.50 5.40 3.00 1.20 1.00 5.40 nh.80 1.10 8.10 8.70',
+  '063': '2n;0.70 1.00 1.10 8.20 5.00 1.d0 4.00 1.30 4.00 1.10 ki.30 6.30 6.g0 3.90 a.90',
+  '064': '2f;m9.a0 8.60 2d.j0 9.50 4.30 3.10',
+  '065': '2k;0.00 3.o0 1.30 7.20',
+  '066': '15,4k;0.90 1.80 1.80 1.80 1.60 3.60 3.80 1.70 2.30 56.01 9.60',
+  '067': '35;0.50 5.70 2.70 2.30 6.10 8.80 1.50 4.40',
+  '068':
+    '1w,1f,1e,3s,2z,0,4f;0.g0 4.e0 5.70 2.70 2.00 13.50 4.40 5.60 3.50 5y.71 2.21 10.92 1.32 ' +
+    '6.52 2w.52 3.92 33.42 5.42 23.52 18.h0 1.h0 3.60 3.40 6s.53 5.53 4.63 3.73 2.53 4.23 ' +
+    '7.00 13.40 5.40 f.04 o4.85 2.75 2.75 2.65 3.75 2.75 2.75 c.06 qx.80 1.40 5.c0 1.30',
+  '069':
+    '42,1w,35,1g,15,1h,1f;5k.00 6.e0 9.80 33.01 9.51 4.51 4.31 bk.52 4.62 3.52 4.52 4.62 ' +
+    '3.42 5.62 7b.53 4.33 10.34 f.83 2.83 28.i5 1.25 6.05 1.55 4.65 2v.d5 6.e5 e.86 2.26 7.56',
+  '070':
+    '2d;0.30 6.40 6.n0 7.70 1.20 8.10 7.20 k6.70 3.40 5.10 8.20 k.30 3.60 n.10 1w.20 5f7.60 ' +
+    '3.80 1.70 2.30 6.80 1.20 7.00 9.30',
+  '071':
+    '2d,c,3y,40,d,8,9;4r.30 9.20 d.91 1.81 1.81 1.i1 1.01 9.01 2h.21 1.01 2x.11 8.81 k.h2 ' +
+    '2.e2 6.82 1.42 5.52 4.82 3.02 38.03 3.33 3.03 2.03 b.03 4.63 4.03 8.43 5.13 7.b3 at.60 ' +
+    'm.24 8.04 9.44 5.44 b.k4 3o.05 1.e5 1.15 2.45 4.b5 8.g5 3.25 0.01 p.56 5.46 5.46 7.o6 ' +
+    '2.56 4.56 1.06 3.16 512.30 6.30 6.20 6.90 1.40 5.f0 4.00',
+  '072': '4f;0.90 1.60 3.70 2.70 2.60 3.80 kl.70 2.80 1.70 2.40 5.30 6.60',
+  '073':
+    '3h,3t,2y,3z,34;0.60 4.70 2.60 3.50 4.50 12.01 e.81 2.71 2.61 3.71 2.71 2.81 1.71 2.71 ' +
+    '2.02 i.63 4.23 7.13 4x.74 j8.72 5x.22',
+  '074': '3g,54,2d;0.90 1.50 4.70 2.00 31.60 70.51 5.41 5.61 8p.61 bh.30 g.12 2g.50',
+  '075': '4g;0.70 3.80 1.00 9.50 4.00 3b.60 2b.30',
+  '076': '1p,4g;0.80 2.70 2.70 2.80 1.70 1.90 l.01 27.40 5.50 4.30 g.30',
+  '077': '3k,1c,3q,3l;0.70 3.50 4.70 2.70 2.70 2a.31 1t.91 1.71 2.41 37.01 2.11 5.02 31.53',
+  '078':
+    '3g,2d,a,5,6,1,56,55,52,57,2y,3k,3l,4j,4i,4h;47.30 u.11 35.02 9.12 9.e2 5.82 pl.31 p.03 ' +
+    '2.33 6.33 7.03 6.43 1.03 3.03 1m.54 5.44 6j.34 19.15 9.15 8.15 8.25 7.35 6.25 7.25 7.45 ' +
+    '90.96 1.16 8.36 23.67 4.37 6.47 7m.38 7.58 e.09 1w.09 u.89 1.19 8.0a e5.7b 3n.9c 1.2c ' +
+    '3j.1c 8.6c 2b.0d 27.0d 9.7d 1p.2d 8.6d 49.0e 27.4e 40.8e 1.de 6.4e 5.5e 72.0f a.1f 8.1f ' +
+    '8.2f 2wn.71 2.a1 9.f1 4.21 7.11 8.41 p.41 2.01 2.g1 2.121 2.21 7.21 7.11 bc.41 5.41 5.41',
+  '079':
+    '4f,1w,43,3h,53,4v,3t,4g,1p,41,y,2d;4h.10 1.30 3.60 3.21 25.60 3.30 p.62 4.62 3z.23 ' +
+    '10.b4 gc.25 8.35 6.35 6.55 4.35 6.55 o.06 27.75 2.35 6.65 2b.17 59.48 4.28 7.18 f8.19 ' +
+    '0.08 1u.7a 5c.49 6.19 3u.19 4ig.2b 7.db 6.0b 9.3b 6.3b',
+  '080':
+    '20,3a,39,38;0.00 9.120 1.80 15.61 4.11 8.21 7.81 1.51 4.01 9.21 2p.21 7.11 s.81 1.71 ' +
+    '2.61 2.51 5.51 4.01 9.21 5h.71 2.71 66.g0 3.30 6.70 2.70 7.10 3.10 8.10 8s.02 a.02 4.52 ' +
+    '7.12 8.22 6.02 b.02 8.22 c.02 b.02 36.83 j8.50 4.60 3.30 5q.60 3d.60 3.70',
+  '081': '7,3b;0.30 1.30 2.40 5.20 7.80 33.50 4.30 z.51 5.71 2.71 34.51',
+  '082': '3e;0.m0 7.e0 6.30 1.10 2.40 6.80 1.60 85.40 bj.20 7.20',
+  '083': 'j;0.40 f.30 7.30 6.60 16.20',
+  '084': '4z;p1.h0 2.80',
+  '085':
+    '4z,51,50;0.80 2.70 2.60 3.70 2.70 2.70 2.40 3r.50 4.70 1.50 5.70 2.40 5.10 5y.10 98.60 ' +
+    '3.50 4.50 4.60 3.60 7v.31 6.61 1g.71 3.21 1b.11 s0.22',
+  '086':
+    '2u,17,4y,2w,2x,3p;1p.40 5.50 4.01 1d.02 1w.52 5.52 3g.52 4u.22 3j.62 9j.123 1.163 g.c3 ' +
+    '8.g3 1.03 1.73 1.33 2.13 1.13 2.33 2w.23 4x.04 44.24 i.24 1.14 3.94 1.42 5.74 20.24 ' +
+    'h.15 1b.65 4.55 4.25 7.55 4.35',
+  '087': '2u;0.c0 1.50 1.70 2.60 3.80 1.40 2x.60',
+  '088':
+    '4z,14,3n,50,16,17,2u,1z,4y,2w,1y;2t.80 1.70 2.50 4.40 19.01 3a.52 5.12 8.52 4.22 7.32 ' +
+    '6.22 5q.92 1.42 5.62 c.93 1.73 2.73 3y.04 1n.43 z.74 65.84 2.94 3.24 1.l4 1.04 45.35 ' +
+    '1.05 1h.b5 h.04 b.85 2.05 20.25 c.05 a.35 7.05 1.45 2.15 1.45 c.35 6.05 9.05 1x.05 1.65 ' +
+    '3n.46 9u.83 2.63 2v.57 4.47 o.57 5.37 6.37 6.87 14.27 5.17 1z.47 2n.58 4.78 m.18 26.59 ' +
+    'y.48 bj.87 1.67 16.4a 6.4a 5.7a 16.0a 1n.1a 8.0a 9.0a 31.4a',
+  '089':
+    'b,h,20,3c,3d,25,26,j,i,14,4w,4x,l;2s.70 3.70 2.60 3.70 2u.20 2z.60 3.20 7.70 48.71 2.51 ' +
+    '4.31 6.61 3.71 l.51 5.51 4.71 48.71 aw.32 1k.62 3.12 1b.03 9.33 7.43 4.23 8.43 5.53 ' +
+    '4.73 2.33 3h.24 8.24 7.14 8.14 8.24 7.24 7.24 7.24 7.24 39.01 1.01 1.01 1.01 1.01 1.01 ' +
+    '2.31 3.01 2.51 1.01 3v.01 9.15 61.75 3.65 3.65 3.75 1.35 1.35 2.55 2w.25 7.25 4r.36 ' +
+    '6.06 2x.36 z.56 5.56 4.76 2.76 3o.56 ae.57 3g.38 f.88 2.38 6.68 3.38 2z.18 3j.79 6.29 ' +
+    '21.58 4.68 m.8a 2.7a 2.6a 3.6a 3p.4a 2d.5a 4u.3a 2y.1a 8.1b 11.8b 2.5b 4.5b 4.6b 3.5b ' +
+    '4.6b o9.4c 5.6c 1g.9c 1.4c 41.5c 22.79 2.79 15.89 2.49 1.09 3.19 8.79 6a.49',
+  '090': '13;0.80 2.q0 2.80 2.70 2.00 1.70 ka.70 1.80 2.60 3.70',
+  '091': '13,21;1.30 2.10 2.00 4.20 2.80 1.20 39.00 1.40 3.20 6.00 8c.21 25.71',
+  '092':
+    '4e,4d;0.70 3.70 2.60 2.30 7.30 5.30 7.80 2t.00 1.30 4.00 1.10 f.11 1.01 1.21 3.71 2.41 ' +
+    '5.51 36.71 2.11',
+  '093':
+    '4b,13,21,45;0.o0 6.40 5.50 4.b0 8.j0 14.50 1t.01 7.01 2.31 o.00 2h.51 2c.32 23.82 n.02 ' +
+    '3a.13 26.43',
+  '094': '44;0.70 3.40 5.60 3.00',
+  '095': '1d;0.80 2.80 1.40 3.00 1.40 3.00 1.70 2.50 4.30 38.20 57.00 t.50',
+  '096': '1b;0.p0 4.d0 7.50 4.50 4.70',
+  '097': '3w,v,w,3v;0.70 3.60 3.60 7.20 1q.11 31.01 2r.02 2g.12 jp.03 2g.23',
+  '098':
+    '4,3,1d,1b,2,48,47,4a,k,m,g,1j,1i,1l,1k,3w,2r,2s,2t,1n;2s.40 6.40 5.50 4.40 4k.01 u.81 ' +
+    '1.11 3o.02 p.83 1.53 36.13 fr.74 3.54 36.14 2g.35 23.65 2l.76 3.56 4.36 23.87 34.07 ' +
+    '3b.36 6k.03 i.88 2.38 5.78 2.88 2.28 7.28 2z.78 3n.29 3a.5a 4t.6a 3q.2b 57.5c 4.3c ' +
+    '1j.7b 3.6b 3.7b m.0b 1c.6c 4.5c 18.0d 3u.4d 6.1d 8.2d 7.3d 6.2d fg.7e 2.7e 3.5e 4.ae ' +
+    '8l.0e 3.2e 3.7e 34.1f ee.2g 7.2g 2f.6h 3.2h 7.0h 63.4h 1i.0g 1e.4g 5.4g 3q.5i 5.3i 2.0i ' +
+    '3.2i 1.0i 8.0i 3.1i 1.4i 5.4i 5.4i y.8h 5.2h 4.6h 3f.4h 41.5j 2l.0j l.0j 2.1j 1.0j 2.3j ' +
+    '2y.0j 16.1f 4v.4f 5.5f 1t.3f 2x.0f 2.4f',
+  '099':
+    '49,13,22,23,4c,4b,28,29,2a,44,46,45;2t.10 8.00 9.60 21.60 3.50 3g.60 1g.80 1.80 2.70 ' +
+    '5c.30 24.40 4l.81 64.62 5.62 2.32 6.72 34.32 2y.62 w.73 3.73 2.63 3.63 3z.61 e9.61 3.11 ' +
+    '3a.01 1w.64 3.24 8.64 n.04 2.24 4.14 8.24 7.24 11.35 j2.85 29.14 8.34 6.44 5.34 8.14 ' +
+    '5q.36 1a.35 2n.56 5.56 o.16 cp.07 a.77 2.67 3.47 5.67 5n.67 16.78 35.58 hw.49 4v.49 ' +
+    '5.49 4v.3a 6.2a 1a.6a 4.3a ec.29 2z.19 s.1b 1c.2b 1.4b 1y.4b 6.4b 2d.0b 1.6b',
+  '100':
+    'ig,in,ie,iw,je,i7,it,ic,ju,iq;0.60 4.30 2d.41 2y.11 2g.02 2q.23 30.03 2h.04 du.35 2z.25 ' +
+    '2f.06 2q.17 31.07 31.27 25.08 b2.19 31.09 2x9.z0 1h.00 a.170 19.00 a.u0 1m.00 a.100 ' +
+    '1g.00 a.w0 1k.00 a.110 1f.00 a.150 1b.00 a.160 1a.00 a.100 1g.00 a.x0 1j.00 a.110 1f.00',
+  '101': 'ig;3.00 h.80 1.70 2.70 2.30 6.40',
+  '102': 'ig;1z.50 4.40 5.30',
+  '103': 'ia;0.80 2.50 4.70 4lw.y0 1i.00 a.v0 1l.00',
+  '104': 'ia;s.00 2.20 7.50 4.40 5.00 4kz.170 19.00 a.120 1e.00 a.w0 1k.00',
+  '105':
+    'ja;0.40 6.30 6.20 3x1.110 1f.00 8m.90 4.y0 14.00 be.100 1g.00 32.150 1b.00 a.z0 1h.00 ' +
+    'a.z0 1h.00 be.t0 1n.00 a.1a0 16.00 a.160 1a.00 a.x0 1j.00 a.100 1g.00 a.v0 1l.00 a.120 ' +
+    '1e.00',
+  '106': 'ja;v.10 8.60 4ld.180 18.00 a.1h0 z.00 a.160 1a.00',
+  '107': 'ja;1f.10 8.10 4ky.100 1g.00 a.t0 1n.00 a.180 18.00 a.120 1e.00',
+  '108': 'ja;e.00 7.10 1b.40 4kl.v0 1l.00 a.u0 1m.00 a.u0 1m.00 a.t0 1n.00',
+  '110': 'ih;0.80 2.50',
+  '111': 'ih;l.40 5.50 4.20 7.50',
+  '112': 'iu;0.60 4.40',
+  '113': 'iu;1.00 j.30 6.30',
+  '114': 'if;0.50 5.50 4.30 6.30',
+  '115': 'if;15.40 5.50',
+  '116': 'jk;0.30 7.30',
+  '120': 'jt;0.60 4.40 5.50 4.70 2.60',
+  '121': 'jt;b.10 12.60 3.30 6.50 k4.00 5.00 4.40 5.30 5.60',
+  '123': 'jt;nd.40 5.60 3.40 5.30',
+  '124': 'jl;0.60 4.30 6.40',
+  '125': 'jl;2.00 s.40 5.20 7.30 6.20',
+  '130': 'il;0.50 5.40 5.50',
+  '131': 'il;v.30 6.50',
+  '132': 'j6;0.30 7.00 1.20 5.40 5.40',
+  '133': 'j6;2.00 12.30 6.60 3.40 5.20',
+  '134': 'j6;3.00 9.00 1.00 1t.70 2.20',
+  '135': 'j7,ja,ii,io;0.70 3.50 4.30 6.30 6.70 2.20 7.50 o.01 0.02 0.03 4k3.100 1g.00',
+  '136': 'j7;1z.50 4.20',
+  '140': 'ii;0.50 5.40',
+  '141': 'ii;1.00 j.10 8.20 4lr.t0 1n.00',
+  '142': 'ii;15.20 7.30 6.30',
+  '143': 'io;1.60 3.50 4.60',
+  '144': 'io;0.00 u.40 5.60 3.50',
+  '145': 'io;1p.60 3.50',
+  '146': 'io;29.40 5.40',
+  '150': 'j9;0.20 8.20 7.10 8.50 4.60 4ld.120 1e.00 a.1a0 16.00',
+  '151': 'j9;1f.20 7.50 4.20',
+  '152': 'jd;0.40 6.20 7.20 7.40',
+  '153': 'jd;15.30 6.20 7.40',
+  '154': 'i9;0.50 5.60 3.30',
+  '155': 'i9;v.20',
+  '156': 'i9;15.40 5.60',
+  '157': 'i9;1p.70 2.60',
+  '158': 'i9;29.60 3.70',
+  '160': 'iv;0.80 2.70 2.20 4ot.120 1e.00',
+  '161': 'iv;v.40',
+  '162': 'iv;15.40 5.50 4.60 kd.70 2.70 2.70 2.70 2.70 2.60',
+  '163':
+    'iv;5l.1f0 11.00 32.1i0 y.00 a.1d0 13.00 a.1h0 z.00 a.p0 1r.00 a.t0 1n.00 a.t0 1n.00 ' +
+    'a.1f0 11.00 a.t0 1n.00 32.170 19.00 a.1h0 z.00 a.u0 1m.00 3ei.110 1f.00',
+  '164': 'ib;0.30 7.30',
+  '165': 'ib;l.60 3.40',
+  '166': 'iz;0.40 6.50',
+  '167': 'iz;l.20 7.40 5.20 7.30',
+  '168': 'iz;1p.40 5.30 6.10',
+  '169': 'iv;1f.10 i.40',
+  '170': 'js;0.50 5.30 4ma.1n0 t.00',
+  '171': 'js;e.00 6.10 8.20 7.30 6.10',
+  '173': 'j3;1.40 5.50 4.60 3.60',
+  '174': 'j3;0.00 14.50 4.50 4.40 5.50',
+  '175': 'j3;19.00 z.40 5.30',
+  '176': 'ji;0.60 4.30 6.40',
+  '177': 'ji;v.40 5.40 5.30',
+  '178': 'ji;1p.50',
+  '179': 'ji;1z.50 4.40',
+  '180': 'j5;0.60 4.30 6.20',
+  '181': 'i8;0.50 5.50',
+  '182': 'jr;0.70 3.60 3.50 4.50',
+  '183': 'is;0.60 4.50 4.60 3.50 4.50 4.60',
+  '184': 'ir;0.50 5.40',
+  '185': 'ij;0.50 5.30 6.30 6.50',
+  '186': 'ik;0.50 5.40',
+  '187': 'ip;0.40 6.20 7.40 5.40 5.40',
+  '188': 'jq;1.30 6.30',
+  '189': 'j2;0.30 7.30 6.50',
+  '190':
+    'jh,i6+jn,i6,jn,jo,jp;0.40 6.40 5.20 7.30 1t.01 14.32 6.42 5.52 4.32 6.13 h.54 5.34 6.24 ' +
+    'r4.45 6.35 6.35 6.35',
+  '191': 'ix;0.30 7.50 4.30 6.30 6.20 7.40 5.40',
+  '192': 'id;0.50 5.50 4.40 5.30 6.50 4.50 4.50 4.40 5.40 1t.50 5e.40 5.30 6.40 em.20 1.10 3.80',
+  '193': 'id;m9.30 6.50 4.50 4.50 4.50 2c.40 5.30',
+  '194': 'jc;0.50 5.40 5.20 7.80 1.50 4a.30 6.40',
+  '195': 'jc;13.00 b.60 3.30 6.50',
+  '196': 'iy;0.40 6.40 5.40 5.40',
+  '197': 'jf,i6;0.50 5.30 6.30 lk.31 6.51 4.71 2.31',
+  '198': 'jm+jv,jv,jm;0.00 0.41 5.41 5.41 5.11 3.01 4.31 1.01 4.21 7.31 g.81 b.62 1r.41 z.22 7.42',
+  '201': 'jb;0.50 5.50',
+  '202': 'jq;0.60 4.40 5.20',
+  '203': 'j0;0.40 6.30 6.20 7.30 6.30 6.30',
+  '204': 'j8;0.40 6.20 7.30',
+  '205': 'jj;0.30 7.60 3.30',
+  '206': 'im+jg,im,jg;0.00 0.31 6.41 5.41 5.51 4.11 l2.32 6.12 8.32',
+  '207': 'j1;0.50 5.50 4.20 7.20',
+  '208': 'j4;0.40 6.20 7.20 7.40',
+  '210': 'k8;0.70 3.40 5.50 li.70 2.70 2.70 2.70 2.70 2.70 2.80',
+  '211': 'k5;0.70 3.50 4.40 5.60 3.40 5.20 7.70',
+  '212': 'k9;0.70 3.50 4.60 3.20 h.70',
+  '213': 'ka;0.60 4.40 5.50 1.10 1.40',
+  '214': 'k6;0.80 2.30 6.20 7.80',
+  '215': 'kb;0.70 3.70 2.60 3.50',
+  '216': 'k7;0.00 1.50 3.40 5.50 4.40 5.30',
+  '220':
+    'kt;0.60 4.20 7.30 6.40 5.50 4.40 5.20 7.30 4km.y0 1i.00 a.r0 1p.00 a.k0 1w.00 1ea.1x0 ' +
+    'j.00',
+  '221': 'kr;0.50 5.40 5.30 6.50 4.50 4.60 3.40 5.60 k3.30 6.30 6.40 5.40 5.30 6.50 5.40',
+  '222': 'kn;0.40 6.20 7.50 5.50',
+  '223': 'kn;1f.80 1.50',
+  '224': 'ku;0.10 1.10 1.20 2.50 4.00 1.60 1.60 3.50 4.60 3.50',
+  '225': 'kw;1.40 5.50 4.50',
+  '226': 'ks;0.60 5.70 1.80',
+  '227': 'kw;0.00 u.70 2.70 2.40 5.60',
+  '230': 'kx;0.40 6.70 2.60 3.70 2.70 2.40 5.20 7.70',
+  '231': 'kg;0.70 3.60 3.70 2.70 2.70 2.70 2.50 ke.50 4.50 4.60 3.80 1.80 1.80 1.70',
+  '232': 'ki;0.80 2.70 2.60 3.60 3.40 5.60 3.60 3.50',
+  '233': 'ko;0.80 2.50',
+  '234': 'ko;1f.50',
+  '235': 'kq;0.80 2.80 1.30 6.50 4.40',
+  '236': 'kv;0.70 3.60 3.70 2.70 2.50 4.70',
+  '237': 'ky;1p.70 2.80',
+  '238': 'ky,jw;0.80 2.80 1.50 4.50 4.70 2.50 18.41 5.41 2c.01 k.41 5.61 3.51 1s.60',
+  '239': 'ky;m9.70 2.40 4.90 1.60 3.60',
+  '240': 'kh,jx,ky;0.70 3.60 3.50 4.50 4.50 4.30 6.60 w.01 0.72 2.51',
+  '241': 'kk;0.50 5.40 5.40 5.30 la.50 4.60 3.50 4.50',
+  '242': 'k3;0.80 2.70 2.80',
+  '243':
+    'k2,kf,ke,kz;0.70 3.70 2.70 2.80 1.00 1m.01 a.11 8.50 22.70 2.70 29.82 2j.63 3.93 1.63 ' +
+    '3.73 a2.60 3.60',
+  '244': 'kj,kl;0.40 m4.50 4.60 n.41',
+  '245': 'km,kj;0.90 1.70 2.30 q.21 7.61',
+  '246': 'kp;0.80 2.40 5.20 1.10 4.10 1.40',
+  '247': 'kl,lg;0.90 1.40 5.70 2.40 f.51 4.51 4.41',
+  '248': 'lg;0.70 3.60 3.60 3.50',
+  '249': 'lf;0.80',
+  '250':
+    'k4,k1,le;0.50 5.30 6.40 5.40 5.50 4.50 17.71 3.61 3.61 3.51 1s.70 2.70 2k.42 2d.72 ' +
+    '2j.02 k.22 2z.02 63.70 2.50 4.70',
+  '251': 'l6;0.50 5.60 3.70 2.70 2.60 3.60 mb.10 8.60',
+  '252':
+    'kd,l2,l0,l1,l6,l4;0.50 5.50 4.20 1.40 1y.61 4.61 6.01 6.11 1.31 3.31 1.01 4.81 1.11 ' +
+    '8.51 4.71 b.32 1.32 2.62 3.82 1.82 1.52 4.02 1.12 19.73 3.73 2.83 1.53 7.03 co.64 3.54 ' +
+    '4.54 7l.85 2.55 4.65 3.65',
+  '253': 'l5,lh;0.80 2.70 2.70 2.60 3.40 5.50 4.40 5.30 6.70 b.61 4.31',
+  '254': 'kc;0.50 5.50 1.10 1.60 3.50 4.60 3.40 5.40 5.60 3.70 js.60 3.40 5.50 22.50 4.40',
+  '255': 'jz;0.50',
+  '256': 'k4;m9.70 2.60',
+  '257': 'l3,kf;0.70 3.70 2.70 2.60 3.70 2.60 3.01',
+  '258': 'l8+la+lb,la,l8,lb,l9;0.00 0.31 5.92 1.83 1y.04 a.44 5.54 22.34',
+  '259':
+    'jy+l7,jz,jy,l7,ld,lc,k0,kc,l3;2s.00 0.41 5.31 6.42 5.32 6.73 2.63 16.24 2p.55 5.35 1.25 ' +
+    'lp.76 3.76 2.76 2.76 2.76 1g.67 3.97 28.68 3.68 3.58 4.48',
+  '260': 'gp;0.70 3.70 2.70 2.30 6.10 1.10 kz.70 2.50 4.50 4.40 5.30 6.60',
+  '261': 'gs;0.50 5.30 6.50 5gi.y0 1i.00',
+  '262': 'gt;0.70 3.80 1.50 4.20 7.70',
+  '263': 'gq;0.50 5.50 4.40 5.40 5.30 6.30',
+  '264': 'gu;0.70 3.60 2.10 1.60 1.60',
+  '265': 'gu;15.50 4.20 7.60 3.60',
+  '266': 'gr;0.70 3.00 2.20 4.50 4.30',
+  '267': 'gr;1f.60 3.60',
+  '270':
+    'hi,hk,hr,he,gy,hm,hj,ho,gw;0.70 3.70 2.70 2.50 1r.31 1.31 2.81 1.71 2.81 1.51 4.61 3.31 ' +
+    '6.51 o.52 4.62 3.82 1.82 nw.83 2.83 1.73 2.73 2.63 3.73 2.73 2.73 3d.04 c.04 1.14 1.04 ' +
+    '2.74 2.124 u.85 2.55 4.55 4.85 1.66 3.66 3.56 4.07 s.68 4.68 3.68 3.58 4.58 1i.84 1.74 ' +
+    'g6.40 5.70 2.40 5.10 8.20 7.40 5.60 x.74 2.84 1.84 1.04',
+  '271': 'hi;15.70 2.30 6.70 2.60 3.70 2.60',
+  '272': 'hc;0.40 6.40 5.50 4.40 1t.60 3.40 5.60 3.70 2.50 i6.40 5.50 4.60 3.60',
+  '273': 'ho,ht;0.50 5.70 2.70 2.80 1.70 1f.71 3.81 1.71 2.61 jt.40 5.60',
+  '274': 'ho;1f.50 3.90 1.60 3.10 jy.60 3.70 2.50',
+  '275': 'hn;0.60 4.60 3.70',
+  '276': 'gl;0.80 2.60 2.90 1.60 2.90',
+  '277':
+    'hj;0.80 2.60 3.70 2.30 6.40 5.40 5.50 4.40 5.70 js.50 4.30 6.60 3.60 3.50 4.70 2.20 ' +
+    '7.30 6.50 e.20 7.20 7.30 6.10 8.40',
+  '278': 'hr;0.70 3.60 3.80 1.70 2.70 2.60',
+  '279': 'hl;0.40 6.30 6.50 4.10 8.20',
+  '282': 'hd,i2,ha;1.60 1.30 8.00 5.00 3.01 0.32',
+  '283': 'hh,h8;0.60 4.50 4.70 2.70 2.70 2.60 3.70 v.71 3.61 iz.40 5.50 4.50 4.40',
+  '284': 'h0;0.90 1.50 4.60 3.70 2.40',
+  '285':
+    'gk,gx;0.90 1.60 3.50 4.80 1.50 4.60 3.50 4.70 k2.70 2.80 1.40 5.60 3.50 3.90 1.60 w.71 ' +
+    '3.31 6.71',
+  '286':
+    'hd,h6;0.70 3.70 2.80 1.60 3.70 1g.70 2.70 2.60 3.60 1q.51 5.51 4.41 fz.70 2.80 1.60 ' +
+    '3.60 3.50',
+  '287':
+    'i1,hd;0.60 4.70 2.60 3.70 2.70 2.50 4.60 x.60 2l.51 4.61 3.11 1.11 1.01 4.51 3.31 fg.50 ' +
+    '4.50 4.50',
+  '288': 'hs;0.70 3.50 4.60 3.70 2.70 2.50 4.70 2.60 k3.40 5.60 3.40 5.60 3.50 4.70 2.70 2.60',
+  '289':
+    'i4,hd,i1,hf,i3,gm,h7,ha,h9,go,i2;2s.00 0.81 1.61 3.51 22.40 5.60 3.50 22.72 2.32 6.82 ' +
+    '1.72 2.82 1f.72 2.32 6.52 22.63 3.73 29.24 8.84 1.64 3.64 cu.85 2.55 4.55 4.75 2.45 ' +
+    '1j.56 4.76 2.56 21.66 4.76 2.76 2.46 5.46 4b.66 3.66 3.66 3.66 1q.87 2.87 1.57 21.88 ' +
+    '2.68 3.68 3.88 1.88 1.68 17.56 85.89 2.49 5.49 5.59 4.89 1.69 3.89 1.89 k.0a u.5a 4.6a ' +
+    '3.6a 17.5a 4.6a 3.4a 4u.53 5.53 4.43 5.43 1t.63 3.53 2c.73 2.43 cx.59',
+  '290':
+    'hb;0.80 2.50 4.50 4.70 2.60 2.90 1.80 1.40 5.10 1m.20 7.60 3.70 1.90 l.80 1.60 3.80 ' +
+    '1.50 4.30 6.80 1.80 6f.80 1.70 2.80 1.80 1.80 1.80',
+  '292':
+    'hg,gz;0.90 1.50 4.60 3.70 2.40 5.60 3.60 3.00 3l.60 3.60 53.31 6.51 4.21 7.41 5.41 5.41 ' +
+    '19.21 7.51 4.61 3.61 7b.70 2.80 1.60 3.80 8c.91 1.71 2.71 2.81',
+  '293': 'h5;0.60 4.20 7.30 6.50 4.50 4.70',
+  '294': 'i0,gv;0.90 1.70 2.80 1.70 2.70 2.70 4i.50 4.40 1t.70 2.50 dg.51 4.61 3.51',
+  '295': 'gv;1.50 4.30 6.60 21.30',
+  '296': 'i5;0.40 6.50 4.40 5.40 5.40 1j.50 4.40 5.50 2w.60',
+  '297':
+    'hp,hx,hy;0.90 1.80 1.80 1.80 1.40 5.70 2.60 3.80 k.51 5.41 5.41 5.71 2.41 5.41 18.72 ' +
+    '3.72 2.52 4.42',
+  '298': 'gj,h2;0.60 4.70 2.80 1z.50 4.60 3.50 4.40 1s.71 3.61 3.71 2.71 2.51 4.51 4.61 3.81',
+  '299':
+    'hb,hq,hg,gz,h5,h4,gv,i5,h1,hp,hv,hu+hz,hu,hz,hw,gj,h3,gn;2t.i0 1.70 1z.51 5.61 3.51 ' +
+    '4.61 3.61 3.61 3.81 1.02 n0.83 2.63 3.63 3.73 2.63 3.33 6.53 4.53 bs.84 1.74 2.14 30.64 ' +
+    '3.64 3.84 2t.04 13.85 5a.05 a.75 2a.56 4.56 4.56 4t.46 6.76 2a.76 2.66 3.56 4u.46 5.56 ' +
+    '4.76 34.67 3.77 2.67 98.38 7.88 1.28 7.78 2.88 1.58 4.78 n4.59 4.79 2.89 1y.6a 4.7a ' +
+    '29.0b 0.5c 4.5c 4.7d 2.7d 2.6d 1g.6e 4.4e 5.4e 23.7f 2u.5f 4.4f d6.7g 3.3g 2d.6h 4.8h ' +
+    '1.7h 2.4h 5.5h 4.5h 4.6h 3.3h 6a.57',
+  '300':
+    'bx,bn,cj,ci,cg,cb,bp,ch,bv,bt,bo,c1,cn,c8,cl;0.90 1.50 4.70 2.70 2.80 1.50 4.80 1f.61 ' +
+    '3.51 1s.41 5.31 2d.62 4.42 5.52 4.62 3.02 1m.s3 2.63 1q.94 1.44 5.84 1z.64 3.64 3.54 ' +
+    '4.74 2.24 25.64 3.64 3.84 1f.40 4.90 1.50 4.80 1.90 k.60 7l.82 1.02 12.75 3.65 3.45 ' +
+    '5.65 2.96 1.i6 1.76 2.75 b.07 a.57 4.67 3.67 1r.57 4.64 3.64 21.78 2.58 4.48 5.88 1.58 ' +
+    '1h.69 4.59 4.59 4.59 if.8a 2.4a 5.6a 3.6a 3.7a 2.8a 15.7a 2.6a 3.5a 4.5a 4.5a 4.5a ' +
+    '18.7b 2.2b 7.5b 2c.66 3.36 6.86 1.76 2.86 1.86 v.6b 3.6b 3.6b 3.5b 4.7b dy.66 3.66 ' +
+    '6g.6c 4.8c 1.6c 3.8c 1.4c 5.5c 4.4c 5.1c eo.70 2.70 2a.46 5.76 2.36 6.56 4.86 1.06 ' +
+    '2r.36 1a.7d 2.6d 3.8d 1z.6e 3.6e 3.4e 5.7e 2.5e',
+  '301': 'cu,cg;0.70 3.70 2.50 4.40 5.70 kw.50 4.60 3.50 4.80 1.60 3.60 17.11',
+  '302': 'bv,bz;0.70 3.60 3.60 3.80 1o.c1 2.41 1.71 2.11',
+  '303': 'c1;0.60 4.70 2.50 4.30 6.50',
+  '304': 'br;0.70 3.70 2.70 2.40 5.g0 3.80 1.50 k4.50 4.80 1.30',
+  '305':
+    'bp;0.80 2.80 1.80 1.50 4.60 3.50 4.70 2.60 k3.40 5.70 2.30 6.50 4.60 3.60 3.70 2.60 ' +
+    '3.30 g.20',
+  '306':
+    'bw,cc,cd,by;0.70 3.50 4.50 4.70 2.60 3.50 18.00 1.d0 4.70 20.50 4.50 4.50 4.50 1r.81 ' +
+    '2.61 2a.82 2.62 3.62 3.42 1t.43 5.43 2c.83 2.63 3.53 4.63 3.43 5.73',
+  '307': 'cm;0.80 2.70 2.80 1.70 2.50 4.40',
+  '308':
+    'cl;0.80 2.60 3.00 9.00 9.10 8.50 4.60 3.60 n.70 2.60 3.80 in.60 3.50 4.60 3.70 2.70 ' +
+    '2.60 3.60',
+  '309':
+    'cl,c8,ck;ul.70 2.60 3.60 20.51 5.61 3.61 3.31 6.51 2c.61 3.61 2v.71 2.51 3p.72 3.52 ' +
+    '4.52 4.62 1r.52 4.62 3.52 4.72',
+  '310': 'c9;0.50 5.40 5.50 4.50 4.50 4.50 4.70 kc.40 5.70 2.60 3.50 4.60 3.20 1b.40 5.30',
+  '311':
+    'cp,c3,c4,c9,bq,c6,cr,co,ct,ca,c7,c0,c5,dd,c2;2s.i0 2.50 4.50 4k.01 9.31 6.41 23.32 ' +
+    '2o.81 gp.43 5.43 5.53 1s.64 3.74 2.84 1.74 2.74 2.44 5.74 v.75 3.25 2f.56 4.56 4.66 ' +
+    '20.66 4.76 2.76 2.66 4j.47 5.57 4.37 ag.46 5.76 2a.68 3.48 5.38 4v.a9 1.09 2.49 1.59 ' +
+    '4.69 2.99 i2.8a 2.6a 3.4a 5.7a 2.6a 3.6a 6r.5b 4.6b 3.5b 4.6b 1r.77 2.77 7t.77 3.67 ' +
+    '3.67 3.57 8g.53 4.43 5.43 z.73 2j.6c 4.6c 3.4c 5.4c 5.3c 1k.6c 3.0d 2h.2e 2z.7e',
+  '312': 'bq;0.70 3.70 2.60 3.50 4.70 2.70 2.20',
+  '313': 'c3;0.80 2.50 4.60 3.70 2.80 1.50 4.30 10.50 4.60 3.50 4.40 23.40 5.40 3h.20',
+  '314': 'ct,cf;0.70 3.70 2.70 1.90 1.70 2.11 1b.31 7.51 4.71 2.41 5.71 2v.61 2a.61 1n.11',
+  '315': 'bn+ce,ce,bn;0.00 0.i1 1.h1 2.71 2.72 2.82 1.72 m.41 5.71 2.41 5.71 2.71 2.61 3.61',
+  '316': 'c4;1.60 3.40 5.50 4.50',
+  '317': 'c4;0.00 1e.50 4.50 4.60',
+  '318': 'cs;0.50 5.30 6.40 5.30 1u.50',
+  '319':
+    'c0,ck,c9,cq,c4,bu,cp,c2,bs;2s.80 2.50 4.50 4.60 1r.81 1.01 2h.62 3.62 3.42 li.93 1.83 ' +
+    '2t.44 5.44 1t.74 2u.74 29.05 u.75 2.65 3.85 3x.35 6.45 5.65 ae.56 n.57 4.47 1i.57 5.37 ' +
+    '6.67 n.57 4.57 3q.47 5.77 2k.27 2f.27 dt.67 3.67 6r.58 3p.08 a.48 5.58 4.78 2.38 6.58 ' +
+    '40.48',
+  '320': 'd3;1.40 5.60 3.60 3.70 2.80 1.70 2.50 4.40 k5.70 2.70 2.70 2.70 2.70 2.60 3.60',
+  '321':
+    'd3,cw,dg,d5,dj,d0,dc,da,dd,db,d8;0.00 2s.70 2.70 2.60 3.80 1.60 3.70 2.80 u.71 3.81 ' +
+    '1.71 2.71 2u.60 1h.60 3.60 2b.42 5.62 3.72 2.42 1s.52 5.72 2.82 1.52 7c.50 4.70 2.40 ' +
+    '5.40 5.40 5.30 6.80 1.60 3.40 37.73 2.04 2g.03 1o.53 4.63 21.53 18.63 3.43 5.53 4.53 ' +
+    '4.83 1f.73 2.43 5.33 3s.13 c6.40 5.70 5w.53 4.43 5.53 18.43 5.33 6.63 21.05 j.53 22.33 ' +
+    '6.53 2m.73 2a.53 bi.50 4.60 1q.76 3.56 4.46 22.67 4.47 5.57 21.08 u.58 4.68 3.68 3.58 ' +
+    '1i.78 20.68 ax.69 2k.09 a.79 2.69 20.9a 1.5a 4.5a 4.7a 2.6a 3.6a 3.8a v.5a 4.5a 2c.7a ' +
+    '2.6a 3.2a 7.8a 1.6a 3.0a',
+  '322':
+    'dj,d6;0.90 1.70 2.80 1.80 1.80 1.70 2.80 1.80 l.20 43.50 18.60 x.50 22.20 2p.70 2.50 ' +
+    '1s.51',
+  '323': 'd4,cy,d6;0.90 1.60 3.80 1.30 6.50 4.70 2.80 v.61 3.51 y.70 hu.70 2.i0 1.00 7h.72',
+  '324':
+    'd2,dh;0.60 4.70 2.70 2.70 2.60 3.70 2.50 3q.70 2.40 5.30 6.50 4.50 4a.40 5.40 2d.51 ' +
+    '4.51 2b.81 2.71',
+  '325': 'df,di;0.00 0.21 7.60 3.60 3.80 1.70 2.70 2.60 3.50 o.70 2.70 52.31',
+  '326': 'de;0.70 3.50 4.60 3.60 3.70 2.70 2.70 w.20 11.30 4w.70 2.70 cu.70 2.60 3.50 4.60 3.50',
+  '327':
+    'cz;0.70 3.60 3.70 2.40 5.50 1i.30 3i.00 1x.60 3.70 2.40 4v.40 1.20 1.60 5.20 7n.60 3.70 ' +
+    '2.60 3.60 3.60',
+  '328': 'd6,dj,cz;0.70 3.60 3.60 3.60 3.40 5.30 6.70 2.40 p.60 3.30 6.40 5.40 1t.50 4.11 8.02',
+  '329':
+    'cx,d4,d6,cy,d7,d3,d1,cv,d9,d0,df,di,de;2s.50 5.40 2d.61 3.61 3.81 29.82 28.33 7.43 1.13 ' +
+    '2.43 5.33 1u.63 3.83 1.94 1x.84 2.74 de.75 2.65 2a.76 3.66 3.56 4.46 1s.67 4.57 4.67 ' +
+    '3.37 1u.57 4.67 49.88 eg.08 k.38 6.58 4.48 5.58 4.48 y.09 a.59 4.59 2w.89 2t.19 1m.58 ' +
+    '4.38 56.6a 3.2a 7.7a 2.4a 5.7a 2.5a 4.3a 10.6a 3.5a 2w.3a 5g.6a 3.5a 4.6a 3.6a 16.0b ' +
+    'a.4b 5.4b 5p.6b 3.6b l7.6c 2b.82 1.52 2c.62 3.42 5.42',
+  '330': 'ej+ep,ep,ej,em;0.00 14.51 4.51 4.41 5.41 5.02 jy.53 s.23 4.53 4.53 3yw.y2 1i.02',
+  '331': 'er,ek;0.00 18.40 2.h0 1.70 k1.51 5.41 5.41',
+  '332': 'fg;0.70 3.60 3.80 1.40',
+  '333': 'fg;m9.70 2.60 3.50 4.50 4.80 1.60 3.80',
+  '334': 'fg;1.40 5.40 z.80 1.70 2.50',
+  '335': 'fk+gd,gd,fk;0.00 0.41 5.52 4.62 3.72',
+  '336': 'el,eq;0.00 e.30 2.60 3.50 1.00 2.20 ns.01 2.01 1.21 3.71 3.41 4.11 1.01 1.01 o.61 3.61',
+  '337': 'es;0.80 2.60 3.60 3.50 4.40 5.30',
+  '338': 'ej,eo;1.60 3.30 lt.01 a.61 3.51 4.61',
+  '339': 'en;0.90 1.70 2.70 2.60 3.60 3.70 2.80 1.70 2.10',
+  '340':
+    'gb,fi,ew,f4;0.70 3.60 3.70 2.50 4.70 2.50 17.51 5.51 4.51 4.51 4.51 4.51 4.31 10.52 ' +
+    '4.72 g5.83 2.53 4.53 4.43',
+  '341': 'eu;0.90 1.70 2.70 2.70 2.50 3.90',
+  '342': 'fb;0.80 2.60 3.60 3.70 2.60 2.90 1.00',
+  '343': 'gf,f8;0.80 2.40 5.60 3.60 3.60 1g.71 3.61 iz.70 2.70 2.70 2.70 2.50 4.60',
+  '344': 'fo;0.70 3.50 4.50 4.70 2.70 2.80 1.60 x.60 3.60 3.60 3.50',
+  '345': 'f7+fa,f7,fa;0.00 0.41 5.41 5.41 5.61 3.61 kx.32 6.62 3.62 3.62',
+  '346': 'ew;0.70 3.50 4.80 1.70 1q.50 4.40',
+  '347': 'f5;0.j0 1.70 2.30 6.60 3.70 2.70 w.70 2.60 3.50',
+  '348': 'ga;0.60 4.60 3.70 2.80 1.70 2.70 2.40 5.00',
+  '349':
+    'gc,g3,ew,f5,d6;2s.50 5.40 5.70 2.60 3.40 1i.51 5.81 1.51 oa.52 4.62 3.72 2.43 5.73 2.73 ' +
+    '16.43 5.53 4.04',
+  '350':
+    'fh,fx,fd,fz,f2+f3,f3,f2,fn,g2,gi;1.30 6.70 2.60 3.50 4.50 4.60 3.60 w.71 3.61 3.71 2.71 ' +
+    '2.61 3.71 2.71 v.92 1.82 1.82 1.82 1.72 2.82 1.82 1.72 l.73 3.33 6.33 23.04 0.65 3.65 ' +
+    '3.45 5.86 1.56 4.56 4.66 99.80 1.60 3.60 3.70 2.70 2.60 6q.j0 1.50 1.10 1.70 2.60 2.t0 ' +
+    'k.67 4.47 5.67 3.67 3.87 1.47 1.07 16.88 2.68 1.98 2.58 nz.69 4.89 1.69',
+  '351': 'fp,fc;0.70 3.50 4.40 5.50 1r.61 4.51',
+  '352': 'fm;0.60 4.60 3.40 5.40',
+  '353': 'fj;0.80',
+  '354': 'f1+ff,ff,f1;0.00 0.71 2.71 2.51 4.51 4.52',
+  '355':
+    'fr,fu,fw,ft+fv+g6,fv,ft,g6,fy;0.j0 1.70 2.60 3.70 2.40 5.60 3.60 m.61 3.91 1.61 3.61 ' +
+    'd.61 3.61 w.62 4.52 4.62 20.03 0.54 4.74 2.74 2.64 3.35 6.85 1.05 1.35 4.66 bq.87 2.47',
+  '356': 'et;0.80 2.r0 2.40 4.90',
+  '357': 'gg;0.60 4.50 4.40 5.70 2.80 1.50 4.80 15.10 8.70 20.50 4.70',
+  '358': 'f0;0.80 2.60 3.60 3.50 4.70 2.40',
+  '359': 'fl;0.70 3.50 4.60 3.70 2.60 t9.50 4.70 2.70 2.20 7.70 2.50 4.60',
+  '360':
+    'g1;0.60 4.70 2.60 3.60 3.60 1h.60 3.60 3.40 5.50 o.30 10.30 6.70 2.40 5.70 2.40 ff.50 ' +
+    '4.60 3.50 4.60 3.60 3.60',
+  '361': 'ge;0.70 3.60 3.50 4.70 2.60 3.60 3.60 3.70 2.30',
+  '362': 'ev,f9;0.80 2.60 3.50 4.60 3.70 2.80 1.60 3.50 4.30 jv.91 1.21',
+  '363': 'fs;0.90 1.70 1.90',
+  '364': 'f6;0.70 3.30 6.70 2.40',
+  '365': 'gh;0.50 5.30 6.70 2.80 1.60 3.80 1.70 2.70',
+  '366': 'g0;0.j0 1.80 1.40 5.10 8.30 6.10 ki.10 7.90 1.80 1.80',
+  '367':
+    'fq,ez,ey;0.70 3.70 2.60 2.90 1.70 2.50 4.30 6.40 o.81 2.81 28.02 0.60 3.70 2.50 4.72 ' +
+    '2.72 2.30 1a.02 9.22',
+  '368': 'g4+g7,g4,g7,g5;0.00 0.41 5.51 4.51 4.41 5.51 4.51 4.61 3.12 r.53 5.43 2d.13',
+  '369':
+    'g1,gh,g0,ex,fe,g9,g8,g4;2t.70 2.51 4.31 6.61 1r.22 7.62 3.42 22.83 2.73 lq.82 1.02 ' +
+    '2g.54 5.64 3.44 5.54 4.72 1f.55 5.25 2e.06 a.26 2f.47 2n.06 j.56 4u.37 1u.37 q.27 7.17',
+  '370':
+    'ei,dl,e2,ec+ed,ec,ed,eg,ee,dm,eb,e1,g4,e0+e1,e0,ea,e4,e8,e9,dw,dt,dr,ds;0.80 2.70 2.60 ' +
+    '3.50 4.70 2.80 1.80 1.70 2.70 c.41 5.61 3.71 2.41 4l.52 4.32 6.02 9.32 6.62 3.52 18.52 ' +
+    '4.72 2.62 20.03 0.64 3.75 2.45 5.55 1r.66 4.56 2b.87 2.77 2.64 21.60 3.80 1.80 1.80 ' +
+    '1.80 1.60 3.70 2.40 5.50 5x.58 5.68 3.78 2.48 1t.70 2.30 2e.00 2r.59 2m.5a 0.0b 3.4a ' +
+    '2c.0c 0.3a 6.6d df.60 3.50 4.70 2.80 1o.6e 4.6e 2a.7f 3.6f 3.3f 6.4f 5.4f 1t.2f 11.5f ' +
+    '4.6f 3o.6g 4.5g 4.6g 4s.6h 4.5h 7w.60 3.60 5d.0i 9.1i 8.70 2.70 1g.40 2m.5j 5.80 1.40 ' +
+    '5.30 10.3k p.8l',
+  '371':
+    'dr;0.70 3.70 2.60 3.60 3.70 2.60 17.60 3.60 3.40 5.30 1u.60 3.70 2.30 6.40 5.60 fd.40 ' +
+    '5.60 3.50 4.60 3.60 3.70',
+  '372': 'dl;0.70 3.50 4.50 4.30 1.30 1.70 2.70 km.30 6.70 2.60 3.30 6.30 6.40',
+  '373': 'e2;0.40 1.20 2.50 1.10 1.80 1.70 2.40 5.60 3.20 7.40 k5.80 1.80 1.80 1.20 7.60 3.20 7.10',
+  '374': 'eh,ef;0.90 1.80 1.80 1.80 1.60 3.60 3.80 1.80 k.71 3.21 7.21 7.41',
+  '375': 'eb;0.60 4.60 3.30 6.60 3.60 3.60',
+  '376': 'e5,dk;0.70 3.30 6.60 3.70 2.50 4.50 17.41 6.51 4.40 5.60 3.40 4b.71 84.00',
+  '377':
+    'e7,dw,du,dz,dy,dv,dx;0.00 1.60 f.30 3.00 j.40 5.40 z.20 2p.50 2m.41 5.10 2f.02 a.62 ' +
+    '3.42 5.32 2y.32 1k.02 2q.23 2p.71 3.51 36.41 a4.a4 0.12 2g.45 5.14 2f.05 b.05 8.75 ' +
+    '2a.65 2a.06 0.32 6.16',
+  '378':
+    'e6,do,dq;0.50 5.70 2.50 4.40 5.70 2.50 4.70 2.70 l.51 5.41 5.60 4t.60 3.60 3.50 21.92 ' +
+    '1.42',
+  '379':
+    'e3,e4,e7,dp,dn,dr,dl,e2,dk;2s.90 1.50 4.80 1.50 1s.81 1.60 3.50 22.60 m1.42 5.52 4.62 ' +
+    '20.73 2k.84 2.44 2d.34 4.04 1.74 52.04 9.84 2t.74 ac.75 2.65 3.25 7.55 4.65 3.35 6.55 ' +
+    'y.56 4.66 3.16 1.16 5.56 1s.57 4.38',
+  '380': 'qp;m9.60 3.50 4.50 4.70 2.60 3.70 2.60 3.60 3.70 c.60 3.70 2.10 4.10 5.20 4.70 3.60 2.00',
+  '381':
+    'qp,oz,pf,ow;0.80 2.60 3.50 4.70 2.40 5.60 3.50 4.50 4.80 b.30 2n.91 1.11 57.52 md.40 ' +
+    '5.50 4.40 qt.60 3.60 3.60 3.40 5.60 2l.60 3.80 15.60 3.50 4.30 7o.40 cn.50 y.40 2m.43 ' +
+    'm4.30 5g.20',
+  '382':
+    'qq,p0;0.60 4.60 3.70 2.30 1.10 3.70 2.60 3.50 4.60 3.60 3.10 1.00 2.20 jg.61 4.01 1.41 ' +
+    '3.61 3.61',
+  '383': 'pi;0.80 2.40 5.40 5.60 3.50 4.60 3.50',
+  '384':
+    'q5,dv,pk,pt,px,pu,pw,pv,py,pm;0.80 2.70 2.70 2.70 2.70 2.50 4.40 5.10 1.40 2.40 5.50 ' +
+    '0.01 5n.62 2v.32 2e.23 2o.03 a.33 6.12 26.33 2o.80 82.54 2n.05 9.06 2g.67 2l.88 j8.62 ' +
+    '2l.52 4.09 2g.99',
+  '385': 'pk;0.70 1.00 1.50 4.80 1.40 5.60 3.50 4.20',
+  '386':
+    'oy,q3,q4,qq;0.60 4.70 3.50 3.30 6.20 2z.20 1.10 4k.20 25.70 2.20 2f.70 2j.31 2p.01 ' +
+    'b3.70 2u.30 2y.60 2v.60 2v.50 1h.72 gh.30 6.03',
+  '387': 'ps;0.70 3.70 2.30',
+  '388': 'qp;669.70 2.90',
+  '389':
+    'pn,e3,pl,qd,pz,ps,qp,ox,ov,pi,qr,lv,pg,ph,pe;2s.40 6.40 5.01 26.82 5c.63 2k.63 4.83 ' +
+    '28.64 5e.65 3.25 7.35 7o.66 2k.67 4.47 5.67 20.68 4.58 ls.39 2n.0a u.4a 5.3a 6.7a 2.0b ' +
+    '12.3c h.1a 1c.09 13.7a 29.3d 2p.1a 8.3d 2d.3e',
+  '390':
+    'qj,qf,qe;65.10 26.50 4.60 df.60 3.60 3.70 2.60 3.70 2.10 8.60 3.60 66.41 q.10 30.20 ' +
+    '1l.02 2r.00 2r.30 1.10 3.50 3.00 2i.00 2h.20',
+  '391': 'qk,qo,qn,pm;0.50 5.20 7.01 26.92 1.52 2m.50 2c.00 j.03',
+  '392': 'ql;0.h0 3.60 2v.00',
+  '393': 'qm;0.80 2.80 1.50 4.40 5.60 3.60 3.70 2.70 2.60 3.20',
+  '394': 'q6;0.50 5.00 9.80 1.40 5.70 2.50 o.80 1.00',
+  '395':
+    'qs,pc,p6,p8,p2;0.40 6.70 2.80 1.60 3.50 1.00 2.50 4.70 2.60 3.50 1s.60 2b.40 1i.51 ' +
+    '2n.01 2r.01 2r.02 2r.03 2r.70 2.60 3.50 7l.84',
+  '396': 'pj;0.f0 5.c0 25.30 2o.60 2b.40 2n.60 5x.00',
+  '397': 'qa,qc;0.30 2p.00 2r.01 2r.10',
+  '398': 'q1;0.40',
+  '399':
+    'qj,q0,qo,ot,p5,qs,pb,p3,p9,p1,pd,pa,p7,p4,ou,op,qt,or,pj,oq,os,q8,q9,q7,qa,qb,q2,qg,q1,qh,qi,pp,pq,pr,po;0.20 ' +
+    '1.30 3.10 1.10 5.60 5.60 v.01 t.12 2p.02 a.32 55.03 k.73 2a.13 2g.03 1d.01 1c.61 4.51 ' +
+    '4.71 2.71 2.51 cl.34 h.05 2h.25 2f.05 1.05 2o.56 2n.07 9.16 58.08 8a.29 3a.25 5r.35 ' +
+    '3i.55 y.65 3.15 dj.7a 2k.2b 2p.4c 6.0b 58.2d 5h.5e 2m.4f 87.8g 2.6g 35.1g 1w.0h j.0g ' +
+    '31.1i 1w.0i 9.0j 2g.5k ja.3l 5g.4m 2n.9n dn.0o 2q.3p 2p.21 4d.11 hq.4q 2m.2r 2q.1s 8.0r ' +
+    '2h.40 5.70 29.4t 2o.0t 2q.2u 8.0t at.2q 2o.5q 5.1q 12.00 1d.4q 5f.0v 2q.5w dr.0s 31.0x ' +
+    '2g.1x 2q.0y k.1y 2g.0y 2h.0y',
+  '400':
+    'oj,ok,o4,o6,nz;0.80 2.60 3.70 2.40 5.80 1.70 2.80 1.40 5.20 g.81 2.71 2.71 20.52 4.42 ' +
+    '5.52 4.32 6.12 1m.52 1.02 2.82 b.62 1q.52 5.62 3.52 21.63 4.43 2d.73 5c.70 2.40 5.70 ' +
+    '2.50 4.40 5.70 2.60 6r.61 3.61 3.01 27.80 7t.70 2.44',
+  '401': 'of,ny,o9,oe,oa+ob,oa,ob;0.60 4.50 4.40 4v.01 2q.52 4.02 9.03 a.72 4h.04 0.15 8.16',
+  '402': 'on,od;0.60 4.40 5.40 5.40 5.50 4.50 3z.91 1.81 1.71',
+  '403': 'oc+og,og,oc;0.00 0.81 1.81 1.22 7.11',
+  '404': 'oi,oh;0.00 0.61 3.51 4.50 4.60 3.60 3.50 40.51 4.00',
+  '405': 'oh,ol;0.70 3.70 2.40 5.50 4.70 2.81 1.81 1.81',
+  '406': 'ol;0.50 5.40 5.70 2.50 4.50 ky.70 2.70 2.40 5.40 5.50 4.40',
+  '407': 'oo,o1;0.70 3.40 5.40 5.60 3.50 4.40 1.10 34.50 2c.20 11.11 8.01 9.11',
+  '408': 'o1;0.40 6.80 1.50 4.60 3.30 1k.40 5.60 2b.60 2l.60 3.80',
+  '409':
+    'ny,o3,o2,of,oi,o1,o5,o8,o7,om,ol,oj,nz+o0,nz,o0;2s.00 a.40 5.50 4.70 2.00 0.01 1l.01 ' +
+    'a.01 2g.62 4.72 52.53 2w.73 2.63 fx.44 5.24 2f.54 4.54 4.04 4z.15 gl.36 2z.66 2b.46 ' +
+    '2n.57 4.47 2c.07 k.37 6.87 4g.58 5.48 5.68 3.38 5g.77 2.67 49.67 3.77 2.57 2w.39 6.49 ' +
+    '1j.67 3.27 2z.37 6.67 4i.79 3.19 8.59 22.3a 6.1b 2f.0c 0.3d 6.4d 5.2d 7.4d 5.4d 5.3e ' +
+    '6.6e',
+  '410':
+    'se,sv,t4,s3,s4,t0,sy;0.70 3.70 2.10 8.70 2.80 1.80 1.40 z.50 36.40 5.40 5.30 1k.80 1.80 ' +
+    '1.00 db.60 3.80 1.30 6.50 4.80 1.40 5.70 2.50 4.70 2.40 5o.91 1.71 2.71 2u.01 1w.82 ' +
+    '2.62 3.62 2v.12 ik.23 7.33 6.33 6.23 7.33 1j.53 5.33 6.03 1.03 25.33 6.73 2.43 22.74 ' +
+    '3.74 2a.84 1.84 ix.84 1.64 2b.34 2o.10 2p.25 8.45 2c.76 3.76 2.66',
+  '411':
+    's0+t5+t6,sq,s0,t5,t6;0.00 0.01 9.s2 1.62 kx.72 2.62 3.32 6.72 2.72 2.72 16.63 3.73 c.54 ' +
+    '4.44 5.04',
+  '412': 'sa;0.90 1.80 1.80 1.80 1.70 2.00',
+  '413':
+    'so,s2,sx,sz,s1;0.60 4.80 1.80 1.80 1.10 1m.20 7.01 3b.41 1s.42 2y.02 2g.93 1.53 54.44 ' +
+    '5.54',
+  '414': 's2;0.60 4.70 2.70 2.70 2.50 4.40',
+  '415': 's1,sw;0.10 9.70 2.80 1.80 33.51 3z.61 4.31 6.61 5n.21',
+  '416': 's7;p1.80 1.80 1.30 6.80 1.80 1.40',
+  '417': 's7;0.40 6.40 5.50 4.60 3.80 1.70 2.40 5.20 k7.80 1.60 3.50 4.40 5.70 2.50 4.30',
+  '418': 's6;0.70 3.80 1.50 4.80 1.70 2.70 2.70 2.70 m.80 1.60',
+  '419': 'sq,s7,s6;2s.70 3.50 4.40 23.41 2n.42 5.62',
+  '420':
+    't2;1.80 1.70 2.80 1.80 1.70 2.30 6.70 2.70 k2.00 1.20 4.70 3.40 5.80 1.60 3.80 1.80 ' +
+    '1.50 4.50 e.50 4.50 4.40 5.60 3.80 1.60 3.80',
+  '421':
+    't3,sn,sc,sp,st,t2,t1,s7;2t.60 3.60 3.50 4.60 1r.51 4.71 29.52 2n.83 1.43 5.13 25.93 ' +
+    '1.63 3.63 3.43 fp.24 7.44 5.34 6.14 1w.15 8.65 3.55 22.85 1.55 2c.85 j7.85 1.75 2.45 ' +
+    '23.25 7.65 3.65 21.85 lz.66 3.16 1.16 2d.26 7.46 2d.57',
+  '422': 't1+t2+t3,t3;0.00 668.81 1.81 1.61 3.61 3.61 3.71 2.61 3.71',
+  '424':
+    't1;1.80 1.70 2.80 1.70 2.70 2.60 3.70 w.60 3.30 2e.50 4.10 2g.50 2m.50 4.40 ap.80 1.80 ' +
+    '1.80 1.80 1.60 3.70 2.50 4.80 1.70 c.70 2.60 3.80 1.80 1.80',
+  '425': 'sn;0.70 3.60 3.70 2.50 4.50 4.70 2.80 1.60 3.70 2.10',
+  '426': 'st;0.90 1.80 1.80 1.70 2.60 3.60 3.60 2.90 1.70 16.30 1u.40 5.20 7.30',
+  '427': 's8;0.90 1.80 1.80 1.80 1.70 2.80 1.00 13.70 2.20 39.20',
+  '428': 's8,sd,t2;1.80 1.80 3.50 2.80 1.30 1.30 1f.50 2w.10 2f.61 4.41 2d.11 8.71 2a.42',
+  '430':
+    'sj,sf,sh,sf+sh;m9.20 0.41 2.01 0.52 3.62 3.72 2.52 4.11 0.02 0.03 0.02 0.11 17.61 3.21 ' +
+    '1.41 3.61 1.81 1.81 57j.181 18.01',
+  '431':
+    'sl,sm,sg,sj,si,tg;2t.20 2p.20 7.30 2e.31 2n.51 5.11 8.81 1.11 8.31 6.11 i0.30 6.40 ' +
+    '2d.80 2j.42 2n.62 3.62 3.42 ir.32 2o.62 3.52 4.52 8g.62 fn.73 2.43 5.53 4u.54 4.44 ' +
+    '2x.74 2u.54 2w.24 2z.54 4.34 10.34 2o.74 5c.24 7.14 8.05',
+  '432':
+    'sf+sg+sh+si+sj+sl,sl,sf,sh,sf+sh;0.00 668.01 0.22 0.21 3.72 2.62 3.72 2.72 2.13 0.04 ' +
+    '0.43 2.01 0.33 0.31 1.01',
+  '433': 'sg,sf;691.40 2.00 0.01 1.01 0.00 0.11 1.31 1.61',
+  '434': 'sk;0.70 3.70 2.80 1.70 2.50',
+  '435': 'sj,sh,sf;1.70 2.70 2.00 0.61 0.00 1.00 0.61 2.30 0.02 0.20 2.20 0.12 0.10',
+  '436': 'sb;0.90 1.120 1.80 1.i0 1.d0 6.50 4.60 2v.60 2v.70 2.20',
+  '437':
+    'su,s5,si,sr,sb,ss,s9;0.60 4.60 3.80 1.g0 3.60 3.60 1h.60 20.81 2.61 3.61 ad.72 2.72 ' +
+    '2.52 d6.40 5.80 1.50 22.83 1.73 2a.54 4.10 2g.64 3.54 4.44 5.84 1p.65 3.35 6.35 23.56 ' +
+    '5.46 5.26',
+  '438':
+    'sr;0.80 2.80 1.70 2.80 1.60 3.70 2.80 1.40 1.10 2.50 1.00 c.70 2.50 4.60 21.60 3.70 ' +
+    '2.30 6.50 fo.70 2.70 2.40 5.70',
+  '439': 'ss;0.90 1.80 1.50 4.60',
+  '440':
+    'uz;1.50 4.50 4.70 2.70 2.70 2.70 2.80 1.70 2.50 4.40 jl.50 4.50 4.60 3.70 2.40 5.00 ' +
+    '1.50 2.40 5.60 3.70 2.60',
+  '441':
+    'uz,ux,u8,tf,v0,uk;0.00 2s.51 18.50 18.31 6.41 2d.31 6.51 4.21 ll.50 4.40 2d.61 3.11 ' +
+    '8.21 7.01 1w.72 3.72 2.82 1.72 2.72 2.42 5.72 2.72 2.72 c.32 6.32 6.32 2y.52 1s.42 5.52 ' +
+    '4.32 6.32 1.02 1k.02 6v.52 4.52 7c.33 23.33 7.63 35.33 24.64 3.54 4.03 1x.03 dv.50 4.40 ' +
+    '5.50 4.30 6.60 3.40 19.20 7.30 2e.10 2p.95 1.85 1.65 3.55 1s.45 2n.85 1.85 1.65 3dh.70 ' +
+    '2.80 1.80 1.80 1.70 2.80 1.80 1.60 3.c0 7.80 1.60 3.40 5.40 5.80 1.60',
+  '442': 'ux;0.80 2.80 1.80 1.80 1.80 1.40 5.80 kb.80 1.80 1.70 2.80 1.70 2.60 3.20 7.80 1.80',
+  '443': 'uu;0.80 2.30 6.10 8.70 2.70 2.80 15.50',
+  '444':
+    'u2,v2,uv,tz,v3,v0;0.90 1.50 4.40 5.80 1.80 1.80 1.80 1.80 k.41 6.01 1.41 3.71 20.50 ' +
+    '4.50 4.50 4.30 6.60 1h.42 5.72 2.82 1.52 1s.62 3.52 4.82 1z.32 6.62 3.52 4.62 4j.32 ' +
+    '2o.60 3.60 3.70 2.i0 1.s0 l.80 1.70 2.40 5.80 1.a0 5j.43 5.53 y.53 4.43 5.43 22.54 5.34 ' +
+    '6.44 5.54 l8.80 1.70 2.20 7.60 3.80 1f.65 3.75 2.55 22.25 7.35 6.05 2.35 3.65 4.25 6.45 ' +
+    '19.65 1.05 1.85 3.15 q.05 1d.55 3.75 3.75 2.25 1v.75 5c.85 1.65 3.65 3.85 1.65 8f.00 ' +
+    '9.70 2.50 o.25 1.35 2.25 2.05 4.25 7.05 a.05 8.15 8.15 1.15 1t.40 5.30 2e.60 3.80 1f.70 ' +
+    '2.50 4.70 20.40 5.60 3.50',
+  '445':
+    'uv;0.60 4.60 3.60 3.40 5.60 3.60 3.40 5.60 3.30 jw.60 3.50 4.60 3.60 3.60 3.60 3.50 ' +
+    '3.90 1.60 3.30',
+  '446': 'tz;0.80 2.80 1.60 3.80 1.50 4.80 1.50 4.50',
+  '447':
+    'us;0.80 2.60 3.80 1.70 2.70 2.70 2.70 2.80 1.70 js.80 1.70 2.80 1.70 2.80 1.80 1.80 ' +
+    '1.80 1.80',
+  '448': 'tc;0.80 2.40 5.80 1.80 1.80 kv.f0 4.40 5.70 2.70 2.70 2.10',
+  '449': 'te,tg;5k.60 4.50 53.51',
+  '450': 'tk;1.60 4mh.1e0 12.00 32.1a0 16.00 a.130 1d.00 a.x0 1j.00 32.190 17.00',
+  '451': 'tx;0.00 a.50 4.60 3.40 5.50 4.40 5.50 4.60 3.30 4kc.130 1d.00',
+  '452': 'uh,tx;0.i0 2.50 4.60 3.60 3.40 5.70 kc.81 1.71 2.31 6.81 1.71 1g.70 2.80 b.40 5.60 d.20',
+  '453':
+    'tk;0.00 1.00 8.70 2.80 1.70 2.60 3.70 2.80 kb.80 1.80 1.70 2.80 1.80 1.80 1.60 3.20 ' +
+    '417.z0 1h.00',
+  '454':
+    'tj;0.70 3.50 4.70 2.60 3.80 1.80 kl.70 2.80 1.80 1.80 1.80 1.i0 1.60 n.60 3.60 3.60 ' +
+    '3.60 3.60 3.80 1.60 3.50 4.50 4.60',
+  '455': 'tt;0.80 2.70 2.70 2.60 3.60 3.60 3.80 1.70 k2.50 4.40 5.40 5.40 5.70 2.70 2.80 1.80 1.60',
+  '456': 'tu;0.60 4.70 2.60 3.60 3.70 2.80 1.80 1.70',
+  '457': 'tn;0.80 2.50 4.70 2.80 1.80 1.70 2.80 1.70 k2.70 2.80 1.70 2.60 3.60 3.50 4.50',
+  '458': 'tw;0.90 1.50 4.40 5.80 1.60 kx.100 3.80 1.10 1c.20 6.30 1.70 1.50',
+  '459': 'tw;669.80 1.60',
+  '460': 'ti;0.80 2.70 2.50 4.10',
+  '461': 'ts;0.90 1.80 1.60 3.70 1.00 2.60',
+  '462': 'tl;0.90 1.70 2.50 4.70 2.60 3.80 1.50 ke.40 1.70 1.00 1.10 3.60 1.70 2.60 3.80 1.80',
+  '463': 'tq;0.j0 1.80 1.70 2.70 2.60 3.110 ji.80 1.40',
+  '464': 'tm;0.80 2.80 1.80 1.80 1.50 4.60 3.60 3.60 3.60 3.60 jj.70 2.80 1.60 3.60 3.70 1.90 b.00',
+  '465': 'to;0.00 1.70 1.70 2.70 2.60 3.70 2.70 2.80 1.70 2.70 2.60',
+  '466': 'tr;0.60 4.50 4.60 3.60 3.60 3.80 1.40 kf.60 3.10 1.10 5.80 1.70 2.80 1.70',
+  '467': 'tv;0.80 2.60 3.70 2.80 1.80 1.80 1.70 kc.70 2.50 4.70 2.60 3.60 3.50 4.70 2.80',
+  '468': 'tp;0.90 1.40 4.f0 1.20 1.80 1.50 1.00 2.80 1.60 l2.00',
+  '470':
+    'u6+u9,u9,u6,t8,v0,uy,un,uq,uo,up,um;2s.00 0.41 5.71 2.71 2.51 e.52 4.52 x.93 1.73 2.73 ' +
+    '2.23 1v.84 1.84 1.84 1.44 5.74 2.54 4.34 6.54 o.34 6.04 9.34 6.04 9.04 9.24 7.34 6.04 ' +
+    't.54 4.54 4.54 4.44 5.44 5.44 5.44 5.44 ek.95 1.55 4.65 3.25 7.75 2.35 6.75 w.64 3.84 ' +
+    'og.56 2m.77 3.67 2a.98 1.88 1.88 1.88 1.88 1.88 1.58 4.98 1.78 b.89 1.39 2e.78 2.68 ' +
+    '3.08 9.18 8.68 3.58 hv.09 u.59 1r.0a k.1a 2g.1a 2g.4a',
+  '471': 'v0;0.90 1.80 1.80 1.70 2.80 1.80 1.80 1.80 k1.80 1.80 1.70 2.70 2.80 1.70 2.80 1.80',
+  '472': 'ur;0.70 3.60 3.60 3.70 2.60 3.70',
+  '473': 'v0;p1.70 2.70 2.70 2.80',
+  '474': 'ty;0.30 7.00 9.60 3.00 3.30 2.70 2.20 1.20 3.10 8.30',
+  '475':
+    'th;0.90 1.80 1.80 1.80 1.70 2.70 2.70 2.70 2.70 js.70 4.40 1.00 1.70 2.70 2.70 2.80 ' +
+    '1.80 1.70 2.60 d.50 4.10 1.40 2.80 1.80 1.70 2.80 1.70 2.70',
+  '476': 'ub;0.60 4.40',
+  '477': 'ub;v.60',
+  '478': 'ul;0.60 4.70 2.70 2.60 3.60 3.i0',
+  '479':
+    'u4;0.90 1.80 1.80 1.80 1.80 3.60 1.80 1.60 1.00 k1.i0 1.80 1.80 1.80 1.70 2.70 2.00 ' +
+    '1.00 7.10',
+  '480':
+    'ta+tb,tb,ta,uw,ua,v1,ui;2s.00 0.61 d.62 3.82 1.82 1.02 1c.23 2q.54 m1.05 1.65 2.85 1.85 ' +
+    '2.75 1.75 2.75 2.75 2.75 2.35 g.66 3.86 29.85 1.75 2.85 1.85 1.65',
+  '481': 'td;0.60 4.30 g.f0',
+  '482': 'u3;0.70 3.70 2.50 4.50 4.50',
+  '483':
+    'uc;0.00 668.70 2.70 2.80 1.70 2.70 2.70 2.80 1.10 1.30 3.70 c.80 1.70 2.70 2.70 2.80 ' +
+    '1.80 1.70 2.60 3.70 c.70 2.60 3.70 2.80 1.80 1.80 2.70 1.80 l.70 2.80 1.70 2.80 1.80 ' +
+    '1.80 1.80 1.80 1.80 b.80 1.80 1.80 1.20',
+  '484':
+    'uj;0.90 1.i0 1.70 2.80 1.80 1.50 4.80 1.60 3.80 jh.60 3.80 1.70 2.80 1.50 4.70 2.80 ' +
+    '1.80 1.80 1.80 1.70 2.80 1.70 2.60 3.70 2.80 1.50',
+  '485': 'u0;0.90 1.60 3.80 1.60 1.00 1.80 1.80 1.80 1.70 2.40 jv.50 4.40 5.80 1.10',
+  '486': 'ua;0.00 m8.80 1.s0 1.10 1.20 2.00 1.70 16.80 1.70 2.80 1.60 3.80 1.70 2.80',
+  '487': 'ua;1.60 3.60 3.60 3.40',
+  '488':
+    'u1;0.80 2.60 3.30 6.40 5.60 3.60 3.70 1.90 1.50 ju.40 7.50 2.60 2.00 2.00 1.10 1.30 ' +
+    '1.40 3.10 1.10 1.20 1.00 1.00 2.10 3.50 4.30',
+  '489':
+    'ui;0.90 1.70 2.80 1.60 3.70 2.70 2.80 1.80 k1.80 1.80 1.80 1.70 2.80 1.80 1.70 2.80 ' +
+    '1.80 1.80 1.i0 1.80 1.70 2.80 1.40 5.50 4.i0',
+  '490':
+    'ue,t7,ut,ug,u5;uk.00 0.61 3.51 e.60 3.40 1i.71 3.31 6.51 22.42 5.42 5.22 24.03 0.64 ' +
+    '3.44 5.74 2.73 2.63',
+  '491':
+    't9;0.50 5.40 5.70 2.60 3.50 4.80 1.80 1.80 1.50 e.40 5.40 5.40 5.50 4.30 1k.00 45.30 ' +
+    '6.50 4.50 bs.50 4.60 3.00 1.50 2.70 2.70 2.80 1.20 1.40 1.30 3.10 1.20 h.70 2.80 1.60 ' +
+    '3.70',
+  '492':
+    'ut;0.00 668.70 2.60 3.40 5.30 1.20 2.40 5.70 2.50 1.00 2.70 2.40 5.40 5.80 1.80 1.70 ' +
+    '2.80 1.60 3.70 2.60 3.70 2.50 e.1c0 1.80 1.80 1.80 1.80 b.70 1.90 1.20 1.40 1.80 1.10 ' +
+    '1.50 1.70 2.50 4.40 5.80 1.20 7.i0 1.80 1.80 1.70 2.50 4.70',
+  '493': 't9;1.60 661.20',
+  '494': 't9;1.70 2.80',
+  '495': 'ut;1.20 7.40 5.40 5.60',
+  '496':
+    'u7+ud,ud,u7;0.00 0.81 1.81 1.81 1.71 2.71 m.11 k8.81 1.81 1.81 1.81 1.81 1.61 3.81 1.61 ' +
+    'n.82 1.42 5.32 6.82 1.62 5fx.j2 9.j2',
+  '497': 'uf,t7;0.00 0.51 4.51 d.80 1.80 1.80',
+  '498': 'u5+vs,u5,vs;0.00 0.61 3.71 2.71 2.i1 1.71 1.91 kb.72 1.92 1.32',
+  '500':
+    'rg;0.00 668.80 1.80 1.80 1.80 1.80 1.80 1.80 1.80 1.80 b.80 1.80 1.80 1.80 1.80 1.80 ' +
+    '1.80 1.80 1.80 h.00 3.20 7.80 1.70 2.60 3.80 1.80 1.80 1.80 b.80 1.80 1.80 1.60 1.00 ' +
+    '1.80 1.80 1.80 1.80 1.80 b.80 1.80 1.80 1.80 1.80 1.80 1.80 1.80 1.80 8n.80 1.80 1.80 ' +
+    '1.80 1.80 1.80 1.80 1.80 1.80 1.00',
+  '501':
+    'rg,rp,rl+rm,rl,rm,ri,rj,rf,rw,r1,rr,rv,rz,rb,rt,r7,ru,rt+ru,rs;2t.50 4.20 1.00 1.20 ' +
+    '1.30 23.61 4.61 3.41 5.61 1r.61 3.31 6.31 23.02 0.63 2.93 1.74 2.84 1.54 4.74 2.53 4.53 ' +
+    'n.45 6.45 5.45 5.45 f.55 4.45 y.76 3.86 1.76 2.46 1t.76 2l.36 5.66 2b.26 5h.80 1.50 ' +
+    '4.70 2.50 4.i0 1.80 1.70 2.50 e.23 1.03 p.53 1s.26 7.66 53.63 3.73 2.83 1.53 fn.57 5.47 ' +
+    '5.47 5.47 37.87 15.27 7.47 5.07 9.07 4p.80 1.80 1.70 2.50 4.40 5.60 3.60 3.80 l.68 ' +
+    '5d.28 1.48 1.18 1.38 2b.08 5j.10 1.00 2.20 1.60 3.60 3.50 4.60 3.50 17.78 2.98 1.78 ' +
+    '2.68 3.68 2.98 1.78 v.79 5d.08 9.08 9.08 27.08 2q.6a 4.6a 3.8a 1.6a 3.5a 4.5a 4.3a 6.2a ' +
+    '7.7a c.78 2.88 1.88 1.88 1.78 2.68 3.78 2.78 2.78 c.i8 1.78 1.98 1.68 3.78 2.88 1.88 ' +
+    '3d.6b 2k.7b 3.8b 1.7b 2.7b 2.0b 1n.6b 3z.4b 19.hb 2a.7b 1.9b dd.4b 5.5b 4.5b 2w.0b ' +
+    '1x.4b 2n.5c 4.6c 3.5c 22.6d 2k.0d j.9d ab.5e 4.8e 1.8f 1.7g 2.6g 3.8g 1.4g 5.6g 3.7g ' +
+    '2.7g 1.0h 0.40 5.20 1.00 5.20 7.40 1s.9i 1.7i 2.8i 1.8i 1.3i 6.6i 3.6i 3.3i q.3i 6.8i ' +
+    '1.7i 1.8i',
+  '502':
+    'rg;1.60 3.60 3.80 1.70 2.60 3.50 4.60 3.60 3.10 jy.20 7.60 3.80 1.70 2.i0 1.60 3.10 ' +
+    '8.10 i.80 1.60 3.80 1.80',
+  '503':
+    'ra,rc,re,rn,ry,qw,qv,rd,rk,rj;0.90 1.80 1.60 3.50 1r.01 0.50 4.71 2.81 b.00 1m.62 4.52 ' +
+    'e.52 1s.63 3.33 6.23 25.73 2.43 37.53 1r.63 1.03 2.73 2.83 1.73 2.03 1.53 2.43 41.70 ' +
+    '2.60 3.70 2.80 1.80 1.70 2.40 5.70 2.80 1.80 1.70 2.70 2.50 4.60 3.60 3.80 1.40 5.60 ' +
+    '3.50 4.60 6r.44 5.54 4.74 2.74 l.64 4.64 3.44 5.84 15.44 36.15 9.45 5.35 6.15 8.45 ' +
+    '1j.10 8.30 6.50 4.70 ct.96 1.36 6.46 23.70 2.50 4.60 20.67 4.87 1.77 c.07 1m.98 1.88 ' +
+    '1.88 1z.59',
+  '504':
+    'r7;0.90 1.70 2.50 4.70 2.60 kx.80 1.50 4.80 1.80 1.60 3.50 4.00 13.80 1.50 4.70 2.40 ' +
+    '5.40 5.80 1.70 2.00',
+  '505':
+    'r0+rq,rq,r0,r6,r5,qz;0.00 0.i1 1.81 1.81 1.51 4.51 e.62 m.83 2.53 4.53 3.04 4p.75 35.25 ' +
+    '2z.15',
+  '506':
+    'rz,rx;0.90 1.60 3.50 4.40 5.70 2.80 15.60 2l.60 1r.01 ep.70 2.70 2.40 5.70 2.60 3.70 ' +
+    '6p.81 2.31 6.51 4.21 7.81 1.71 2.11 12.51 4.61 2b.70 2.80 2t.80 1.30 ii.00 1.30 4.70 ' +
+    '2.40 5.40 37.70',
+  '507': 'r9;0.80 2.80 1.70 2.80 1.70 2.70 2.70 2.70 k2.60 3.70 2.70 2.70 2.70 1g.00',
+  '508': 'qx;0.70 3.40 5.30 6.70 2.40 1j.00 9.00 2h.30 42.00 1x.00 27.10',
+  '509':
+    'r7,r5,r2,qy,r4,r3,qu,rz,rx,r8,ro,rh,qx;2t.80 1.70 2.60 3.50 4.60 1g.91 1.71 2.31 5.c1 ' +
+    '2.e1 1.51 x.72 3.42 2c.33 2z.03 gc.84 2.24 2z.14 25.35 3j.04 4p.66 3.56 4.36 e2.76 ' +
+    '1p.76 2v.36 2y.36 24.76 2.86 29.36 6.46 2d.17 b2.66 3.46 2d.67 3.77 2a.57 4.67 3.67 ' +
+    '21.47 5.87 2d.07 gj.77 2.67 1.07 1.57 22.48 5.48 5.48 5.68 3.48 5.58 4.48 5.48 p.58 ' +
+    '4.78 2a.58 4.48 5.38 2y.48 5.48 fe.79 3.79 2.69 3.59 4.69 3.39 6.09 9.09 t.29 2p.19 ' +
+    '8.19 2g.29 jc.8a 2.5a 4.7a 2.4a 37.0a 31.2a 2z.1a i0.5b 21.9b 1.0b 31.1c 26.2b 2p.6b ' +
+    '3.2b 7.0b 27.7b 2k.7b 2.7b 2.5b 4.0b 1x.5b 4.5b 4.5b 4.0b b3.1b 1w.0c n1.1c 1w.0c t.1c',
+  '510':
+    'v5+v6+vg,vg,vv,vt,v7,v6,v5;0.00 0.71 2.71 2.61 3.41 5.71 2.81 1.81 1.51 4.81 1.71 2.61 ' +
+    '2l.72 2.22 2.32 1.62 3.62 3.32 6.82 1.52 y.73 2.73 de.61 2.51 5.81 1.81 1.71 2.61 3.71 ' +
+    '2.41 5.51 4.31 1a.71 2.71 2.21 7.01 6c.04 k.54 4.54 4.54 4.24 1l.14 8.74 55c.81 1.61 ' +
+    '3.71 2.81 1p.65 3.36 6.46',
+  '511':
+    'vr,v4+vf,v4,vf;0.90 1.80 1.60 3.80 1.80 1.70 2.80 1.80 1.80 b.50 4.70 2.40 22.01 0.72 ' +
+    '2.62 3.42 5.23 7.43 5.63 3.62 3.52 4.62 35.52 4.72 2.72 2.72 1q.72 2.82 1.32 7o.i0 1.80 ' +
+    '1.80 1.70 2.40 5.70 w.30 6.30 6.30 6.80 1.60 49.80 1.50 4.70 2.60 3.80',
+  '512': 'vg;8d.00 gn.70 2.30 6.40 5.50 4k.40 5.00 1.30 2c.70 2.50 2c.50 572.70 2.50 4.50',
+  '513': 'vv;0.j0 1.70 2.70 2.80 1.80 kl.80 1.80 1.70 2.60 3.70 2.40 7d.30',
+  '514':
+    'vt;0.j0 1.70 2.80 1.60 3.70 2.40 5.60 3.50 e.30 6.50 4.50 4.00 4p.40 5.40 5.00 1.30 ' +
+    'd6.50 4.80 1.50 4.70 7a.80 1.70 2.40 5.80 33.70 ne.60 3.40 2d.70 2.30 6.10 26.70 2.70 ' +
+    '2.70',
+  '515':
+    'vq,vj,v9,vt;0.70 3.80 1.80 1.80 1.50 4.60 3.50 4.70 2.70 c.30 6.80 1.70 20.70 2.60 ' +
+    '2a.31 7.61 3.41 5.31 6.81 1.31 42.82 1.02 9.02 7r.30 6.70 2.40 5.40 5.70 70.60 2l.40 ' +
+    '2n.30 2y.20 2f.50 2w.70 2u.60 3.30 a6.80 1.40 5.30 6.20 4n.40 5.60 3.40 5.40 5.30 6.60 ' +
+    '17.80 1.30 2e.43 5.63 3.53 22.43 5.63 3.33 e2.83 1p.23 2z.23 2z.03 31.53',
+  '516':
+    'v9,vl,vn;0.90 1.70 2.70 2.70 2.60 3.30 6.60 3.80 k.91 1.71 2u.11 g2.50 86.70 3e.72 2.62 ' +
+    '1h.81 33.21 2z.51 fn.82 2.82',
+  '517': 'vw,v9,vp;0.50 5.40 5.50 4.40 5.60 x.01 3b.82 1.72 52.42 2m.72 2l.32 2o.42',
+  '518':
+    'va,ve;0.80 2.60 3.60 3.50 1s.70 2.50 4.60 3.00 1x.50 4.80 1.60 4s.91 1.81 1.71 1.91 ' +
+    '1.51 6.61 1.81 1.81 1.51 e.41 2n.i1 1.71 2.31 6.61 1h.41 4.91 1.81 1.i1 1.51 4.21 7.41 ' +
+    'p.10 1.00 2.b0 1.t0 1.80 1.80 1.40 1.10 7a.60 3.40 41.60 3.80 1.50 22.00 1.50 3.00 1.00 ' +
+    '1.10 3.10 1.50',
+  '519':
+    'v8,vv,vo,v9,va,vh,vq,vi,vm,vb,vk,vu,vc,vd;2s.60 4.80 1.60 3.60 3.70 2.80 1.80 1.00 9.00 ' +
+    't.40 5.20 1b.11 12.51 4.31 23.82 2.62 3.72 2.72 1q.63 2l.83 1.03 dl.70 2.80 1.80 7j.54 ' +
+    '4.54 4.54 7m.74 2.04 as.05 14.76 2.85 1.65 2.95 1.85 b.35 6.55 53.57 5.27 7.87 1z.67 ' +
+    '3.77 2.47 2x.37 1t.48 q.58 1s.18 30.08 5j.08 2h.89 5a.89 2.49 5.0a 4y.2a 1.2a 2.ca 1.0a ' +
+    '1.1a 7.0a 2.3a 1.1a 2.2a 2.2a 2.0a 1.1a 3.1a 1.1a 3.3a q.1a 30.3a 2y.3a 7o.6b 2k.0b ' +
+    'k.6b 35.8b 33.5b 2w.4b ek.6c 4.0c 31.6c 21.5b 4.6b 7u.1d 9.7d 34.4d',
+  '520':
+    'vx,wv,wf,wd,wb,w2,w3,w7;0.60 4.70 2.70 2.70 2.60 3.60 3.60 x.60 3.50 2w.60 3.50 4.70 ' +
+    '2u.60 3.20 2p.41 5.70 m.20 7.50 4.80 1.20 7f.60 3.70 2.60 3.60 3.50 4.50 3.90 1.00 ' +
+    '6c.32 7.12 8.22 7.22 7.32 1k.42 5.62 3.32 6.42 4l.02 9.42 5.42 5.22 7.32 6.42 19.22 ' +
+    '7.12 8.12 8.22 1v.42 5.32 6.22 7.52 4.72 2.42 41.52 4.32 6.52 4.62 7b.10 8.70 2.40 5.40 ' +
+    '5.40 5.20 7.60 2l.60 3.80 k.53 5.53 4.33 6.23 7.23 7.23 7.43 z.23 7.63 3.33 6.63 1q.44 ' +
+    '6.34 6.34 6.04 9.14 8.14 8.34 6.24 bu.65 4.65 3.65 3.65 3.65 1h.86 1.56 4.06 26.36 7.56 ' +
+    '4.26 7.66 3.16 1.46 2.56 18.77 2.57 4.57 4.27 1v.47 5.47 5.67 3.57',
+  '521':
+    'w8,vz,w1,wc;0.40 6.50 4.40 5.40 p.30 6.30 6.30 6.20 2z.20 7.80 1.60 3.50 4.40 1j.70 ' +
+    '2.30 6.60 lh.41 5.41 5.51 4.51 4.61 1h.42 5.42 5.42 5.42 5.42 1j.03 9.03 9.13 8.33 6.53 ' +
+    '4.03',
+  '522':
+    'vz,w5,w4;0.j0 1.60 1.00 1.80 1.60 3.80 1.80 1.40 5.80 32.01 0.00 9.30 6.20 7.80 1.31 ' +
+    '6.31 6.21 7.01 s.62 4.82 1.62 3.72 2.22 7.52',
+  '523':
+    'wc;0.50 5.50 4.60 3.60 3.70 2.70 2.30 6.50 4.60 jt.70 2.80 1.70 2.60 3.80 1.60 3.80 ' +
+    '1.60 3.80 1.70',
+  '524': 'vy;0.40 6.50 4.10 8.60 3.50 4.40 5.40 z.30 2y.50',
+  '525': 'w9;0.70 3.50 4.80 1.60 3.40 1.10 1.90 1.70 2.10',
+  '526':
+    'we;0.50 5.70 2.40 5.60 3.60 3.80 1.70 w.70 2.50 4.50 4.40 1t.80 1.60 3.60 3.50 4.50 ' +
+    '4.60 3.60 3.60 ej.50 4.60 3.80 1.40 5.60',
+  '527':
+    'w1;0.70 3.80 1.80 1.80 1.60 3.60 3.60 3.50 4.60 3.20 7.70 2.40 5.80 1.70 2.40 5.60 3.50 ' +
+    '4.40 p.80 1.50 4.70 2.10',
+  '528': 'w7;0.70 3.60 2.90 1.70 1.90 1.70 2.80 1.30 3i.70 2.20 7.30 6.40',
+  '529':
+    'we,w6,vz,w0,w1,wa,w7;2t.20 7.20 7.20 7.20 7.30 1k.40 5.40 5.20 7.30 6.00 9.20 7.40 5.40 ' +
+    'p.30 6.60 3.10 8.40 5.50 4.30 6.60 x.30 6.40 5.50 4.60 1r.50 4.40 5.60 3.60 3.00 4f.70 ' +
+    '2.40 5.50 ad.01 1e.52 4.81 1.61 n.73 2.33 6.73 2.63 1q.33 7.43 5.43 5.03 1x.44 5.44 ' +
+    '5.44 5.44 5.44 1j.34 6.34 6.34 6.64 3.04 9.04 9.54 4.14 r.j5 1.75 2.55 4.75 2.75 2.45 ' +
+    '3r.36 6.36 6.06 9.56 4.26 7.06',
+  '530': 'y0;0.50 5.70 2.70 2.70 2.60 3.60 4l3.120 1e.00 a.y0 1i.00',
+  '531': 'y0;15.00 j.30 6.60 4kj.120 1e.00 a.120 1e.00',
+  '532': 'yb;0.60 4.20 7.70 2.50',
+  '533': 'y8;0.70 3.40 5.30 6.20',
+  '534': 'yi;0.20 8.50 4.60',
+  '535': 'y5;0.50 5.20 7.10 8.00',
+  '536': 'y1;0.80 2.60 3.40',
+  '537': 'y7;0.30 7.30 6.40',
+  '538': 'yk;0.00 u.60 3.30 6.30',
+  '539': 'xx;0.00',
+  '540': 'xx;1.70 1.90 1.80 1.80 4ll.100 1g.00 a.110 1f.00 a.110 1f.00 a.p0 1r.00',
+  '541': 'xx;15.70 2.80',
+  '542': 'xx;c.00 1c.60 3.60 3.50',
+  '543': 'y3;0.20 8.70 2.70 2.60 3.40 5.50 4.20 7.50',
+  '544': 'yd;0.60 4.40 5.40 5.30',
+  '545': 'yj;0.50 5.30 6.20 7.60 3.20 7.20 4l7.1n0 t.00',
+  '546': 'y6;0.30 7.30 6.30 6.40 5.30',
+  '547': 'y4;0.60 4.50 4.60 3.40 5.70',
+  '549': 'yx,z2,yz;1.00 9.01 9.02',
+  '550': 'yf;0.60 4.40 5.60',
+  '551': 'y2;0.30 7.20 7.20 7.20',
+  '552': 'yc;0.70 3.50 4.20',
+  '553': 'ye;0.70',
+  '554': 'y9;0.20 8.30 6.30 6.20 7.20 7.10',
+  '555': 'yh;0.10 9.20 7.40 5.30 6.30',
+  '556': 'ya;0.60 4.60 2.90',
+  '557': 'yg;0.40 6.50 4.40 5.30 6.40 5.40 5.20',
+  '558': 'xz;0.40 6.40 5.30 6.20 7.60 3.50',
+  '559': 'xy;0.70 3.60 3.50 4.30',
+  '560': 'z8;0.50 5.50 4.50 4.50 4.50 4.50 o.40',
+  '561': 'z8;m9.70 2.60 3.80 1.50 4.50 4.80 1.40 5.40 5.40 5.30',
+  '562': 'z4;0.60 4.40 5.80 1.50 4.50',
+  '563':
+    'yv,za,z9,z4,zl;0.00 a.60 3.80 1.70 2.70 1.90 14.51 5.32 6.22 7.42 23.81 v.13 2.33 15.02 ' +
+    '14.02 9.52 4.72 2.22 bv.04',
+  '564': 'xm;0.40 6.70 2.70 2.80 1.40 5.30 6.20 7.20 7.20',
+  '565': 'xm;m9.50 4.70 2.50 4.60 3.70 2.40 5.20 7.40',
+  '566': 'yq;0.20 8.20 7.40 5.40 5.60 3.40 5.40 5.30',
+  '567': 'z6;0.i0 2.80 1.60 3.70 2.80 1.60 3.50 5.40 ju.50 3.90 1.80 1.70 2.e0 5.70 2.80 1.70 2.60',
+  '568': 'z6;29.80 1.70',
+  '569':
+    'ze;0.70 3.50 4.60 3.50 4.60 3.60 3.60 3.70 2.70 2.60 jj.60 3.70 2.60 3.50 4.60 3.60 ' +
+    '3z.40 5.70 1.90 1.80 1.60 3.30 1a.80 1.70 2.70 2.60 3.60',
+  '570': 'ym;0.90 1.60 3.80 1.80 1.70 2.50 4.50 4.80 1.60 3.70',
+  '571': 'zc;0.20 2.00 1.20 1.70 2.e0 1.20 1.70 1.90 1.70 1.90',
+  '572': 'yo;0.90 1.s0 1.70 1.90 1.60 3.70 1.90 jr.00 1.00 2.00 3.j0 1.s0 1.60',
+  '573':
+    'yt;0.70 3.70 2.70 2.60 3.80 1.70 2.60 3.60 3.70 2.40 5.60 3.70 2.70 2.60 3.50 4.70 2.70 ' +
+    '2.00 pt.60 3.70 2.70 2.70 2.80 1.80 1.70 2.70 2.70 2.60',
+  '574': 'xw;0.80 2.60 3.70 2.60 3.50 4.60 3.30 6.60',
+  '575': 'xo;0.40 6.50 4.30 7.40 4.40 5.40 5.20',
+  '576': 'xh;0.60 4.60 3.10 8.50 4.20 7.30 6.50',
+  '577': 'yr;0.70 3.60 4.60 3.50 4.00 1.40 3.60 2.60 kd.80 1.70 2.60 3.60 3.80',
+  '578': 'yr;p1.40 5.40 5.40 5.60 3.70 2.70 2.00 1.40 3.70 2.40',
+  '579': 'yr;669.40 5.40 5.60 3.70 2.70 2.70 2.50',
+  '580': 'ys;0.60 4.60 3.50 4.30 6.50',
+  '581': 'xi;0.70 2.t0 1.40 5.50 4.80 1.60 3.70 2.40 jl.20 7.70 2.20 7.60 3.60 3.50 4.80 1.40 5.40',
+  '582': 'yu;0.t0',
+  '583': 'xk+z5+z7,z7,z5,xk;0.00 0.81 1.71 2.61 3.61 mb.72 2.72 2.72 2.52 4.52 2w.53',
+  '584': 'yn;0.80 2.50 4.70 2.i0 1.70 2.d0 1.30 1.50 4.40',
+  '585': 'xj+xl,xl,xj;0.00 0.51 4.31 6.61 3.41 5.42 5.42',
+  '586': 'yw;0.90 1.70 2.60 3.80 1.70 2.70 2.80 1.60 3.60 3.60',
+  '587': 'xu;0.30 7.30 6.10 8.10 8.20 7.30 6.50',
+  '589': 'yl;0.90 1.50 4.20 7.50',
+  '590':
+    'xs,xr,z1,zb,yz;0.80 2.70 2.70 2.60 3.70 2.60 3.50 4.80 k.61 4.61 3.61 3.71 2.41 5.71 ' +
+    '6p.72 3.62 3.62 3.52 4.i2 1.03 12.54 5.44 5.54 4.44 7d.80 1.30 5.90 1.60 1r.70 2.20 ' +
+    '7.70 1.130 1.60 3.60',
+  '591': 'xq;0.00 668.70 2.30 6.40 5.60 3.50',
+  '592': 'zf,xv;0.60 4.30 6f0.41 5.81 1.11',
+  '593': 'xv;0.00 6ek.70 2.60 3.80',
+  '594': 'xn;0.60 4.20 7.20 7.10 8.10 8.30 6.50 4.50 4.20 s9.50 4.70 2.70 2.50 4.30 6.60',
+  '595': 'yy+z3,z3,zf,yy;0.00 0.61 3.61 3.71 2.81 1.51 4.51 4.61 3.41 5.02 jz.43 5.33',
+  '596': 'yp;0.60 4.50 4.50 4.60 3.80 1.60 3.60 3.70 m.40 5.50 j0.70 2.60 3.70 2.50 4.40',
+  '597': 'zb;0.50 5.40 5.20 7.20 7.50 4.30 6.20 7.40 5.40 5.40 5.60 3.20',
+  '598': 'yx+z2,yx,z2;0.00 0.71 2.51 4.31 6.61 3.71 2.71 2.31 6.41 f.32',
+  '599':
+    'xp+xt,zd,z0,xt,xp;0.00 5j.51 5.51 4.41 5.51 1r.42 6.32 60a.33 2.03 3.53 4.73 2u.74 2.74 ' +
+    '2.34 6.64 3.54',
+  '600':
+    'wo;0.00 668.80 1.i0 1.1c0 1.i0 1.120 1.1m0 1.i0 1.80 1.80 1.80 1.80 1.80 v.70 1.j0 1.70 ' +
+    '1.90 1.80 1.40 5.60 3.i0 1.1c0 1.i0 1.s0 8d.60 3.50 4.80 1.60 3.60 3.60 3.40 5.80 1.70 ' +
+    '2.80',
+  '601':
+    'ws,wr,wt,wz,wv,wq,x2;0.00 2s.11 8.21 7.41 5.41 5.41 2x.12 8.52 4.72 w.52 4.32 24.52 ' +
+    '3g.52 4.22 4d.43 5.53 4.33 6.43 5.33 6.43 5.43 5.73 8y.44 5.24 7.44 2x.44 5.74 2.44 ' +
+    '19.75 2.75 2.65 3.75 2.65 3.65 3.55 4.75 2.65 3.56 4.55 4.65 3.55 4.85 1.55 4.55 4.35 ' +
+    '51k.60 3.60 3.80 1.60 3.70 1g.70 2.50 4.20 2.20 2.80 1.50 4.40 5.60 3.70 2.70 c.60 3.20 ' +
+    '2f.i0 1.i0 1.80 1.60 3.60 3.s0 1.60 3.60 3.70 2.80 1.80 1.60 3.80 1.70',
+  '602':
+    'wn;0.80 2.80 1.80 1.70 2.60 3.80 1.60 3.30 6.60 3.80 jh.70 2.80 1.70 2.80 1.80 1.70 ' +
+    '2.70 2.70 2.00 9.70 2.60 3.70 2.50 4.80 1.70 2.80 5fl.60 3.80 1.80 1.70 2.70 2.70 2.70 ' +
+    '2.60 n.80 1.80 1.70 2.80 1.70 2.70 2.80 1.80 l.80 1.70 2.70 2.80 1.70 2.80 1.70 2.80 ' +
+    '1.70 2.80 1.70 2.80 1.60 3.70 2.70 2.80 1.80 1.60 3.60 3.40 5.80 1.70 2.70 2.80 1.80 ' +
+    '1.40 5.80 1.70 2.70 2.70',
+  '603':
+    'wr;0.00 668.70 2.70 2.70 2.70 2.60 3.50 4.50 4.60 3.60 d.70 2.60 3.50 4.80 1.80 1.70 ' +
+    '2.60 3.80 l.70 2.60 3.70 2.60 3.60 1h.40 5.50 4.60 3.60 3.60 3.60 3.50 4.70 m.70 2.60 ' +
+    '3.60 3.60 3.70 2.70 2.80 1.80 1.70 2.30 8i.60 3.60 3.70 2.70 2.70 2.50 4.20',
+  '604':
+    'wp;0.50 5.40 5.50 4.50 4.40 5.40 5.50 4.60 3.60 3.50 jk.40 5.40 5.60 3.60 3.60 3.60 ' +
+    '3.60 3.50 4.50 e.60 3.60 3.40 5.40 5.30 6.50 4.50 4.50 4.50 4.50 5ek.50 4.60 3.60 3.50 ' +
+    '4.60 3.60 3.50 4.50 4.50 4.40 5.50 4.70 2.60 3.50 4.60 3.50 4.50 4.50 4.60 d.60 3.60 ' +
+    '3.60 3.60 3.60 3.70 2.60 3.60 n.50 4.50 4.60 3.50 4.40 5.50 4.50 4.40 5.30 g.40 5.70 ' +
+    '2.50 4.60 3.50 4.60 3.60 3.40 5.40 5.60 8f.40 5.10 8.30 6.10 8.60 3.50 4.20 7.30',
+  '605':
+    'ww;0.90 1.80 1.80 1.70 2.50 4.10 8.80 1.80 1.80 jr.70 2.60 3.80 1.80 1.70 2.70 2.40 ' +
+    '5.70 m.80 1.70 2.60 3.70 2.60 3.60 3.70 2.80 1.80 1.40',
+  '606':
+    'wv;0.j0 1.80 1.60 3.70 2.80 1.70 2.70 2.80 1.70 ji.60 3.60 3.60 3.60 3.60 3.50 4.60 ' +
+    'x.60 3.60 3.60 3.70 2.60 3.60 3.60 5fd.60 3.30 6.60 3.60 3.60 3.60 3.40 5.40 5.50 e.60 ' +
+    '3.60 3.60 3.50 4.60 3.70 2.60 3.60 3.60 d.50 4.60 3.60 3.60 3.60 3.60 3.60 3.60 3.60 ' +
+    '3.40 5.60 3.60 3.50 4.50 4.50 4.60 3.50 4.50 4.60 3.60 3.60 3.60 3.70 2.60 3.60 3.40',
+  '607':
+    'wu;0.00 668.80 1.70 2.80 1.40 5.40 5.10 8.80 1.i0 1.00 9.80 1.50 4.50 4.50 4.60 3.50 ' +
+    '3.j0 1.80 1.30 6.30 6.80 1.80 1.80 1.10 8.80 1.00 13.80 1.00 9.80 1.60 3.70 2.70 16.80 ' +
+    '1.80 1.80 1.20 7.20 7.50 4.50 4.50 4.40 5.70',
+  '610':
+    'wx,x1,xb,wm+xa,xa,wm;0.00 2r.31 7.81 1.01 26.22 8.02 9.02 9.02 9.02 9.42 5.02 12.03 ' +
+    '0.24 7.45 5.55 4.35 6.25 7.65 3.15 ki.60 3.20 7.70 2.50 4.50 4.20',
+  '611': 'x2;0.30 7.40 5.80 1.20 7.40',
+  '612':
+    'wq;0.90 1.80 1.80 1.70 2.80 1.80 1.70 2.30 6.80 jr.80 1.80 1.80 1.80 1.80 1.50 4.80 ' +
+    '1.80 1.80 5hj.80 1.80 1.80 1.80 1.70 2.80 1.60 3.70 2.80 b.80 1.50 4.40 5.50 4.00 9.70 ' +
+    '16.80 1.80 1.70 2.80 1.80 1.60 3.70 2.80 1.60 3.60 3.70 2.80 1.80 1.70 2.60 3.80 1.80 ' +
+    '1.60 1.00 1.00 2.40 2.40 5.40 5.80 1.20 1.40 1.80 1.b0 1.30 1.00 1.80 1.00 1.00 2.20 ' +
+    '2.i0',
+  '613': 'wi,wy,wq;0.00 k.50 4.50 4.50 mc.21 1b.62 3.52',
+  '614':
+    'wy;0.00 668.70 2.60 3.50 3.90 1.70 2.70 2.70 2.80 1.70 2.50 4.50 4.60 3.70 2.50 4.80 ' +
+    '1.80 1.50 4.50 4.30 6.60 3.70 2.50 4.i0 1.80 1.70 2.70 2.i0 4.40 2.70 2.40 5.60 3.50 ' +
+    '4.80 1.20 7.60 3.60',
+  '615':
+    'wt,wx;1.60 3.50 4.60 3.60 3.70 2.70 2.60 3.30 6.40 5.60 jj.60 3.70 2.60 3.70 2.50 4.70 ' +
+    '2.30 6.70 2.40 f.60 3.60 3.50 4.70 5g6.71 2.71 2.61 3.61 3.51 4.61 3.41 5.61 3.61 d.61 ' +
+    '3.71 2.41 5.51 4.61 3.71 2.41 5.71 2.51 4.51 4.71 2.61 3.71 2.71 2.51 4.51 4.61 3.61 ' +
+    '3.61 3.51 4.21',
+  '616':
+    'wt,wx;0.00 0.61 3.61 3.61 65h.60 3.60 3.60 3.60 3.60 3.60 3.60 3.60 3.40 5.60 3.60 3.60 ' +
+    '3.60 3.60 3.60 3.60 3.60 3.60 3.60 3.60 3.80 1.80 1.80 1.70 2.60 3.70 2.70 2.70 2.80 ' +
+    '1.60 3.60 3.60 3.60 3.60 3.60 3.60 3.60 3.50 4.60 3.60 3.60 3.60 3.70 2.80 1.60 3.70 ' +
+    '2.70 2.40 5.60 3.30',
+  '617': 'x0+xf,x0,xf;0.00 0.51 mc.72 2.72 2.72 2.62 3.62',
+  '618': 'wj+xg,xg,wj;0.00 0.31 6.41 5.31 1a.02 9.02 9.02',
+  '619':
+    'x4+x8,x4,x8,x6,x7,x5;5k.00 0.51 4.71 2.41 5.72 1.72 np.61 3.21 7.61 3.51 4.31 6.31 ' +
+    '19.53 5.23 7.53 21.44 2n.25 8.15 8.15',
+  '620':
+    'x9;0.50 5.60 3.80 1.80 1.60 3.80 1.60 3.70 3e.00 9.30 6.00 27.40 5.30 6.60 3.30 6.10 ' +
+    '8.50 cc.70 2.60 3.70 2.80 1.80 1.80 1.60 3.80 1.70 2.40 5.80 1.70 1.80 2.90 2.60 1.70 ' +
+    '2.80 1.30 6.80 8n.10 8.30 2y.40 5.40 5.40',
+  '621':
+    'wk;0.80 2.70 2.80 1.60 3.50 4.30 1a.30 6.40 5.60 2v.40 5.20 7.40 5.20 ex.60 3.80 1.80 ' +
+    '1.40 5.60 3.50 4.80',
+  '622':
+    'wz,xe;0.40 6.60 3.40 5.50 4.60 3.80 1.50 3p.31 7.31 6.31 6.51 1s.31 6.51 4.41 5.11 ' +
+    '30.41 5.21',
+  '623': 'xc;0.80 2.50 4.50 4.60 3.50 4.30 6.50 y.70 2.60 2v.50 4.50 2w.50 4.20 7.30 l0.30 6.30',
+  '624': 'xd;2t.20 7.70 2.40 ir.50 4.50 4.50 4.50 4.20 7.40 19.80 1.30 6.80 1.60 3.50 4.50 4.70',
+  '625': 'xd;0.70 2.60 3.70 2.70 2.50 4.80 1.70 2.80 1.70 17.60 3.60 3.70',
+  '626': 'x3,wh;0.80 2.i0 1.60 3.60 3.40 5.70 2.60 3f.50 4.20 7.60 4s.51 5.61 3.41 5.21',
+  '627': 'wl;0.70 3.30 6.60 3.70 2.40 5.30 1a.10 8.10 8.20 7.20 7.40 1j.10 8.50 4.70 2.80 1.80',
+  '629':
+    'wz,xe,xc,x9,wg,x3,wl;2t.30 6.40 5.10 8.30 6.00 9.30 6.50 2w.00 t.10 8.20 7.20 7.40 5.00 ' +
+    'l3.71 2.61 3.11 8.41 5.41 2n.42 5.62 3.32 6.32 q.43 5.43 5.23 oc.04 u.35 6.35 6.05 9.24 ' +
+    '11.24 7.34 2e.34 6.24 7.24 25.36 6.46 5.26 7.36 fq.36 6.26 7.16 8.56 2w.56 4a.f6 4.36 ' +
+    '6.76 2.86 2t.86 1.56 3.96',
+  '630':
+    '11c+11g,11k,yr,11c,11g;0.00 2s.01 9.51 4.21 7.71 2.11 1l.31 7.41 5.81 1.81 1.71 2.71 ' +
+    '2.61 3.12 n0.43 5.23 7.53 2w.63 3.43 p5.23 7.73 2.73 m.44 5.14 8.44 5.34 1u.53 y.54 ' +
+    '4.64 4cr.23 7.53 4.43 5.63 3.43 5.33 1a.73 2.43 5.63 3.63 3.53 1i.73 2.73 2.73 2.73 ' +
+    '2.73 2.73 2.73 2.63 3.73 2.63 3.63 3.73 2.73 2.73 2.73 2.63 3.43 5.33 6.43 5.33 6.43 ' +
+    '5.33 6.43 5.43 5.43 5.33',
+  '631': '11c;1.70 2.50 4.60 3.50 4.50 4.50 4.50 4.70 k2.50 4.70 2.60 3.60 3.50',
+  '632':
+    '11b,11c,11d;0.70 3.70 2.40 5.50 4.70 2.70 2.80 1.70 2.70 2.70 2.21 7.21 7.20 25.62 d.01 ' +
+    '9.11 8.61 3.01',
+  '633':
+    '11i,11d,11f,11e,116;0.70 3.70 2.70 2.50 4.70 2.40 5.70 2.80 1.60 3.00 9.70 2.10 8.10 ' +
+    '8.20 1u.81 2.71 2.71 2.51 4.51 4.61 1h.61 2v.41 li.32 7.52 2b.43 m4.71 2.61 3.51 4.81 ' +
+    '1.31 6.51 4.51 3.91 l.41 5.41 5.61 21.34 6.34 2d.04 k.34 6.24 7.34',
+  '634':
+    '11j,11u;0.90 1.30 6.80 1.30 6.50 4.10 8.40 5.70 l.81 2.71 2.41 5.71 2.41 i7.40 5.60 ' +
+    '3.80 1.60 3.60',
+  '635':
+    '10v+11a,11a,11v,10v;0.00 0.31 6.61 3.51 4.61 3.61 3.81 1.61 3.61 3.61 3.61 2.42 6.22 ' +
+    '7.22 7.52 4.32 6.32 hy.43 5.73 2.43 5.43',
+  '636':
+    '10w+10x+11l+11n,10x,10w,11o,11q,11p,11r,11p+11q+11r,11l,11n;0.00 0.21 7.41 5.21 r.62 ' +
+    '3.22 7.22 7.12 8.22 6.63 4.53 4.33 6.23 7.33 6.33 1a.54 4.65 3.56 4.66 3.76 1f.07 0.66 ' +
+    '3.66 3.86 1.86 1.66 3.46 cd.48 5.48 5.38 6.38 1u.59 4.59 4.49 5.79 2.49',
+  '637':
+    '10t,117,111;0.60 4.i0 1.70 2.20 7.30 5.90 1.70 2.30 6.20 7.40 5.60 2v.60 2.90 4h.80 ' +
+    '1.60 1.00 1.41 ir.72 2u.62 3.42 2x.52 2w.52 1h.02 1e.82 2t.72',
+  '638':
+    '110+113,110,118,114,10t,113;0.00 0.21 7.41 5.51 4.41 5.41 4a.32 7.02 9.02 9.22 7.22 ' +
+    '7.02 1c.53 5.43 5.13 30.03 31.23 7.23 7.33 24.34 6.64 3.24 3t.25 7.15 8.05 9.25 7.25 ' +
+    '7.25',
+  '639':
+    '10u+11t,10u,11t,11s,119,11m,119+11m,11h,112,113,115,10y,10z;5k.00 0.51 4.71 2.62 3.62 ' +
+    '3.42 5.52 4.52 4.53 k4.74 2.84 1.74 2.84 1.44 5.74 2.55 x.06 0.74 2.84 1.64 3.74 2.s4 ' +
+    'pu.33 7.23 7.63 3.73 2.63 3.43 5.33 z.77 3.67 3.87 1.87 1.77 2.77 2.77 2.87 l.57 4.77 ' +
+    '2.77 2.67 3.57 kx.88 2.78 2.79 5c.48 2x.68 3.58 1h.0a 14.2a 7.7a 16.3a 6.2a 7.2a 7.4a ' +
+    '1s.5b 2m.9c',
+  '640':
+    '11z,12m,12j,12k,11w;0.00 2s.20 7.40 55.60 3.50 4.30 6.20 7.40 5.20 7.30 10.51 4.51 4.31 ' +
+    'g.22 7.32 hx.33 7.43 5.03 9.03 9.03 j.62 3.42 p.63 3.43 5.23 7.43 5.33 6.43 23.21 h.33 ' +
+    '6.53 2w.53 4.04 513.80 1.60 2.90 1.80 1.60 3.i0 1.70 m.70 2.80 1.70 2.80 1.50 3.90 ' +
+    '15.50 4.50 3.j0 1.80 1.50 4.80 1.50 4.70 1.90 1.50 4.i0 1.60 3.40 4.90 1.40 5.70 2.60 ' +
+    '2.90 1.30 6.50 4.40 5.40 5.30 6.20 7.30 6.10 8.20',
+  '641': '11z;1.70 2.40 5.40 5.50 4.40 5.50 4.10',
+  '642': '12j;0.40 6.80 1.80 1.40',
+  '643':
+    '12a+12b+12c,12c,12b,12a,11w;0.00 0.61 d.52 4.32 g.43 5.53 4.43 19.82 1.62 3.32 6.22 ' +
+    '7.52 4.52 3q.32 1a.52 40.42 5.12 8.22 7.32 6.02 1d.42 5.34 56.22 7.22 r.72 2.42',
+  '644':
+    '121+128,121,128,124,125;0.00 0.41 5.41 5.41 5.31 6.42 4b.13 8.73 oi.04 9.04 9.24 7.34 ' +
+    '6.24 7.14 8.34 10.04 9.34 6.14 8.04 9.34',
+  '645': '123,12l,125;0.60 4.30 6.70 4s.70 2k.21 2z.61 2v.41 p.02',
+  '646':
+    '12l,12p;0.50 5.40 5.80 1.70 2.70 1.40 1.30 1.20 11.10 30.60 2b.41 5.31 lu.00 31.30 ' +
+    '2y.50 4.80 1p.10 8.60 3.00 9.80',
+  '647':
+    '122,111,vu,12e,12l;0.80 1.f0 5.30 6.40 5.30 6.00 9.20 7.00 sb.20 2p.60 3.50 4.20 7.40 ' +
+    'z.01 1d.42 73.31 f.53 2n.44 5.64 3.54 4.54 4.34 6.24',
+  '648':
+    '12i,11x,11y,11w,117;0.70 3.80 1.40 5.70 2.30 6.30 6.50 4.40 5.70 2.80 0.11 9.01 9.01 ' +
+    '9.21 7.41 5.01 9.01 9.02 s.02 0.13 8.02 9.62 3.02 9.02 9.02 9.22 10.94 2j.42',
+  '649':
+    '12j,129,127,126,125,121,124,12o,12p,12n,12d,12f,12g,12h,12m,120,11z,11w,12i;2t.00 9.10 ' +
+    '8.20 7.20 7.60 3.50 4.30 3r.71 3.61 2v.11 8.61 ie.42 6.22 7.22 7.32 1t.33 7.23 7.43 ' +
+    '5.33 1t.04 a.54 4.44 5.14 8.15 2q.34 1j.06 k.76 2.66 fm.87 2j.18 9.08 31.58 4.38 4w.08 ' +
+    '9.48 5.88 1o.49 6.19 8.09 9.09 e5.29 7.29 7.89 96.3a 6.8a 2.3a 2y.2a cy.6b 4.6a 3.5a ' +
+    '2c.6b 3.6b 3.5b 5o.3b 6.4b 2x.4b eu.0c u.6d 3.7d m.1c 3j.4d 6.3d g.8d v.0c 27.3d 6.5d ' +
+    'hm.4e 5.1e 8.4e z.1e 11.8f 2.8f 1.7f 2.5f 4.5f 1.0f 2.7f 2.3g 6.4g p.7g 2.7g 2.5g 4.8g ' +
+    '1o.7e 3.7e 2.7e 2.4e 5.6e 3.1e 1c.3e 6.3e 6.5e 4.1e 8.1e 8.4e 5.4e 5.2e r.5e 4.5e 4.3e ' +
+    '6.0e d0.4h 6.4h 5.2h 7.6h 3.5h 4.4h 5.6h 3.4h p.6i 3.5i',
+  '650': '10a+10g,10a;0.00 0.61 3.61 3.61 3.81 1.71',
+  '651':
+    '10a,10c,10m,10g;1f.70 2.70 2.80 1.70 2.60 ru.61 4.31 6.41 5.21 7.61 1h.51 4.31 6.21 ' +
+    '7.21 7.51 4.41 5.31 10.51 4.21 7.11 8.31 6.41 5.31 1a.01 9.22 7.32 6.22 1v.41 5.51 4.51 ' +
+    '22.31 6.51 4.21 d9.83 1.63 2.93 1.73 2.73 1g.63 3.63 3.73 2.83 1.33 6.63 3.73 2.63 n.33 ' +
+    '6.23 7.03 9.33 1u.43 5.33',
+  '652':
+    '10b,10c;0.80 2.50 4.20 7.50 4.60 3.70 2.40 5.01 k9.60 3.50 4.20 7.60 3.60 3.40 5.50 ' +
+    '4.40 5.40 5.70',
+  '653': '10h;0.40 6.50 4.40 5.80 1.40 5.40 kp.50 4.30 6.60 3.70 2.40 5.50 4.60 3.80 1.70',
+  '654': '10i;0.90 1.70 2.70 2.80 1.80 1.40 5.70 2.50 4.00 j.20 7.30 6.20 7.30 6.20 7.40 5.20',
+  '655': '10d;0.90 1.70 2.80 1.80 1.80 1.10 8.00 lx.40 5.40 5.30 6.50 4.50',
+  '656':
+    '104,zs,105;0.60 4.70 2.60 3.00 9.50 4.40 19.00 9.00 9.11 8.01 9.21 7.31 6.01 3v.71 2.41 ' +
+    '5.71 2.11 8.01 1m.01 a.21 7.71 2.51 4.51 4.61 3.11 8.71 2.31 g.21 7.71 2.01 9.31 6.51 ' +
+    '4.01 2r.01 9.21 89.01 9f.30 6.70 2.60 3.60 3.30 4c.22 7.12 8.52 4.02 9.02 9.72 16.52 ' +
+    '2w.12 8.62 3.52 4.22 9w.02 k.50 4.22 7.32 6.52 4.22 1b.32 6.42 23.62 3.02 9.22 7.32 ' +
+    '1u.02 1d.02 27.20 7.20',
+  '657': '10f,10e;0.20 8.70 2.80 1.70 2.40 5.80 1.70 w.40 5.01 j5.40 5.60 3.50 4.70 2.50 4.50 4.30',
+  '658': '10e;0.50 5.50 4.60 3.20 7.70 2.30 6.50 4.20 7.30',
+  '659': '10l;0.40 6.50 4.70 2.60 3.20 7.40 5.70 2.50 4.60 3.50',
+  '660':
+    'zy;0.00 1e.40 5.30 6.60 3.60 3.50 jk.70 2.40 5.70 2.40 1.00 3.50 4.00 4.20 2.70 2.70 ' +
+    '2.40 5.20',
+  '661': 'zy;1.20 7.30 6.50 4.40 5.60 p3.20 7.60 2.90 1.40',
+  '662':
+    '10m;0.60 4.70 2.60 3.70 2.60 3.30 6.60 3.70 2.70 2.80 jr.40 6.60 2.70 2.50 4.60 3.70 ' +
+    '2.40 5.50 4.50 e.70 2.70 2.30 6.60 3.60 3.40 5.70',
+  '663':
+    '10m;669.50 4.60 3.40 5.40 1t.60 3.30 6.60 3.60 3.20 7.50 4.60 3.80 1.60 d.30 6.40 5.80 ' +
+    '1.30 6.60',
+  '664': 'zl;0.80 2.60 2.00 1.70 1.00 m7.80 2.50 3.70 2.40 5.40 5.70 2.80',
+  '665':
+    'zw,zz;0.70 3.60 3.40 5.40 5.60 3.60 3.70 2.50 k4.70 2.60 3.60 3.60 3.70 2.50 4.70 2.60 ' +
+    '3.60 3.01',
+  '666':
+    'zz,zw,100;0.70 3.60 3.50 4.60 1r.60 3.60 3.80 1.70 2.70 2.70 2.11 11.42 6.42 5.62 3.72 ' +
+    '2.52 4.62 3.12',
+  '667':
+    '10r,10k;0.50 5.50 4.30 6.10 8.40 5.20 1b.60 3.40 5.50 4.50 4.40 4b.50 4.40 5.40 2x.50 ' +
+    'ig.40 5.80 1.70 4s.31 6.61 3.51 4.61 3.61 3.31 6.71 3o.21 7.41 5.21 7.21 7.41',
+  '668':
+    '10o;0.60 4.50 4.60 3.20 7.60 3.60 3.40 5.70 2.40 37.80 1.70 2.40 5.70 2.50 4.60 3.50 ' +
+    '4.80 l.30 6.60 3.40 5.60 3.40 5.30 6.30 6.50 bs.60 3.60 3.30 6.30 6.30 6.40 5.50 4.40',
+  '669':
+    '10m,10c,zw,zi,zk,zj,103,10o,10k,10j;ul.30 6.10 8.10 8.50 4.80 b.01 0.00 12.42 5.02 9.12 ' +
+    '8.02 9.02 9.00 1c.43 6.63 3.43 4.93 1.83 1.73 16.63 3.63 2b.63 3.63 3.83 1.63 3.73 ' +
+    'fc.54 4.34 6.44 5.44 5.44 5.54 4.24 11.54 4.34 6.34 6.04 1w.94 1.74 2.54 4.64 3.54 4.64 ' +
+    '3.84 v.74 2.74 2.44 5.84 1.64 3.44 5.44 z.44 5.24 7.64 3.44 5.44 5.34 1a.44 5.54 2c.34 ' +
+    '6.74 2.74 2.64 1r.44 5.44 5.64 7l.45 5.25 7.75 2.15 8.75 2.85 1.75 3n.95 1.55 2c.35 ' +
+    '6.55 18.65 2v.45 5.25 h.55 4.35 6.55 4.35 6.55 4.35 42.35 6.15 8.65 3.35 6.25 7p.45 ' +
+    '5.45 5.05 31.25 7.45 5.35 q.15 8.65 3.45 5.65 3.45 kz.36 6.46 5.46 5.56 4.26 7.26 1a.46 ' +
+    '6.56 3.96 1.76 2.56 4.76 2.76 w.67 3.47 5.77 2.87 1.57 4.87 1.87 1.87 k1.27 7.57 4.67 ' +
+    '21.27 7.77 2.87 2t.47 5.37 6.47 19.38 6.58 4.58 4.28 1u.08 14.68 3.88 1.38 2y.18 r.29 ' +
+    '8.59 4.79 2.19 8.69 3.29 7.09 13.79 2.49 5.19 8.29 2z.59 4.39',
+  '670':
+    'zu;0.90 1.60 3.80 1.70 2.80 1.70 2.50 4.40 5.50 4.50 jk.70 2.60 3.60 3.60 3.80 1.60 ' +
+    '3.70 2.60 3.60 3.70 2.50 4.60 3.60 3.60 2.90 1.40 5.10 1.20 4.50 4.60 1.00 1.50',
+  '671':
+    'zu,10s,zg,101,zv;2t.20 7.10 8.21 25.40 1.20 1.10 1.50 1.50 4.30 6.70 2.50 ng.70 2.50 ' +
+    '4.40 5.50 4.50 4.50 18.40 5.30 6.70 2.50 4.10 8.60 3.20 11.02 9.12 8.02 9.12 8.12 4d.43 ' +
+    '6.03 9.33 6.43 5.43 5.63 3.03 9.53 o.22 7.22 7.02 9.12 8.22 7.02 9.42 c3.20 1.10 4.60 ' +
+    '3.30 6.60 1r.20 7.60 3.30 6.30 6.60 49.00 9.50 4.50 21.84 2.84 1.74 2.54 4.44 5.74 1.j4 ' +
+    'h9.14 8.14 8.44 5.24 o3.74 2.44 5.44 5.84 1.34 1k.34 6.54 4.04 9.14 8.44',
+  '672': 'zu;2t.20 63d.30 6.80 1.40 4.b0 1.60 1.80 1.30 4.t0',
+  '673':
+    '102,zh,zq;0.90 1.80 1.80 1.70 2.80 9q.51 5.51 4.41 5.51 4.51 4.51 18.51 4.51 4.01 9.31 ' +
+    '6.01 9.21 43.31 6.41 5.31 6.51 4.21 7.71 2a.80 1.60 2.20 3.20 1.90 1.50 4.70 5m.71 2.81 ' +
+    '1.81 2t.51 4.31 1k.32 6.32 6.42 5.72 2.02 1m.42 6.52 4.42 5.32 6.62 3.52 4.42 5.42',
+  '674': '102;1e.90 1.80 1.30 6.30 6.40',
+  '675':
+    'zn+zr,zn,zo,zp,zx,zr;0.00 0.i1 1.61 3.81 1.61 3.71 2.71 v.02 0.41 5.61 3.71 2.61 3.72 ' +
+    '1.12 2.62 1.22 3s.51 4.31 6.01 9.51 4.61 kw.53 5.53 4.63 21.51 4.71 2.51 4.51 1r.94 ' +
+    '1.74 2.74 2.74 2.54 3.j4 1.84 k1.45 5.35 2e.35 6.25 7.25 7.35 6.25 1l.25 7.25 7.35 6.65 ' +
+    '3.55 4.35 6.55 y.35 6.35 6.55 4.35 6.45 5.55 4.45',
+  '676': '10s;0.80 2.80 1.70 2.70 2.80 1.50 4.70 2.70 2.10 jy.80 1.50 4.70',
+  '677': '10n,zt;0.60 4.70 2.50 4.80 1.30 6.60 3.80 v.41 5.31 6.11 8.11',
+  '678':
+    '106,10p,10q;0.80 2.10 8.40 5.00 9.30 6.50 4.60 3.30 6.10 8.10 1c.00 j.51 4.51 n.81 2.61 ' +
+    '3.81 1.81 1.i1 pl.51 d.52 5.82 1.52 4.32 6.32 6.52 4.12 8.72',
+  '679':
+    'zr,zq,10n,zt,zu,109,107,108,103,zg,zm;2t.80 2j.61 3.21 7.21 25.32 6.52 4.32 lj.73 3.43 ' +
+    '5.33 6.43 1t.43 5.43 2x.63 3.73 l6.04 9.44 5.34 6.14 8.34 6.44 5.64 w.55 5.75 29.46 ' +
+    '6.76 2.66 3.66 1r.47 5.47 5.47 5.37 ih.47 6.57 4.47 4v.18 8.08 9.58 4.18 8.08 1n.28 ' +
+    '7.38 6.38 6.28 7.18 8.28 f7.79 2.69 3.69 20.99 1.59 4.i9 1.59 4.59 4.i9 l.54 4.44 5.24 ' +
+    '7.24 1v.49 5.59 4.69 3.29 7.59 ls.6a 3.7a 2.49 5.49 z.6a 3.4a 5.6a 20.7a 3.8a 1.4a 5.4a ' +
+    '5.5a 4a.4a 5.3a 6.4a 5.4a 2x.5a 4.3a',
+  '680':
+    '138,12r,12t;0.80 2.60 3.30 6.60 3.60 3.50 4.10 8.30 6.00 1d.50 4.50 4.50 18.70 2.50 ' +
+    '4.50 22.61 3.51 2b.81 2.51 4.61 3.71 2.41 5.61 3.21 7.31 1a.61 3.61 3.41 1j.61 3.31 ' +
+    '2d.12 9.42 5.72 2.42 5.52 1i.50 4.30 6.30 6.40 5.60 3.40 5.40 5.40 p.80 1.40 5.30 6.40 ' +
+    '5.60 53.20 7.50 4.60 3.60 3.60 n.80 1.50 4.40 5.30 6.50 4.30 4c.70 2.70 2.80 1.30 ' +
+    '52o.10 13.40',
+  '681': '12v;0.30 7.30 6.40 5.50 4.60 3.50 4.40 5.30',
+  '682':
+    '12q,12z,131;0.60 4.70 2.40 5.50 4.40 1i.01 k.41 5.51 4.51 4.81 1.21 7.21 2.21 3e.21 ' +
+    '7.61 1k.11 p.30 6.20 7.20 7.30 4m.60 3.20 1.00 5.50 4.40 5.40 1i.42 6.42 5.32 24.60 ' +
+    '3.60 3.50 4.60 3.60 3.60 3.60 3.40 5.60 d.40 5.40 5.50 4.30 6.70 2.30',
+  '683':
+    '133,135;0.90 1.60 3.60 3.60 3.60 3.40 5.60 x.40 2n.31 6.71 2.61 n.60 16.21 8.11 8.21 ' +
+    '7.61 3.41 5.51 4.61 c1.40 5.50 4.50 4.50 4.50 4.40',
+  '684': '12u,13l,13m,13k;0.60 4.60 3.60 3.30 6.50 4.50 4.50 4.50 n.71 2v.02 2g.32 2o.43 6.23',
+  '685': '13n;0.70 3.60 3.60 21.50 5e.50 4.30 2o.20 h.40',
+  '689':
+    '138,131,12s,130,132,136,133,137,134,12y,12x,12w;2t.50 4.60 2b.60 3.60 3.50 2w.30 6.40 ' +
+    '5.60 17.40 5.20 7.50 22.00 9.80 1.80 1.60 1r.61 2l.61 3.41 5.81 1.61 a3.60 3.60 3.50 ' +
+    '22.00 9.40 5.80 1z.60 3.50 4.50 21.42 6.62 3.52 4.62 3.42 5.42 5.72 hk.53 4.43 2c.83 ' +
+    '2.53 4.03 1.13 23.64 4.54 4.54 4.54 4.54 4.54 40.24 7.24 7.44 5.44 5.34 fg.55 4.45 5.45 ' +
+    '6.45 1r.55 5.35 6.55 22.85 1.85 1.65 3.55 1s.26 7.76 2.46 22.07 a.46 5.36 6.66 3.66 ' +
+    '3.27 f6.88 2.48 5.28 7.58 1s.68 3.68 3.58 4.68 3.58 49.39 7.39 6.59 4.49 1s.5a 5.6a ' +
+    '3.6a gr.6a 1q.0b a.5b 4.5b 8g.3b 6.4b 5.1b 30.5b 4.2b',
+  '690':
+    '13d,13o,13p;0.70 3.40 1.00 3.60 3.70 2.80 1.70 2.40 1j.10 8.20 7.10 8.00 31.50 1i.30 ' +
+    '6.20 1v.10 8.00 at.30 6.50 4.50 4.40 5.70 2.10 1.20 2.a0 1.70 2.70 5w.30 6.40 2n.20 ' +
+    '7.20 2f.40 2d.70 2k.40 gj.40 5p.31 2d.61 2w.21 7.41 2r.01 5.31 1u.51 2m.11 b1.02 2.42 ' +
+    '2v.32 2e.42 2x.52',
+  '691': '13a;1.30 6.40 5.40 5.30 6.40 5.20 7.50 4.50',
+  '692': '13c;0.70 3.60 3.70 2.60 3.60 3.70 2.60 3.40 1.00 3f.60 3.70 2u.50 22.40 5.20 5r.40 2x.20',
+  '693': '13a;0.80 2.40 1.00 3.80 1.60 3.50 4.70 2.70 2.30 6.10 i.50 2w.50 7w.50 4.10 8.50',
+  '694': '13b;0.40 6.20 7.40 5.40 5.30 6.30 6.30 4c.30 24.40 3h.20',
+  '695': '13e,13f;0.70 3.60 3.30 24.21 1b.50',
+  '696':
+    '13h,13j,13i;0.70 3.20 2e.41 q.01 2h.41 2d.61 2b.61 2l.51 2m.21 2p.52 4.22 bl.62 3.42 ' +
+    '23.50',
+  '697':
+    '13f,13j;0.70 3.60 3.60 3.60 3.60 3.60 3.40 1j.20 2f.20 2f.40 5.10 30.60 3.00 27.30 ' +
+    '38.01 dl.20 25.30 6.40 2x.60 3.70',
+  '698': '13g;0.70 3.60 3.60 3.60 3.60 3.00 45.60 3.30 5g.30 lu.00 9.20 7.20 ph.50 2w.40',
+  '699':
+    '13d,13a,13o,139,13b,13e,13f,13g,13j,13i,13r,13q;2t.b0 2g.40 5f.70 2k.41 19.41 1j.41 ' +
+    '5.31 6.01 9.31 1k.11 8.01 9.11 8.21 7.01 9.01 9.31 1a.61 3.41 23.51 5e.52 4.42 5.42 ' +
+    '23.52 4.52 4.32 6.32 6.42 5.22 7.32 1a.12 8.32 6.32 6.22 1l.02 t.33 1t.03 a.63 2v.13 ' +
+    '26.23 2p.13 8.13 8.13 8.13 30.13 7g.54 2c.44 5f.64 3.54 8q.65 3.15 8u.15 1c.66 3.56 ' +
+    '22.26 5h.57 4k.57 2c.57 9k.05 31.55 2c.08 3b.15 1w.45 2m.09 4.09 f.69 3.29 1v.39 1.19 ' +
+    '3.49 b9.67 3.37 1u.6a 3.6a 3.0a 27.6b 5c.7b 3.6b 3.4b 22.7a 3.6a 3.1a 8.6a',
+  '700':
+    '142+143+144+145,143,144,143+144;0.00 0.41 5.61 3.71 2.41 5.61 3.51 4.71 2.51 3.91 jr.71 ' +
+    '2.71 2.61 3.71 2.31 0.02 0.11 3.11 0.02 0.21 4.61 x.61 3.51 4.61 3.51 4.03 0.32 5.11 ' +
+    '0.03 0.22 4.51 4.11 0.03 0.31 3.51',
+  '701':
+    '13v,143,144,14k,14j,14g,13w,14a;2t.40 5.40 f.51 4.41 5.21 7.41 z.52 4.42 5.02 26.43 ' +
+    'my.31 6.41 5.31 1a.41 5.31 6.51 2w.61 3.51 4.61 2v.41 1j.61 21.41 5.21 en.31 6.41 19.44 ' +
+    '5.54 4.54 5o.64 3.54 1i.34 6.44 5.44 23.55 4.55 4.45 fz.36 rn.07 a.57 4.37 6.37 6.07 ' +
+    '1.57 2.37 6.47 5.57 o.37 5g.17',
+  '702': '142,144;669.50 4.51 4.61 3.71 2.71 2.71',
+  '703':
+    '142,142+143,145,143;6bt.50 0.01 0.00 2.52 0.00 3.70 2.70 2.70 2.50 0.03 0.00 2.60 3.70 ' +
+    '2.70 2.70',
+  '704': '145;691.60 3.60 3.60 3.70 2.80 1.40 5.50 4.50 4.30 6.50',
+  '705': '13w;0.30 7.50 4.50 4.50 2m.20',
+  '706': '14b;0.20 8.30 6.70 2u.30 6.30 6.30 1u.50 22.50 4.60',
+  '707':
+    '14g,14i;0.50 5.50 4.40 5.60 3.50 4.60 3.60 17.20 7.30 6.30 1u.50 5e.60 3.60 3.60 3.60 ' +
+    '1q.61',
+  '708':
+    '147,14h,13z,13t;0.70 3.50 4.30 6.60 3.60 3.20 7.60 3.60 66.51 5.61 3.41 5.41 5.41 5.21 ' +
+    '7.51 1i.61 3.41 1t.31 6.11 2g.01 2r.41 2n.60 3.40 5.40 5.60 3.40 5.60 3.50 4.50 4.50 ' +
+    '5y.40 5.60 3.50 22.50 4.50 4.50 21.72 3.42 5.52 4u.63 3.53 4.63 3.53 4.63',
+  '709':
+    '13w,140,145,14j,144,143,13x,13t,13s,147,14g,13y;5v.30 6.50 22.30 2n.41 6.31 6.11 8.11 ' +
+    '8.11 8.11 8.31 10.51 4.51 4.51 22.62 3.42 5.52 4.52 1s.53 4.83 1.03 9.53 1r.73 3.63 ' +
+    '3.63 3.73 2.52 4.52 4.42 5.52 90.34 6.54 ok.65 3.65 3.55 4.65 5d.36 6.46 1j.36 6.26 ' +
+    '7.16 3k.36 2y.36 6.56 bs.45 5.35 6.35 6.35 6.45 73.67 3.67 52.68 4.68 3.68 3.58 1r.77 ' +
+    '3.67 3.57 4u.79 2.49 5.39 6.49 f.09 6x.4a 5.5a 4.6a 3.5a 4.6a 3.6a 16.7b 3.5b 4.3b 6.4b ' +
+    '7d.59 4.59 4.59 4.49',
+  '710':
+    '13v,144,14f;0.70 3.50 4.60 3.70 2.70 2.60 3.40 1t.20 7.50 4.01 2r.20 7.20 ex.60 3.60 ' +
+    '3.50 4.60 3.60 71.10 2q.22 2p.50 4.40',
+  '711': '13v;p1.60 3.60 3.60 3.60',
+  '712': '13v;669.60 3.40 5.60 3.80 1.50 4.80 1.50 4.30',
+  '713': '13v;691.20 7.50 4.60',
+  '714':
+    '14e,148,141,13u;0.70 3.30 6.40 5.70 2.70 2.60 3.50 4.70 2.70 2.70 2.01 5j.10 ox.62 4.42 ' +
+    '5.62 4t.63 3.43 j1.33 6.33 6.43 2x.33 2y.03',
+  '715': '13u;0.60 4.80 1.50',
+  '716':
+    '14l,13x,14c;0.90 1.80 1.80 1.80 1.60 3.30 6.70 w.10 8.20 7.10 26.60 3.10 8.20 25.30 ' +
+    '6.00 9.20 7.40 l8.21 8.11 8.11 8.01 31.11 1w.00 9.10 26.22 7.02 9.12 8.22 39.31',
+  '717': '14c,14d;1.60 3.60 3.60 21.40 2n.01 5j.50 4.50 4.50 22.60 3.40 2d.30 6.20 39.60 3.50',
+  '718': '146;0.70 3.60 2b.30 2y.00 2h.60 3.20',
+  '719':
+    '148,149,14f,14l,146,14c;2t.50 4.20 2e.00 k.00 9.30 6.30 6.30 19.41 m3.62 4.62 3.52 4.62 ' +
+    '3.52 4.52 4.42 5.52 3q.52 4.32 m4.23 2z.33 2y.23 1l.13 44.14 2g.24 25.24 7.14 1w.14 ' +
+    '89.75 3.65 3.55 4.55 4.55 4.65 17.55 4.35 6.75 7k.64 2v.14 2g.14 30.34',
+  '720':
+    '15d,14w,15c;1.30 6.00 1.40 3.40 5.30 6.50 4.50 4.60 3.60 3.20 7.20 2z.30 2y.20 2f.20 ' +
+    '7.00 3l.20 7.01 6x.80 1.70 2.40 4.90 1.40 7x.40 5.60 35.40 40.62 2w.42 23.32 g.32 24.42 ' +
+    '2m.02 a.12 2g.12 5i.70 2.60 3.60 7u.90 2t.40 23.10',
+  '721': '15d;0.00 p0.30 1.20 2.60 3.60 1.00 1.00 9.40 5.70 2.50 4.40',
+  '722':
+    '14w,14o,158,14m,15d;0.80 2.70 2.50 4.70 2.60 3.40 5.10 8.20 3j.10 8.40 5.00 9.40 23.50 ' +
+    '4.50 4.50 4.40 5.40 19.20 7.01 j.12 ij.01 a.61 3.21 25.31 2o.33 2o.03 9.63 2b.03 9.53 ' +
+    '18.40 1j.61 21.11 s.11 a8.10 30.20 2z.30 24.40 5.60 d.10 5i.24 7.04',
+  '723': '14m;0.70 3.60 3.10 8.40 5.60 3.30 6.50 1s.30 6.70',
+  '725': '15e,15f;0.50 5.20 7.50 4t.01 u.01 1x.21 2p.21',
+  '726': '158;0.60 4.20 7.60 3.50',
+  '727': '157;0.80 2.60 3.50 2c.30 2e.20 2p.10 8.10 8.00 27.20 7.20 7.40 5f.30',
+  '728': '14n,157;0.70 3.60 3.60 21.00 9.40 5.40 5.20 1v.20 7.00 59.60 2l.31 38.40',
+  '729':
+    '15d,14w,14m,15e,158,14o,15c,157,14n;2t.50 4.40 p.11 30.10 1w.32 4.02 29.82 1f.42 kf.22 ' +
+    '2z.22 7.22 1v.52 ng.22 1l.63 17.02 kj.60 3.10 2g.14 8.14 8.14 26.65 2l.44 5.44 5.34 ' +
+    '6.04 27.56 2c.16 2q.27 7.27 7.17 ai.58 4.28 2f.78 2.08 9.68 21.78 ma.17 8.77 2.17 30.37 ' +
+    '5q.57 18.57 2m.27 7.27 2z.27 7.27 7.47 1t.27 8t.37 6.37 1k.48 5.58 36.48 7n.58 2c.18 ' +
+    '8.55',
+  '730': '14z;0.50 5.60 3.80 1.60 3.80 1.40 kp.50 4.30 6.50 4.60 3.60 3.50',
+  '731':
+    '153,152,14v,14x,14y,14u,154,14r,150;2s.30 7.20 7.50 8.40 1.30 6.30 1a.11 8.61 3.41 5.51 ' +
+    '1s.52 5d.22 8.22 7.42 5.42 5.32 1u.12 2g.22 c5.11 s.01 1d.23 7o.63 4.53 4.53 4.43 4l.53 ' +
+    '4.33 aq.63 2l.53 2w.63 3.33 2y.63 3.13 30.13 gw.00 1.60 1.40 2n.10 26.41 5.21 1b.14 ' +
+    '2f.34 1b.14 8.03 1n.14 15.04 10.14 2q.04 8.04 1.14 7.04 2.04 6.44 6.34 9u.05 a.45 5.85 ' +
+    '1.06 1w.17 9.37 6.47 5.07 lc.98 1.68 3.78 2.78 2.68 3.68 3.18',
+  '732': '155,151;0.90 1.70 2.80 1.50 4.80 1.60 3.70 kc.61 3.01 2.51 1.71',
+  '733': '156;0.70 3.20 7.40 5.60 l7.40 5.50 4.20 7.30 6.40 5.30 6.40 5.60',
+  '734': '151,14p;0.70 3.60 3.60 3.60 3.60 3.60 3.30 10.21 5h.31',
+  '735': '14s;0.90 1.60 3.80',
+  '736': '14t+154,14t,154;0.00 0.41 5.31 6.51 4.41 5.51 4.51 4.71 2.01 9.82',
+  '737':
+    '14p,15b;0.50 5.40 5.80 1.40 5.50 4.50 4.40 5.80 l.60 3.40 5.40 5.70 2.50 4.60 3.20 ' +
+    '3t.20 7.00 2h.20 b1.80 1.70 2.70 2.70 2.50 4.30 6.60 3.70 2.40 f.70 2.40 5.30 6.50 ' +
+    '7c.60 3.60 4f.00 k2.11 9.21 7.51 4.21 25.41 2d.21 7.51 54.80 1.80 29.80 4.30 d.60',
+  '738': '159,150;0.70 3.60 3.60 3.80 1.20 7.50 3.00 3w.40 f.50 1i.10 i.00 5t.31 2e.21 39.11',
+  '739':
+    '15a,154,159,14q,14v,152;0.80 2.50 4.50 4.70 1.90 29.20 7.10 1.30 3.20 2z.80 v.21 7.41 ' +
+    '5.31 24.72 2.32 6.52 5.22 2.02 3.52 5.02 1.52 1.32 1.12 3.82 8.02 c.62 3.72 2.42 5.52 ' +
+    '4.22 6.92 s.02 b.73 3.53 4.73 2.63 3.53 4.63 3.02 1.22 1.02 c1.74 2k.44 2n.25 2z.35 ' +
+    '2y.05 4y.05 u.35 6.25 7.35 1a.64 85.50 4.60 3.40 23.80 1.00 2h.30 6.70 2a.40 2n.30 ' +
+    '2y.80 1.80 1.00 2r.10',
+  '740':
+    '15o+15t,15o,15t;0.00 0.31 6.81 1.71 2.61 3.41 5.01 9.22 6l.51 4.61 3.61 4t.41 2n.41 ' +
+    '37.41 2d.11 2g.31 88.11 8.81 1.41 5.11 8.11 4e.61 3.21 a.21 1.01 2.11 8.01 9.11 1.11 ' +
+    'w.01',
+  '741': '15o;1p.20 7.40 5.40 5.30',
+  '742':
+    '15p,15o,15r,15q,15s,15k;0.c0 8.30 6.50 4.00 1x.00 2h.00 2r.01 9.41 5.51 4.71 2.31 1u.61 ' +
+    '3.61 io.72 3.32 6k.20 1a.43 2n.44 6.64 g6.85 5c.15 5s.75 2a.15 30.55 2c.65 35.35',
+  '743': '15i;0.90 1.20 7.20 7.00 9.70 2.10 8.40 5.40 p.40',
+  '744': '15g;0.80 2.40 1.20 1.40 1.20 1.20 7.20 7.20 7.20 1.00 5.70 5c.50',
+  '745':
+    '15j;0.70 3.60 3.60 3.60 3.60 3.60 3.50 4.50 18.40 37.10 1m.30 2o.10 2q.00 9.10 2q.70 ' +
+    '2.20 7.10 8.20 7.30 6.20 3t.80 1.60 3.60 3.60 3.60 3.70 2.80 1.70 2.60 6r.10',
+  '746': '15j;1.80 1.80 1.80 1.80 1.40 5.50 4.40 f.30 g.40',
+  '747':
+    '15x,15m,15j;0.60 4.30 6.80 1.60 3.60 3.50 4.60 x.60 3f.41 2x.31 1k.11 3a.31 2e.11 8.02 ' +
+    '4z.80 1.80 1.40 5.50 4.80 79.00 31.01 9.10',
+  '749': '15p;2t.20',
+  '750':
+    '15h,15u;0.90 1.80 1.80 1.50 4.80 1.80 1.60 3.70 2.60 3.40 4b.20 1b.60 3.60 3.40 23.40 ' +
+    '5.50 4.40 5.20 7.50 4.40 41.51 dq.10 8.50 4.30 6.60 3.60 3.50 4.30 6.00',
+  '751': '15h;m9.80 1.120 1.80 1.80 1.80 1.70',
+  '752': '15h;p1.60 3.50 4.70 2.60 3.70 2.80 1.70 1.j0 1.70',
+  '753':
+    '15m,15v;0.10 9.10 2.30 2.40 5.70 2.70 2.70 2.70 1.90 1.80 1.40 5.01 31.40 5.10 8.00 ' +
+    '9.20 7.10 1c.20 dt.00 9.70 2.50 4.00 9.00 9.00 9.00 9.10 i.00',
+  '754':
+    '15m,15u,15v,15l;1.70 2.40 4.90 1.30 6.30 24.21 2f.31 2e.11 30.02 2r.31 2e.21 7z.60 ' +
+    '5n.10 4u.00 x.43',
+  '755': '15l;0.90 1.80 1.80 1.80 1.80 1.70 2.80 1.70 2.50 4.60 1h.40 2d.00 fj.90',
+  '756':
+    '15n;0.10 1.20 1.c0 1.i0 1.80 1.60 2.00 2.00 3.00 3.60 2.00 5.20 2.40 jl.80 1.60 3.40 ' +
+    '5.60 3.70 2.60 3.50 4.70 2.80',
+  '757': '15n,15l;1.50 4.20 5h.61 53.11',
+  '758': '15v,15y;0.40 6.00 9.60 3.60 3.60 3.60 3.20 7.30 1.10 1r.00 1x.20 2f.40 5f.00 31.21 2f.00',
+  '759':
+    '15l,15m,15u,15v,15y,15w,15h;3d.30 6.50 1s.80 1.20 s9.11 30.21 25.11 2g.21 2f.11 eo.02 ' +
+    '9.12 8.12 1b.02 a.32 6.22 25.12 mg.23 2f.33 2o.23 2z.03 2h.14 2p.04 a.03 9.14 2q.03 ' +
+    '27.25 88.75 2v.05 59.45 2n.45 37.25 2f.25 ar.06 3v.06 2h.16 4y.26 gv.16 4y.26 7.66 ' +
+    '5n.46 5.36 6.16 1m.46 5.46',
+  '760': '173;0.90 1.r0 1.i0 1.80 2.90 a.20',
+  '761':
+    '173,16x,16n,170,16p,172,16v,16w;2t.30 6.20 7.20 6.00 4q.20 7.20 7.20 2z.30 6.50 3.00 ' +
+    '4g.41 2c.51 37.21 25.42 dr.50 2m.30 2y.50 2c.70 aw.23 2p.73 2j.03 3.43 2k.74 jh.05 ' +
+    'rh.66 4.46 5.16 8.36 6.56 4.36 0.07 40.87 2k.47 5.17 8.57 4.37 6a.36 2ko.40 5.40 5.50 ' +
+    '4.20 7.60 3.70 2.30 6.80 1.40',
+  '762': '16u,16p;0.70 3.70 2.60 3.70 2.60 3.70 2.60 3.20 7.61',
+  '763': '16p;0.70 3.40 5.d0 6.70 2.40 5.50 4.40 5.50 4.40 5.70 2.00 31.70 2.00',
+  '764': '16r;0.60 4.70 2.70 2.70 1.00 9.00',
+  '765': '16t;0.40 6.30 6.10 8.20 6.00 a.20 7.10 8.20',
+  '766': '16q+16s,16s,16q;0.00 0.61 3.62 3.62 4t.32',
+  '767': '16o;0.40 6.30 6.10 8.20',
+  '768': '171,16o;0.20 8.30 6.30 6.20 6.00 a.10 7.h0 n.41',
+  '769':
+    '173,16z,16q,16o,171,16n,16y;2t.40 2m.d1 7.71 20.22 7.82 29.13 je.83 83.73 1.03 2i.73 ' +
+    '2k.34 6.64 3.44 d7.45 5e.65 4.45 5.25 25.15 30.a6 27.56 2l.56 5.46 55.76',
+  '770':
+    '168;0.60 4.10 8.70 2.80 1.70 2.20 7.30 kg.70 2.50 4.30 6.40 5.60 3.50 4.70 2.30 q.80 ' +
+    '1.70 2.80 1.80 1.30 5g0.70 2.10 8.40 5.20 6.10 9.50 4.00 1.10 5.90 1.30',
+  '771':
+    '168,16a+16b,16a,16b,16m,16d,169,16l,16h,15z,160,166,164,162,161,16k,16j;2t.50 4.60 3.i0 ' +
+    '1.30 1j.01 0.62 3.93 3v.94 1.74 lg.50 17.35 6.25 7.45 5.25 7.05 9.35 6.25 1.35 2.35 ' +
+    'q.26 7.16 8.06 9.06 a.66 2.06 1e.27 2p.87 2j.37 5.67 4.67 20.67 7.07 aq.68 5d.59 5e.2a ' +
+    'jc.3b 2y.1b 31.1b it.2c 4e.60 w.8d 5b.5e ig.9f k.9g 32.9g 1z.cg 2f.7g 2.7g c.1g fs.6g ' +
+    '3.7g 5m.7g 20.4g 2x.1g',
+  '772': '16m;0.40 6.60 3.10 8.40 5.30 6.20 6.00',
+  '773': '167,168;0.p0 5.00 12.01',
+  '774': '16k;0.90 1.60 3.20 6.00 a.80 1bi.00',
+  '775': '16f,16e;0.70 2.30 2f.01 2q.01 1.41 2m.91 2s.41 2d.c1',
+  '776': '163;0.70 2.50 4.00 a.60',
+  '777': '16h;1.60 85.20',
+  '778': '15z;0.e0 5.00 a.10 7.00 1o.40 1n.00 z.50 3w4.30',
+  '779':
+    '16c,16m,16k,16g,168,165,163,16h,16i,160,15z;2s.80 2.80 2t.41 4.81 1q.41 5.41 lt.82 1.82 ' +
+    '1.22 2z.52 4.52 4a.32 2x.02 31.02 9.12 30.02 9.02 9q.83 5a.73 m1.54 4.h4 2.24 1u.85 ' +
+    '2.45 5.55 4.55 4.45 1j.66 2l.66 2l.46 2m.47 5.07 9.07 4.07 5.87 2t.47 9u.98 5b.68 2l.68 ' +
+    '84.79 2l.6a 9t.5a 4.2a 3j.6a 3.5a 4.7a 2.6a 3.6a 22.0a s.2a',
+  '780':
+    '18l;0.40 g.60 3.30 6.70 2.50 4.50 4.10 kn.20 2.40 7.10 6.30 5.00 a.30 5.00 u.30 6.50 ' +
+    '4.80 1.70 2.80 1.60 3.60 3.60 3.40 5.50 5eu.40 1.20 1.70 2.90 9.20 8.50 4.60 3.90',
+  '781':
+    '18l,17s,18k,17q,17p+18h,17p,18h,17u,18a,17v,18d,18c,182,183,17x+17y+17z,17y,181,17z,17x,184,180;a.50 ' +
+    '1l.10 6.70 m.30 3h.50 4.30 7.10 7.10 t.30 6.50 4.40 d7.50 4.40 f.10 7f.51 5.31 6.41 ' +
+    '5.51 4.21 7.31 6.41 3q.82 2.42 5.72 2.72 4h.63 4.73 1.43 6.43 1t.r3 34.53 4.73 2.53 ' +
+    'y.33 2y.43 54.04 0.75 1.e5 1.25 2.55 4.55 4.46 5.66 49.45 5.45 1t.15 30.15 2g.45 5.55 ' +
+    'dg.70 2.40 5.40 23.20 7.30 6.20 2z.67 1q.97 33.57 21.f8 1.78 23.59 5.69 3.49 f.17 cq.7a ' +
+    '2.6a 3.6a 3.5a 4.6a 49.5a 4.4a 2x.aa 31.4a cn.70 2j.6b 4.2b 7.3b 6.4b 5.1b 1v.0b k.1b ' +
+    '3a.4b 5.8b 3n.5b 4.5b 4.1b 25.8c dn.2d 5h.0e 0.2f 6.0g a.6h 2.9h 1.ji 7s.1j 2g.2j 7e.9j ' +
+    '32.0j 27.4k 2y.3k ga.70 1.00 5.00 2c.40 5.30 6.50 3.60',
+  '782': '18d;0.j0 1.40 5.80 1.60 3.00 2.50 1.30 6.80',
+  '783': '17o;0.80 2.30 6.80 1.60 2.90 1.70 1.80 2.70 2.60 3.60',
+  '784': '17w,18d;0.80 1.00 9.90 1.30 6.50 4.70 2.30 0.01 5p.70',
+  '785':
+    '18b,18j,18i;0.i0 2.70 1.70 3.60 3.80 2t.60 3.30 p.j1 5b.21 2f.41 2m.82 1.32 7.62 3.52 ' +
+    '4.72 2.72 2.52 2w.52',
+  '786':
+    '18g;0.80 1.80 2.70 2.70 2.80 1.70 2.70 2.70 2.70 2.70 5m.70 2.50 4.60 4t.30 6.60 3.40 ' +
+    '5.40',
+  '787':
+    '17r,17t,186;0.120 b.20 2p.d0 24.41 1j.81 1.81 1.81 1.91 2x.21 2.31 2u.71 2t.40 2t.50 ' +
+    'n.72 3.52 7w.80 32.90 2j.50 36.30 2x.90 15.60 3.70',
+  '788':
+    '185,187;0.g0 4.70 1.90 1.80 1.30 5q.70 2.30 p.01 1.01 8.41 5.41 5.41 5.21 7.21 7.21 ' +
+    '8p.20 2t.50',
+  '789':
+    '189,18d,18f,18e,188;4c.i0 1k.60 3.70 1.50 18.70 3.50 4.40 2s.20 48.61 h0.52 5.72 2.42 ' +
+    '5.42 1s.43 2o.i3 7t.74 2.54 3.54 4u.54 5.24 7.44 5.54',
+  '790':
+    '17j;1.70 2.30 6.50 4.70 2.70 2.50 4.60 kd.70 2.30 6.60 3.70 2.70 2.70 2.60 3.70 m.40 ' +
+    '5.50 4.40 5.30 6.70 2.10 8.60 1ah.70',
+  '791':
+    '17j,17i,17m,174,178,177,176,17d;0.00 1h.00 1a.40 5.30 5.90 1.40 e.00 1d.61 4.51 4.21 ' +
+    'h.40 1j.21 7.41 5.21 4x.72 1.02 a.62 3.72 2.22 i.02 ey.50 4.50 4.50 4.50 1r.73 3.23 ' +
+    '7.23 7p.43 5.43 55.93 2i.23 88.34 7.64 2.64 4.44 5.44 1j.64 os.25 7.05 9.05 a.35 6.25 ' +
+    '7.45 5.35 10.56 2l.17 8.07 a.17 8.17 8.27 7.17 7.47 3s.57 4.37 6.37 m4.30 2y.10 1w.a0 ' +
+    '2ox.60 3.80 1.60 3.10 1.20 4.30 6.70 1.90 1.80 1.60 3.20',
+  '792':
+    '17h,175;0.90 1.60 3.50 4.40 5.60 2.00 9.00 a.10 7.01 k0.40 5.40 5.80 1.60 3.70 2.60 ' +
+    '3.70 2.30 6.70 1.80',
+  '793': '17m;0.70 2.00 5.10 3.70 1.00 3.50 1.50 4.60 3.60 3.40 p.20 2z.50',
+  '794':
+    '175,17n;0.70 3.70 2.70 2.70 2.30 6.80 1.80 1.30 6.60 d.80 1.60 3.40 ir.40 5.40 5.60 ' +
+    '3.10 7.00 9.00 a.20 6l.20 5h.80 2j.30 jc.30 5.90 29.30 2o.40 2w.01 2h.d1 6.01 9.01 9.21 ' +
+    '7.01',
+  '795': '17f,17d;0.90 1.20 7.40 5.10 8.50 4.30 6.40 3.90 2.80 5v.81',
+  '796':
+    '179,17l,17k;0.50 4.40 5.90 1.70 2.70 2.60 3.80 1.60 1.00 1.80 l.10 1l.00 u.40 2m.81 ' +
+    '2.21 2z.11 26.51 2w.41 55.41 5.51 4.21 25.e2 5gt.70 1.10 3.00 4.00 4.00 4.00 4.60 8.40 ' +
+    '5.00',
+  '797': '17k,17f;0.80 1.80 1.h0 3.50 1s.20 2f.20 ox.60 2v.60 2v.70 2u.30 1u.71 2k.71 2k.40 5.60',
+  '798':
+    '17g,17b,17a,17c;0.70 2.70 2.70 2.f0 4.40 5.80 1.80 1.80 1.90 1.30 2y.10 oo.40 5.50 4.40 ' +
+    '5.80 1.20 4c.31 7.31 6.31 6.21 7.41 5.51 4.61 3.41 3h.61 gg.62 4.22 w.00 v8.10 s.20 ' +
+    '7.20 7.20 7.70 2.50 4.70 2.30 9c.73 av.53 4.03 a.53 4.53 1s.83 1.83 3d.83 1.23 1b.73',
+  '799':
+    '17e,17h,17m,175,17j,176,17f,17g;2t.20 7.20 7.70 4s.30 2n.50 5.20 7.20 7.50 5o.40 4.01 ' +
+    '1e.40 5.30 6.30 ag.72 2.12 58.32 6.62 3.42 5.52 4.42 5.32 6.32 6.12 3k.63 3.33 6.63 ' +
+    '3.63 1r.73 do.h3 2.23 25.83 2j.b3 2g.74 1.94 1.54 3.94 1.64 3.74 1.94 4z.04 1.54 4.14 ' +
+    'c5.55 5.45 5.75 2.55 1s.15 4.05 2v.35 2e.66 3.26 7.16 8.26 7.36 6.56 4.36 5.06 6e.67 ' +
+    '2.07 9.07 9.07 a.27 7.17 8.27 7.17',
+  '800':
+    '192,18z,18t;0.80 2.70 2.i0 1.70 2.60 3.30 10.10 8.70 2a.s1 1.61 3.71 2.71 15.52 0.01 ' +
+    '0.02 3.42 5.32 6.72 2.42 5.62 3.52',
+  '801': '192;m9.40 2.00 2.30 6.50 4.30 6.10 8.50 4.40 5.50 4.50',
+  '802':
+    '18y+18z,18y,18z;0.00 0.71 2.71 2.51 4.71 2.41 5.51 4.51 4.61 3.41 5.11 jo.42 5.52 4.52 ' +
+    '4.72 2.12 3k.82 1.52',
+  '803': '18z,18y;50.90 1z.70 2.80 eh.41 5.71 2.71 2.71 2.51 4.51 4.41',
+  '804': '190;0.40 6.40 5.40 5.20 7.30 6.30 6.60 3.60 3.30 6.30',
+  '805': '18w;0.90 1.80 1.60 3.70 2.i0 1.80 1.00',
+  '806': '18x;0.60 4.70 2.70 1.90 1.80 1.80 1.80',
+  '807':
+    '1af,18x,1ag,1ak;0.70 3.10 8.40 5.00 9.70 2.50 e.71 2.41 e.22 8.22 7.22 7.22 7.22 i9.61 ' +
+    '3.41 5.81 1.61 3.61 3.61 3.71 2.81 65.21 7.41 5.41 5.51 4.51 4.31 2y.51 x.83 2.43',
+  '808': '191;0.80 2.60 3.60 3.50 4.60 3.40 5.50 4.60 n.50 1.10 1.20 7.30 6.80 1.70 q.00',
+  '809': '18q;0.40 6.80 1.70 1.90 1.00',
+  '810': '19r,19t;0.50 5.70 2.80 1.60 3.40 5.40 5.60 3.50 k4.11',
+  '811':
+    '1a7,19w,19v,1ai,19s,1a5+1aa,1a5,1aa,1a6,1a9,1a8,1a4,193,19y,19a,1ae,1ah,1bc;2s.40 5.f0 ' +
+    '23.51 4.51 2w.41 lj.22 7.32 6.32 6.32 1t.43 6.03 1.33 4.33 6.53 4.53 4.53 19.14 7.34 ' +
+    '6.34 i.44 3.54 4.14 1.14 ke.05 0.86 1.47 5.86 1.16 1v.98 b.07 9.28 7.78 1f.m9 25.5a ' +
+    '5.7a 29.3b gk.7c 3.8c 1.7c 2.6c 1q.9d 1.id 1z.8d 1.1d 2f.8e 2.5e 4.4e 4.ae 1o.6e 3.5e ' +
+    '4.1d 4y.0e bf.0e r.2e 1.3e 2.6e 3.5e 4.6e 3.4e e.5f 5.7f 1.9f 1.8f 1.1f 1l.7g 3.2g 7.3g ' +
+    '6.3g 6.2g l0.7h 3.6h 3.4h 5.5h 4.3h 6.4h 5.2h 11.3h 6.4h 5.5h 22.0h 9.5h 4.5h 3q.7h ' +
+    'w.0h 9.2h 7.2h 7.2h 7.5h 4.5h 4u.3h 6.3h 6.6h',
+  '812': '19t,19w;0.80 2.70 1.90 1.80 1.50 4.41 5.81 lp.40 1.10 2.20 7.80 1.70 2.60',
+  '813': '19w,1a9;0.50 2.01 2.80 1.00 1.20 5.50 4.40 g.00',
+  '814': '19v,19u;0.60 4.40 5.20 7.40 1s.61 4.31 6.21 7.31 6.31 6.41 5.40 5.60',
+  '815': '19s;0.10 2.00 q.70 2.10 5.00 e.00 7.40 5.30',
+  '816':
+    '198+19d,19d,198;0.00 m8.61 3.31 6.51 4.21 7.81 1.41 5.31 6.31 q.52 4.12 8.32 6.42 5.22 ' +
+    '7.52 4.32 6.22 7.22',
+  '817':
+    '1be;0.30 1.10 4.50 4.30 6.40 37.60 2b.70 20.50 2w.40 23.30 ga.60 2l.10 9.20 8.00 7.30 ' +
+    '6.00 3.10 4.60 17.60 2v.20 2p.20 7.40 5.20 1v.20 2p.30 6.40 5.40 eb.20 2f.20',
+  '818':
+    '1a0,199;0.70 3.30 6.50 4.10 1.20 4.60 4.20 1.30 1.00 1.50 2.30 6.40 e.51 4.11 2.11 1.21 ' +
+    '1.41 5.81',
+  '819':
+    '19x,1ab;0.20 2.20 3.40 5.40 4.90 1.50 4.40 2x.80 v.40 4g.10 2.j0 jq.81 2.s1 1.81 1.51 ' +
+    '40.51 4.41 5.41 5.51 68.31 6.41 5.21 h.01 9.51 4.61 3.01 9.11',
+  '820':
+    '1al,195,194,1aj;0.50 5.70 2.10 8.20 6.90 1.30 6.i0 1.80 b.50 4.50 2b.71 2l.51 4.31 6.21 ' +
+    '7.61 4j.51 2l.92 2j.80 1.20 aq.63 4.30',
+  '821': '195;2.00 1.00 6.30',
+  '822':
+    '19q,19b,19m,19n,19p;0.80 2.60 3.60 3.30 1u.01 9.21 7.31 6.31 6.51 4.21 qb.22 2o.22 8.12 ' +
+    '2f.73 3.73 2.53 21.64',
+  '823': '19b;0.50 5.60',
+  '824':
+    '1ac,18s,19o,19l,19j;0.80 2.70 2.70 2.70 2.80 1.70 2.70 2.80 l.61 3.41 5.41 23.61 3.61 ' +
+    '3.51 4.41 5.31 6.31 41.02 a.03 j.12 1v.04 a.14 2f.43 38.23 24.21 8.71 2.11',
+  '825': '19i;0.50 5.70',
+  '826': '19k,19i;2.00 i.61 3.21 7.41',
+  '827': '19k;0.40',
+  '828': '1ad;0.50 5.20 7.70 2.50 4.80 1.50 4.50 4.60 3.50',
+  '829': '1a3;2s.80 2.60 3.40 p.00 45.40 5.40 5.20 7.40 5.20',
+  '830':
+    '18r,18p,18o;1.50 4.80 1.80 1.80 1.80 1.80 1.50 3.90 l.40 5.50 2c.60 3.50 4.50 4t.61 ' +
+    '4.61 3.41 ir.60 3.60 3.60 20.62 4.32 6.52',
+  '831': '196;0.80 2.60 3.70 2.40 5.40',
+  '832': '19h;0.70 3.70 2.80 1.60 3.50 3.90 1.80 1.60 3.80 jr.60 3.50 4.70',
+  '833': '19z;0.70 3.60 3.60 3.60 3.60 3.50',
+  '834':
+    '18u,18v;0.60 4.50 4.50 4.30 6.60 3.40 5.60 3.40 5.40 e.51 5.41 5.21 25.00 oz.30 2o.40 ' +
+    '5.60 3.10 4y.10',
+  '835': '18n;0.70 3.80 1.40 23.30 6.40 f.50',
+  '836':
+    '197;0.70 3.60 3.60 3.60 3.60 3.60 3.60 3.60 3.60 3.60 jj.60 3.60 3.60 3.60 3.60 3.60 ' +
+    '3.60 3.60 3.50 4.60',
+  '837': '197;p1.60 2.70 3.70',
+  '838':
+    '19e+19g,19e,19c,19g,19f;0.00 0.41 5.i1 1.81 1.71 2.81 1.81 1.11 r.92 1.52 4.72 2.72 ' +
+    '2.32 1k.63 3.43 5.73 fw.33 6.63 3.43 d7.61 3.61 53.61 3.41 5.01 27.14 2p.24',
+  '839':
+    '18r,18n,19h,18m,1da;0.00 5k.41 5.41 5.41 f.32 6.32 6.32 ew.80 1.60 3.60 3.60 3.20 7.20 ' +
+    '7.40 9b.50 4.50 4.70 2.30 1u.73 2.13 8.03 9.23 7.33 1j.83 2.43 5.04',
+  '840':
+    '1aq,1am;1.70 2.20 1.20 3.60 3.60 3.60 3.50 40.40 5.40 7x.30 6.50 4.10 8.60 3.40 73.50 ' +
+    '4.50 4.50 4.30 6.40 4.90 1.30 6k.51 rm.50 2m.40 5.30 6.20',
+  '841': '1b4,1ao;0.50 5.70 2.60 3.80 1.70 2.50 4.70 2.50 4.80 32.51',
+  '842': '1b0+1b1,1b0,1b1,1aq;0.00 0.61 3.41 f.42 f.51 4.71 w.32 2.01 d.21 25.21 2p.23',
+  '843': '1az,1at;0.30 7.30 6.30 3i.20 25.30 1t.51',
+  '844': '1b3;0.90 1.70 2.70',
+  '845': '1au;0.50 5.30 6.40 5.40',
+  '846': '1as;0.70 3.30 6.40 5.00 9.00',
+  '847':
+    '1ar,1av;0.50 5.60 3.70 2.30 6.60 3.50 4.60 3.40 5.40 f.30 6.40 5.30 6.50 4k.50 4.60 ' +
+    '3.60 21.50 ay.30 6.60 3.40 5.30 6.30 6.40 5.20 7.50 4.40 5z.70 2k.20 7.30 6.40 4u.51 ' +
+    '5.51 4.41 5.41 5.51 1i.60 3.60 3.60',
+  '848': '1ap,1bk;0.70 3.50 4.70 2.40 5.60 1h.40 5.60 3.40 5.30 6.50 72.71',
+  '849':
+    '1aq,1am+1an,1am,1an,1au,1ay,1ax,1b5,1at,1b2,1aw,1az,1ar,1b3,1ap;0.00 2r.01 0.12 8.32 ' +
+    '6.33 24.40 2n.54 4.54 2c.25 2o.66 ay.50 4.80 1.70 2.70 4h.65 4.55 2c.75 c.05 26.47 6.47 ' +
+    '5.37 24.38 6.58 4.58 4t.39 7.59 df.2a 2q.3b 2o.4b z.1b l2.3c 6.4c 5.2c 7.2c 1v.2c 7.8c ' +
+    '1.3c 6.2c p7.5d 4.5d 4.5d 4.5d 22.5e 4.3e 6.3e 6.5e mm.4c 5.2c 7.3c 6.0c 3b.6e 3.3e',
+  '850':
+    '1bp;0.70 3.70 2.80 1.60 3.70 2.70 2.70 2.80 k1.30 6.20 7.30 6.60 3.20 7.40 5.10 8.60 ' +
+    'n.80 1.70 2.30 6.60 3.60 3.30 6.30 6.60 3.40 5.50',
+  '851':
+    '1bp,1bl+1bm,1bl,1bm,1bn;2t.30 6.50 4.50 4.60 2v.40 5.40 19.10 7.00 2i.70 2k.60 h1.40 ' +
+    '5.60 1r.00 35.00 ls.01 0.72 2.02 9.a3 1x.60 3.50 2w.60 21.00 1.20 5.00 1.00 7.60 ip.20 ' +
+    '2z.40 2d.54 4.44 2i.04 e.44 22.94 1.04',
+  '852': '1bp;669.70 2.60 3.60 3.50 4.60 3.50 4.40 z.70 2.70 2.60 3.60 3.50 4.60',
+  '853':
+    '1b6,1bb;0.70 3.70 2.60 3.20 7.30 6.30 6.50 3q.70 2.40 2n.20 2p.20 2f.70 2k.80 1.20 ' +
+    '2f.50 14o.30 q.30 2o.41 5.41 4l.10 h6.11 62.21',
+  '854':
+    '1bo,1bq;0.70 3.50 4.60 3.70 2.60 3.60 3.80 1.60 3.60 3.50 o.50 22.80 2j.11 2q.61 2k.51 ' +
+    '5.61 2v.01 27.21 b1.40 5.30 6.40',
+  '855':
+    '1bf;0.80 2.70 2.50 4.50 1.00 2.50 4.80 1.70 2.70 k2.80 1.60 3.40 5.50 4.20 7.50 4.60 ' +
+    '3.80 1.60',
+  '856': '1bd;0.90 1.i0 1.40 5.70 kw.80 1.70 1.90 1.60 3.60',
+  '857':
+    '1b7,1bp,1b8,1bn,1bb,1b9;0.10 9.70 2.70 2.70 1.90 1.80 1.80 1.01 t.50 4.40 5.50 4.50 ' +
+    '4.50 49.02 a.42 5.32 6.72 2.32 6.22 7.02 13.50 4.30 g.00 a9.50 4.20 7.10 8.30 6.20 7.40 ' +
+    '5.30 6.80 7j.20 7.60 3.50 1i.40 rd.23 25.63 3.13 8.73 20.23 1.03 5.23 3.23 1.63 2v.13 ' +
+    'fs.23 4n.00 13.03 lx.24 2z.34 55.24 1.14 5.54 2m.34 2e.34 2n.95 1.15 2q.50 2c.30',
+  '858': '1b7;p1.70 2.70 2.50 4.00 x.00',
+  '859':
+    '1bo,1bq,1bf,1ba,1b7,1bh,1bj,1bi,1bk,1bg;2t.50 4.60 3.60 3.20 7.60 3.30 6.60 3.00 3l.60 ' +
+    '3.40 2d.60 3.70 iy.61 3.51 2c.51 4.51 2c.71 2.61 3.41 23.32 6.42 2d.43 gt.23 7.23 25.53 ' +
+    '4.53 2c.53 9.03 2m.53 2c.33 2n.63 f4.74 2.54 y.44 5.54 4.54 4.64 3.34 5q.34 41.85 2.85 ' +
+    '28.66 4.56 4.76 1z.97 1.17 30.87 1.27 a7.88 5a.78 3.78 2.88 1.58 5o.48 5.78 2.88 1.78 ' +
+    'm.69 3.49 5.69 7k.49 6.79 2.29 7.39 6.49 5.29 5r.59 4.59 4.39 38.49 5.59 4.69 3.49 ' +
+    '4l.69 2l.59 86.54 4.44 5.54 4.34 6.44 1j.64 2l.44 5.64 3.54 22.84 1.44',
+  '860':
+    '1c8,1cc,1c8+1cc,1c9+1cc,1c9,1c8+1ca,1ca,1c8+1c9;1.70 2.80 1.80 1.80 1.20 0.11 0.02 0.11 ' +
+    '2.81 1.71 2.11 0.02 0.11 0.20 0.01 1.02 0.03 0.44 0.03 js.70 2.70 2.20 0.05 1.06 0.00 ' +
+    '3.05 0.00 0.05 0.06 6.70 2.50 4.04 0.07 0.00',
+  '861':
+    '1c8+1c9+1ca+1cb+1cc,1c9,1c6,1ce,1cf,1c1,1cs,1cb,1bw,1d2,1bs,1bu,1bv,1bt,1ca,1c5,1bx,1cc,1cd,1br,1c2,1c8+1c9;0.00 ' +
+    '2s.51 4.61 3.61 3.51 4.51 4.51 4.41 3r.32 6.52 4.32 6.02 1d.12 i.52 4.32 6.52 21.12 ' +
+    '9.82 1.62 3.42 5.72 2.52 4.42 5.52 o.42 5e.53 5.43 5.23 7.63 1r.54 4.44 5.44 4u.55 5.55 ' +
+    '2c.46 5.36 2d.96 1.66 3.56 4.06 9.56 4.66 3.76 20.16 6c.26 7.56 bi.77 9.07 29.68 4.18 ' +
+    '8.38 6.58 4.38 4b.59 ja.9a l.0b 1w.8b 2.0b t.4c 23.2b 2p.0b t.4d 18.3d 7.7d 2.5d 4.3d ' +
+    '6.6d 35.4d 5.2d 2z.8d b.5d 4.2d h.4d 5.4d 1j.7d 2.5d 4.7d 2.6d 4j.5e 1.1e 1.6e 3.6e ' +
+    '3.6e 3.6e 3.6e 3.6e 3.2e r.5e 4.4e 5.5e 4.6e 1r.6f 2l.6g 3.6g 3.6g 4s.9c 1.7c 2.2c 7.4c ' +
+    '1s.7g 3.5g 4.2g 1.2g 3.6g e9.4e 5.4e 5.3h 5.2h 1.5h 1f.7h 1g.5i 2m.31 6.61 3.51 4.61 ' +
+    'fn.4j 5f.4k 2n.2k 43.0k i1.3k 2y.3k j2.21 1.21 2.77 1.07 8.37 2.17 1.27 1.57 h.21 1.01 ' +
+    '2.01 0.0l 0.21 5.31',
+  '862':
+    '1cb,1c8+1cb,1c8,1ca;p1.70 0.01 0.80 1.10 0.21 0.00 0.01 6.00 7.11 0.40 0.32 0.00 0.12 ' +
+    '0.01 0.32 0.10 0.13 1.43 0.01 0.22 1.12',
+  '863':
+    '1c2,1c3;0.70 3.80 1.40 5.70 2.90 1e.20 rz.10 1c.00 13.40 5.50 54.00 1.10 q.10 26.00 ' +
+    '5t.00 4z.10 5v.00 1k.10 s.00 3l.00 2h.00 2.00 23.71 2v.01 59.50',
+  '864': '1cr;0.60 4.40 5.20 1.20 3.20 7.10 8.60 21.00 t.50',
+  '865': '1cd,1cf;0.90 1.70 2.60 3.40 5.70 2.70 2.50 4.20 q.41 6.61 3.51 4.51',
+  '866':
+    '1bz,1br,1c2;0.80 2.60 3.30 6.40 5.40 5.40 5.40 5.30 6.40 f.11 2q.21 2r.02 9.02 k.02 ' +
+    'cy.40 5.40 5.60 3.30 6.50 4.60 3.50 4.60 3.40 5.70',
+  '867': '1c7;0.90 1.50 4.40 5.50 4.80 1.80 1.70 1b.00 1i.30 2y.30',
+  '868':
+    '1by+1cl+1cp,1by,1cl,1cp,1cj,1cq,1ci,1ck,1cn,1cm;0.00 0.71 2.51 4.61 3.61 3.71 2.71 2.51 ' +
+    '4.71 2.61 3.12 0.23 5.03 2q.34 2o.35 2o.06 7.06 6.06 5.46 5.16 8.36 6.06 1c.57 2m.78 ' +
+    '3.58 4.48 22.39 2p.21 7.21 7.41',
+  '869':
+    '1ch,1cd,1cg,1c4,1c5,1cu,1ct,1cs,1cz,1d3,1cx,1cy,1d0,1d1,1br,1bz,1c0,1cw,1cv,1co;2s.60 ' +
+    '4.20 7.20 25.21 7.21 7.31 6.51 1.01 1p.52 5.22 7.12 25.83 1.93 1.53 4.53 4.43 5.63 3.43 ' +
+    'y.34 7.24 7.34 6.34 6.54 4.34 6.24 11.54 4.54 4.34 6.54 cv.f5 2c.06 0.77 2.86 1.66 3.66 ' +
+    '4i.48 6.18 2g.48 2m.39 5r.49 5.59 ai.08 f.5a 4.6a 1r.6a 3.5a 2b.3b 9.0a 2e.6c 2l.4a ' +
+    '6.2a 7.0a 26.5d 2n.6a a3.43 p.64 3.24 75.24 3i.4e 2y.0e dl.4f 5.4f 5.4f 23.3f 2o.2f ' +
+    '2p.0f 9.4f 2c.8g 2.5f 2c.3f g.2f 25.5g 4.4g 8r.7f 2.7f 2.4f 5.5f 4.4f 19.4f 23.6h 2k.0h ' +
+    'k.3h 6.3h 6.2h 7.3h 6.0h 2r.3h 6.5h n.5i dr.4f 5.4f 2n.5h 2c.7h 2j.5j',
+  '870':
+    '1d8;1.80 1.70 2.i0 1.80 1e.90 1.70 1.130 1.70 2.30 1u.40 5.30 6.00 1.00 1.30 1.90 l.80 ' +
+    '1.80 1.60 d5.80 1.20 1.e0 1.80 1.30 1.170 1.10 8.70 2.80 1.i0 1.80 1.80 1.00 3v.r0 1.t0 ' +
+    '1.80 1.30 1.10 3.40 f.40 5.40 5.20',
+  '871':
+    '1a2+1d4,1d4,1a1,1a2;0.00 0.81 1.51 4.i1 1.a1 1.g1 1.s1 1.41 5.31 7.01 s.61 3.31 10.71 ' +
+    'h.02 2c.41 2d.71 2.31 6.11 8.31 7e.31 6.51 2c.13 8.03 9.23 7.33 1t.72 3.32 6.72',
+  '872':
+    '1d9,1dk,1d7,1db;0.10 9.50 4.20 7.20 7.60 1h.30 6.30 56.10 8.70 2.70 2.30 6.50 j.00 ' +
+    '2c.80 1.50 4.20 7.30 g.60 2.90 1.60 d.20 2z.40 5.30 6.40 p.20 7.10 8.30 6.20 2z.20 7.70 ' +
+    '2.40 5.20 6b.61 2l.61 35.32 24.52 2m.03 31.32 10.22',
+  '873':
+    '1dc,1d7;0.80 2.40 5.40 5.30 6.00 b.01 43.61 3.11 8.31 6.11 3a.51 18.11 1.31 4.01 1.11 ' +
+    '5.31 7.01 1v.41 6.31 6.31 6.41 2x.51',
+  '874': '1d6;0.50 5.50 4.40 5.60 3.50 ky.40 5.i0 1.i0 1f.120 1.60',
+  '875': '1di;0.40 6.20 7.20 7.30 6.20 7.20 7.40 4.90 1.30 38.20 7.50 4.30 6.60 2d.00 h.30 6.20',
+  '876':
+    '1d5;0.80 2.70 2.60 3.60 3.60 3.20 7.30 10.20 7.20 7.50 22.50 4.50 g8.60 3.40 5.40 5.50 ' +
+    '4.80 1.60 6r.50 2m.50 2m.00 4.00 4.20 2f.40 2x.20 gv.00 27.20 2p.10 2q.60',
+  '877':
+    '1da;0.80 2.60 3.50 4.80 1.60 3.80 1.70 2.70 2.80 l.30 2e.10 8.10 8.00 27.10 8.10 lw.60 ' +
+    '3.20 7.00 2r.40 5.30 6.30 2y.30 6.50 4.40 5.30',
+  '878': '1dh;0.70 3.20 7.70 2.40 2x.50 4.50 4.30 10.50 1d.00 40.30 4m.50',
+  '879':
+    '1d4,1d9,1dk,1dc,1dl,1d8,1dd,1d5,1da,1df,1de,1dg,1d6,1dh,1dj;2t.60 3.20 7.30 q.21 7.31 ' +
+    '1k.40 5.61 1r.81 1.61 3f.31 6.61 3.61 3.31 q.31 6.51 2b.92 1.82 1.72 2k.32 6.42 2x.32 ' +
+    '6.42 19.33 6.13 s.03 4z.71 2.71 4i.63 3.53 53.94 gp.45 2d.25 5g.16 9.26 7.16 8.56 4.56 ' +
+    '4.86 1.06 9.56 o.06 2r.27 25.26 bl.47 2n.47 2n.17 2q.17 jy.28 25.28 2p.09 t.19 1v.69 ' +
+    '4.39 2y.29 25.0a t.1a 2g.3a 7.09 1v.3a 2z.1a 58.3b 6.3b 7x.8b 2.2b 7.4b 5.6b 1r.3b 1.0b ' +
+    '3.9b 1.4b 5.1b i.1c f8.3d 6.2d 1.1d 4.7d 2.4d 19.3d g.1e 8.2e 7.3e 2y.3e 1u.7e c.5e ' +
+    '4.4e 5.4e 4b.1e 8.5e 4.5e 4.4e 5.2e 2z.8e 2t.4e z.4e 5.3e 6.1e 4x.8e 2.0e 9.4e 5.0e ' +
+    '9.3e 6.4e 2x.3e 10.6e 3.5e 2c.3e 6.3e 2e.35 74.45 2x.45 5.45',
+  '880':
+    '1dv,1ea,1e4,1e5,1eb;0.70 3.60 3.60 3.60 3.60 3.60 1r.40 26.00 6.30 2e.20 11.01 2.10 ' +
+    'cn.50 4.70 2.50 4.60 3.40 5.70 2.70 2.80 l.80 1.60 3.i0 1.60 3.50 3z.82 2.32 6.02 2r.32 ' +
+    '23.33 m5.40 5.50 2m.40 5.30 6.30 1w.04 h.20 1.00',
+  '881': '1ea,1dr;0.60 4.50 4.60 3.60 1r.50 4.50 rw.20 2z.20 1v.21 2o.01 a.31',
+  '882':
+    '1dx,1e7,1e8,1e6;0.70 3.60 3.60 3.60 3.60 3.60 3.50 4.60 3.60 3.60 3.00 2.00 1.10 d.80 ' +
+    '2t.70 2.40 1j.11 1.01 2n.31 b1.40 5.50 4.60 3.60 3.60 3.60 3.60 3.60 3.40 5y.32 2o.33 ' +
+    '5r.42 5p.12',
+  '883':
+    '1dz,1e1,1e0,1e2;0.60 4.40 5.30 6.70 2.50 4.20 7.70 w.80 1.00 2r.20 2f.51 2n.02 jd.21 ' +
+    '30.11 2f.23 2r.03 5h.42',
+  '884': '1dt,1dq;0.60 2l.51',
+  '885': '1eb;0.60 4.80 1.50 4.60 3.30 6.40 5.30 6.80 1.50 4.40 f.30 2y.40 ob.40 2n.40 2x.10',
+  '886': '1dw;0.90 2j.00 9.40 2n.20',
+  '887': '1dy;0.70 3.60 3.30 6.30 6.00 1n.10 8.00',
+  '888': '1dn;0.90 1.20 5r.10',
+  '889':
+    '1dx,1e3,1e1,1dz,1ds,1do,1dp,1dv,1eb,1du,1dy,1dn,1dm,1e9;2t.10 5i.30 g.10 4y.60 3.60 ' +
+    '2a.51 5.61 3.51 7m.22 5h.03 9.13 8.03 26.14 2q.25 2p.66 4.46 55.87 1.27 2f.37 8.07 2.07 ' +
+    '2c.28 2o.79 3.39 6k.57 4.37 3s.07 2r.2a 2z.3a 6.4a 5.5a 4.0a gn.2a 7.5a 18.6a 3.6a ' +
+    '2l.0b 63.3b h4.4c 5.4c 1j.1c 8.3c 6.3c 1j.6c 4.3c 2d.0d a.3d 2e.58 2m.18',
+  '890': '1ff+1fg,1ff,1fg;0.00 0.71 2.51 4.51 4.71 2.61 3.51 4.81 1.51 4.51 mm.22',
+  '891':
+    '1ff,1ey,1eh,1ei,1fi,1fc,1f3,1f4,1f5,1fh,1em,1eq,1eo,1ek,1el,1es,1ej;2t.80 1.60 4.10 ' +
+    '7.20 7.00 1.30 3.10 n.00 p.50 2p.01 6.41 2c.61 2m.61 3.51 2c.31 9.01 6.01 27.42 5p.12 ' +
+    '58.70 2k.50 f.00 8.00 16.10 p.50 2m.20 7.90 28.00 13.40 fe.63 4.63 3.63 4t.54 4.34 6.14 ' +
+    'll.45 6.75 2b.05 i.15 5s.15 4n.76 2k.67 dp.88 2u.18 2g.88 j7.09 2q.59 2n.09 nb.3a 6.3a ' +
+    '6.3a z.3a 7.6a 3.8a 1.2a o2.5b 5.5b 8g.5b 4t.5c 5.1c 8.3c 2y.0c aj.6d 2b.0d e.0d 4.0d ' +
+    '26.0d k.8d le.4e 6.5e 4.4e 5.5e 1r.7f 3.4f 5.3f 6.3f 1t.9g',
+  '892': '1ff;m9.60 3.80 1.70 2.70 2.70 2.40 5.20 7.60',
+  '893':
+    '1fi,1f8,1f7,1f9,1f6;0.90 1.50 4.60 3.60 3.60 3.60 3.60 1r.10 1w.20 ox.20 2o.71 5d.11 ' +
+    '30.01 2g.02 0.40 5.42 j0.33 2p.13 2p.54 2n.34',
+  '894':
+    '1eu,1et,1er,1en,1ep;0.90 1.60 3.60 3.50 4.70 c.20 4.00 v.71 0.00 5w.31 6.21 h.10 1m.11 ' +
+    '2g.70 2.20 2z.60 3z.50 9a.50 2c.40 2q.00 g.00 4y.f2 5.32 6.02 5t.52 2w.42 7x.32 2e.62 ' +
+    '2b.22 25.32 6.62 2b.12 2q.02 du.73 2v.33 2d.54 2x.24 2z.24 2z.24',
+  '895':
+    '1fa,1fb,1ed;0.70 3.20 7.60 3.50 4.30 6.50 4.60 3.60 1h.20 25.30 om.50 2m.20 5h.10 2q.30 ' +
+    '60.21 24.71 3.61 7v.31 q.01 1x.21 6l.12 1l.72 3.22 7.82 2t.42 1t.72 2u.22',
+  '896':
+    '1ec,1fa;0.60 4.60 3.70 2.60 3.50 4.10 1.40 2.80 1.80 1.30 s8.01 2r.51 22.01 j.01 31.11 ' +
+    '2r.01 8.01 27.11',
+  '897': '1eg,1eh;0.90 l.00 2r.21 1u.51 5.41 5.31 24.51 mm.40 23.00 2r.10',
+  '898': '1f2,1eg;0.90 1.70 2.80 1.70 2.80 1.70 2.50 4.50 3.90 1.80 1.11 30.11 8.01',
+  '899':
+    '1ee,1fd,1ef,1fa,1ec,1ez,1ff,1eg,1f0,1fe,1ei,1ev,1ew,1ex,1f1,1fi;3d.50 4.30 1.20 1p.80 ' +
+    '2.60 3f.10 1m.60 r.00 1t.10 hg.01 27.12 2g.32 g.02 26.32 2p.02 2q.41 6.61 3.81 33.01 ' +
+    '1n.13 3a.43 4v.24 2p.35 2y.05 31.05 9.35 6.25 1k.65 4.55 4.35 6.06 4p.86 av.25 h.05 ' +
+    '29.05 2.06 e.05 27.85 1.05 2h.47 2x.57 2m.07 dl.28 2p.39 2n.59 5.79 2.49 5.19 8.59 4.59 ' +
+    '2w.29 11.39 3i.2a cz.59 4.79 2.09 27.3b 6.4b 5.2b 7.0b 9.0b 1n.7b 2j.5b 5.3b 6.1b 8.2b ' +
+    '2z.4b 2x.5b cc.4c 2m.7c 2l.29 2p.49 2n.69 2l.39 dr.4d 2y.1d 2f.9e 2j.2d 2r.0d 7.2d ' +
+    '2f.2d dt.58 2w.28 2p.08 0.0d 0.0e 2z.38 2e.1f 2f.98',
+  '900': '1gn;0.60 4.50 4.80 1.60',
+  '901':
+    '1gn,1gm,1gl,1ga,1fs,1gd,1g6,1gj,1g3,1fl,1fk,1g7,1ge,1gg,1gf,1gh,1gc,1gb;3x.70 2.50 ' +
+    '17.51 5.41 5.41 5.41 5.31 1j.62 4.42 5.42 5.52 4.42 5.32 6.32 z.63 4.63 2b.33 6.53 ' +
+    '2c.74 2.84 dc.55 5.65 2b.74 2j.46 2n.74 3.44 2d.44 5.54 g7.47 6.37 6.77 2.37 1t.78 3.58 ' +
+    '4.68 20.69 4.69 3.09 26.7a 3.6a 3.3a ir.8b 2.4b 5.4b 5.7b 4s.1c 2f.3c 2o.2d 2q.0e 2q.3f ' +
+    '2o.6g 2l.3h',
+  '902': '1gn;1p.80 1.70',
+  '903': '1fo,1gn;2s.50 5.70 2.80 in.61 3.51 4.51',
+  '904':
+    '1gi,1fm,1fn,1fp,1fz,1fj,1g2,1fy;0.60 4.30 6.20 7.40 1s.71 3.61 2a.52 2m.53 5.53 4.73 ' +
+    '1z.44 6.64 iz.75 2.45 2c.36 2o.47 n8.40 5.50 4.50 4.40 o.55 5.45 5.55 4.55 4.45 1j.65 ' +
+    '3.65 2v.75',
+  '905':
+    '1ft,1g0,1fu,1fv,1g9,1g8,1g1,1fx,1fw;0.90 1.80 1.50 4t.91 1.81 1.81 4q.62 4.42 5.72 ' +
+    '1z.53 2m.54 2m.55 c3.60 3.50 17.66 2l.87 2.87 28.08 a.68 3.88 1z.38 3i.40 ev.20 2f.80',
+  '906': '1g4,1g5;0.80 2.40 2d.80 2j.30 2o.50 36.10 26.60 2k.31',
+  '907':
+    '1fr+1gk,1gk,1fr,1fq;0.00 0.31 6.41 5.31 6.01 5t.31 2e.21 39.21 hz.02 3b.02 2h.02 3b.42 ' +
+    '2x.32 5q.02 1c.13',
+  '910':
+    'nv,np,no,nl,nh;1.50 4.80 1.80 1.80 1.80 1.60 3.90 u.80 b.50 5.00 1.40 2.60 3.70 15.81 ' +
+    '2.41 5.61 3.61 3.51 4.31 6.41 5.61 n.41 5.61 3.51 4.81 1.g1 3.81 1.41 5.31 bk.80 1.70 ' +
+    '2.80 1.70 2.50 4.80 6o.62 4.72 2.62 3.82 1.32 1k.52 4.72 2.72 20.42 5.52 4.52 mm.80 ' +
+    '1.60 3.60 3.70 m.70 2.30 6.60 2v.80 1.70 2.60 2v.50 4.40 o.83 2.63 3.63 3.63 d.63 f3.60 ' +
+    '3.70 2.70 2.70 2.70 2u.50 4.70 2u.70 2.50 e.40 2x.70 2.50 o.70 16.70 2.60 3.20 7.50 ' +
+    '4.50 cn.34 5.24 1.04 5.64 3.34 2.14 2.14 1.34 3f.64',
+  '911': 'nm;0.60 4.60 3.50 4.40 5.70 2.50 ko.50 4.60 3.70 2.50 4.70',
+  '912':
+    'nq;0.80 2.60 3.60 3.50 4.60 3.40 5.70 2.50 4.70 2.40 z.80 1.80 1.40 19.60 3.70 2.10 ' +
+    '4y.40 5.50 4.60 3.60 a3.40 5.40 5.60',
+  '913': 'np;1.40 5.60 3.60 3.70 2.70 2.70 2.40',
+  '914':
+    'nu;0.70 3.70 2.70 2.80 1.60 3.80 1.50 4.80 15.40 5.70 2.60 35.70 2.30 q.50 4.60 df.20 ' +
+    '1.20 3.40 5.40 5.40 5.40',
+  '915':
+    'nw,nn;0.70 3.50 4.50 4.60 3.50 4.60 3.80 1.50 4.40 5.60 2v.80 1.80 1.70 2.40 5.30 6.50 ' +
+    '4.40 ev.50 4.50 4.60 3.50 4.60 3.60 3.40 5.60 3.70 2.60 5n.51 4.31 2e.40 5.40 5.50 4.40 ' +
+    '5.50',
+  '916':
+    'nx,nk;0.80 2.80 1.80 1.70 2.60 3.60 3.70 2.70 2.70 c.71 2.61 3.61 3.61 3.61 3.51 17.61 ' +
+    '4.81 1.61 n.41 5.71 2.51 o.31 6.51 2w.71 io.60 3.50 1.00 e.00 2f.40 5.60',
+  '917':
+    'nt,nr;0.80 2.80 1.70 2.60 3.60 3.80 1.80 1.70 2.70 2.60 3.60 3.60 2v.50 4.70 2.80 2t.60 ' +
+    '3.41 5.41 5.61',
+  '918':
+    'nv;0.00 668.80 1.70 2.60 3.60 3.60 3.70 2.70 2.70 2.20 h.70 2.50 e.50 e.50 4.50 4.50 ' +
+    '4.70 c.60 3.70 2.70 2.80',
+  '919':
+    'nn,nv,np,nh,nj,nu,ni,nr,ns;2t.30 6.80 1.80 1.20 1.10 1r.60 4.60 3.60 21.41 5.71 2.71 ' +
+    '18.01 r.82 1.82 1.52 4.62 3.82 1.42 5.42 5.62 1.02 1.72 c.62 3.62 3.62 3.62 3.62 1g.43 ' +
+    '6.53 4.03 1.03 4.03 2.33 2e.63 3.63 3.83 1f.63 3.63 7u.04 k.54 4.74 2.64 1h.74 1y.05 ' +
+    'k.66 4.56 4.76 2.56 36.46 5.36 10.66 3.56 4.76 2.56 4.46 5.86 f0.77 3.57 4.87 1.47 ' +
+    '1s.78 3.58 4.88 3d.58 4.58 4.58 4.68',
+  '920':
+    'nd,n2,n5;0.80 2.70 2.60 3.50 4.60 3.80 1.40 1.20 v.60 3.50 4.80 1.60 3.70 2.60 3.70 ' +
+    '2.70 l.01 0.e0 3.00 3.40 3.00 t.81 1.61 w.90 1.10 7.90 1.70 2.60 3.70 1.90 1.00 bn.80 ' +
+    '1.70 2.60 3.70 2.80 1.70 2.80 v.i0 1.70 2.80 1.60 3.60 3.70 2.70 2.70 2.80 2t.80 1.80 ' +
+    '1.80 1.70 2.80 1.70 2.60 3p.30 6.50 4.50 4.60 3.50 ky.32 6.52 4.82 1.32 6.72 2.42 5.72 ' +
+    '3o.52 4.72 2.62 3.82 1.62 3.62 3.72 2.52 3g.22 gl.60 3.60 3.50 4.40 3wp.40 7.50 2.10',
+  '921':
+    'nc,nd;0.00 668.51 4.51 4.61 3.51 4.61 3.51 4.51 y.61 3.11 1.31 3.31 6.41 5.81 1.41 5.31 ' +
+    '6.71 ha.80 1.60 3.40 5.60 3.80',
+  '922':
+    'n0,nh;0.70 3.40 5.70 2.70 2.70 2.60 3.70 w.80 1.70 2.80 1.80 29.10 i.60 2.80 2.60 3.00 ' +
+    '1.50 m.60 3.50 4.50 4.60 1r.50 4.30 6.70 2.60 3.50 2w.30 6.50 2w.20 5.01 3d.60 3.50 ' +
+    '4.40 5.50 4.30 6.60 3.40',
+  '923':
+    'n1,n9,na;0.50 5.50 4.70 2.60 3.30 6.50 4.50 4.70 20.60 3.50 4.60 3.60 35.50 4.50 4.70 ' +
+    '2.50 4.40 cn.50 4.30 6.50 4.50 4.30 6.30 6.80 v.70 2.80 1.60 3.70 2.70 2.70 2.70 2.60 ' +
+    '3.40 5.70 2t.71 3.61 3.31 23.02 0.71 2.61 3.61 3.71 2.61 3.32 6.82 1.72',
+  '924': 'n5;0.70 3.s0 1.70 2.80 1.80 1.50 4.00 jz.70 1.i0 2.70 2.70 2.70 2.60 3.70 2.70',
+  '925':
+    'n6,n8;0.50 5.70 2.70 2.50 4.80 1.30 g.60 m.01 k.41 5.61 3.71 2.61 3.71 w.61 3.41 2d.61 ' +
+    '3.41 t.01 p.51 4.41 z.61 3.71 2.71 2.61 2v.51 4.71 m.70 2.60 3.50',
+  '926':
+    'mz;0.70 3.60 3.70 2.70 2.70 2.70 34.80 l.70 2.50 4.60 3p.60 3.50 4.80 bf.70 2.70 2.80 ' +
+    '1.70 2.50 4.40 5.60',
+  '927':
+    'ne,nf,n4,nb;0.90 1.60 3.60 3.80 1.80 1.70 3y.60 3.40 5.40 5.40 1t.41 5.41 5.41 22.01 ' +
+    'u.41 5.31 6.31 2o.41 5.41 z.81 1.41 5.61 fw.72 3.62 3.72 2.82 1p.32 6.82 1.52 36.62 ' +
+    '3.62 3.72 hk.73 2.43 5.63 3.73 2.63 3.53 4.63 3.53 2m.63 3.53 e.43 5.33 6.43 5.53 4.43 ' +
+    '5.43 5.53',
+  '928':
+    'nb,nf;0.80 2.50 4.70 2.60 3.60 3.60 3.70 2.80 3d.50 4.70 2.50 4.50 4.50 4.50 18.71 2.31 ' +
+    '6.51 4.51',
+  '929':
+    'n9,n5,n3,my,n7,ng,mz,nb;2t.70 2.50 4.50 22.51 4.61 3.31 6.41 1s.92 1.82 1.72 2.42 5.52 ' +
+    '1i.62 3.62 3.62 3.62 3.62 3.52 4.62 hk.53 5.63 3.23 1.23 17.63 n.73 1.53 2c.54 5.54 ' +
+    '4.64 3.24 7.44 1j.54 4.54 4.54 4u.55 e.05 9.65 1q.65 4.65 3.55 22.45 5.75 7u.46 5.56 ' +
+    '4.56 22.86 1.76 2.66 3.36 6.66 35.67 3.87',
+  '930':
+    'mp,mm+mn,mm,mn,ml;1.90 1.00 1.50 1.80 1.80 1.80 1.80 1.80 1.70 2.80 1.70 2.70 2.50 4.60 ' +
+    '3.70 2.30 6.70 2.50 4.60 m.01 0.82 1.i2 1.62 3.72 2.62 3.82 1.52 4.83 a.54 5.74 2.54 ' +
+    '4.54 4.64 3.84 1.74 2.84 1.74 c.54 4.64 3.44 5.74 2.44 5.74 2.64 3.34 92.80 1.80 1.60 ' +
+    '2.90 1.20 1.40 1.80 1.60 3.50 4.60 3.70 2.50 4.50 4.70 2.50 4.30 6.50 4.50 4.40 5.40 ' +
+    '5.60 7b.70 2.50 4.60 d.40 5.50 4.70 2.70 m.82 7.02 n.72 2.72 w.80 1.50 hm.70 2.60 3.70 ' +
+    '20.70 2.40 5.60 3.80 1.70 2.70 q6.52 1.02 2.62 3.32 6.82 1.72 2.42 5.62 9.02',
+  '931': 'mp;6el.50 4.50 4.70 2.60 3.60 3.80 1.60 3.70 m.80 1.60 3.20 1.30 2.60 3.40 5.50',
+  '932':
+    'mr,mo,mu;0.80 2.70 2.70 2.60 3.70 2.70 2.40 5.40 p.50 4.50 4.80 1.60 1r.61 3.71 2.71 ' +
+    '2.71 2.71 2.71 16.42 5.62 1h.01 bx.70 2.60 3.50 4.70 2.50 4.50 4.30',
+  '933':
+    'mv,mq;0.80 2.70 2.i0 1.60 3.60 0.01 2.70 2.70 m.50 4.50 4.50 4.70 1q.81 b.71 2.i1 1.21 ' +
+    '1b.70 2.80 1.80 1.70 2.40 5.60 cb.80 1.70 2.80 1.80 1.80 1.70 1.90 1.80 l.i0 1.80 1.70 ' +
+    '2.80 1.80 1.70 2.70 2.60',
+  '934': 'mq,mv;1.40 5.50 4.60 3.i0 1.70 w.81',
+  '935':
+    'ms;0.70 3.60 3.60 3.60 3.60 3.60 3.60 x.60 3.60 3p.70 2.80 1.70 1g.70 2.50 1i.50 4.60 ' +
+    '3.50',
+  '936': 'mt,ml;0.70 3.80 1.60 3.80 1.70 2.r0 k2.70 2.70 2.60 3.70 2.80 1.60 3.70 2.60 3.40 5.01',
+  '937': 'mw;0.i0 2.70 2.80 1.60 3.80 1.70 kc.60 3.50 4.70 2.60 3.60 3.60 3.70',
+  '938':
+    'mx,mj,mk;0.60 4.40 5.70 2.80 1.80 1.80 1.50 4.50 4.50 e.51 1i.82 1.80 2m.00 6.20 ed.70 ' +
+    '2.50 4.60 3.60 n.30',
+  '939':
+    'mp,mv,n7,mq,mj,mk,mu,mo;0.00 2s.51 4.21 1.41 1.71 2.41 5.41 5.51 e.02 1n.43 5.63 3.63 ' +
+    'd.53 4.73 b.73 3.83 1.23 7.23 7.03 9.03 9.33 10.73 2.73 2a.80 1.40 5.70 2.50 4.60 3.70 ' +
+    '2.70 v.04 a.64 3.74 2.64 3.64 3.64 3.64 3.84 k.55 5.65 3.85 1.65 3.85 1.05 9p.41 4.f1 ' +
+    '5.51 36.41 5.61 3.41 o.86 2.76 2.76 2.76 2.76 2.76 2.76 2.86 1.76 c.76 2.66 3.86 1.76 ' +
+    '1q.67 3.77 2.77 2.77 2.87 1.47 5.77 2.67 m.67 3.57 5.57 4.67 3.57 4.47 5.17 1.37 3.57 ' +
+    '4.17 1.07 g.37 6.57 4.47 6.37 5.67 3.17 1.47 2.57 y.67 3.77 2.77 2.67 3.57 4.57 4.77 ' +
+    '2.87 l.77 2.57 4.77 w.87 1.87 51.40 5.50 4.80 b.80 1.50 4.50 4.70 2.60 3.60 17.50 4.60 ' +
+    '3.60 3.60 3.40 5.40 5.60 3.50 o.60 3.60 3.50 4.60 3.60 3.50 4.60 3.60 n.87 1.87 29.60 ' +
+    '3.60 3.60 3.80 9.00 1f.80 1.80 1.80 1.70 2.80 1.80 kl.50 4.50 4.50 4.50 4.70 2.60 ' +
+    '3ff.70 2.60 3.50 4.50 4.80 1.70 2.50 4.60 3.60 3.60 3.30 6.40 5.30 6.80 1.50 4.60 3.50 ' +
+    '4.70 2.40 5.60 3.70 2.50 4.40 5.30 6.30 6.30 6.30 6.10 8.10',
+  '940':
+    'mg;0.40 1.20 2.60 3.80 1.70 2.70 2.50 4.60 3.50 4.70 2.70 2.50 4.50 4.80 1.60 3.80 1.40 ' +
+    '19.40 5.70 2.60 3.60 3.40 5.70 f2.50 4.30 1.10 1.00 1.10 1.50 1.50 3.90 1.30 1.10 3.00 ' +
+    '2.40 2.70 2.30 6.70 5m.50 4.60 3.20 7.i0 1.40 5.60 3.10 n0.40 5.40 5.50 4.80 1.50 4.80 ' +
+    '15.50 1.00 2.60 3.70 2.70 2.70 2.70 3y.50 4.50 4.40 23.60 3.60 17.40 5.40 p.70 2.70 2.80',
+  '941': 'mc;0.80 2.50 2.00 1.60 3.60 3.60 3.70 2.80 1.70',
+  '942':
+    'lk,lr;1.30 6.30 6.60 3.80 1.50 4.50 4.40 5.10 1.00 6.80 1.00 9.80 1.60 3.80 1.80 1.60 ' +
+    '3.70 2.40 5.20 7.00 j.70 2.50 4.50 4.30 3.00 2.60 3.40 5.70 2.60 n.70 2.80 1.60 3.80 ' +
+    '1p.40 5.40 2x.40 5.80 1.30 fg.60 2v.50 3g.11 8.51 18.51 4.81 1.81 1.11 1.11 1t.51 4.41 ' +
+    '5.61 3.71 2.31',
+  '943':
+    'lk;0.00 2s.80 1.80 1.80 1.80 1.70 2.40 5.70 2.70 2.60 d.10 i.70 2.50 1s.60 3.70 2k.60 ' +
+    '3.60 21.f0 4.60 3.40 1t.60 3.60 3.70 2.60 3.70 48.i0 1.80 1.80 1.80 1.80 1.50 4.70 2.80 ' +
+    '1.80',
+  '944':
+    'lv,lk;0.90 1.00 1.10 1.c0 2.60 3.70 2.70 2.30 6.60 3.70 2.70 2.81 1.81 1.81 1.81 1.a1 ' +
+    '1d.40 5.60 3.50 2w.40 5.40',
+  '945':
+    'ma,lo;0.00 a.60 3.60 3.50 4.60 3.50 4.70 2.50 o.50 4.30 2o.80 28.81 2.61 3.41 23.20 ' +
+    'bb.60 3.60 3.70 2.60 3.40 1.10 6q.50 4.70 2.50 36.70 2.20 2f.00 1.20 5.40 23.70 1q.40 ' +
+    '5.40',
+  '946':
+    'mi;0.70 3.10 8.40 5.70 2.20 7.70 2.50 4.20 1.10 4.70 c.80 1.40 5.40 23.60 3.50 4.50 ' +
+    '22.60',
+  '947': 'lw,mg;0.50 5.70 2.70 2.40 5.40 5.30 1a.20 2p.41 5.20',
+  '948':
+    'lr;0.80 2.80 1.80 1.80 1.80 1.70 2.70 2.50 1.10 1.70 2.50 4.60 3.30 6.40 5.50 4.50 ' +
+    '1s.80 29.50',
+  '949':
+    'mc,lk,lv,ma,li,mg,lu,lt,mi,ll,pe,lr,lw;33.10 58.70 48.30 1u.50 4.40 5.70 hu.70 2.40 ' +
+    '5.50 22.50 4.80 1.80 1.70 2.30 6.30 6u.81 1.81 1.51 22.51 4.51 4.61 3.81 1.11 9y.52 ' +
+    '4.22 r.02 1n.82 1.82 1.52 4.42 1t.51 4.71 2.11 lm.21 7.61 3.41 5.61 1r.01 9.51 4.51 ' +
+    '4.61 3.61 3.51 2w.61 3.81 l.81 1.81 1.i1 1.81 2t.61 3.41 2n.33 6.43 19.53 4.43 af.33 ' +
+    '6.73 2.53 4.83 1f.53 2l.94 1.74 2.74 2.64 3.54 4.24 43.65 3.65 3.45 gj.35 24.05 9.65 ' +
+    '3.25 2z.55 4.65 1h.85 1.55 iz.36 2z.16 44.57 4.27 r.77 2.77 2.77 2.77 2u.47 5.67 16.37 ' +
+    '1.07 1.27 1.17 2.07 k.07 17.27 1m.57 4.07 1.47 3.57 4.47 91.37 6.67 3.67 3.77 2.47 ' +
+    '23.87 1.57 4.77 2.57 18.17 8.87 29.48 5.78 2.38 24.75 2.25 gv.69 20.79 2v.69 3.0a 27.8b ' +
+    '2.7b 1.6b 3.6b 3.5b 1j.3b f.6b 3.3b 6.4b 5.1b 1.4b 2.1b 12.3b 6.7b 2u.7c 2.05',
+  '950':
+    'lz+m0+m2+m3+m5+m6,m2,lz,m2+m3,m0+m3,m3,lz+m3,lz+m2,m5,m1+m3,m1,m1+m6,m6,m0;0.00 0.41 ' +
+    '5.61 3.71 2.51 4.61 3.61 3.61 3.01 0.62 2.72 c.03 0.04 0.25 0.03 0.05 3.45 0.03 0.05 ' +
+    '3.65 1.f5 0.06 0.a5 0.06 3.03 0.75 v.e5 1.15 2u.85 d3.81 1.31 6.41 5.61 3.03 0.01 0.03 ' +
+    '7.41 5.21 0.07 0.12 0.11 2.07 0.01 8.51 4.21 7.82 1.22 0.07 0.22 3.02 0.16 0.22 4.02 ' +
+    '0.16 7.d2 6.42 5.22 7.52 4.32 2y.58 4.48 5.68 3.26 0.09 0.05 0.06 4.06 0.05 0.36 0.12 ' +
+    '2.02 1c.4a 3.1a 1.7a 2.6a 3.6a 3.6a 3.7a 2.0b 0.0a 12.4a 5.0a 0.1b 0.0a 6.7c 2.3c 6.2c ' +
+    '0.0b 0.4c 1f.6a 3.6a 3.5a 1.0a 2.6a 3.6a 3.6a 3.6a 3.6a ej.58 4.48 5.78 2.78 2.48 5.48 ' +
+    '5.38 6.58 o.18 8.28 7.58 4.78 2.68 3.68 3.38 6.68 n.08 1d.58 4.38 n8.4d 5.5d 4.7d 2.4d ' +
+    '4l.8d 1.6d 3.7d 2.8d 1.5d 3.jd 1.6d 3.0d',
+  '951':
+    'lz,lz+m5,m5;669.70 2.70 2.70 2.70 2.70 2.70 2.70 2.70 2.70 c.70 2.70 2.60 3.20 0.01 ' +
+    '0.20 3.60 3.30 0.02 0.00 4.60',
+  '952':
+    'ln;0.70 3.50 4.70 20.80 1.50 2c.60 3.50 2c.60 3.70 2.10 2q.10 8.40 1t.40 5.40 2d.50 ' +
+    '4.40 5.50 22.50 4.50 2w.30 q.60 9j.80 1.20 2f.70 2.40 5.50 2w.40 1t.70 2.70 2.70 2.80 ' +
+    '1.70 2.70 2.70 2.40 5.30 1k.50 dg.50 1s.50 4.40 5.50 ok.80 29.60 5x.40 5.40 2x.50',
+  '953': 'm6;b.50 4.60 3.50 4.40 5.40 5.60 3.70 m.40 5.60 3.40 5.50 4.30',
+  '954':
+    'mf,mg;0.20 1.40 2.30 1.10 3.60 3.70 2.50 4.80 1.30 2.10 2.80 1.80 1.00 9.60 3.10 8.51 ' +
+    '4.71 2.61 3.61 3.51 4.61 3.01 j.61 3.71 2.11',
+  '955':
+    'lj;0.40 6.50 4.10 1.10 5.50 4.60 3.00 1.40 3.50 4.20 7.40 5.60 3.70 2.70 2.70 2.60 3.70 ' +
+    '2.70 2.70 hk.00 1.50 2.50 1.00 2.30 6.20 7.40 5.30 6.30',
+  '956':
+    'm4;0.70 3.60 3.60 3.60 3.00 1.30 4.60 17.00 9.60 3.20 it.50 4.70 2.70 2.60 3.60 3.40 ' +
+    '5.60',
+  '957':
+    'm7,lq;0.70 3.70 2.70 2.60 3.70 2.70 2.60 3.70 2.60 3.10 7.61 4.61 3.61 21.60 4.50 3.50 ' +
+    '4.50 2m.50 4.60 3.60 2v.50',
+  '958':
+    'm8,lx;0.80 2.30 6.50 4.70 2.70 2.70 2.01 3v.50 4.40 5.50 4.50 4.50 4.40 5.90 eq.80 1.70 ' +
+    '2.30 6.60 3.80 1.60 3.60 3.60',
+  '959':
+    'mb,mg,me,m5+m6,m6,lj,lp,ls,lm,mh,m7,md,m8,ly,m9;2t.80 1.s0 1.81 1.61 3.41 5.10 8.20 ' +
+    'h.20 1.30 2.60 3.40 1.10 2.60 3.70 1.70 3.70 v.j2 1.22 25.03 0.54 3.74 2.54 4.74 1q.74 ' +
+    '2.84 1.04 g3.85 1.85 1.55 4.55 4.75 2.55 17.70 3.60 3.50 1.00 3.20 6.10 1.00 1.00 4.70 ' +
+    '2.40 5.60 2.10 2.00 1.30 a.76 3.56 4.76 2.66 3.76 2.66 3.26 7.76 2.66 34.37 7.37 6.47 ' +
+    '22.48 6.48 5.48 5.68 3.38 1k.08 1.68 1.78 2.68 3.88 1.88 1.88 1.68 x.68 3.38 6.48 5.68 ' +
+    '3.78 2.68 3.68 3.58 o.i9 1.h9 2.89 1.89 1.79 2.79 l.79 3.49 5.59 4.69 3.89 1.69 3.59 ' +
+    '4.49 5.29 1.19 e.69 3.69 3.59 3.69 4.79 1g.59 4.69 3.69 21.4a 5.4a 5.8a 1.7a 16.0a j.8a ' +
+    '1.6a 3.1a 2.1a 4.6a 3.4a 5.6a 3.4a 2.0a 2.8a l.6a 3.7a 2.7a 1z.9b 1.8b 1.8b 1.7b 2.7b ' +
+    '2.8b 1.8b 1.6b n.8b 2.4b 4.3b 24.8b 1.6b 3.6b 7l.7c 2.6c 3.5c 4.3c 1t.8d 2.5d 4.7d 2.6d ' +
+    '3.5d 4.8d 1.4d 5.4d 3h.6c 3.6c 3.7c 2.6c 3.8c 5l.2c 7.5c 6i.6c 3.8c 1.7c 2.7c 2.7c ' +
+    '9s.3e 2n.ie m.0e 1n.6e 3.4e 5.5e 4.8e 1p.5e 1.0e 2.1e 1.0e 2.1e 2.6e 3.5e',
+  '960':
+    'bc,a2,a4,b6;0.00 2s.20 7.50 2c.00 9.00 9.00 9.00 9.00 9.10 8.00 9.00 3l.71 2.81 1.81 ' +
+    '1.71 2.71 2.71 2.71 2.81 1.81 b.11 2p.91 1.81 1.81 1.81 1.i1 1.i1 1.81 b.81 1.21 1.41 ' +
+    '1.81 1.51 4.61 3.91 1.71 2.61 2.61 d.81 1.00 2h.51 5e.70 3e.10 8.70 1g.30 g.00 26.92 ' +
+    '1.62 3.82 1.52 4.52 4.52 4.82 1.72 2.82 b.02 2q.03 u.53 2c.33 24.33 6.43 7x.10 1c.70 ' +
+    '2k.00 9.20 4fd.20 7.70 2.50 4.50 4.30 6.70 2.70 2.50 o.60 3.60 3.40 5.60 3.20 7.60 3.50 ' +
+    'y.30 6.70 2.70 2.60 3.30 6.30',
+  '961':
+    'b3+bk,b3,bh,bk;0.00 0.41 5.61 3.61 3.81 1.61 3.31 6.51 4.71 2.61 3.31 5.62 5e.81 2j.81 ' +
+    '1.51 ao.41 5.61 3.81 1.71 2.51 4.61 3.61 3.41 5.71 c.71 2.61 3.51 4.61 3.61 3.61 3.41 ' +
+    '5.41 5.51 4.51 5ek.03 0.01 8.03 9.03 9.03 9.63 3.53 4.03 9.03 9.03 9.03',
+  '962':
+    'bm,aq;0.70 3.60 3.70 2.50 4.60 3.80 1.20 1l.50 22.40 5.00 2h.40 5.40 2d.50 2l.41 6.51 ' +
+    '2w.21 2f.30 6.70 20.60 3.70 2.60 3.80 1.70 2.80 1.70',
+  '963':
+    'bl,b2,b0,av,at,aw,au,b9,ba,b1,bb,b8,b7;0.00 2s.80 1.80 1.80 1z.80 1.50 4.00 9.10 8a.30 ' +
+    '6.60 3.10 30.60 3.20 r.30 6.30 6.50 2w.60 1r.30 6.30 6.40 69.50 4.40 23.70 1g.80 1.00 ' +
+    '2r.30 2y.10 30.20 1al.51 2b.61 36.41 23.22 e3.42 2d.42 2m.02 a.72 2.32 2y.52 2w.42 ' +
+    '1j.52 4.32 2e.12 b1.03 a.83 29.23 39.23 h.34 1j.84 2.04 2l.05 f.14 8.84 3d.36 6.16 8.46 ' +
+    'bi.66 4.46 5.26 7.06 9.66 3.26 1a.87 2.77 29.68 4.58 12f.99 1.89 1.59 4.29 7.89 1.89 ' +
+    '1.89 1.29 7.59 d.8a 2.7a 2.7a 2.7a 2.8a 1.8a 1.6a 3.5a 4.5a 36.70 2.70 2.50 4.80 1.60 ' +
+    '3.20 7.00 9.00 s.0b a.5b 2c.6b 2k.8c 2j.85 aw.60 3.70 2.80 1.70 2.50 4.10 8.60 3.70',
+  '964':
+    'a1,ap;0.80 2.60 3.80 1.80 1.80 1.70 2.50 4.60 3.70 2.01 j.00 2h.20 2p.30 6.50 4.00 ' +
+    '31.20 a7.70 2.70 2.80 1.70 2.80 1.80 1.80 1.50 4.60 3.70 2.60 3.60 3.80 1.70 2.80 1.70 ' +
+    '2.50 4.50 4.60 3.60',
+  '965':
+    'a6;0.90 1.50 4.60 3.70 2.70 2.i0 1.i0 b.20 3.00 2.80 2.00 2.00 1.30 1.50 1s.40 gj.80 ' +
+    '1.70 2.i0 1.80 1.80 1.60 3.70',
+  '966':
+    'ak,bd;0.70 3.60 3.30 6.80 1.80 1.70 2.80 1.30 6.60 3.60 3.70 83.51 2n.01 8b.50 4.80 ' +
+    '1.60 3.80 1.i0 1.80 1.40 1.00 3.10 1.00 2.00 3.50 1.10 1.30 6.40 5.30 6.20',
+  '967':
+    'a8,aa;0.70 3.50 4.50 7m.60 3.40 1.20 1.30 6.50 4.60 48.01 0.60 3.40 5.71 2.11 1w.40 ' +
+    '5.00 9.10 8.30 6.10',
+  '968': 'ao,an,a9;0.60 4.50 2b.41 2y.41 2x.50 21.02 a.42 5.22 7.32 6.42 4b.62',
+  '969':
+    'bi,bj,b3,ar,as,ap,a1,a5,a3,be,bd,bf,a6,az,ak,bg,a7,am,ax,ay,al;2s.60 2l.61 4.21 7.61 ' +
+    '3.71 2.71 2.71 2.71 2.11 8.71 c.82 2i.43 jb.14 1.64 1.84 1.84 1.84 1.84 1.84 1.84 1.54 ' +
+    'o.54 2l.25 2q.46 2x.26 2e.87 2.87 1.87 1.47 5.27 7.37 6.27 10.18 9.38 6.18 8.08 9.08 ' +
+    '9.08 9.08 9.08 8.98 dd.49 ap.29 11.0a 1d.19 9n.39 7.29 7.29 7.29 7.09 3v.79 b.4b 2o.1c ' +
+    '8.1c 8.1c 8.0c 9.0c 9.0c 9.3c 6.0c 9.1c h.0d 0.5e 4.4e 4.9e 1.8e 1.5d 4.5d f4.8e 1.8e ' +
+    '1.6e 2.je 1.6e 3.8e 3n.3e 6.5e 2b.6f 2w.4f 2x.3f 2y.6f ad.3c 6.2c 7.2c 7.6c 1h.7g 2j.0g ' +
+    'a.7g 2.5g 4.4g 5.4g i7.7c 2.2c 1.0c 5.8h 1.7h 2.6h 3.8h 1.8h 1.8h 1.6h d.8h 1.8h 1.8h ' +
+    '1.4h 5.5h 4.1h 1.5h 1.5h 4.6h 2.0c 1.4c 1.1c a.7h 3.4h 5.5h 4.1h 8.4h 5.5h 4.7h 2.3h ' +
+    'q.6h 3.7h 2.7h 2.7h 2.2h 7.5h 18.8h 1.0h 2g.7i 3.8i 1.7i 2.8i 1.8i 1.6i 3.6i 3.5i 4.6i ' +
+    'h0.9j 2t.4j 5.5j 22.6k 5.0k 2e.0k a.8k',
+  '970':
+    'a0;0.00 2s.60 3.50 2w.80 29.60 mv.60 3.20 2z.30 2o.00 9.60 53z.70 2.70 2.70 2.50 4.60 ' +
+    '3.30',
+  '971': 'a0;691.10 8.10 8.60 3.80 1.50 4.10 8.80 1.10 8.80',
+  '972': 'a0;4h.30 2e.20 67j.00 9.70 2.50 4.70',
+  '973': 'a0;6hd.80 1.10',
+  '974': 'a0;47.20 2f.20 8.00 64s.30 6.20 7.20 7.20 7.10 8.10 8.00',
+  '975': 'ab;0.80 2.70 2.60 3.80 1.80 1.80 1.40 5.80',
+  '976': 'b4;0.70 3.50 4.50 4.60 3.10 8.20 2p.30',
+  '979':
+    'a0,ag,ah,ae,af,ad,ac,ai,aj,ab,b4,b5;3x.60 3.40 19.60 3.50 4.60 2v.70 1p.81 2u.42 2c.62 ' +
+    'f.03 d9.13 9.23 7.23 7.13 8.03 9.13 8.13 8.03 s.24 2p.85 2j.26 8.16 8.26 7.26 7.16 8.26 ' +
+    '7.26 7.16 r.67 4.27 7.57 4.57 4.47 1i.48 2t.07 18.67 9j.39 6.49 5.39 6.39 6.69 3.69 ' +
+    '3.49 5.49 3h.49 5.39 6.39 6.59 2w.39 6.39 6.39 10.0a 9.1a 8.1a 8.2a 7.1a 1w.0b 2g.9b ' +
+    '1.0b b3.40 5.40 5.10 1w.30',
+  '980': '7f;0.50 5.30 6.20 15.00 kf.40 5.40 5.30 k.00 5.50 4.60 3.30 3ye.t0 1n.00 a.u0 1m.00',
+  '981':
+    '7q,7r,7v,7f,7b,7l,86,7g,7d,89,7s,8b,89+8a,8a,7k,7j;2s.50 5.30 6.30 6.50 1r.51 5.41 ' +
+    '2d.82 2t.52 2b.72 ax.73 2.63 3.33 6.53 4.43 5.33 6.63 3p.64 2k.45 6.75 2.65 2.i5 2.05 ' +
+    '6w.56 5.76 2.56 4.36 fp.67 4.67 3.67 3.37 6.57 4.57 4.77 2.37 6.67 d.07 2r.27 2p.17 ' +
+    '2q.07 gm.98 1.68 3.58 4.68 1r.58 4.78 2.68 17.09 s.6a 4.2a 7.8a 1.1a 8.0a 9.1a 8.2a ' +
+    '11.89 1.89 28.3b 7.4b 5.3b 23.0c 0.8d 1.1d 8.89 1.19 cz.5e 5.1e 8.1e 8.0e 9.0e 9.0e ' +
+    '1c.3f 7.2f 7.8f 1.4f 5.1f 8.5f 4.4f 5.6f n.5f 1.1f 1.8f 1.8f 1.6f 3.6f 3.7f 2.8f 1.6f ' +
+    '3.5f e.2f 7.8f 2rh.68',
+  '982': '7b,7f;0.70 3.40 5.60 3.60 4t.40 5.10 8.00 9.40 5.10 8.21 ex.60 3.70 2.50 4.60 3.70',
+  '983': '7c;0.70 3.30 6.00 1.30 4.80 1.60 kz.00 7.60 3.50 1.00 2.80 1.40 5.20 7.80',
+  '984': '7e;0.40 6.60 4.00 7.90 1.70 2.70 2.40 5.40 k5.60 3.60 3.70 2.70 2.40',
+  '985':
+    '7m+7n+7p,7m,7p,7n,7c;0.00 0.51 4.51 4.51 4.51 4.51 4.61 3.61 3.61 3.71 2u.41 gt.42 5.22 ' +
+    '7.32 6.43 5.53 4.33 6.43 5.33 q.04',
+  '986':
+    '85,83,7u,82;0.60 4.00 1.00 1.20 2.90 1.20 7.20 1l.50 4.40 5.30 6.20 1v.30 2o.40 5.30 ' +
+    '6.30 24.11 89.92 1.72 2.82 1.22 7.22 7.32 6.72 2.82 1.12 i.20 1.10 4.40 5.70 2.70 2.s0 ' +
+    '1.70 2.20 6b.00 59.30 6.20 7.10 8.50 l8.40 5.50 4.20 7.60 1q.53 5.13 8.53 4.13 7.03 ' +
+    '1.23 1.33 1.03 9.53 e.23 1l.60 3.40 19.50 4.40 2x.60',
+  '987':
+    '88,87,83,85,7o,80;0.60 4.40 5.10 1.20 4.70 2.50 4.80 1.80 u.71 3.41 5.01 8.j1 1.01 9.41 ' +
+    '5.11 30.51 e.82 1.02 9.02 9.02 9.52 4.82 1.72 2.82 1.42 f.42 5.42 5.52 4.22 7.62 1g.02 ' +
+    'a.22 2f.12 8.02 9.22 25.32 5g.22 5h.23 39.13 26.54 ja.45 5.75 2.75 2.55 4.45 5.45 1j.55 ' +
+    '4.75 2.25 7.65 3.85 1.35 6.65 3.85 a.55 5.55 4.85 1.55 4.65 3.25 7.45 5.45 p.85 1.85 ' +
+    '1.85 1.85 1.85 1.85 1.85 1.35 3s.15',
+  '988':
+    '81,7u;0.80 2.70 2.50 4.30 1.10 3.50 4.70 2.50 4.60 3.60 d.40 5.30 6.30 6.30 6.30 6.60 ' +
+    '3.80 1.30 6.40 f.60 3.40 5.60 3.70 2.60 3.50 4.80 1.80 1.60 d.80 1.70 2.70 2.80 1.70 ' +
+    '2.80 1.60 3.40 5.80 b.51 4.41 5.51 4.51 4.71 2.51 4.61 3.71 m.50 4.30 6.60 3.40 5.30 ' +
+    '6.30 6.20 7.10 8.10 i.60 3.20 7.20 7.30 4m.60 3.70 2.80 1.60 3.60 3.40 5.70 1m.00',
+  '989':
+    '84,7h,7i,7x,7w,7y,7z,7a,79,7t,7l,7f,7o,88,80,83;33.20 2e.80 2.70 1.90 1.20 7.70 2.80 ' +
+    '1.70 2.70 65.81 2.81 1.81 1.61 3.81 1.61 3.01 13.11 8.61 3.71 2.51 4.31 6.71 2.61 x.02 ' +
+    't.30 1t.02 k.02 9.02 9.22 7.02 1d.03 6.03 2.52 4.02 4z.30 2n.74 3.64 3.44 5.64 3.84 ' +
+    '1.84 1.04 1.14 1.14 3.34 p.55 5.05 9.25 4w.73 3.05 2g.86 2.26 7.26 7.06 2r.06 9.56 4.76 ' +
+    '2.46 9l.17 2f.87 2j.38 7.08 9.48 5.28 7.08 9.18 8.08 9.18 8.48 e.09 0.0a 9.1a 7.99 1.69 ' +
+    '3.79 2.89 1.49 5.79 hu.7b 20.6b 3.5b 5y.3b ii.5c 2m.8d 2j.7c 2u.8c 2b.ge 1.8e 1.ie 1.6e ' +
+    '2.te b.0f 2r.2f 2q.1e 1.3e 8e.8e 1.7e 1.9e 1.5e 4.4e 5.5e 4.2e 7.0e 1.2e 37.0e 9.1e ' +
+    '8.3e 6.4e 5.0e 9.0e 9.0e 9.1e 8.1e i.2e 2p.8e 2j.ie 1.6e d4.6c 4.6c 3.7c 2.5c 4.4c 5.6c ' +
+    '3.6c 3.4c p.7c 2.6c 3.7c 2.5c 4.3c 6.4c 5.5c y.5c 4.6c 3.1c 26.4c 5.4c 5.5c 4.6c 3.6c ' +
+    'd.5c 4.0c 6d.0e 9.1c 2g.6c 3.0c 9.6c 3.7c 2u.0c',
+  '990':
+    '97,9i,9h,95,9s,9p,9q;0.80 2.70 2.40 5.80 1.60 3.60 3.70 2.60 66.31 7.11 8.21 7.21 7.11 ' +
+    '8.11 8.01 12.92 1.02 2h.43 5.23 7.43 z.03 3u.34 7.34 6.04 9.44 5.24 1l.e0 1.20 1.80 ' +
+    '1.50 4.v0 1.50 1.50 4.80 5k.15 9.35 6.15 8.35 6.55 4.35 6.45 2x.55 o.56 2l.06 a.16 8.36 ' +
+    '6.26 7.36 2y.26 7.26 7.36 ga.30 6.40 z.50 4.60 3.40 5.10 8.00 1d.70 2.60 3.30 6.40 1.20 ' +
+    '1.50 4.40 5.60 3.70 2.50 e.50 4.30 6.20 7.40 5.60 3.00 1.00 1.00 5.40 5.60 3.30 6.40',
+  '991': '95,9p;0.80 2.20 7.70 2.40 5.80 1.60 3.50 ke.01',
+  '992':
+    '9o,9n,93,9m,9u;0.50 5.60 3.60 3.80 1.60 3.80 1.50 4.60 3.60 3.50 e.80 3x.41 y.21 8.41 ' +
+    '5.41 5.41 5.31 6.11 3a.82 2t.32 g.23 4n.84 k.24 8.14 8.04 9.14 8.04 9.14 8.34 74.70 ' +
+    '20.50 2o.00 r.00 22.00 y.50 4.40 5.10 8.30 2y.20',
+  '993': '9x;0.70 3.60 3.30 6.40 5.10 8.30 6.30 6.40 5.60',
+  '994': '94;0.70 3.50 4.70 2.30 6.80 1.60 3.80 1.80 1.20 h.30',
+  '995': '9g;0.60 4.70 2.40 5.70 2.10 8.50 1i.20 2f.80',
+  '996': '98,99;0.20 8.00 9.70 2.40 5.00 9.30 6.00 9.80 1.70 2.00 j.10 2f.11 9.21 2f.01',
+  '997':
+    '9z,9k;0.j0 1.80 1.80 1.80 1.70 16.70 8.00 3.60 3.00 9.20 7.70 2.60 17.00 2h.20 7.00 ' +
+    '9.20 7.30 6.50 4.00 9.80 v.40 5.40 37.10 2g.50 3g.70 16.80 1.80 1.60 3.80 1.70 2.60 ' +
+    '3.10 6w.60 3.40 5.40 k.00 18.50 2l.11 9.61 3.11 8.81',
+  '998':
+    '9w;0.60 4.70 2.80 1.60 3.50 4.40 5.30 6.40 p.40 5.30 a.00 4b.00 ef.50 4.80 1.30 1.30 ' +
+    '1.70 2.20 7.80 1.40 5.70',
+  '999':
+    '9m,9v,9t,9n,93,91,97,9r,9j,92,96,92+96,9d,98,9f,9c,9e,9b,9a,9l,9z,9w,9y;2s.00 k.10 8.30 ' +
+    '6.40 5.20 1l.30 42.00 1n.61 3.51 4j.61 e0.21 2f.22 7.52 2b.32 7.32 6.32 6.82 1.52 4.52 ' +
+    '4.22 11.12 8.32 6.12 8.52 4.22 7.12 1c.62 3.32 6.12 i0.83 k.54 5.24 7.34 6.34 6.34 6.54 ' +
+    '4.64 n4.75 3.45 5.55 4.45 5.55 4.75 2.65 3.15 s.35 6.65 3.55 4.65 3.55 1i.06 5i.37 7.47 ' +
+    '5.17 8.27 4m.128 2.88 1.68 3.58 3.98 1.68 8o.39 7.59 4.19 8.39 6.09 1m.8a 2.3a 6.8a ' +
+    '1.1a 1z.0a q.6a 2v.4a 2x.2a 0.0b 0.2a 16.5c dr.2d 2f.0d 8.8e 2j.1f 9.3f 2d.6g 4.4g ' +
+    '2x.1f 26.3f dr.7h 2v.4h 2n.4i 2c.3i 5h.8j 16.0k 1c.7l 2.1l 8.6l 3.4l 5.0l 1n.0i 9.5l ' +
+    '4.6l 3.8l 1.7l 2.2l 7.1l 76.5k 22.6k 2v.5k 40.3k 24.7k 1g.1k 1.0k 6.0k 9.1k 8.7k 2.5k ' +
+    '4.2k 7.3k 6.6k 3.4k e.7j 3.4j 5.6j 3.6j 3.8j 1.6j 3.7j 2.6l 3.1j 9o.3l 6.4l 5.7l 2.7l ' +
+    'w.6l 3.4l 5.6l 3.4l 5.5l 1h.4m 6.6m 2v.2l 7.7m 2a.4m 5.0m',
+}
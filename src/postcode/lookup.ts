@@ -0,0 +1,295 @@
+/**
+ * 郵便番号から都道府県・市区町村を調べる（オフライン）
+ *
+ * SDKに同梱している郵便番号と市区町村の対応表（日本郵便の郵便番号データから作成）で都道府県・市区町村を判定し、
+ * 対応表にない郵便番号は上3桁の区域から都道府県のみを判定します。
+ * 対応表は上3桁の区域ごとに、最初に検索したときに展開します。
+ * 町域や最新の郵便番号は、日本郵便の郵便番号データ（utf_ken_all.csv）を読み込んだ `PostcodeDataset` を
+ * 指定した場合に返します。
+ *
+ * @packageDocumentation
+ */
+
+import { PREFECTURES, type Prefecture } from '../address/prefectures.js'
+import { normalizePostcode } from '../address/text.js'
+import { splitRecords } from '../csv/parse.js'
+import { POSTCODE_AREAS, POSTCODE_SHARED_AREAS } from './areas.js'
+import { POSTCODE_CITIES, POSTCODE_CITY_AREAS } from './cities.js'
+
+/**
+ * 郵便番号の検索結果
+ */
+export interface PostcodeInfo {
+  /** 半角数字7桁の郵便番号 */
+  postcode: string
+  /** 都道府県（候補が複数ある場合は、上3桁の区域の大部分を占める都道府県） */
+  prefecture: Prefecture
+  /**
+   * 都道府県の候補
+   * 郵便番号が複数の都道府県にまたがる場合、または対応表にない郵便番号で上3桁の区域が都道府県の境界をまたぐ場合は複数
+   */
+  prefectures: Prefecture[]
+  /** 市区町村（対応表にない場合、または複数の市区町村にまたがる場合はundefined） */
+  city: string | undefined
+  /**
+   * 町域（`dataset` を指定しない場合、データにない場合、または複数の町域にまたがる場合はundefined）
+   */
+  town: string | undefined
+}
+
+/**
+ * 郵便番号の検索オプション
+ */
+export interface PostcodeLookupOptions {
+  /**
+   * 町域まで調べる郵便番号データ
+   * 指定した場合、データにある郵便番号は同梱の対応表よりもデータの値を優先する
+   */
+  dataset?: PostcodeDataset | undefined
+}
+
+/**
+ * 上3桁ごとの都道府県のインデックス（0は該当なし、それ以外はPREFECTURESの添字 + 1）
+ * 最初の検索時に作成する
+ */
+let areaIndex: Uint8Array | undefined
+
+/**
+ * 都道府県の境界をまたぐ上3桁と、ほかに含まれる都道府県（PREFECTURESの添字 + 1）
+ * 最初の検索時に作成する
+ */
+let sharedAreas: Map<number, number[]> | undefined
+
+/**
+ * 上3桁の区域表からインデックスを作成する
+ */
+function getAreaIndex(): Uint8Array {
+  if (!areaIndex) {
+    areaIndex = new Uint8Array(1000)
+    for (const entry of POSTCODE_AREAS.split(',')) {
+      const [range = '', code = ''] = entry.split(':')
+      const [start = '', end = ''] = range.split('-')
+      areaIndex.fill(Number(code), Number(start), Number(end) + 1)
+    }
+  }
+  return areaIndex
+}
+
+/**
+ * 上3桁の区域に含まれる都道府県を返す（最初の要素が区域表の都道府県）
+ */
+function prefecturesOfArea(area: number): Prefecture[] {
+  if (!sharedAreas) {
+    sharedAreas = new Map()
+    for (const entry of POSTCODE_SHARED_AREAS.split(',')) {
+      const [shared = '', code = ''] = entry.split(':')
+      sharedAreas.set(Number(shared), [...(sharedAreas.get(Number(shared)) ?? []), Number(code)])
+    }
+  }
+  return [getAreaIndex()[area] ?? 0, ...(sharedAreas.get(area) ?? [])].flatMap((code) => {
+    const prefecture = PREFECTURES[code - 1]
+    return prefecture ? [prefecture] : []
+  })
+}
+
+/**
+ * 同梱の対応表の市区町村（`都道府県コード2桁 + 市区町村名`）
+ * 最初の検索時に作成する
+ */
+let cityNames: string[] | undefined
+
+/**
+ * 上3桁ごとに展開した対応表（下4桁 → 市区町村の添字）
+ */
+const cityAreas = new Map<string, Map<number, number[]>>()
+
+/**
+ * 上3桁の区域の対応表を展開する（形式は `POSTCODE_CITY_AREAS` を参照）
+ */
+function getCityArea(area: string): Map<number, number[]> {
+  let cities = cityAreas.get(area)
+  if (!cities) {
+    cities = new Map()
+    const [localCities = '', ranges = ''] = (POSTCODE_CITY_AREAS[area] ?? '').split(';')
+    const candidates = localCities
+      .split(',')
+      .map((indexes) => indexes.split('+').map((index) => parseInt(index, 36)))
+    let next = 0
+    for (const range of ranges.split(' ')) {
+      const [gap = '', rest = ''] = range.split('.')
+      const start = next + parseInt(gap, 36)
+      const end = start + parseInt(rest.slice(0, -1), 36)
+      const indexes = candidates[parseInt(rest.slice(-1), 36)] ?? []
+      for (let suffix = start; suffix <= end; suffix++) {
+        cities.set(suffix, indexes)
+      }
+      next = end + 1
+    }
+    cityAreas.set(area, cities)
+  }
+  return cities
+}
+
+/**
+ * 同梱の対応表から郵便番号の市区町村を調べる
+ *
+ * @returns 都道府県と市区町村名の候補（対応表にない場合は空）
+ */
+function citiesOf(postcode: string): Array<{ prefecture: Prefecture; city: string }> {
+  cityNames ??= POSTCODE_CITIES.split('|')
+  const names = cityNames
+  return (getCityArea(postcode.slice(0, 3)).get(Number(postcode.slice(3))) ?? []).flatMap(
+    (index) => {
+      const name = names[index] ?? ''
+      const prefecture = PREFECTURES[Number(name.slice(0, 2)) - 1]
+      return prefecture ? [{ prefecture, city: name.slice(2) }] : []
+    },
+  )
+}
+
+/**
+ * 郵便番号データの町域のうち、町域名ではない記載
+ */
+const NON_TOWN_NAMES = new Set(['以下に掲載がない場合'])
+
+/**
+ * 日本郵便の郵便番号データ
+ *
+ * @example
+ * ```typescript
+ * import { readFile } from 'node:fs/promises'
+ *
+ * const dataset = PostcodeDataset.fromJapanPostCsv(await readFile('utf_ken_all.csv', 'utf8'))
+ * lookupPostcode('1000001', { dataset })
+ * // { postcode: '1000001', prefecture: '東京都', city: '千代田区', town: '千代田' }
+ * ```
+ */
+export class PostcodeDataset {
+  private readonly entries: Map<string, { prefecture: Prefecture; city: string; town?: string }>
+
+  private constructor(
+    entries: Map<string, { prefecture: Prefecture; city: string; town?: string }>,
+  ) {
+    this.entries = entries
+  }
+
+  /**
+   * 日本郵便の郵便番号データ（UTF-8版のutf_ken_all.csv、またはShift_JIS版をデコードしたKEN_ALL.CSV）を読み込む
+   * 同じ郵便番号が複数の町域にまたがる場合、町域はundefinedとする
+   *
+   * @param text - CSVの文字列
+   * @returns 郵便番号データ
+   *
+   * @throws {ValidationError} ダブルクォートが閉じられていない場合
+   */
+  static fromJapanPostCsv(text: string): PostcodeDataset {
+    const entries = new Map<string, { prefecture: Prefecture; city: string; town?: string }>()
+    for (const { cells } of splitRecords(text, ',')) {
+      const [, , postcode = '', , , , prefecture = '', city = '', town = ''] = cells
+      if (!/^\d{7}$/.test(postcode) || !(PREFECTURES as readonly string[]).includes(prefecture)) {
+        continue
+      }
+
+      const townName = NON_TOWN_NAMES.has(town) ? undefined : town.replace(/（.*$/, '')
+      const existing = entries.get(postcode)
+      if (!existing) {
+        entries.set(postcode, {
+          prefecture: prefecture as Prefecture,
+          city,
+          ...(townName ? { town: townName } : {}),
+        })
+      } else if (existing.town !== townName) {
+        delete existing.town
+      }
+    }
+    return new PostcodeDataset(entries)
+  }
+
+  /**
+   * 郵便番号の件数
+   */
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * 郵便番号を検索する
+   *
+   * @param postcode - 半角数字7桁の郵便番号
+   * @returns 都道府県・市区町村・町域（データにない場合はundefined）
+   */
+  get(postcode: string): { prefecture: Prefecture; city: string; town?: string } | undefined {
+    return this.entries.get(postcode)
+  }
+}
+
+/**
+ * 郵便番号から都道府県・市区町村を調べる
+ *
+ * 同梱の対応表にある郵便番号は、都道府県と市区町村を返します。複数の市区町村にまたがる郵便番号は
+ * `prefectures` に都道府県の候補をすべて返し、`city` はundefinedとします。
+ * 対応表にない郵便番号は上3桁の区域から都道府県のみを判定します。区域が都道府県の境界をまたぐ郵便番号
+ * （498・618・684・871）は `prefecture` が実際と異なる場合があるため、`prefectures` に候補をすべて返します。
+ * `dataset` を指定した場合、データにある郵便番号はデータの都道府県・市区町村・町域を返します。
+ *
+ * @param postcode - 郵便番号（ハイフン・全角数字を含む表記も可）
+ * @param options - 検索オプション
+ * @returns 検索結果（7桁の数字でない場合、または該当する区域がない場合はundefined）
+ *
+ * @example
+ * ```typescript
+ * lookupPostcode('100-0001')
+ * // { postcode: '1000001', prefecture: '東京都', prefectures: ['東京都'], city: '千代田区', town: undefined }
+ *
+ * lookupPostcode('498-0000')?.prefectures
+ * // ['愛知県', '三重県']（弥富市・桑名郡木曽岬町）
+ * ```
+ */
+export function lookupPostcode(
+  postcode: string,
+  options: PostcodeLookupOptions = {},
+): PostcodeInfo | undefined {
+  const normalized = normalizePostcode(postcode)
+  if (!normalized) {
+    return undefined
+  }
+
+  const entry = options.dataset?.get(normalized)
+  if (entry) {
+    return {
+      postcode: normalized,
+      prefecture: entry.prefecture,
+      prefectures: [entry.prefecture],
+      city: entry.city,
+      town: entry.town,
+    }
+  }
+
+  const areaPrefectures = prefecturesOfArea(Number(normalized.slice(0, 3)))
+  const cities = citiesOf(normalized)
+  const [first] = cities
+  if (first) {
+    const candidates = [...new Set(cities.map((candidate) => candidate.prefecture))]
+    // 候補が複数ある場合は、区域の大部分を占める都道府県を先頭にする
+    const prefecture =
+      areaPrefectures.find((candidate) => candidates.includes(candidate)) ?? first.prefecture
+    return {
+      postcode: normalized,
+      prefecture,
+      prefectures: [prefecture, ...candidates.filter((candidate) => candidate !== prefecture)],
+      city: cities.length === 1 ? first.city : undefined,
+      town: undefined,
+    }
+  }
+
+  const [prefecture] = areaPrefectures
+  return prefecture
+    ? {
+        postcode: normalized,
+        prefecture,
+        prefectures: areaPrefectures,
+        city: undefined,
+        town: undefined,
+      }
+    : undefined
+}
@@ -0,0 +1,249 @@
+/**
+ * クライアント側レート制限
+ * トークンバケットによる秒間リクエスト数と同時実行数の制御
+ *
+ * @packageDocumentation
+ */
+
+import { RateLimitError } from './errors.js'
+import { type Middleware, type MiddlewareContext } from './middleware.js'
+
+/**
+ * レート制限設定
+ */
+export interface RateLimitConfig {
+  /**
+   * 1秒あたりの最大リクエスト数（バケット容量も同じ値）
+   * 未指定の場合は制限しない
+   */
+  requestsPerSecond?: number
+
+  /**
+   * 最大同時実行数
+   * 未指定の場合は制限しない
+   */
+  maxConcurrency?: number
+}
+
+/**
+ * 429でRetry-Afterが返されなかった場合の停止時間（秒）
+ */
+const DEFAULT_RETRY_AFTER_SECONDS = 1
+
+/**
+ * 実行枠の待機者
+ */
+interface Waiter {
+  resolve: (_release: () => void) => void
+  reject: (_reason: unknown) => void
+  signal: AbortSignal | undefined
+  onAbort: () => void
+}
+
+/**
+ * トークンバケット方式のレートリミッター
+ *
+ * 待機中のリクエストは到着順（FIFO）に実行枠を取得します。
+ * `pause()` を呼び出すと、指定時間が経過するまですべての待機中リクエストを停止します。
+ *
+ * @example
+ * ```typescript
+ * const limiter = new RateLimiter({ requestsPerSecond: 5, maxConcurrency: 2 })
+ *
+ * const release = await limiter.acquire()
+ * try {
+ *   await fetch(url)
+ * } finally {
+ *   release()
+ * }
+ * ```
+ */
+export class RateLimiter {
+  private readonly rate: number
+  private readonly maxConcurrency: number
+  private readonly queue: Waiter[] = []
+  private tokens: number
+  private lastRefill = Date.now()
+  private active = 0
+  private pausedUntil = 0
+  private timer: ReturnType<typeof setTimeout> | undefined
+
+  constructor(config: RateLimitConfig = {}) {
+    const { requestsPerSecond = Number.POSITIVE_INFINITY, maxConcurrency } = config
+    if (!(requestsPerSecond > 0)) {
+      throw new RangeError(`requestsPerSecond must be positive, got ${requestsPerSecond}`)
+    }
+    if (maxConcurrency !== undefined && (!Number.isInteger(maxConcurrency) || maxConcurrency < 1)) {
+      throw new RangeError(`maxConcurrency must be a positive integer, got ${maxConcurrency}`)
+    }
+
+    this.rate = requestsPerSecond
+    this.maxConcurrency = maxConcurrency ?? Number.POSITIVE_INFINITY
+    this.tokens = requestsPerSecond
+  }
+
+  /**
+   * 実行枠を取得する
+   *
+   * @param signal - 待機を中断するためのAbortSignal
+   * @returns 実行枠を解放する関数（複数回呼び出しても1回のみ解放）
+   */
+  acquire(signal?: AbortSignal): Promise<() => void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason)
+        return
+      }
+
+      const waiter: Waiter = {
+        resolve,
+        reject,
+        signal,
+        onAbort: () => {
+          const index = this.queue.indexOf(waiter)
+          if (index !== -1) {
+            this.queue.splice(index, 1)
+            reject(signal?.reason)
+          }
+        },
+      }
+      signal?.addEventListener('abort', waiter.onAbort, { once: true })
+      this.queue.push(waiter)
+      this.drain()
+    })
+  }
+
+  /**
+   * 指定時間、実行枠の払い出しを停止する
+   * 停止中にさらに呼び出した場合は、より遅い再開時刻を採用する
+   *
+   * @param ms - 停止時間（ミリ秒）
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms)
+    this.reschedule()
+  }
+
+  /**
+   * 経過時間に応じてトークンを補充
+   */
+  private refill(): void {
+    if (this.rate === Number.POSITIVE_INFINITY) {
+      return
+    }
+    const now = Date.now()
+    this.tokens = Math.min(this.rate, this.tokens + ((now - this.lastRefill) / 1000) * this.rate)
+    this.lastRefill = now
+  }
+
+  /**
+   * 次の実行枠を払い出せるまでの待機時間（ミリ秒）
+   */
+  private waitTime(): number {
+    this.refill()
+    const pauseWait = this.pausedUntil - Date.now()
+    const tokenWait = this.tokens >= 1 ? 0 : ((1 - this.tokens) / this.rate) * 1000
+    return Math.max(pauseWait, tokenWait, 0)
+  }
+
+  /**
+   * 待機タイマーを破棄して払い出しを再評価
+   */
+  private reschedule(): void {
+    if (this.timer !== undefined) {
+      clearTimeout(this.timer)
+      this.timer = undefined
+    }
+    this.drain()
+  }
+
+  /**
+   * 払い出せる限り待機者に実行枠を払い出す
+   */
+  private drain(): void {
+    if (this.timer !== undefined) {
+      return
+    }
+
+    while (this.queue.length > 0) {
+      if (this.active >= this.maxConcurrency) {
+        // 解放時に再評価する
+        return
+      }
+
+      const wait = this.waitTime()
+      if (wait > 0) {
+        this.timer = setTimeout(() => {
+          this.timer = undefined
+          this.drain()
+        }, wait)
+        return
+      }
+
+      const waiter = this.queue.shift()
+      if (!waiter) {
+        return
+      }
+      waiter.signal?.removeEventListener('abort', waiter.onAbort)
+      this.tokens -= 1
+      this.active++
+      waiter.resolve(this.createRelease())
+    }
+  }
+
+  /**
+   * 実行枠を解放する関数を生成
+   */
+  private createRelease(): () => void {
+    let released = false
+    return () => {
+      if (released) {
+        return
+      }
+      released = true
+      this.active--
+      this.drain()
+    }
+  }
+}
+
+/**
+ * レートリミッターを適用するミドルウェアを生成
+ *
+ * 試行ごとに実行枠を取得し、レスポンス受信またはエラー発生時に解放します。
+ * 429（`RateLimitError`）を受け取った場合は、`retryAfter` の秒数だけキュー全体を停止します。
+ * 待機時間は `MiddlewareContext.startedAt` に含めません。
+ *
+ * @internal
+ * @param limiter - 適用するレートリミッター
+ * @returns レート制限ミドルウェア
+ */
+export function createRateLimitMiddleware(limiter: RateLimiter): Middleware {
+  const releases = new WeakMap<MiddlewareContext, () => void>()
+
+  const release = (context: MiddlewareContext): void => {
+    releases.get(context)?.()
+    releases.delete(context)
+  }
+
+  return {
+    beforeRequest: async (request, context) => {
+      releases.set(context, await limiter.acquire(request.signal))
+      context.startedAt = Date.now()
+    },
+
+    afterResponse: (_request, response, context) => {
+      // 429の場合は停止してから解放するため、onErrorまで保持する
+      if (response.status !== 429) {
+        release(context)
+      }
+    },
+
+    onError: (_request, error, context) => {
+      if (error instanceof RateLimitError) {
+        limiter.pause((error.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS) * 1000)
+      }
+      release(context)
+    },
+  }
+}
@@ -8,6 +8,13 @@
 import { z } from 'zod'
 import { request, type OpenLogiClient } from '../client.js'
 import { ValidationError } from '../errors.js'
+import {
+  createInBatches,
+  fetchByIds,
+  type BatchOptions,
+  type BulkOptions,
+  type BulkResult,
+} from '../utils/batch.js'
 import {
   type CreateItemRequest,
   CreateItemRequestSchema,
@@ -78,6 +85,60 @@ export async function listItems(
   })
 }
 
+/**
+ * ID一覧指定で商品を取得する際のオプション
+ */
+export interface ListItemsByIdsOptions extends BatchOptions {
+  /** 在庫情報を含むかどうか */
+  stock?: 1
+}
+
+/**
+ * ID一覧指定での商品取得結果
+ */
+export interface ListItemsByIdsResult {
+  /** 商品リスト（入力したIDの順序） */
+  items: ItemResponse[]
+  /** APIから返されなかった商品ID */
+  missingIds: string[]
+}
+
+/**
+ * ID一覧を指定して商品を取得
+ *
+ * 100件を超えるIDは100件ごとのリクエストに分割し、並列数を制限して取得します。
+ * 結果は入力したIDの順序で返し、重複したIDは1件にまとめます。
+ *
+ * @param client - OpenLogiクライアント
+ * @param ids - 商品ID一覧
+ * @param options - 分割・並列数・在庫情報のオプション
+ * @returns 商品リストと、見つからなかった商品ID
+ *
+ * @example
+ * ```typescript
+ * const { items, missingIds } = await listItemsByIds(client, skuIds, {
+ *   stock: 1,
+ *   concurrency: 2,
+ * })
+ * ```
+ */
+export async function listItemsByIds(
+  client: OpenLogiClient,
+  ids: readonly string[],
+  options: ListItemsByIdsOptions = {},
+): Promise<ListItemsByIdsResult> {
+  const { found, missingIds } = await fetchByIds(ids, options, async (chunkIds) => {
+    const query: ListItemsQuery = { id: chunkIds.join(',') }
+    if (options.stock !== undefined) {
+      query.stock = options.stock
+    }
+    const response = await listItems(client, query)
+    return response.items
+  })
+
+  return { items: found, missingIds }
+}
+
 /**
  * 商品を登録
  *
@@ -151,6 +212,50 @@ export async function bulkCreateItems(
   })
 }
 
+/**
+ * 商品を分割して一括登録
+ *
+ * 各商品を個別に検証し、有効な商品のみを100件ごとの一括登録に分割して送信します。
+ * 検証に失敗した商品や、一括登録に失敗したチャンクの商品は `failed` に記録し、残りの登録を続けます。
+ * 先の商品と商品コードが重複する商品は送信せず、`skipped` に記録します。
+ *
+ * @param client - OpenLogiクライアント
+ * @param items - 商品作成データ（件数の制限なし）
+ * @param options - 分割・並列数のオプション
+ * @returns 成功・失敗・送信しなかった商品
+ *
+ * @throws {RangeError} chunkSizeが1-100の整数でない場合
+ *
+ * @example
+ * ```typescript
+ * const { succeeded, failed } = await bulkCreateItemsChunked(client, items)
+ * for (const { index, error } of failed) {
+ *   console.error(`${index + 1}件目の登録に失敗しました`, error)
+ * }
+ * ```
+ */
+export async function bulkCreateItemsChunked(
+  client: OpenLogiClient,
+  items: readonly CreateItemRequest[],
+  options: BulkOptions = {},
+): Promise<BulkResult<ItemResponse, CreateItemRequest>> {
+  return createInBatches(items, options, {
+    validate: (item) => {
+      const result = CreateItemRequestSchema.safeParse(item)
+      return result.success
+        ? undefined
+        : new ValidationError(
+            `リクエストの検証に失敗しました: ${result.error.message}`,
+            result.error,
+            result.error,
+          )
+    },
+    keyOf: (item) => item.code,
+    resultKeyOf: (item) => item.code,
+    createChunk: async (chunkItems) => (await bulkCreateItems(client, { items: chunkItems })).items,
+  })
+}
+
 /**
  * 商品情報を取得
  *
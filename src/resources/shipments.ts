@@ -6,8 +6,25 @@
  */
 
 import { z } from 'zod'
-import { request, type OpenLogiClient } from '../client.js'
+import { request, type OpenLogiClient, type ReadOptions } from '../client.js'
 import { ValidationError } from '../errors.js'
+import { createIdempotently } from '../idempotency.js'
+import {
+  assertShipmentOperation,
+  canReachShipmentStatus,
+  type ShipmentOperation,
+} from '../shipment-state.js'
+import {
+  chunk,
+  createInBatches,
+  fetchByIds,
+  MAX_IDS_PER_REQUEST,
+  type BatchOptions,
+  type BulkOptions,
+  type BulkResult,
+} from '../utils/batch.js'
+import { splitDateParts, type DateRangeOptions } from '../utils/date.js'
+import { pollUntilStatus, type WaitForStatusOptions } from '../utils/poll.js'
 import {
   type CreateShipmentRequest,
   CreateShipmentRequestSchema,
@@ -15,6 +32,7 @@ import {
   UpdateShipmentRequestSchema,
   type ShipmentResponse,
   ShipmentResponseSchema,
+  type ShipmentStatus,
   type ListShipmentsQuery,
   type ListShipmentsResponse,
   ListShipmentsResponseSchema,
@@ -47,6 +65,7 @@ import {
  *
  * @param client - OpenLogiクライアント
  * @param params - クエリパラメータ
+ * @param options - 中断シグナルとレスポンスキャッシュのオプション
  * @returns 出荷依頼一覧とページネーション情報
  *
  * @example
@@ -61,13 +80,64 @@ import {
 export async function listShipments(
   client: OpenLogiClient,
   params?: ListShipmentsQuery,
+  options: ReadOptions = {},
 ): Promise<ListShipmentsResponse> {
   return request(client, ListShipmentsResponseSchema, 'shipments', {
     method: 'GET',
     searchParams: params as Record<string, string | number | boolean>,
+    signal: options.signal ?? null,
+    cache: options.cache,
   })
 }
 
+/**
+ * ID一覧指定で出荷依頼を取得する際のオプション
+ */
+export interface ListShipmentsByIdsOptions extends BatchOptions, ReadOptions {}
+
+/**
+ * ID一覧指定での出荷依頼取得結果
+ */
+export interface ListShipmentsByIdsResult {
+  /** 出荷依頼リスト（入力したIDの順序） */
+  shipments: ShipmentResponse[]
+  /** APIから返されなかった出荷ID */
+  missingIds: string[]
+}
+
+/**
+ * ID一覧を指定して出荷依頼を取得
+ *
+ * 100件を超えるIDは100件ごとのリクエストに分割し、並列数を制限して取得します。
+ * 結果は入力したIDの順序で返し、重複したIDは1件にまとめます。
+ *
+ * @param client - OpenLogiクライアント
+ * @param ids - 出荷ID一覧
+ * @param options - 分割・並列数・中断シグナル・レスポンスキャッシュのオプション
+ * @returns 出荷依頼リストと、見つからなかった出荷ID
+ *
+ * @example
+ * ```typescript
+ * const { shipments, missingIds } = await listShipmentsByIds(client, shipmentIds)
+ * ```
+ */
+export async function listShipmentsByIds(
+  client: OpenLogiClient,
+  ids: readonly string[],
+  options: ListShipmentsByIdsOptions = {},
+): Promise<ListShipmentsByIdsResult> {
+  const { found, missingIds } = await fetchByIds(ids, options, async (chunkIds) => {
+    const response = await listShipments(
+      client,
+      { id: chunkIds.join(',') },
+      { signal: options.signal, cache: options.cache },
+    )
+    return response.shipments
+  })
+
+  return { shipments: found, missingIds }
+}
+
 /**
  * 出荷依頼を作成
  *
@@ -111,10 +181,67 @@ export async function createShipment(
     )
   }
 
-  return request(client, ShipmentResponseSchema, 'shipments', {
-    method: 'POST',
-    json: result.data,
-  })
+  const send = (): Promise<ShipmentResponse> =>
+    request(client, ShipmentResponseSchema, 'shipments', {
+      method: 'POST',
+      json: result.data,
+    })
+
+  const { idempotentCreate } = client.config
+  if (!idempotentCreate) {
+    return send()
+  }
+
+  const key = shipmentKey(result.data)
+  return createIdempotently(
+    idempotentCreate,
+    send,
+    key === undefined
+      ? undefined
+      : () => getShipmentByAccountId(client, idempotentCreate.accountId, key),
+    key,
+  )
+}
+
+/**
+ * 出荷依頼の状態を事前確認するオプション
+ */
+export interface ShipmentPrecheckOptions {
+  /**
+   * 実行前にステータスを確認し、実行できない場合はAPIを呼び出さずに
+   * `InvalidShipmentStateError` をスローする
+   *
+   * - `true`: 出荷依頼を取得して確認する（GETリクエストが1回増える）
+   * - 取得済みの出荷依頼: そのステータスで確認する
+   *
+   * @default false
+   */
+  precheck?: boolean | Pick<ShipmentResponse, 'id' | 'status' | 'international'>
+}
+
+/**
+ * precheckオプションに応じて出荷依頼の状態を確認
+ */
+async function precheckShipment(
+  options: ShipmentPrecheckOptions,
+  operation: ShipmentOperation,
+  fetchShipment: () => Promise<ShipmentResponse>,
+): Promise<void> {
+  const { precheck } = options
+  if (!precheck) {
+    return
+  }
+  assertShipmentOperation(precheck === true ? await fetchShipment() : precheck, operation)
+}
+
+/**
+ * 冪等作成モードで照会に使用するキー（identifier、なければorder_no）
+ */
+function shipmentKey(shipment: {
+  identifier?: string | undefined
+  order_no?: string | undefined
+}): string | undefined {
+  return shipment.identifier ?? shipment.order_no
 }
 
 /**
@@ -146,9 +273,123 @@ export async function bulkCreateShipments(
   client: OpenLogiClient,
   data: BulkShipmentRequest,
 ): Promise<BulkShipmentResponse> {
-  return request(client, BulkShipmentResponseSchema, 'shipments/bulk', {
-    method: 'POST',
-    json: data,
+  const send = (shipments: CreateShipmentRequest[]): Promise<BulkShipmentResponse> =>
+    request(client, BulkShipmentResponseSchema, 'shipments/bulk', {
+      method: 'POST',
+      json: { ...data, shipments },
+    })
+
+  const { idempotentCreate } = client.config
+  if (!idempotentCreate) {
+    return send(data.shipments)
+  }
+
+  const entries = data.shipments.map((shipment) => ({ shipment, key: shipmentKey(shipment) }))
+  if (
+    !entries.every(
+      (entry): entry is { shipment: CreateShipmentRequest; key: string } => entry.key !== undefined,
+    )
+  ) {
+    return createIdempotently(idempotentCreate, () => send(data.shipments), undefined)
+  }
+
+  // 作成済みと確認できた出荷依頼を除いて再送し、結果は入力順にまとめて返す
+  const keys = entries.map(({ key }) => key)
+  const created = new Map<string, ShipmentResponse>()
+  let pending = entries
+  const collect = (shipments: ShipmentResponse[]): void => {
+    for (const shipment of shipments) {
+      const key = shipmentKey(shipment)
+      if (key !== undefined) {
+        created.set(key, shipment)
+      }
+    }
+  }
+  const merged = (): BulkShipmentResponse => ({
+    shipments: keys.flatMap((key) => created.get(key) ?? []),
+  })
+
+  return createIdempotently(
+    idempotentCreate,
+    async () => {
+      const response = await send(pending.map(({ shipment }) => shipment))
+      if (created.size === 0) {
+        return response
+      }
+      collect(response.shipments)
+      return merged()
+    },
+    async () => {
+      const pendingKeys = pending.map(({ key }) => key)
+      for (const identifiers of chunk(pendingKeys, MAX_IDS_PER_REQUEST)) {
+        const response = await listShipmentsByAccountId(client, idempotentCreate.accountId, {
+          identifier: identifiers.join(','),
+        })
+        collect(response.shipments)
+      }
+      pending = pending.filter(({ key }) => !created.has(key))
+      return pending.length === 0 ? merged() : undefined
+    },
+    keys.join(','),
+  )
+}
+
+/**
+ * 出荷依頼の分割一括作成オプション
+ */
+export interface BulkShipmentOptions extends BulkOptions {
+  /** 出荷ルール適用フラグ（各チャンクの一括作成リクエストに指定） */
+  apply_rule?: boolean
+}
+
+/**
+ * 出荷依頼を分割して一括作成
+ *
+ * 各出荷依頼を個別に検証し、有効な出荷依頼のみを100件ごとの一括作成に分割して送信します。
+ * 検証に失敗した出荷依頼や、一括作成に失敗したチャンクの出荷依頼は `failed` に記録し、残りの作成を続けます。
+ * 先の出荷依頼と識別子（identifier、なければorder_no）が重複する出荷依頼は送信せず、`skipped` に記録します。
+ *
+ * @param client - OpenLogiクライアント
+ * @param shipments - 出荷依頼データ（件数の制限なし）
+ * @param options - 分割・並列数・出荷ルールのオプション
+ * @returns 成功・失敗・送信しなかった出荷依頼
+ *
+ * @throws {RangeError} chunkSizeが1-100の整数でない場合
+ *
+ * @example
+ * ```typescript
+ * const { succeeded, failed, skipped } = await bulkCreateShipmentsChunked(client, shipments, {
+ *   concurrency: 2,
+ * })
+ * console.log(`${succeeded.length}件を作成、${failed.length}件が失敗、${skipped.length}件が重複`)
+ * ```
+ */
+export async function bulkCreateShipmentsChunked(
+  client: OpenLogiClient,
+  shipments: readonly CreateShipmentRequest[],
+  options: BulkShipmentOptions = {},
+): Promise<BulkResult<ShipmentResponse, CreateShipmentRequest>> {
+  const { apply_rule, ...bulkOptions } = options
+  return createInBatches(shipments, bulkOptions, {
+    validate: (shipment) => {
+      const result = CreateShipmentRequestSchema.safeParse(shipment)
+      return result.success
+        ? undefined
+        : new ValidationError(
+            `リクエストの検証に失敗しました: ${result.error.message}`,
+            result.error,
+            result.error,
+          )
+    },
+    keyOf: shipmentKey,
+    resultKeyOf: shipmentKey,
+    createChunk: async (chunkShipments) =>
+      (
+        await bulkCreateShipments(client, {
+          shipments: chunkShipments,
+          ...(apply_rule === undefined ? {} : { apply_rule }),
+        })
+      ).shipments,
   })
 }
 
@@ -157,6 +398,7 @@ export async function bulkCreateShipments(
  *
  * @param client - OpenLogiクライアント
  * @param id - 出荷依頼ID
+ * @param options - 中断シグナルとレスポンスキャッシュのオプション
  * @returns 出荷依頼情報
  *
  * @example
@@ -164,20 +406,69 @@ export async function bulkCreateShipments(
  * const shipment = await getShipment(client, '12345')
  * ```
  */
-export async function getShipment(client: OpenLogiClient, id: string): Promise<ShipmentResponse> {
+export async function getShipment(
+  client: OpenLogiClient,
+  id: string,
+  options: ReadOptions = {},
+): Promise<ShipmentResponse> {
   return request(client, ShipmentResponseSchema, `shipments/${id}`, {
     method: 'GET',
+    signal: options.signal ?? null,
+    cache: options.cache,
   })
 }
 
+/**
+ * 出荷依頼が指定のステータスになるまで待機
+ *
+ * `getShipment` で指数バックオフしながら取得を繰り返し、いずれかのステータスに到達した出荷依頼を返します。
+ * キャンセル済みなど、目的のステータスに遷移できないステータスになった場合は待機を終了します。
+ *
+ * @param client - OpenLogiクライアント
+ * @param id - 出荷依頼ID
+ * @param targetStatuses - 目的のステータス（いずれかに到達すると終了）
+ * @param options - 待機オプション
+ * @returns 目的のステータスに到達した出荷依頼
+ *
+ * @throws {WaitForStatusError} タイムアウト、または目的のステータスに到達できなくなった場合
+ * @throws {RangeError} 待機オプションが不正な場合
+ *
+ * @example
+ * ```typescript
+ * const shipment = await waitForShipmentStatus(client, 'TS001-S000001', ['SHIPPED'], {
+ *   interval: 10_000,
+ *   timeout: 60 * 60 * 1000,
+ *   onStatusChange: (shipment, previous) => console.log(`${previous} -> ${shipment.status}`),
+ * })
+ * console.log(shipment.tracking_code)
+ * ```
+ */
+export async function waitForShipmentStatus(
+  client: OpenLogiClient,
+  id: string,
+  targetStatuses: readonly ShipmentStatus[],
+  options: WaitForStatusOptions<ShipmentResponse> = {},
+): Promise<ShipmentResponse> {
+  return pollUntilStatus(
+    (signal) => getShipment(client, id, { signal, cache: false }),
+    id,
+    targetStatuses,
+    options,
+    (status) => !targetStatuses.some((target) => canReachShipmentStatus(status, target)),
+  )
+}
+
 /**
  * 出荷依頼を更新
  *
  * @param client - OpenLogiクライアント
  * @param id - 出荷依頼ID
  * @param data - 更新データ
+ * @param options - 事前確認オプション
  * @returns 更新された出荷依頼情報
  *
+ * @throws {InvalidShipmentStateError} precheck指定時、更新できないステータスの場合
+ *
  * @example
  * ```typescript
  * const shipment = await updateShipment(client, '12345', {
@@ -189,6 +480,7 @@ export async function updateShipment(
   client: OpenLogiClient,
   id: string,
   data: UpdateShipmentRequest,
+  options: ShipmentPrecheckOptions = {},
 ): Promise<ShipmentResponse> {
   // Validate request data before sending
   const result = UpdateShipmentRequestSchema.safeParse(data)
@@ -200,6 +492,8 @@ export async function updateShipment(
     )
   }
 
+  await precheckShipment(options, 'update', () => getShipment(client, id))
+
   return request(client, ShipmentResponseSchema, `shipments/${id}`, {
     method: 'PUT',
     json: result.data,
@@ -211,13 +505,22 @@ export async function updateShipment(
  *
  * @param client - OpenLogiクライアント
  * @param id - 出荷依頼ID
+ * @param options - 事前確認オプション
+ *
+ * @throws {InvalidShipmentStateError} precheck指定時、削除できないステータスの場合
  *
  * @example
  * ```typescript
  * await deleteShipment(client, '12345')
  * ```
  */
-export async function deleteShipment(client: OpenLogiClient, id: string): Promise<void> {
+export async function deleteShipment(
+  client: OpenLogiClient,
+  id: string,
+  options: ShipmentPrecheckOptions = {},
+): Promise<void> {
+  await precheckShipment(options, 'delete', () => getShipment(client, id))
+
   await request(client, z.void(), `shipments/${id}`, {
     method: 'DELETE',
   })
@@ -232,8 +535,11 @@ export async function deleteShipment(client: OpenLogiClient, id: string): Promis
  * @param client - OpenLogiクライアント
  * @param id - 出荷依頼ID
  * @param data - 修正データ（recipient, delivery_time_slot, delivery_dateのいずれか）
+ * @param options - 事前確認オプション
  * @returns 修正された出荷依頼情報
  *
+ * @throws {InvalidShipmentStateError} precheck指定時、修正を依頼できないステータスの場合
+ *
  * @example
  * ```typescript
  * const shipment = await modifyShipment(client, 'TS001-S000001', {
@@ -253,7 +559,10 @@ export async function modifyShipment(
   client: OpenLogiClient,
   id: string,
   data: ModifyShipmentRequest,
+  options: ShipmentPrecheckOptions = {},
 ): Promise<ShipmentResponse> {
+  await precheckShipment(options, 'modify', () => getShipment(client, id))
+
   return request(client, ShipmentResponseSchema, `shipments/${id}/modify`, {
     method: 'POST',
     json: data,
@@ -265,17 +574,23 @@ export async function modifyShipment(
  *
  * @param client - OpenLogiクライアント
  * @param id - 出荷依頼ID
+ * @param options - 事前確認オプション
  * @returns キャンセルされた出荷依頼情報
  *
+ * @throws {InvalidShipmentStateError} precheck指定時、キャンセルできないステータスの場合
+ *
  * @example
  * ```typescript
- * const shipment = await cancelShipment(client, '12345')
+ * const shipment = await cancelShipment(client, '12345', { precheck: true })
  * ```
  */
 export async function cancelShipment(
   client: OpenLogiClient,
   id: string,
+  options: ShipmentPrecheckOptions = {},
 ): Promise<ShipmentResponse> {
+  await precheckShipment(options, 'cancel', () => getShipment(client, id))
+
   return request(client, ShipmentResponseSchema, `shipments/${id}/cancel`, {
     method: 'POST',
     json: {},
@@ -297,10 +612,9 @@ export async function cancelShipment(
  * // 直近の出荷実績を取得
  * const response = await listShippedShipments(client)
  *
- * // 特定期間の出荷実績を取得
+ * // 指定日以前で出荷実績のある直近1日分を取得
  * const response = await listShippedShipments(client, {
- *   date_before: '20190320',
- *   date_after: '20190420',
+ *   date_before: '20190420',
  * })
  * ```
  */
@@ -315,33 +629,83 @@ export async function listShippedShipments(
 }
 
 /**
- * 指定年月日の出荷実績を取得
+ * 指定年月日（または年月）の出荷実績を取得
  *
  * @param client - OpenLogiクライアント
  * @param year - 年（4桁）
  * @param month - 月（1-12）
- * @param day - 日（1-31）
+ * @param day - 日（1-31、オプショナル、指定しない場合は年月のみで取得）
+ * @param options - 中断シグナルとレスポンスキャッシュのオプション
  * @returns 出荷実績リスト
  *
  * @example
  * ```typescript
+ * // 年月日を指定
  * const response = await getShippedShipmentByDate(client, 2025, 1, 20)
+ *
+ * // 年月のみを指定
+ * const responseByMonth = await getShippedShipmentByDate(client, 2025, 1)
  * ```
  */
 export async function getShippedShipmentByDate(
   client: OpenLogiClient,
   year: number,
   month: number,
-  day: number,
+  day?: number,
+  options: ReadOptions = {},
 ): Promise<ListShippedShipmentsResponse> {
-  return request(
-    client,
-    ListShippedShipmentsResponseSchema,
-    `shipments/shipped/${year}/${month}/${day}`,
-    {
-      method: 'GET',
-    },
-  )
+  const path =
+    day !== undefined
+      ? `shipments/shipped/${year}/${month}/${day}`
+      : `shipments/shipped/${year}/${month}`
+
+  return request(client, ListShippedShipmentsResponseSchema, path, {
+    method: 'GET',
+    signal: options.signal ?? null,
+    cache: options.cache,
+  })
+}
+
+/**
+ * 期間を指定して出荷実績を1件ずつ取得
+ *
+ * 期間を日単位または月単位に分割して `getShippedShipmentByDate` で順に取得し、
+ * 同じIDの出荷実績は最初の1件のみを返します。
+ * 月単位の場合も、from/toで切り詰めた月は期間外の実績を含めないよう1日ずつ取得します。
+ * 日付はローカルタイムゾーンの年月日として扱います。
+ *
+ * @param client - OpenLogiクライアント
+ * @param options - 期間指定オプション
+ * @returns 出荷実績の非同期イテレータ
+ * @throws {ValidationError} 期間指定が不正な場合
+ *
+ * @example
+ * ```typescript
+ * for await (const shipment of iterateShippedShipments(client, {
+ *   from: new Date(2025, 0, 1),
+ *   to: new Date(2025, 0, 31),
+ * })) {
+ *   console.log(shipment.id, shipment.tracking_code)
+ * }
+ * ```
+ */
+export async function* iterateShippedShipments(
+  client: OpenLogiClient,
+  options: DateRangeOptions,
+): AsyncGenerator<ShipmentResponse, void, undefined> {
+  const dates = splitDateParts(options)
+  const seen = new Set<string>()
+
+  for (const { year, month, day } of dates) {
+    const response = await getShippedShipmentByDate(client, year, month, day)
+
+    for (const shipment of response.shipments) {
+      if (!seen.has(shipment.id)) {
+        seen.add(shipment.id)
+        yield shipment
+      }
+    }
+  }
 }
 
 /**
@@ -407,8 +771,11 @@ export async function getInternationalCurrencies(
  * @param client - OpenLogiクライアント
  * @param id - 出荷依頼ID
  * @param data - 引当解除リクエスト（オプショナル、空のオブジェクト）
+ * @param options - 事前確認オプション
  * @returns 更新された出荷依頼情報
  *
+ * @throws {InvalidShipmentStateError} precheck指定時、引当解除できないステータスの場合
+ *
  * @example
  * ```typescript
  * // 基本的な使用法
@@ -420,7 +787,10 @@ export async function clearShipmentAllocation(
   client: OpenLogiClient,
   id: string,
   data?: ClearAllocationRequest,
+  options: ShipmentPrecheckOptions = {},
 ): Promise<ShipmentResponse> {
+  await precheckShipment(options, 'clearAllocation', () => getShipment(client, id))
+
   return request(client, ShipmentResponseSchema, `shipments/allocation/${id}/clear`, {
     method: 'POST',
     json: data ?? {},
@@ -463,10 +833,15 @@ export async function createTransfer(
     )
   }
 
-  return request(client, TransferResponseSchema, 'shipments/transfer', {
-    method: 'POST',
-    json: result.data,
-  })
+  const send = (): Promise<TransferResponse> =>
+    request(client, TransferResponseSchema, 'shipments/transfer', {
+      method: 'POST',
+      json: result.data,
+    })
+
+  // 倉庫移動には照会キー（identifier/order_no）がないため、成否不明の場合は再送しない
+  const { idempotentCreate } = client.config
+  return idempotentCreate ? createIdempotently(idempotentCreate, send, undefined) : send()
 }
 
 /**
@@ -647,8 +1022,11 @@ export async function getShipmentByAccountId(
  * @param accountId - アカウントコード
  * @param identifier - 識別番号
  * @param data - 更新データ
+ * @param options - 事前確認オプション
  * @returns 更新された出荷依頼情報
  *
+ * @throws {InvalidShipmentStateError} precheck指定時、更新できないステータスの場合
+ *
  * @example
  * ```typescript
  * const shipment = await updateShipmentByAccountId(client, 'TS001', '2015-00001', {
@@ -661,6 +1039,7 @@ export async function updateShipmentByAccountId(
   accountId: string,
   identifier: string,
   data: UpdateShipmentRequest,
+  options: ShipmentPrecheckOptions = {},
 ): Promise<ShipmentResponse> {
   // Validate request data before sending
   const result = UpdateShipmentRequestSchema.safeParse(data)
@@ -672,6 +1051,10 @@ export async function updateShipmentByAccountId(
     )
   }
 
+  await precheckShipment(options, 'update', () =>
+    getShipmentByAccountId(client, accountId, identifier),
+  )
+
   return request(client, ShipmentResponseSchema, `shipments/${accountId}/${identifier}`, {
     method: 'PUT',
     json: result.data,
@@ -686,6 +1069,9 @@ export async function updateShipmentByAccountId(
  * @param client - OpenLogiクライアント
  * @param accountId - アカウントコード
  * @param identifier - 識別番号
+ * @param options - 事前確認オプション
+ *
+ * @throws {InvalidShipmentStateError} precheck指定時、削除できないステータスの場合
  *
  * @example
  * ```typescript
@@ -696,7 +1082,12 @@ export async function deleteShipmentByAccountId(
   client: OpenLogiClient,
   accountId: string,
   identifier: string,
+  options: ShipmentPrecheckOptions = {},
 ): Promise<void> {
+  await precheckShipment(options, 'delete', () =>
+    getShipmentByAccountId(client, accountId, identifier),
+  )
+
   await request(client, z.void(), `shipments/${accountId}/${identifier}`, {
     method: 'DELETE',
   })
@@ -716,8 +1107,11 @@ export async function deleteShipmentByAccountId(
  * @param accountId - アカウントコード
  * @param identifier - 識別番号
  * @param data - 修正データ（recipient, delivery_time_slot, delivery_dateのいずれか）
+ * @param options - 事前確認オプション
  * @returns 修正された出荷依頼情報
  *
+ * @throws {InvalidShipmentStateError} precheck指定時、修正を依頼できないステータスの場合
+ *
  * @example
  * ```typescript
  * const shipment = await modifyShipmentByAccountId(client, 'TS001', '2015-00001', {
@@ -737,7 +1131,12 @@ export async function modifyShipmentByAccountId(
   accountId: string,
   identifier: string,
   data: ModifyShipmentRequest,
+  options: ShipmentPrecheckOptions = {},
 ): Promise<ShipmentResponse> {
+  await precheckShipment(options, 'modify', () =>
+    getShipmentByAccountId(client, accountId, identifier),
+  )
+
   return request(client, ShipmentResponseSchema, `shipments/${accountId}/${identifier}/modify`, {
     method: 'POST',
     json: data,
@@ -756,8 +1155,11 @@ export async function modifyShipmentByAccountId(
  * @param client - OpenLogiクライアント
  * @param accountId - アカウントコード
  * @param identifier - 識別番号
+ * @param options - 事前確認オプション
  * @returns キャンセルされた出荷依頼情報
  *
+ * @throws {InvalidShipmentStateError} precheck指定時、キャンセルできないステータスの場合
+ *
  * @example
  * ```typescript
  * const shipment = await cancelShipmentByAccountId(client, 'TS001', '2015-00001')
@@ -767,7 +1169,12 @@ export async function cancelShipmentByAccountId(
   client: OpenLogiClient,
   accountId: string,
   identifier: string,
+  options: ShipmentPrecheckOptions = {},
 ): Promise<ShipmentResponse> {
+  await precheckShipment(options, 'cancel', () =>
+    getShipmentByAccountId(client, accountId, identifier),
+  )
+
   return request(client, ShipmentResponseSchema, `shipments/${accountId}/${identifier}/cancel`, {
     method: 'POST',
     json: {},
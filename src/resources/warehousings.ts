@@ -5,17 +5,22 @@
  * @packageDocumentation
  */
 
-import { request, type OpenLogiClient } from '../client.js'
+import { request, type OpenLogiClient, type ReadOptions } from '../client.js'
 import { ValidationError } from '../errors.js'
+import { chunk, mapWithConcurrency } from '../utils/batch.js'
+import { splitDateParts, type DateRangeOptions } from '../utils/date.js'
+import { pollUntilStatus, type WaitForStatusOptions } from '../utils/poll.js'
 import {
   type CreateWarehousingRequest,
   CreateWarehousingRequestSchema,
+  type WarehousingItem,
   type UpdateWarehousingRequest,
   UpdateWarehousingRequestSchema,
   type WarehousingResponse,
   WarehousingResponseSchema,
   type WarehousingDetailResponse,
   WarehousingDetailResponseSchema,
+  type WarehousingStatus,
   type ListWarehousingResponse,
   ListWarehousingResponseSchema,
   type StockedWarehousingQuery,
@@ -80,11 +85,183 @@ export async function createWarehousing(
   })
 }
 
+/**
+ * 1件の入荷依頼に含められる商品の最大数
+ */
+export const MAX_ITEMS_PER_WAREHOUSING = 25
+
+/**
+ * 識別子の最大文字数
+ */
+const MAX_IDENTIFIER_LENGTH = 30
+
+/**
+ * 分割して作成する入荷依頼（`items` の件数・商品コードの重複に制限がない）
+ */
+export type SplitWarehousingRequest = Omit<CreateWarehousingRequest, 'items'> & {
+  /** 入荷商品リスト */
+  items: WarehousingItem[]
+}
+
+/**
+ * 入荷依頼の分割作成オプション
+ */
+export interface CreateWarehousingsSplitOptions {
+  /**
+   * 1件の入荷依頼に含める商品の数（1-25）
+   * @default 25
+   */
+  itemsPerRequest?: number
+
+  /**
+   * 最大並列リクエスト数
+   * @default 1
+   */
+  concurrency?: number
+}
+
+/**
+ * 作成に失敗した入荷依頼
+ */
+export interface FailedWarehousingSplit {
+  /** 分割後の順序（0始まり） */
+  index: number
+  /** 入荷依頼 */
+  request: CreateWarehousingRequest
+  /** 発生したエラー */
+  error: unknown
+}
+
+/**
+ * 入荷依頼の分割作成結果
+ */
+export interface CreateWarehousingsSplitResult {
+  /** 分割後の入荷依頼 */
+  requests: CreateWarehousingRequest[]
+  /** 作成された入荷依頼（分割後の順序） */
+  warehousings: WarehousingResponse[]
+  /** 作成に失敗した入荷依頼 */
+  failed: FailedWarehousingSplit[]
+}
+
+/**
+ * 識別子に連番を付ける（30文字を超える場合は元の識別子を切り詰める）
+ */
+function suffixIdentifier(identifier: string, index: number, total: number): string {
+  const suffix = `-${String(index + 1).padStart(String(total).length, '0')}`
+  const chars = Array.from(identifier)
+  while (chars.join('').length + suffix.length > MAX_IDENTIFIER_LENGTH) {
+    chars.pop()
+  }
+  return `${chars.join('')}${suffix}`
+}
+
+/**
+ * 入荷依頼を分割する
+ * 同じ商品コードの数量を合計し、`itemsPerRequest` 件ずつの入荷依頼に分ける
+ */
+function splitWarehousingRequest(
+  data: SplitWarehousingRequest,
+  itemsPerRequest: number,
+): CreateWarehousingRequest[] {
+  const quantities = new Map<string, number>()
+  for (const { code, quantity } of data.items) {
+    quantities.set(code, (quantities.get(code) ?? 0) + quantity)
+  }
+  const items = [...quantities.entries()].map(([code, quantity]) => ({ code, quantity }))
+  const chunks = items.length === 0 ? [[]] : chunk(items, itemsPerRequest)
+
+  return chunks.map((chunkItems, index) => ({
+    ...data,
+    items: chunkItems,
+    ...(data.identifier !== undefined && chunks.length > 1
+      ? { identifier: suffixIdentifier(data.identifier, index, chunks.length) }
+      : {}),
+  }))
+}
+
+/**
+ * 商品数の多い入荷依頼を分割して作成
+ *
+ * 同じ商品コードの数量を合計したうえで、25商品ずつの入荷依頼に分割し、入荷予定日などの
+ * 商品以外の項目は共通で作成します。分割した場合、`identifier` には30文字以内に収まるよう
+ * 連番（例: `CONTAINER-001-1`）を付けます。
+ *
+ * 分割後のすべての入荷依頼を作成前に検証し、1件でも不正な場合は何も作成しません。
+ * 作成に失敗した入荷依頼は `failed` に記録し、残りの作成を続けます。
+ *
+ * @param client - OpenLogiクライアント
+ * @param data - 入荷依頼データ（商品数・重複の制限なし）
+ * @param options - 分割・並列数のオプション
+ * @returns 分割後の入荷依頼と、作成結果
+ *
+ * @throws {RangeError} itemsPerRequestが1-25の整数でない場合
+ * @throws {ValidationError} 分割後の入荷依頼の検証に失敗した場合
+ *
+ * @example
+ * ```typescript
+ * const { warehousings, failed } = await createWarehousingsSplit(client, {
+ *   inspection_type: 'CODE',
+ *   arrival_date: '2025-01-20',
+ *   identifier: 'CONTAINER-001',
+ *   items: containerItems, // 200商品
+ * })
+ * ```
+ */
+export async function createWarehousingsSplit(
+  client: OpenLogiClient,
+  data: SplitWarehousingRequest,
+  options: CreateWarehousingsSplitOptions = {},
+): Promise<CreateWarehousingsSplitResult> {
+  const { itemsPerRequest = MAX_ITEMS_PER_WAREHOUSING, concurrency = 1 } = options
+  if (
+    !Number.isInteger(itemsPerRequest) ||
+    itemsPerRequest < 1 ||
+    itemsPerRequest > MAX_ITEMS_PER_WAREHOUSING
+  ) {
+    throw new RangeError(
+      `itemsPerRequest must be an integer between 1 and ${MAX_ITEMS_PER_WAREHOUSING}, got ${itemsPerRequest}`,
+    )
+  }
+
+  const requests = splitWarehousingRequest(data, itemsPerRequest)
+  for (const splitRequest of requests) {
+    const result = CreateWarehousingRequestSchema.safeParse(splitRequest)
+    if (!result.success) {
+      throw new ValidationError(
+        `リクエストの検証に失敗しました: ${result.error.message}`,
+        result.error,
+        result.error,
+      )
+    }
+  }
+
+  const warehousings: WarehousingResponse[] = []
+  const failed: FailedWarehousingSplit[] = []
+  const results = await mapWithConcurrency(requests, concurrency, async (splitRequest, index) => {
+    try {
+      return { warehousing: await createWarehousing(client, splitRequest) }
+    } catch (error) {
+      return { failure: { index, request: splitRequest, error } }
+    }
+  })
+  for (const result of results) {
+    if ('warehousing' in result) {
+      warehousings.push(result.warehousing)
+    } else {
+      failed.push(result.failure)
+    }
+  }
+
+  return { requests, warehousings, failed }
+}
+
 /**
  * 入荷依頼情報を取得
  *
  * @param client - OpenLogiクライアント
  * @param id - 入荷依頼ID
+ * @param options - 中断シグナルとレスポンスキャッシュのオプション
  * @returns 入荷依頼情報
  *
  * @example
@@ -95,12 +272,50 @@ export async function createWarehousing(
 export async function getWarehousing(
   client: OpenLogiClient,
   id: string,
+  options: ReadOptions = {},
 ): Promise<WarehousingDetailResponse> {
   return request(client, WarehousingDetailResponseSchema, `warehousings/${id}`, {
     method: 'GET',
+    signal: options.signal ?? null,
+    cache: options.cache,
   })
 }
 
+/**
+ * 入荷依頼が指定のステータスになるまで待機
+ *
+ * `getWarehousing` で指数バックオフしながら取得を繰り返し、いずれかのステータスに到達した入荷依頼を返します。
+ *
+ * @param client - OpenLogiクライアント
+ * @param id - 入荷依頼ID
+ * @param targetStatuses - 目的のステータス（デフォルトは入庫済み）
+ * @param options - 待機オプション
+ * @returns 目的のステータスに到達した入荷依頼
+ *
+ * @throws {WaitForStatusError} タイムアウトした場合
+ * @throws {RangeError} 待機オプションが不正な場合
+ *
+ * @example
+ * ```typescript
+ * const warehousing = await waitForWarehousingStatus(client, '12345', ['stocked'], {
+ *   timeout: 24 * 60 * 60 * 1000,
+ * })
+ * ```
+ */
+export async function waitForWarehousingStatus(
+  client: OpenLogiClient,
+  id: string,
+  targetStatuses: readonly WarehousingStatus[] = ['stocked'],
+  options: WaitForStatusOptions<WarehousingDetailResponse> = {},
+): Promise<WarehousingDetailResponse> {
+  return pollUntilStatus(
+    (signal) => getWarehousing(client, id, { signal, cache: false }),
+    id,
+    targetStatuses,
+    options,
+  )
+}
+
 /**
  * 入荷依頼を更新
  *
@@ -174,10 +389,9 @@ export async function deleteWarehousing(
  * // パラメータなし
  * const stocked = await getStockedWarehousing(client)
  *
- * // 日付範囲指定
+ * // 指定日以前で入荷実績のある直近1日分を取得
  * const stocked = await getStockedWarehousing(client, {
  *   date_before: '20250120',
- *   date_after: '20250101',
  * })
  * ```
  */
@@ -212,6 +426,7 @@ export async function getStockedWarehousing(
  * @param year - 年（1900-2100の整数）
  * @param month - 月（1-12の整数）
  * @param day - 日（1-31の整数、オプショナル、指定しない場合は年月のみで取得）
+ * @param options - 中断シグナルとレスポンスキャッシュのオプション
  * @returns 指定日の入荷実績リスト
  * @throws {ValidationError} パラメータが不正な場合
  *
@@ -229,6 +444,7 @@ export async function getStockedWarehousingByDate(
   year: number,
   month: number,
   day?: number,
+  options: ReadOptions = {},
 ): Promise<StockedWarehousingResponse> {
   const result = GetStockedWarehousingByDateParamsSchema.safeParse({ year, month, day })
   if (!result.success) {
@@ -248,9 +464,54 @@ export async function getStockedWarehousingByDate(
 
   return request(client, StockedWarehousingResponseSchema, path, {
     method: 'GET',
+    signal: options.signal ?? null,
+    cache: options.cache,
   })
 }
 
+/**
+ * 期間を指定して入荷実績を1件ずつ取得
+ *
+ * 期間を日単位または月単位に分割して `getStockedWarehousingByDate` で順に取得し、
+ * 同じIDの入荷実績は最初の1件のみを返します。
+ * 月単位の場合も、from/toで切り詰めた月は期間外の実績を含めないよう1日ずつ取得します。
+ * 日付はローカルタイムゾーンの年月日として扱います。
+ *
+ * @param client - OpenLogiクライアント
+ * @param options - 期間指定オプション
+ * @returns 入荷実績の非同期イテレータ
+ * @throws {ValidationError} 期間指定が不正な場合
+ *
+ * @example
+ * ```typescript
+ * for await (const warehousing of iterateStockedWarehousings(client, {
+ *   from: new Date(2025, 0, 1),
+ *   to: new Date(2025, 2, 31),
+ *   step: 'month',
+ * })) {
+ *   console.log(warehousing.id, warehousing.items.length)
+ * }
+ * ```
+ */
+export async function* iterateStockedWarehousings(
+  client: OpenLogiClient,
+  options: DateRangeOptions,
+): AsyncGenerator<WarehousingDetailResponse, void, undefined> {
+  const dates = splitDateParts(options)
+  const seen = new Set<string>()
+
+  for (const { year, month, day } of dates) {
+    const response = await getStockedWarehousingByDate(client, year, month, day)
+
+    for (const warehousing of response.warehousings) {
+      if (!seen.has(warehousing.id)) {
+        seen.add(warehousing.id)
+        yield warehousing
+      }
+    }
+  }
+}
+
 /**
  * 入荷ラベルをPDF形式で取得
  *
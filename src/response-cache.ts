@@ -0,0 +1,234 @@
+/**
+ * GETリクエストのレスポンスキャッシュ
+ * ETag・Last-Modifiedによる条件付きリクエストと、検証子がない場合の有効期限によるキャッシュ
+ *
+ * @packageDocumentation
+ */
+
+import { createHash } from 'node:crypto'
+import { type Options } from 'ky'
+import { type Middleware } from './middleware.js'
+
+/**
+ * レスポンスキャッシュ設定
+ */
+export interface ResponseCacheConfig {
+  /**
+   * ETag・Last-Modifiedのどちらも返されなかったレスポンスを再利用する期間（ミリ秒）
+   * 検証子があるレスポンスは毎回条件付きリクエストで確認する
+   * @default 60000
+   */
+  ttl?: number
+
+  /**
+   * 保持する最大件数（超えた場合は最も古く使われたものから破棄）
+   * @default 500
+   */
+  maxEntries?: number
+}
+
+/**
+ * キャッシュしたレスポンス
+ *
+ * @internal
+ */
+export interface ResponseCacheEntry {
+  /** レスポンスボディ */
+  body: string
+  /** ETagヘッダー */
+  etag: string | undefined
+  /** Last-Modifiedヘッダー */
+  lastModified: string | undefined
+  /** 検証子がない場合の有効期限（`Date.now()`） */
+  expiresAt: number
+}
+
+/**
+ * パスからリソース（先頭のセグメント）を取得する
+ */
+function resourceOf(path: string): string {
+  return path.replace(/^\/+/, '').split(/[/?]/, 1)[0] ?? ''
+}
+
+/**
+ * GETリクエストのレスポンスキャッシュ
+ *
+ * `createClient` の `cache` に指定すると、`request()` を経由するGETリクエストのレスポンスを
+ * メソッド・パス・クエリパラメータをキーとしてキャッシュします。
+ * 1つのインスタンスを複数のクライアントで共有した場合も、ベースURL・APIバージョン・APIトークンが異なる
+ * クライアントのキャッシュは別々に保持します（APIトークンはハッシュ値のみをキーに含めます）。
+ *
+ * - ETag・Last-Modifiedが返された場合: 次回は `If-None-Match`・`If-Modified-Since` を付けて確認し、304の場合はキャッシュを返す
+ * - 検証子がない場合: `ttl` の間はリクエストを送信せずにキャッシュを返す
+ * - `Cache-Control: no-store` が返された場合: キャッシュしない
+ *
+ * SDKを経由してPOST・PUT・DELETEを送信すると、同じリソース（パスの先頭のセグメント、例: `items`）の
+ * キャッシュをすべて破棄します。
+ *
+ * @example
+ * ```typescript
+ * const cache = new ResponseCache({ ttl: 30_000 })
+ * const client = createClient({ apiToken: 'your-api-token', cache })
+ *
+ * await getItem(client, 'AB1234-I000001') // APIから取得
+ * await getItem(client, 'AB1234-I000001') // 条件付きリクエスト（304）またはキャッシュから返す
+ * cache.clear()
+ * ```
+ */
+export class ResponseCache {
+  private readonly ttl: number
+  private readonly maxEntries: number
+  private readonly entries = new Map<string, ResponseCacheEntry>()
+
+  constructor(config: ResponseCacheConfig = {}) {
+    const { ttl = 60000, maxEntries = 500 } = config
+    if (!(ttl >= 0)) {
+      throw new RangeError(`ttl must be non-negative, got ${ttl}`)
+    }
+    if (!Number.isInteger(maxEntries) || maxEntries < 1) {
+      throw new RangeError(`maxEntries must be a positive integer, got ${maxEntries}`)
+    }
+
+    this.ttl = ttl
+    this.maxEntries = maxEntries
+  }
+
+  /**
+   * キャッシュしている件数
+   */
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * クライアントごとにキャッシュを分けるためのスコープを生成する
+   *
+   * @internal
+   */
+  static scopeOf(config: { baseUrl: string; apiVersion: string; apiToken: string }): string {
+    const tokenHash = createHash('sha256').update(config.apiToken).digest('hex').slice(0, 16)
+    return `${config.baseUrl}|${config.apiVersion}|${tokenHash}`
+  }
+
+  /**
+   * パスとクエリパラメータからキャッシュのキーを生成する（パラメータの順序には依存しない）
+   *
+   * @internal
+   */
+  static keyOf(path: string, searchParams: Options['searchParams'], scope?: string): string {
+    const params = new URLSearchParams(
+      searchParams === undefined ||
+      typeof searchParams === 'string' ||
+      Array.isArray(searchParams) ||
+      searchParams instanceof URLSearchParams
+        ? (searchParams as string | string[][] | URLSearchParams | undefined)
+        : Object.entries(searchParams).flatMap(([name, value]) =>
+            value === undefined ? [] : [[name, String(value)]],
+          ),
+    )
+    params.sort()
+    const query = params.toString()
+    const key = `GET ${path.replace(/^\/+/, '')}${query ? `?${query}` : ''}`
+    return scope === undefined ? key : `${scope} ${key}`
+  }
+
+  /**
+   * キャッシュを取得する
+   * 検証子がなく有効期限が切れたものは破棄してundefinedを返す
+   *
+   * @internal
+   */
+  get(key: string): ResponseCacheEntry | undefined {
+    const entry = this.entries.get(key)
+    if (!entry) {
+      return undefined
+    }
+    if (entry.etag === undefined && entry.lastModified === undefined) {
+      if (entry.expiresAt <= Date.now()) {
+        this.entries.delete(key)
+        return undefined
+      }
+    }
+    // 最近使ったものを末尾に移す
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry
+  }
+
+  /**
+   * レスポンスをキャッシュする（`Cache-Control: no-store` の場合は破棄する）
+   *
+   * @internal
+   */
+  store(key: string, response: Response, body: string): void {
+    if (/\bno-store\b/i.test(response.headers.get('Cache-Control') ?? '')) {
+      this.entries.delete(key)
+      return
+    }
+
+    this.entries.delete(key)
+    this.entries.set(key, {
+      body,
+      etag: response.headers.get('ETag') ?? undefined,
+      lastModified: response.headers.get('Last-Modified') ?? undefined,
+      expiresAt: Date.now() + this.ttl,
+    })
+    for (const oldest of this.entries.keys()) {
+      if (this.entries.size <= this.maxEntries) {
+        break
+      }
+      this.entries.delete(oldest)
+    }
+  }
+
+  /**
+   * 指定したパスと同じリソース（パスの先頭のセグメント）のキャッシュを破棄する
+   * 共有しているすべてのクライアントのキャッシュが対象
+   *
+   * @param path - APIパス（例: `items/AB1234-I000001`）
+   */
+  invalidate(path: string): void {
+    const resource = resourceOf(path)
+    for (const key of [...this.entries.keys()]) {
+      if (resourceOf(key.slice(key.indexOf('GET ') + 'GET '.length)) === resource) {
+        this.entries.delete(key)
+      }
+    }
+  }
+
+  /**
+   * すべてのキャッシュを破棄する
+   */
+  clear(): void {
+    this.entries.clear()
+  }
+}
+
+/**
+ * POST・PUT・DELETEなどの送信時に、同じリソースのキャッシュを破棄するミドルウェアを作成
+ * `client.http` を直接使用する呼び出し（商品画像の登録・削除など）にも適用される
+ *
+ * @internal
+ * @param cache - レスポンスキャッシュ
+ * @param prefixUrl - APIのベースURL（パスの基準）
+ */
+export function createCacheInvalidationMiddleware(
+  cache: ResponseCache,
+  prefixUrl: string,
+): Middleware {
+  const basePath = new URL(prefixUrl).pathname.replace(/\/+$/, '')
+
+  const invalidate = (request: Request): void => {
+    if (request.method === 'GET' || request.method === 'HEAD') {
+      return
+    }
+    const { pathname } = new URL(request.url)
+    cache.invalidate(pathname.startsWith(basePath) ? pathname.slice(basePath.length) : pathname)
+  }
+
+  return {
+    beforeRequest: (request) => invalidate(request),
+    // 送信中に同じリソースのGETがキャッシュされた場合に備え、レスポンス受信後にも破棄する
+    afterResponse: (request) => invalidate(request),
+  }
+}
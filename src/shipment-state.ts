@@ -0,0 +1,182 @@
+/**
+ * 出荷依頼のライフサイクル
+ * ステータスごとに実行可能な操作と、ステータスの遷移を定義する
+ *
+ * @packageDocumentation
+ */
+
+import { InvalidShipmentStateError } from './errors.js'
+import { type ShipmentResponse, type ShipmentStatus } from './types/shipments.js'
+
+/**
+ * 出荷依頼に対する操作
+ */
+export type ShipmentOperation = 'update' | 'delete' | 'modify' | 'cancel' | 'clearAllocation'
+
+/**
+ * 操作ごとの実行可能なステータス
+ *
+ * - update/delete/clearAllocation: 倉庫での作業開始前（出荷待ち・保留中）
+ * - modify: 作業開始後、出荷前（ピッキング中・梱包中・梱包済み）の修正依頼
+ * - cancel: 出荷前（作業開始後はキャンセル依頼）
+ */
+export const SHIPMENT_OPERATION_RULES: Readonly<
+  Record<ShipmentOperation, readonly ShipmentStatus[]>
+> = {
+  update: ['PENDING', 'SUSPENDED'],
+  delete: ['PENDING', 'SUSPENDED'],
+  modify: ['PICKING', 'PACKING', 'READY'],
+  cancel: ['PENDING', 'SUSPENDED', 'PICKING', 'PACKING', 'READY'],
+  clearAllocation: ['PENDING', 'SUSPENDED'],
+}
+
+/**
+ * 海外発送の場合の実行可能なステータス（梱包済み以降は修正・キャンセルを依頼できない）
+ */
+export const INTERNATIONAL_SHIPMENT_OPERATION_RULES: Readonly<
+  Record<ShipmentOperation, readonly ShipmentStatus[]>
+> = {
+  ...SHIPMENT_OPERATION_RULES,
+  modify: ['PICKING', 'PACKING'],
+  cancel: ['PENDING', 'SUSPENDED', 'PICKING', 'PACKING'],
+}
+
+/**
+ * ステータスごとの遷移可能な次のステータス
+ * 出荷済み以降の返品と、作業開始前のキャンセル・保留を含む
+ */
+export const SHIPMENT_STATUS_TRANSITIONS: Readonly<
+  Record<ShipmentStatus, readonly ShipmentStatus[]>
+> = {
+  PENDING: ['SUSPENDED', 'PICKING', 'CANCELLED'],
+  SUSPENDED: ['PENDING', 'CANCELLED'],
+  PICKING: ['PACKING', 'CANCELLED'],
+  PACKING: ['READY', 'CANCELLED'],
+  READY: ['SHIPPED', 'CANCELLED'],
+  SHIPPED: ['DELIVERED', 'RETURNED'],
+  DELIVERED: ['RETURNED'],
+  CANCELLED: [],
+  RETURNED: [],
+}
+
+/**
+ * 終端ステータス（以降の遷移がない）かどうか
+ *
+ * @param status - 出荷ステータス
+ * @returns 終端ステータスの場合はtrue
+ */
+export function isTerminalShipmentStatus(status: ShipmentStatus): boolean {
+  return SHIPMENT_STATUS_TRANSITIONS[status].length === 0
+}
+
+/**
+ * ステータスを遷移できるかどうか
+ *
+ * @param from - 遷移前のステータス
+ * @param to - 遷移後のステータス
+ * @returns 遷移できる場合はtrue
+ */
+export function canTransitionShipmentStatus(from: ShipmentStatus, to: ShipmentStatus): boolean {
+  return SHIPMENT_STATUS_TRANSITIONS[from].includes(to)
+}
+
+/**
+ * 現在のステータスから（複数回の遷移を経て）目的のステータスに到達できるかどうか
+ *
+ * @param from - 現在のステータス
+ * @param to - 目的のステータス
+ * @returns 到達できる場合（同じステータスの場合を含む）はtrue
+ *
+ * @example
+ * ```typescript
+ * canReachShipmentStatus('PICKING', 'SHIPPED') // true
+ * canReachShipmentStatus('CANCELLED', 'SHIPPED') // false
+ * ```
+ */
+export function canReachShipmentStatus(from: ShipmentStatus, to: ShipmentStatus): boolean {
+  const visited = new Set<ShipmentStatus>([from])
+  const queue: ShipmentStatus[] = [from]
+  for (let status = queue.shift(); status !== undefined; status = queue.shift()) {
+    if (status === to) {
+      return true
+    }
+    for (const next of SHIPMENT_STATUS_TRANSITIONS[status]) {
+      if (!visited.has(next)) {
+        visited.add(next)
+        queue.push(next)
+      }
+    }
+  }
+  return false
+}
+
+/**
+ * 出荷依頼に適用される操作ルール（海外発送かどうかで切り替え）
+ */
+function rulesFor(
+  shipment: Pick<ShipmentResponse, 'international'>,
+): Readonly<Record<ShipmentOperation, readonly ShipmentStatus[]>> {
+  return shipment.international ? INTERNATIONAL_SHIPMENT_OPERATION_RULES : SHIPMENT_OPERATION_RULES
+}
+
+/**
+ * 操作を実行できるかどうか
+ *
+ * ステータスが不明（レスポンスに含まれない）場合は判定できないため、trueを返します。
+ *
+ * @param shipment - 出荷依頼（statusとinternational）
+ * @param operation - 操作
+ * @returns 実行できる場合はtrue
+ *
+ * @example
+ * ```typescript
+ * const shipment = await getShipment(client, 'TS001-S000001')
+ * if (canPerformShipmentOperation(shipment, 'cancel')) {
+ *   await cancelShipment(client, shipment.id)
+ * }
+ * ```
+ */
+export function canPerformShipmentOperation(
+  shipment: Pick<ShipmentResponse, 'status' | 'international'>,
+  operation: ShipmentOperation,
+): boolean {
+  const { status } = shipment
+  return status === undefined || rulesFor(shipment)[operation].includes(status)
+}
+
+/**
+ * 出荷依頼に実行可能な操作の一覧
+ *
+ * @param shipment - 出荷依頼（statusとinternational）
+ * @returns 実行可能な操作
+ */
+export function getAllowedShipmentOperations(
+  shipment: Pick<ShipmentResponse, 'status' | 'international'>,
+): ShipmentOperation[] {
+  return (Object.keys(SHIPMENT_OPERATION_RULES) as ShipmentOperation[]).filter((operation) =>
+    canPerformShipmentOperation(shipment, operation),
+  )
+}
+
+/**
+ * 操作を実行できることを確認する
+ *
+ * @param shipment - 確認する出荷依頼（id、status、international）
+ * @param operation - 操作
+ *
+ * @throws {InvalidShipmentStateError} 現在のステータスでは操作を実行できない場合
+ */
+export function assertShipmentOperation(
+  shipment: Pick<ShipmentResponse, 'id' | 'status' | 'international'>,
+  operation: ShipmentOperation,
+): void {
+  const { status } = shipment
+  if (status !== undefined && !canPerformShipmentOperation(shipment, operation)) {
+    throw new InvalidShipmentStateError(
+      shipment.id,
+      status,
+      operation,
+      rulesFor(shipment)[operation],
+    )
+  }
+}
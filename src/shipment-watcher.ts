@@ -0,0 +1,389 @@
+/**
+ * 出荷依頼の変更検知
+ * 監視中の出荷依頼を定期的に取得し、保存済みのスナップショットとの差分をイベントとして通知する
+ *
+ * @packageDocumentation
+ */
+
+import { type OpenLogiClient } from './client.js'
+import { listShipmentsByIds } from './resources/shipments.js'
+import { isTerminalShipmentStatus } from './shipment-state.js'
+import { MemorySnapshotStorage, type SnapshotStorage } from './storage.js'
+import { type ShipmentResponse, type ShipmentStatus } from './types/shipments.js'
+import { type BatchOptions } from './utils/batch.js'
+
+/**
+ * 差分検出に使用する出荷依頼のスナップショット
+ */
+export interface ShipmentSnapshot {
+  /** ステータス（不明な場合はnull） */
+  status: ShipmentStatus | null
+  /** 追跡コード（未採番の場合はnull） */
+  tracking_code: string | null
+}
+
+/**
+ * ShipmentWatcherが永続化する状態
+ * キーは監視中の出荷ID、値はnullの場合はまだ一度も取得していないことを表す
+ */
+export type ShipmentWatcherState = Record<string, ShipmentSnapshot | null>
+
+/**
+ * ステータス変更イベント
+ */
+export interface ShipmentStatusChangedEvent {
+  /** 変更後の出荷依頼 */
+  shipment: ShipmentResponse
+  /** 変更前のステータス */
+  previousStatus: ShipmentStatus | null
+}
+
+/**
+ * 追跡コード採番イベント
+ */
+export interface ShipmentTrackingCodeAssignedEvent {
+  /** 出荷依頼 */
+  shipment: ShipmentResponse
+  /** 採番された追跡コード */
+  trackingCode: string
+  /** 変更前の追跡コード（初回の採番ではnull） */
+  previousTrackingCode: string | null
+}
+
+/**
+ * ShipmentWatcherが通知するイベント
+ */
+export interface ShipmentWatcherEventMap {
+  /** ステータスが変わった */
+  statusChanged: ShipmentStatusChangedEvent
+  /** 追跡コードが採番（変更）された */
+  trackingCodeAssigned: ShipmentTrackingCodeAssignedEvent
+  /** キャンセルされた（statusChangedの後に通知） */
+  cancelled: ShipmentStatusChangedEvent
+  /** APIから返されなくなった（削除された）ため監視を終了した */
+  missing: { id: string }
+  /** start()による定期実行中にエラーが発生した */
+  error: { error: unknown }
+}
+
+/**
+ * イベントリスナー
+ * Promiseを返した場合は完了を待ってから次のイベントを通知します
+ */
+export type ShipmentWatcherListener<E extends keyof ShipmentWatcherEventMap> = (
+  _event: ShipmentWatcherEventMap[E],
+) => void | Promise<void>
+
+/**
+ * ShipmentWatcherの設定
+ */
+export interface ShipmentWatcherOptions extends BatchOptions {
+  /**
+   * 状態の保存先
+   * 再起動後に監視を再開する場合は `JsonFileSnapshotStorage` などの永続的な保存先を指定してください
+   * @default new MemorySnapshotStorage()
+   */
+  storage?: SnapshotStorage<ShipmentWatcherState>
+
+  /**
+   * start()で定期実行する間隔（ミリ秒）
+   * @default 60000
+   */
+  interval?: number
+
+  /**
+   * 終端ステータス（CANCELLED/RETURNED）になった出荷依頼の監視を自動で終了するか
+   * @default true
+   */
+  removeTerminal?: boolean
+}
+
+/**
+ * 出荷依頼をスナップショットに変換
+ */
+function toSnapshot(
+  shipment: ShipmentResponse,
+  previous: ShipmentSnapshot | null,
+): ShipmentSnapshot {
+  return {
+    status: shipment.status ?? previous?.status ?? null,
+    tracking_code: shipment.tracking_code ?? null,
+  }
+}
+
+/**
+ * 出荷依頼の変更を検知してイベントを通知する
+ *
+ * `poll()` を呼び出すたびに、監視中の出荷依頼を `listShipmentsByIds` でまとめて取得し、
+ * 保存済みのスナップショットとの差分をイベントとして通知します。
+ * 初めて取得した出荷依頼はスナップショットを記録するのみで、イベントは通知しません。
+ *
+ * スナップショットはリスナーの処理が完了した出荷依頼ごとに更新されます。
+ * リスナーがエラーをスローした場合、その出荷依頼のイベントは次回の `poll()` で再度通知されます（at-least-once）。
+ *
+ * @example
+ * ```typescript
+ * const watcher = new ShipmentWatcher(client, {
+ *   storage: new JsonFileSnapshotStorage('./shipment-watcher.json'),
+ * })
+ *
+ * watcher.on('statusChanged', ({ shipment, previousStatus }) => {
+ *   console.log(`${shipment.id}: ${previousStatus} -> ${shipment.status}`)
+ * })
+ * watcher.on('trackingCodeAssigned', async ({ shipment, trackingCode }) => {
+ *   await orders.setTrackingCode(shipment.identifier, trackingCode)
+ * })
+ * watcher.on('error', ({ error }) => console.error(error))
+ *
+ * await watcher.watch(['TS001-S000001', 'TS001-S000002'])
+ * watcher.start()
+ * ```
+ */
+export class ShipmentWatcher {
+  private readonly client: OpenLogiClient
+  private readonly storage: SnapshotStorage<ShipmentWatcherState>
+  private readonly interval: number
+  private readonly removeTerminal: boolean
+  private readonly batchOptions: BatchOptions
+  private readonly listeners = new Map<
+    keyof ShipmentWatcherEventMap,
+    Set<ShipmentWatcherListener<never>>
+  >()
+  private state: Promise<ShipmentWatcherState> | undefined
+  private polling: Promise<void> | undefined
+  private timer: ReturnType<typeof setTimeout> | undefined
+  private running = false
+
+  constructor(client: OpenLogiClient, options: ShipmentWatcherOptions = {}) {
+    const {
+      storage = new MemorySnapshotStorage<ShipmentWatcherState>(),
+      interval = 60000,
+      removeTerminal = true,
+      ...batchOptions
+    } = options
+    if (!(interval > 0)) {
+      throw new RangeError(`interval must be positive, got ${interval}`)
+    }
+
+    this.client = client
+    this.storage = storage
+    this.interval = interval
+    this.removeTerminal = removeTerminal
+    this.batchOptions = batchOptions
+  }
+
+  /**
+   * イベントリスナーを登録する
+   *
+   * @param event - イベント名
+   * @param listener - リスナー
+   * @returns 登録を解除する関数
+   */
+  on<E extends keyof ShipmentWatcherEventMap>(
+    event: E,
+    listener: ShipmentWatcherListener<E>,
+  ): () => void {
+    let listeners = this.listeners.get(event)
+    if (!listeners) {
+      listeners = new Set()
+      this.listeners.set(event, listeners)
+    }
+    listeners.add(listener)
+    return () => this.off(event, listener)
+  }
+
+  /**
+   * イベントリスナーの登録を解除する
+   *
+   * @param event - イベント名
+   * @param listener - 登録済みのリスナー
+   */
+  off<E extends keyof ShipmentWatcherEventMap>(
+    event: E,
+    listener: ShipmentWatcherListener<E>,
+  ): void {
+    this.listeners.get(event)?.delete(listener)
+  }
+
+  /**
+   * 出荷依頼を監視対象に追加する（監視中のIDは無視）
+   *
+   * @param ids - 出荷ID一覧
+   */
+  async watch(ids: readonly string[]): Promise<void> {
+    const state = await this.loadState()
+    for (const id of ids) {
+      if (!(id in state)) {
+        state[id] = null
+      }
+    }
+    await this.storage.save(state)
+  }
+
+  /**
+   * 出荷依頼を監視対象から外す
+   *
+   * @param ids - 出荷ID一覧
+   */
+  async unwatch(ids: readonly string[]): Promise<void> {
+    const state = await this.loadState()
+    for (const id of ids) {
+      delete state[id]
+    }
+    await this.storage.save(state)
+  }
+
+  /**
+   * 監視中の出荷ID一覧を取得する
+   *
+   * @returns 出荷ID一覧
+   */
+  async getWatchedIds(): Promise<string[]> {
+    return Object.keys(await this.loadState())
+  }
+
+  /**
+   * 監視中の出荷依頼を取得し、変更があればイベントを通知する
+   * 実行中に呼び出された場合は、実行中の処理の完了を待ちます
+   *
+   * @throws {OpenLogiError} 出荷依頼の取得に失敗した場合
+   */
+  poll(): Promise<void> {
+    this.polling ??= this.runPoll().finally(() => {
+      this.polling = undefined
+    })
+    return this.polling
+  }
+
+  /**
+   * `interval` ごとの定期実行を開始する
+   * 実行中のエラーは `error` イベントで通知し、定期実行は継続します
+   */
+  start(): void {
+    if (this.running) {
+      return
+    }
+    this.running = true
+    this.schedule(0)
+  }
+
+  /**
+   * 定期実行を停止する（実行中のpoll()は中断しない）
+   */
+  stop(): void {
+    this.running = false
+    clearTimeout(this.timer)
+    this.timer = undefined
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      this.poll()
+        .catch((error: unknown) => this.emit('error', { error }))
+        .catch(() => {
+          // errorリスナー自体の例外は無視する
+        })
+        .finally(() => {
+          // 実行中にstop()→start()された場合は、start()側でスケジュール済み
+          if (this.running && this.timer === undefined) {
+            this.schedule(this.interval)
+          }
+        })
+    }, delay)
+  }
+
+  private loadState(): Promise<ShipmentWatcherState> {
+    this.state ??= this.storage.load().then(
+      (state) => state ?? {},
+      (error: unknown) => {
+        // 読み込みに失敗した場合は次回呼び出し時に再試行する
+        this.state = undefined
+        throw error
+      },
+    )
+    return this.state
+  }
+
+  private async runPoll(): Promise<void> {
+    const state = await this.loadState()
+    const ids = Object.keys(state)
+    if (ids.length === 0) {
+      return
+    }
+
+    // 倉庫側で変わったステータスを読むため、レスポンスキャッシュは使用しない
+    const { shipments, missingIds } = await listShipmentsByIds(this.client, ids, {
+      ...this.batchOptions,
+      cache: false,
+    })
+
+    try {
+      for (const shipment of shipments) {
+        const previous = state[shipment.id]
+        if (previous === undefined) {
+          // 取得中に監視対象から外された
+          continue
+        }
+
+        const current = toSnapshot(shipment, previous)
+        if (previous !== null) {
+          await this.emitChanges(shipment, previous, current)
+        }
+
+        if (!(shipment.id in state)) {
+          continue
+        }
+        if (
+          this.removeTerminal &&
+          current.status !== null &&
+          isTerminalShipmentStatus(current.status)
+        ) {
+          delete state[shipment.id]
+        } else {
+          state[shipment.id] = current
+        }
+      }
+
+      for (const id of missingIds) {
+        if (id in state) {
+          await this.emit('missing', { id })
+          delete state[id]
+        }
+      }
+    } finally {
+      await this.storage.save(state)
+    }
+  }
+
+  private async emitChanges(
+    shipment: ShipmentResponse,
+    previous: ShipmentSnapshot,
+    current: ShipmentSnapshot,
+  ): Promise<void> {
+    if (current.status !== previous.status) {
+      const event = { shipment, previousStatus: previous.status }
+      await this.emit('statusChanged', event)
+      if (current.status === 'CANCELLED') {
+        await this.emit('cancelled', event)
+      }
+    }
+
+    if (current.tracking_code !== null && current.tracking_code !== previous.tracking_code) {
+      await this.emit('trackingCodeAssigned', {
+        shipment,
+        trackingCode: current.tracking_code,
+        previousTrackingCode: previous.tracking_code,
+      })
+    }
+  }
+
+  private async emit<E extends keyof ShipmentWatcherEventMap>(
+    event: E,
+    payload: ShipmentWatcherEventMap[E],
+  ): Promise<void> {
+    for (const listener of [...(this.listeners.get(event) ?? [])]) {
+      await (listener as ShipmentWatcherListener<E>)(payload)
+    }
+  }
+}
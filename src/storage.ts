@@ -0,0 +1,152 @@
+/**
+ * スナップショットの保存先
+ * 監視処理などの状態を永続化し、再起動後に再開できるようにする
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * スナップショットの保存先アダプター
+ * 任意のストレージ（Redis、DBなど）を使う場合はこのインターフェースを実装してください
+ *
+ * @typeParam T - 保存する状態（JSONとしてシリアライズ可能な値）
+ */
+export interface SnapshotStorage<T> {
+  /**
+   * 保存済みの状態を読み込む
+   * まだ保存されていない場合はundefinedを返す
+   */
+  load(): Promise<T | undefined>
+
+  /**
+   * 状態を保存する（既存の状態は置き換える）
+   */
+  save(_state: T): Promise<void>
+}
+
+/**
+ * JSONを経由して状態を複製する（JSONファイルに保存した場合と同じ値になる）
+ */
+function cloneState<T>(state: T): T {
+  return JSON.parse(JSON.stringify(state)) as T
+}
+
+/**
+ * メモリ上に状態を保持する保存先
+ * プロセスの終了とともに状態は失われます
+ *
+ * @example
+ * ```typescript
+ * const storage = new MemorySnapshotStorage<Record<string, string>>()
+ * ```
+ */
+export class MemorySnapshotStorage<T> implements SnapshotStorage<T> {
+  private state: T | undefined
+
+  constructor(initialState?: T) {
+    this.state = initialState === undefined ? undefined : cloneState(initialState)
+  }
+
+  load(): Promise<T | undefined> {
+    return Promise.resolve(this.state === undefined ? undefined : cloneState(this.state))
+  }
+
+  save(state: T): Promise<void> {
+    this.state = cloneState(state)
+    return Promise.resolve()
+  }
+}
+
+/**
+ * JSONファイルに状態を保存する保存先（Node.js専用）
+ *
+ * 一時ファイルに書き込んでからリネームするため、書き込み中に終了しても既存のファイルは壊れません。
+ *
+ * @example
+ * ```typescript
+ * const storage = new JsonFileSnapshotStorage<Record<string, string>>('./state/shipments.json')
+ * ```
+ */
+export class JsonFileSnapshotStorage<T> implements SnapshotStorage<T> {
+  private readonly path: string
+
+  /**
+   * @param path - 保存先のファイルパス（親ディレクトリは存在している必要があります）
+   */
+  constructor(path: string) {
+    this.path = path
+  }
+
+  async load(): Promise<T | undefined> {
+    const { readFile } = await import('node:fs/promises')
+    let text: string
+    try {
+      text = await readFile(this.path, 'utf8')
+    } catch (error) {
+      if ((error as { code?: unknown }).code === 'ENOENT') {
+        return undefined
+      }
+      throw error
+    }
+    return JSON.parse(text) as T
+  }
+
+  async save(state: T): Promise<void> {
+    const { writeFile, rename } = await import('node:fs/promises')
+    const temporaryPath = `${this.path}.tmp`
+    await writeFile(temporaryPath, JSON.stringify(state, null, 2), 'utf8')
+    await rename(temporaryPath, this.path)
+  }
+}
+
+/**
+ * キー・バリュー型ストアの最小限のインターフェース
+ * ioredis・node-redisのクライアントはそのまま指定できます
+ */
+export interface KeyValueStore {
+  /**
+   * 値を取得する（存在しない場合はnullまたはundefined）
+   */
+  get(_key: string): Promise<string | null | undefined>
+
+  /**
+   * 値を保存する（既存の値は置き換える）
+   */
+  set(_key: string, _value: string): Promise<unknown>
+}
+
+/**
+ * キー・バリュー型ストア（Redisなど）の1つのキーに状態をJSONとして保存する保存先
+ *
+ * @example
+ * ```typescript
+ * import Redis from 'ioredis'
+ *
+ * const storage = new KeyValueSnapshotStorage<Record<string, string>>(
+ *   new Redis(),
+ *   'openlogi:shipment-watcher',
+ * )
+ * ```
+ */
+export class KeyValueSnapshotStorage<T> implements SnapshotStorage<T> {
+  private readonly store: KeyValueStore
+  private readonly key: string
+
+  /**
+   * @param store - キー・バリュー型ストア
+   * @param key - 保存先のキー
+   */
+  constructor(store: KeyValueStore, key: string) {
+    this.store = store
+    this.key = key
+  }
+
+  async load(): Promise<T | undefined> {
+    const text = await this.store.get(this.key)
+    return text === null || text === undefined ? undefined : (JSON.parse(text) as T)
+  }
+
+  async save(state: T): Promise<void> {
+    await this.store.set(this.key, JSON.stringify(state))
+  }
+}
@@ -0,0 +1,926 @@
+/**
+ * インメモリのOpenLogi APIフェイク
+ * 商品・出荷依頼・入荷依頼・在庫を保持し、MSWのハンドラーとして振る舞いを再現する
+ *
+ * @packageDocumentation
+ */
+
+import { http, HttpResponse, type HttpHandler } from 'msw'
+import { type ZodType } from 'zod'
+import {
+  BulkItemRequestSchema,
+  CreateItemRequestSchema,
+  ItemResponseSchema,
+  UpdateItemRequestSchema,
+  type CreateItemRequest,
+  type ItemResponse,
+} from '../types/items.js'
+import {
+  BulkShipmentRequestSchema,
+  CreateShipmentRequestSchema,
+  ModifyShipmentRequestSchema,
+  ShipmentResponseSchema,
+  UpdateShipmentRequestSchema,
+  type CreateShipmentRequest,
+  type ShipmentResponse,
+  type ShipmentStatus,
+} from '../types/shipments.js'
+import {
+  CreateWarehousingRequestSchema,
+  UpdateWarehousingRequestSchema,
+  WarehousingDetailResponseSchema,
+  WarehousingListItemSchema,
+  WarehousingResponseSchema,
+  type CreateWarehousingRequest,
+  type WarehousingDetailResponse,
+} from '../types/warehousings.js'
+import { canPerformShipmentOperation, type ShipmentOperation } from '../shipment-state.js'
+import { formatCompactDate } from '../utils/date.js'
+import { createItemFixture } from './fixtures.js'
+
+/**
+ * フェイクの設定
+ */
+export interface FakeOpenLogiOptions {
+  /**
+   * ハンドラーを登録するベースURL（`createClient` の `baseUrl` と同じ値）
+   * @default 'http://localhost:8080'
+   */
+  baseUrl?: string
+}
+
+/**
+ * 出荷済みにする際のオプション
+ */
+export interface ShipShipmentOptions {
+  /**
+   * 出荷日時
+   * @default new Date()
+   */
+  shippedAt?: Date
+
+  /**
+   * 追跡コード
+   */
+  trackingCode?: string
+}
+
+/**
+ * 入庫済みにする際のオプション
+ */
+export interface StockWarehousingOptions {
+  /**
+   * 入庫日時
+   * @default new Date()
+   */
+  stockedAt?: Date
+}
+
+/**
+ * エラーレスポンスとして返すエラー
+ */
+class FakeHttpError extends Error {
+  readonly status: number
+  readonly body: Record<string, unknown>
+
+  constructor(status: number, body: Record<string, unknown>) {
+    super(`HTTP ${status}`)
+    this.status = status
+    this.body = body
+  }
+}
+
+/**
+ * 404エラーを生成
+ */
+function notFound(message: string): FakeHttpError {
+  return new FakeHttpError(404, { message })
+}
+
+/**
+ * リクエストボディをスキーマで検証（失敗時は422）
+ */
+function validate<T>(schema: ZodType<T>, body: unknown): T {
+  const result = schema.safeParse(body)
+  if (!result.success) {
+    const errors: Record<string, string[]> = {}
+    for (const issue of result.error.issues) {
+      const field = issue.path.join('.') || 'body'
+      errors[field] = [...(errors[field] ?? []), issue.message]
+    }
+    throw new FakeHttpError(422, { message: 'The given data was invalid.', errors })
+  }
+  return result.data
+}
+
+/**
+ * 直近1日分の実績に絞り込む（`/shipments/shipped`・`/warehousings/stocked` の仕様）
+ * `date_before`（未指定の場合は今日）以前で実績のある最後の日、`date_after` のみ指定した場合は
+ * それ以降で実績のある最初の日の実績を返す。`date_before` と一緒に指定した `date_after` は無視する
+ */
+function onLatestDay<T>(
+  records: readonly T[],
+  dateOf: (_record: T) => Date,
+  dateAfter: string | null,
+  dateBefore: string | null,
+): T[] {
+  const dates = records.map((record) => formatCompactDate(dateOf(record)))
+  const target =
+    dateAfter && dateBefore === null
+      ? dates.filter((date) => date >= dateAfter).sort()[0]
+      : dates
+          .filter((date) => date <= (dateBefore ?? formatCompactDate(new Date())))
+          .sort()
+          .at(-1)
+  return records.filter((_, index) => dates[index] === target)
+}
+
+/**
+ * 年月日パスパラメータに一致するかどうか
+ */
+function isOnDate(date: Date, year: string, month: string, day: string | undefined): boolean {
+  return (
+    date.getFullYear() === Number(year) &&
+    date.getMonth() + 1 === Number(month) &&
+    (day === undefined || date.getDate() === Number(day))
+  )
+}
+
+/**
+ * カンマ区切りのクエリパラメータを分割
+ */
+function splitQuery(value: string | null): string[] {
+  return value ? value.split(',').filter((part) => part !== '') : []
+}
+
+/**
+ * インメモリのOpenLogi APIフェイク
+ *
+ * `handlers` をMSWのサーバーに登録すると、SDKからのリクエストに対して
+ * 作成・取得・更新・削除の結果を保持したまま応答します。
+ * 倉庫側で発生するイベント（出荷、入庫）は `shipShipment`、`stockWarehousing` で再現できます。
+ *
+ * 対応していないエンドポイント（画像、ラベル、倉庫移動、国際発送のマスタなど）は
+ * ハンドラーを登録しないため、必要に応じて個別にハンドラーを追加してください。
+ *
+ * @example
+ * ```typescript
+ * import { setupServer } from 'msw/node'
+ * import { FakeOpenLogi } from 'openlogi-api-sdk/testing'
+ *
+ * const fake = new FakeOpenLogi()
+ * const server = setupServer(...fake.handlers)
+ *
+ * const item = fake.addItem({ code: 'SKU-001' })
+ * fake.setStock('SKU-001', 10)
+ * ```
+ */
+export class FakeOpenLogi {
+  /**
+   * 商品（キー: 商品ID）
+   */
+  readonly items = new Map<string, ItemResponse>()
+
+  /**
+   * 出荷依頼（キー: 出荷ID）
+   */
+  readonly shipments = new Map<string, ShipmentResponse>()
+
+  /**
+   * 入荷依頼（キー: 入荷ID）
+   */
+  readonly warehousings = new Map<string, WarehousingDetailResponse>()
+
+  /**
+   * 在庫数（キー: 商品コード）
+   */
+  readonly stock = new Map<string, number>()
+
+  /**
+   * MSWのリクエストハンドラー
+   */
+  readonly handlers: HttpHandler[]
+
+  /**
+   * 入庫日時（キー: 入荷ID）
+   */
+  private readonly stockedAt = new Map<string, Date>()
+
+  private sequence = 0
+
+  constructor(options: FakeOpenLogiOptions = {}) {
+    this.handlers = this.createHandlers(`${options.baseUrl ?? 'http://localhost:8080'}/api`)
+  }
+
+  /**
+   * 商品を登録する（在庫数は `setStock` で設定）
+   *
+   * @param overrides - 上書きするフィールド（`createItemFixture` と同じ）
+   * @returns 登録した商品
+   */
+  addItem(overrides: Partial<ItemResponse> = {}): ItemResponse {
+    const item = createItemFixture({ id: this.nextId('item'), ...overrides })
+    const { stock, ...rest } = item
+    this.items.set(item.id, rest)
+    if (stock !== undefined) {
+      this.stock.set(item.code, typeof stock === 'number' ? stock : stock.quantity)
+    }
+    return item
+  }
+
+  /**
+   * 在庫数を設定する
+   *
+   * @param code - 商品コード
+   * @param quantity - 在庫数
+   */
+  setStock(code: string, quantity: number): void {
+    this.stock.set(code, quantity)
+  }
+
+  /**
+   * 出荷ステータスを変更する（倉庫側の作業進行を再現）
+   *
+   * @param id - 出荷ID
+   * @param status - 変更後のステータス
+   * @returns 変更後の出荷依頼
+   */
+  setShipmentStatus(id: string, status: ShipmentStatus): ShipmentResponse {
+    const shipment = this.findShipmentForControl(id)
+    return this.saveShipment({ ...shipment, status, updated_at: new Date().toISOString() })
+  }
+
+  /**
+   * 出荷依頼を出荷済みにし、在庫を減らす
+   *
+   * @param id - 出荷ID
+   * @param options - 出荷日時・追跡コード
+   * @returns 出荷済みの出荷依頼
+   */
+  shipShipment(id: string, options: ShipShipmentOptions = {}): ShipmentResponse {
+    const shipment = this.findShipmentForControl(id)
+    const shippedAt = (options.shippedAt ?? new Date()).toISOString()
+
+    for (const item of shipment.items) {
+      if (item.code !== undefined) {
+        this.stock.set(item.code, Math.max(0, (this.stock.get(item.code) ?? 0) - item.quantity))
+      }
+    }
+
+    return this.saveShipment({
+      ...shipment,
+      status: 'SHIPPED',
+      shipped_at: shippedAt,
+      updated_at: shippedAt,
+      items: shipment.items.map((item) => ({ ...item, shipped_quantity: item.quantity })),
+      ...(options.trackingCode !== undefined && { tracking_code: options.trackingCode }),
+    })
+  }
+
+  /**
+   * 操作対象の出荷依頼を取得（テストコードからの呼び出し用）
+   */
+  private findShipmentForControl(id: string): ShipmentResponse {
+    const shipment = this.shipments.get(id)
+    if (!shipment) {
+      throw new Error(`Shipment not found: ${id}`)
+    }
+    return shipment
+  }
+
+  /**
+   * 入荷依頼を入庫済みにし、在庫を増やす
+   *
+   * @param id - 入荷ID
+   * @param options - 入庫日時
+   * @returns 入庫済みの入荷依頼
+   */
+  stockWarehousing(id: string, options: StockWarehousingOptions = {}): WarehousingDetailResponse {
+    const warehousing = this.warehousings.get(id)
+    if (!warehousing) {
+      throw new Error(`Warehousing not found: ${id}`)
+    }
+
+    for (const item of warehousing.items) {
+      this.stock.set(item.code, (this.stock.get(item.code) ?? 0) + item.quantity)
+    }
+
+    const stocked = WarehousingDetailResponseSchema.parse({
+      ...warehousing,
+      status: 'stocked',
+      items: warehousing.items.map((item) => ({
+        ...item,
+        received: item.quantity,
+        warehoused_count: item.quantity,
+      })),
+    })
+    this.warehousings.set(id, stocked)
+    this.stockedAt.set(id, options.stockedAt ?? new Date())
+    return stocked
+  }
+
+  /**
+   * 保持しているデータをすべて削除する
+   */
+  reset(): void {
+    this.items.clear()
+    this.shipments.clear()
+    this.warehousings.clear()
+    this.stock.clear()
+    this.stockedAt.clear()
+    this.sequence = 0
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence++
+    return `${prefix}-${this.sequence}`
+  }
+
+  private now(): string {
+    return new Date().toISOString()
+  }
+
+  // ---------------------------------------------------------------------------
+  // 商品
+  // ---------------------------------------------------------------------------
+
+  private withStock(item: ItemResponse, includeStock: boolean): ItemResponse {
+    return includeStock ? { ...item, stock: this.stock.get(item.code) ?? 0 } : item
+  }
+
+  private findItemByCode(code: string): ItemResponse | undefined {
+    return [...this.items.values()].find((item) => item.code === code)
+  }
+
+  private requireItem(id: string): ItemResponse {
+    const item = this.items.get(id)
+    if (!item) {
+      throw notFound('商品が見つかりません')
+    }
+    return item
+  }
+
+  private requireItemByCode(code: string): ItemResponse {
+    const item = this.findItemByCode(code)
+    if (!item) {
+      throw notFound('商品が見つかりません')
+    }
+    return item
+  }
+
+  /**
+   * 商品を一括登録する
+   * すべての要素を検証してから保存するため、1件でもエラーがあれば何も保存しない
+   */
+  private createItems(requests: readonly CreateItemRequest[]): ItemResponse[] {
+    const codes = new Set<string>()
+    const items = requests.map((data) => this.buildItem(data, codes))
+    return items.map((item) => this.saveItem(item))
+  }
+
+  private saveItem(item: ItemResponse): ItemResponse {
+    this.items.set(item.id, item)
+    return this.withStock(item, true)
+  }
+
+  /**
+   * 登録する商品を生成する（保存はしない）
+   *
+   * @param data - 商品登録リクエスト
+   * @param codes - 同じリクエストで登録する商品コード（重複の検出用、生成した商品のコードを追加する）
+   */
+  private buildItem(data: CreateItemRequest, codes: Set<string>): ItemResponse {
+    if (codes.has(data.code) || this.findItemByCode(data.code)) {
+      throw new FakeHttpError(422, {
+        message: 'The given data was invalid.',
+        errors: { code: ['この商品コードは既に登録されています'] },
+      })
+    }
+    codes.add(data.code)
+
+    const now = this.now()
+    return validate(ItemResponseSchema, {
+      ...data,
+      id: this.nextId('item'),
+      name: data.name ?? data.code,
+      created_at: now,
+      updated_at: now,
+    })
+  }
+
+  private updateItem(item: ItemResponse, body: unknown): ItemResponse {
+    const data = validate(UpdateItemRequestSchema, body)
+    const updated = ItemResponseSchema.parse({ ...item, ...data, updated_at: this.now() })
+    this.items.set(item.id, updated)
+    return updated
+  }
+
+  // ---------------------------------------------------------------------------
+  // 出荷依頼
+  // ---------------------------------------------------------------------------
+
+  private saveShipment(shipment: ShipmentResponse): ShipmentResponse {
+    this.shipments.set(shipment.id, shipment)
+    return shipment
+  }
+
+  private requireShipment(id: string): ShipmentResponse {
+    const shipment = this.shipments.get(id)
+    if (!shipment) {
+      throw notFound('出荷依頼が見つかりません')
+    }
+    return shipment
+  }
+
+  private findShipmentByIdentifier(identifier: string): ShipmentResponse | undefined {
+    return [...this.shipments.values()].find(
+      (shipment) => shipment.identifier === identifier || shipment.order_no === identifier,
+    )
+  }
+
+  private requireShipmentByIdentifier(identifier: string): ShipmentResponse {
+    const shipment = this.findShipmentByIdentifier(identifier)
+    if (!shipment) {
+      throw notFound('出荷依頼が見つかりません')
+    }
+    return shipment
+  }
+
+  private assertShipmentOperation(shipment: ShipmentResponse, operation: ShipmentOperation): void {
+    if (!canPerformShipmentOperation(shipment, operation)) {
+      throw new FakeHttpError(400, {
+        message: `ステータスが${shipment.status}の出荷依頼は変更できません`,
+      })
+    }
+  }
+
+  /**
+   * 出荷依頼を一括作成する
+   * すべての要素を検証してから保存するため、1件でもエラーがあれば何も保存しない
+   */
+  private createShipments(requests: readonly CreateShipmentRequest[]): ShipmentResponse[] {
+    const keys = new Set<string>()
+    const shipments = requests.map((data) => this.buildShipment(data, keys))
+    return shipments.map((shipment) => this.saveShipment(shipment))
+  }
+
+  /**
+   * 作成する出荷依頼を生成する（保存はしない）
+   *
+   * @param data - 出荷依頼作成リクエスト
+   * @param keys - 同じリクエストで作成するidentifier・order_no（重複の検出用、生成した出荷依頼の値を追加する）
+   */
+  private buildShipment(data: CreateShipmentRequest, keys: Set<string>): ShipmentResponse {
+    const newKeys = [data.identifier, data.order_no].filter((key) => key !== undefined)
+    for (const key of newKeys) {
+      if (keys.has(key) || this.findShipmentByIdentifier(key)) {
+        throw new FakeHttpError(422, {
+          message: 'The given data was invalid.',
+          errors: { identifier: [`${key} は既に登録されています`] },
+        })
+      }
+    }
+    newKeys.forEach((key) => keys.add(key))
+
+    const now = this.now()
+    return validate(ShipmentResponseSchema, {
+      ...data,
+      id: this.nextId('ship'),
+      status: data.suspend ? 'SUSPENDED' : 'PENDING',
+      created_at: now,
+      updated_at: now,
+    })
+  }
+
+  private updateShipment(shipment: ShipmentResponse, body: unknown): ShipmentResponse {
+    this.assertShipmentOperation(shipment, 'update')
+    const data = validate(UpdateShipmentRequestSchema, body)
+    return this.saveShipment(
+      validate(ShipmentResponseSchema, { ...shipment, ...data, updated_at: this.now() }),
+    )
+  }
+
+  private modifyShipment(shipment: ShipmentResponse, body: unknown): ShipmentResponse {
+    this.assertShipmentOperation(shipment, 'modify')
+    const data = validate(ModifyShipmentRequestSchema, body)
+    return this.saveShipment(
+      validate(ShipmentResponseSchema, { ...shipment, ...data, updated_at: this.now() }),
+    )
+  }
+
+  private cancelShipment(shipment: ShipmentResponse): ShipmentResponse {
+    this.assertShipmentOperation(shipment, 'cancel')
+    const now = this.now()
+    return this.saveShipment({
+      ...shipment,
+      status: 'CANCELLED',
+      cancelled_at: now,
+      updated_at: now,
+    })
+  }
+
+  private deleteShipment(shipment: ShipmentResponse): void {
+    this.assertShipmentOperation(shipment, 'delete')
+    this.shipments.delete(shipment.id)
+  }
+
+  private shippedShipments(): Array<ShipmentResponse & { shipped_at: string }> {
+    return [...this.shipments.values()].filter(
+      (shipment): shipment is ShipmentResponse & { shipped_at: string } =>
+        shipment.status === 'SHIPPED' && shipment.shipped_at !== undefined,
+    )
+  }
+
+  // ---------------------------------------------------------------------------
+  // 入荷依頼
+  // ---------------------------------------------------------------------------
+
+  private requireWarehousing(id: string): WarehousingDetailResponse {
+    const warehousing = this.warehousings.get(id)
+    if (!warehousing) {
+      throw notFound('入荷依頼が見つかりません')
+    }
+    return warehousing
+  }
+
+  private assertWarehousingWaiting(warehousing: WarehousingDetailResponse): void {
+    if (warehousing.status !== 'waiting') {
+      throw new FakeHttpError(400, {
+        message: `ステータスが${warehousing.status}の入荷依頼は変更できません`,
+      })
+    }
+  }
+
+  private toWarehousingItems(data: CreateWarehousingRequest): WarehousingDetailResponse['items'] {
+    const errors: Record<string, string[]> = {}
+    const items = data.items.map((requested, index) => {
+      const item = this.findItemByCode(requested.code)
+      if (!item) {
+        errors[`items.${index}.code`] = [`商品コード ${requested.code} が見つかりません`]
+      }
+      return {
+        id: item?.id ?? '',
+        code: requested.code,
+        name: item?.name ?? '',
+        quantity: requested.quantity,
+        received: 0,
+      }
+    })
+    if (Object.keys(errors).length > 0) {
+      throw new FakeHttpError(422, { message: 'The given data was invalid.', errors })
+    }
+    return items
+  }
+
+  private saveWarehousing(
+    id: string,
+    data: CreateWarehousingRequest,
+    createdAt: string,
+  ): WarehousingDetailResponse {
+    const warehousing = WarehousingDetailResponseSchema.parse({
+      ...data,
+      id,
+      status: 'waiting',
+      items: this.toWarehousingItems(data),
+      created_at: createdAt,
+    })
+    this.warehousings.set(id, warehousing)
+    return warehousing
+  }
+
+  private stockedWarehousings(): Array<{
+    warehousing: WarehousingDetailResponse
+    stockedAt: Date
+  }> {
+    return [...this.warehousings.values()].flatMap((warehousing) => {
+      const stockedAt = this.stockedAt.get(warehousing.id)
+      return warehousing.status === 'stocked' && stockedAt !== undefined
+        ? [{ warehousing, stockedAt }]
+        : []
+    })
+  }
+
+  // ---------------------------------------------------------------------------
+  // ハンドラー
+  // ---------------------------------------------------------------------------
+
+  private createHandlers(apiUrl: string): HttpHandler[] {
+    type Context = { request: Request; params: Record<string, string>; url: URL }
+
+    const route =
+      (resolver: (_context: Context) => unknown) =>
+      async ({ request, params }: { request: Request; params: Record<string, unknown> }) => {
+        if (!request.headers.get('Authorization')?.startsWith('Bearer ')) {
+          return HttpResponse.json({ message: 'Unauthenticated.' }, { status: 401 })
+        }
+        try {
+          const body = await resolver({
+            request,
+            params: params as Record<string, string>,
+            url: new URL(request.url),
+          })
+          return body === undefined
+            ? new HttpResponse(null, { status: 204 })
+            : HttpResponse.json(body)
+        } catch (error) {
+          if (error instanceof FakeHttpError) {
+            return HttpResponse.json(error.body, { status: error.status })
+          }
+          throw error
+        }
+      }
+
+    const readJson = async (request: Request): Promise<unknown> => {
+      const text = await request.text()
+      return text ? JSON.parse(text) : {}
+    }
+
+    return [
+      // 商品
+      http.get(
+        `${apiUrl}/items`,
+        route(({ url }) => {
+          const ids = splitQuery(url.searchParams.get('id'))
+          if (ids.length === 0) {
+            throw new FakeHttpError(422, {
+              message: 'The given data was invalid.',
+              errors: { id: ['idは必須です'] },
+            })
+          }
+          const includeStock = url.searchParams.get('stock') === '1'
+          return {
+            items: ids.flatMap((id) => {
+              const item = this.items.get(id)
+              return item ? [this.withStock(item, includeStock)] : []
+            }),
+          }
+        }),
+      ),
+      http.post(
+        `${apiUrl}/items/bulk`,
+        route(async ({ request }) => {
+          const data = validate(BulkItemRequestSchema, await readJson(request))
+          return { items: this.createItems(data.items) }
+        }),
+      ),
+      http.post(
+        `${apiUrl}/items`,
+        route(async ({ request }) =>
+          this.saveItem(
+            this.buildItem(validate(CreateItemRequestSchema, await readJson(request)), new Set()),
+          ),
+        ),
+      ),
+      http.get(
+        `${apiUrl}/items/:accountId/:code`,
+        route(({ params, url }) =>
+          this.withStock(
+            this.requireItemByCode(params['code'] ?? ''),
+            url.searchParams.get('stock') === '1',
+          ),
+        ),
+      ),
+      http.put(
+        `${apiUrl}/items/:accountId/:code`,
+        route(async ({ params, request }) =>
+          this.updateItem(this.requireItemByCode(params['code'] ?? ''), await readJson(request)),
+        ),
+      ),
+      http.delete(
+        `${apiUrl}/items/:accountId/:code`,
+        route(({ params }) => {
+          const item = this.requireItemByCode(params['code'] ?? '')
+          this.items.delete(item.id)
+          return item
+        }),
+      ),
+      http.get(
+        `${apiUrl}/items/:idOrAccountId`,
+        route(({ params, url }) => {
+          const includeStock = url.searchParams.get('stock') === '1'
+          const codes = splitQuery(url.searchParams.get('code'))
+          const identifiers = splitQuery(url.searchParams.get('identifier'))
+
+          // identifier/code指定の場合はアカウントIDを指定した一覧取得
+          if (codes.length > 0 || identifiers.length > 0) {
+            return {
+              items: [...this.items.values()]
+                .filter((item) => codes.includes(item.code) || identifiers.includes(item.id))
+                .map((item) => this.withStock(item, includeStock)),
+            }
+          }
+          return this.withStock(this.requireItem(params['idOrAccountId'] ?? ''), includeStock)
+        }),
+      ),
+      http.put(
+        `${apiUrl}/items/:id`,
+        route(async ({ params, request }) =>
+          this.updateItem(this.requireItem(params['id'] ?? ''), await readJson(request)),
+        ),
+      ),
+      http.delete(
+        `${apiUrl}/items/:id`,
+        route(({ params }) => {
+          const item = this.requireItem(params['id'] ?? '')
+          this.items.delete(item.id)
+          return item
+        }),
+      ),
+
+      // 出荷依頼（より具体的なパスを先に定義する）
+      http.get(
+        `${apiUrl}/shipments/shipped`,
+        route(({ url }) => ({
+          shipments: onLatestDay(
+            this.shippedShipments(),
+            (shipment) => new Date(shipment.shipped_at),
+            url.searchParams.get('date_after'),
+            url.searchParams.get('date_before'),
+          ),
+        })),
+      ),
+      http.get(
+        `${apiUrl}/shipments/shipped/:year/:month/:day?`,
+        route(({ params }) => ({
+          shipments: this.shippedShipments().filter((shipment) =>
+            isOnDate(
+              new Date(shipment.shipped_at),
+              params['year'] ?? '',
+              params['month'] ?? '',
+              params['day'],
+            ),
+          ),
+        })),
+      ),
+      http.post(
+        `${apiUrl}/shipments/bulk`,
+        route(async ({ request }) => {
+          const data = validate(BulkShipmentRequestSchema, await readJson(request))
+          return { shipments: this.createShipments(data.shipments) }
+        }),
+      ),
+      http.post(
+        `${apiUrl}/shipments`,
+        route(async ({ request }) =>
+          this.saveShipment(
+            this.buildShipment(
+              validate(CreateShipmentRequestSchema, await readJson(request)),
+              new Set(),
+            ),
+          ),
+        ),
+      ),
+      http.get(
+        `${apiUrl}/shipments`,
+        route(({ url }) => {
+          const ids = splitQuery(url.searchParams.get('id'))
+          const shipments = [...this.shipments.values()]
+          return {
+            shipments:
+              ids.length > 0
+                ? ids.flatMap((id) => this.shipments.get(id) ?? [])
+                : shipments.filter((shipment) => shipment.status !== 'SHIPPED'),
+          }
+        }),
+      ),
+      http.get(
+        `${apiUrl}/shipments/:accountId/:identifier`,
+        route(({ params }) => this.requireShipmentByIdentifier(params['identifier'] ?? '')),
+      ),
+      http.put(
+        `${apiUrl}/shipments/:accountId/:identifier`,
+        route(async ({ params, request }) =>
+          this.updateShipment(
+            this.requireShipmentByIdentifier(params['identifier'] ?? ''),
+            await readJson(request),
+          ),
+        ),
+      ),
+      http.delete(
+        `${apiUrl}/shipments/:accountId/:identifier`,
+        route(({ params }) => {
+          this.deleteShipment(this.requireShipmentByIdentifier(params['identifier'] ?? ''))
+          return undefined
+        }),
+      ),
+      http.post(
+        `${apiUrl}/shipments/:accountId/:identifier/modify`,
+        route(async ({ params, request }) =>
+          this.modifyShipment(
+            this.requireShipmentByIdentifier(params['identifier'] ?? ''),
+            await readJson(request),
+          ),
+        ),
+      ),
+      http.post(
+        `${apiUrl}/shipments/:accountId/:identifier/cancel`,
+        route(({ params }) =>
+          this.cancelShipment(this.requireShipmentByIdentifier(params['identifier'] ?? '')),
+        ),
+      ),
+      http.get(
+        `${apiUrl}/shipments/:idOrAccountId`,
+        route(({ params, url }) => {
+          const identifiers = splitQuery(url.searchParams.get('identifier'))
+
+          // identifier指定の場合はアカウントIDを指定した一覧取得（出荷済みを含む）
+          if (identifiers.length > 0) {
+            return {
+              shipments: identifiers.flatMap(
+                (identifier) => this.findShipmentByIdentifier(identifier) ?? [],
+              ),
+            }
+          }
+          return this.requireShipment(params['idOrAccountId'] ?? '')
+        }),
+      ),
+      http.put(
+        `${apiUrl}/shipments/:id`,
+        route(async ({ params, request }) =>
+          this.updateShipment(this.requireShipment(params['id'] ?? ''), await readJson(request)),
+        ),
+      ),
+      http.delete(
+        `${apiUrl}/shipments/:id`,
+        route(({ params }) => {
+          this.deleteShipment(this.requireShipment(params['id'] ?? ''))
+          return undefined
+        }),
+      ),
+      http.post(
+        `${apiUrl}/shipments/:id/modify`,
+        route(async ({ params, request }) =>
+          this.modifyShipment(this.requireShipment(params['id'] ?? ''), await readJson(request)),
+        ),
+      ),
+      http.post(
+        `${apiUrl}/shipments/:id/cancel`,
+        route(({ params }) => this.cancelShipment(this.requireShipment(params['id'] ?? ''))),
+      ),
+
+      // 入荷依頼（より具体的なパスを先に定義する）
+      http.get(
+        `${apiUrl}/warehousings/stocked`,
+        route(({ url }) => ({
+          warehousings: onLatestDay(
+            this.stockedWarehousings(),
+            ({ stockedAt }) => stockedAt,
+            url.searchParams.get('date_after'),
+            url.searchParams.get('date_before'),
+          ).map(({ warehousing }) => warehousing),
+        })),
+      ),
+      http.get(
+        `${apiUrl}/warehousings/stocked/:year/:month/:day?`,
+        route(({ params }) => ({
+          warehousings: this.stockedWarehousings()
+            .filter(({ stockedAt }) =>
+              isOnDate(stockedAt, params['year'] ?? '', params['month'] ?? '', params['day']),
+            )
+            .map(({ warehousing }) => warehousing),
+        })),
+      ),
+      http.get(
+        `${apiUrl}/warehousings`,
+        route(() => ({
+          warehousings: [...this.warehousings.values()]
+            .filter((warehousing) => warehousing.status !== 'stocked')
+            .map((warehousing) => WarehousingListItemSchema.parse(warehousing)),
+        })),
+      ),
+      http.post(
+        `${apiUrl}/warehousings`,
+        route(async ({ request }) => {
+          const data = validate(CreateWarehousingRequestSchema, await readJson(request))
+          return WarehousingResponseSchema.parse(
+            this.saveWarehousing(this.nextId('wh'), data, this.now()),
+          )
+        }),
+      ),
+      http.get(
+        `${apiUrl}/warehousings/:id`,
+        route(({ params }) => this.requireWarehousing(params['id'] ?? '')),
+      ),
+      http.put(
+        `${apiUrl}/warehousings/:id`,
+        route(async ({ params, request }) => {
+          const warehousing = this.requireWarehousing(params['id'] ?? '')
+          this.assertWarehousingWaiting(warehousing)
+          const data = validate(UpdateWarehousingRequestSchema, await readJson(request))
+          return WarehousingResponseSchema.parse(
+            this.saveWarehousing(warehousing.id, data, warehousing.created_at ?? this.now()),
+          )
+        }),
+      ),
+      http.delete(
+        `${apiUrl}/warehousings/:id`,
+        route(({ params }) => {
+          const warehousing = this.requireWarehousing(params['id'] ?? '')
+          this.assertWarehousingWaiting(warehousing)
+          this.warehousings.delete(warehousing.id)
+          return WarehousingResponseSchema.parse(warehousing)
+        }),
+      ),
+    ]
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * テスト用フィクスチャ
+ * Zodスキーマで検証済みのレスポンスデータを生成する
+ *
+ * @packageDocumentation
+ */
+
+import { ItemResponseSchema, type ItemResponse } from '../types/items.js'
+import { ShipmentResponseSchema, type ShipmentResponse } from '../types/shipments.js'
+import {
+  WarehousingDetailResponseSchema,
+  type WarehousingDetailResponse,
+} from '../types/warehousings.js'
+
+/**
+ * フィクスチャの固定タイムスタンプ
+ */
+export const FIXTURE_TIMESTAMP = '2025-01-10T00:00:00Z'
+
+/**
+ * フィクスチャID用の連番
+ */
+let sequence = 0
+
+/**
+ * 一意なフィクスチャIDを生成
+ */
+function nextId(prefix: string): string {
+  sequence++
+  return `${prefix}-${sequence}`
+}
+
+/**
+ * 商品レスポンスのフィクスチャを生成
+ *
+ * 未指定のフィールドには妥当なデフォルト値が設定され、`ItemResponseSchema` で検証されます。
+ *
+ * @param overrides - 上書きするフィールド
+ * @returns 商品レスポンス
+ *
+ * @throws {ZodError} 上書きした値がスキーマに適合しない場合
+ *
+ * @example
+ * ```typescript
+ * const item = createItemFixture({ code: 'SKU-001', stock: 10 })
+ * ```
+ */
+export function createItemFixture(overrides: Partial<ItemResponse> = {}): ItemResponse {
+  const id = overrides.id ?? nextId('item')
+  return ItemResponseSchema.parse({
+    id,
+    code: id.toUpperCase(),
+    name: `テスト商品 ${id}`,
+    price: 1000,
+    temperature_zone: 'dry',
+    stock: 0,
+    created_at: FIXTURE_TIMESTAMP,
+    updated_at: FIXTURE_TIMESTAMP,
+    ...overrides,
+  })
+}
+
+/**
+ * 出荷依頼レスポンスのフィクスチャを生成
+ *
+ * 未指定のフィールドには妥当なデフォルト値（ステータスはPENDING）が設定され、
+ * `ShipmentResponseSchema` で検証されます。
+ *
+ * @param overrides - 上書きするフィールド
+ * @returns 出荷依頼レスポンス
+ *
+ * @throws {ZodError} 上書きした値がスキーマに適合しない場合
+ *
+ * @example
+ * ```typescript
+ * const shipment = createShipmentFixture({ order_no: 'ORDER-001', status: 'SHIPPED' })
+ * ```
+ */
+export function createShipmentFixture(overrides: Partial<ShipmentResponse> = {}): ShipmentResponse {
+  const id = overrides.id ?? nextId('ship')
+  return ShipmentResponseSchema.parse({
+    id,
+    identifier: id,
+    order_no: `ORDER-${id}`,
+    status: 'PENDING',
+    items: [{ code: 'TEST-001', quantity: 1 }],
+    recipient: {
+      name: '山田太郎',
+      postcode: '1700013',
+      prefecture: '東京都',
+      address1: '豊島区東池袋1-34-5',
+      phone: '0333333333',
+    },
+    created_at: FIXTURE_TIMESTAMP,
+    updated_at: FIXTURE_TIMESTAMP,
+    ...overrides,
+  })
+}
+
+/**
+ * 入荷依頼レスポンスのフィクスチャを生成
+ *
+ * 未指定のフィールドには妥当なデフォルト値（ステータスはwaiting）が設定され、
+ * `WarehousingDetailResponseSchema` で検証されます。
+ *
+ * @param overrides - 上書きするフィールド
+ * @returns 入荷依頼レスポンス
+ *
+ * @throws {ZodError} 上書きした値がスキーマに適合しない場合
+ *
+ * @example
+ * ```typescript
+ * const warehousing = createWarehousingFixture({ status: 'stocked' })
+ * ```
+ */
+export function createWarehousingFixture(
+  overrides: Partial<WarehousingDetailResponse> = {},
+): WarehousingDetailResponse {
+  const id = overrides.id ?? nextId('wh')
+  return WarehousingDetailResponseSchema.parse({
+    id,
+    status: 'waiting',
+    inspection_type: 'CODE',
+    items: [{ id: 'item-1', code: 'TEST-001', name: 'テスト商品', quantity: 1, received: 0 }],
+    arrival_date: '2025-01-20',
+    created_at: FIXTURE_TIMESTAMP,
+    ...overrides,
+  })
+}
@@ -0,0 +1,22 @@
+/**
+ * OpenLogi API SDK テスト用ユーティリティ
+ *
+ * `openlogi-api-sdk/testing` としてインポートできます。
+ * 利用にはMSW（`msw` v2）のインストールが必要です。
+ *
+ * @packageDocumentation
+ */
+
+export {
+  FakeOpenLogi,
+  type FakeOpenLogiOptions,
+  type ShipShipmentOptions,
+  type StockWarehousingOptions,
+} from './fake-openlogi.js'
+export { createFakeServer, type FakeOpenLogiServer } from './server.js'
+export {
+  createItemFixture,
+  createShipmentFixture,
+  createWarehousingFixture,
+  FIXTURE_TIMESTAMP,
+} from './fixtures.js'
@@ -0,0 +1,49 @@
+/**
+ * フェイクを登録したMSWサーバー
+ *
+ * @packageDocumentation
+ */
+
+import { setupServer, type SetupServerApi } from 'msw/node'
+import { FakeOpenLogi, type FakeOpenLogiOptions } from './fake-openlogi.js'
+
+/**
+ * フェイクサーバー
+ */
+export interface FakeOpenLogiServer {
+  /**
+   * データを保持するフェイク
+   */
+  fake: FakeOpenLogi
+
+  /**
+   * フェイクのハンドラーを登録したMSWサーバー
+   */
+  server: SetupServerApi
+}
+
+/**
+ * フェイクのハンドラーを登録したMSWサーバーを作成
+ *
+ * すでにMSWのサーバーを使用している場合は、`new FakeOpenLogi()` の `handlers` を
+ * `server.use(...fake.handlers)` で登録してください。
+ *
+ * @param options - フェイクの設定
+ * @returns フェイクとMSWサーバー
+ *
+ * @example
+ * ```typescript
+ * import { beforeAll, afterEach, afterAll } from 'vitest'
+ * import { createFakeServer } from 'openlogi-api-sdk/testing'
+ *
+ * const { fake, server } = createFakeServer()
+ *
+ * beforeAll(() => server.listen({ onUnhandledRequest: 'error' }))
+ * afterEach(() => fake.reset())
+ * afterAll(() => server.close())
+ * ```
+ */
+export function createFakeServer(options: FakeOpenLogiOptions = {}): FakeOpenLogiServer {
+  const fake = new FakeOpenLogi(options)
+  return { fake, server: setupServer(...fake.handlers) }
+}
@@ -32,6 +32,76 @@ export const ItemInternationalInfoSchema = z.object({
 
 export type ItemInternationalInfo = z.infer<typeof ItemInternationalInfoSchema>
 
+/**
+ * 在庫数
+ */
+export const StockSchema = z
+  .object({
+    /** 総数（期限切れの在庫は含まない） */
+    quantity: z.number().int(),
+    /** 配送可在庫数（総数から出荷作業中と引当待ちを除いた、追加で出荷依頼できる数量） */
+    available: z.number().int(),
+    /** 出荷作業中（引当済み・出荷作業中の数量） */
+    shipping: z.number().int(),
+    /** 依頼中（出荷に必要な数量、出荷作業中・引当待ち・入荷待ちの和） */
+    requesting: z.number().int(),
+    /** 引当待ち数（非推奨: 正確な数量とならない場合がある） */
+    reserved: z.number().int().optional(),
+    /** 入荷待ち数（出荷依頼が作成されて入荷待ちとなっている数量） */
+    backordered: z.number().int().optional(),
+    /** 期限切れ在庫数（期限管理商品のみ） */
+    unallocatable: z.number().int().optional(),
+  })
+  .passthrough()
+
+export type Stock = z.infer<typeof StockSchema>
+
+/**
+ * 商品全体の在庫情報
+ */
+export const ItemStockSummarySchema = StockSchema.extend({
+  /** 入荷時に測定された商品サイズ */
+  size: z.string().optional(),
+  /** 入荷時に測定された商品重量（グラム） */
+  weight: z.number().optional(),
+})
+
+export type ItemStockSummary = z.infer<typeof ItemStockSummarySchema>
+
+/**
+ * ロットごとの在庫情報（期限管理商品のみ）
+ */
+export const LotStockSchema = z
+  .object({
+    /** 賞味期限 */
+    expiry_at: z.string().nullish(),
+    /** 製造年月日 */
+    manufacture_date: z.string().nullish(),
+    /** 引当期限日 */
+    lot_allocatable_at: z.string().nullish(),
+    /** 総数 */
+    quantity: z.number().int(),
+    /** 配送可在庫数 */
+    available: z.number().int().optional(),
+  })
+  .passthrough()
+
+export type LotStock = z.infer<typeof LotStockSchema>
+
+/**
+ * 倉庫ごとの在庫情報
+ */
+export const WarehouseStockSchema = StockSchema.extend({
+  /** 倉庫コード */
+  warehouse: z.string(),
+  /** 廃棄依頼（waiting, processing） */
+  dispose: z.string().optional(),
+  /** ロットごとの在庫情報（期限管理商品のみ） */
+  lots: z.array(LotStockSchema).optional(),
+})
+
+export type WarehouseStock = z.infer<typeof WarehouseStockSchema>
+
 /**
  * 商品画像
  */
@@ -147,10 +217,10 @@ export const ItemResponseSchema = z.object({
   child_items: z.array(ChildItemSchema).optional(),
   /** タグリスト */
   tags: z.array(z.string()).optional(),
-  /** 在庫数（レスポンスのみ） */
-  stock: z.number().optional(),
+  /** 在庫情報（レスポンスのみ、在庫数のみの場合は数値） */
+  stock: z.union([z.number(), ItemStockSummarySchema]).optional(),
   /** 各倉庫の在庫情報 */
-  stocks: z.array(z.unknown()).optional(),
+  stocks: z.array(WarehouseStockSchema).optional(),
   /** 同梱物フラグ */
   bundled_item: z.boolean().nullish(),
   /** AMAZON FBA用のFNSKU */
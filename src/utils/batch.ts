@@ -0,0 +1,342 @@
+/**
+ * バッチ処理ユーティリティ
+ * 配列の分割と並列数を制限した非同期処理
+ *
+ * @packageDocumentation
+ */
+
+import { OpenLogiError } from '../errors.js'
+
+/**
+ * 配列を指定サイズごとのチャンクに分割
+ *
+ * @param values - 分割する配列
+ * @param size - チャンクサイズ（1以上）
+ * @returns チャンクの配列
+ *
+ * @example
+ * ```typescript
+ * chunk([1, 2, 3, 4, 5], 2) // [[1, 2], [3, 4], [5]]
+ * ```
+ */
+export function chunk<T>(values: readonly T[], size: number): T[][] {
+  if (!Number.isInteger(size) || size < 1) {
+    throw new RangeError(`chunk size must be a positive integer: ${size}`)
+  }
+
+  const chunks: T[][] = []
+  for (let i = 0; i < values.length; i += size) {
+    chunks.push(values.slice(i, i + size))
+  }
+  return chunks
+}
+
+/**
+ * 並列数を制限して非同期処理を実行
+ * 結果は入力と同じ順序で返す
+ *
+ * @param values - 処理対象の配列
+ * @param concurrency - 最大並列数（1以上）
+ * @param fn - 各要素に適用する非同期関数
+ * @returns 入力順の結果配列
+ *
+ * @example
+ * ```typescript
+ * const responses = await mapWithConcurrency(chunks, 4, (ids) =>
+ *   listItems(client, { id: ids.join(',') }),
+ * )
+ * ```
+ */
+export async function mapWithConcurrency<T, R>(
+  values: readonly T[],
+  concurrency: number,
+  fn: (_value: T, _index: number) => Promise<R>,
+): Promise<R[]> {
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new RangeError(`concurrency must be a positive integer: ${concurrency}`)
+  }
+
+  const results = new Array<R>(values.length)
+  let next = 0
+
+  const worker = async (): Promise<void> => {
+    while (next < values.length) {
+      const index = next++
+      results[index] = await fn(values[index] as T, index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, values.length) }, worker))
+  return results
+}
+
+/**
+ * ID指定APIの1リクエストあたりの最大ID数
+ */
+export const MAX_IDS_PER_REQUEST = 100
+
+/**
+ * ID一覧を分割して取得する際のオプション
+ */
+export interface BatchOptions {
+  /**
+   * 1リクエストあたりのID数（1-100）
+   * @default 100
+   */
+  chunkSize?: number
+
+  /**
+   * 最大並列リクエスト数
+   * @default 4
+   */
+  concurrency?: number
+}
+
+/**
+ * ID一覧を分割して取得した結果
+ *
+ * @internal
+ */
+export interface FetchByIdsResult<T> {
+  /** 入力順に並べた取得結果 */
+  found: T[]
+  /** APIから返されなかったID */
+  missingIds: string[]
+}
+
+/**
+ * ID一覧をチャンクに分割して並列に取得し、入力順にマージする
+ * 重複したIDは1つにまとめる
+ *
+ * @internal
+ * @param ids - 取得するID一覧
+ * @param options - 分割・並列数のオプション
+ * @param fetchChunk - チャンク単位で取得する関数
+ * @returns 入力順の取得結果と、返されなかったID
+ */
+export async function fetchByIds<T extends { id: string }>(
+  ids: readonly string[],
+  options: BatchOptions,
+  fetchChunk: (_ids: string[]) => Promise<T[]>,
+): Promise<FetchByIdsResult<T>> {
+  const chunkSize = options.chunkSize ?? MAX_IDS_PER_REQUEST
+  if (chunkSize > MAX_IDS_PER_REQUEST) {
+    throw new RangeError(`chunkSize must be ${MAX_IDS_PER_REQUEST} or less: ${chunkSize}`)
+  }
+
+  const uniqueIds = [...new Set(ids)]
+  const responses = await mapWithConcurrency(
+    chunk(uniqueIds, chunkSize),
+    options.concurrency ?? 4,
+    fetchChunk,
+  )
+
+  const byId = new Map<string, T>()
+  for (const record of responses.flat()) {
+    byId.set(record.id, record)
+  }
+
+  const found: T[] = []
+  const missingIds: string[] = []
+  for (const id of uniqueIds) {
+    const record = byId.get(id)
+    if (record) {
+      found.push(record)
+    } else {
+      missingIds.push(id)
+    }
+  }
+
+  return { found, missingIds }
+}
+
+/**
+ * 一括作成APIの1リクエストあたりの最大件数
+ */
+export const MAX_ITEMS_PER_BULK_REQUEST = 100
+
+/**
+ * 分割して一括作成する際のオプション
+ */
+export interface BulkOptions {
+  /**
+   * 1リクエストあたりの件数（1-100）
+   * @default 100
+   */
+  chunkSize?: number
+
+  /**
+   * 最大並列リクエスト数
+   * @default 1
+   */
+  concurrency?: number
+
+  /**
+   * trueの場合、一括作成に失敗したチャンクがあれば、まだ送信していないチャンクを送信しない
+   * @default false
+   */
+  stopOnError?: boolean
+}
+
+/**
+ * 作成に成功した要素
+ */
+export interface BulkSucceeded<T, I> {
+  /** 入力の順序（0始まり） */
+  index: number
+  /** 入力 */
+  input: I
+  /** 作成結果 */
+  result: T
+}
+
+/**
+ * 作成に失敗した要素
+ */
+export interface BulkFailed<I> {
+  /** 入力の順序（0始まり） */
+  index: number
+  /** 入力 */
+  input: I
+  /** 検証エラー（`ValidationError`）、または要素を含むチャンクの一括作成で発生したエラー */
+  error: unknown
+}
+
+/**
+ * 送信しなかった要素
+ */
+export interface BulkSkipped<I> {
+  /** 入力の順序（0始まり） */
+  index: number
+  /** 入力 */
+  input: I
+  /**
+   * 送信しなかった理由
+   * - duplicate: 先の要素とキー（商品コード・識別子など）が重複している
+   * - aborted: `stopOnError` により、失敗したチャンクの後の送信を中止した
+   */
+  reason: 'duplicate' | 'aborted'
+}
+
+/**
+ * 分割して一括作成した結果
+ */
+export interface BulkResult<T, I = unknown> {
+  /** 作成に成功した要素（入力の順序） */
+  succeeded: BulkSucceeded<T, I>[]
+  /** 検証・作成に失敗した要素（入力の順序） */
+  failed: BulkFailed<I>[]
+  /** 送信しなかった要素（入力の順序） */
+  skipped: BulkSkipped<I>[]
+}
+
+/**
+ * 分割一括作成の処理内容
+ *
+ * @internal
+ */
+export interface BulkCreateHandlers<T, I> {
+  /** 要素を検証し、不正な場合はエラーを返す */
+  validate: (_input: I) => unknown
+  /** 重複を判定するキー（undefinedの場合は判定しない） */
+  keyOf: (_input: I) => string | undefined
+  /** 作成結果のキー（入力のキーと対応付ける） */
+  resultKeyOf: (_result: T) => string | undefined
+  /** チャンク単位で一括作成する */
+  createChunk: (_inputs: I[]) => Promise<T[]>
+}
+
+/**
+ * 要素を個別に検証し、有効な要素のみをチャンクに分割して一括作成する
+ * 作成結果はキーで、キーがない場合はチャンク内の順序で入力と対応付ける
+ * キーのある要素の結果が返されなかった場合は、その要素を失敗とする
+ *
+ * @internal
+ * @param inputs - 作成する要素
+ * @param options - 分割・並列数のオプション
+ * @param handlers - 検証・キー・一括作成の処理
+ * @returns 成功・失敗・送信しなかった要素
+ */
+export async function createInBatches<T, I>(
+  inputs: readonly I[],
+  options: BulkOptions,
+  handlers: BulkCreateHandlers<T, I>,
+): Promise<BulkResult<T, I>> {
+  const { chunkSize = MAX_ITEMS_PER_BULK_REQUEST, concurrency = 1, stopOnError = false } = options
+  if (!Number.isInteger(chunkSize) || chunkSize < 1 || chunkSize > MAX_ITEMS_PER_BULK_REQUEST) {
+    throw new RangeError(
+      `chunkSize must be an integer between 1 and ${MAX_ITEMS_PER_BULK_REQUEST}: ${chunkSize}`,
+    )
+  }
+
+  const succeeded: BulkSucceeded<T, I>[] = []
+  const failed: BulkFailed<I>[] = []
+  const skipped: BulkSkipped<I>[] = []
+
+  const valid: Array<{ index: number; input: I; key: string | undefined }> = []
+  const keys = new Set<string>()
+  inputs.forEach((input, index) => {
+    const error = handlers.validate(input)
+    if (error !== undefined) {
+      failed.push({ index, input, error })
+      return
+    }
+    const key = handlers.keyOf(input)
+    if (key !== undefined && keys.has(key)) {
+      skipped.push({ index, input, reason: 'duplicate' })
+      return
+    }
+    if (key !== undefined) {
+      keys.add(key)
+    }
+    valid.push({ index, input, key })
+  })
+
+  let aborted = false
+  await mapWithConcurrency(chunk(valid, chunkSize), concurrency, async (entries) => {
+    if (aborted) {
+      for (const { index, input } of entries) {
+        skipped.push({ index, input, reason: 'aborted' })
+      }
+      return
+    }
+
+    let results: T[]
+    try {
+      results = await handlers.createChunk(entries.map(({ input }) => input))
+    } catch (error) {
+      aborted = stopOnError
+      for (const { index, input } of entries) {
+        failed.push({ index, input, error })
+      }
+      return
+    }
+
+    const byKey = new Map<string, T>()
+    for (const result of results) {
+      const key = handlers.resultKeyOf(result)
+      if (key !== undefined) {
+        byKey.set(key, result)
+      }
+    }
+    entries.forEach(({ index, input, key }, position) => {
+      const result = key === undefined ? results[position] : byKey.get(key)
+      if (result === undefined) {
+        failed.push({
+          index,
+          input,
+          error: new OpenLogiError('一括作成の結果にこの要素が含まれていません'),
+        })
+      } else {
+        succeeded.push({ index, input, result })
+      }
+    })
+  })
+
+  const byIndex = <E extends { index: number }>(a: E, b: E): number => a.index - b.index
+  return {
+    succeeded: succeeded.sort(byIndex),
+    failed: failed.sort(byIndex),
+    skipped: skipped.sort(byIndex),
+  }
+}
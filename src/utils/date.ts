@@ -0,0 +1,173 @@
+/**
+ * 日付ユーティリティ
+ * 実績取得APIで使用する日付の変換と期間の分割
+ *
+ * @packageDocumentation
+ */
+
+import { ValidationError } from '../errors.js'
+
+/**
+ * 期間指定の実績取得オプション
+ */
+export interface DateRangeOptions {
+  /** 開始日（この日を含む） */
+  from: Date
+
+  /** 終了日（この日を含む） */
+  to: Date
+
+  /**
+   * 期間を分割する単位
+   * - day: 1日ずつ日付指定APIで取得
+   * - month: 1ヶ月ずつ年月指定APIで取得（from/toで切り詰めた月は1日ずつ日付指定APIで取得）
+   * @default 'day'
+   */
+  step?: 'day' | 'month'
+}
+
+/**
+ * 分割された期間
+ *
+ * @internal
+ */
+export interface DateWindow {
+  /** 期間の開始日 */
+  start: Date
+  /** 期間の終了日 */
+  end: Date
+}
+
+/**
+ * 日付指定APIのパス（年・月・日）
+ * `day` が未指定の場合は年月指定APIで1ヶ月分を取得する
+ *
+ * @internal
+ */
+export interface DateParts {
+  /** 年（4桁） */
+  year: number
+  /** 月（1-12） */
+  month: number
+  /** 日（1-31） */
+  day?: number
+}
+
+/**
+ * DateをYYYYMMDD形式の文字列に変換（ローカルタイムゾーン）
+ *
+ * @param date - 変換する日付
+ * @returns YYYYMMDD形式の文字列
+ *
+ * @example
+ * ```typescript
+ * formatCompactDate(new Date(2025, 0, 20)) // '20250120'
+ * ```
+ */
+export function formatCompactDate(date: Date): string {
+  const year = date.getFullYear().toString().padStart(4, '0')
+  const month = (date.getMonth() + 1).toString().padStart(2, '0')
+  const day = date.getDate().toString().padStart(2, '0')
+  return `${year}${month}${day}`
+}
+
+/**
+ * DateをYYYY-MM-DD形式の文字列に変換（ローカルタイムゾーン）
+ *
+ * @internal
+ * @param date - 変換する日付
+ * @returns YYYY-MM-DD形式の文字列
+ */
+export function formatDateString(date: Date): string {
+  return formatCompactDate(date).replace(/^(\d{4})(\d{2})(\d{2})$/, '$1-$2-$3')
+}
+
+/**
+ * 日付部分のみを持つDateを生成（時刻を切り捨て）
+ */
+function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+/**
+ * 期間指定オプションを検証し、指定単位で分割した期間を順に返す
+ * 月単位の場合、最初と最後の期間はfrom/toで切り詰める
+ *
+ * @internal
+ * @param options - 期間指定オプション
+ * @returns 分割された期間の配列
+ * @throws {ValidationError} 日付が不正、またはfromがtoより後の場合
+ */
+export function splitDateRange(options: DateRangeOptions): DateWindow[] {
+  const issues: Array<{ path: (string | number)[]; message: string; code: string }> = []
+  if (Number.isNaN(options.from.getTime())) {
+    issues.push({ path: ['from'], message: 'fromが不正な日付です', code: 'invalid_date' })
+  }
+  if (Number.isNaN(options.to.getTime())) {
+    issues.push({ path: ['to'], message: 'toが不正な日付です', code: 'invalid_date' })
+  }
+  if (issues.length === 0 && options.from.getTime() > options.to.getTime()) {
+    issues.push({
+      path: ['from'],
+      message: 'fromはto以前の日付である必要があります',
+      code: 'custom',
+    })
+  }
+  if (issues.length > 0) {
+    throw new ValidationError(
+      `期間指定の検証に失敗しました: ${issues.map((issue) => issue.message).join(', ')}`,
+      { issues },
+    )
+  }
+
+  const first = startOfDay(options.from)
+  const last = startOfDay(options.to)
+  const windows: DateWindow[] = []
+
+  if ((options.step ?? 'day') === 'day') {
+    for (let cursor = first; cursor <= last; ) {
+      windows.push({ start: cursor, end: cursor })
+      cursor = new Date(cursor.getFullYear(), cursor.getMonth(), cursor.getDate() + 1)
+    }
+    return windows
+  }
+
+  for (let cursor = first; cursor <= last; ) {
+    const monthEnd = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 0)
+    windows.push({ start: cursor, end: monthEnd < last ? monthEnd : last })
+    cursor = new Date(cursor.getFullYear(), cursor.getMonth() + 1, 1)
+  }
+  return windows
+}
+
+/**
+ * 期間指定オプションを検証し、日付指定APIで取得する年月日を順に返す
+ * 月単位の場合、1ヶ月全体を含む月は年月のみ、from/toで切り詰めた月は1日ずつ返す
+ *
+ * 日付指定APIは年月日（または年月）の実績をすべて返すため、期間外の実績を含めないよう
+ * 切り詰めた月は年月指定APIを使用しない
+ *
+ * @internal
+ * @param options - 期間指定オプション
+ * @returns 年月日の配列
+ * @throws {ValidationError} 日付が不正、またはfromがtoより後の場合
+ */
+export function splitDateParts(options: DateRangeOptions): DateParts[] {
+  return splitDateRange(options).flatMap(({ start, end }): DateParts[] => {
+    const year = start.getFullYear()
+    const month = start.getMonth() + 1
+    const monthEnd = new Date(year, month, 0)
+    if (
+      (options.step ?? 'day') === 'month' &&
+      start.getDate() === 1 &&
+      end.getDate() === monthEnd.getDate()
+    ) {
+      return [{ year, month }]
+    }
+    const days: DateParts[] = []
+    for (let day = start.getDate(); day <= end.getDate(); day++) {
+      days.push({ year, month, day })
+    }
+    return days
+  })
+}
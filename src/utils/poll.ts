@@ -0,0 +1,133 @@
+/**
+ * ポーリングユーティリティ
+ * リソースのステータスが目的の値になるまで指数バックオフで取得を繰り返す
+ *
+ * @packageDocumentation
+ */
+
+import { WaitForStatusError } from '../errors.js'
+import { sleep } from './sleep.js'
+
+/**
+ * ステータス待機オプション
+ */
+export interface WaitForStatusOptions<TResource extends { status?: string | undefined }> {
+  /**
+   * 初回のポーリング間隔（ミリ秒）
+   * ステータスが変わらない間は `backoffFactor` 倍ずつ延ばし、ステータスが変わると初期値に戻す
+   * @default 5000
+   */
+  interval?: number
+
+  /**
+   * ポーリング間隔の上限（ミリ秒）
+   * @default 60000
+   */
+  maxInterval?: number
+
+  /**
+   * ポーリング間隔の倍率
+   * @default 2
+   */
+  backoffFactor?: number
+
+  /**
+   * タイムアウト（ミリ秒）
+   * 未指定の場合はタイムアウトしない
+   */
+  timeout?: number
+
+  /**
+   * 待機を中断するためのAbortSignal
+   * 実行中のリクエストも中断し、signalのreasonでrejectします
+   */
+  signal?: AbortSignal
+
+  /**
+   * ステータスが変わるたびに呼び出されるコールバック
+   * 初回の取得時は previousStatus が undefined で呼び出されます
+   */
+  onStatusChange?: (_resource: TResource, _previousStatus: TResource['status'] | undefined) => void
+}
+
+/**
+ * ステータスが目的の値になるまで取得を繰り返す
+ *
+ * @internal
+ * @param fetchResource - リソースを取得する関数（中断用の `signal` を受け取る）
+ * @param resourceId - エラーメッセージ用のリソースID
+ * @param targetStatuses - 目的のステータス（いずれかに到達すると終了）
+ * @param options - 待機オプション
+ * @param isUnreachable - 目的のステータスに到達できなくなったかを判定する関数
+ * @returns 目的のステータスに到達したリソース
+ *
+ * @throws {RangeError} 待機オプションが不正な場合
+ * @throws {WaitForStatusError} タイムアウト、または目的のステータスに到達できなくなった場合
+ */
+export async function pollUntilStatus<
+  TStatus extends string,
+  TResource extends { status?: TStatus | undefined },
+>(
+  fetchResource: (_signal: AbortSignal | undefined) => Promise<TResource>,
+  resourceId: string,
+  targetStatuses: readonly TStatus[],
+  options: WaitForStatusOptions<TResource>,
+  isUnreachable?: (_status: TStatus) => boolean,
+): Promise<TResource> {
+  const {
+    interval = 5000,
+    maxInterval = 60000,
+    backoffFactor = 2,
+    timeout,
+    signal,
+    onStatusChange,
+  } = options
+
+  if (targetStatuses.length === 0) {
+    throw new RangeError('targetStatuses must not be empty')
+  }
+  if (!(interval > 0) || !(maxInterval >= interval) || !(backoffFactor >= 1)) {
+    throw new RangeError(
+      `invalid polling options: interval=${interval}, maxInterval=${maxInterval}, backoffFactor=${backoffFactor}`,
+    )
+  }
+  if (timeout !== undefined && !(timeout >= 0)) {
+    throw new RangeError(`timeout must be a non-negative number: ${timeout}`)
+  }
+
+  const deadline = timeout === undefined ? Infinity : Date.now() + timeout
+  let delay = interval
+  let observed = false
+  let previousStatus: TStatus | undefined
+
+  for (;;) {
+    signal?.throwIfAborted()
+    const resource = await fetchResource(signal).catch((error: unknown) => {
+      // 中断によるリクエストの失敗はsignalのreasonでrejectする
+      signal?.throwIfAborted()
+      throw error
+    })
+    const { status } = resource
+
+    if (!observed || status !== previousStatus) {
+      onStatusChange?.(resource, previousStatus)
+      observed = true
+      previousStatus = status
+      delay = interval
+    }
+
+    if (status !== undefined && targetStatuses.includes(status)) {
+      return resource
+    }
+    if (status !== undefined && isUnreachable?.(status)) {
+      throw new WaitForStatusError('unreachable', resourceId, status, targetStatuses)
+    }
+
+    const remaining = deadline - Date.now()
+    if (remaining <= 0) {
+      throw new WaitForStatusError('timeout', resourceId, status, targetStatuses)
+    }
+    await sleep(Math.min(delay, remaining), signal)
+    delay = Math.min(delay * backoffFactor, maxInterval)
+  }
+}
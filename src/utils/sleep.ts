@@ -0,0 +1,36 @@
+/**
+ * 待機ユーティリティ
+ *
+ * @packageDocumentation
+ */
+
+/**
+ * 指定ミリ秒待機する
+ * AbortSignalが中断された場合は、その理由（reason）でrejectする
+ *
+ * @param ms - 待機時間（ミリ秒）
+ * @param signal - 中断用のAbortSignal
+ *
+ * @example
+ * ```typescript
+ * await sleep(1000)
+ * ```
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason)
+      return
+    }
+
+    const onAbort = (): void => {
+      clearTimeout(timer)
+      reject(signal?.reason)
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
@@ -0,0 +1,28 @@
+/**
+ * OpenLogi API SDK Webhookリレー
+ *
+ * `openlogi-api-sdk/webhooks` としてインポートできます（Node.js専用）。
+ *
+ * @packageDocumentation
+ */
+
+export {
+  WebhookRelay,
+  type WebhookDeadLetter,
+  type WebhookEndpoint,
+  type WebhookEvent,
+  type WebhookEventType,
+  type WebhookPollResult,
+  type WebhookRelayOptions,
+  type WebhookRelayState,
+} from './relay.js'
+export { createWebhookRelayServer, type WebhookRelayServerOptions } from './server.js'
+export {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+  type VerifyWebhookSignatureParams,
+} from './signature.js'
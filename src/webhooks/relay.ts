@@ -0,0 +1,500 @@
+/**
+ * Webhookリレー
+ * 出荷実績・入荷実績をポーリングして新しい実績を検出し、署名付きのWebhookとして送信する
+ *
+ * @packageDocumentation
+ */
+
+import { appendFile } from 'node:fs/promises'
+import { type OpenLogiClient } from '../client.js'
+import { getShippedShipmentByDate } from '../resources/shipments.js'
+import { getStockedWarehousingByDate } from '../resources/warehousings.js'
+import { MemorySnapshotStorage, type SnapshotStorage } from '../storage.js'
+import { type ShipmentResponse } from '../types/shipments.js'
+import { type WarehousingDetailResponse } from '../types/warehousings.js'
+import { formatDateString, splitDateParts } from '../utils/date.js'
+import { sleep } from '../utils/sleep.js'
+import {
+  signWebhookPayload,
+  WEBHOOK_DELIVERY_HEADER,
+  WEBHOOK_EVENT_HEADER,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './signature.js'
+
+/**
+ * Webhookイベントの種別
+ * - shipment.shipped: 出荷実績（`getShippedShipmentByDate`）に新しい出荷依頼が追加された
+ * - warehousing.stocked: 入荷実績（`getStockedWarehousingByDate`）に新しい入荷依頼が追加された
+ */
+export type WebhookEventType = 'shipment.shipped' | 'warehousing.stocked'
+
+/**
+ * Webhookで送信するイベント（リクエストボディ）
+ */
+export type WebhookEvent =
+  | {
+      /** イベントID（`<種別>:<リソースID>`、再送時も同じ値） */
+      id: string
+      type: 'shipment.shipped'
+      /** イベントを検出した日時（ISO 8601） */
+      created_at: string
+      data: ShipmentResponse
+    }
+  | {
+      /** イベントID（`<種別>:<リソースID>`、再送時も同じ値） */
+      id: string
+      type: 'warehousing.stocked'
+      /** イベントを検出した日時（ISO 8601） */
+      created_at: string
+      data: WarehousingDetailResponse
+    }
+
+/**
+ * Webhookの送信先
+ */
+export interface WebhookEndpoint {
+  /** 送信先URL */
+  url: string
+  /**
+   * 送信するイベントの種別
+   * 未指定の場合はすべてのイベントを送信する
+   */
+  events?: readonly WebhookEventType[]
+}
+
+/**
+ * 送信に失敗したイベント（デッドレター）
+ */
+export interface WebhookDeadLetter {
+  /** 送信できなかったイベント */
+  event: WebhookEvent
+  /** 送信先URL */
+  url: string
+  /** 送信を試行した回数 */
+  attempts: number
+  /** 最後のエラー内容 */
+  error: string
+  /** 送信を断念した日時（ISO 8601） */
+  failed_at: string
+}
+
+/**
+ * WebhookRelayが永続化する状態
+ */
+export interface WebhookRelayState {
+  /** 最後に実績を取得した日付（YYYY-MM-DD、次回はこの日から取得する） */
+  lastDate: string
+  /**
+   * 種別ごとの検出済みリソースIDと検出日時（ISO 8601）
+   * 取得した日付の実績に含まれなくなったIDは削除する
+   */
+  seen: Record<WebhookEventType, Record<string, string>>
+}
+
+/**
+ * 1回のポーリング結果
+ */
+export interface WebhookPollResult {
+  /** 新しく検出したイベント */
+  events: WebhookEvent[]
+  /** 送信に失敗したイベント */
+  deadLetters: WebhookDeadLetter[]
+}
+
+/**
+ * WebhookRelayの設定
+ */
+export interface WebhookRelayOptions {
+  /** 署名用のシークレット */
+  secret: string
+
+  /** 送信先（URLのみの場合はすべてのイベントを送信） */
+  endpoints: ReadonlyArray<string | WebhookEndpoint>
+
+  /**
+   * 検出するイベントの種別
+   * @default ['shipment.shipped', 'warehousing.stocked']
+   */
+  events?: readonly WebhookEventType[]
+
+  /**
+   * 保存済みの状態がない初回のポーリングで実績を取得する期間（今日を含む過去の日数）
+   * 2回目以降は前回取得した日付から今日まで1日ずつ取得する
+   * @default 7
+   */
+  lookbackDays?: number
+
+  /**
+   * 状態の保存先
+   * 再起動後に重複して送信しないよう、永続的な保存先を指定してください
+   * @default new MemorySnapshotStorage()
+   */
+  storage?: SnapshotStorage<WebhookRelayState>
+
+  /**
+   * 保存済みの状態がない初回のポーリングで、既存の実績も送信するか
+   * falseの場合は既存の実績を検出済みとして記録するのみ
+   * @default false
+   */
+  deliverExisting?: boolean
+
+  /**
+   * 送信失敗時の再試行回数
+   * @default 3
+   */
+  retries?: number
+
+  /**
+   * 再試行までの待機時間（ミリ秒）
+   * @default (attempt) => 1000 * 2 ** (attempt - 1)
+   */
+  retryDelay?: (_attempt: number) => number
+
+  /**
+   * 1回の送信のタイムアウト（ミリ秒）
+   * @default 10000
+   */
+  timeout?: number
+
+  /**
+   * デッドレターを追記するファイル（JSON Lines形式）
+   */
+  deadLetterPath?: string
+
+  /**
+   * 送信に失敗したイベントごとに呼び出されるコールバック
+   */
+  onDeadLetter?: (_deadLetter: WebhookDeadLetter) => void | Promise<void>
+
+  /**
+   * start()で定期実行する間隔（ミリ秒）
+   * @default 60000
+   */
+  interval?: number
+
+  /**
+   * start()による定期実行中のエラーを受け取るコールバック
+   */
+  onError?: (_error: unknown) => void
+
+  /**
+   * 送信に使用するfetch
+   * @default globalThis.fetch
+   */
+  fetch?: typeof globalThis.fetch
+}
+
+const ALL_EVENT_TYPES: readonly WebhookEventType[] = ['shipment.shipped', 'warehousing.stocked']
+
+/**
+ * 出荷実績・入荷実績の新着をWebhookとして送信する
+ *
+ * ポーリングのたびに前回取得した日付から今日までの実績を日付指定APIで1日ずつ取得し、未検出のIDを
+ * イベントとして各送信先にPOSTします（初回は過去 `lookbackDays` 日分）。
+ * 日付はローカルタイムゾーンの年月日として扱います。
+ * リクエストには `x-openlogi-signature`（HMAC-SHA256）ヘッダーが付与され、受信側は
+ * `verifyWebhookSignature` で検証できます。
+ * 再試行しても送信できなかったイベントはデッドレターとして記録し、再送はしません。
+ *
+ * @example
+ * ```typescript
+ * import { JsonFileSnapshotStorage } from 'openlogi-api-sdk'
+ * import { WebhookRelay } from 'openlogi-api-sdk/webhooks'
+ *
+ * const relay = new WebhookRelay(client, {
+ *   secret: process.env.WEBHOOK_SECRET,
+ *   endpoints: [
+ *     'https://orders.example.com/webhooks/openlogi',
+ *     { url: 'https://wms.example.com/hooks', events: ['warehousing.stocked'] },
+ *   ],
+ *   storage: new JsonFileSnapshotStorage('./webhook-relay.json'),
+ *   deadLetterPath: './webhook-dead-letters.jsonl',
+ *   onError: (error) => console.error(error),
+ * })
+ * relay.start()
+ * ```
+ */
+export class WebhookRelay {
+  /**
+   * 最後にポーリングが成功した日時
+   */
+  lastPolledAt: Date | undefined
+
+  /**
+   * 最後のポーリングで発生したエラー（成功した場合はundefined）
+   */
+  lastError: unknown
+
+  private readonly client: OpenLogiClient
+  private readonly secret: string
+  private readonly endpoints: WebhookEndpoint[]
+  private readonly eventTypes: readonly WebhookEventType[]
+  private readonly lookbackDays: number
+  private readonly storage: SnapshotStorage<WebhookRelayState>
+  private readonly deliverExisting: boolean
+  private readonly retries: number
+  private readonly retryDelay: (_attempt: number) => number
+  private readonly timeout: number
+  private readonly deadLetterPath: string | undefined
+  private readonly onDeadLetter: WebhookRelayOptions['onDeadLetter']
+  private readonly interval: number
+  private readonly onError: WebhookRelayOptions['onError']
+  private readonly fetch: typeof globalThis.fetch
+  private polling: Promise<WebhookPollResult> | undefined
+  private timer: ReturnType<typeof setTimeout> | undefined
+  private running = false
+
+  constructor(client: OpenLogiClient, options: WebhookRelayOptions) {
+    const { lookbackDays = 7, retries = 3, timeout = 10000, interval = 60000 } = options
+    if (!Number.isInteger(lookbackDays) || lookbackDays < 1) {
+      throw new RangeError(`lookbackDays must be a positive integer, got ${lookbackDays}`)
+    }
+    if (!Number.isInteger(retries) || retries < 0) {
+      throw new RangeError(`retries must be a non-negative integer, got ${retries}`)
+    }
+    if (!(interval > 0)) {
+      throw new RangeError(`interval must be positive, got ${interval}`)
+    }
+
+    this.client = client
+    this.secret = options.secret
+    this.endpoints = options.endpoints.map((endpoint) =>
+      typeof endpoint === 'string' ? { url: endpoint } : endpoint,
+    )
+    this.eventTypes = options.events ?? ALL_EVENT_TYPES
+    this.lookbackDays = lookbackDays
+    this.storage = options.storage ?? new MemorySnapshotStorage<WebhookRelayState>()
+    this.deliverExisting = options.deliverExisting ?? false
+    this.retries = retries
+    this.retryDelay = options.retryDelay ?? ((attempt) => 1000 * 2 ** (attempt - 1))
+    this.timeout = timeout
+    this.deadLetterPath = options.deadLetterPath
+    this.onDeadLetter = options.onDeadLetter
+    this.interval = interval
+    this.onError = options.onError
+    this.fetch = options.fetch ?? globalThis.fetch
+  }
+
+  /**
+   * 実績を取得し、新しいイベントを送信する
+   * 実行中に呼び出された場合は、実行中の処理の完了を待ちます
+   *
+   * @returns 検出したイベントと送信に失敗したイベント
+   * @throws {OpenLogiError} 実績の取得に失敗した場合
+   */
+  poll(): Promise<WebhookPollResult> {
+    this.polling ??= this.runPoll().then(
+      (result) => {
+        this.polling = undefined
+        this.lastPolledAt = new Date()
+        this.lastError = undefined
+        return result
+      },
+      (error: unknown) => {
+        this.polling = undefined
+        this.lastError = error
+        throw error
+      },
+    )
+    return this.polling
+  }
+
+  /**
+   * `interval` ごとの定期実行を開始する
+   * 実行中のエラーは `onError` に渡し、定期実行は継続します
+   */
+  start(): void {
+    if (this.running) {
+      return
+    }
+    this.running = true
+    this.schedule(0)
+  }
+
+  /**
+   * 定期実行を停止する（実行中のpoll()は中断しない）
+   */
+  stop(): void {
+    this.running = false
+    clearTimeout(this.timer)
+    this.timer = undefined
+  }
+
+  private schedule(delay: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = undefined
+      this.poll()
+        .catch((error: unknown) => this.onError?.(error))
+        .finally(() => {
+          // 実行中にstop()→start()された場合は、start()側でスケジュール済み
+          if (this.running && this.timer === undefined) {
+            this.schedule(this.interval)
+          }
+        })
+    }, delay)
+  }
+
+  private async runPoll(): Promise<WebhookPollResult> {
+    const stored = await this.storage.load()
+    const now = new Date()
+    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate())
+    const state: WebhookRelayState = stored ?? {
+      lastDate: formatDateString(
+        new Date(today.getFullYear(), today.getMonth(), today.getDate() - (this.lookbackDays - 1)),
+      ),
+      seen: { 'shipment.shipped': {}, 'warehousing.stocked': {} },
+    }
+    const deliver = stored !== undefined || this.deliverExisting
+
+    const from = new Date(`${state.lastDate}T00:00:00`)
+    const fetched = await this.fetchEvents(from < today ? from : today, today, now)
+    const events: WebhookEvent[] = []
+    const deadLetters: WebhookDeadLetter[] = []
+
+    for (const event of fetched) {
+      const seen = state.seen[event.type]
+      const resourceId = event.data.id
+      if (resourceId in seen) {
+        continue
+      }
+
+      if (deliver) {
+        events.push(event)
+        deadLetters.push(...(await this.deliver(event)))
+      }
+      seen[resourceId] = now.toISOString()
+      await this.storage.save(state)
+    }
+
+    // 次回は今日から取得するため、今回の取得結果に含まれないIDは以降も返されない
+    state.lastDate = formatDateString(today)
+    this.prune(state, fetched)
+    await this.storage.save(state)
+    return { events, deadLetters }
+  }
+
+  /**
+   * 期間の実績を1日ずつ取得し、イベントに変換する
+   */
+  private async fetchEvents(from: Date, to: Date, now: Date): Promise<WebhookEvent[]> {
+    const createdAt = now.toISOString()
+    const events: WebhookEvent[] = []
+
+    for (const { year, month, day } of splitDateParts({ from, to })) {
+      if (this.eventTypes.includes('shipment.shipped')) {
+        const { shipments } = await getShippedShipmentByDate(this.client, year, month, day, {
+          cache: false,
+        })
+        for (const shipment of shipments) {
+          events.push({
+            id: `shipment.shipped:${shipment.id}`,
+            type: 'shipment.shipped',
+            created_at: createdAt,
+            data: shipment,
+          })
+        }
+      }
+      if (this.eventTypes.includes('warehousing.stocked')) {
+        const { warehousings } = await getStockedWarehousingByDate(this.client, year, month, day, {
+          cache: false,
+        })
+        for (const warehousing of warehousings) {
+          events.push({
+            id: `warehousing.stocked:${warehousing.id}`,
+            type: 'warehousing.stocked',
+            created_at: createdAt,
+            data: warehousing,
+          })
+        }
+      }
+    }
+    return events
+  }
+
+  /**
+   * 取得した種別について、取得結果に含まれなかったIDを削除する
+   */
+  private prune(state: WebhookRelayState, fetched: readonly WebhookEvent[]): void {
+    for (const type of this.eventTypes) {
+      const returned = new Set(
+        fetched.filter((event) => event.type === type).map((event) => event.data.id),
+      )
+      const seen = state.seen[type]
+      for (const id of Object.keys(seen)) {
+        if (!returned.has(id)) {
+          delete seen[id]
+        }
+      }
+    }
+  }
+
+  /**
+   * イベントを対象の送信先すべてに送信し、失敗した送信先のデッドレターを返す
+   */
+  private async deliver(event: WebhookEvent): Promise<WebhookDeadLetter[]> {
+    const body = JSON.stringify(event)
+    const deadLetters: WebhookDeadLetter[] = []
+
+    for (const endpoint of this.endpoints) {
+      if (endpoint.events && !endpoint.events.includes(event.type)) {
+        continue
+      }
+
+      let attempts = 0
+      let delivered = false
+      let lastError: unknown
+      while (!delivered && attempts <= this.retries) {
+        attempts++
+        try {
+          await this.send(endpoint.url, event, body)
+          delivered = true
+        } catch (error) {
+          lastError = error
+          if (attempts <= this.retries) {
+            await sleep(this.retryDelay(attempts))
+          }
+        }
+      }
+
+      if (!delivered) {
+        const deadLetter: WebhookDeadLetter = {
+          event,
+          url: endpoint.url,
+          attempts,
+          error: lastError instanceof Error ? lastError.message : String(lastError),
+          failed_at: new Date().toISOString(),
+        }
+        deadLetters.push(deadLetter)
+        if (this.deadLetterPath !== undefined) {
+          await appendFile(this.deadLetterPath, `${JSON.stringify(deadLetter)}\n`, 'utf8')
+        }
+        await this.onDeadLetter?.(deadLetter)
+      }
+    }
+
+    return deadLetters
+  }
+
+  /**
+   * 署名付きでイベントをPOSTする（2xx以外はエラー）
+   */
+  private async send(url: string, event: WebhookEvent, body: string): Promise<void> {
+    const timestamp = Math.floor(Date.now() / 1000)
+    const response = await this.fetch(url, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        [WEBHOOK_SIGNATURE_HEADER]: signWebhookPayload(this.secret, timestamp, body),
+        [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+        [WEBHOOK_EVENT_HEADER]: event.type,
+        [WEBHOOK_DELIVERY_HEADER]: event.id,
+      },
+      body,
+      signal: AbortSignal.timeout(this.timeout),
+    })
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`)
+    }
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * WebhookRelayの管理用HTTPサーバー
+ *
+ * @packageDocumentation
+ */
+
+import { Buffer } from 'node:buffer'
+import { timingSafeEqual } from 'node:crypto'
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import { type WebhookRelay } from './relay.js'
+
+/**
+ * 管理用HTTPサーバーの設定
+ */
+export interface WebhookRelayServerOptions {
+  /**
+   * `POST /poll` に必要なトークン（`Authorization: Bearer <token>` で指定）
+   * 未指定の場合は `POST /poll` を提供しない
+   */
+  pollToken?: string | undefined
+}
+
+/**
+ * JSONレスポンスを返す
+ */
+function sendJson(response: ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'content-type': 'application/json' })
+  response.end(JSON.stringify(body))
+}
+
+/**
+ * リクエストのBearerトークンが一致するかどうか
+ */
+function isAuthorized(request: IncomingMessage, token: string): boolean {
+  const expected = Buffer.from(`Bearer ${token}`)
+  const actual = Buffer.from(request.headers.authorization ?? '')
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
+
+/**
+ * WebhookRelayの管理用HTTPサーバーを作成
+ *
+ * 以下のエンドポイントを提供します（listenは呼び出し側で行います）。
+ * - `GET /health`: 最後のポーリング日時とエラーを返す（直前のポーリングが失敗した場合は503）
+ * - `POST /poll`: すぐにポーリングを実行し、検出したイベント数と送信に失敗した数を返す
+ *   （`pollToken` を指定した場合のみ。トークンが一致しない場合は401）
+ *
+ * `/health` は認証なしでエラー内容を返すため、公開されたネットワークには公開しないでください。
+ *
+ * @param relay - WebhookRelay
+ * @param options - 管理用HTTPサーバーの設定
+ * @returns Node.jsのHTTPサーバー
+ *
+ * @example
+ * ```typescript
+ * const relay = new WebhookRelay(client, { secret, endpoints })
+ * relay.start()
+ * createWebhookRelayServer(relay, { pollToken: process.env.RELAY_POLL_TOKEN }).listen(
+ *   8787,
+ *   '127.0.0.1',
+ * )
+ * ```
+ */
+export function createWebhookRelayServer(
+  relay: WebhookRelay,
+  options: WebhookRelayServerOptions = {},
+): Server {
+  const { pollToken } = options
+
+  return createServer((request, response) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost')
+
+    if (request.method === 'GET' && pathname === '/health') {
+      const healthy = relay.lastError === undefined
+      sendJson(response, healthy ? 200 : 503, {
+        status: healthy ? 'ok' : 'error',
+        last_polled_at: relay.lastPolledAt?.toISOString() ?? null,
+        error: healthy ? null : String(relay.lastError),
+      })
+      return
+    }
+
+    if (request.method === 'POST' && pathname === '/poll' && pollToken !== undefined) {
+      if (!isAuthorized(request, pollToken)) {
+        sendJson(response, 401, { error: 'Unauthorized' })
+        return
+      }
+      relay.poll().then(
+        ({ events, deadLetters }) =>
+          sendJson(response, 200, { events: events.length, dead_letters: deadLetters.length }),
+        (error: unknown) => sendJson(response, 502, { error: String(error) }),
+      )
+      return
+    }
+
+    sendJson(response, 404, { error: 'Not Found' })
+  })
+}
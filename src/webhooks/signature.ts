@@ -0,0 +1,123 @@
+/**
+ * Webhookペイロードの署名（HMAC-SHA256）
+ *
+ * @packageDocumentation
+ */
+
+import { Buffer } from 'node:buffer'
+import { createHmac, timingSafeEqual } from 'node:crypto'
+
+/**
+ * 署名を設定するヘッダー（`sha256=<hex>`）
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'x-openlogi-signature'
+
+/**
+ * 署名に使用したタイムスタンプ（UNIX秒）を設定するヘッダー
+ */
+export const WEBHOOK_TIMESTAMP_HEADER = 'x-openlogi-timestamp'
+
+/**
+ * イベント種別を設定するヘッダー
+ */
+export const WEBHOOK_EVENT_HEADER = 'x-openlogi-event'
+
+/**
+ * イベントIDを設定するヘッダー（再送時も同じ値）
+ */
+export const WEBHOOK_DELIVERY_HEADER = 'x-openlogi-delivery'
+
+/**
+ * Webhookペイロードに署名する
+ *
+ * `${timestamp}.${body}` のHMAC-SHA256を16進数で返します。
+ *
+ * @param secret - 署名用のシークレット
+ * @param timestamp - タイムスタンプ（UNIX秒）
+ * @param body - リクエストボディ（JSON文字列）
+ * @returns `sha256=<hex>` 形式の署名
+ *
+ * @example
+ * ```typescript
+ * const signature = signWebhookPayload(secret, Math.floor(Date.now() / 1000), body)
+ * ```
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+  return `sha256=${digest}`
+}
+
+/**
+ * Webhook署名の検証パラメータ
+ */
+export interface VerifyWebhookSignatureParams {
+  /** 署名用のシークレット */
+  secret: string
+  /** 受信したリクエストボディ（パース前の文字列） */
+  body: string
+  /**
+   * `x-openlogi-signature` ヘッダーの値
+   * Node.jsの `req.headers` の値（配列）もそのまま渡せる（値が1つでない場合は拒否する）
+   */
+  signature: string | readonly string[] | null | undefined
+  /** `x-openlogi-timestamp` ヘッダーの値（`signature` と同様に配列も渡せる） */
+  timestamp: string | readonly string[] | null | undefined
+  /**
+   * 許容する時刻のずれ（秒）
+   * リプレイ攻撃を防ぐため、これより古い（新しい）タイムスタンプは拒否する
+   * @default 300
+   */
+  tolerance?: number
+  /**
+   * 現在時刻
+   * @default new Date()
+   */
+  now?: Date
+}
+
+/**
+ * ヘッダーの値を1つの文字列にする
+ * 同じヘッダーが複数ある場合は、どの値を検証すべきか判断できないためundefinedを返す
+ */
+function singleHeaderValue(
+  value: string | readonly string[] | null | undefined,
+): string | undefined {
+  if (typeof value === 'string') {
+    return value
+  }
+  return value?.length === 1 ? value[0] : undefined
+}
+
+/**
+ * 受信したWebhookの署名を検証する
+ *
+ * @param params - 検証パラメータ
+ * @returns 署名が正しく、タイムスタンプが許容範囲内の場合はtrue
+ *
+ * @example
+ * ```typescript
+ * const valid = verifyWebhookSignature({
+ *   secret: config.webhookSecret,
+ *   body: rawBody,
+ *   signature: req.headers['x-openlogi-signature'],
+ *   timestamp: req.headers['x-openlogi-timestamp'],
+ * })
+ * ```
+ */
+export function verifyWebhookSignature(params: VerifyWebhookSignatureParams): boolean {
+  const { secret, body, tolerance = 300, now = new Date() } = params
+  const signature = singleHeaderValue(params.signature)
+  const timestamp = singleHeaderValue(params.timestamp)
+  if (!signature || !timestamp || !/^\d+$/.test(timestamp)) {
+    return false
+  }
+
+  const seconds = Number(timestamp)
+  if (Math.abs(now.getTime() / 1000 - seconds) > tolerance) {
+    return false
+  }
+
+  const expected = Buffer.from(signWebhookPayload(secret, seconds, body))
+  const actual = Buffer.from(signature)
+  return expected.length === actual.length && timingSafeEqual(expected, actual)
+}
@@ -0,0 +1,183 @@
+/**
+ * 国内住所の正規化のテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  CreateShipmentRequestSchema,
+  normalizeDomesticAddress,
+  normalizeShipmentAddresses,
+} from '../../src/index.js'
+
+describe('normalizeDomesticAddress', () => {
+  it('郵便番号・都道府県・住所・電話番号を正規化する', () => {
+    const { value, issues } = normalizeDomesticAddress({
+      postcode: '〒１７０－００１３',
+      prefecture: '東京',
+      address1: ' 豊島区東池袋１ー１ー１ ',
+      name: '山田太郎',
+      phone: '０３ー１２３４ー５６７８',
+    })
+
+    expect(issues).toEqual([])
+    expect(value).toEqual({
+      postcode: '1700013',
+      prefecture: '東京都',
+      address1: '豊島区東池袋1-1-1',
+      address2: undefined,
+      name: '山田太郎',
+      phone: '03-1234-5678',
+    })
+  })
+
+  it('都道府県が空の場合は住所1の先頭から取り出し、重複する都道府県名を除去する', () => {
+    expect(
+      normalizeDomesticAddress({ prefecture: '', address1: '大阪府大阪市北区梅田1-1' }).value,
+    ).toMatchObject({ prefecture: '大阪府', address1: '大阪市北区梅田1-1' })
+    expect(
+      normalizeDomesticAddress({ prefecture: '大阪', address1: '大阪府大阪市北区梅田1-1' }).value,
+    ).toMatchObject({ prefecture: '大阪府', address1: '大阪市北区梅田1-1' })
+  })
+
+  it('長すぎる住所1を空白の位置で住所2に分割する', () => {
+    const { value, issues } = normalizeDomesticAddress({
+      prefecture: '東京都',
+      address1: '豊島区東池袋１ー１ー１ サンシャインシティ ワールドインポートマートビル９階',
+      address2: '受付',
+    })
+
+    expect(issues).toEqual([])
+    expect(value.address1).toBe('豊島区東池袋1-1-1 サンシャインシティ')
+    expect(value.address2).toBe('ワールドインポートマートビル9階 受付')
+  })
+
+  it('空白がない場合は最大文字数の位置で分割する', () => {
+    const { value } = normalizeDomesticAddress(
+      { prefecture: '東京都', address1: 'あいうえおかきくけこ' },
+      { addressLineLength: 4 },
+    )
+
+    expect(value.address1).toBe('あいうえ')
+    expect(value.address2).toBe('おかきくけこ')
+  })
+
+  it('補正できない問題をissuesに返す', () => {
+    const { issues } = normalizeDomesticAddress(
+      {
+        postcode: '170-001',
+        prefecture: 'トウキョウ',
+        address1: 'あ'.repeat(40),
+        address2: 'い'.repeat(30),
+        name: 'ヤマダ タロウ サンシャイン商事',
+        company: '株式会社サンシャインシティ総合企画部',
+      },
+      {},
+      ['recipient'],
+    )
+
+    expect(issues.map(({ path, code }) => ({ path, code }))).toEqual([
+      { path: ['recipient', 'postcode'], code: 'invalid_postcode' },
+      { path: ['recipient', 'prefecture'], code: 'unknown_prefecture' },
+      { path: ['recipient', 'address2'], code: 'address_too_long' },
+      { path: ['recipient', 'name'], code: 'name_too_long' },
+      { path: ['recipient', 'company'], code: 'company_too_long' },
+    ])
+  })
+})
+
+describe('normalizeShipmentAddresses', () => {
+  it('国内配送の受取人・送り主を正規化し、スキーマの検証に通る値にする', () => {
+    const { value, issues } = normalizeShipmentAddresses({
+      order_no: 'ORDER-001',
+      recipient: {
+        postcode: '１７０ー００１３',
+        prefecture: '東京',
+        address1: '豊島区東池袋１－１－１',
+        name: '山田太郎',
+      },
+      sender: {
+        postcode: '530-0001',
+        prefecture: '大坂',
+        address1: '大阪市北区梅田１－１',
+        name: '株式会社サンプル',
+      },
+      items: [{ code: 'ITEM-001', quantity: 1 }],
+    })
+
+    expect(issues).toEqual([])
+    expect(value.recipient).toMatchObject({ postcode: '1700013', prefecture: '東京都' })
+    expect(value.sender).toMatchObject({ postcode: '5300001', prefecture: '大阪府' })
+    expect(CreateShipmentRequestSchema.safeParse(value).success).toBe(true)
+  })
+
+  it('国際配送の出荷依頼はそのまま返す', () => {
+    const data = {
+      order_no: 'INT-001',
+      international: true,
+      recipient: { region_code: 'US', postcode: '94105', city: 'SF', address: '1 Market St' },
+      items: [{ code: 'ITEM-001', quantity: 1 }],
+    }
+
+    expect(normalizeShipmentAddresses(data)).toEqual({ value: data, issues: [] })
+  })
+})
+
+describe('郵便番号と都道府県の照合（checkPostcode）', () => {
+  it('都道府県が空の場合は郵便番号から補完する', () => {
+    const { value, issues } = normalizeDomesticAddress(
+      { postcode: '530-0001', prefecture: '', address1: '北区梅田1-1' },
+      { checkPostcode: true },
+    )
+
+    expect(issues).toEqual([])
+    expect(value.prefecture).toBe('大阪府')
+  })
+
+  it('郵便番号と都道府県が一致しない場合はissuesに返す', () => {
+    const data = { postcode: '1700013', prefecture: '大阪府', address1: '豊島区東池袋1-1' }
+
+    expect(normalizeDomesticAddress(data).issues).toEqual([])
+    expect(normalizeDomesticAddress(data, { checkPostcode: true }).issues).toEqual([
+      {
+        path: ['prefecture'],
+        message: '郵便番号1700013の都道府県（東京都）と一致しません（大阪府）',
+        code: 'postcode_mismatch',
+      },
+    ])
+  })
+
+  it('区域が都道府県の境界をまたぐ郵便番号は候補のいずれかと一致すればよい', () => {
+    const options = { checkPostcode: true }
+
+    expect(
+      normalizeDomesticAddress(
+        { postcode: '498-0000', prefecture: '三重県', address1: '桑名郡木曽岬町相川1-1' },
+        options,
+      ).issues,
+    ).toEqual([])
+    expect(
+      normalizeDomesticAddress(
+        { postcode: '618-0011', prefecture: '大阪府', address1: '三島郡島本町広瀬1-1' },
+        options,
+      ).issues,
+    ).toEqual([])
+    expect(
+      normalizeDomesticAddress(
+        { postcode: '498-0000', prefecture: '岐阜県', address1: '桑名郡木曽岬町相川1-1' },
+        options,
+      ).issues,
+    ).toMatchObject([
+      { message: '郵便番号4980000の都道府県（愛知県・三重県）と一致しません（岐阜県）' },
+    ])
+  })
+
+  it('区域が都道府県の境界をまたぐ郵便番号では都道府県を補完しない', () => {
+    const { value, issues } = normalizeDomesticAddress(
+      { postcode: '498-0000', prefecture: '', address1: '桑名郡木曽岬町相川1-1' },
+      { checkPostcode: true },
+    )
+
+    expect(value.prefecture).toBe('')
+    expect(issues).toMatchObject([{ code: 'unknown_prefecture' }])
+  })
+})
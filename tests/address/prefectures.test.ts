@@ -0,0 +1,43 @@
+/**
+ * 都道府県のテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { PREFECTURES, isPrefecture, normalizePrefecture, splitPrefecture } from '../../src/index.js'
+
+describe('PREFECTURES', () => {
+  it('47都道府県を含む', () => {
+    expect(PREFECTURES).toHaveLength(47)
+    expect(new Set(PREFECTURES).size).toBe(47)
+    expect(isPrefecture('東京都')).toBe(true)
+    expect(isPrefecture('東京')).toBe(false)
+  })
+})
+
+describe('normalizePrefecture', () => {
+  it('都道府県の省略・誤りと、よくある誤記を補正する', () => {
+    expect(normalizePrefecture('東京都')).toBe('東京都')
+    expect(normalizePrefecture(' 東京 ')).toBe('東京都')
+    expect(normalizePrefecture('東京県')).toBe('東京都')
+    expect(normalizePrefecture('京都')).toBe('京都府')
+    expect(normalizePrefecture('北海')).toBe('北海道')
+    expect(normalizePrefecture('大坂府')).toBe('大阪府')
+    expect(normalizePrefecture('茨木県')).toBe('茨城県')
+  })
+
+  it('判定できない場合はundefinedを返す', () => {
+    expect(normalizePrefecture('トウキョウ')).toBeUndefined()
+    expect(normalizePrefecture('')).toBeUndefined()
+    expect(normalizePrefecture('京')).toBeUndefined()
+  })
+})
+
+describe('splitPrefecture', () => {
+  it('住所の先頭の都道府県名を取り出す', () => {
+    expect(splitPrefecture('神奈川県横浜市西区1-1')).toEqual({
+      prefecture: '神奈川県',
+      rest: '横浜市西区1-1',
+    })
+    expect(splitPrefecture('横浜市西区1-1')).toBeUndefined()
+  })
+})
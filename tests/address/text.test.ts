@@ -0,0 +1,39 @@
+/**
+ * 住所文字列の正規化のテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { normalizePhone, normalizePostcode, toHalfWidth } from '../../src/index.js'
+
+describe('toHalfWidth', () => {
+  it('全角英数字とスペースを半角に変換する', () => {
+    expect(toHalfWidth('ＡＢＣ１２３　ビル')).toBe('ABC123 ビル')
+  })
+
+  it('英数字に挟まれたハイフンの異体字のみを-に統一する', () => {
+    expect(toHalfWidth('東池袋１ー２－３‐４−５')).toBe('東池袋1-2-3-4-5')
+    expect(toHalfWidth('センター1ー2')).toBe('センター1-2')
+  })
+})
+
+describe('normalizePostcode', () => {
+  it('半角数字7桁に正規化する', () => {
+    expect(normalizePostcode('170-0013')).toBe('1700013')
+    expect(normalizePostcode('〒１７０－００１３')).toBe('1700013')
+    expect(normalizePostcode(' 170 0013 ')).toBe('1700013')
+  })
+
+  it('7桁の数字でない場合はundefinedを返す', () => {
+    expect(normalizePostcode('170-001')).toBeUndefined()
+    expect(normalizePostcode('170-00134')).toBeUndefined()
+    expect(normalizePostcode('ABC-DEFG')).toBeUndefined()
+  })
+})
+
+describe('normalizePhone', () => {
+  it('半角数字とハイフンに正規化する', () => {
+    expect(normalizePhone('０３（１２３４）５６７８')).toBe('03-1234-5678')
+    expect(normalizePhone('(03) 1234-5678')).toBe('03-1234-5678')
+    expect(normalizePhone('090ー1234ー5678')).toBe('090-1234-5678')
+  })
+})
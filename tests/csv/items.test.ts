@@ -0,0 +1,138 @@
+/**
+ * 商品CSVインポートのテスト
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../setup'
+import {
+  createClient,
+  parseItemsCsv,
+  importItemsCsv,
+  type OpenLogiClient,
+} from '../../src/index.js'
+
+const BASE_URL = 'http://localhost:8080/api'
+
+describe('parseItemsCsv', () => {
+  it('各列を商品作成リクエストのフィールドに変換する', () => {
+    const csv = [
+      'code,name,price,is_reduced_tax,international_info.invoice_summary,international_info.origin,child_items,tags,fifo',
+      'SET-001,セット商品,1200,TRUE,Cotton T-shirt,JP,ITEM-A:2;ITEM-B,新商品;セール,0',
+    ].join('\n')
+
+    const result = parseItemsCsv(csv)
+
+    expect(result.errors).toEqual([])
+    expect(result.rows).toEqual([
+      {
+        line: 2,
+        item: {
+          code: 'SET-001',
+          name: 'セット商品',
+          price: 1200,
+          is_reduced_tax: true,
+          international_info: { invoice_summary: 'Cotton T-shirt', origin: 'JP' },
+          child_items: [
+            { code: 'ITEM-A', quantity: 2 },
+            { code: 'ITEM-B', quantity: 1 },
+          ],
+          tags: ['新商品', 'セール'],
+          fifo: false,
+        },
+      },
+    ])
+  })
+
+  it('ヘッダー名の対応付けを指定でき、対応しない列を報告する', () => {
+    const csv = '商品コード,商品名,備考\nA-001,商品A,メモ\n'
+
+    const result = parseItemsCsv(csv, { columns: { code: '商品コード', name: '商品名' } })
+
+    expect(result.rows[0]?.item).toEqual({ code: 'A-001', name: '商品A' })
+    expect(result.unknownColumns).toEqual(['備考'])
+  })
+
+  it('検証に失敗した行を行番号と列名つきで返す', () => {
+    const csv = [
+      '商品コード,price,international_info.origin,child_items',
+      'A-001,100,,',
+      ',abc,jp,X:0',
+      'A-001,200,,',
+    ].join('\n')
+
+    const result = parseItemsCsv(csv, { columns: { code: '商品コード' } })
+
+    expect(result.rows.map(({ line }) => line)).toEqual([2])
+    expect(result.errors.map(({ line, column, code }) => ({ line, column, code }))).toEqual([
+      { line: 3, column: '商品コード', code: 'invalid_type' },
+      { line: 3, column: 'price', code: 'invalid_string' },
+      { line: 3, column: 'international_info.invoice_summary', code: 'invalid_type' },
+      { line: 3, column: 'international_info.origin', code: 'invalid_string' },
+      { line: 3, column: 'child_items', code: 'too_small' },
+      { line: 4, column: '商品コード', code: 'duplicate' },
+    ])
+    expect(result.errors.find(({ line }) => line === 4)?.message).toContain('2行目と重複')
+  })
+
+  it('有効な行を100件ずつのチャンクに分割する', () => {
+    const lines = ['code', ...Array.from({ length: 250 }, (_, i) => `ITEM-${i}`)]
+
+    const result = parseItemsCsv(lines.join('\n'))
+
+    expect(result.totalRows).toBe(250)
+    expect(result.chunks.map(({ items }) => items.length)).toEqual([100, 100, 50])
+  })
+})
+
+describe('importItemsCsv', () => {
+  let client: OpenLogiClient
+  let requests: number[]
+
+  beforeEach(() => {
+    client = createClient({ apiToken: 'test-token' })
+    requests = []
+    server.use(
+      http.post(`${BASE_URL}/items/bulk`, async ({ request }) => {
+        const { items } = (await request.json()) as { items: Array<{ code: string }> }
+        requests.push(items.length)
+        if (items.some(({ code }) => code === 'ITEM-150')) {
+          return HttpResponse.json({ message: 'Server Error' }, { status: 500 })
+        }
+        return HttpResponse.json({
+          items: items.map(({ code }) => ({ id: `id-${code}`, code, name: code })),
+        })
+      }),
+    )
+  })
+
+  it('チャンクごとに一括登録し、失敗したチャンクの行番号を報告する', async () => {
+    const csv = ['code', ...Array.from({ length: 201 }, (_, i) => `ITEM-${i}`)].join('\n')
+
+    const report = await importItemsCsv(createClient({ apiToken: 'test-token', retry: 0 }), csv)
+
+    expect(requests).toEqual([100, 100, 1])
+    expect(report.created).toHaveLength(101)
+    expect(report.failedChunks).toHaveLength(1)
+    expect(report.failedChunks[0]?.lines).toHaveLength(100)
+    expect(report.failedChunks[0]?.lines[0]).toBe(102)
+  })
+
+  it('検証エラーがある場合は登録しない', async () => {
+    const report = await importItemsCsv(client, 'code,price\nA-001,100\nA-002,abc\n')
+
+    expect(requests).toEqual([])
+    expect(report.rows).toHaveLength(1)
+    expect(report.created).toEqual([])
+  })
+
+  it('skipInvalidを指定すると有効な行のみ登録する', async () => {
+    const report = await importItemsCsv(client, 'code,price\nA-001,100\nA-002,abc\n', {
+      skipInvalid: true,
+    })
+
+    expect(requests).toEqual([1])
+    expect(report.created.map(({ code }) => code)).toEqual(['A-001'])
+    expect(report.errors).toHaveLength(1)
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * CSVインポートのエラーメッセージのテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { z } from 'zod'
+import { describeIssue } from '../../src/csv/messages.js'
+import { formatCsvErrors } from '../../src/index.js'
+
+function issueOf(schema: z.ZodTypeAny, value: unknown): z.ZodIssue {
+  const result = schema.safeParse(value)
+  if (result.success || !result.error.issues[0]) {
+    throw new Error('検証に失敗しませんでした')
+  }
+  return result.error.issues[0]
+}
+
+describe('describeIssue', () => {
+  it('Zodの検証エラーを日本語と英語のメッセージに変換する', () => {
+    expect(describeIssue(issueOf(z.string(), undefined))).toEqual({
+      ja: '必須です',
+      en: 'Required',
+    })
+    expect(describeIssue(issueOf(z.string().max(3), 'abcd'))).toEqual({
+      ja: '3文字以内である必要があります',
+      en: 'Must be at most 3 characters',
+    })
+    expect(describeIssue(issueOf(z.enum(['a', 'b']), 'c'))).toEqual({
+      ja: 'a, b のいずれかである必要があります',
+      en: 'Must be one of: a, b',
+    })
+  })
+
+  it('スキーマに日本語のメッセージがある場合は日本語にそのメッセージを使用する', () => {
+    expect(describeIssue(issueOf(z.string().min(1, '名前は必須です'), ''))).toEqual({
+      ja: '名前は必須です',
+      en: 'Required',
+    })
+  })
+})
+
+describe('formatCsvErrors', () => {
+  const errors = [
+    {
+      line: 3,
+      column: 'recipient.postcode',
+      message: '形式が正しくありません',
+      messageEn: 'Invalid format',
+      code: 'invalid_string',
+    },
+    {
+      line: 4,
+      column: undefined,
+      message: '列数（3）がヘッダーの列数（2）を超えています',
+      messageEn: 'Row has 3 columns, more than the 2 header columns',
+      code: 'too_many_columns',
+    },
+  ]
+
+  it('行番号と列名つきのメッセージに整形する', () => {
+    expect(formatCsvErrors(errors)).toEqual([
+      '3行目 [recipient.postcode]: 形式が正しくありません',
+      '4行目: 列数（3）がヘッダーの列数（2）を超えています',
+    ])
+    expect(formatCsvErrors(errors, 'en')).toEqual([
+      'Line 3 [recipient.postcode]: Invalid format',
+      'Line 4: Row has 3 columns, more than the 2 header columns',
+    ])
+  })
+})
@@ -0,0 +1,55 @@
+/**
+ * CSV/TSV読み込みのテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { readCsvTable } from '../../src/csv/parse'
+import { ValidationError } from '../../src/errors'
+
+describe('readCsvTable', () => {
+  it('ヘッダー名をキーとした行に変換する', () => {
+    const table = readCsvTable('code,name\nA-001,商品A\r\nA-002,商品B\n')
+
+    expect(table.headers).toEqual(['code', 'name'])
+    expect(table.rows).toEqual([
+      { line: 2, values: { code: 'A-001', name: '商品A' } },
+      { line: 3, values: { code: 'A-002', name: '商品B' } },
+    ])
+  })
+
+  it('ダブルクォート内の区切り文字・改行・エスケープを扱い、行番号は行の開始位置とする', () => {
+    const table = readCsvTable('code,name\n"A,1","1行目\n2行目"\n"B""2",x\n')
+
+    expect(table.rows).toEqual([
+      { line: 2, values: { code: 'A,1', name: '1行目\n2行目' } },
+      { line: 4, values: { code: 'B"2', name: 'x' } },
+    ])
+  })
+
+  it('BOMを除去し、タブ区切りを自動で判定する', () => {
+    const table = readCsvTable('\uFEFFcode\tname\nA-001\t商品A,セット\n')
+
+    expect(table.headers).toEqual(['code', 'name'])
+    expect(table.rows[0]?.values).toEqual({ code: 'A-001', name: '商品A,セット' })
+  })
+
+  it('空行を読み飛ばし、列数の不足は空文字として扱う', () => {
+    const table = readCsvTable('code,name\n\nA-001\n')
+
+    expect(table.rows).toEqual([{ line: 3, values: { code: 'A-001', name: '' } }])
+  })
+
+  it('列数がヘッダーより多い行はエラーとする', () => {
+    const table = readCsvTable('code,name\nA-001,商品A,余分\n')
+
+    expect(table.rows).toEqual([])
+    expect(table.errors).toEqual([
+      expect.objectContaining({ line: 2, column: undefined, code: 'too_many_columns' }),
+    ])
+  })
+
+  it('ダブルクォートが閉じられていない場合はValidationErrorをスローする', () => {
+    expect(() => readCsvTable('code,name\n"A-001,商品A\n')).toThrow(ValidationError)
+    expect(() => readCsvTable('')).toThrow(ValidationError)
+  })
+})
@@ -0,0 +1,240 @@
+/**
+ * 出荷依頼CSVインポートのテスト
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../setup'
+import {
+  createClient,
+  parseShipmentsCsv,
+  importShipmentsCsv,
+  type OpenLogiClient,
+} from '../../src/index.js'
+
+const BASE_URL = 'http://localhost:8080/api'
+
+const DOMESTIC_HEADER =
+  'order_no,recipient.postcode,recipient.prefecture,recipient.address1,recipient.name,items.code,items.quantity'
+
+const INTERNATIONAL_HEADER = [
+  'order_no',
+  'recipient.region_code',
+  'recipient.postcode',
+  'recipient.city',
+  'recipient.address',
+  'recipient.name',
+  'recipient.phone',
+  'sender.postcode',
+  'sender.prefecture',
+  'sender.address1',
+  'sender.name',
+  'sender.company',
+  'sender.phone',
+  'currency_code',
+  'items.code',
+  'items.quantity',
+].join(',')
+
+describe('parseShipmentsCsv', () => {
+  it('同じ注文番号の行を複数商品の1件の出荷依頼にまとめる', () => {
+    const csv = [
+      DOMESTIC_HEADER,
+      'ORDER-001,170-0013,東京都,豊島区東池袋1-1,山田太郎,ITEM-A,2',
+      'ORDER-002,5300001,大阪府,大阪市北区梅田1-1,鈴木花子,ITEM-C,1',
+      'ORDER-001,,,,,ITEM-B,1',
+    ].join('\n')
+
+    const result = parseShipmentsCsv(csv)
+
+    expect(result.errors).toEqual([])
+    expect(result.totalRows).toBe(3)
+    expect(result.shipments.map(({ lines }) => lines)).toEqual([[2, 4], [3]])
+    expect(result.shipments[0]?.shipment).toMatchObject({
+      order_no: 'ORDER-001',
+      recipient: {
+        postcode: '170-0013',
+        prefecture: '東京都',
+        address1: '豊島区東池袋1-1',
+        name: '山田太郎',
+      },
+      items: [
+        { code: 'ITEM-A', quantity: 2 },
+        { code: 'ITEM-B', quantity: 1 },
+      ],
+    })
+    expect(result.chunks).toHaveLength(1)
+    expect(result.chunks[0]?.shipments).toHaveLength(2)
+  })
+
+  it('受取人の国コードがJP以外の行を国際配送として検証する', () => {
+    const csv = [
+      INTERNATIONAL_HEADER,
+      'INT-001,US,94105,San Francisco,1 Market St,John Smith,+1-555-0100,1700013,Tokyo,1-1 Higashi-Ikebukuro,Taro Yamada,Example Inc.,03-1234-5678,USD,ITEM-A,1',
+    ].join('\n')
+
+    const result = parseShipmentsCsv(csv)
+
+    expect(result.errors).toEqual([])
+    expect(result.shipments[0]?.shipment).toMatchObject({
+      international: true,
+      recipient: { region_code: 'US', city: 'San Francisco', address: '1 Market St' },
+      sender: { company: 'Example Inc.' },
+      currency_code: 'USD',
+    })
+  })
+
+  it('国内・国際それぞれのスキーマのエラーを日本語と英語で返す', () => {
+    const csv = [
+      `${DOMESTIC_HEADER},recipient.region_code,recipient.city,recipient.address`,
+      'DOM-001,12345,東京都,豊島区東池袋1-1,山田太郎,ITEM-A,1,,,',
+      'INT-001,,,,John Smith,ITEM-A,1,US,,1 Market St',
+    ].join('\n')
+
+    const result = parseShipmentsCsv(csv)
+
+    expect(result.shipments).toEqual([])
+    expect(result.errors).toEqual([
+      {
+        line: 2,
+        column: 'recipient.postcode',
+        message: '郵便番号は7桁の数字である必要があります（例: 1700013 または 170-0013）',
+        messageEn: 'Invalid format',
+        code: 'invalid_string',
+      },
+      {
+        line: 3,
+        column: 'recipient.postcode',
+        message: '必須です',
+        messageEn: 'Required',
+        code: 'invalid_type',
+      },
+      {
+        line: 3,
+        column: 'recipient.city',
+        message: '必須です',
+        messageEn: 'Required',
+        code: 'invalid_type',
+      },
+      {
+        line: 3,
+        column: 'recipient.phone',
+        message: '必須です',
+        messageEn: 'Required',
+        code: 'invalid_type',
+      },
+    ])
+  })
+
+  it('商品のエラーはその商品の行番号で返す', () => {
+    const csv = [
+      DOMESTIC_HEADER.replace('items.quantity', '数量'),
+      'ORDER-001,1700013,東京都,豊島区東池袋1-1,山田太郎,ITEM-A,1',
+      'ORDER-001,,,,,ITEM-B,0',
+    ].join('\n')
+
+    const result = parseShipmentsCsv(csv, { columns: { 'items.quantity': '数量' } })
+
+    expect(result.errors).toEqual([
+      {
+        line: 3,
+        column: '数量',
+        message: '1以上である必要があります',
+        messageEn: 'Must be greater than or equal to 1',
+        code: 'too_small',
+      },
+    ])
+  })
+
+  it('同じ出荷依頼の行で出荷依頼の値が異なる場合はエラーとする', () => {
+    const csv = [
+      DOMESTIC_HEADER,
+      'ORDER-001,1700013,東京都,豊島区東池袋1-1,山田太郎,ITEM-A,1',
+      'ORDER-001,1700013,東京都,豊島区東池袋1-1,佐藤次郎,ITEM-B,1',
+    ].join('\n')
+
+    const result = parseShipmentsCsv(csv)
+
+    expect(result.shipments).toEqual([])
+    expect(result.errors).toEqual([
+      {
+        line: 3,
+        column: 'recipient.name',
+        message: '同じ出荷依頼の2行目と値が異なります（山田太郎）',
+        messageEn: 'Differs from line 2 of the same shipment (山田太郎)',
+        code: 'conflict',
+      },
+    ])
+  })
+
+  it('注文番号も識別子もない行はエラーとし、対応しない列を報告する', () => {
+    const csv = [
+      `${DOMESTIC_HEADER},備考`,
+      ',1700013,東京都,豊島区東池袋1-1,山田太郎,ITEM-A,1,メモ',
+    ].join('\n')
+
+    const result = parseShipmentsCsv(csv)
+
+    expect(result.errors).toEqual([
+      expect.objectContaining({
+        line: 2,
+        column: 'identifier',
+        messageEn: 'Either identifier or order_no is required',
+      }),
+    ])
+    expect(result.unknownColumns).toEqual(['備考'])
+  })
+})
+
+describe('importShipmentsCsv', () => {
+  let client: OpenLogiClient
+  let requests: number[]
+
+  beforeEach(() => {
+    client = createClient({ apiToken: 'test-token', retry: 0 })
+    requests = []
+    server.use(
+      http.post(`${BASE_URL}/shipments/bulk`, async ({ request }) => {
+        const { shipments } = (await request.json()) as { shipments: Array<{ order_no: string }> }
+        requests.push(shipments.length)
+        if (shipments.some(({ order_no }) => order_no === 'ORDER-150')) {
+          return HttpResponse.json({ message: 'Server Error' }, { status: 500 })
+        }
+        return HttpResponse.json({
+          shipments: shipments.map(({ order_no }) => ({
+            id: `id-${order_no}`,
+            order_no,
+            items: [],
+          })),
+        })
+      }),
+    )
+  })
+
+  const rows = (count: number): string[] =>
+    Array.from(
+      { length: count },
+      (_, i) => `ORDER-${i},1700013,東京都,豊島区東池袋1-1,山田太郎,ITEM-A,1`,
+    )
+
+  it('100件ずつ一括作成し、失敗したチャンクの行番号を報告する', async () => {
+    const report = await importShipmentsCsv(client, [DOMESTIC_HEADER, ...rows(201)].join('\n'))
+
+    expect(requests).toEqual([100, 100, 1])
+    expect(report.created).toHaveLength(101)
+    expect(report.failedChunks).toHaveLength(1)
+    expect(report.failedChunks[0]?.lines[0]).toBe(102)
+  })
+
+  it('検証エラーがある場合はskipInvalidを指定しない限り作成しない', async () => {
+    const csv = [DOMESTIC_HEADER, ...rows(1), 'ORDER-X,,,,,ITEM-A,1'].join('\n')
+
+    const skipped = await importShipmentsCsv(client, csv)
+    expect(requests).toEqual([])
+    expect(skipped.created).toEqual([])
+
+    const report = await importShipmentsCsv(client, csv, { skipInvalid: true })
+    expect(requests).toEqual([1])
+    expect(report.created.map(({ order_no }) => order_no)).toEqual(['ORDER-0'])
+  })
+})
@@ -10,6 +10,9 @@ import {
   AuthenticationError,
   RateLimitError,
   NotFoundError,
+  IdempotencyError,
+  InvalidShipmentStateError,
+  WaitForStatusError,
 } from '../src/errors'
 
 describe('エラークラス', () => {
@@ -265,6 +268,49 @@ describe('エラークラス', () => {
     })
   })
 
+  describe('IdempotencyError', () => {
+    it('照会キーと原因エラーを保持できる', () => {
+      const cause = new OpenLogiError('fetch failed')
+      const error = new IdempotencyError('作成の成否を確認できませんでした。', 'ORDER-001', cause)
+
+      expect(error).toBeInstanceOf(OpenLogiError)
+      expect(error.name).toBe('IdempotencyError')
+      expect(error.key).toBe('ORDER-001')
+      expect(error.cause).toBe(cause)
+    })
+  })
+
+  describe('InvalidShipmentStateError', () => {
+    it('出荷依頼のステータスと実行可能なステータスを保持できる', () => {
+      const error = new InvalidShipmentStateError('ship-001', 'SHIPPED', 'cancel', [
+        'PENDING',
+        'READY',
+      ])
+
+      expect(error).toBeInstanceOf(OpenLogiError)
+      expect(error.name).toBe('InvalidShipmentStateError')
+      expect(error.shipmentId).toBe('ship-001')
+      expect(error.status).toBe('SHIPPED')
+      expect(error.operation).toBe('cancel')
+      expect(error.allowedStatuses).toEqual(['PENDING', 'READY'])
+      expect(error.message).toContain('PENDING, READY')
+    })
+  })
+
+  describe('WaitForStatusError', () => {
+    it('待機の終了理由と最後のステータスを保持できる', () => {
+      const error = new WaitForStatusError('timeout', 'ship-001', 'PICKING', ['SHIPPED'])
+
+      expect(error).toBeInstanceOf(OpenLogiError)
+      expect(error.name).toBe('WaitForStatusError')
+      expect(error.reason).toBe('timeout')
+      expect(error.resourceId).toBe('ship-001')
+      expect(error.lastStatus).toBe('PICKING')
+      expect(error.targetStatuses).toEqual(['SHIPPED'])
+      expect(error.message).toContain('タイムアウト')
+    })
+  })
+
   describe('エラーの継承関係', () => {
     it('すべてのカスタムエラーがOpenLogiErrorを継承している', () => {
       const apiError = new ApiError('API', 500)
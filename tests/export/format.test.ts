@@ -0,0 +1,44 @@
+/**
+ * エクスポートの出力形式のテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { serializeRows } from '../../src/export/format.js'
+
+const getters = {
+  code: (row: { code: string; note?: string; price?: number }) => row.code,
+  note: (row: { code: string; note?: string; price?: number }) => row.note,
+  price: (row: { code: string; note?: string; price?: number }) => row.price,
+}
+
+const rows = [{ code: 'A-001', note: '赤, "大"\n限定', price: 1000 }, { code: 'A-002' }]
+
+describe('serializeRows', () => {
+  it('CSVはヘッダー行を含め、必要なセルをダブルクォートで囲む', () => {
+    expect(serializeRows(getters, rows, {})).toBe(
+      'code,note,price\r\nA-001,"赤, ""大""\n限定",1000\r\nA-002,,\r\n',
+    )
+  })
+
+  it('excelはBOM付きのCSVを出力する', () => {
+    const csv = serializeRows(getters, rows, { format: 'excel' })
+
+    expect(csv.startsWith('\uFEFFcode,note,price\r\n')).toBe(true)
+  })
+
+  it('jsonlはヘッダー名をキーとした1行1オブジェクトを出力する', () => {
+    const jsonl = serializeRows(getters, rows, { format: 'jsonl', columns: { code: 'コード' } })
+
+    expect(jsonl.split('\n')).toEqual([
+      JSON.stringify({ コード: 'A-001', note: '赤, "大"\n限定', price: 1000 }),
+      JSON.stringify({ コード: 'A-002', note: null, price: null }),
+      '',
+    ])
+  })
+
+  it('fieldsで出力するフィールドと順序を指定できる', () => {
+    expect(serializeRows(getters, rows, { fields: ['price', 'code'] })).toBe(
+      'price,code\r\n1000,A-001\r\n,A-002\r\n',
+    )
+  })
+})
@@ -0,0 +1,111 @@
+/**
+ * 出荷実績・入荷実績のエクスポートのテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  exportShippedShipments,
+  exportStockedWarehousings,
+  type ShipmentResponse,
+  type WarehousingDetailResponse,
+} from '../../src/index.js'
+
+const shipped: ShipmentResponse[] = [
+  {
+    id: 'SHIP-1',
+    order_no: 'ORDER-001',
+    status: 'shipped',
+    actual_shipping_date: '2025-01-20',
+    tracking_code: '1234-5678',
+    delivery_charge: 500,
+    tax: 100,
+    total_amount: 1600,
+    items: [
+      { code: 'ITEM-A', quantity: 2, shipped_quantity: 2 },
+      { code: 'ITEM-B', quantity: 1, shipped_quantity: 1 },
+    ],
+  },
+  {
+    id: 'SHIP-2',
+    order_no: 'ORDER-002',
+    status: 'shipped',
+    tracking_codes: ['T-1', 'T-2'],
+    items: [],
+  },
+]
+
+const stocked: WarehousingDetailResponse[] = [
+  {
+    id: 'WH-1',
+    status: 'stocked',
+    inspection_type: 'CODE',
+    arrival_date: '2025-01-15',
+    items: [
+      {
+        id: 'I-1',
+        code: 'ITEM-A',
+        name: '商品A',
+        quantity: 10,
+        received: 10,
+        lot_items: [
+          { id: 'LOT-1', expiry_at: '2026-01-01', received: 6 },
+          { id: 'LOT-2', expiry_at: '2026-02-01', received: 4 },
+        ],
+      },
+      { id: 'I-2', code: 'ITEM-B', name: '商品B', quantity: 5, received: 5 },
+    ],
+  },
+]
+
+describe('exportShippedShipments', () => {
+  it('出荷商品ごとに1行を出力し、出荷依頼単位の値を各行に出力する', () => {
+    const csv = exportShippedShipments(
+      { shipments: shipped },
+      {
+        fields: ['order_no', 'actual_shipping_date', 'tracking_code', 'total_amount', 'items.code'],
+        columns: { order_no: '注文番号', total_amount: '合計金額' },
+      },
+    )
+
+    expect(csv.split('\r\n')).toEqual([
+      '注文番号,actual_shipping_date,tracking_code,合計金額,items.code',
+      'ORDER-001,2025-01-20,1234-5678,1600,ITEM-A',
+      'ORDER-001,2025-01-20,1234-5678,1600,ITEM-B',
+      'ORDER-002,,T-1 T-2,,',
+      '',
+    ])
+  })
+
+  it('jsonlではフィールドを省略するとすべてのフィールドを出力する', () => {
+    const [first] = exportShippedShipments(shipped, { format: 'jsonl' }).split('\n')
+
+    expect(JSON.parse(first ?? '')).toMatchObject({
+      id: 'SHIP-1',
+      delivery_charge: 500,
+      tax: 100,
+      'items.code': 'ITEM-A',
+      'items.shipped_quantity': 2,
+      'items.unit_price': null,
+    })
+  })
+})
+
+describe('exportStockedWarehousings', () => {
+  it('ロットごと（ロット情報がない商品は商品ごと）に入荷実績数を出力する', () => {
+    const csv = exportStockedWarehousings(
+      { warehousings: stocked },
+      {
+        format: 'excel',
+        fields: ['id', 'items.code', 'lot_items.id', 'lot_items.expiry_at', 'items.received'],
+      },
+    )
+
+    expect(csv.split('\r\n')).toEqual([
+      '\uFEFFid,items.code,lot_items.id,lot_items.expiry_at,items.received',
+      'WH-1,ITEM-A,LOT-1,2026-01-01,6',
+      'WH-1,ITEM-A,LOT-2,2026-02-01,4',
+      'WH-1,ITEM-B,,,5',
+      '',
+    ])
+  })
+})
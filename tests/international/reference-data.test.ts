@@ -0,0 +1,154 @@
+/**
+ * 国際発送の国・通貨情報のキャッシュのテスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../setup'
+import {
+  createClient,
+  InternationalReferenceData,
+  MemorySnapshotStorage,
+  type InternationalReferenceSnapshot,
+  type OpenLogiClient,
+} from '../../src/index.js'
+
+const BASE_URL = 'http://localhost:8080/api'
+
+const HOUR = 60 * 60 * 1000
+
+describe('InternationalReferenceData', () => {
+  let client: OpenLogiClient
+  let requests: number
+  let regionCode: string
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-01-10T00:00:00Z'))
+    client = createClient({ apiToken: 'test-token', retry: 0 })
+    requests = 0
+    regionCode = 'US'
+    server.use(
+      http.get(`${BASE_URL}/shipments/international/regions/ems`, () => {
+        requests++
+        return HttpResponse.json({
+          regions: [{ code: regionCode, name: 'テスト国', name_en: 'Test Country' }],
+        })
+      }),
+    )
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('国コード・通貨コードから情報を取得できる', async () => {
+    const referenceData = new InternationalReferenceData(client)
+
+    expect(await referenceData.getRegion('US')).toEqual({
+      code: 'US',
+      name: 'テスト国',
+      name_en: 'Test Country',
+    })
+    expect(await referenceData.getRegion('KP')).toBeUndefined()
+    expect(await referenceData.getCurrency('USD')).toEqual({ code: 'USD', name: '米ドル' })
+    expect(await referenceData.isSupportedRegion('US')).toBe(true)
+    expect(await referenceData.isSupportedCurrency('USD')).toBe(true)
+    expect(await referenceData.isSupportedCurrency('XYZ')).toBe(false)
+    expect(requests).toBe(1)
+  })
+
+  it('同時に呼び出した場合も1回だけ取得する', async () => {
+    const referenceData = new InternationalReferenceData(client)
+
+    await Promise.all([
+      referenceData.isSupportedRegion('US'),
+      referenceData.isSupportedCurrency('USD'),
+      referenceData.getRegions(),
+    ])
+
+    expect(requests).toBe(1)
+  })
+
+  it('ttlを過ぎた場合は保存済みの情報を返し、バックグラウンドで更新する', async () => {
+    const referenceData = new InternationalReferenceData(client, { ttl: HOUR })
+    await referenceData.getRegions()
+
+    regionCode = 'GB'
+    vi.setSystemTime(Date.now() + HOUR)
+
+    expect(await referenceData.isSupportedRegion('US')).toBe(true)
+    await vi.waitFor(() => expect(requests).toBe(2))
+    await vi.waitFor(async () => expect(await referenceData.isSupportedRegion('GB')).toBe(true))
+    expect(requests).toBe(2)
+  })
+
+  it('staleWhileRevalidateも過ぎた場合は更新が完了するまで待つ', async () => {
+    const referenceData = new InternationalReferenceData(client, {
+      ttl: HOUR,
+      staleWhileRevalidate: HOUR,
+    })
+    await referenceData.getRegions()
+
+    regionCode = 'GB'
+    vi.setSystemTime(Date.now() + 2 * HOUR)
+
+    expect(await referenceData.isSupportedRegion('US')).toBe(false)
+    expect(requests).toBe(2)
+  })
+
+  it('バックグラウンドでの更新に失敗した場合はonErrorに通知し、保存済みの情報を返し続ける', async () => {
+    const onError = vi.fn()
+    const referenceData = new InternationalReferenceData(client, { ttl: HOUR, onError })
+    await referenceData.getRegions()
+
+    server.use(
+      http.get(`${BASE_URL}/shipments/international/regions/ems`, () =>
+        HttpResponse.json({ message: 'Server Error' }, { status: 500 }),
+      ),
+    )
+    vi.setSystemTime(Date.now() + HOUR)
+
+    expect(await referenceData.isSupportedRegion('US')).toBe(true)
+    await vi.waitFor(() => expect(onError).toHaveBeenCalledTimes(1))
+    expect(await referenceData.isSupportedRegion('US')).toBe(true)
+  })
+
+  it('保存先の情報を使い、スキーマに一致しない場合は取得し直す', async () => {
+    const stored: InternationalReferenceSnapshot = {
+      regions: [{ code: 'FR', name: 'フランス' }],
+      currencies: [{ code: 'EUR', name: 'ユーロ' }],
+      fetchedAt: Date.now(),
+    }
+    const storage = new MemorySnapshotStorage(stored)
+    const referenceData = new InternationalReferenceData(client, { storage })
+
+    expect(await referenceData.isSupportedRegion('FR')).toBe(true)
+    expect(requests).toBe(0)
+
+    const broken = new MemorySnapshotStorage({ regions: 'broken' } as never)
+    const refetched = new InternationalReferenceData(client, { storage: broken })
+
+    expect(await refetched.isSupportedRegion('US')).toBe(true)
+    expect(requests).toBe(1)
+    expect(await broken.load()).toMatchObject({ regions: [{ code: 'US' }], fetchedAt: Date.now() })
+  })
+
+  it('refresh()で有効期限内でも取得し直す', async () => {
+    const referenceData = new InternationalReferenceData(client)
+    await referenceData.getRegions()
+
+    regionCode = 'GB'
+    await referenceData.refresh()
+
+    expect(await referenceData.isSupportedRegion('GB')).toBe(true)
+    expect(requests).toBe(2)
+  })
+
+  it('ttl・staleWhileRevalidateが負の場合はRangeErrorをスローする', () => {
+    expect(() => new InternationalReferenceData(client, { ttl: -1 })).toThrow(RangeError)
+    expect(() => new InternationalReferenceData(client, { staleWhileRevalidate: -1 })).toThrow(
+      RangeError,
+    )
+  })
+})
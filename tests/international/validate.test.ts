@@ -0,0 +1,325 @@
+/**
+ * 海外発送の出荷依頼の事前チェックのテスト
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../setup'
+import {
+  createClient,
+  validateInternationalShipment,
+  clearInternationalReferenceCache,
+  OpenLogi,
+  InternationalReferenceData,
+  MemorySnapshotStorage,
+  type CreateShipmentRequest,
+  type OpenLogiClient,
+} from '../../src/index.js'
+
+const BASE_URL = 'http://localhost:8080/api'
+
+const INTERNATIONAL_INFO = { invoice_summary: 'Cotton T-shirt', origin: 'JP' }
+
+/**
+ * 商品マスタのレスポンスを生成する
+ */
+function mockItem(id: string, code: string, overrides: Record<string, unknown> = {}) {
+  return {
+    id,
+    code,
+    name: `Item ${code}`,
+    hs_code: '6109.10',
+    international_info: INTERNATIONAL_INFO,
+    ...overrides,
+  }
+}
+
+/**
+ * 海外発送の出荷依頼を生成する
+ */
+function internationalRequest(
+  overrides: Partial<CreateShipmentRequest> = {},
+): CreateShipmentRequest {
+  return {
+    order_no: 'ORDER-001',
+    international: true,
+    currency_code: 'USD',
+    delivery_service: 'JAPANPOST-EMS',
+    recipient: {
+      region_code: 'US',
+      postcode: '10001',
+      city: 'New York',
+      address: '350 5th Ave',
+      name: 'John Smith',
+      phone: '+1-212-000-0000',
+    },
+    items: [{ id: 'item-1', quantity: 1 }],
+    ...overrides,
+  }
+}
+
+describe('validateInternationalShipment', () => {
+  let client: OpenLogiClient
+
+  beforeEach(() => {
+    client = createClient({ apiToken: 'test-token' })
+    server.use(
+      http.get(`${BASE_URL}/items`, ({ request }) => {
+        const ids = new URL(request.url).searchParams.get('id')?.split(',') ?? []
+        return HttpResponse.json({
+          items: ids
+            .filter((id) => id !== 'missing')
+            .map((id) =>
+              id === 'no-info'
+                ? mockItem(id, 'NO-INFO', { hs_code: undefined, international_info: undefined })
+                : mockItem(id, `CODE-${id}`),
+            ),
+        })
+      }),
+    )
+  })
+
+  it('問題がない場合はvalidがtrueになる', async () => {
+    const result = await validateInternationalShipment(client, internationalRequest())
+
+    expect(result).toEqual({ valid: true, issues: [] })
+  })
+
+  it('international: true でない場合はnot_internationalを返す', async () => {
+    const result = await validateInternationalShipment(
+      client,
+      internationalRequest({ international: false }),
+    )
+
+    expect(result.valid).toBe(false)
+    expect(result.issues).toEqual([
+      expect.objectContaining({ path: ['international'], code: 'not_international' }),
+    ])
+  })
+
+  it('EMSの発送可能国でない国コードはunsupported_regionを返す', async () => {
+    const request = internationalRequest()
+    const result = await validateInternationalShipment(client, {
+      ...request,
+      recipient: { ...request.recipient, region_code: 'KP' },
+    })
+
+    expect(result.issues).toEqual([
+      {
+        path: ['recipient', 'region_code'],
+        message: '国コード KP はEMSの発送可能国ではありません',
+        code: 'unsupported_region',
+      },
+    ])
+  })
+
+  it('配送サービスが未指定の場合もEMSとして国コードを確認する', async () => {
+    const request = internationalRequest()
+    delete request.delivery_service
+    const result = await validateInternationalShipment(client, {
+      ...request,
+      recipient: { ...request.recipient, region_code: 'KP' },
+    })
+
+    expect(result.issues.map(({ code }) => code)).toEqual(['unsupported_region'])
+  })
+
+  it('EMS以外の海外発送サービスでは国コードをEMSの発送可能国と照合しない', async () => {
+    const request = internationalRequest({ delivery_service: 'DHL-EXPRESS' })
+    const result = await validateInternationalShipment(client, {
+      ...request,
+      recipient: { ...request.recipient, region_code: 'KP' },
+    })
+
+    expect(result.valid).toBe(true)
+  })
+
+  it('国内配送のサービスはunsupported_delivery_serviceを返す', async () => {
+    const result = await validateInternationalShipment(
+      client,
+      internationalRequest({ delivery_service: 'YAMATO-TAKKYUBIN' }),
+    )
+
+    expect(result.issues).toEqual([
+      {
+        path: ['delivery_service'],
+        message: '配送サービス YAMATO-TAKKYUBIN は海外発送に対応していません',
+        code: 'unsupported_delivery_service',
+      },
+    ])
+  })
+
+  it('通貨コードの未指定・指定できない通貨コードを返す', async () => {
+    const request = internationalRequest()
+    delete request.currency_code
+    const missing = await validateInternationalShipment(client, request)
+    const unsupported = await validateInternationalShipment(
+      client,
+      internationalRequest({ currency_code: 'XYZ' }),
+    )
+
+    expect(missing.issues.map(({ code }) => code)).toEqual(['missing_currency'])
+    expect(unsupported.issues).toEqual([
+      {
+        path: ['currency_code'],
+        message: '通貨コード XYZ は指定できません',
+        code: 'unsupported_currency',
+      },
+    ])
+  })
+
+  it('HSコード・国際情報のない商品と見つからない商品を返す', async () => {
+    const result = await validateInternationalShipment(
+      client,
+      internationalRequest({
+        items: [
+          { id: 'item-1', quantity: 1 },
+          { id: 'no-info', code: 'NO-INFO', quantity: 1 },
+          { id: 'missing', quantity: 1 },
+        ],
+      }),
+    )
+
+    expect(result.issues).toEqual([
+      {
+        path: ['items', 1, 'hs_code'],
+        message: '商品 NO-INFO にHSコードがありません',
+        code: 'missing_hs_code',
+      },
+      {
+        path: ['items', 1, 'international_info'],
+        message: '商品 NO-INFO に国際情報（インボイス要約・原産国）がありません',
+        code: 'missing_international_info',
+      },
+      {
+        path: ['items', 2],
+        message: '商品 missing が見つかりません',
+        code: 'item_not_found',
+      },
+    ])
+  })
+
+  it('出荷商品のHSコードは商品マスタのHSコードがなくても有効とする', async () => {
+    const result = await validateInternationalShipment(
+      client,
+      internationalRequest({ items: [{ id: 'no-info', hs_code: '6109.10', quantity: 1 }] }),
+    )
+
+    expect(result.issues.map(({ code }) => code)).toEqual(['missing_international_info'])
+  })
+
+  it('商品コードのみの商品はaccountId指定時にコードで検索する', async () => {
+    const request = internationalRequest({
+      items: [
+        { code: 'ITEM-A', quantity: 1 },
+        { code: 'NOT-FOUND', quantity: 1 },
+      ],
+    })
+    server.use(
+      http.get(`${BASE_URL}/items/:accountId/:code`, ({ params }) => {
+        if (params['code'] === 'NOT-FOUND') {
+          return HttpResponse.json({ message: '商品が見つかりません' }, { status: 404 })
+        }
+        return HttpResponse.json(mockItem('item-a', params['code'] as string))
+      }),
+    )
+
+    const unverified = await validateInternationalShipment(client, request)
+    const verified = await validateInternationalShipment(client, request, { accountId: 'AB1234' })
+
+    expect(unverified.issues.map(({ path, code }) => ({ path, code }))).toEqual([
+      { path: ['items', 0, 'hs_code'], code: 'missing_hs_code' },
+      { path: ['items', 0], code: 'unverified_item' },
+      { path: ['items', 1, 'hs_code'], code: 'missing_hs_code' },
+      { path: ['items', 1], code: 'unverified_item' },
+    ])
+    expect(verified.issues.map(({ path, code }) => ({ path, code }))).toEqual([
+      { path: ['items', 1], code: 'item_not_found' },
+    ])
+  })
+
+  it('スキーマに一致しないリクエストはinvalid_requestを返す', async () => {
+    const request = internationalRequest()
+    const result = await validateInternationalShipment(client, {
+      ...request,
+      recipient: { ...request.recipient, phone: '' },
+    })
+
+    expect(result.issues).toEqual([
+      { path: ['recipient', 'phone'], message: '電話番号は必須です', code: 'invalid_request' },
+    ])
+  })
+
+  it('国・通貨情報をクライアントごとにキャッシュする', async () => {
+    let requests = 0
+    server.use(
+      http.get(`${BASE_URL}/shipments/international/regions/ems`, () => {
+        requests++
+        return HttpResponse.json({ regions: [{ code: 'US', name: 'アメリカ合衆国' }] })
+      }),
+    )
+
+    await validateInternationalShipment(client, internationalRequest())
+    await validateInternationalShipment(client, internationalRequest())
+    expect(requests).toBe(1)
+
+    clearInternationalReferenceCache(client)
+    await validateInternationalShipment(client, internationalRequest())
+    expect(requests).toBe(2)
+
+    await validateInternationalShipment(client, internationalRequest(), { cacheTtl: 0 })
+    await validateInternationalShipment(client, internationalRequest(), { cacheTtl: 0 })
+    expect(requests).toBe(4)
+
+    const referenceData = new InternationalReferenceData(client)
+    await validateInternationalShipment(client, internationalRequest(), { referenceData })
+    await validateInternationalShipment(client, internationalRequest(), { referenceData })
+    expect(requests).toBe(5)
+  })
+
+  it('取得に失敗した場合はキャッシュせずに次回再取得する', async () => {
+    let requests = 0
+    server.use(
+      http.get(`${BASE_URL}/shipments/international/currencies`, () => {
+        requests++
+        return requests === 1
+          ? HttpResponse.json({ message: 'Server Error' }, { status: 500 })
+          : HttpResponse.json({ currencies: [{ code: 'USD', name: '米ドル' }] })
+      }),
+    )
+    const noRetry = createClient({ apiToken: 'test-token', retry: 0 })
+
+    await expect(validateInternationalShipment(noRetry, internationalRequest())).rejects.toThrow()
+    await expect(validateInternationalShipment(noRetry, internationalRequest())).resolves.toEqual({
+      valid: true,
+      issues: [],
+    })
+  })
+
+  it('referenceDataを指定した場合はその国・通貨情報を使用する', async () => {
+    const referenceData = new InternationalReferenceData(client, {
+      storage: new MemorySnapshotStorage({
+        regions: [{ code: 'FR', name: 'フランス' }],
+        currencies: [{ code: 'EUR', name: 'ユーロ' }],
+        fetchedAt: Date.now(),
+      }),
+    })
+
+    const result = await validateInternationalShipment(client, internationalRequest(), {
+      referenceData,
+    })
+
+    expect(result.issues.map(({ code }) => code)).toEqual([
+      'unsupported_region',
+      'unsupported_currency',
+    ])
+  })
+
+  it('OpenLogiクラスのshipments.validateInternationalから呼び出せる', async () => {
+    const openlogi = new OpenLogi({ apiToken: 'test-token' })
+
+    const result = await openlogi.shipments.validateInternational(internationalRequest())
+
+    expect(result.valid).toBe(true)
+  })
+})
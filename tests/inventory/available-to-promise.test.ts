@@ -0,0 +1,145 @@
+/**
+ * 引当可能数の見通しのテスト
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../setup'
+import {
+  createClient,
+  availableToPromise,
+  earliestPromiseDate,
+  type OpenLogiClient,
+  type ShipmentResponse,
+} from '../../src/index.js'
+
+const BASE_URL = 'http://localhost:8080/api'
+
+/**
+ * 入荷依頼一覧のレスポンスを生成する
+ */
+function mockWarehousing(
+  id: string,
+  status: string,
+  arrivalDate: string,
+  items: Array<{ code: string; quantity: number; received?: number }>,
+) {
+  return {
+    id,
+    status,
+    inspection_type: 'CODE',
+    arrival_date: arrivalDate,
+    items: items.map((item, index) => ({ id: `${id}-${index}`, name: item.code, ...item })),
+  }
+}
+
+/**
+ * 出荷依頼を生成する
+ */
+function mockShipment(
+  id: string,
+  status: ShipmentResponse['status'],
+  quantity: number,
+  overrides: Partial<ShipmentResponse> = {},
+): ShipmentResponse {
+  return { id, status, items: [{ code: 'ITEM-001', quantity }], ...overrides }
+}
+
+describe('availableToPromise', () => {
+  let client: OpenLogiClient
+
+  beforeEach(() => {
+    client = createClient({ apiToken: 'test-token' })
+    server.use(
+      http.get(`${BASE_URL}/items/:accountId/:code`, ({ request, params }) => {
+        expect(new URL(request.url).searchParams.get('stock')).toBe('1')
+        return HttpResponse.json({
+          id: 'item-1',
+          code: params['code'],
+          name: 'Item',
+          stock: { quantity: 50, available: 30, shipping: 10, requesting: 20 },
+        })
+      }),
+      http.get(`${BASE_URL}/items/:id`, ({ params }) =>
+        HttpResponse.json({ id: params['id'], code: 'ITEM-001', name: 'Item', stock: 12 }),
+      ),
+      http.get(`${BASE_URL}/warehousings`, () =>
+        HttpResponse.json({
+          warehousings: [
+            mockWarehousing('W1', 'waiting', '2025-01-25', [
+              { code: 'ITEM-001', quantity: 100, received: 20 },
+              { code: 'OTHER', quantity: 5 },
+            ]),
+            mockWarehousing('W2', 'waiting', '2025-01-10', [{ code: 'ITEM-001', quantity: 5 }]),
+            mockWarehousing('W3', 'stocked', '2025-01-22', [{ code: 'ITEM-001', quantity: 999 }]),
+          ],
+        }),
+      ),
+      http.get(`${BASE_URL}/shipments`, ({ request }) => {
+        const ids = new URL(request.url).searchParams.get('id')?.split(',') ?? []
+        return HttpResponse.json({
+          shipments: ids.map((id) =>
+            mockShipment(id, 'SUSPENDED', 15, { shipping_date: '2025-01-22' }),
+          ),
+        })
+      }),
+    )
+  })
+
+  it('在庫数・入荷待ち・出荷待ちから日付ごとの引当可能数を求める', async () => {
+    const result = await availableToPromise(client, 'ITEM-001', {
+      accountId: 'AB1234',
+      asOf: '2025-01-20',
+      shipments: [
+        mockShipment('S1', 'PENDING', 30),
+        mockShipment('S2', 'PICKING', 10),
+        mockShipment('S3', 'PENDING', 10, { assigned_shipping_date: '2025-01-28' }),
+      ],
+      shipmentIds: ['S4'],
+    })
+
+    expect(result.itemId).toBe('item-1')
+    expect(result.onHand).toBe(40)
+    expect(result.timeline).toEqual([
+      // 基準日より前の入荷予定（W2）は基準日に含める
+      { date: '2025-01-20', inbound: 5, outbound: 30, available: 15 },
+      { date: '2025-01-22', inbound: 0, outbound: 15, available: 0 },
+      { date: '2025-01-25', inbound: 80, outbound: 0, available: 80 },
+      { date: '2025-01-28', inbound: 0, outbound: 10, available: 70 },
+    ])
+  })
+
+  it('accountId未指定の場合は商品IDで取得し、在庫数のみの商品も扱う', async () => {
+    const result = await availableToPromise(client, 'item-1', { asOf: new Date(2025, 0, 30) })
+
+    expect(result.asOf).toBe('2025-01-30')
+    expect(result.onHand).toBe(12)
+    expect(result.timeline).toEqual([
+      { date: '2025-01-30', inbound: 85, outbound: 0, available: 97 },
+    ])
+  })
+})
+
+describe('earliestPromiseDate', () => {
+  const result = {
+    itemId: 'item-1',
+    code: 'ITEM-001',
+    asOf: '2025-01-20',
+    onHand: 40,
+    timeline: [
+      { date: '2025-01-20', inbound: 0, outbound: 25, available: 15 },
+      { date: '2025-01-22', inbound: 0, outbound: 15, available: 0 },
+      { date: '2025-01-25', inbound: 80, outbound: 0, available: 80 },
+    ],
+  }
+
+  it('以降の引当可能数が数量を下回らない最初の日付を返す', () => {
+    expect(earliestPromiseDate(result, 0)).toBe('2025-01-20')
+    // 基準日は15あるが、22日に0となるため25日まで待つ
+    expect(earliestPromiseDate(result, 10)).toBe('2025-01-25')
+  })
+
+  it('見通しの期間内に引き当てられない場合はundefinedを返す', () => {
+    expect(earliestPromiseDate(result, 81)).toBeUndefined()
+  })
+})
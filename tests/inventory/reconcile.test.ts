@@ -0,0 +1,132 @@
+/**
+ * 在庫の照合のテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { reconcileInventory, toInventoryItem, type InventorySnapshot } from '../../src/index.js'
+
+/**
+ * 在庫スナップショットを生成する
+ */
+function snapshotOf(
+  items: Array<{ code: string; quantity: number; warehouses?: Record<string, number> }>,
+): InventorySnapshot {
+  return {
+    takenAt: '2025-01-01T00:00:00.000Z',
+    missing: [],
+    items: new Map(
+      items.map(({ code, quantity, warehouses = {} }) => [
+        code,
+        toInventoryItem({
+          id: `id-${code}`,
+          code,
+          name: code,
+          stock: { quantity, available: quantity, shipping: 0, requesting: 0 },
+          stocks: Object.entries(warehouses).map(([warehouse, count]) => ({
+            warehouse,
+            quantity: count,
+            available: count - 1,
+            shipping: 0,
+            requesting: 0,
+          })),
+        }),
+      ]),
+    ),
+  }
+}
+
+describe('reconcileInventory', () => {
+  const snapshot = snapshotOf([
+    { code: 'A', quantity: 100, warehouses: { OPL: 60, TKO: 40 } },
+    { code: 'B', quantity: 20 },
+    { code: 'C', quantity: 5 },
+  ])
+
+  it('商品全体の在庫数を比較し、差異を報告する', () => {
+    const result = reconcileInventory(snapshot, [
+      { code: 'A', quantity: 100 },
+      { code: 'B', quantity: 18 },
+      { code: 'C', quantity: 5 },
+    ])
+
+    expect(result.matched).toBe(2)
+    expect(result.discrepancies).toEqual([
+      {
+        code: 'B',
+        warehouse: undefined,
+        expected: 18,
+        actual: 20,
+        difference: 2,
+        reason: 'quantity_mismatch',
+      },
+    ])
+  })
+
+  it('倉庫ごとに比較し、基幹システムにない倉庫を報告する', () => {
+    const result = reconcileInventory(snapshot, [
+      { code: 'A', warehouse: 'OPL', quantity: 58 },
+      { code: 'B', quantity: 20 },
+      { code: 'C', quantity: 5 },
+    ])
+
+    expect(result.matched).toBe(2)
+    expect(result.discrepancies).toEqual([
+      {
+        code: 'A',
+        warehouse: 'OPL',
+        expected: 58,
+        actual: 60,
+        difference: 2,
+        reason: 'quantity_mismatch',
+      },
+      {
+        code: 'A',
+        warehouse: 'TKO',
+        expected: 0,
+        actual: 40,
+        difference: 40,
+        reason: 'missing_in_expected',
+      },
+    ])
+  })
+
+  it('スナップショットにない商品と基幹システムにない商品を報告する', () => {
+    const result = reconcileInventory(snapshot, [
+      { code: 'A', quantity: 100 },
+      { code: 'B', quantity: 20 },
+      { code: 'Z', quantity: 3 },
+    ])
+
+    expect(result.discrepancies.map(({ code, reason }) => ({ code, reason }))).toEqual([
+      { code: 'Z', reason: 'missing_in_openlogi' },
+      { code: 'C', reason: 'missing_in_expected' },
+    ])
+    expect(result.discrepancies[0]?.difference).toBe(-3)
+  })
+
+  it('同じ商品コード・倉庫の行を合計する', () => {
+    const result = reconcileInventory(
+      snapshot,
+      [
+        { code: 'A', warehouse: 'OPL', quantity: 50 },
+        { code: 'A', warehouse: 'OPL', quantity: 10 },
+      ],
+      { reportUnexpected: false },
+    )
+
+    expect(result).toEqual({ matched: 1, discrepancies: [] })
+  })
+
+  it('比較する在庫数と許容差を指定できる', () => {
+    const result = reconcileInventory(
+      snapshot,
+      [
+        { code: 'A', warehouse: 'OPL', quantity: 60 },
+        { code: 'A', warehouse: 'TKO', quantity: 40 },
+      ],
+      { field: 'available', tolerance: 1, reportUnexpected: false },
+    )
+
+    expect(result).toEqual({ matched: 2, discrepancies: [] })
+  })
+})
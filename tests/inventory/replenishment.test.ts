@@ -0,0 +1,251 @@
+/**
+ * 在庫の補充計画のテスト
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../setup'
+import {
+  createClient,
+  planReplenishment,
+  ValidationError,
+  type CreateWarehousingRequest,
+  type OpenLogiClient,
+  type ReorderRule,
+} from '../../src/index.js'
+
+const BASE_URL = 'http://localhost:8080/api'
+
+describe('planReplenishment', () => {
+  let client: OpenLogiClient
+  let stocks: Record<string, number>
+  let created: CreateWarehousingRequest[]
+
+  beforeEach(() => {
+    client = createClient({ apiToken: 'test-token' })
+    stocks = { A: 5, B: 50, C: 0 }
+    created = []
+    server.use(
+      http.get(`${BASE_URL}/items/:accountId`, ({ request }) => {
+        const url = new URL(request.url)
+        expect(url.searchParams.get('stock')).toBe('1')
+        const codes = url.searchParams.get('code')?.split(',') ?? []
+        return HttpResponse.json({
+          items: codes
+            .filter((code) => code in stocks)
+            .map((code) => ({
+              id: `id-${code}`,
+              code,
+              name: code,
+              stock: {
+                quantity: stocks[code]! + 10,
+                available: stocks[code],
+                shipping: 10,
+                requesting: 10,
+              },
+            })),
+        })
+      }),
+      http.post(`${BASE_URL}/warehousings`, async ({ request }) => {
+        const body = (await request.json()) as CreateWarehousingRequest
+        created.push(body)
+        if (body.items.some((item) => item.code === 'C')) {
+          return HttpResponse.json({ error: 'invalid' }, { status: 400 })
+        }
+        return HttpResponse.json({
+          id: `W${created.length}`,
+          status: 'waiting',
+          inspection_type: body.inspection_type,
+          arrival_date: body.arrival_date,
+          items: body.items.map((item) => ({ id: item.code, name: item.code, ...item })),
+        })
+      }),
+    )
+  })
+
+  const rules: ReorderRule[] = [
+    { code: 'A', reorderPoint: 10, targetLevel: 40, leadTimeDays: 3 },
+    { code: 'B', reorderPoint: 10, targetLevel: 40 },
+    { code: 'C', reorderPoint: 1, targetLevel: 20, leadTimeDays: 7 },
+    { code: 'MISSING', reorderPoint: 10, targetLevel: 40 },
+  ]
+
+  it('補充点を下回った商品の入荷依頼を入荷予定日ごとに計画する（ドライラン）', async () => {
+    const lowStock: string[] = []
+    const plan = await planReplenishment(client, rules, {
+      accountId: 'AB1234',
+      asOf: new Date(2025, 0, 20, 15, 0),
+      template: { inspection_type: 'CODE', company_memo: '自動補充' },
+      onLowStock: (line) => lowStock.push(line.code),
+    })
+
+    expect(plan.lines).toEqual([
+      {
+        code: 'A',
+        current: 5,
+        inbound: 0,
+        reorderPoint: 10,
+        targetLevel: 40,
+        quantity: 35,
+        arrival_date: '2025-01-23',
+      },
+      {
+        code: 'C',
+        current: 0,
+        inbound: 0,
+        reorderPoint: 1,
+        targetLevel: 20,
+        quantity: 20,
+        arrival_date: '2025-01-27',
+      },
+    ])
+    expect(lowStock).toEqual(['A', 'C'])
+    expect(plan.requests).toEqual([
+      {
+        inspection_type: 'CODE',
+        company_memo: '自動補充',
+        arrival_date: '2025-01-23',
+        items: [{ code: 'A', quantity: 35 }],
+      },
+      {
+        inspection_type: 'CODE',
+        company_memo: '自動補充',
+        arrival_date: '2025-01-27',
+        items: [{ code: 'C', quantity: 20 }],
+      },
+    ])
+    expect(plan.missing).toEqual(['MISSING'])
+    expect(created).toEqual([])
+  })
+
+  it('入荷待ちの入荷依頼の未入荷数を在庫数に加えて判定する', async () => {
+    server.use(
+      http.get(`${BASE_URL}/warehousings`, () =>
+        HttpResponse.json({
+          warehousings: [
+            {
+              id: 'W1',
+              status: 'waiting',
+              inspection_type: 'CODE',
+              arrival_date: '2025-01-22',
+              items: [
+                { id: 'id-A', code: 'A', name: 'A', quantity: 30, received: 10 },
+                { id: 'id-C', code: 'C', name: 'C', quantity: 30, received: 0 },
+              ],
+            },
+            {
+              id: 'W2',
+              status: 'stocked',
+              inspection_type: 'CODE',
+              arrival_date: '2025-01-10',
+              items: [{ id: 'id-A', code: 'A', name: 'A', quantity: 100, received: 100 }],
+            },
+          ],
+        }),
+      ),
+    )
+    const inboundRules: ReorderRule[] = [
+      { code: 'A', reorderPoint: 30, targetLevel: 40 },
+      { code: 'C', reorderPoint: 1, targetLevel: 20 },
+    ]
+
+    const plan = await planReplenishment(client, inboundRules, { accountId: 'AB1234' })
+    expect(plan.lines).toMatchObject([{ code: 'A', current: 5, inbound: 20, quantity: 15 }])
+
+    const withoutInbound = await planReplenishment(client, inboundRules, {
+      accountId: 'AB1234',
+      includeInbound: false,
+    })
+    expect(withoutInbound.lines).toMatchObject([
+      { code: 'A', current: 5, inbound: 0, quantity: 35 },
+      { code: 'C', current: 0, inbound: 0, quantity: 20 },
+    ])
+  })
+
+  it('25商品ごとに入荷依頼を分割する', async () => {
+    stocks = Object.fromEntries(Array.from({ length: 30 }, (_, i) => [`ITEM-${i}`, 0]))
+    const plan = await planReplenishment(
+      client,
+      Object.keys(stocks).map((code) => ({ code, reorderPoint: 1, targetLevel: 10 })),
+      { accountId: 'AB1234' },
+    )
+
+    expect(plan.requests.map((request) => request.items.length)).toEqual([25, 5])
+  })
+
+  it('accountId未指定の場合は商品IDで検索し、下書きには商品コードを指定する', async () => {
+    server.use(
+      http.get(`${BASE_URL}/items`, ({ request }) => {
+        const url = new URL(request.url)
+        expect(url.searchParams.get('stock')).toBe('1')
+        const ids = url.searchParams.get('id')?.split(',') ?? []
+        return HttpResponse.json({
+          items: ids
+            .map((id) => id.replace(/^id-/, ''))
+            .filter((code) => code in stocks)
+            .map((code) => ({
+              id: `id-${code}`,
+              code,
+              name: code,
+              stock: {
+                quantity: stocks[code]!,
+                available: stocks[code],
+                shipping: 0,
+                requesting: 0,
+              },
+            })),
+        })
+      }),
+    )
+
+    const plan = await planReplenishment(
+      client,
+      [
+        { code: 'id-A', reorderPoint: 10, targetLevel: 40 },
+        { code: 'id-B', reorderPoint: 10, targetLevel: 40 },
+        { code: 'id-MISSING', reorderPoint: 10, targetLevel: 40 },
+      ],
+      { asOf: new Date(2025, 0, 20) },
+    )
+
+    expect(plan.lines).toMatchObject([{ code: 'A', current: 5, quantity: 35 }])
+    expect(plan.requests).toEqual([
+      { inspection_type: 'CODE', arrival_date: '2025-01-20', items: [{ code: 'A', quantity: 35 }] },
+    ])
+    expect(plan.missing).toEqual(['id-MISSING'])
+  })
+
+  it('dryRun: false の場合は入荷依頼を作成し、失敗した下書きを記録する', async () => {
+    const plan = await planReplenishment(client, rules, {
+      accountId: 'AB1234',
+      asOf: new Date(2025, 0, 20),
+      dryRun: false,
+    })
+
+    expect(created).toHaveLength(2)
+    expect(plan.created.map((warehousing) => warehousing.id)).toEqual(['W1'])
+    expect(plan.failed).toHaveLength(1)
+    expect(plan.failed[0]?.request.items).toEqual([{ code: 'C', quantity: 20 }])
+  })
+
+  it('補充ルールが不正な場合はRangeErrorを投げる', async () => {
+    await expect(
+      planReplenishment(client, [
+        { code: 'A', reorderPoint: 10, targetLevel: 40 },
+        { code: 'A', reorderPoint: 5, targetLevel: 40 },
+      ]),
+    ).rejects.toThrow(RangeError)
+    await expect(
+      planReplenishment(client, [{ code: 'A', reorderPoint: 10, targetLevel: 5 }]),
+    ).rejects.toThrow(RangeError)
+  })
+
+  it('下書きがスキーマに一致しない場合はValidationErrorを投げる', async () => {
+    await expect(
+      planReplenishment(client, rules, {
+        accountId: 'AB1234',
+        template: { inspection_type: 'CODE', company_memo: 'x'.repeat(256) },
+      }),
+    ).rejects.toThrow(ValidationError)
+  })
+})
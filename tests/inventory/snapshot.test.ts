@@ -0,0 +1,151 @@
+/**
+ * 在庫スナップショットのテスト
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from '../setup'
+import {
+  createClient,
+  getInventorySnapshot,
+  toInventoryItem,
+  type ItemResponse,
+  type OpenLogiClient,
+} from '../../src/index.js'
+
+const BASE_URL = 'http://localhost:8080/api'
+
+/**
+ * 倉庫・ロットごとの在庫情報付きの商品を生成する
+ */
+function stockedItem(id: string, code: string): ItemResponse {
+  return {
+    id,
+    code,
+    name: `Item ${code}`,
+    stock: { quantity: 150, available: 120, shipping: 10, requesting: 30 },
+    stocks: [
+      {
+        warehouse: 'OPL',
+        quantity: 100,
+        available: 80,
+        shipping: 10,
+        requesting: 20,
+        lots: [
+          { expiry_at: '2026-01-20T00:00:00Z', quantity: 60, available: 60 },
+          { expiry_at: '2026-03-20T00:00:00Z', quantity: 40 },
+        ],
+      },
+      { warehouse: 'TKO', quantity: 50, available: 40, shipping: 0, requesting: 10 },
+    ],
+  }
+}
+
+describe('toInventoryItem', () => {
+  it('倉庫・ロットごとの在庫数に正規化する', () => {
+    const item = toInventoryItem(stockedItem('item-1', 'CODE-1'))
+
+    expect(item.total).toEqual({
+      quantity: 150,
+      available: 120,
+      shipping: 10,
+      requesting: 30,
+      backordered: 0,
+      unallocatable: 0,
+    })
+    expect([...item.warehouses.keys()]).toEqual(['OPL', 'TKO'])
+    expect(item.warehouses.get('OPL')?.lots).toEqual([
+      {
+        expiry_at: '2026-01-20T00:00:00Z',
+        manufacture_date: null,
+        lot_allocatable_at: null,
+        quantity: 60,
+        available: 60,
+      },
+      {
+        expiry_at: '2026-03-20T00:00:00Z',
+        manufacture_date: null,
+        lot_allocatable_at: null,
+        quantity: 40,
+        available: undefined,
+      },
+    ])
+    expect(item.warehouses.get('TKO')?.lots).toEqual([])
+  })
+
+  it('在庫数が数値の場合は倉庫ごとの在庫数を合計する', () => {
+    const item = toInventoryItem({ ...stockedItem('item-1', 'CODE-1'), stock: 150 })
+
+    expect(item.total.quantity).toBe(150)
+    expect(item.total.available).toBe(120)
+    expect(item.total.requesting).toBe(30)
+  })
+
+  it('倉庫ごとの在庫数もない場合は数値を総数・配送可在庫数とする', () => {
+    const item = toInventoryItem({ id: 'item-1', code: 'CODE-1', name: 'Item', stock: 5 })
+
+    expect(item.total.quantity).toBe(5)
+    expect(item.total.available).toBe(5)
+    expect(item.warehouses.size).toBe(0)
+  })
+})
+
+describe('getInventorySnapshot', () => {
+  let client: OpenLogiClient
+  let requests: URL[]
+
+  beforeEach(() => {
+    client = createClient({ apiToken: 'test-token' })
+    requests = []
+    server.use(
+      http.get(`${BASE_URL}/items`, ({ request }) => {
+        const url = new URL(request.url)
+        requests.push(url)
+        const ids = url.searchParams.get('id')?.split(',') ?? []
+        return HttpResponse.json({
+          items: ids.filter((id) => id !== 'missing').map((id) => stockedItem(id, `CODE-${id}`)),
+        })
+      }),
+      http.get(`${BASE_URL}/items/:accountId`, ({ request }) => {
+        const url = new URL(request.url)
+        requests.push(url)
+        const codes = url.searchParams.get('code')?.split(',') ?? []
+        return HttpResponse.json({
+          items: codes
+            .filter((code) => code !== 'MISSING')
+            .map((code) => stockedItem(`id-${code}`, code)),
+        })
+      }),
+    )
+  })
+
+  it('商品IDで在庫情報付きの商品を取得し、商品コードをキーにする', async () => {
+    const snapshot = await getInventorySnapshot(client, ['a', 'b', 'missing'])
+
+    expect(requests).toHaveLength(1)
+    expect(requests[0]?.searchParams.get('stock')).toBe('1')
+    expect([...snapshot.items.keys()]).toEqual(['CODE-a', 'CODE-b'])
+    expect(snapshot.missing).toEqual(['missing'])
+    expect(snapshot.items.get('CODE-a')?.warehouses.get('TKO')?.available).toBe(40)
+    expect(Date.parse(snapshot.takenAt)).not.toBeNaN()
+  })
+
+  it('accountIdを指定した場合は商品コードで分割して取得する', async () => {
+    const snapshot = await getInventorySnapshot(client, ['C1', 'C2', 'MISSING', 'C1'], {
+      accountId: 'AB1234',
+      chunkSize: 2,
+    })
+
+    expect(requests.map((url) => url.pathname)).toEqual(['/api/items/AB1234', '/api/items/AB1234'])
+    expect(requests.every((url) => url.searchParams.get('stock') === '1')).toBe(true)
+    expect([...snapshot.items.keys()]).toEqual(['C1', 'C2'])
+    expect(snapshot.missing).toEqual(['MISSING'])
+  })
+
+  it('chunkSizeが100を超える場合はRangeErrorを投げる', async () => {
+    await expect(
+      getInventorySnapshot(client, ['C1'], { accountId: 'AB1234', chunkSize: 101 }),
+    ).rejects.toThrow(RangeError)
+    expect(requests).toHaveLength(0)
+  })
+})
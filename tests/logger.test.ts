@@ -0,0 +1,140 @@
+/**
+ * ロガー連携のテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from './setup'
+import {
+  createClient,
+  createShipment,
+  getItem,
+  redact,
+  REDACTED,
+  type Logger,
+} from '../src/index.js'
+
+const BASE_URL = 'http://localhost:8080/api'
+
+type LogEntry = { level: string; data: Record<string, unknown>; message?: string }
+
+function createMemoryLogger(withDebug = true): { logger: Logger; entries: LogEntry[] } {
+  const entries: LogEntry[] = []
+  const log =
+    (level: string) =>
+    (data: Record<string, unknown>, message?: string): void => {
+      entries.push({ level, data, message })
+    }
+  const logger: Logger = { info: log('info'), warn: log('warn'), error: log('error') }
+  if (withDebug) {
+    logger.debug = log('debug')
+  }
+  return { logger, entries }
+}
+
+describe('redact', () => {
+  it('recipient/sender配下とphone・shipping_emailをマスクする', () => {
+    const result = redact({
+      order_no: 'ORDER-001',
+      shipping_email: 'taro@example.com',
+      recipient: { name: '山田太郎', address: { line: '千代田1-1' }, phone: '0312345678' },
+      sender: { name: '株式会社テスト', company: null },
+      items: [{ code: 'TEST-001', quantity: 1 }],
+      contact: { phone: '09012345678' },
+    })
+
+    expect(result).toEqual({
+      order_no: 'ORDER-001',
+      shipping_email: REDACTED,
+      recipient: { name: REDACTED, address: { line: REDACTED }, phone: REDACTED },
+      sender: { name: REDACTED, company: null },
+      items: [{ code: 'TEST-001', quantity: 1 }],
+      contact: { phone: REDACTED },
+    })
+  })
+
+  it('AuthorizationヘッダーのBearerトークンをマスクする', () => {
+    expect(redact({ authorization: 'Bearer secret-token', accept: 'application/json' })).toEqual({
+      authorization: `Bearer ${REDACTED}`,
+      accept: 'application/json',
+    })
+  })
+})
+
+describe('ClientConfig.logger', () => {
+  it('method・path・status・duration・attemptを出力する', async () => {
+    const { logger, entries } = createMemoryLogger(false)
+    const client = createClient({ apiToken: 'test-token', logger })
+
+    await getItem(client, 'item-001', { stock: 1 })
+
+    expect(entries).toHaveLength(1)
+    expect(entries[0]?.level).toBe('info')
+    expect(entries[0]?.data).toMatchObject({
+      method: 'GET',
+      path: '/api/items/item-001?stock=1',
+      status: 200,
+      attempt: 1,
+    })
+    expect(typeof entries[0]?.data['duration']).toBe('number')
+  })
+
+  it('debugレベルではマスク済みのヘッダーとボディを出力する', async () => {
+    const { logger, entries } = createMemoryLogger()
+    const client = createClient({ apiToken: 'secret-token', logger })
+
+    await createShipment(client, {
+      order_no: 'ORDER-001',
+      shipping_email: 'taro@example.com',
+      recipient: {
+        name: '山田太郎',
+        postcode: '1700013',
+        prefecture: '東京都',
+        address1: '豊島区東池袋1-34-5',
+        phone: '0333333333',
+      },
+      items: [{ code: 'TEST-001', quantity: 1 }],
+    })
+
+    const serialized = JSON.stringify(entries)
+    expect(serialized).not.toContain('secret-token')
+    expect(serialized).not.toContain('山田太郎')
+    expect(serialized).not.toContain('0333333333')
+    expect(serialized).not.toContain('taro@example.com')
+
+    const requestLog = entries.find((entry) => entry.message === 'OpenLogi API request')
+    expect(requestLog?.data['body']).toMatchObject({ order_no: 'ORDER-001' })
+  })
+
+  it('エラーステータスはwarnで出力する', async () => {
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, () => {
+        return HttpResponse.json({ message: 'Not Found' }, { status: 404 })
+      }),
+    )
+
+    const { logger, entries } = createMemoryLogger(false)
+    const client = createClient({ apiToken: 'test-token', logger })
+
+    await expect(getItem(client, 'missing')).rejects.toThrow()
+
+    expect(entries.map((entry) => entry.level)).toEqual(['warn'])
+    expect(entries[0]?.data['status']).toBe(404)
+  })
+
+  it('通信エラーはerrorで出力する', async () => {
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, () => {
+        return HttpResponse.error()
+      }),
+    )
+
+    const { logger, entries } = createMemoryLogger(false)
+    const client = createClient({ apiToken: 'test-token', logger, retry: 0 })
+
+    await expect(getItem(client, 'item-001')).rejects.toThrow()
+
+    expect(entries.map((entry) => entry.level)).toEqual(['error'])
+    expect(entries[0]?.data).toMatchObject({ method: 'GET', path: '/api/items/item-001' })
+  })
+})
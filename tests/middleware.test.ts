@@ -0,0 +1,195 @@
+/**
+ * ミドルウェアのテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from './setup'
+import {
+  createClient,
+  getItem,
+  deleteItemImage,
+  getWarehousingLabel,
+  NotFoundError,
+  type Middleware,
+  type MiddlewareContext,
+} from '../src/index.js'
+
+const BASE_URL = 'http://localhost:8080/api'
+
+describe('ミドルウェア', () => {
+  it('beforeRequestでヘッダーを追加できる', async () => {
+    let traceHeader: string | null = null
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, ({ request, params }) => {
+        traceHeader = request.headers.get('X-Trace-Id')
+        return HttpResponse.json({ id: params.id, code: 'TEST-001', name: 'Test Item' })
+      }),
+    )
+
+    const client = createClient({
+      apiToken: 'test-token',
+      middleware: [
+        {
+          beforeRequest: (request) => {
+            request.headers.set('X-Trace-Id', 'trace-123')
+          },
+        },
+      ],
+    })
+
+    await getItem(client, 'item-001')
+
+    expect(traceHeader).toBe('trace-123')
+  })
+
+  it('beforeRequestで返したRequestに置き換えられる', async () => {
+    let requestedPath = ''
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, ({ request, params }) => {
+        requestedPath = new URL(request.url).pathname
+        return HttpResponse.json({ id: params.id, code: 'TEST-001', name: 'Test Item' })
+      }),
+    )
+
+    const client = createClient({
+      apiToken: 'test-token',
+      middleware: [
+        {
+          beforeRequest: (request) =>
+            new Request(request.url.replace('item-001', 'item-002'), request),
+        },
+      ],
+    })
+
+    const item = await getItem(client, 'item-001')
+
+    expect(requestedPath).toBe('/api/items/item-002')
+    expect(item.id).toBe('item-002')
+  })
+
+  it('登録順に実行され、afterResponseでステータスを取得できる', async () => {
+    const calls: string[] = []
+    const recorder = (name: string): Middleware => ({
+      beforeRequest: () => {
+        calls.push(`${name}:before`)
+      },
+      afterResponse: (_request, response) => {
+        calls.push(`${name}:after:${response.status}`)
+      },
+    })
+
+    const client = createClient({
+      apiToken: 'test-token',
+      middleware: [recorder('a'), recorder('b')],
+    })
+
+    await getItem(client, 'item-001')
+
+    expect(calls).toEqual(['a:before', 'b:before', 'a:after:200', 'b:after:200'])
+  })
+
+  it('client.httpを直接使用するAPIにも適用される', async () => {
+    const urls: string[] = []
+    const client = createClient({
+      apiToken: 'test-token',
+      middleware: [
+        {
+          afterResponse: (request) => {
+            urls.push(new URL(request.url).pathname)
+          },
+        },
+      ],
+    })
+
+    await deleteItemImage(client, 'item-001', 'img-001')
+    await getWarehousingLabel(client, 'wh-001')
+
+    expect(urls).toEqual(['/api/items/item-001/images/img-001', '/api/warehousings/wh-001.pdf'])
+  })
+
+  it('onErrorにはステータスに応じたOpenLogiErrorが渡される', async () => {
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, () => {
+        return HttpResponse.json({ message: 'Not Found' }, { status: 404 })
+      }),
+    )
+
+    const errors: unknown[] = []
+    const client = createClient({
+      apiToken: 'test-token',
+      middleware: [
+        {
+          onError: (_request, error) => {
+            errors.push(error)
+          },
+        },
+      ],
+    })
+
+    await expect(getItem(client, 'missing')).rejects.toThrow(NotFoundError)
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toBeInstanceOf(NotFoundError)
+  })
+
+  it('リトライごとに試行回数が増加する', async () => {
+    let count = 0
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, ({ params }) => {
+        count++
+        if (count < 3) {
+          return HttpResponse.json({ message: 'Unavailable' }, { status: 503 })
+        }
+        return HttpResponse.json({ id: params.id, code: 'TEST-001', name: 'Test Item' })
+      }),
+    )
+
+    const contexts: MiddlewareContext[] = []
+    const errorAttempts: number[] = []
+    const client = createClient({
+      apiToken: 'test-token',
+      retry: { limit: 2, delay: () => 0 },
+      middleware: [
+        {
+          afterResponse: (_request, _response, context) => {
+            contexts.push({ ...context })
+          },
+          onError: (_request, _error, context) => {
+            errorAttempts.push(context.attempt)
+          },
+        },
+      ],
+    })
+
+    await getItem(client, 'item-001')
+
+    expect(contexts.map((context) => context.attempt)).toEqual([1, 2, 3])
+    expect(errorAttempts).toEqual([1, 2])
+    expect(contexts.every((context) => typeof context.startedAt === 'number')).toBe(true)
+  })
+
+  it('ネットワークエラーでもonErrorが呼ばれる', async () => {
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, () => {
+        return HttpResponse.error()
+      }),
+    )
+
+    const errors: unknown[] = []
+    const client = createClient({
+      apiToken: 'test-token',
+      retry: 0,
+      middleware: [
+        {
+          onError: (_request, error) => {
+            errors.push(error)
+          },
+        },
+      ],
+    })
+
+    await expect(getItem(client, 'item-001')).rejects.toThrow()
+    expect(errors).toHaveLength(1)
+    expect(errors[0]).toBeInstanceOf(TypeError)
+  })
+})
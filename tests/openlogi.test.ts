@@ -0,0 +1,98 @@
+/**
+ * OpenLogiクラスのテスト
+ */
+
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { server } from './setup'
+import { OpenLogi, createClient, listItems, NotFoundError } from '../src/index.js'
+
+const BASE_URL = 'http://localhost:8080/api'
+
+describe('OpenLogi', () => {
+  let openlogi: OpenLogi
+
+  beforeEach(() => {
+    openlogi = new OpenLogi({ apiToken: 'test-token' })
+  })
+
+  it('設定からクライアントを作成する', () => {
+    expect(openlogi.client.config.apiToken).toBe('test-token')
+    expect(openlogi.client.config.baseUrl).toBe('http://localhost:8080')
+  })
+
+  it('作成済みのクライアントを再利用できる', () => {
+    const client = createClient({ apiToken: 'shared-token' })
+    const instance = new OpenLogi(client)
+
+    expect(instance.client).toBe(client)
+  })
+
+  it('リソースの名前空間を公開する', () => {
+    expect(typeof openlogi.items.list).toBe('function')
+    expect(typeof openlogi.shipments.create).toBe('function')
+    expect(typeof openlogi.transfers.cancel).toBe('function')
+    expect(typeof openlogi.warehousings.getLabel).toBe('function')
+  })
+
+  it('items.listは関数ベースAPIと同じ結果を返す', async () => {
+    const fromClass = await openlogi.items.list({ id: 'item-001,item-002' })
+    const fromFunction = await listItems(openlogi.client, { id: 'item-001,item-002' })
+
+    expect(fromClass).toEqual(fromFunction)
+    expect(fromClass.items).toHaveLength(2)
+  })
+
+  it('shipments.getで出荷依頼を取得できる', async () => {
+    const shipment = await openlogi.shipments.get('SHIP-001')
+
+    expect(shipment.id).toBe('SHIP-001')
+  })
+
+  it('transfers.createで倉庫移動を作成できる', async () => {
+    server.use(
+      http.post(`${BASE_URL}/shipments/transfer`, () => {
+        return HttpResponse.json({
+          id: 'TS001-S000001',
+          items: [{ code: 'item-001', quantity: 1 }],
+          destination: { warehouse: 'BASE3' },
+        })
+      }),
+    )
+
+    const transfer = await openlogi.transfers.create({
+      warehouse: 'BASE2',
+      destination: { warehouse: 'BASE3' },
+      items: [{ code: 'item-001', quantity: 1 }],
+    })
+
+    expect(transfer.destination?.warehouse).toBe('BASE3')
+  })
+
+  it('warehousings.listで入荷依頼一覧を取得できる', async () => {
+    const response = await openlogi.warehousings.list()
+
+    expect(Array.isArray(response.warehousings)).toBe(true)
+  })
+
+  it('エラーは関数ベースAPIと同じ型でスローされる', async () => {
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, () => {
+        return HttpResponse.json({ message: 'Not Found' }, { status: 404 })
+      }),
+    )
+
+    await expect(openlogi.items.get('missing')).rejects.toThrow(NotFoundError)
+  })
+
+  it('リソースの関数をvi.spyOnで差し替えられる', async () => {
+    const shipment = { id: 'ship-mock', items: [] }
+    const spy = vi.spyOn(openlogi.shipments, 'get').mockResolvedValue(shipment)
+
+    await expect(openlogi.shipments.get('ship-001')).resolves.toBe(shipment)
+    expect(spy).toHaveBeenCalledWith('ship-001')
+
+    spy.mockRestore()
+    await expect(openlogi.shipments.get('ship-001')).resolves.toMatchObject({ id: 'ship-001' })
+  })
+})
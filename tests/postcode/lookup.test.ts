@@ -0,0 +1,145 @@
+/**
+ * 郵便番号の検索のテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { lookupPostcode, PostcodeDataset, PREFECTURES } from '../../src/index.js'
+import { POSTCODE_AREAS, POSTCODE_SHARED_AREAS } from '../../src/postcode/areas.js'
+
+const KEN_ALL = [
+  '13101,"100  ","1000001","ﾄｳｷｮｳﾄ","ﾁﾖﾀﾞｸ","ﾁﾖﾀﾞ","東京都","千代田区","千代田",0,0,0,0,0,0',
+  '13101,"100  ","1000000","ﾄｳｷｮｳﾄ","ﾁﾖﾀﾞｸ","ｲｶﾆｹｲｻｲｶﾞﾅｲﾊﾞｱｲ","東京都","千代田区","以下に掲載がない場合",0,0,0,0,0,0',
+  '24303,"49808","4980801","ﾐｴｹﾝ","ｸﾜﾅｸﾞﾝｷｿｻｷﾁｮｳ","ｱｲｶﾞﾜ","三重県","桑名郡木曽岬町","相川",0,0,0,0,0,0',
+  '01101,"064  ","0640941","ﾎｯｶｲﾄﾞｳ","ｻｯﾎﾟﾛｼﾁｭｳｵｳｸ","ｱｻﾋｶﾞｵｶ","北海道","札幌市中央区","旭ケ丘",0,0,1,0,0,0',
+  '01101,"064  ","0640941","ﾎｯｶｲﾄﾞｳ","ｻｯﾎﾟﾛｼﾁｭｳｵｳｸ","ﾐﾔﾉﾓﾘ","北海道","札幌市中央区","宮の森",0,0,1,0,0,0',
+].join('\r\n')
+
+describe('lookupPostcode', () => {
+  it('同梱の対応表から都道府県・市区町村を返す', () => {
+    expect(lookupPostcode('1000001')).toEqual({
+      postcode: '1000001',
+      prefecture: '東京都',
+      prefectures: ['東京都'],
+      city: '千代田区',
+      town: undefined,
+    })
+    expect(lookupPostcode('〒５３０－０００１')).toMatchObject({
+      prefecture: '大阪府',
+      city: '大阪市北区',
+    })
+    expect(lookupPostcode('060-0001')?.city).toBe('札幌市中央区')
+    expect(lookupPostcode('4980801')).toMatchObject({
+      prefecture: '三重県',
+      prefectures: ['三重県'],
+      city: '桑名郡木曽岬町',
+    })
+    expect(lookupPostcode('6180011')).toMatchObject({
+      prefectures: ['大阪府'],
+      city: '三島郡島本町',
+    })
+  })
+
+  it('複数の市区町村にまたがる郵便番号は市区町村を返さない', () => {
+    expect(lookupPostcode('4980000')).toMatchObject({
+      prefecture: '愛知県',
+      prefectures: ['愛知県', '三重県'],
+      city: undefined,
+    })
+    expect(lookupPostcode('0040000')).toMatchObject({
+      prefecture: '北海道',
+      prefectures: ['北海道'],
+      city: undefined,
+    })
+  })
+
+  it('対応表にない郵便番号は上3桁の区域から都道府県を判定する', () => {
+    expect(lookupPostcode('1009999')).toEqual({
+      postcode: '1009999',
+      prefecture: '東京都',
+      prefectures: ['東京都'],
+      city: undefined,
+      town: undefined,
+    })
+    expect(lookupPostcode('9009999')?.prefecture).toBe('沖縄県')
+  })
+
+  it('区域が都道府県の境界をまたぐ場合は候補をすべて返す', () => {
+    expect(lookupPostcode('4989999')).toMatchObject({
+      prefecture: '愛知県',
+      prefectures: ['愛知県', '三重県'],
+    })
+    expect(lookupPostcode('6189999')?.prefectures).toEqual(['京都府', '大阪府'])
+    expect(lookupPostcode('6849999')?.prefectures).toEqual(['鳥取県', '島根県'])
+    expect(lookupPostcode('6859999')?.prefectures).toEqual(['島根県'])
+    expect(lookupPostcode('8719999')?.prefectures).toEqual(['大分県', '福岡県'])
+  })
+
+  it('7桁の数字でない場合、または該当する区域がない場合はundefinedを返す', () => {
+    expect(lookupPostcode('100-001')).toBeUndefined()
+    expect(lookupPostcode('0000000')).toBeUndefined()
+  })
+
+  it('区域表は001〜999をすべての都道府県に割り当てる', () => {
+    const covered = new Set<number>()
+    const prefectures = new Set<string>()
+    for (const entry of POSTCODE_AREAS.split(',')) {
+      const [range = '', code = ''] = entry.split(':')
+      const [start = '', end = ''] = range.split('-')
+      for (let area = Number(start); area <= Number(end); area++) {
+        expect(covered.has(area)).toBe(false)
+        covered.add(area)
+      }
+      prefectures.add(PREFECTURES[Number(code) - 1] ?? '')
+    }
+
+    expect(covered.size).toBe(999)
+    expect(prefectures.size).toBe(47)
+    for (const entry of POSTCODE_SHARED_AREAS.split(',')) {
+      const [area = '', code = ''] = entry.split(':')
+      expect(covered.has(Number(area))).toBe(true)
+      expect(PREFECTURES[Number(code) - 1]).toBeDefined()
+    }
+  })
+})
+
+describe('PostcodeDataset', () => {
+  const dataset = PostcodeDataset.fromJapanPostCsv(KEN_ALL)
+
+  it('日本郵便の郵便番号データから市区町村・町域を返す', () => {
+    expect(dataset.size).toBe(4)
+    expect(lookupPostcode('100-0001', { dataset })).toEqual({
+      postcode: '1000001',
+      prefecture: '東京都',
+      prefectures: ['東京都'],
+      city: '千代田区',
+      town: '千代田',
+    })
+    expect(lookupPostcode('1000000', { dataset })?.town).toBeUndefined()
+    expect(lookupPostcode('0640941', { dataset })).toMatchObject({
+      city: '札幌市中央区',
+      town: undefined,
+    })
+  })
+
+  it('データにある郵便番号は同梱の対応表よりデータを優先する', () => {
+    expect(lookupPostcode('4980801')?.town).toBeUndefined()
+    expect(lookupPostcode('4980801', { dataset })).toMatchObject({
+      prefecture: '三重県',
+      prefectures: ['三重県'],
+      city: '桑名郡木曽岬町',
+      town: '相川',
+    })
+  })
+
+  it('データにない郵便番号は同梱の対応表から判定する', () => {
+    expect(lookupPostcode('5300001', { dataset })).toMatchObject({
+      prefecture: '大阪府',
+      city: '大阪市北区',
+      town: undefined,
+    })
+    expect(lookupPostcode('5309999', { dataset })).toMatchObject({
+      prefecture: '大阪府',
+      city: undefined,
+    })
+  })
+})
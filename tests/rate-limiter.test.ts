@@ -0,0 +1,175 @@
+/**
+ * レート制限のテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { http, HttpResponse, delay } from 'msw'
+import { server } from './setup'
+import { createClient, getItem, RateLimiter, RateLimitError } from '../src/index.js'
+
+const BASE_URL = 'http://localhost:8080/api'
+
+describe('RateLimiter', () => {
+  it('不正な設定はRangeErrorをスローする', () => {
+    expect(() => new RateLimiter({ requestsPerSecond: 0 })).toThrow(RangeError)
+    expect(() => new RateLimiter({ maxConcurrency: 0 })).toThrow(RangeError)
+    expect(() => new RateLimiter({ maxConcurrency: 1.5 })).toThrow(RangeError)
+  })
+
+  it('バケット容量を超えた分はトークンの補充を待つ', async () => {
+    const limiter = new RateLimiter({ requestsPerSecond: 10 })
+    const startedAt = Date.now()
+
+    const releases = await Promise.all(Array.from({ length: 12 }, () => limiter.acquire()))
+    releases.forEach((release) => release())
+
+    // 10件は即時、残り2件は100msごとに補充される
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(180)
+  })
+
+  it('同時実行数を超えた分は解放を待つ', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 2 })
+    const order: number[] = []
+
+    const first = await limiter.acquire()
+    await limiter.acquire()
+    const third = limiter.acquire().then((release) => {
+      order.push(3)
+      return release
+    })
+
+    await new Promise((resolve) => setTimeout(resolve, 20))
+    expect(order).toEqual([])
+
+    first()
+    first()
+    await third
+    expect(order).toEqual([3])
+  })
+
+  it('pause中は払い出しを停止する', async () => {
+    const limiter = new RateLimiter()
+    limiter.pause(150)
+    const startedAt = Date.now()
+
+    await limiter.acquire()
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(140)
+  })
+
+  it('AbortSignalで待機を中断できる', async () => {
+    const limiter = new RateLimiter({ maxConcurrency: 1 })
+    await limiter.acquire()
+    const controller = new AbortController()
+
+    const waiting = limiter.acquire(controller.signal)
+    controller.abort(new Error('aborted'))
+
+    await expect(waiting).rejects.toThrow('aborted')
+  })
+})
+
+describe('ClientConfig.rateLimit', () => {
+  it('同時実行数を制限する', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, async ({ params }) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await delay(20)
+        inFlight--
+        return HttpResponse.json({ id: params.id, code: 'TEST-001', name: 'Test Item' })
+      }),
+    )
+
+    const client = createClient({ apiToken: 'test-token', rateLimit: { maxConcurrency: 2 } })
+
+    await Promise.all(['a', 'b', 'c', 'd', 'e'].map((id) => getItem(client, id)))
+
+    expect(maxInFlight).toBe(2)
+  })
+
+  it('429を受信するとRetry-Afterの秒数だけ全体を停止する', async () => {
+    const requestedAt: number[] = []
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, ({ params }) => {
+        requestedAt.push(Date.now())
+        if (params.id === 'limited') {
+          return HttpResponse.json(
+            { message: 'Too Many Requests' },
+            { status: 429, headers: { 'Retry-After': '1' } },
+          )
+        }
+        return HttpResponse.json({ id: params.id, code: 'TEST-001', name: 'Test Item' })
+      }),
+    )
+
+    const client = createClient({ apiToken: 'test-token', retry: 0, rateLimit: {} })
+
+    await expect(getItem(client, 'limited')).rejects.toThrow(RateLimitError)
+    await getItem(client, 'item-001')
+
+    expect(requestedAt).toHaveLength(2)
+    expect((requestedAt[1] ?? 0) - (requestedAt[0] ?? 0)).toBeGreaterThanOrEqual(950)
+  })
+
+  it('afterResponseのミドルウェアが例外を送出しても停止と解放を行う', async () => {
+    const requestedAt: number[] = []
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, ({ params }) => {
+        requestedAt.push(Date.now())
+        if (params.id === 'limited') {
+          return HttpResponse.json(
+            { message: 'Too Many Requests' },
+            { status: 429, headers: { 'Retry-After': '1' } },
+          )
+        }
+        return HttpResponse.json({ id: params.id, code: 'TEST-001', name: 'Test Item' })
+      }),
+    )
+
+    const client = createClient({
+      apiToken: 'test-token',
+      retry: 0,
+      rateLimit: { maxConcurrency: 1 },
+      middleware: [
+        {
+          afterResponse: (_request, response) => {
+            if (response.status === 429) {
+              throw new Error('hook failed')
+            }
+          },
+        },
+      ],
+    })
+
+    await expect(getItem(client, 'limited')).rejects.toThrow('hook failed')
+    await getItem(client, 'item-001')
+
+    expect(requestedAt).toHaveLength(2)
+    expect((requestedAt[1] ?? 0) - (requestedAt[0] ?? 0)).toBeGreaterThanOrEqual(950)
+  })
+
+  it('同じRateLimiterを渡したクライアント間で制限を共有する', async () => {
+    let inFlight = 0
+    let maxInFlight = 0
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, async ({ params }) => {
+        inFlight++
+        maxInFlight = Math.max(maxInFlight, inFlight)
+        await delay(20)
+        inFlight--
+        return HttpResponse.json({ id: params.id, code: 'TEST-001', name: 'Test Item' })
+      }),
+    )
+
+    const limiter = new RateLimiter({ maxConcurrency: 1 })
+    const clientA = createClient({ apiToken: 'token-a', rateLimit: limiter })
+    const clientB = createClient({ apiToken: 'token-b', rateLimit: limiter })
+
+    await Promise.all([getItem(clientA, 'a'), getItem(clientB, 'b'), getItem(clientA, 'c')])
+
+    expect(maxInFlight).toBe(1)
+  })
+})
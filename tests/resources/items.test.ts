@@ -8,9 +8,11 @@ import { server } from '../setup'
 import { createClient } from '../../src/client'
 import {
   listItems,
+  listItemsByIds,
   listItemsByAccountId,
   createItem,
   bulkCreateItems,
+  bulkCreateItemsChunked,
   getItem,
   updateItem,
   deleteItem,
@@ -73,6 +75,39 @@ describe('Items API', () => {
     })
   })
 
+  describe('listItemsByIds', () => {
+    it('100件を超えるIDを分割して取得する', async () => {
+      const ids = Array.from({ length: 250 }, (_, i) => `item-${i}`)
+      const result = await listItemsByIds(client, ids, { concurrency: 2 })
+
+      expect(result.items).toHaveLength(250)
+      expect(result.items.map((item) => item.id)).toEqual(ids)
+      expect(result.missingIds).toEqual([])
+    })
+
+    it('返されなかったIDを報告する', async () => {
+      server.use(
+        http.get(`${BASE_URL}/items`, ({ request }) => {
+          const url = new URL(request.url)
+          const ids = url.searchParams.get('id')?.split(',') ?? []
+          expect(url.searchParams.get('stock')).toBe('1')
+          return HttpResponse.json({
+            items: ids
+              .filter((id) => id !== 'item-002')
+              .map((id) => ({ id, code: id, name: id, stock: 5 })),
+          })
+        }),
+      )
+
+      const result = await listItemsByIds(client, ['item-001', 'item-002', 'item-001'], {
+        stock: 1,
+      })
+
+      expect(result.items.map((item) => item.id)).toEqual(['item-001'])
+      expect(result.missingIds).toEqual(['item-002'])
+    })
+  })
+
   describe('createItem', () => {
     it('商品を作成できる', async () => {
       const itemData = {
@@ -135,6 +170,42 @@ describe('Items API', () => {
     })
   })
 
+  describe('bulkCreateItemsChunked', () => {
+    it('検証に失敗した商品と重複した商品を除いて、100件ずつ一括作成する', async () => {
+      const requests: number[] = []
+      server.use(
+        http.post(`${BASE_URL}/items/bulk`, async ({ request }) => {
+          const body = (await request.json()) as { items: Array<{ code: string }> }
+          requests.push(body.items.length)
+          return HttpResponse.json({
+            items: body.items.map((item) => ({
+              id: `id-${item.code}`,
+              code: item.code,
+              name: item.code,
+            })),
+          })
+        }),
+      )
+      const items = Array.from({ length: 150 }, (_, i) => ({ code: `BULK-${i}` }))
+
+      const result = await bulkCreateItemsChunked(client, [
+        ...items,
+        { code: '' },
+        { code: 'BULK-0', price: 100 },
+      ])
+
+      expect(requests).toEqual([100, 50])
+      expect(result.succeeded).toHaveLength(150)
+      expect(result.succeeded[149]).toMatchObject({ index: 149, result: { code: 'BULK-149' } })
+      expect(result.failed).toHaveLength(1)
+      expect(result.failed[0]?.index).toBe(150)
+      expect(result.failed[0]?.error).toBeInstanceOf(ValidationError)
+      expect(result.skipped).toEqual([
+        { index: 151, input: { code: 'BULK-0', price: 100 }, reason: 'duplicate' },
+      ])
+    })
+  })
+
   describe('getItem', () => {
     it('商品を取得できる', async () => {
       const response = await getItem(client, 'item-001')
@@ -3,13 +3,15 @@
  */
 
 import { describe, it, expect, beforeEach } from 'vitest'
-import { http, HttpResponse } from 'msw'
+import { delay, http, HttpResponse } from 'msw'
 import { server } from '../setup'
 import { createClient } from '../../src/client'
 import {
   listShipments,
+  listShipmentsByIds,
   createShipment,
   bulkCreateShipments,
+  bulkCreateShipmentsChunked,
   getShipment,
   updateShipment,
   deleteShipment,
@@ -17,6 +19,7 @@ import {
   cancelShipment,
   listShippedShipments,
   getShippedShipmentByDate,
+  iterateShippedShipments,
   getInternationalRegions,
   getInternationalCurrencies,
   clearShipmentAllocation,
@@ -24,6 +27,8 @@ import {
   updateTransfer,
   modifyTransfer,
   cancelTransfer,
+  cancelShipmentByAccountId,
+  waitForShipmentStatus,
 } from '../../src/resources/shipments'
 import {
   ApiError,
@@ -31,6 +36,10 @@ import {
   RateLimitError,
   AuthenticationError,
   NotFoundError,
+  OpenLogiError,
+  IdempotencyError,
+  InvalidShipmentStateError,
+  WaitForStatusError,
 } from '../../src/errors'
 
 const BASE_URL = 'http://localhost:8080/api'
@@ -73,6 +82,37 @@ describe('Shipments API', () => {
     })
   })
 
+  describe('listShipmentsByIds', () => {
+    it('100件ごとに分割して取得し、入力順にマージする', async () => {
+      const requestedChunks: string[][] = []
+      server.use(
+        http.get(`${BASE_URL}/shipments`, ({ request }) => {
+          const ids = new URL(request.url).searchParams.get('id')?.split(',') ?? []
+          requestedChunks.push(ids)
+          return HttpResponse.json({
+            shipments: ids
+              .filter((id) => id !== 'ship-missing')
+              .reverse()
+              .map((id) => ({ id, items: [{ code: 'TEST-001', quantity: 1 }] })),
+          })
+        }),
+      )
+
+      const ids = Array.from({ length: 150 }, (_, i) => `ship-${i}`)
+      const result = await listShipmentsByIds(client, [...ids, 'ship-missing'])
+
+      expect(requestedChunks.map((chunk) => chunk.length).sort()).toEqual([100, 51])
+      expect(result.shipments.map((shipment) => shipment.id)).toEqual(ids)
+      expect(result.missingIds).toEqual(['ship-missing'])
+    })
+
+    it('空のID一覧ではリクエストしない', async () => {
+      const result = await listShipmentsByIds(client, [])
+
+      expect(result).toEqual({ shipments: [], missingIds: [] })
+    })
+  })
+
   describe('createShipment', () => {
     it('出荷依頼を作成できる', async () => {
       const shipmentData = {
@@ -302,6 +342,63 @@ describe('Shipments API', () => {
     })
   })
 
+  describe('bulkCreateShipmentsChunked', () => {
+    const shipment = (orderNo: string) => ({
+      order_no: orderNo,
+      items: [{ code: 'TEST-001', quantity: 1 }],
+      recipient: {
+        name: '山田太郎',
+        postcode: '1000001',
+        prefecture: '東京都',
+        address1: '千代田1-1-1',
+        phone: '09012345678',
+      },
+    })
+
+    it('有効な出荷依頼のみを一括作成し、失敗したチャンクを記録する', async () => {
+      const bodies: Array<{ shipments: Array<{ order_no: string }>; apply_rule?: boolean }> = []
+      server.use(
+        http.post(`${BASE_URL}/shipments/bulk`, async ({ request }) => {
+          const body = (await request.json()) as (typeof bodies)[number]
+          bodies.push(body)
+          if (body.shipments.some((s) => s.order_no === 'ORDER-FAIL')) {
+            return HttpResponse.json({ error: 'conflict' }, { status: 409 })
+          }
+          return HttpResponse.json({
+            shipments: body.shipments.map((s, index) => ({ id: `ship-${index}`, ...s })),
+          })
+        }),
+      )
+
+      const result = await bulkCreateShipmentsChunked(
+        client,
+        [
+          shipment('ORDER-1'),
+          { ...shipment('ORDER-INVALID'), items: [] },
+          shipment('ORDER-FAIL'),
+          shipment('ORDER-1'),
+          shipment('ORDER-3'),
+        ],
+        { chunkSize: 1, apply_rule: true },
+      )
+
+      expect(bodies.map((body) => body.shipments.map((s) => s.order_no))).toEqual([
+        ['ORDER-1'],
+        ['ORDER-FAIL'],
+        ['ORDER-3'],
+      ])
+      expect(bodies.every((body) => body.apply_rule === true)).toBe(true)
+      expect(result.succeeded.map(({ index, result }) => [index, result.order_no])).toEqual([
+        [0, 'ORDER-1'],
+        [4, 'ORDER-3'],
+      ])
+      expect(result.failed.map(({ index }) => index)).toEqual([1, 2])
+      expect(result.failed[0]?.error).toBeInstanceOf(ValidationError)
+      expect(result.failed[1]?.error).toBeInstanceOf(ApiError)
+      expect(result.skipped.map(({ index, reason }) => [index, reason])).toEqual([[3, 'duplicate']])
+    })
+  })
+
   describe('getShipment', () => {
     it('出荷依頼を取得できる', async () => {
       const response = await getShipment(client, 'ship-001')
@@ -316,6 +413,13 @@ describe('Shipments API', () => {
       expect(response.recipient).toBeDefined()
     })
 
+    it('中断済みのsignalを指定した場合はリクエストを送信しない', async () => {
+      const controller = new AbortController()
+      controller.abort(new Error('aborted'))
+
+      await expect(getShipment(client, 'ship-001', { signal: controller.signal })).rejects.toThrow()
+    })
+
     it('存在しない出荷依頼はNotFoundErrorを投げる', async () => {
       await expect(getShipment(client, 'not-found')).rejects.toThrow()
     })
@@ -639,7 +743,98 @@ describe('Shipments API', () => {
     })
   })
 
+  describe('iterateShippedShipments', () => {
+    it('日単位で取得し、IDで重複を除外する', async () => {
+      const requestedDates: string[] = []
+      server.use(
+        http.get(`${BASE_URL}/shipments/shipped/:year/:month/:day`, ({ params }) => {
+          const date = `${params.year}-${params.month}-${params.day}`
+          requestedDates.push(date)
+          return HttpResponse.json({
+            shipments: [
+              { id: `ship-${date}`, items: [{ code: 'TEST-001', quantity: 1 }] },
+              { id: 'ship-shared', items: [{ code: 'TEST-001', quantity: 1 }] },
+            ],
+          })
+        }),
+      )
+
+      const ids: string[] = []
+      for await (const shipment of iterateShippedShipments(client, {
+        from: new Date(2025, 0, 31),
+        to: new Date(2025, 1, 2),
+      })) {
+        ids.push(shipment.id)
+      }
+
+      expect(requestedDates).toEqual(['2025-1-31', '2025-2-1', '2025-2-2'])
+      expect(ids).toEqual(['ship-2025-1-31', 'ship-shared', 'ship-2025-2-1', 'ship-2025-2-2'])
+    })
+
+    it('月単位では年月指定APIで取得し、切り詰めた月は1日ずつ取得する', async () => {
+      const shipped = (id: string) => ({
+        shipments: [
+          { id, items: [{ code: 'TEST-001', quantity: 1 }] },
+          { id: 'ship-shared', items: [{ code: 'TEST-001', quantity: 1 }] },
+        ],
+      })
+      server.use(
+        http.get(`${BASE_URL}/shipments/shipped/:year/:month`, ({ params }) =>
+          HttpResponse.json(shipped(`ship-${params.year}-${params.month}`)),
+        ),
+        http.get(`${BASE_URL}/shipments/shipped/:year/:month/:day`, ({ params }) =>
+          HttpResponse.json(shipped(`ship-${params.year}-${params.month}-${params.day}`)),
+        ),
+      )
+
+      const ids: string[] = []
+      for await (const shipment of iterateShippedShipments(client, {
+        from: new Date(2025, 0, 1),
+        to: new Date(2025, 2, 2),
+        step: 'month',
+      })) {
+        ids.push(shipment.id)
+      }
+
+      expect(ids).toEqual([
+        'ship-2025-1',
+        'ship-shared',
+        'ship-2025-2',
+        'ship-2025-3-1',
+        'ship-2025-3-2',
+      ])
+    })
+
+    it('期間が不正な場合はValidationErrorとなる', async () => {
+      const iterator = iterateShippedShipments(client, {
+        from: new Date(2025, 1, 1),
+        to: new Date(2025, 0, 1),
+      })
+
+      await expect(iterator.next()).rejects.toThrow(ValidationError)
+    })
+  })
+
   describe('getShippedShipmentByDate', () => {
+    it('年月のみ指定して出荷実績を取得できる', async () => {
+      server.use(
+        http.get(`${BASE_URL}/shipments/shipped/:year/:month`, ({ params }) =>
+          HttpResponse.json({
+            shipments: [
+              {
+                id: `ship-${params.year}-${params.month}`,
+                items: [{ code: 'TEST-001', quantity: 1 }],
+              },
+            ],
+          }),
+        ),
+      )
+
+      const response = await getShippedShipmentByDate(client, 2025, 1)
+
+      expect(response.shipments.map((shipment) => shipment.id)).toEqual(['ship-2025-1'])
+    })
+
     it('指定年月日の出荷実績を取得できる', async () => {
       const response = await getShippedShipmentByDate(client, 2025, 1, 20)
 
@@ -2843,4 +3038,381 @@ describe('Shipments API', () => {
       expect(response.updated_at).toBeDefined()
     })
   })
+
+  describe('冪等作成モード（idempotentCreate）', () => {
+    const recipient = {
+      name: '田中花子',
+      postcode: '1000002',
+      prefecture: '東京都',
+      address1: '千代田2-2-2',
+      phone: '09087654321',
+    }
+
+    const createShipmentData = (orderNo: string) => ({
+      order_no: orderNo,
+      items: [{ code: 'TEST-001', quantity: 1 }],
+      recipient,
+    })
+
+    const createShipmentResponse = (orderNo: string, id: string) => ({
+      id,
+      order_no: orderNo,
+      status: 'PENDING',
+      items: [{ code: 'TEST-001', quantity: 1 }],
+      recipient,
+      created_at: '2025-01-11T00:00:00Z',
+      updated_at: '2025-01-11T00:00:00Z',
+    })
+
+    beforeEach(() => {
+      client = createClient({
+        apiToken: 'test-token',
+        idempotentCreate: { accountId: 'TS001', retryDelay: () => 0 },
+      })
+    })
+
+    it('通信エラー後に作成済みと確認できた場合は再送せずに照会結果を返す', async () => {
+      let postCount = 0
+      const lookups: string[] = []
+      server.use(
+        http.post(`${BASE_URL}/shipments`, () => {
+          postCount++
+          return HttpResponse.error()
+        }),
+        http.get(`${BASE_URL}/shipments/:accountId/:identifier`, ({ params }) => {
+          lookups.push(`${params.accountId}/${params.identifier}`)
+          return HttpResponse.json(createShipmentResponse('ORDER-NEW', 'ship-existing'))
+        }),
+      )
+
+      const response = await createShipment(client, createShipmentData('ORDER-NEW'))
+
+      expect(response.id).toBe('ship-existing')
+      expect(postCount).toBe(1)
+      expect(lookups).toEqual(['TS001/ORDER-NEW'])
+    })
+
+    it('5xxエラー後に未作成と確認できた場合は再送する', async () => {
+      let postCount = 0
+      server.use(
+        http.post(`${BASE_URL}/shipments`, () => {
+          postCount++
+          if (postCount === 1) {
+            return HttpResponse.json({ message: 'Bad Gateway' }, { status: 502 })
+          }
+          return HttpResponse.json(createShipmentResponse('ORDER-NEW', 'ship-new'))
+        }),
+        http.get(`${BASE_URL}/shipments/:accountId/:identifier`, () => {
+          return HttpResponse.json({ message: 'Not Found' }, { status: 404 })
+        }),
+      )
+
+      const response = await createShipment(client, createShipmentData('ORDER-NEW'))
+
+      expect(response.id).toBe('ship-new')
+      expect(postCount).toBe(2)
+    })
+
+    it('identifierがある場合はidentifierで照会する', async () => {
+      const lookups: string[] = []
+      server.use(
+        http.post(`${BASE_URL}/shipments`, () => HttpResponse.error()),
+        http.get(`${BASE_URL}/shipments/:accountId/:identifier`, ({ params }) => {
+          lookups.push(params.identifier as string)
+          return HttpResponse.json(createShipmentResponse('ORDER-NEW', 'ship-existing'))
+        }),
+      )
+
+      await createShipment(client, { ...createShipmentData('ORDER-NEW'), identifier: 'ID-001' })
+
+      expect(lookups).toEqual(['ID-001'])
+    })
+
+    it('再送回数を超えた場合は最後のエラーをスローする', async () => {
+      let postCount = 0
+      server.use(
+        http.post(`${BASE_URL}/shipments`, () => {
+          postCount++
+          return HttpResponse.json({ message: 'Service Unavailable' }, { status: 503 })
+        }),
+        http.get(`${BASE_URL}/shipments/:accountId/:identifier`, () => {
+          return HttpResponse.json({ message: 'Not Found' }, { status: 404 })
+        }),
+      )
+
+      await expect(createShipment(client, createShipmentData('ORDER-NEW'))).rejects.toThrow(
+        ApiError,
+      )
+      expect(postCount).toBe(3)
+    })
+
+    it('4xxエラーは照会・再送せずにスローする', async () => {
+      let lookupCount = 0
+      server.use(
+        http.post(`${BASE_URL}/shipments`, () => {
+          return HttpResponse.json({ message: 'Invalid' }, { status: 422 })
+        }),
+        http.get(`${BASE_URL}/shipments/:accountId/:identifier`, () => {
+          lookupCount++
+          return HttpResponse.json({ message: 'Not Found' }, { status: 404 })
+        }),
+      )
+
+      await expect(createShipment(client, createShipmentData('ORDER-NEW'))).rejects.toThrow(
+        ValidationError,
+      )
+      expect(lookupCount).toBe(0)
+    })
+
+    it('照会自体が失敗した場合はIdempotencyErrorをスローする', async () => {
+      server.use(
+        http.post(`${BASE_URL}/shipments`, () => HttpResponse.error()),
+        http.get(`${BASE_URL}/shipments/:accountId/:identifier`, () => {
+          return HttpResponse.json({ message: 'Unauthorized' }, { status: 401 })
+        }),
+      )
+
+      const error = await createShipment(client, createShipmentData('ORDER-NEW')).catch(
+        (e: unknown) => e,
+      )
+
+      expect(error).toBeInstanceOf(IdempotencyError)
+      expect((error as IdempotencyError).key).toBe('ORDER-NEW')
+      expect((error as IdempotencyError).cause).toBeInstanceOf(AuthenticationError)
+    })
+
+    it('一括作成では作成済みの出荷依頼を除いて再送し、入力順に結果を返す', async () => {
+      const postedOrderNos: string[][] = []
+      server.use(
+        http.post(`${BASE_URL}/shipments/bulk`, async ({ request }) => {
+          const body = (await request.json()) as { shipments: Array<{ order_no: string }> }
+          const orderNos = body.shipments.map((shipment) => shipment.order_no)
+          postedOrderNos.push(orderNos)
+          if (postedOrderNos.length === 1) {
+            return HttpResponse.error()
+          }
+          return HttpResponse.json({
+            shipments: orderNos.map((orderNo) => createShipmentResponse(orderNo, `new-${orderNo}`)),
+          })
+        }),
+        http.get(`${BASE_URL}/shipments/:accountId`, () => {
+          return HttpResponse.json({
+            shipments: [createShipmentResponse('ORDER-002', 'existing-ORDER-002')],
+          })
+        }),
+      )
+
+      const response = await bulkCreateShipments(client, {
+        shipments: [
+          createShipmentData('ORDER-001'),
+          createShipmentData('ORDER-002'),
+          createShipmentData('ORDER-003'),
+        ],
+      })
+
+      expect(postedOrderNos).toEqual([
+        ['ORDER-001', 'ORDER-002', 'ORDER-003'],
+        ['ORDER-001', 'ORDER-003'],
+      ])
+      expect(response.shipments.map((shipment) => shipment.id)).toEqual([
+        'new-ORDER-001',
+        'existing-ORDER-002',
+        'new-ORDER-003',
+      ])
+    })
+
+    it('倉庫移動は照会できないため再送せずにIdempotencyErrorをスローする', async () => {
+      let postCount = 0
+      server.use(
+        http.post(`${BASE_URL}/shipments/transfer`, () => {
+          postCount++
+          return HttpResponse.error()
+        }),
+      )
+
+      await expect(
+        createTransfer(client, {
+          warehouse: 'BASE2',
+          destination: { warehouse: 'BASE3' },
+          items: [{ code: 'item-001', quantity: 1 }],
+        }),
+      ).rejects.toThrow(IdempotencyError)
+      expect(postCount).toBe(1)
+    })
+
+    it('無効の場合は照会せずに通信エラーをスローする', async () => {
+      let lookupCount = 0
+      server.use(
+        http.post(`${BASE_URL}/shipments`, () => HttpResponse.error()),
+        http.get(`${BASE_URL}/shipments/:accountId/:identifier`, () => {
+          lookupCount++
+          return HttpResponse.json(createShipmentResponse('ORDER-NEW', 'ship-existing'))
+        }),
+      )
+      const defaultClient = createClient({ apiToken: 'test-token' })
+
+      const error = await createShipment(defaultClient, createShipmentData('ORDER-NEW')).catch(
+        (e: unknown) => e,
+      )
+
+      expect(error).toBeInstanceOf(OpenLogiError)
+      expect(error).not.toBeInstanceOf(IdempotencyError)
+      expect(lookupCount).toBe(0)
+    })
+  })
+
+  describe('ステータスの事前確認（precheck）', () => {
+    const mockShipmentStatus = (status: string) => {
+      const calls: string[] = []
+      server.use(
+        http.get(`${BASE_URL}/shipments/:id`, ({ params }) => {
+          calls.push(`GET ${params.id}`)
+          return HttpResponse.json({
+            id: params.id,
+            status,
+            items: [{ code: 'TEST-001', quantity: 1 }],
+          })
+        }),
+        http.get(`${BASE_URL}/shipments/:accountId/:identifier`, ({ params }) => {
+          calls.push(`GET ${params.accountId}/${params.identifier}`)
+          return HttpResponse.json({
+            id: 'ship-by-identifier-001',
+            identifier: params.identifier,
+            status,
+            items: [{ code: 'TEST-001', quantity: 1 }],
+          })
+        }),
+        http.post(`${BASE_URL}/shipments/:id/cancel`, ({ params }) => {
+          calls.push(`CANCEL ${params.id}`)
+          return HttpResponse.json({
+            id: params.id,
+            status: 'CANCELLED',
+            items: [{ code: 'TEST-001', quantity: 1 }],
+          })
+        }),
+      )
+      return calls
+    }
+
+    it('実行できないステータスの場合はAPIを呼び出さずにエラーをスローする', async () => {
+      const calls = mockShipmentStatus('SHIPPED')
+
+      await expect(cancelShipment(client, 'ship-001', { precheck: true })).rejects.toThrow(
+        InvalidShipmentStateError,
+      )
+      expect(calls).toEqual(['GET ship-001'])
+    })
+
+    it('実行できるステータスの場合はそのまま実行する', async () => {
+      const calls = mockShipmentStatus('PENDING')
+
+      const response = await cancelShipment(client, 'ship-001', { precheck: true })
+
+      expect(response.status).toBe('CANCELLED')
+      expect(calls).toEqual(['GET ship-001', 'CANCEL ship-001'])
+    })
+
+    it('取得済みの出荷依頼を渡した場合は取得せずに確認する', async () => {
+      const calls = mockShipmentStatus('PENDING')
+
+      await expect(
+        modifyShipment(
+          client,
+          'ship-001',
+          { delivery_time_slot: 'AM' },
+          { precheck: { id: 'ship-001', status: 'PENDING' } },
+        ),
+      ).rejects.toThrow(InvalidShipmentStateError)
+      expect(calls).toEqual([])
+    })
+
+    it('アカウントID指定の関数はアカウントIDで取得して確認する', async () => {
+      const calls = mockShipmentStatus('SHIPPED')
+
+      await expect(
+        cancelShipmentByAccountId(client, 'TS001', '2015-00001', { precheck: true }),
+      ).rejects.toThrow(InvalidShipmentStateError)
+      expect(calls).toEqual(['GET TS001/2015-00001'])
+    })
+
+    it('未指定の場合は確認しない', async () => {
+      const calls = mockShipmentStatus('SHIPPED')
+
+      await cancelShipment(client, 'ship-001')
+
+      expect(calls).toEqual(['CANCEL ship-001'])
+    })
+  })
+
+  describe('waitForShipmentStatus', () => {
+    const mockStatuses = (statuses: string[]) => {
+      let calls = 0
+      server.use(
+        http.get(`${BASE_URL}/shipments/:id`, ({ params }) => {
+          const status = statuses[Math.min(calls, statuses.length - 1)]
+          calls++
+          return HttpResponse.json({
+            id: params.id,
+            status,
+            items: [{ code: 'TEST-001', quantity: 1 }],
+            ...(status === 'SHIPPED' && { tracking_code: 'TRACK-001' }),
+          })
+        }),
+      )
+      return () => calls
+    }
+
+    it('出荷済みになるまで待機し、追跡番号を取得できる', async () => {
+      const calls = mockStatuses(['PENDING', 'PICKING', 'READY', 'SHIPPED'])
+      const changes: Array<string | undefined> = []
+
+      const shipment = await waitForShipmentStatus(client, 'ship-001', ['SHIPPED'], {
+        interval: 1,
+        onStatusChange: (current) => changes.push(current.status),
+      })
+
+      expect(shipment.tracking_code).toBe('TRACK-001')
+      expect(calls()).toBe(4)
+      expect(changes).toEqual(['PENDING', 'PICKING', 'READY', 'SHIPPED'])
+    })
+
+    it('レスポンスキャッシュを有効にしたクライアントでも毎回APIから取得する', async () => {
+      const calls = mockStatuses(['PENDING', 'PICKING', 'SHIPPED'])
+      const cachedClient = createClient({ apiToken: 'test-token', cache: { ttl: 60000 } })
+
+      const shipment = await waitForShipmentStatus(cachedClient, 'ship-001', ['SHIPPED'], {
+        interval: 1,
+      })
+
+      expect(shipment.status).toBe('SHIPPED')
+      expect(calls()).toBe(3)
+    })
+
+    it('キャンセルされると到達できないため待機を終了する', async () => {
+      const calls = mockStatuses(['PENDING', 'CANCELLED', 'CANCELLED'])
+
+      await expect(
+        waitForShipmentStatus(client, 'ship-001', ['SHIPPED'], { interval: 1 }),
+      ).rejects.toMatchObject({ reason: 'unreachable', lastStatus: 'CANCELLED' })
+      await expect(
+        waitForShipmentStatus(client, 'ship-001', ['SHIPPED'], { interval: 1 }),
+      ).rejects.toThrow(WaitForStatusError)
+      expect(calls()).toBe(3)
+    })
+
+    it('AbortSignalで実行中のリクエストを中断できる', async () => {
+      server.use(
+        http.get(`${BASE_URL}/shipments/:id`, async () => {
+          await delay('infinite')
+          return HttpResponse.json({})
+        }),
+      )
+      const controller = new AbortController()
+      setTimeout(() => controller.abort(new Error('aborted')), 20)
+
+      await expect(
+        waitForShipmentStatus(client, 'ship-001', ['SHIPPED'], { signal: controller.signal }),
+      ).rejects.toThrow(/^aborted$/)
+    })
+  })
 })
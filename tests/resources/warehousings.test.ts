@@ -9,11 +9,14 @@ import { createClient } from '../../src/client'
 import {
   listWarehousing,
   createWarehousing,
+  createWarehousingsSplit,
   getWarehousing,
+  waitForWarehousingStatus,
   updateWarehousing,
   deleteWarehousing,
   getStockedWarehousing,
   getStockedWarehousingByDate,
+  iterateStockedWarehousings,
   getWarehousingLabel,
 } from '../../src/resources/warehousings'
 import {
@@ -22,6 +25,7 @@ import {
   RateLimitError,
   AuthenticationError,
   NotFoundError,
+  WaitForStatusError,
 } from '../../src/errors'
 
 const BASE_URL = 'http://localhost:8080/api'
@@ -147,6 +151,141 @@ describe('Warehousings API', () => {
     })
   })
 
+  describe('createWarehousingsSplit', () => {
+    let requests: Array<{ identifier?: string; items: Array<{ code: string; quantity: number }> }>
+
+    beforeEach(() => {
+      requests = []
+      server.use(
+        http.post(`${BASE_URL}/warehousings`, async ({ request }) => {
+          const body = (await request.json()) as (typeof requests)[number] & Record<string, unknown>
+          requests.push(body)
+          if (body.items.some((item) => item.code === 'FAIL')) {
+            return HttpResponse.json({ error: 'invalid' }, { status: 422 })
+          }
+          return HttpResponse.json({
+            ...body,
+            id: `W${requests.length}`,
+            status: 'waiting',
+            items: body.items.map((item) => ({ ...item, id: item.code, name: item.code })),
+          })
+        }),
+      )
+    })
+
+    it('重複した商品コードを合計し、25商品ずつに分割して作成する', async () => {
+      const items = Array.from({ length: 60 }, (_, i) => ({ code: `ITEM-${i}`, quantity: 1 }))
+      const result = await createWarehousingsSplit(client, {
+        inspection_type: 'CODE',
+        arrival_date: '2025-01-20',
+        company_memo: 'コンテナ入荷',
+        identifier: 'CONTAINER-001',
+        items: [...items, { code: 'ITEM-0', quantity: 4 }],
+      })
+
+      expect(result.requests.map((request) => request.items.length)).toEqual([25, 25, 10])
+      expect(result.requests[0]?.items[0]).toEqual({ code: 'ITEM-0', quantity: 5 })
+      expect(result.requests.map((request) => request.identifier)).toEqual([
+        'CONTAINER-001-1',
+        'CONTAINER-001-2',
+        'CONTAINER-001-3',
+      ])
+      expect(result.requests.every((request) => request.arrival_date === '2025-01-20')).toBe(true)
+      expect(result.requests.every((request) => request.company_memo === 'コンテナ入荷')).toBe(true)
+      expect(result.warehousings.map((warehousing) => warehousing.id)).toHaveLength(3)
+      expect(result.failed).toEqual([])
+    })
+
+    it('連番を付けた識別子を30文字以内に切り詰める', async () => {
+      const items = Array.from({ length: 260 }, (_, i) => ({ code: `ITEM-${i}`, quantity: 1 }))
+      const result = await createWarehousingsSplit(client, {
+        inspection_type: 'CODE',
+        arrival_date: '2025-01-20',
+        identifier: 'X'.repeat(30),
+        items,
+      })
+
+      expect(result.requests).toHaveLength(11)
+      expect(result.requests[0]?.identifier).toBe(`${'X'.repeat(27)}-01`)
+      expect(result.requests[10]?.identifier).toBe(`${'X'.repeat(27)}-11`)
+    })
+
+    it('分割しない場合は識別子を変更しない', async () => {
+      const result = await createWarehousingsSplit(client, {
+        inspection_type: 'CODE',
+        arrival_date: '2025-01-20',
+        identifier: 'SMALL-001',
+        items: [
+          { code: 'ITEM-001', quantity: 1 },
+          { code: 'ITEM-001', quantity: 2 },
+        ],
+      })
+
+      expect(requests).toEqual([
+        expect.objectContaining({
+          identifier: 'SMALL-001',
+          items: [{ code: 'ITEM-001', quantity: 3 }],
+        }),
+      ])
+      expect(result.warehousings).toHaveLength(1)
+    })
+
+    it('作成に失敗した入荷依頼を記録し、残りの作成を続ける', async () => {
+      const result = await createWarehousingsSplit(
+        client,
+        {
+          inspection_type: 'CODE',
+          arrival_date: '2025-01-20',
+          items: [
+            { code: 'ITEM-001', quantity: 1 },
+            { code: 'FAIL', quantity: 1 },
+            { code: 'ITEM-003', quantity: 1 },
+          ],
+        },
+        { itemsPerRequest: 1 },
+      )
+
+      expect(requests).toHaveLength(3)
+      expect(result.warehousings.map((warehousing) => warehousing.id)).toEqual(['W1', 'W3'])
+      expect(result.failed).toHaveLength(1)
+      expect(result.failed[0]?.index).toBe(1)
+      expect(result.failed[0]?.request.items).toEqual([{ code: 'FAIL', quantity: 1 }])
+      expect(result.failed[0]?.error).toBeInstanceOf(ValidationError)
+    })
+
+    it('分割後の入荷依頼が不正な場合は何も作成しない', async () => {
+      await expect(
+        createWarehousingsSplit(client, {
+          inspection_type: 'CODE',
+          arrival_date: '2025/01/20',
+          items: [{ code: 'ITEM-001', quantity: 1 }],
+        }),
+      ).rejects.toThrow(ValidationError)
+      await expect(
+        createWarehousingsSplit(client, {
+          inspection_type: 'CODE',
+          arrival_date: '2025-01-20',
+          items: [],
+        }),
+      ).rejects.toThrow(ValidationError)
+      expect(requests).toHaveLength(0)
+    })
+
+    it('itemsPerRequestが1-25の整数でない場合はRangeErrorを投げる', async () => {
+      await expect(
+        createWarehousingsSplit(
+          client,
+          {
+            inspection_type: 'CODE',
+            arrival_date: '2025-01-20',
+            items: [{ code: 'A', quantity: 1 }],
+          },
+          { itemsPerRequest: 26 },
+        ),
+      ).rejects.toThrow(RangeError)
+    })
+  })
+
   describe('getWarehousing', () => {
     it('入荷依頼を取得できる', async () => {
       const response = await getWarehousing(client, 'wh-001')
@@ -246,6 +385,48 @@ describe('Warehousings API', () => {
     })
   })
 
+  describe('waitForWarehousingStatus', () => {
+    const mockStatuses = (statuses: string[]) => {
+      let calls = 0
+      server.use(
+        http.get(`${BASE_URL}/warehousings/:id`, ({ params }) => {
+          const status = statuses[Math.min(calls, statuses.length - 1)]
+          calls++
+          return HttpResponse.json({
+            id: params.id,
+            inspection_type: 'CODE',
+            arrival_date: '2025-01-20',
+            status,
+            items: [],
+          })
+        }),
+      )
+      return () => calls
+    }
+
+    it('デフォルトでは入庫済みになるまで待機する', async () => {
+      const calls = mockStatuses(['waiting', 'checking', 'stocked'])
+
+      const warehousing = await waitForWarehousingStatus(client, 'wh-001', undefined, {
+        interval: 1,
+      })
+
+      expect(warehousing.status).toBe('stocked')
+      expect(calls()).toBe(3)
+    })
+
+    it('タイムアウトするとWaitForStatusErrorをスローする', async () => {
+      mockStatuses(['waiting'])
+
+      await expect(
+        waitForWarehousingStatus(client, 'wh-001', ['received', 'stocked'], {
+          interval: 10,
+          timeout: 30,
+        }),
+      ).rejects.toThrow(WaitForStatusError)
+    })
+  })
+
   describe('updateWarehousing', () => {
     it('入荷依頼を更新できる', async () => {
       const updateData = {
@@ -373,6 +554,54 @@ describe('Warehousings API', () => {
     })
   })
 
+  describe('iterateStockedWarehousings', () => {
+    it('日単位で取得し、IDで重複を除外する', async () => {
+      const ids: string[] = []
+      for await (const warehousing of iterateStockedWarehousings(client, {
+        from: new Date(2025, 0, 1),
+        to: new Date(2025, 0, 3),
+      })) {
+        ids.push(warehousing.id)
+      }
+
+      // モックは日付に関わらず同じIDを返す
+      expect(ids).toEqual(['wh-stocked-date'])
+    })
+
+    it('月単位では年月指定APIで取得し、切り詰めた月は1日ずつ取得する', async () => {
+      const stocked = (id: string) => ({
+        warehousings: [
+          {
+            id,
+            inspection_type: 'CODE',
+            arrival_date: '2025-01-15',
+            status: 'stocked',
+            items: [],
+          },
+        ],
+      })
+      server.use(
+        http.get(`${BASE_URL}/warehousings/stocked/:year/:month`, ({ params }) =>
+          HttpResponse.json(stocked(`wh-${params.year}-${params.month}`)),
+        ),
+        http.get(`${BASE_URL}/warehousings/stocked/:year/:month/:day`, ({ params }) =>
+          HttpResponse.json(stocked(`wh-${params.year}-${params.month}-${params.day}`)),
+        ),
+      )
+
+      const ids: string[] = []
+      for await (const warehousing of iterateStockedWarehousings(client, {
+        from: new Date(2024, 11, 30),
+        to: new Date(2025, 1, 1),
+        step: 'month',
+      })) {
+        ids.push(warehousing.id)
+      }
+
+      expect(ids).toEqual(['wh-2024-12-30', 'wh-2024-12-31', 'wh-2025-1', 'wh-2025-2-1'])
+    })
+  })
+
   describe('getStockedWarehousingByDate', () => {
     it('指定日の入荷実績を取得できる', async () => {
       const response = await getStockedWarehousingByDate(client, 2025, 1, 15)
@@ -0,0 +1,301 @@
+/**
+ * レスポンスキャッシュのテスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { http, HttpResponse } from 'msw'
+import { z } from 'zod'
+import { server } from './setup'
+import {
+  createClient,
+  deleteItem,
+  getItem,
+  getStockedWarehousing,
+  request,
+  ResponseCache,
+  type Logger,
+} from '../src/index.js'
+
+const BASE_URL = 'http://localhost:8080/api'
+
+/**
+ * 商品のレスポンスを生成する
+ */
+function itemResponse(id: string, name: string) {
+  return { id, code: 'TEST-001', name }
+}
+
+describe('ResponseCache', () => {
+  it('不正な設定はRangeErrorをスローする', () => {
+    expect(() => new ResponseCache({ ttl: -1 })).toThrow(RangeError)
+    expect(() => new ResponseCache({ maxEntries: 0 })).toThrow(RangeError)
+    expect(() => new ResponseCache({ maxEntries: 1.5 })).toThrow(RangeError)
+  })
+
+  it('キーはクエリパラメータの順序に依存せず、undefinedの値を含めない', () => {
+    expect(ResponseCache.keyOf('items', { b: 2, a: 'x', c: undefined })).toBe('GET items?a=x&b=2')
+    expect(ResponseCache.keyOf('/items', 'b=2&a=x')).toBe('GET items?a=x&b=2')
+    expect(ResponseCache.keyOf('items/1', undefined)).toBe('GET items/1')
+  })
+
+  it('スコープはAPIトークンを含まず、ベースURL・APIバージョン・APIトークンごとに異なる', () => {
+    const config = { baseUrl: 'http://localhost:8080', apiVersion: '1.5', apiToken: 'token-a' }
+    const scope = ResponseCache.scopeOf(config)
+
+    expect(scope).not.toContain('token-a')
+    expect(ResponseCache.keyOf('items/1', undefined, scope)).toBe(`${scope} GET items/1`)
+    expect(ResponseCache.scopeOf({ ...config, apiToken: 'token-b' })).not.toBe(scope)
+    expect(ResponseCache.scopeOf({ ...config, baseUrl: 'https://api.example.com' })).not.toBe(scope)
+    expect(ResponseCache.scopeOf({ ...config, apiVersion: '1.4' })).not.toBe(scope)
+  })
+
+  it('同じリソースのキャッシュのみを破棄する', () => {
+    const cache = new ResponseCache()
+    const response = new Response('', { headers: { ETag: '"v1"' } })
+    cache.store('GET items/1', response, '{}')
+    cache.store('GET items?id=1', response, '{}')
+    cache.store('GET warehousings/1', response, '{}')
+
+    cache.invalidate('items/1/images')
+
+    expect(cache.size).toBe(1)
+    expect(cache.get('GET warehousings/1')).toBeDefined()
+  })
+
+  it('最大件数を超えた場合は最も古く使われたものから破棄する', () => {
+    const cache = new ResponseCache({ maxEntries: 2 })
+    const response = new Response('')
+    cache.store('GET items/1', response, '1')
+    cache.store('GET items/2', response, '2')
+    cache.get('GET items/1')
+    cache.store('GET items/3', response, '3')
+
+    expect(cache.get('GET items/1')?.body).toBe('1')
+    expect(cache.get('GET items/2')).toBeUndefined()
+    expect(cache.get('GET items/3')?.body).toBe('3')
+  })
+})
+
+describe('createClientのcache', () => {
+  let requests: Array<{ ifNoneMatch: string | null; ifModifiedSince: string | null }>
+
+  beforeEach(() => {
+    requests = []
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+  })
+
+  it('ETagが返された場合は条件付きリクエストを送信し、304の場合はキャッシュを返す', async () => {
+    let version = 1
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, ({ request, params }) => {
+        const ifNoneMatch = request.headers.get('If-None-Match')
+        requests.push({ ifNoneMatch, ifModifiedSince: request.headers.get('If-Modified-Since') })
+        const etag = `"v${version}"`
+        if (ifNoneMatch === etag) {
+          return new HttpResponse(null, { status: 304, headers: { ETag: etag } })
+        }
+        return HttpResponse.json(itemResponse(params['id'] as string, `商品v${version}`), {
+          headers: { ETag: etag },
+        })
+      }),
+    )
+    const client = createClient({ apiToken: 'test-token', cache: {} })
+
+    expect((await getItem(client, 'item-1')).name).toBe('商品v1')
+    expect((await getItem(client, 'item-1')).name).toBe('商品v1')
+    version = 2
+    expect((await getItem(client, 'item-1')).name).toBe('商品v2')
+
+    expect(requests).toEqual([
+      { ifNoneMatch: null, ifModifiedSince: null },
+      { ifNoneMatch: '"v1"', ifModifiedSince: null },
+      { ifNoneMatch: '"v1"', ifModifiedSince: null },
+    ])
+  })
+
+  it('Last-Modifiedが返された場合はIf-Modified-Sinceを送信する', async () => {
+    const lastModified = 'Fri, 10 Jan 2025 00:00:00 GMT'
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, ({ request, params }) => {
+        const ifModifiedSince = request.headers.get('If-Modified-Since')
+        requests.push({ ifNoneMatch: request.headers.get('If-None-Match'), ifModifiedSince })
+        if (ifModifiedSince === lastModified) {
+          return new HttpResponse(null, { status: 304 })
+        }
+        return HttpResponse.json(itemResponse(params['id'] as string, '商品'), {
+          headers: { 'Last-Modified': lastModified },
+        })
+      }),
+    )
+    const client = createClient({ apiToken: 'test-token', cache: {} })
+
+    await getItem(client, 'item-1')
+    expect((await getItem(client, 'item-1')).name).toBe('商品')
+
+    expect(requests[1]).toEqual({ ifNoneMatch: null, ifModifiedSince: lastModified })
+  })
+
+  it('検証子がない場合はttlの間リクエストを送信しない', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    server.use(
+      http.get(`${BASE_URL}/warehousings/stocked`, () => {
+        requests.push({ ifNoneMatch: null, ifModifiedSince: null })
+        return HttpResponse.json({ warehousings: [] })
+      }),
+    )
+    const client = createClient({ apiToken: 'test-token', cache: { ttl: 1000 } })
+
+    await getStockedWarehousing(client, { date_after: '20250101' })
+    await getStockedWarehousing(client, { date_after: '20250101' })
+    await getStockedWarehousing(client, { date_after: '20250102' })
+    expect(requests).toHaveLength(2)
+
+    vi.setSystemTime(Date.now() + 1000)
+    await getStockedWarehousing(client, { date_after: '20250101' })
+    expect(requests).toHaveLength(3)
+  })
+
+  it('Cache-Control: no-storeの場合はキャッシュしない', async () => {
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, ({ params }) => {
+        requests.push({ ifNoneMatch: null, ifModifiedSince: null })
+        return HttpResponse.json(itemResponse(params['id'] as string, '商品'), {
+          headers: { 'Cache-Control': 'no-store' },
+        })
+      }),
+    )
+    const client = createClient({ apiToken: 'test-token', cache: {} })
+
+    await getItem(client, 'item-1')
+    await getItem(client, 'item-1')
+
+    expect(requests).toHaveLength(2)
+    expect(client.cache?.size).toBe(0)
+  })
+
+  it('同じリソースにDELETEを送信するとキャッシュを破棄する', async () => {
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, ({ params }) => {
+        requests.push({ ifNoneMatch: null, ifModifiedSince: null })
+        return HttpResponse.json(itemResponse(params['id'] as string, '商品'))
+      }),
+      http.delete(`${BASE_URL}/items/:id`, ({ params }) =>
+        HttpResponse.json(itemResponse(params['id'] as string, '商品')),
+      ),
+    )
+    const cache = new ResponseCache()
+    const client = createClient({ apiToken: 'test-token', cache })
+
+    await getItem(client, 'item-1')
+    await getItem(client, 'item-1')
+    expect(requests).toHaveLength(1)
+
+    await deleteItem(client, 'item-1')
+    expect(cache.size).toBe(0)
+
+    await getItem(client, 'item-1')
+    expect(requests).toHaveLength(2)
+  })
+
+  it('304はミドルウェア・ロガーにエラーとして通知しない', async () => {
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, ({ request, params }) => {
+        if (request.headers.get('If-None-Match') === '"v1"') {
+          return new HttpResponse(null, { status: 304 })
+        }
+        return HttpResponse.json(itemResponse(params['id'] as string, '商品'), {
+          headers: { ETag: '"v1"' },
+        })
+      }),
+    )
+    const onError = vi.fn()
+    const logger: Logger = { info: vi.fn(), warn: vi.fn(), error: vi.fn() }
+    const client = createClient({
+      apiToken: 'test-token',
+      cache: {},
+      middleware: [{ onError }],
+      logger,
+    })
+
+    await getItem(client, 'item-1')
+    await getItem(client, 'item-1')
+
+    expect(onError).not.toHaveBeenCalled()
+    expect(logger.warn).not.toHaveBeenCalled()
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.objectContaining({ status: 304 }),
+      'OpenLogi API response',
+    )
+  })
+
+  it('request()にcache: falseを指定した場合はキャッシュを返さずに取得し、結果を保存する', async () => {
+    let name = '商品A'
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, ({ params }) => {
+        requests.push({ ifNoneMatch: null, ifModifiedSince: null })
+        return HttpResponse.json(itemResponse(params['id'] as string, name))
+      }),
+    )
+    const client = createClient({ apiToken: 'test-token', cache: {} })
+    const schema = z.object({ name: z.string() })
+
+    await request(client, schema, 'items/item-1')
+    name = '商品B'
+    expect(await request(client, schema, 'items/item-1', { cache: false })).toEqual({
+      name: '商品B',
+    })
+    expect(await request(client, schema, 'items/item-1')).toEqual({ name: '商品B' })
+    expect(requests).toHaveLength(2)
+  })
+
+  it('共有したキャッシュはAPIトークンが異なるクライアントのレスポンスを返さない', async () => {
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, ({ request, params }) => {
+        requests.push({ ifNoneMatch: null, ifModifiedSince: null })
+        const token = request.headers.get('Authorization')
+        return HttpResponse.json(itemResponse(params['id'] as string, `${token}の商品`))
+      }),
+      http.delete(`${BASE_URL}/items/:id`, ({ params }) =>
+        HttpResponse.json(itemResponse(params['id'] as string, '商品')),
+      ),
+    )
+    const cache = new ResponseCache()
+    const clientA = createClient({ apiToken: 'token-a', cache })
+    const clientB = createClient({ apiToken: 'token-b', cache })
+
+    expect((await getItem(clientA, 'item-1')).name).toBe('Bearer token-aの商品')
+    expect((await getItem(clientB, 'item-1')).name).toBe('Bearer token-bの商品')
+    expect((await getItem(clientA, 'item-1')).name).toBe('Bearer token-aの商品')
+    expect(requests).toHaveLength(2)
+
+    await deleteItem(clientB, 'item-1')
+    expect(cache.size).toBe(0)
+  })
+
+  it('cacheを指定しない場合はキャッシュしない', async () => {
+    server.use(
+      http.get(`${BASE_URL}/items/:id`, ({ request, params }) => {
+        requests.push({
+          ifNoneMatch: request.headers.get('If-None-Match'),
+          ifModifiedSince: null,
+        })
+        return HttpResponse.json(itemResponse(params['id'] as string, '商品'), {
+          headers: { ETag: '"v1"' },
+        })
+      }),
+    )
+    const client = createClient({ apiToken: 'test-token' })
+
+    await getItem(client, 'item-1')
+    await getItem(client, 'item-1')
+
+    expect(client.cache).toBeUndefined()
+    expect(requests).toEqual([
+      { ifNoneMatch: null, ifModifiedSince: null },
+      { ifNoneMatch: null, ifModifiedSince: null },
+    ])
+  })
+})
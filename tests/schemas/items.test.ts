@@ -204,6 +204,50 @@ describe('Items Schemas Validation', () => {
       const result = ItemResponseSchema.safeParse(tooLong)
       expect(result.success).toBe(false)
     })
+
+    it('在庫情報（stock）と倉庫・ロットごとの在庫（stocks）を受け入れる', () => {
+      const result = ItemResponseSchema.safeParse({
+        id: 'ITEM-001',
+        code: 'TEST-001',
+        name: 'Test Item',
+        stock: { quantity: 100, available: 70, shipping: 10, requesting: 30, size: '60' },
+        stocks: [
+          {
+            warehouse: 'OPL',
+            quantity: 100,
+            available: 70,
+            shipping: 10,
+            requesting: 30,
+            lots: [{ expiry_at: '2026-01-20T00:00:00Z', quantity: 40, available: 40 }],
+          },
+        ],
+      })
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.data.stocks?.[0]?.lots?.[0]?.quantity).toBe(40)
+      }
+    })
+
+    it('在庫数のみ（数値）の stock を受け入れる', () => {
+      const result = ItemResponseSchema.safeParse({
+        id: 'ITEM-001',
+        code: 'TEST-001',
+        name: 'Test Item',
+        stock: 100,
+      })
+      expect(result.success).toBe(true)
+    })
+
+    it('倉庫コードのない stocks を拒否する', () => {
+      const result = ItemResponseSchema.safeParse({
+        id: 'ITEM-001',
+        code: 'TEST-001',
+        name: 'Test Item',
+        stocks: [{ quantity: 100, available: 70, shipping: 10, requesting: 30 }],
+      })
+      expect(result.success).toBe(false)
+    })
   })
 
   describe('ListItemsByAccountIdQuerySchema', () => {
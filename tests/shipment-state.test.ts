@@ -0,0 +1,109 @@
+/**
+ * 出荷依頼ライフサイクルのテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import {
+  assertShipmentOperation,
+  canPerformShipmentOperation,
+  canReachShipmentStatus,
+  canTransitionShipmentStatus,
+  getAllowedShipmentOperations,
+  isTerminalShipmentStatus,
+  InvalidShipmentStateError,
+  OpenLogiError,
+  SHIPMENT_STATUS_TRANSITIONS,
+  ShipmentStatusSchema,
+} from '../src/index.js'
+
+describe('canPerformShipmentOperation', () => {
+  it('作業開始前は更新・削除・キャンセル・引当解除ができる', () => {
+    expect(getAllowedShipmentOperations({ status: 'PENDING' })).toEqual([
+      'update',
+      'delete',
+      'cancel',
+      'clearAllocation',
+    ])
+  })
+
+  it('作業開始後は修正・キャンセル依頼のみできる', () => {
+    expect(getAllowedShipmentOperations({ status: 'PICKING' })).toEqual(['modify', 'cancel'])
+  })
+
+  it('出荷済み以降は操作できない', () => {
+    for (const status of ['SHIPPED', 'DELIVERED', 'CANCELLED', 'RETURNED'] as const) {
+      expect(getAllowedShipmentOperations({ status })).toEqual([])
+    }
+  })
+
+  it('海外発送は梱包済み以降の修正・キャンセルができない', () => {
+    expect(canPerformShipmentOperation({ status: 'READY' }, 'cancel')).toBe(true)
+    expect(canPerformShipmentOperation({ status: 'READY', international: true }, 'cancel')).toBe(
+      false,
+    )
+    expect(canPerformShipmentOperation({ status: 'READY', international: true }, 'modify')).toBe(
+      false,
+    )
+  })
+
+  it('ステータスが不明な場合は判定しない', () => {
+    expect(canPerformShipmentOperation({}, 'delete')).toBe(true)
+  })
+})
+
+describe('assertShipmentOperation', () => {
+  it('実行できない場合はInvalidShipmentStateErrorをスローする', () => {
+    const error = (() => {
+      try {
+        assertShipmentOperation({ id: 'ship-001', status: 'SHIPPED' }, 'cancel')
+      } catch (e) {
+        return e
+      }
+      return undefined
+    })()
+
+    expect(error).toBeInstanceOf(InvalidShipmentStateError)
+    expect(error).toBeInstanceOf(OpenLogiError)
+    expect(error).toMatchObject({
+      shipmentId: 'ship-001',
+      status: 'SHIPPED',
+      operation: 'cancel',
+      allowedStatuses: ['PENDING', 'SUSPENDED', 'PICKING', 'PACKING', 'READY'],
+    })
+  })
+
+  it('実行できる場合は何もしない', () => {
+    expect(() =>
+      assertShipmentOperation({ id: 'ship-001', status: 'PACKING' }, 'modify'),
+    ).not.toThrow()
+  })
+})
+
+describe('SHIPMENT_STATUS_TRANSITIONS', () => {
+  it('すべてのステータスを定義している', () => {
+    expect(Object.keys(SHIPMENT_STATUS_TRANSITIONS).sort()).toEqual(
+      [...ShipmentStatusSchema.options].sort(),
+    )
+  })
+
+  it('出荷の流れに沿って遷移できる', () => {
+    expect(canTransitionShipmentStatus('PENDING', 'PICKING')).toBe(true)
+    expect(canTransitionShipmentStatus('READY', 'SHIPPED')).toBe(true)
+    expect(canTransitionShipmentStatus('SHIPPED', 'PENDING')).toBe(false)
+  })
+
+  it('キャンセル・返品は終端ステータス', () => {
+    expect(isTerminalShipmentStatus('CANCELLED')).toBe(true)
+    expect(isTerminalShipmentStatus('RETURNED')).toBe(true)
+    expect(isTerminalShipmentStatus('SHIPPED')).toBe(false)
+  })
+})
+
+describe('canReachShipmentStatus', () => {
+  it('複数回の遷移を経て到達できるかを判定する', () => {
+    expect(canReachShipmentStatus('PENDING', 'DELIVERED')).toBe(true)
+    expect(canReachShipmentStatus('SHIPPED', 'SHIPPED')).toBe(true)
+    expect(canReachShipmentStatus('CANCELLED', 'SHIPPED')).toBe(false)
+    expect(canReachShipmentStatus('DELIVERED', 'SHIPPED')).toBe(false)
+  })
+})
@@ -0,0 +1,180 @@
+/**
+ * 出荷依頼の変更検知のテスト
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { server } from './setup'
+import {
+  createClient,
+  ShipmentWatcher,
+  MemorySnapshotStorage,
+  type OpenLogiClient,
+  type ShipmentWatcherState,
+} from '../src/index.js'
+import { FakeOpenLogi, createShipmentFixture } from '../src/testing/index.js'
+
+describe('ShipmentWatcher', () => {
+  let fake: FakeOpenLogi
+  let client: OpenLogiClient
+
+  beforeEach(() => {
+    fake = new FakeOpenLogi()
+    server.use(...fake.handlers)
+    client = createClient({ apiToken: 'test-token' })
+  })
+
+  /**
+   * 通知されたイベントを記録する
+   */
+  function record(watcher: ShipmentWatcher) {
+    const events: string[] = []
+    watcher.on('statusChanged', ({ shipment, previousStatus }) => {
+      events.push(`statusChanged ${shipment.id} ${previousStatus}->${shipment.status}`)
+    })
+    watcher.on('trackingCodeAssigned', ({ shipment, trackingCode }) => {
+      events.push(`trackingCodeAssigned ${shipment.id} ${trackingCode}`)
+    })
+    watcher.on('cancelled', ({ shipment }) => {
+      events.push(`cancelled ${shipment.id}`)
+    })
+    watcher.on('missing', ({ id }) => {
+      events.push(`missing ${id}`)
+    })
+    return events
+  }
+
+  function addShipment(id: string) {
+    fake.shipments.set(id, createShipmentFixture({ id }))
+  }
+
+  it('初回の取得では通知せず、以降の変更を通知する', async () => {
+    addShipment('ship-001')
+    addShipment('ship-002')
+    const watcher = new ShipmentWatcher(client)
+    const events = record(watcher)
+    await watcher.watch(['ship-001', 'ship-002'])
+
+    await watcher.poll()
+    expect(events).toEqual([])
+
+    fake.setShipmentStatus('ship-001', 'PICKING')
+    fake.shipShipment('ship-002', { trackingCode: 'TRACK-002' })
+    await watcher.poll()
+
+    expect(events).toEqual([
+      'statusChanged ship-001 PENDING->PICKING',
+      'statusChanged ship-002 PENDING->SHIPPED',
+      'trackingCodeAssigned ship-002 TRACK-002',
+    ])
+
+    events.length = 0
+    await watcher.poll()
+    expect(events).toEqual([])
+  })
+
+  it('レスポンスキャッシュを有効にしたクライアントでも最新のステータスを取得する', async () => {
+    addShipment('ship-001')
+    const watcher = new ShipmentWatcher(
+      createClient({ apiToken: 'test-token', cache: { ttl: 60000 } }),
+    )
+    const events = record(watcher)
+    await watcher.watch(['ship-001'])
+    await watcher.poll()
+
+    fake.setShipmentStatus('ship-001', 'PICKING')
+    await watcher.poll()
+
+    expect(events).toEqual(['statusChanged ship-001 PENDING->PICKING'])
+  })
+
+  it('キャンセルされた出荷依頼は通知後に監視を終了する', async () => {
+    addShipment('ship-001')
+    const watcher = new ShipmentWatcher(client)
+    const events = record(watcher)
+    await watcher.watch(['ship-001'])
+    await watcher.poll()
+
+    fake.setShipmentStatus('ship-001', 'CANCELLED')
+    await watcher.poll()
+
+    expect(events).toEqual(['statusChanged ship-001 PENDING->CANCELLED', 'cancelled ship-001'])
+    expect(await watcher.getWatchedIds()).toEqual([])
+  })
+
+  it('見つからない出荷依頼は通知後に監視を終了する', async () => {
+    addShipment('ship-001')
+    const watcher = new ShipmentWatcher(client)
+    const events = record(watcher)
+    await watcher.watch(['ship-001', 'ship-404'])
+
+    await watcher.poll()
+
+    expect(events).toEqual(['missing ship-404'])
+    expect(await watcher.getWatchedIds()).toEqual(['ship-001'])
+  })
+
+  it('保存先のスナップショットから監視を再開できる', async () => {
+    addShipment('ship-001')
+    const storage = new MemorySnapshotStorage<ShipmentWatcherState>()
+    await new ShipmentWatcher(client, { storage }).watch(['ship-001'])
+    await new ShipmentWatcher(client, { storage }).poll()
+
+    fake.setShipmentStatus('ship-001', 'PICKING')
+    const resumed = new ShipmentWatcher(client, { storage })
+    const events = record(resumed)
+    await resumed.poll()
+
+    expect(events).toEqual(['statusChanged ship-001 PENDING->PICKING'])
+    expect(await storage.load()).toEqual({
+      'ship-001': { status: 'PICKING', tracking_code: null },
+    })
+  })
+
+  it('リスナーが失敗した出荷依頼は次回に再度通知する', async () => {
+    addShipment('ship-001')
+    const watcher = new ShipmentWatcher(client)
+    await watcher.watch(['ship-001'])
+    await watcher.poll()
+    fake.setShipmentStatus('ship-001', 'PICKING')
+
+    let attempts = 0
+    watcher.on('statusChanged', () => {
+      attempts++
+      if (attempts === 1) {
+        throw new Error('order system unavailable')
+      }
+    })
+
+    await expect(watcher.poll()).rejects.toThrow('order system unavailable')
+    await watcher.poll()
+    await watcher.poll()
+
+    expect(attempts).toBe(2)
+  })
+
+  it('start()で定期実行し、エラーはerrorイベントで通知する', async () => {
+    addShipment('ship-001')
+    const watcher = new ShipmentWatcher(client, { interval: 10 })
+    const errors: unknown[] = []
+    const changed = new Promise<void>((resolve) => {
+      watcher.on('statusChanged', () => resolve())
+    })
+    watcher.on('statusChanged', () => {
+      throw new Error('listener failed')
+    })
+    watcher.on('error', ({ error }) => {
+      errors.push(error)
+    })
+    await watcher.watch(['ship-001'])
+
+    watcher.start()
+    await new Promise((resolve) => setTimeout(resolve, 30))
+    fake.setShipmentStatus('ship-001', 'PICKING')
+    await changed
+    await new Promise((resolve) => setTimeout(resolve, 30))
+    watcher.stop()
+
+    expect(errors.length).toBeGreaterThan(0)
+    expect(errors[0]).toEqual(new Error('listener failed'))
+  })
+})
@@ -0,0 +1,85 @@
+/**
+ * スナップショット保存先のテスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import {
+  MemorySnapshotStorage,
+  JsonFileSnapshotStorage,
+  KeyValueSnapshotStorage,
+  type KeyValueStore,
+} from '../src/index.js'
+
+describe('MemorySnapshotStorage', () => {
+  it('保存した状態を複製して返す', async () => {
+    const storage = new MemorySnapshotStorage<Record<string, number>>()
+    expect(await storage.load()).toBeUndefined()
+
+    const state = { a: 1 }
+    await storage.save(state)
+    state.a = 2
+
+    expect(await storage.load()).toEqual({ a: 1 })
+  })
+})
+
+describe('JsonFileSnapshotStorage', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'openlogi-storage-'))
+  })
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true })
+  })
+
+  it('ファイルがない場合はundefinedを返す', async () => {
+    const storage = new JsonFileSnapshotStorage(join(dir, 'state.json'))
+
+    expect(await storage.load()).toBeUndefined()
+  })
+
+  it('JSONファイルに保存し、別のインスタンスから読み込める', async () => {
+    const path = join(dir, 'state.json')
+    await new JsonFileSnapshotStorage(path).save({ 'ship-001': { status: 'PENDING' } })
+
+    expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({
+      'ship-001': { status: 'PENDING' },
+    })
+    expect(await new JsonFileSnapshotStorage(path).load()).toEqual({
+      'ship-001': { status: 'PENDING' },
+    })
+  })
+
+  it('JSONとして不正な場合はエラーをスローする', async () => {
+    const path = join(dir, 'state.json')
+    await writeFile(path, '{', 'utf8')
+
+    await expect(new JsonFileSnapshotStorage(path).load()).rejects.toThrow(SyntaxError)
+  })
+})
+
+describe('KeyValueSnapshotStorage', () => {
+  it('キーにJSONとして保存し、読み込む', async () => {
+    const values = new Map<string, string>()
+    const store: KeyValueStore = {
+      get: (key) => Promise.resolve(values.get(key) ?? null),
+      set: (key, value) => {
+        values.set(key, value)
+        return Promise.resolve('OK')
+      },
+    }
+    const storage = new KeyValueSnapshotStorage<Record<string, number>>(store, 'openlogi:state')
+
+    expect(await storage.load()).toBeUndefined()
+
+    await storage.save({ a: 1 })
+
+    expect(values.get('openlogi:state')).toBe('{"a":1}')
+    expect(await storage.load()).toEqual({ a: 1 })
+  })
+})
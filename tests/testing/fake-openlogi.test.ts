@@ -0,0 +1,272 @@
+/**
+ * テスト用フェイクサーバーのテスト
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest'
+import { server } from '../setup'
+import {
+  createClient,
+  createItem,
+  bulkCreateItems,
+  getItem,
+  listItemsByIds,
+  createShipment,
+  bulkCreateShipments,
+  updateShipment,
+  getShipment,
+  cancelShipment,
+  getShipmentByAccountId,
+  listShippedShipments,
+  getShippedShipmentByDate,
+  createWarehousing,
+  listWarehousing,
+  getStockedWarehousing,
+  getStockedWarehousingByDate,
+  ValidationError,
+  NotFoundError,
+  type OpenLogiClient,
+} from '../../src/index.js'
+import {
+  FakeOpenLogi,
+  createItemFixture,
+  createShipmentFixture,
+  createWarehousingFixture,
+} from '../../src/testing/index.js'
+
+const recipient = {
+  name: '山田太郎',
+  postcode: '1700013',
+  prefecture: '東京都',
+  address1: '豊島区東池袋1-34-5',
+  phone: '0333333333',
+}
+
+describe('FakeOpenLogi', () => {
+  let fake: FakeOpenLogi
+  let client: OpenLogiClient
+
+  beforeEach(() => {
+    fake = new FakeOpenLogi()
+    server.use(...fake.handlers)
+    client = createClient({ apiToken: 'test-token' })
+  })
+
+  describe('商品', () => {
+    it('作成した商品を取得できる', async () => {
+      const created = await createItem(client, { code: 'SKU-001', name: '商品A' })
+      fake.setStock('SKU-001', 5)
+
+      const item = await getItem(client, created.id, { stock: 1 })
+
+      expect(item).toMatchObject({ id: created.id, code: 'SKU-001', name: '商品A', stock: 5 })
+      expect(fake.items.has(created.id)).toBe(true)
+    })
+
+    it('存在しないIDは一覧に含まれない', async () => {
+      const item = fake.addItem({ code: 'SKU-001' })
+
+      const result = await listItemsByIds(client, [item.id, 'missing'])
+
+      expect(result.items.map(({ id }) => id)).toEqual([item.id])
+      expect(result.missingIds).toEqual(['missing'])
+    })
+
+    it('重複する商品コードはバリデーションエラーになる', async () => {
+      fake.addItem({ code: 'SKU-001' })
+
+      await expect(createItem(client, { code: 'SKU-001' })).rejects.toThrow(ValidationError)
+    })
+
+    it('一括登録は1件でもエラーがあれば何も登録しない', async () => {
+      fake.addItem({ code: 'SKU-003' })
+
+      await expect(
+        bulkCreateItems(client, { items: [{ code: 'SKU-001' }, { code: 'SKU-001' }] }),
+      ).rejects.toThrow(ValidationError)
+      await expect(
+        bulkCreateItems(client, { items: [{ code: 'SKU-002' }, { code: 'SKU-003' }] }),
+      ).rejects.toThrow(ValidationError)
+      expect([...fake.items.values()].map(({ code }) => code)).toEqual(['SKU-003'])
+    })
+  })
+
+  describe('出荷依頼', () => {
+    it('作成した出荷依頼を取得・キャンセルできる', async () => {
+      const created = await createShipment(client, {
+        order_no: 'ORDER-001',
+        items: [{ code: 'SKU-001', quantity: 1 }],
+        recipient,
+      })
+
+      expect(await getShipment(client, created.id)).toMatchObject({
+        order_no: 'ORDER-001',
+        status: 'PENDING',
+      })
+      expect(await getShipmentByAccountId(client, 'TS001', 'ORDER-001')).toMatchObject({
+        id: created.id,
+      })
+
+      const cancelled = await cancelShipment(client, created.id)
+
+      expect(cancelled.status).toBe('CANCELLED')
+      expect(fake.shipments.get(created.id)?.status).toBe('CANCELLED')
+    })
+
+    it('同じorder_noの出荷依頼は作成できない', async () => {
+      const data = { order_no: 'ORDER-001', items: [{ code: 'SKU-001', quantity: 1 }], recipient }
+      await createShipment(client, data)
+
+      await expect(createShipment(client, data)).rejects.toThrow(ValidationError)
+    })
+
+    it('一括作成は1件でもエラーがあれば何も作成しない', async () => {
+      const items = [{ code: 'SKU-001', quantity: 1 }]
+      await createShipment(client, { order_no: 'ORDER-003', items, recipient })
+
+      await expect(
+        bulkCreateShipments(client, {
+          shipments: [
+            { order_no: 'ORDER-001', items, recipient },
+            { order_no: 'ORDER-001', items, recipient },
+          ],
+        }),
+      ).rejects.toThrow(ValidationError)
+      await expect(
+        bulkCreateShipments(client, {
+          shipments: [
+            { order_no: 'ORDER-002', items, recipient },
+            { order_no: 'ORDER-003', items, recipient },
+          ],
+        }),
+      ).rejects.toThrow(ValidationError)
+      expect([...fake.shipments.values()].map(({ order_no }) => order_no)).toEqual(['ORDER-003'])
+    })
+
+    it('更新後の出荷依頼をスキーマで検証する', async () => {
+      const created = await createShipment(client, {
+        order_no: 'ORDER-001',
+        items: [{ code: 'SKU-001', quantity: 1 }],
+        recipient,
+      })
+
+      const updated = await updateShipment(client, created.id, { message: 'よろしくお願いします' })
+
+      expect(updated).toMatchObject({ id: created.id, message: 'よろしくお願いします' })
+      expect(fake.shipments.get(created.id)).toEqual(updated)
+    })
+
+    it('出荷済みの出荷依頼はキャンセルできない', async () => {
+      const created = await createShipment(client, {
+        order_no: 'ORDER-001',
+        items: [{ code: 'SKU-001', quantity: 1 }],
+        recipient,
+      })
+      fake.shipShipment(created.id)
+
+      await expect(cancelShipment(client, created.id)).rejects.toThrow(/SHIPPED/)
+    })
+
+    it('出荷すると在庫が減り、出荷実績に含まれる', async () => {
+      fake.addItem({ code: 'SKU-001', stock: 10 })
+      const created = await createShipment(client, {
+        order_no: 'ORDER-001',
+        items: [{ code: 'SKU-001', quantity: 3 }],
+        recipient,
+      })
+
+      fake.shipShipment(created.id, {
+        shippedAt: new Date(2025, 0, 20, 12),
+        trackingCode: 'TRACK-001',
+      })
+
+      expect(fake.stock.get('SKU-001')).toBe(7)
+      const shipped = await getShippedShipmentByDate(client, 2025, 1, 20)
+      expect(shipped.shipments.map(({ id }) => id)).toEqual([created.id])
+      expect(shipped.shipments[0]?.tracking_code).toBe('TRACK-001')
+      expect((await getShippedShipmentByDate(client, 2025, 1)).shipments).toHaveLength(1)
+      expect((await getShippedShipmentByDate(client, 2025, 1, 21)).shipments).toEqual([])
+    })
+
+    it('直近の出荷実績は実績のある直近1日分のみを返す', async () => {
+      fake.addItem({ code: 'SKU-001', stock: 10 })
+      const ids: string[] = []
+      for (const [orderNo, day] of [
+        ['ORDER-001', 10],
+        ['ORDER-002', 20],
+        ['ORDER-003', 20],
+      ] as const) {
+        const created = await createShipment(client, {
+          order_no: orderNo,
+          items: [{ code: 'SKU-001', quantity: 1 }],
+          recipient,
+        })
+        fake.shipShipment(created.id, { shippedAt: new Date(2025, 0, day, 12) })
+        ids.push(created.id)
+      }
+
+      const idsOf = async (query: Parameters<typeof listShippedShipments>[1]) =>
+        (await listShippedShipments(client, query)).shipments.map(({ id }) => id)
+
+      expect(await idsOf(undefined)).toEqual([ids[1], ids[2]])
+      expect(await idsOf({ date_before: '20250119' })).toEqual([ids[0]])
+      expect(await idsOf({ date_after: '20250111' })).toEqual([ids[1], ids[2]])
+      // date_beforeと一緒に指定したdate_afterは無視される
+      expect(await idsOf({ date_after: '20250111', date_before: '20250115' })).toEqual([ids[0]])
+      expect(await idsOf({ date_before: '20250109' })).toEqual([])
+    })
+  })
+
+  describe('入荷依頼', () => {
+    it('入庫すると在庫が増え、入荷実績に含まれる', async () => {
+      const item = fake.addItem({ code: 'SKU-001' })
+      const created = await createWarehousing(client, {
+        inspection_type: 'CODE',
+        items: [{ code: 'SKU-001', quantity: 4 }],
+        arrival_date: '2025-01-20',
+      })
+
+      expect((await listWarehousing(client)).warehousings.map(({ id }) => id)).toEqual([created.id])
+
+      fake.stockWarehousing(created.id, { stockedAt: new Date(2025, 0, 20, 12) })
+
+      expect((await getItem(client, item.id, { stock: 1 })).stock).toBe(4)
+      expect((await listWarehousing(client)).warehousings).toEqual([])
+      const stocked = await getStockedWarehousingByDate(client, 2025, 1, 20)
+      expect(stocked.warehousings[0]?.items[0]).toMatchObject({ code: 'SKU-001', received: 4 })
+      const latest = await getStockedWarehousing(client, { date_before: '20250131' })
+      expect(latest.warehousings.map(({ id }) => id)).toEqual([created.id])
+      expect(
+        (await getStockedWarehousing(client, { date_after: '20250121' })).warehousings,
+      ).toEqual([])
+    })
+
+    it('存在しない商品コードはバリデーションエラーになる', async () => {
+      await expect(
+        createWarehousing(client, {
+          inspection_type: 'CODE',
+          items: [{ code: 'UNKNOWN', quantity: 1 }],
+          arrival_date: '2025-01-20',
+        }),
+      ).rejects.toThrow(ValidationError)
+    })
+  })
+
+  it('resetで保持しているデータを削除する', async () => {
+    const item = fake.addItem()
+    fake.reset()
+
+    await expect(getItem(client, item.id)).rejects.toThrow(NotFoundError)
+  })
+})
+
+describe('フィクスチャ', () => {
+  it('スキーマに適合したデータを生成する', () => {
+    expect(createItemFixture({ code: 'SKU-001' })).toMatchObject({ code: 'SKU-001' })
+    expect(createShipmentFixture().status).toBe('PENDING')
+    expect(createWarehousingFixture().status).toBe('waiting')
+  })
+
+  it('スキーマに適合しない上書きはエラーになる', () => {
+    expect(() => createShipmentFixture({ status: 'UNKNOWN' as never })).toThrow()
+  })
+})
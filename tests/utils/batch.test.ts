@@ -0,0 +1,155 @@
+/**
+ * バッチ処理ユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { chunk, mapWithConcurrency, fetchByIds, createInBatches } from '../../src/utils/batch'
+
+describe('chunk', () => {
+  it('指定サイズごとに分割する', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]])
+  })
+
+  it('空配列は空のチャンク配列になる', () => {
+    expect(chunk([], 3)).toEqual([])
+  })
+
+  it('不正なサイズはRangeErrorとなる', () => {
+    expect(() => chunk([1], 0)).toThrow(RangeError)
+  })
+})
+
+describe('mapWithConcurrency', () => {
+  it('入力順に結果を返す', async () => {
+    const result = await mapWithConcurrency([30, 10, 20], 3, async (ms, index) => {
+      await new Promise((resolve) => setTimeout(resolve, ms))
+      return index
+    })
+
+    expect(result).toEqual([0, 1, 2])
+  })
+
+  it('並列数を超えて実行しない', async () => {
+    let active = 0
+    let maxActive = 0
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 2, async () => {
+      active++
+      maxActive = Math.max(maxActive, active)
+      await new Promise((resolve) => setTimeout(resolve, 5))
+      active--
+    })
+
+    expect(maxActive).toBe(2)
+  })
+})
+
+describe('fetchByIds', () => {
+  it('重複を除いて入力順にマージし、欠落IDを報告する', async () => {
+    const calls: string[][] = []
+    const result = await fetchByIds(['c', 'a', 'b', 'a', 'x'], { chunkSize: 2 }, async (ids) => {
+      calls.push(ids)
+      return ids.filter((id) => id !== 'x').map((id) => ({ id }))
+    })
+
+    expect(calls).toEqual([
+      ['c', 'a'],
+      ['b', 'x'],
+    ])
+    expect(result.found.map((record) => record.id)).toEqual(['c', 'a', 'b'])
+    expect(result.missingIds).toEqual(['x'])
+  })
+
+  it('chunkSizeが100を超える場合はRangeErrorとなる', async () => {
+    await expect(fetchByIds(['a'], { chunkSize: 101 }, async () => [])).rejects.toThrow(RangeError)
+  })
+})
+
+describe('createInBatches', () => {
+  const handlers = (calls: string[][], failing: string[] = []) => ({
+    validate: (value: string) =>
+      value.startsWith('!') ? new Error(`invalid: ${value}`) : undefined,
+    keyOf: (value: string) => value,
+    resultKeyOf: (result: { key: string }) => result.key,
+    createChunk: async (values: string[]) => {
+      calls.push(values)
+      if (values.some((value) => failing.includes(value))) {
+        throw new Error('chunk failed')
+      }
+      // 順序を入れ替えて返してもキーで対応付ける
+      return values.map((key) => ({ key })).reverse()
+    },
+  })
+
+  it('有効な要素のみをチャンクに分割して作成し、結果を入力と対応付ける', async () => {
+    const calls: string[][] = []
+    const result = await createInBatches(
+      ['a', '!b', 'c', 'a', 'd'],
+      { chunkSize: 2 },
+      handlers(calls),
+    )
+
+    expect(calls).toEqual([['a', 'c'], ['d']])
+    expect(result.succeeded).toEqual([
+      { index: 0, input: 'a', result: { key: 'a' } },
+      { index: 2, input: 'c', result: { key: 'c' } },
+      { index: 4, input: 'd', result: { key: 'd' } },
+    ])
+    expect(result.failed).toEqual([{ index: 1, input: '!b', error: new Error('invalid: !b') }])
+    expect(result.skipped).toEqual([{ index: 3, input: 'a', reason: 'duplicate' }])
+  })
+
+  it('失敗したチャンクの要素を記録し、残りのチャンクを続ける', async () => {
+    const calls: string[][] = []
+    const result = await createInBatches(
+      ['a', 'b', 'c', 'd'],
+      { chunkSize: 2 },
+      handlers(calls, ['a']),
+    )
+
+    expect(calls).toHaveLength(2)
+    expect(result.failed.map(({ index }) => index)).toEqual([0, 1])
+    expect(result.failed[0]?.error).toEqual(new Error('chunk failed'))
+    expect(result.succeeded.map(({ input }) => input)).toEqual(['c', 'd'])
+  })
+
+  it('キーのある要素の結果が返されない場合は、同じ位置の結果を使わずに失敗とする', async () => {
+    const result = await createInBatches(
+      ['a', 'b', 'c'],
+      {},
+      {
+        validate: () => undefined,
+        keyOf: (value: string) => (value === 'c' ? undefined : value),
+        resultKeyOf: (result: { key: string | undefined }) => result.key,
+        createChunk: async () => [{ key: 'x' }, { key: 'b' }, { key: undefined }],
+      },
+    )
+
+    expect(result.succeeded).toEqual([
+      { index: 1, input: 'b', result: { key: 'b' } },
+      { index: 2, input: 'c', result: { key: undefined } },
+    ])
+    expect(result.failed).toMatchObject([{ index: 0, input: 'a' }])
+  })
+
+  it('stopOnErrorの場合は失敗後のチャンクを送信しない', async () => {
+    const calls: string[][] = []
+    const result = await createInBatches(
+      ['a', 'b', 'c', 'd'],
+      { chunkSize: 2, stopOnError: true },
+      handlers(calls, ['a']),
+    )
+
+    expect(calls).toHaveLength(1)
+    expect(result.skipped).toEqual([
+      { index: 2, input: 'c', reason: 'aborted' },
+      { index: 3, input: 'd', reason: 'aborted' },
+    ])
+  })
+
+  it('chunkSizeが1-100の整数でない場合はRangeErrorを投げる', async () => {
+    await expect(createInBatches(['a'], { chunkSize: 101 }, handlers([]))).rejects.toThrow(
+      RangeError,
+    )
+  })
+})
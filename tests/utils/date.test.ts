@@ -0,0 +1,76 @@
+/**
+ * 日付ユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { formatCompactDate, splitDateParts, splitDateRange } from '../../src/utils/date'
+import { ValidationError } from '../../src/errors'
+
+describe('formatCompactDate', () => {
+  it('YYYYMMDD形式に変換する', () => {
+    expect(formatCompactDate(new Date(2025, 0, 5))).toBe('20250105')
+  })
+})
+
+describe('splitDateRange', () => {
+  it('日単位で分割する（時刻は無視する）', () => {
+    const windows = splitDateRange({
+      from: new Date(2025, 0, 30, 15, 0),
+      to: new Date(2025, 1, 1, 9, 0),
+    })
+
+    expect(windows.map(({ start }) => formatCompactDate(start))).toEqual([
+      '20250130',
+      '20250131',
+      '20250201',
+    ])
+  })
+
+  it('月単位で分割し、両端をfrom/toで切り詰める', () => {
+    const windows = splitDateRange({
+      from: new Date(2025, 0, 20),
+      to: new Date(2025, 2, 10),
+      step: 'month',
+    })
+
+    expect(
+      windows.map(({ start, end }) => [formatCompactDate(start), formatCompactDate(end)]),
+    ).toEqual([
+      ['20250120', '20250131'],
+      ['20250201', '20250228'],
+      ['20250301', '20250310'],
+    ])
+  })
+
+  it('fromがtoより後の場合はValidationErrorとなる', () => {
+    expect(() => splitDateRange({ from: new Date(2025, 1, 1), to: new Date(2025, 0, 1) })).toThrow(
+      ValidationError,
+    )
+  })
+
+  it('不正な日付はValidationErrorとなる', () => {
+    expect(() => splitDateRange({ from: new Date('invalid'), to: new Date() })).toThrow(
+      ValidationError,
+    )
+  })
+})
+
+describe('splitDateParts', () => {
+  it('日単位では1日ずつ返す', () => {
+    expect(splitDateParts({ from: new Date(2025, 0, 31), to: new Date(2025, 1, 1) })).toEqual([
+      { year: 2025, month: 1, day: 31 },
+      { year: 2025, month: 2, day: 1 },
+    ])
+  })
+
+  it('月単位では1ヶ月全体を含む月は年月のみ、切り詰めた月は1日ずつ返す', () => {
+    expect(
+      splitDateParts({ from: new Date(2024, 11, 30), to: new Date(2025, 1, 28), step: 'month' }),
+    ).toEqual([
+      { year: 2024, month: 12, day: 30 },
+      { year: 2024, month: 12, day: 31 },
+      { year: 2025, month: 1 },
+      { year: 2025, month: 2 },
+    ])
+  })
+})
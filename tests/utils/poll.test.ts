@@ -0,0 +1,121 @@
+/**
+ * ポーリングユーティリティのテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { pollUntilStatus } from '../../src/utils/poll'
+import { WaitForStatusError } from '../../src/errors'
+
+type Status = 'a' | 'b' | 'c' | 'x'
+
+/**
+ * 呼び出しごとに順にステータスを返す取得関数（最後のステータスを繰り返す）
+ */
+function sequence(statuses: Status[]) {
+  const calls: number[] = []
+  const fetch = async () => {
+    calls.push(Date.now())
+    const status = statuses[Math.min(calls.length, statuses.length) - 1]
+    return { id: 'res-001', status }
+  }
+  return { fetch, calls }
+}
+
+describe('pollUntilStatus', () => {
+  it('目的のステータスになるまで取得を繰り返す', async () => {
+    const { fetch, calls } = sequence(['a', 'a', 'b', 'c'])
+
+    const resource = await pollUntilStatus(fetch, 'res-001', ['c'], { interval: 5 })
+
+    expect(resource.status).toBe('c')
+    expect(calls).toHaveLength(4)
+  })
+
+  it('ステータスが変わらない間は間隔を延ばし、変わると初期値に戻す', async () => {
+    const { fetch, calls } = sequence(['a', 'a', 'a', 'b', 'b', 'c'])
+
+    await pollUntilStatus(fetch, 'res-001', ['c'], { interval: 20, backoffFactor: 2 })
+
+    const gaps = calls.slice(1).map((at, i) => at - (calls[i] ?? 0))
+    // a→a: 20ms, a→a: 40ms, a→b: 80ms, b→b: 20ms（リセット）, b→c: 40ms
+    expect(gaps[1]).toBeGreaterThanOrEqual(35)
+    expect(gaps[2]).toBeGreaterThanOrEqual(75)
+    expect(gaps[3]).toBeLessThan(60)
+  })
+
+  it('ステータスが変わるたびにコールバックを呼び出す', async () => {
+    const { fetch } = sequence(['a', 'a', 'b', 'c'])
+    const changes: Array<[string | undefined, string | undefined]> = []
+
+    await pollUntilStatus(fetch, 'res-001', ['c'], {
+      interval: 1,
+      onStatusChange: (resource, previous) => changes.push([previous, resource.status]),
+    })
+
+    expect(changes).toEqual([
+      [undefined, 'a'],
+      ['a', 'b'],
+      ['b', 'c'],
+    ])
+  })
+
+  it('タイムアウトするとWaitForStatusErrorをスローする', async () => {
+    const { fetch } = sequence(['a'])
+
+    const error = await pollUntilStatus(fetch, 'res-001', ['c'], {
+      interval: 10,
+      timeout: 50,
+    }).catch((e: unknown) => e)
+
+    expect(error).toBeInstanceOf(WaitForStatusError)
+    expect(error).toMatchObject({ reason: 'timeout', resourceId: 'res-001', lastStatus: 'a' })
+  })
+
+  it('到達できないステータスになると待機を終了する', async () => {
+    const { fetch, calls } = sequence(['a', 'x'])
+
+    await expect(
+      pollUntilStatus(fetch, 'res-001', ['c'], { interval: 1 }, (status) => status === 'x'),
+    ).rejects.toMatchObject({ reason: 'unreachable', lastStatus: 'x' })
+    expect(calls).toHaveLength(2)
+  })
+
+  it('AbortSignalで待機を中断できる', async () => {
+    const { fetch } = sequence(['a'])
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(new Error('aborted')), 20)
+
+    await expect(
+      pollUntilStatus(fetch, 'res-001', ['c'], { interval: 1000, signal: controller.signal }),
+    ).rejects.toThrow('aborted')
+  })
+
+  it('AbortSignalで実行中の取得を中断できる', async () => {
+    const controller = new AbortController()
+    const received: Array<AbortSignal | undefined> = []
+    const fetch = (signal: AbortSignal | undefined) => {
+      received.push(signal)
+      return new Promise<{ status: Status }>((_, reject) => {
+        signal?.addEventListener('abort', () => reject(new Error('request aborted')))
+      })
+    }
+    setTimeout(() => controller.abort(new Error('aborted')), 20)
+
+    await expect(
+      pollUntilStatus(fetch, 'res-001', ['c'], { interval: 1000, signal: controller.signal }),
+    ).rejects.toThrow(/^aborted$/)
+    expect(received).toEqual([controller.signal])
+  })
+
+  it('不正なオプションはRangeErrorとなる', async () => {
+    const { fetch } = sequence(['a'])
+
+    await expect(pollUntilStatus(fetch, 'res-001', [], {})).rejects.toThrow(RangeError)
+    await expect(pollUntilStatus(fetch, 'res-001', ['c'], { interval: 0 })).rejects.toThrow(
+      RangeError,
+    )
+    await expect(
+      pollUntilStatus(fetch, 'res-001', ['c'], { interval: 100, maxInterval: 10 }),
+    ).rejects.toThrow(RangeError)
+  })
+})
@@ -0,0 +1,325 @@
+/**
+ * Webhookリレーのテスト
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { http, HttpResponse, passthrough } from 'msw'
+import { mkdtemp, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { server } from '../setup'
+import {
+  createClient,
+  createWarehousing,
+  MemorySnapshotStorage,
+  type OpenLogiClient,
+} from '../../src/index.js'
+import { FakeOpenLogi, createShipmentFixture } from '../../src/testing/index.js'
+import { formatDateString } from '../../src/utils/date.js'
+import {
+  WebhookRelay,
+  createWebhookRelayServer,
+  verifyWebhookSignature,
+  type WebhookRelayState,
+} from '../../src/webhooks/index.js'
+
+const HOOK_URL = 'https://hooks.example.com/openlogi'
+const secret = 'test-secret'
+
+interface Delivery {
+  event: string | null
+  delivery: string | null
+  verified: boolean
+  body: { type: string; data: { id: string } }
+}
+
+describe('WebhookRelay', () => {
+  let fake: FakeOpenLogi
+  let client: OpenLogiClient
+  let deliveries: Delivery[]
+
+  beforeEach(() => {
+    fake = new FakeOpenLogi()
+    deliveries = []
+    server.use(
+      ...fake.handlers,
+      http.post(HOOK_URL, async ({ request }) => {
+        const body = await request.text()
+        deliveries.push({
+          event: request.headers.get('x-openlogi-event'),
+          delivery: request.headers.get('x-openlogi-delivery'),
+          verified: verifyWebhookSignature({
+            secret,
+            body,
+            signature: request.headers.get('x-openlogi-signature'),
+            timestamp: request.headers.get('x-openlogi-timestamp'),
+          }),
+          body: JSON.parse(body),
+        })
+        return new HttpResponse(null, { status: 204 })
+      }),
+    )
+    client = createClient({ apiToken: 'test-token' })
+  })
+
+  function addShipment(id: string) {
+    fake.shipments.set(id, createShipmentFixture({ id }))
+  }
+
+  it('初回は既存の実績を記録し、新しい出荷・入庫を署名付きで送信する', async () => {
+    addShipment('ship-001')
+    addShipment('ship-002')
+    fake.shipShipment('ship-001')
+    const relay = new WebhookRelay(client, { secret, endpoints: [HOOK_URL] })
+
+    expect((await relay.poll()).events).toEqual([])
+
+    fake.shipShipment('ship-002')
+    fake.addItem({ code: 'TEST-001' })
+    const created = await createWarehousing(client, {
+      inspection_type: 'CODE',
+      items: [{ code: 'TEST-001', quantity: 1 }],
+      arrival_date: '2025-01-20',
+    })
+    fake.stockWarehousing(created.id)
+
+    const result = await relay.poll()
+
+    expect(result.events.map(({ id }) => id)).toEqual([
+      'shipment.shipped:ship-002',
+      `warehousing.stocked:${created.id}`,
+    ])
+    expect(deliveries).toEqual([
+      {
+        event: 'shipment.shipped',
+        delivery: 'shipment.shipped:ship-002',
+        verified: true,
+        body: expect.objectContaining({ type: 'shipment.shipped' }),
+      },
+      {
+        event: 'warehousing.stocked',
+        delivery: `warehousing.stocked:${created.id}`,
+        verified: true,
+        body: expect.objectContaining({ type: 'warehousing.stocked' }),
+      },
+    ])
+
+    expect((await relay.poll()).events).toEqual([])
+    expect(deliveries).toHaveLength(2)
+  })
+
+  it('送信先ごとにイベントの種別を絞り込める', async () => {
+    addShipment('ship-001')
+    const relay = new WebhookRelay(client, {
+      secret,
+      endpoints: [{ url: HOOK_URL, events: ['warehousing.stocked'] }],
+      deliverExisting: true,
+    })
+    fake.shipShipment('ship-001')
+
+    const result = await relay.poll()
+
+    expect(result.events).toHaveLength(1)
+    expect(deliveries).toEqual([])
+  })
+
+  describe('取得する日付', () => {
+    const daysAgo = (days: number, hours = 12) => {
+      const now = new Date()
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate() - days, hours)
+    }
+    it('前回取得した日付から今日まで1日ずつ取得し、間の日の実績も検出する', async () => {
+      const storage = new MemorySnapshotStorage<WebhookRelayState>()
+      await storage.save({
+        lastDate: formatDateString(daysAgo(3)),
+        seen: { 'shipment.shipped': {}, 'warehousing.stocked': {} },
+      })
+      addShipment('ship-001')
+      addShipment('ship-002')
+      fake.shipShipment('ship-001', { shippedAt: daysAgo(2) })
+      fake.shipShipment('ship-002', { shippedAt: daysAgo(0) })
+      const relay = new WebhookRelay(client, {
+        secret,
+        endpoints: [HOOK_URL],
+        events: ['shipment.shipped'],
+        storage,
+      })
+
+      const result = await relay.poll()
+
+      expect(result.events.map(({ id }) => id)).toEqual([
+        'shipment.shipped:ship-001',
+        'shipment.shipped:ship-002',
+      ])
+      expect((await storage.load())?.lastDate).toBe(formatDateString(daysAgo(0)))
+    })
+
+    it('初回はlookbackDays日分を取得する', async () => {
+      addShipment('ship-001')
+      addShipment('ship-002')
+      fake.shipShipment('ship-001', { shippedAt: daysAgo(1) })
+      fake.shipShipment('ship-002', { shippedAt: daysAgo(2) })
+      const relay = new WebhookRelay(client, {
+        secret,
+        endpoints: [HOOK_URL],
+        events: ['shipment.shipped'],
+        lookbackDays: 2,
+        deliverExisting: true,
+      })
+
+      const result = await relay.poll()
+
+      expect(result.events.map(({ id }) => id)).toEqual(['shipment.shipped:ship-001'])
+    })
+
+    it('検出済みのIDは取得結果に含まれる間は保持し、含まれなくなると削除する', async () => {
+      const storage = new MemorySnapshotStorage<WebhookRelayState>()
+      const detectedAt = daysAgo(1).toISOString()
+      await storage.save({
+        lastDate: formatDateString(daysAgo(1)),
+        seen: {
+          'shipment.shipped': { 'ship-001': detectedAt, 'ship-002': detectedAt },
+          'warehousing.stocked': {},
+        },
+      })
+      addShipment('ship-001')
+      addShipment('ship-002')
+      fake.shipShipment('ship-001', { shippedAt: daysAgo(1) })
+      fake.shipShipment('ship-002', { shippedAt: daysAgo(5) })
+      const relay = new WebhookRelay(client, {
+        secret,
+        endpoints: [HOOK_URL],
+        events: ['shipment.shipped'],
+        storage,
+      })
+
+      expect((await relay.poll()).events).toEqual([])
+      expect(deliveries).toEqual([])
+      expect((await storage.load())?.seen['shipment.shipped']).toEqual({ 'ship-001': detectedAt })
+    })
+  })
+
+  describe('送信の失敗', () => {
+    let dir: string
+
+    beforeEach(async () => {
+      dir = await mkdtemp(join(tmpdir(), 'openlogi-webhook-'))
+    })
+
+    afterEach(async () => {
+      await rm(dir, { recursive: true, force: true })
+    })
+
+    it('再試行して送信できた場合はデッドレターにしない', async () => {
+      let attempts = 0
+      server.use(
+        http.post(HOOK_URL, () => {
+          attempts++
+          return new HttpResponse(null, { status: attempts < 3 ? 503 : 200 })
+        }),
+      )
+      addShipment('ship-001')
+      fake.shipShipment('ship-001')
+      const relay = new WebhookRelay(client, {
+        secret,
+        endpoints: [HOOK_URL],
+        deliverExisting: true,
+        retryDelay: () => 1,
+      })
+
+      const result = await relay.poll()
+
+      expect(attempts).toBe(3)
+      expect(result.deadLetters).toEqual([])
+    })
+
+    it('再試行しても送信できない場合はデッドレターファイルに追記する', async () => {
+      server.use(http.post(HOOK_URL, () => new HttpResponse(null, { status: 500 })))
+      addShipment('ship-001')
+      fake.shipShipment('ship-001')
+      const deadLetterPath = join(dir, 'dead-letters.jsonl')
+      const storage = new MemorySnapshotStorage<WebhookRelayState>()
+      const relay = new WebhookRelay(client, {
+        secret,
+        endpoints: [HOOK_URL],
+        deliverExisting: true,
+        retries: 2,
+        retryDelay: () => 1,
+        storage,
+        deadLetterPath,
+      })
+
+      const result = await relay.poll()
+
+      expect(result.deadLetters).toMatchObject([{ url: HOOK_URL, attempts: 3, error: 'HTTP 500' }])
+      const lines = (await readFile(deadLetterPath, 'utf8')).trim().split('\n')
+      expect(lines).toHaveLength(1)
+      expect(JSON.parse(lines[0] ?? '')).toMatchObject({
+        event: { id: 'shipment.shipped:ship-001' },
+        attempts: 3,
+      })
+      // デッドレターにしたイベントは再送しない
+      expect(Object.keys((await storage.load())?.seen['shipment.shipped'] ?? {})).toEqual([
+        'ship-001',
+      ])
+    })
+  })
+})
+
+describe('createWebhookRelayServer', () => {
+  it('ヘルスチェックと手動ポーリングのエンドポイントを提供する', async () => {
+    const fake = new FakeOpenLogi()
+    server.use(...fake.handlers)
+    const relay = new WebhookRelay(createClient({ apiToken: 'test-token' }), {
+      secret,
+      endpoints: [HOOK_URL],
+    })
+    const httpServer = createWebhookRelayServer(relay, { pollToken: 'poll-token' })
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve))
+    const address = httpServer.address()
+    const baseUrl = `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`
+    server.use(http.all(`${baseUrl}/*`, () => passthrough()))
+
+    try {
+      const polled = await globalThis.fetch(`${baseUrl}/poll`, {
+        method: 'POST',
+        headers: { authorization: 'Bearer poll-token' },
+      })
+      expect(await polled.json()).toEqual({ events: 0, dead_letters: 0 })
+
+      const unauthorized = await globalThis.fetch(`${baseUrl}/poll`, {
+        method: 'POST',
+        headers: { authorization: 'Bearer wrong-token' },
+      })
+      expect(unauthorized.status).toBe(401)
+      expect((await globalThis.fetch(`${baseUrl}/poll`, { method: 'POST' })).status).toBe(401)
+
+      const health = await globalThis.fetch(`${baseUrl}/health`)
+      expect(health.status).toBe(200)
+      expect(await health.json()).toMatchObject({ status: 'ok', error: null })
+
+      expect((await globalThis.fetch(`${baseUrl}/unknown`)).status).toBe(404)
+    } finally {
+      await new Promise((resolve) => httpServer.close(resolve))
+    }
+  })
+
+  it('pollTokenを指定しない場合は手動ポーリングを提供しない', async () => {
+    const relay = new WebhookRelay(createClient({ apiToken: 'test-token' }), {
+      secret,
+      endpoints: [HOOK_URL],
+    })
+    const httpServer = createWebhookRelayServer(relay)
+    await new Promise<void>((resolve) => httpServer.listen(0, '127.0.0.1', resolve))
+    const address = httpServer.address()
+    const baseUrl = `http://127.0.0.1:${typeof address === 'object' && address ? address.port : 0}`
+    server.use(http.all(`${baseUrl}/*`, () => passthrough()))
+
+    try {
+      expect((await globalThis.fetch(`${baseUrl}/poll`, { method: 'POST' })).status).toBe(404)
+      expect(relay.lastPolledAt).toBeUndefined()
+    } finally {
+      await new Promise((resolve) => httpServer.close(resolve))
+    }
+  })
+})
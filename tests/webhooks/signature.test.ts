@@ -0,0 +1,57 @@
+/**
+ * Webhook署名のテスト
+ */
+
+import { describe, it, expect } from 'vitest'
+import { signWebhookPayload, verifyWebhookSignature } from '../../src/webhooks/index.js'
+
+const secret = 'test-secret'
+const body = JSON.stringify({ id: 'shipment.shipped:ship-001' })
+const now = new Date('2025-01-20T00:00:00Z')
+const timestamp = Math.floor(now.getTime() / 1000)
+
+describe('signWebhookPayload', () => {
+  it('タイムスタンプとボディのHMAC-SHA256を返す', () => {
+    const signature = signWebhookPayload(secret, timestamp, body)
+
+    expect(signature).toMatch(/^sha256=[0-9a-f]{64}$/)
+    expect(signWebhookPayload(secret, timestamp + 1, body)).not.toBe(signature)
+  })
+})
+
+describe('verifyWebhookSignature', () => {
+  const signature = signWebhookPayload(secret, timestamp, body)
+
+  it('正しい署名を受け入れる', () => {
+    expect(
+      verifyWebhookSignature({ secret, body, signature, timestamp: String(timestamp), now }),
+    ).toBe(true)
+  })
+
+  it('ボディ・シークレットが異なる場合は拒否する', () => {
+    const params = { signature, timestamp: String(timestamp), now }
+
+    expect(verifyWebhookSignature({ ...params, secret, body: `${body} ` })).toBe(false)
+    expect(verifyWebhookSignature({ ...params, secret: 'other', body })).toBe(false)
+  })
+
+  it('許容範囲外のタイムスタンプや欠落したヘッダーは拒否する', () => {
+    const later = new Date(now.getTime() + 301 * 1000)
+
+    expect(
+      verifyWebhookSignature({ secret, body, signature, timestamp: String(timestamp), now: later }),
+    ).toBe(false)
+    expect(verifyWebhookSignature({ secret, body, signature: undefined, timestamp: '1' })).toBe(
+      false,
+    )
+    expect(verifyWebhookSignature({ secret, body, signature, timestamp: 'abc', now })).toBe(false)
+  })
+
+  it('Node.jsのヘッダーの配列は値が1つの場合のみ受け入れる', () => {
+    const params = { secret, body, timestamp: [String(timestamp)], now }
+
+    expect(verifyWebhookSignature({ ...params, signature: [signature] })).toBe(true)
+    expect(verifyWebhookSignature({ ...params, signature: [signature, signature] })).toBe(false)
+    expect(verifyWebhookSignature({ ...params, signature: [] })).toBe(false)
+  })
+})
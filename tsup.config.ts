@@ -1,7 +1,11 @@
 import { defineConfig } from 'tsup'
 
 export default defineConfig({
-  entry: ['src/index.ts'],
+  entry: {
+    index: 'src/index.ts',
+    'testing/index': 'src/testing/index.ts',
+    'webhooks/index': 'src/webhooks/index.ts',
+  },
   format: ['esm', 'cjs'],
   dts: true,
   sourcemap: true,